@@ -9,9 +9,13 @@ import ModelsOverviewPage from "./pages/ModelsOverviewPage";
 import ModelDetailPage from "./pages/ModelDetailPage";
 import ScenariosPage from "./pages/ScenariosPage";
 import ScenarioDetailPage from "./pages/ScenarioDetailPage";
+import PostDealTrackingPage from "./pages/PostDealTrackingPage";
+import ScenarioComparePage from "./pages/ScenarioComparePage";
 import TargetsListPage from "./pages/TargetsListPage";
 import TargetOverviewPage from "./pages/TargetOverviewPage";
 import TargetComparePage from "./pages/TargetComparePage";
+import AuditLogPage from "./pages/AuditLogPage";
+import ComparablesPage from "./pages/ComparablesPage";
 import ErrorBoundary from "./components/ErrorBoundary";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -20,6 +24,12 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { isAdmin } = useAuth();
+  if (!isAdmin) return <Navigate to="/" replace />;
+  return <>{children}</>;
+}
+
 function AppRoutes() {
   const { isAuthenticated } = useAuth();
 
@@ -45,7 +55,11 @@ function AppRoutes() {
           <Route path="/models" element={<ErrorBoundary><ModelsOverviewPage /></ErrorBoundary>} />
           <Route path="/models/:id" element={<ErrorBoundary><ModelDetailPage /></ErrorBoundary>} />
           <Route path="/scenarios" element={<ErrorBoundary><ScenariosPage /></ErrorBoundary>} />
+          <Route path="/scenarios/compare" element={<ErrorBoundary><ScenarioComparePage /></ErrorBoundary>} />
           <Route path="/scenarios/:id" element={<ErrorBoundary><ScenarioDetailPage /></ErrorBoundary>} />
+          <Route path="/scenarios/:id/tracking" element={<ErrorBoundary><PostDealTrackingPage /></ErrorBoundary>} />
+          <Route path="/comparables" element={<ErrorBoundary><ComparablesPage /></ErrorBoundary>} />
+          <Route path="/audit" element={<AdminRoute><ErrorBoundary><AuditLogPage /></ErrorBoundary></AdminRoute>} />
         </Route>
     </Routes>
   );
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import { useTranslation } from "react-i18next";
 import api from "../services/api";
 import { getErrorMessage } from "../utils/errors";
+import { useAuth } from "../hooks/useAuth";
 import type { CompanyAssumptions as CompanyAssumptionsType } from "../types";
 import { Settings, Save, RefreshCw, CheckCircle, AlertTriangle, Info } from "lucide-react";
 
@@ -82,6 +83,7 @@ export default function CompanyAssumptions({ companyId }: Props) {
   const [dirty, setDirty] = useState(false);
   const [collapsed, setCollapsed] = useState(false);
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
 
   const fetchAssumptions = useCallback(async () => {
     setLoading(true);
@@ -277,7 +279,8 @@ export default function CompanyAssumptions({ companyId }: Props) {
                           type="text"
                           value={editValues[f.key] ?? ""}
                           onChange={(e) => handleChange(f.key, e.target.value)}
-                          className="w-full px-3 py-1.5 pr-14 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none tabular-nums text-right"
+                          readOnly={!canEdit}
+                          className="w-full px-3 py-1.5 pr-14 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none tabular-nums text-right read-only:bg-gray-50"
                           placeholder="—"
                         />
                         <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
@@ -291,41 +294,43 @@ export default function CompanyAssumptions({ companyId }: Props) {
             ))}
           </div>
 
-          {/* Action buttons */}
-          <div className="flex items-center gap-3 mt-6 pt-4 border-t border-gray-100">
-            <button
-              onClick={handleSave}
-              disabled={!dirty || saving}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                dirty
-                  ? "bg-amber-600 text-white hover:bg-amber-700"
-                  : "bg-gray-100 text-gray-400 cursor-not-allowed"
-              }`}
-            >
-              {saving ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Save size={14} />
-              )}
-              {saving ? t("assumptions.saving") : t("assumptions.saveAssumptions")}
-            </button>
-
-            {dirty && (
+          {/* Action buttons (hidden for read-only users) */}
+          {canEdit && (
+            <div className="flex items-center gap-3 mt-6 pt-4 border-t border-gray-100">
               <button
-                onClick={handleReset}
-                className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-600 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  dirty
+                    ? "bg-amber-600 text-white hover:bg-amber-700"
+                    : "bg-gray-100 text-gray-400 cursor-not-allowed"
+                }`}
               >
-                <RefreshCw size={14} />
-                {t("assumptions.reset")}
+                {saving ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Save size={14} />
+                )}
+                {saving ? t("assumptions.saving") : t("assumptions.saveAssumptions")}
               </button>
-            )}
 
-            {dirty && (
-              <span className="text-xs text-amber-600 ml-2">
-                {t("assumptions.unsavedChanges")}
-              </span>
-            )}
-          </div>
+              {dirty && (
+                <button
+                  onClick={handleReset}
+                  className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-600 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+                >
+                  <RefreshCw size={14} />
+                  {t("assumptions.reset")}
+                </button>
+              )}
+
+              {dirty && (
+                <span className="text-xs text-amber-600 ml-2">
+                  {t("assumptions.unsavedChanges")}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, FileSpreadsheet } from "lucide-react";
+import type { ExcelImportPreview as ExcelImportPreviewType, ExcelImportSelection, ModelImportPreview } from "../types";
+import { Button } from "./ui";
+import UnmappedLabels from "./UnmappedLabels";
+import { formatDiffValue } from "./scenario/helpers";
+import { buildExcelImportSelection, type ExcelImportExclusions } from "../utils/excelImport";
+
+interface Props {
+  preview: ExcelImportPreviewType;
+  companyId: number;
+  fileName: string;
+  committing: boolean;
+  onConfirm: (selection: ExcelImportSelection) => void;
+  onCancel: () => void;
+  /** Re-run the dry run, e.g. after a label rule was saved. */
+  onRefresh: () => void;
+}
+
+/**
+ * Dry-run result of an Excel upload: the parsed models, the year columns and
+ * labels the parser found, and a per-field diff against existing periods.
+ * Models and fields can be unticked before the import is committed.
+ */
+export default function ExcelImportPreview({ preview, companyId, fileName, committing, onConfirm, onCancel, onRefresh }: Props) {
+  const { t } = useTranslation();
+  const [exclusions, setExclusions] = useState<ExcelImportExclusions>({
+    models: [],
+    fields: {},
+    inputParameters: true,
+  });
+
+  const toggleModel = (name: string) => {
+    setExclusions((prev) => ({
+      ...prev,
+      models: prev.models.includes(name) ? prev.models.filter((m) => m !== name) : [...prev.models, name],
+    }));
+  };
+
+  const toggleField = (model: string, field: string) => {
+    setExclusions((prev) => {
+      const current = prev.fields[model] ?? [];
+      const next = current.includes(field) ? current.filter((f) => f !== field) : [...current, field];
+      return { ...prev, fields: { ...prev.fields, [model]: next } };
+    });
+  };
+
+  const selectedCount = preview.models.length - exclusions.models.length;
+  const hasInputParameters = Object.keys(preview.input_parameters).length > 0;
+
+  return (
+    <div className="mt-3 bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{t("excelPreview.title")}</p>
+          <p className="text-xs text-gray-500 mt-0.5">{t("excelPreview.subtitle", { file: fileName })}</p>
+        </div>
+      </div>
+
+      {preview.warnings.length > 0 && (
+        <div className="mb-3 space-y-0.5">
+          {preview.warnings.map((w, i) => (
+            <div key={i} className="flex items-center gap-1.5 text-xs text-amber-700">
+              <AlertTriangle size={10} />
+              {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {preview.models.map((m) => (
+          <ModelPreview
+            key={m.name}
+            model={m}
+            companyId={companyId}
+            onRuleSaved={onRefresh}
+            included={!exclusions.models.includes(m.name)}
+            excludedFields={exclusions.fields[m.name] ?? []}
+            onToggleModel={() => toggleModel(m.name)}
+            onToggleField={(field) => toggleField(m.name, field)}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-100">
+        {hasInputParameters ? (
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={exclusions.inputParameters}
+              onChange={(e) => setExclusions((prev) => ({ ...prev, inputParameters: e.target.checked }))}
+            />
+            {t("excelPreview.applyInputParameters", { count: Object.keys(preview.input_parameters).length })}
+          </label>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={onCancel} disabled={committing}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onConfirm(buildExcelImportSelection(preview, exclusions))}
+            disabled={committing || selectedCount === 0}
+          >
+            {committing ? t("companyDetail.importing") : t("excelPreview.confirm", { count: selectedCount })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ModelPreviewProps {
+  model: ModelImportPreview;
+  companyId: number;
+  onRuleSaved: () => void;
+  included: boolean;
+  excludedFields: string[];
+  onToggleModel: () => void;
+  onToggleField: (field: string) => void;
+}
+
+function ModelPreview({ model, companyId, onRuleSaved, included, excludedFields, onToggleModel, onToggleField }: ModelPreviewProps) {
+  const { t } = useTranslation();
+  const changes = model.changes.filter((c) => !excludedFields.includes(c.field));
+  const thCls = "text-left py-1 px-2 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className={`border rounded-lg p-3 ${included ? "border-gray-200" : "border-gray-100 opacity-60"}`}>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={included} onChange={onToggleModel} />
+        <FileSpreadsheet size={14} className="text-ecit-navy" />
+        <span className="font-medium text-gray-900">{model.name}</span>
+        <span
+          className={`text-[10px] px-1.5 py-0.5 rounded ${
+            model.action === "create" ? "bg-blue-50 text-blue-700" : "bg-amber-50 text-amber-700"
+          }`}
+        >
+          {model.action === "create" ? t("companyDetail.new") : t("excelPreview.overwrites")}
+        </span>
+        {model.source && <span className="text-xs text-gray-400">{model.source}</span>}
+      </label>
+
+      {included && (
+        <div className="mt-2 ml-6 space-y-2 text-xs">
+          <p className="text-gray-500">
+            {t("excelPreview.yearColumns")}:{" "}
+            {model.year_columns.length > 0
+              ? model.year_columns.map((c) => `${c.column}${c.row} → ${c.period_label ?? c.year}`).join(", ")
+              : "–"}
+          </p>
+
+          <UnmappedLabels labels={model.unmapped_labels} companyId={companyId} onRuleSaved={onRuleSaved} />
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {model.fields.map((field) => (
+              <label key={field} className="flex items-center gap-1 font-mono text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!excludedFields.includes(field)}
+                  onChange={() => onToggleField(field)}
+                />
+                {field}
+              </label>
+            ))}
+          </div>
+
+          <p className="text-gray-500">
+            {t("excelPreview.summary", { changes: changes.length, periods: model.new_periods })}
+          </p>
+
+          {changes.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border border-gray-100 rounded">
+              <table className="w-full">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className={thCls}>{t("excelPreview.period")}</th>
+                    <th className={thCls}>{t("audit.field")}</th>
+                    <th className={thCls}>{t("audit.before")}</th>
+                    <th className={thCls}>{t("audit.after")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((c) => (
+                    <tr key={`${c.period_date}-${c.field}`} className="border-t border-gray-50">
+                      <td className="py-1 px-2 text-gray-600">{c.period_label}</td>
+                      <td className="py-1 px-2 font-mono text-gray-700">{c.field}</td>
+                      <td className="py-1 px-2 text-red-700">{formatDiffValue(c.from)}</td>
+                      <td className="py-1 px-2 text-green-700">{formatDiffValue(c.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
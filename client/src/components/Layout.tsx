@@ -9,10 +9,12 @@ import {
   Target,
   Globe,
   FileSpreadsheet,
+  ScrollText,
+  Scale,
 } from "lucide-react";
 
 export default function Layout() {
-  const { user, logout } = useAuth();
+  const { user, isAdmin, logout } = useAuth();
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
 
@@ -32,6 +34,8 @@ export default function Layout() {
     { to: "/targets", icon: Target, label: t("nav.targets") },
     { to: "/models", icon: FileSpreadsheet, label: t("nav.models") },
     { to: "/scenarios", icon: GitMerge, label: t("nav.scenarios") },
+    { to: "/comparables", icon: Scale, label: t("nav.comparables") },
+    ...(isAdmin ? [{ to: "/audit", icon: ScrollText, label: t("nav.audit") }] : []),
   ];
 
   return (
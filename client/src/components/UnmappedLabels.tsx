@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Check } from "lucide-react";
+import api from "../services/api";
+import { getErrorMessage } from "../utils/errors";
+import { useAuth } from "../hooks/useAuth";
+
+interface Props {
+  labels: string[];
+  companyId: number;
+  /** Called after a rule is saved, e.g. to re-run the import preview. */
+  onRuleSaved?: () => void;
+}
+
+/**
+ * Row labels the Excel parser did not recognise. Editors can map a label to
+ * a period field in one step; the choice is saved as a label rule for this
+ * company (or globally) and used on the next import.
+ */
+export default function UnmappedLabels({ labels, companyId, onRuleSaved }: Props) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const [fields, setFields] = useState<string[]>([]);
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const [global, setGlobal] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!canEdit) return;
+    api.getLabelRuleFields().then(setFields).catch(() => setFields([]));
+  }, [canEdit]);
+
+  const saveRule = async (label: string, field: string) => {
+    if (!field) return;
+    setError("");
+    try {
+      await api.createLabelRule({
+        pattern: label,
+        match_type: "exact",
+        field_key: field,
+        company_id: global ? null : companyId,
+      });
+      setSaved((prev) => ({ ...prev, [label]: field }));
+      onRuleSaved?.();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="flex items-center gap-1.5 text-amber-700">
+        <AlertTriangle size={10} />
+        {t("labelRules.unmapped", { count: labels.length })}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {labels.map((label) => (
+          <span key={label} className="inline-flex items-center gap-1 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5">
+            <span className="text-amber-800">{label}</span>
+            {saved[label] ? (
+              <span className="flex items-center gap-0.5 text-green-700 font-mono">
+                <Check size={10} />
+                {saved[label]}
+              </span>
+            ) : (
+              canEdit && fields.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => saveRule(label, e.target.value)}
+                  className="text-[11px] bg-transparent text-gray-600 outline-none"
+                  aria-label={t("labelRules.mapTo", { label })}
+                >
+                  <option value="">{t("labelRules.mapToPlaceholder")}</option>
+                  {fields.map((f) => (
+                    <option key={f} value={f}>
+                      {f}
+                    </option>
+                  ))}
+                </select>
+              )
+            )}
+          </span>
+        ))}
+      </div>
+      {canEdit && fields.length > 0 && (
+        <label className="flex items-center gap-1.5 text-gray-500">
+          <input type="checkbox" checked={global} onChange={(e) => setGlobal(e.target.checked)} />
+          {t("labelRules.allCompanies")}
+        </label>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Plus, Save, Trash2 } from "lucide-react";
+import api from "../../services/api";
+import type { AcquisitionScenario, AddOnTarget, FinancialModel } from "../../types";
+import SectionHeader from "./SectionHeader";
+import { Button } from "../ui";
+import { useAuth } from "../../hooks/useAuth";
+import { toAddOnRow, fromAddOnRow, isFundingMismatch, type AddOnRow } from "../../utils/addOns";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface AddOnTargetsEditorProps {
+  scenario: AcquisitionScenario;
+  /** Projection years (synergy columns). */
+  years: string[];
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  onSave: (fields: { add_on_targets: AddOnTarget[] }) => Promise<void>;
+}
+
+type TargetModel = FinancialModel & { company_name: string };
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Buy-and-build programme: further targets after the platform deal, each
+ * with its own close date, price, funding and cost synergies. They are
+ * consolidated from their close dates when the pro forma is regenerated.
+ */
+export default function AddOnTargetsEditor({ scenario, years, expanded, onToggle, onSave }: AddOnTargetsEditorProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const { id: scenarioId, add_on_targets: savedTargets } = scenario;
+
+  const [rows, setRows] = useState<AddOnRow[]>([]);
+  const [models, setModels] = useState<TargetModel[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  // Re-sync when the scenario is reloaded after a save or restore
+  useEffect(() => {
+    setRows((savedTargets ?? []).map(toAddOnRow));
+    setDirty(false);
+  }, [scenarioId, savedTargets]);
+
+  // Target models to pick from (all non-acquirer companies)
+  useEffect(() => {
+    let cancelled = false;
+    const loadModels = async () => {
+      const companies = await api.getCompanies();
+      const loaded: TargetModel[] = [];
+      for (const c of companies.filter((c) => c.company_type !== "acquirer")) {
+        const companyModels = await api.getModels(c.id);
+        loaded.push(...companyModels.map((m) => ({ ...m, company_name: c.name })));
+      }
+      if (!cancelled) setModels(loaded);
+    };
+    loadModels().catch(() => setModels([]));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = (index: number, patch: Partial<AddOnRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    setDirty(true);
+  };
+
+  const updateSynergy = (index: number, year: string, value: string) => {
+    const row = rows[index];
+    update(index, { cost_synergies_timeline: { ...row.cost_synergies_timeline, [year]: Number(value) || 0 } });
+  };
+
+  const add = () => {
+    const firstModel = models.find((m) => m.id !== scenario.target_model_id) ?? models[0];
+    if (!firstModel) return;
+    setRows((prev) => [
+      ...prev,
+      {
+        target_model_id: firstModel.id,
+        close_date: `${years[1] ?? years[0] ?? new Date().getFullYear()}-07-01`,
+        price_paid: 0,
+        debt: 0,
+        equity: 0,
+        cost_synergies_timeline: {},
+      },
+    ]);
+    setDirty(true);
+  };
+
+  const remove = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ add_on_targets: rows.map(fromAddOnRow) });
+      setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-50";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="addOns"
+        title={t("addOns.title")}
+        subtitle={t("addOns.subtitle", { target: scenario.target_company_name || "Target" })}
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          rows.length > 0 ? (
+            <span className="text-[10px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-medium">
+              {t("addOns.count", { count: rows.length })}
+            </span>
+          ) : undefined
+        }
+      />
+
+      {expanded && (
+        <div className="p-6 space-y-4">
+          {rows.length === 0 ? (
+            <p className="text-xs text-gray-500">{t("addOns.empty")}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="ecit-table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left min-w-[200px]">{t("addOns.target")}</th>
+                    <th className="text-left min-w-[140px]">{t("addOns.closeDate")}</th>
+                    <th className="num min-w-[100px]">{t("addOns.price")}</th>
+                    <th className="num min-w-[90px]">{t("addOns.debt")}</th>
+                    <th className="num min-w-[90px]">{t("addOns.equity")}</th>
+                    {years.map((y) => (
+                      <th key={y} className="num min-w-[80px]">{t("addOns.synergiesYear", { year: y })}</th>
+                    ))}
+                    {canEdit && <th className="w-8" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, i) => (
+                    <tr key={i}>
+                      <td className="!p-1">
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs text-gray-400 w-4">{i + 1}</span>
+                          <select
+                            value={row.target_model_id}
+                            onChange={(e) => update(i, { target_model_id: Number(e.target.value) })}
+                            disabled={!canEdit}
+                            className={inputCls}
+                          >
+                            {models.map((m) => (
+                              <option key={m.id} value={m.id}>{m.company_name} — {m.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </td>
+                      <td className="!p-1">
+                        <input
+                          type="date"
+                          value={row.close_date}
+                          onChange={(e) => update(i, { close_date: e.target.value })}
+                          disabled={!canEdit}
+                          className={inputCls}
+                        />
+                      </td>
+                      <td className="!p-1">
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={row.price_paid || ""}
+                          onChange={(e) => update(i, { price_paid: Number(e.target.value) || 0 })}
+                          disabled={!canEdit}
+                          className={`${inputCls} text-right`}
+                          placeholder="0"
+                        />
+                      </td>
+                      <td className="!p-1">
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={row.debt || ""}
+                          onChange={(e) => update(i, { debt: Number(e.target.value) || 0 })}
+                          disabled={!canEdit}
+                          className={`${inputCls} text-right`}
+                          placeholder="0"
+                        />
+                      </td>
+                      <td className="!p-1">
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={row.equity || ""}
+                            onChange={(e) => update(i, { equity: Number(e.target.value) || 0 })}
+                            disabled={!canEdit}
+                            className={`${inputCls} text-right`}
+                            placeholder="0"
+                          />
+                          {isFundingMismatch(row) && (
+                            <span title={t("addOns.fundingMismatch")} className="text-amber-500">
+                              <AlertTriangle size={12} />
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      {years.map((y) => (
+                        <td key={y} className="!p-1">
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={row.cost_synergies_timeline[y] || ""}
+                            onChange={(e) => updateSynergy(i, y, e.target.value)}
+                            disabled={!canEdit}
+                            className={`${inputCls} text-right`}
+                            placeholder="0"
+                          />
+                        </td>
+                      ))}
+                      {canEdit && (
+                        <td className="!p-1 text-center">
+                          <button
+                            onClick={() => remove(i)}
+                            title={t("addOns.remove")}
+                            className="text-gray-400 hover:text-red-600 transition-colors"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">{t("addOns.regenerateNote")}</span>
+            {canEdit && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={add}
+                  disabled={models.length === 0}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  <Plus size={12} /> {t("addOns.add")}
+                </button>
+                <Button size="sm" icon={<Save size={12} />} onClick={handleSave} disabled={!dirty} loading={saving}>
+                  {t("addOns.save")}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
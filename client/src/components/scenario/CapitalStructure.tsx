@@ -1,13 +1,17 @@
 import { useState } from "react";
 import { Plus, Save, Trash2, CheckCircle, AlertTriangle } from "lucide-react";
-import type { AcquisitionScenario, SourceUseItem } from "../../types";
+import type { AcquisitionScenario, DealParameters, SourceUseItem } from "../../types";
 import { toNum, formatNum, formatPct, getSourceType, autoClassifySource, getDebtFromSources, getEquityFromSources, getPreferredFromSources } from "./helpers";
 import type { SourceType } from "./helpers";
 import SectionHeader from "./SectionHeader";
+import GoalSeekPanel from "./GoalSeekPanel";
 import { useTranslation } from "react-i18next";
+import { useAuth } from "../../hooks/useAuth";
 
 interface CapitalStructureProps {
   scenario: AcquisitionScenario;
+  /** Deal parameters from the returns calculation (goal seek base). */
+  dealParams?: DealParameters | null;
   expanded: boolean;
   onToggle: (key: string) => void;
   onSaveSU: (sources: SourceUseItem[], uses: SourceUseItem[]) => Promise<void>;
@@ -17,6 +21,10 @@ interface CapitalStructureProps {
     preferred_equity_rate: number | null;
     net_debt: number | null;
     deal_parameters?: Record<string, unknown>;
+    base_rate_curve?: Record<string, number>;
+    interest_margin?: number | null;
+    hedge_ratio?: number | null;
+    swap_rate?: number | null;
   }) => Promise<void>;
 }
 
@@ -30,12 +38,14 @@ interface BarSegment {
 
 export default function CapitalStructure({
   scenario,
+  dealParams,
   expanded,
   onToggle,
   onSaveSU,
   onSaveCapitalFields,
 }: CapitalStructureProps) {
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
   const [editing, setEditing] = useState(false);
   const [sources, setSources] = useState<SourceUseItem[]>(scenario.sources || []);
   const [uses, setUses] = useState<SourceUseItem[]>(scenario.uses || []);
@@ -61,6 +71,27 @@ export default function CapitalStructure({
       : "0"
   );
 
+  // ─── Floating rate (base-rate curve + margin, optional swap hedge) ──
+  const pctStr = (v: number | null | undefined) => (v != null ? String(Number(v) * 100) : "");
+  const curveToStrings = () =>
+    Object.fromEntries(
+      Object.entries(scenario.base_rate_curve || {}).map(([yr, v]) => [yr, pctStr(v)])
+    );
+  const [editMargin, setEditMargin] = useState<string>(pctStr(scenario.interest_margin));
+  const [editHedge, setEditHedge] = useState<string>(pctStr(scenario.hedge_ratio));
+  const [editSwap, setEditSwap] = useState<string>(pctStr(scenario.swap_rate));
+  const [editCurve, setEditCurve] = useState<Record<string, string>>(curveToStrings);
+
+  // Curve years follow the projection periods (pro forma, else acquirer)
+  const curveYears = (() => {
+    const periods = scenario.pro_forma_periods?.length
+      ? scenario.pro_forma_periods
+      : scenario.acquirer_periods || [];
+    const years = new Set<string>(Object.keys(scenario.base_rate_curve || {}));
+    for (const p of periods) years.add(String(new Date(p.period_date).getFullYear()));
+    return [...years].sort();
+  })();
+
   const effectiveSources = scenario.sources || [];
   const effectiveUses = scenario.uses || [];
 
@@ -204,12 +235,22 @@ export default function CapitalStructure({
         debt_amortisation: debtAmortVal,
       };
 
+      // Empty curve cells are dropped; an empty curve means fixed-rate debt
+      const curve: Record<string, number> = {};
+      for (const [yr, v] of Object.entries(editCurve)) {
+        if (v !== "") curve[yr] = Number(v) / 100;
+      }
+
       await onSaveCapitalFields({
         ordinary_equity: baseOE,
         preferred_equity: basePE,
         preferred_equity_rate: peRateVal,
         net_debt: effectiveNibd,
         deal_parameters: updatedDp,
+        base_rate_curve: curve,
+        interest_margin: editMargin ? Number(editMargin) / 100 : null,
+        hedge_ratio: editHedge ? Number(editHedge) / 100 : null,
+        swap_rate: editSwap ? Number(editSwap) / 100 : null,
       });
     }
     setEditing(false);
@@ -242,6 +283,10 @@ export default function CapitalStructure({
         ? String(scenario.deal_parameters.debt_amortisation)
         : "0"
     );
+    setEditMargin(pctStr(scenario.interest_margin));
+    setEditHedge(pctStr(scenario.hedge_ratio));
+    setEditSwap(pctStr(scenario.swap_rate));
+    setEditCurve(curveToStrings());
     setEditing(true);
   };
 
@@ -372,7 +417,7 @@ export default function CapitalStructure({
         expanded={expanded}
         onToggle={onToggle}
         actions={
-          !editing ? (
+          !canEdit ? null : !editing ? (
             <button
               onClick={startEditing}
               className="px-3 py-1 text-xs bg-white/10 hover:bg-white/20 text-white rounded-lg font-medium"
@@ -545,6 +590,78 @@ export default function CapitalStructure({
                 </div>
               </div>
 
+              {/* Floating rate — base-rate curve per year + margin, optional swap hedge */}
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <h4 className="text-sm font-semibold text-gray-900 mb-1">{t("capital.floatingRate")}</h4>
+                <p className="text-xs text-gray-400 mb-3">{t("capital.floatingRateHint")}</p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">
+                      {t("capital.interestMargin")} (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={editMargin}
+                      onChange={(e) => setEditMargin(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-right tabular-nums"
+                      placeholder="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">
+                      {t("capital.hedgeRatio")} (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="5"
+                      min="0"
+                      max="100"
+                      value={editHedge}
+                      onChange={(e) => setEditHedge(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-right tabular-nums"
+                      placeholder="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">
+                      {t("capital.swapRate")} (%)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={editSwap}
+                      onChange={(e) => setEditSwap(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-right tabular-nums"
+                    />
+                    <div className="text-[10px] text-gray-400 mt-0.5">
+                      {t("capital.swapRateHint")}
+                    </div>
+                  </div>
+                </div>
+                {curveYears.length > 0 && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">
+                      {t("capital.baseRateCurve")} (%)
+                    </label>
+                    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                      {curveYears.map((yr) => (
+                        <div key={yr}>
+                          <div className="text-[10px] text-gray-400 mb-0.5">{yr}</div>
+                          <input
+                            type="number"
+                            step="0.05"
+                            value={editCurve[yr] ?? ""}
+                            onChange={(e) => setEditCurve({ ...editCurve, [yr]: e.target.value })}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right tabular-nums"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Sources & Uses side by side */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               {/* Sources */}
@@ -897,14 +1014,17 @@ export default function CapitalStructure({
                ══════════════════════════════════════════════ */
             <div className="text-center text-gray-400 py-4">
               <p className="mb-2">{t("capital.noCapitalStructure")}</p>
-              <button
-                onClick={startEditing}
-                className="text-ecit-navy hover:underline text-sm font-medium"
-              >
-                {t("capital.addSourcesAndUses")}
-              </button>
+              {canEdit && (
+                <button
+                  onClick={startEditing}
+                  className="text-ecit-navy hover:underline text-sm font-medium"
+                >
+                  {t("capital.addSourcesAndUses")}
+                </button>
+              )}
             </div>
           )}
+          {!editing && <GoalSeekPanel scenario={scenario} dealParams={dealParams ?? null} />}
         </div>
       )}
     </div>
@@ -0,0 +1,250 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Check } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, Comparable, ComparableKind, CompSetSelection, CompSetStats, MultipleKey } from "../../types";
+import { DEFAULT_RANGE_SIZE, MULTIPLE_KEYS, exitMultipleRange } from "../../utils/comparables";
+import { formatMultiple } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import api from "../../services/api";
+import { useAuth } from "../../hooks/useAuth";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface CompSetPanelProps {
+  scenario: AcquisitionScenario;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  /** Save the comp set and the exit multiple range filled from it. */
+  onApply?: (compSet: CompSetSelection, exitMultiples: number[]) => Promise<void>;
+}
+
+const KINDS: ComparableKind[] = ["trading", "transaction"];
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * Comp set behind the exit multiple range: filter the comparables database,
+ * untick outliers, and fill the scenario's exit multiples from Q1 through
+ * the median to Q3 of the chosen multiple.
+ */
+export default function CompSetPanel({ scenario, expanded, onToggle, onApply }: CompSetPanelProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const savedParams = scenario.deal_parameters;
+  const saved = savedParams?.comp_set;
+
+  const [selection, setSelection] = useState<CompSetSelection>(() => ({
+    metric: "ev_ebitda_ltm",
+    ...saved,
+    ids: undefined,
+  }));
+  // Hand-picked ids within the filtered list; null = every comparable that matches
+  const [picked, setPicked] = useState<number[] | null>(() => (saved?.ids?.length ? saved.ids : null));
+  const [comps, setComps] = useState<Comparable[]>([]);
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [stats, setStats] = useState<CompSetStats | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState("");
+
+  const { kind, sector, from, to } = selection;
+
+  useEffect(() => {
+    if (!expanded) return;
+    api.getComparableSectors().then(setSectors).catch(() => setSectors([]));
+  }, [expanded]);
+
+  useEffect(() => {
+    if (!expanded) return;
+    setError("");
+    api.getComparables({ kind, sector, from, to })
+      .then(setComps)
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [expanded, kind, sector, from, to]);
+
+  useEffect(() => {
+    if (!expanded) return;
+    if (picked && picked.length === 0) {
+      setStats(null);
+      return;
+    }
+    api.getComparableStats({ kind, sector, from, to, ids: picked ?? undefined })
+      .then(setStats)
+      .catch((err) => setError(getErrorMessage(err)));
+  }, [expanded, kind, sector, from, to, picked]);
+
+  const updateFilter = (patch: Partial<CompSetSelection>) => {
+    setSelection((prev) => ({ ...prev, ...patch }));
+    setPicked(null);
+  };
+
+  const isPicked = (id: number) => (picked ? picked.includes(id) : true);
+  const togglePick = (id: number) => {
+    const current = picked ?? comps.map((c) => c.id);
+    const next = current.includes(id) ? current.filter((x) => x !== id) : [...current, id];
+    setPicked(next.length === comps.length ? null : next);
+  };
+
+  const currentMultiples = savedParams?.exit_multiples ?? [];
+  const metricStats = stats?.multiples[selection.metric] ?? null;
+  const range = metricStats ? exitMultipleRange(metricStats, currentMultiples.length || DEFAULT_RANGE_SIZE) : [];
+
+  const handleApply = async () => {
+    if (!onApply || range.length === 0) return;
+    setApplying(true);
+    setError("");
+    try {
+      await onApply({ ...selection, ids: picked ?? undefined }, range);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const labelCls = "block text-xs font-medium text-gray-500 mb-1";
+  const thCls = "py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="compSet"
+        title={t("compSet.title")}
+        subtitle={t("compSet.subtitle")}
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          canEdit && onApply && savedParams ? (
+            <button
+              onClick={handleApply}
+              disabled={applying || range.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-ecit-gold hover:bg-ecit-gold-dark disabled:opacity-50 text-white rounded-lg font-medium"
+            >
+              <Check size={12} />
+              {applying ? t("common.saving") : t("compSet.apply")}
+            </button>
+          ) : undefined
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {/* ── Filters ────────────────────────────────────── */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+            <div>
+              <label className={labelCls}>{t("comparables.kind")}</label>
+              <select
+                value={kind ?? ""}
+                onChange={(e) => updateFilter({ kind: (e.target.value || undefined) as ComparableKind | undefined })}
+                className={inputCls}
+              >
+                <option value="">{t("comparables.all")}</option>
+                {KINDS.map((k) => (
+                  <option key={k} value={k}>{t(`comparables.kinds.${k}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>{t("comparables.sector")}</label>
+              <select value={sector ?? ""} onChange={(e) => updateFilter({ sector: e.target.value || undefined })} className={inputCls}>
+                <option value="">{t("comparables.all")}</option>
+                {sectors.map((s) => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>{t("comparables.from")}</label>
+              <input type="date" value={from ?? ""} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>{t("comparables.to")}</label>
+              <input type="date" value={to ?? ""} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>{t("comparables.multiple")}</label>
+              <select
+                value={selection.metric}
+                onChange={(e) => setSelection((prev) => ({ ...prev, metric: e.target.value as MultipleKey }))}
+                className={inputCls}
+              >
+                {MULTIPLE_KEYS.map((key) => (
+                  <option key={key} value={key}>{t(`comparables.metrics.${key}`)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {comps.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {t("compSet.empty")}{" "}
+              <Link to="/comparables" className="text-ecit-navy hover:underline">{t("compSet.openDatabase")}</Link>
+            </p>
+          ) : (
+            <>
+              {/* ── Range ────────────────────────────────────── */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 text-sm">
+                {(["q1", "median", "q3"] as const).map((q) => (
+                  <div key={q} className="bg-gray-50 rounded-lg px-3 py-2">
+                    <p className="text-[10px] text-gray-500 uppercase tracking-wide">{t(`compSet.${q}`)}</p>
+                    <p className="font-semibold text-gray-900">{formatMultiple(metricStats?.[q])}</p>
+                  </div>
+                ))}
+                <div className="bg-gray-50 rounded-lg px-3 py-2 col-span-2">
+                  <p className="text-[10px] text-gray-500 uppercase tracking-wide">
+                    {t("compSet.range", { count: metricStats?.count ?? 0 })}
+                  </p>
+                  <p className="font-semibold text-ecit-navy">{range.length > 0 ? range.map(formatMultiple).join(", ") : "-"}</p>
+                  {currentMultiples.length > 0 && (
+                    <p className="text-xs text-gray-400">{t("compSet.current", { multiples: currentMultiples.map(formatMultiple).join(", ") })}</p>
+                  )}
+                </div>
+              </div>
+
+              {/* ── Comparables ──────────────────────────────── */}
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="border-b border-gray-200">
+                      <th className="w-8" />
+                      <th className={`${thCls} text-left`}>{t("comparables.name")}</th>
+                      <th className={`${thCls} text-left`}>{t("comparables.sector")}</th>
+                      <th className={`${thCls} text-left`}>{t("comparables.date")}</th>
+                      <th className={`${thCls} text-right`}>{t(`comparables.metrics.${selection.metric}`)}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comps.map((c) => (
+                      <tr key={c.id} className={`border-b border-gray-100 last:border-0 ${isPicked(c.id) ? "" : "text-gray-400"}`}>
+                        <td className="py-1.5 px-2 text-center">
+                          <input type="checkbox" checked={isPicked(c.id)} onChange={() => togglePick(c.id)} />
+                        </td>
+                        <td className="py-1.5 px-3">
+                          {c.name}
+                          {c.acquirer && <span className="text-xs text-gray-400 ml-2">{t("comparables.acquiredBy", { acquirer: c.acquirer })}</span>}
+                        </td>
+                        <td className="py-1.5 px-3">{c.sector ?? "-"}</td>
+                        <td className="py-1.5 px-3 whitespace-nowrap">{String(c.as_of_date).slice(0, 10)}</td>
+                        <td className="py-1.5 px-3 text-right">{formatMultiple(c[selection.metric])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-400 mt-2">
+                {t("compSet.picked", { picked: picked?.length ?? comps.length, total: comps.length })}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useMemo } from "react";
+import { Calculator } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, ContributionResponse, ContributionRow, DealParameters } from "../../types";
+import { DEFAULT_PRICE_FACTORS_INPUT, parseIssuePrice, parsePriceFactors } from "../../utils/contribution";
+import { toNum, pct, fmt } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import api from "../../services/api";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface ContributionAnalysisProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+}
+
+const ratio = (v: number | null | undefined) => (v == null ? "-" : v.toFixed(4));
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * Contribution analysis (server-side): each party's share of revenue, EBITDA,
+ * FCF and equity value against its ownership after the deal, and the shares
+ * issued and exchange ratio at prices around the deal price. The same
+ * analysis is a sheet in the Excel export.
+ */
+export default function ContributionAnalysis({ scenario, dealParams, expanded, onToggle }: ContributionAnalysisProps) {
+  const { t } = useTranslation();
+  const { id: scenarioId, deal_parameters: savedParams } = scenario;
+
+  const [factorsInput, setFactorsInput] = useState(DEFAULT_PRICE_FACTORS_INPUT);
+  const [issuePriceInput, setIssuePriceInput] = useState("");
+  const [result, setResult] = useState<ContributionResponse | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the DCF: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  const factors = parsePriceFactors(factorsInput);
+  const issuePrice = parseIssuePrice(issuePriceInput);
+  const inputsValid = factors !== null && issuePrice !== null;
+
+  const handleCalculate = async () => {
+    if (!scenarioId || factors === null || issuePrice === null) return;
+    setCalculating(true);
+    setError("");
+    try {
+      setResult(await api.calculateContribution(scenarioId, {
+        base_params: baseParams,
+        price_factors: factors,
+        ...(issuePrice !== undefined ? { issue_price: issuePrice } : {}),
+      }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const ownership = result?.ownership ?? null;
+  const exchange = result?.exchange ?? null;
+  const gap = (row: ContributionRow) =>
+    ownership && row.target_pct !== null ? ownership.target_pct - row.target_pct : null;
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const labelCls = "block text-xs font-medium text-gray-500 mb-1";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="contribution"
+        title={t("contribution.title")}
+        subtitle={t("contribution.subtitle")}
+        dark
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          <button
+            onClick={handleCalculate}
+            disabled={calculating || !inputsValid}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
+          >
+            <Calculator size={12} />
+            {calculating ? t("contribution.calculating") : t("contribution.calculate")}
+          </button>
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {/* ── Inputs ─────────────────────────────────────── */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-2">
+            <div className="col-span-2">
+              <label className={labelCls}>{t("contribution.priceFactors")} (%)</label>
+              <input value={factorsInput} onChange={(e) => setFactorsInput(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>{t("contribution.issuePrice")} (NOK)</label>
+              <input
+                value={issuePriceInput}
+                onChange={(e) => setIssuePriceInput(e.target.value)}
+                placeholder={exchange ? fmt(exchange.issue_price, 2) : t("contribution.fromTracker")}
+                className={`${inputCls} text-right`}
+              />
+            </div>
+          </div>
+          {!inputsValid && (
+            <div className="mb-4 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-700">
+              {t(factors === null ? "contribution.errors.priceFactors" : "contribution.errors.issuePrice")}
+            </div>
+          )}
+          <p className="text-[10px] text-gray-400 mb-6">{t("contribution.hint")}</p>
+
+          {/* ── Results ────────────────────────────────────── */}
+          {!result && !calculating && (
+            <div className="text-center py-8 text-gray-400">
+              <Calculator size={32} className="mx-auto mb-3 opacity-40" />
+              <p className="text-sm">{t("contribution.emptyState")}</p>
+            </div>
+          )}
+
+          {calculating && (
+            <div className="text-center py-12 text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ecit-navy mx-auto mb-4" />
+              <p className="text-sm">{t("contribution.calculating")}</p>
+            </div>
+          )}
+
+          {result && !calculating && (
+            <div className="space-y-6">
+              {/* Contribution vs ownership */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                  {t("contribution.vsOwnership", { period: result.basis_period ?? "-" })}
+                </h4>
+                <div className="overflow-x-auto">
+                  <table className="ecit-table w-full">
+                    <thead>
+                      <tr>
+                        <th className="text-left">NOKm</th>
+                        <th className="num">{result.acquirer_name}</th>
+                        <th className="num">{result.target_name}</th>
+                        <th className="num">{result.acquirer_name} %</th>
+                        <th className="num">{result.target_name} %</th>
+                        <th className="num">{t("contribution.targetOwnership")}</th>
+                        <th className="num">{t("contribution.gap")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.contributions.map((row) => {
+                        const g = gap(row);
+                        return (
+                          <tr key={row.metric}>
+                            <td className="font-medium text-gray-900">{t(`contribution.metrics.${row.metric}`)}</td>
+                            <td className="num">{fmt(row.acquirer)}</td>
+                            <td className="num">{fmt(row.target)}</td>
+                            <td className="num">{pct(row.acquirer_pct)}</td>
+                            <td className="num font-semibold">{pct(row.target_pct)}</td>
+                            <td className="num text-gray-500">{pct(ownership?.target_pct)}</td>
+                            <td className={`num ${g !== null && g > 0 ? "text-red-600" : g !== null && g < 0 ? "text-green-600" : ""}`}>
+                              {g !== null ? `${g > 0 ? "+" : ""}${pct(g)}` : "-"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {ownership ? (
+                  <p className="text-[10px] text-gray-400 mt-2">
+                    {t("contribution.ownershipLine", {
+                      existing: fmt(ownership.existing_shares),
+                      issued: fmt(ownership.issued_shares),
+                      rollover: fmt(ownership.rollover_shares),
+                      acquirer: pct(ownership.acquirer_pct),
+                      target: pct(ownership.target_pct),
+                    })}
+                  </p>
+                ) : (
+                  <p className="text-[10px] text-gray-400 mt-2">{t("contribution.noShares")}</p>
+                )}
+              </div>
+
+              {/* Target share by period */}
+              {result.periods.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("contribution.byPeriod", { target: result.target_name })}</h4>
+                  <div className="overflow-x-auto">
+                    <table className="ecit-table w-full">
+                      <thead>
+                        <tr>
+                          <th className="text-left" />
+                          {result.periods.map((p) => (
+                            <th key={p.period_label} className="num">{p.period_label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.periods[0].rows.map((row, m) => (
+                          <tr key={row.metric}>
+                            <td>{t(`contribution.metrics.${row.metric}`)}</td>
+                            {result.periods.map((p) => (
+                              <td key={p.period_label} className="num">{pct(p.rows[m].target_pct)}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* Exchange ratio at different prices */}
+              {exchange ? (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("contribution.exchangeTitle")}</h4>
+                  <div className="overflow-x-auto">
+                    <table className="ecit-table w-full">
+                      <thead>
+                        <tr>
+                          <th className="text-left">{t("contribution.priceVsDeal")}</th>
+                          <th className="num">{t("contribution.equityValue")}</th>
+                          <th className="num">EV</th>
+                          <th className="num">{t("contribution.shareConsideration")}</th>
+                          <th className="num">{t("contribution.newShares")}</th>
+                          <th className="num">{t("contribution.targetOwnership")}</th>
+                          <th className="num">{t("contribution.exchangeRatio")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {exchange.points.map((p) => (
+                          <tr key={p.price_factor} className={p.price_factor === 1 ? "font-semibold bg-blue-50" : ""}>
+                            <td>{pct(p.price_factor)}</td>
+                            <td className="num">{fmt(p.target_equity_value)}</td>
+                            <td className="num">{fmt(p.enterprise_value)}</td>
+                            <td className="num">{fmt(p.share_consideration)}</td>
+                            <td className="num">{fmt(p.new_shares, 2)}</td>
+                            <td className="num">{pct(p.target_ownership)}</td>
+                            <td className="num">{ratio(p.exchange_ratio)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-[10px] text-gray-400 mt-2">
+                    {t(exchange.all_share ? "contribution.allShareLine" : "contribution.exchangeLine", {
+                      issuePrice: fmt(exchange.issue_price, 2),
+                      entryPrice: fmt(exchange.entry_price_per_share, 2),
+                      funded: pct(exchange.share_funded_pct),
+                    })}
+                    {exchange.target_shares == null && ` ${t("contribution.noTargetShares")}`}
+                  </p>
+
+                  {exchange.implied.length > 0 && (
+                    <div className="mt-4">
+                      <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("contribution.impliedTitle")}</h4>
+                      <div className="overflow-x-auto">
+                        <table className="ecit-table w-full">
+                          <thead>
+                            <tr>
+                              <th className="text-left">{t("contribution.basis")}</th>
+                              <th className="num">{t("contribution.targetContribution")}</th>
+                              <th className="num">{t("contribution.newShares")}</th>
+                              <th className="num">{t("contribution.equityValue")}</th>
+                              <th className="num">{t("contribution.priceVsDeal")}</th>
+                              <th className="num">{t("contribution.exchangeRatio")}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {exchange.implied.map((i) => (
+                              <tr key={i.metric}>
+                                <td>{t(`contribution.metrics.${i.metric}`)}</td>
+                                <td className="num">{pct(i.target_pct)}</td>
+                                <td className="num">{fmt(i.new_shares, 2)}</td>
+                                <td className="num">{fmt(i.target_equity_value)}</td>
+                                <td className="num font-semibold">{pct(i.price_factor)}</td>
+                                <td className="num">{ratio(i.exchange_ratio)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">{t("contribution.noExchange")}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Save } from "lucide-react";
+import type { AcquisitionScenario, FinancialPeriod, FxRates } from "../../types";
+import SectionHeader from "./SectionHeader";
+import { Button } from "../ui";
+import { useAuth } from "../../hooks/useAuth";
+import { currencyCode, toFxRateInputs, buildFxRates, type FxRateInputs } from "../../utils/fx";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface CurrencySettingsProps {
+  scenario: AcquisitionScenario;
+  acquirerPeriods: FinancialPeriod[];
+  targetPeriods: FinancialPeriod[];
+  acquirerName: string;
+  targetName: string;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  onSave: (fields: { reporting_currency: string | null; fx_rates: FxRates }) => Promise<void>;
+}
+
+const periodYears = (periods: FinancialPeriod[]) =>
+  periods.map((p) => new Date(p.period_date).getFullYear().toString());
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Reporting currency and FX rates. Target (and, when reporting in another
+ * currency, acquirer) figures are converted server-side; this section shows
+ * the rates that were applied per year and lets editors change them.
+ */
+export default function CurrencySettings({
+  scenario,
+  acquirerPeriods,
+  targetPeriods,
+  acquirerName,
+  targetName,
+  expanded,
+  onToggle,
+  onSave,
+}: CurrencySettingsProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const fx = scenario.fx;
+  const acquirerCurrency = fx?.conversions.find((c) => c.side === "acquirer")?.currency ?? "NOKm";
+
+  const [reportingCurrency, setReportingCurrency] = useState(scenario.reporting_currency ?? "");
+  const [inputs, setInputs] = useState<Record<string, FxRateInputs>>({});
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  // Re-sync when the scenario is reloaded after a save or restore
+  useEffect(() => {
+    setReportingCurrency(scenario.reporting_currency ?? "");
+    setInputs({});
+    setDirty(false);
+  }, [scenario.id, scenario.reporting_currency, scenario.fx_rates]);
+
+  const effectiveCurrency = reportingCurrency.trim() || acquirerCurrency;
+  const reportingCode = currencyCode(effectiveCurrency);
+
+  // Sides whose company currency differs from the reporting currency
+  const foreign = useMemo(() => {
+    const sides = [
+      { side: "acquirer", name: acquirerName, periods: acquirerPeriods },
+      { side: "target", name: targetName, periods: targetPeriods },
+    ] as const;
+    return sides.flatMap(({ side, name, periods }) => {
+      const conv = fx?.conversions.find((c) => c.side === side);
+      if (!conv || currencyCode(conv.currency) === reportingCode) return [];
+      return [{ ...conv, code: currencyCode(conv.currency), name, years: periodYears(periods) }];
+    });
+  }, [fx, reportingCode, acquirerName, targetName, acquirerPeriods, targetPeriods]);
+
+  const savedRates = scenario.fx_rates ?? {};
+  const inputsFor = (code: string, years: string[]) => inputs[code] ?? toFxRateInputs(savedRates[code], years);
+
+  const updateRate = (code: string, years: string[], year: string | null, value: string) => {
+    const current = inputsFor(code, years);
+    const next = year === null
+      ? Object.fromEntries(years.map((y) => [y, value]))
+      : { ...current, [year]: value };
+    setInputs((prev) => ({ ...prev, [code]: next }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    // Only the currencies shown are replaced; rates for others are kept
+    const edited: Record<string, FxRateInputs> = {};
+    for (const f of foreign) edited[f.code] = inputsFor(f.code, f.years);
+    const rates: FxRates = { ...savedRates };
+    for (const code of Object.keys(edited)) delete rates[code];
+
+    setSaving(true);
+    try {
+      await onSave({
+        reporting_currency: reportingCurrency.trim() || null,
+        fx_rates: { ...rates, ...buildFxRates(edited) },
+      });
+      setDirty(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const missing = fx?.conversions.filter((c) => c.missing_rate) ?? [];
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-50";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="currency"
+        title={t("fx.title")}
+        subtitle={t("fx.subtitle", { acquirer: acquirerName, target: targetName })}
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          missing.length > 0 ? (
+            <span className="flex items-center gap-1 text-[10px] bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full font-medium">
+              <AlertTriangle size={10} /> {missing.map((c) => c.currency).join(", ")}
+            </span>
+          ) : (
+            <span className="text-[10px] bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full font-medium">
+              {fx?.reporting_currency ?? acquirerCurrency}
+            </span>
+          )
+        }
+      />
+
+      {expanded && (
+        <div className="p-6 space-y-5">
+          {missing.map((c) => (
+            <div key={c.side} className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">
+              <AlertTriangle size={12} />
+              {t("fx.missingRate", { currency: c.currency, name: c.side === "acquirer" ? acquirerName : targetName })}
+            </div>
+          ))}
+
+          <div className="flex items-end gap-3">
+            <label className="text-xs font-medium text-gray-600">
+              {t("fx.reportingCurrency")}
+              <input
+                type="text"
+                value={reportingCurrency}
+                onChange={(e) => {
+                  setReportingCurrency(e.target.value);
+                  setDirty(true);
+                }}
+                placeholder={acquirerCurrency}
+                disabled={!canEdit}
+                maxLength={20}
+                className="block mt-1 w-32 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-50"
+              />
+            </label>
+            <span className="text-xs text-gray-400 pb-2">
+              {t("fx.reportingCurrencyHint", { currency: acquirerCurrency })}
+            </span>
+          </div>
+
+          {foreign.length === 0 ? (
+            <p className="text-xs text-gray-500">{t("fx.noConversion", { currency: effectiveCurrency })}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="ecit-table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left min-w-[200px]">{t("fx.ratesUsed")}</th>
+                    {foreign[0].years.map((y) => (
+                      <th key={y} className="num min-w-[100px]">{y}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {foreign.map((f) => {
+                    const values = inputsFor(f.code, f.years);
+                    return (
+                      <tr key={f.side}>
+                        <td className="text-gray-700">
+                          <div className="font-medium">{f.name}</div>
+                          <div className="text-[10px] text-gray-400">
+                            {t("fx.rateLabel", { from: f.code, to: reportingCode })}
+                          </div>
+                          {canEdit && (
+                            <input
+                              type="number"
+                              step="0.0001"
+                              placeholder={t("fx.flatRate")}
+                              onChange={(e) => updateRate(f.code, f.years, null, e.target.value)}
+                              className={`${inputCls} mt-1 !text-left text-xs`}
+                            />
+                          )}
+                        </td>
+                        {f.years.map((year) => (
+                          <td key={year} className="!p-1">
+                            <input
+                              type="number"
+                              step="0.0001"
+                              value={values[year] ?? ""}
+                              onChange={(e) => updateRate(f.code, f.years, year, e.target.value)}
+                              disabled={!canEdit}
+                              className={inputCls}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">{t("fx.regenerateNote")}</span>
+            {canEdit && (
+              <Button size="sm" icon={<Save size={12} />} onClick={handleSave} disabled={!dirty} loading={saving}>
+                {t("fx.save")}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
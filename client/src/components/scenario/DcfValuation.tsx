@@ -0,0 +1,318 @@
+import { useState, useMemo } from "react";
+import { Calculator, Save } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, DcfAssumptions, DcfResponse, DealParameters, TerminalMethod } from "../../types";
+import { defaultDcfInputs, toDcfAssumptions, type DcfInputs } from "../../utils/dcf";
+import { toNum, pct, fmt, formatMultiple, deltaColor } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import api from "../../services/api";
+import { useAuth } from "../../hooks/useAuth";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface DcfValuationProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  /** Persist the assumptions in deal_parameters (used by the Excel export). */
+  onSaveAssumptions?: (assumptions: Partial<DcfAssumptions>) => Promise<void>;
+}
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * DCF valuation of acquirer, target and pro forma (server-side), shown
+ * against the entry price. The same valuation is a sheet in the Excel export.
+ */
+export default function DcfValuation({ scenario, dealParams, expanded, onToggle, onSaveAssumptions }: DcfValuationProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const { id: scenarioId, deal_parameters: savedParams } = scenario;
+
+  const [inputs, setInputs] = useState<DcfInputs>(() => defaultDcfInputs(savedParams));
+  const [result, setResult] = useState<DcfResponse | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [calculating, setCalculating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the sensitivity grid: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  const multiples = baseParams.exit_multiples ?? [];
+  const defaultMultiple = multiples[Math.floor(multiples.length / 2)] ?? 12;
+  const parsed = toDcfAssumptions(inputs);
+  const assumptions = "assumptions" in parsed ? parsed.assumptions : null;
+
+  const handleCalculate = async () => {
+    if (!scenarioId || !assumptions) return;
+    setCalculating(true);
+    setError("");
+    try {
+      setResult(await api.calculateDcf(scenarioId, { base_params: baseParams, ...assumptions }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!onSaveAssumptions || !assumptions) return;
+    setSaving(true);
+    try {
+      await onSaveAssumptions(assumptions);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const update = (field: keyof DcfInputs, value: string) => setInputs((prev) => ({ ...prev, [field]: value }));
+  const detail = result?.valuations[selected] ?? result?.valuations[0];
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const labelCls = "block text-xs font-medium text-gray-500 mb-1";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="dcf"
+        title={t("dcf.title")}
+        subtitle={t("dcf.subtitle")}
+        dark
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          <div className="flex items-center gap-2">
+            {canEdit && onSaveAssumptions && savedParams && (
+              <button
+                onClick={handleSave}
+                disabled={saving || !assumptions}
+                className="flex items-center gap-1 px-3 py-1 text-xs bg-ecit-gold hover:bg-ecit-gold-dark disabled:opacity-50 text-white rounded-lg font-medium"
+              >
+                <Save size={12} />
+                {saving ? t("common.saving") : t("dcf.saveAssumptions")}
+              </button>
+            )}
+            <button
+              onClick={handleCalculate}
+              disabled={calculating || !assumptions}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
+            >
+              <Calculator size={12} />
+              {calculating ? t("dcf.calculating") : t("dcf.calculate")}
+            </button>
+          </div>
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {/* ── Assumptions ────────────────────────────────── */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-2">
+            <div>
+              <label className={labelCls}>{t("dcf.wacc")} (%)</label>
+              <input value={inputs.wacc} onChange={(e) => update("wacc", e.target.value)} className={`${inputCls} text-right`} />
+            </div>
+            <div>
+              <label className={labelCls}>{t("dcf.terminalMethod")}</label>
+              <select
+                value={inputs.terminal_method}
+                onChange={(e) => setInputs((prev) => ({ ...prev, terminal_method: e.target.value as TerminalMethod }))}
+                className={inputCls}
+              >
+                <option value="gordon">{t("dcf.methods.gordon")}</option>
+                <option value="exit_multiple">{t("dcf.methods.exit_multiple")}</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>{t("dcf.terminalGrowth")} (%)</label>
+              <input
+                value={inputs.terminal_growth}
+                onChange={(e) => update("terminal_growth", e.target.value)}
+                disabled={inputs.terminal_method !== "gordon"}
+                className={`${inputCls} text-right disabled:bg-gray-100`}
+              />
+            </div>
+            <div>
+              <label className={labelCls}>{t("dcf.terminalMultiple")} (x)</label>
+              <input
+                value={inputs.terminal_multiple}
+                onChange={(e) => update("terminal_multiple", e.target.value)}
+                placeholder={String(defaultMultiple)}
+                disabled={inputs.terminal_method !== "exit_multiple"}
+                className={`${inputCls} text-right disabled:bg-gray-100`}
+              />
+            </div>
+          </div>
+          {"error" in parsed && (
+            <div className="mb-4 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-700">
+              {t(`dcf.errors.${parsed.error}`)}
+            </div>
+          )}
+          <p className="text-[10px] text-gray-400 mb-6">{t("dcf.hint")}</p>
+
+          {/* ── Results ────────────────────────────────────── */}
+          {!result && !calculating && (
+            <div className="text-center py-8 text-gray-400">
+              <Calculator size={32} className="mx-auto mb-3 opacity-40" />
+              <p className="text-sm">{t("dcf.emptyState")}</p>
+            </div>
+          )}
+
+          {calculating && (
+            <div className="text-center py-12 text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ecit-navy mx-auto mb-4" />
+              <p className="text-sm">{t("dcf.calculating")}</p>
+            </div>
+          )}
+
+          {result && !calculating && (
+            <div className="space-y-6">
+              {/* DCF value next to the entry price */}
+              <div className="overflow-x-auto">
+                <table className="ecit-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="text-left">{t("dcf.entity")}</th>
+                      <th className="num">{t("dcf.dcfEv")}</th>
+                      <th className="num">{t("dcf.entryEv")}</th>
+                      <th className="num">{t("dcf.premium")}</th>
+                      <th className="num">{t("dcf.tvShare")}</th>
+                      <th className="num">{t("dcf.equityValue")}</th>
+                      <th className="num">{t("dcf.perShare")}</th>
+                      <th className="num">{t("dcf.entryPerShare")}</th>
+                      <th className="num">{t("dcf.premium")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.valuations.map((v) => (
+                      <tr key={v.entity}>
+                        <td className="font-medium text-gray-900">
+                          {v.name} <span className="text-gray-400 text-xs">({t(`dcf.entities.${v.entity}`)})</span>
+                        </td>
+                        <td className="num font-semibold">{fmt(v.enterprise_value)}</td>
+                        <td className="num text-gray-500">{fmt(v.entry_ev)}</td>
+                        <td className={`num ${deltaColor(v.ev_premium)}`}>{pct(v.ev_premium)}</td>
+                        <td className="num">{pct(v.terminal_share)}</td>
+                        <td className="num">{fmt(v.equity_value)}</td>
+                        <td className="num font-semibold">{fmt(v.value_per_share, 2)}</td>
+                        <td className="num text-gray-500">{fmt(v.entry_per_share, 2)}</td>
+                        <td className={`num ${deltaColor(v.per_share_premium)}`}>{pct(v.per_share_premium)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[10px] text-gray-400">
+                {t("dcf.assumptionsLine", {
+                  wacc: pct(result.assumptions.wacc),
+                  terminal: result.assumptions.terminal_method === "gordon"
+                    ? t("dcf.gordonLine", { growth: pct(result.assumptions.terminal_growth) })
+                    : t("dcf.multipleLine", { multiple: formatMultiple(result.assumptions.terminal_multiple) }),
+                })}
+              </p>
+
+              {/* Cash flows of one entity */}
+              {detail && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold text-gray-900">{t("dcf.cashFlows")}</h4>
+                    <select
+                      value={selected}
+                      onChange={(e) => setSelected(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+                    >
+                      {result.valuations.map((v, i) => (
+                        <option key={v.entity} value={i}>{v.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {detail.periods.length === 0 ? (
+                    <p className="text-sm text-gray-400">{t("dcf.noForecast")}</p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="ecit-table w-full">
+                        <thead>
+                          <tr>
+                            <th className="text-left">NOKm</th>
+                            {detail.periods.map((p) => (
+                              <th key={p.period_label} className="num">{p.period_label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          <tr>
+                            <td>EBITDA</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{fmt(p.ebitda)}</td>)}
+                          </tr>
+                          <tr>
+                            <td className="pl-4">{t("dcf.tax")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{p.from_nibd ? "-" : fmt(p.tax)}</td>)}
+                          </tr>
+                          <tr>
+                            <td className="pl-4">{t("dcf.capex")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{p.from_nibd ? "-" : fmt(p.capex)}</td>)}
+                          </tr>
+                          <tr>
+                            <td className="pl-4">{t("dcf.changeNwc")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{p.from_nibd ? "-" : fmt(p.change_nwc)}</td>)}
+                          </tr>
+                          {detail.periods.some((p) => p.add_on_spend !== 0) && (
+                            <tr>
+                              <td className="pl-4">{t("dcf.addOns")}</td>
+                              {detail.periods.map((p) => <td key={p.period_label} className="num">{fmt(p.add_on_spend)}</td>)}
+                            </tr>
+                          )}
+                          <tr className="font-semibold">
+                            <td>{t("dcf.ufcf")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{fmt(p.unlevered_fcf)}</td>)}
+                          </tr>
+                          <tr className="text-gray-500">
+                            <td>{t("dcf.discountFactor")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{p.discount_factor.toFixed(3)}</td>)}
+                          </tr>
+                          <tr>
+                            <td>{t("dcf.presentValue")}</td>
+                            {detail.periods.map((p) => <td key={p.period_label} className="num">{fmt(p.present_value)}</td>)}
+                          </tr>
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-xs text-gray-500 mt-3">
+                    <div><span className="font-medium">{t("dcf.sumPv")}</span> {fmt(detail.sum_pv_fcf)}</div>
+                    <div><span className="font-medium">{t("dcf.terminalValue")}</span> {fmt(detail.terminal_value)}</div>
+                    <div><span className="font-medium">{t("dcf.pvTerminal")}</span> {fmt(detail.pv_terminal_value)}</div>
+                    <div><span className="font-medium">{t("dcf.netDebt")}</span> {fmt(detail.net_debt + detail.preferred_equity)}</div>
+                    <div><span className="font-medium">{t("dcf.shares")}</span> {fmt(detail.shares)}</div>
+                  </div>
+                  {detail.periods.some((p) => p.from_nibd) && (
+                    <p className="text-[10px] text-gray-400 mt-2">{t("dcf.nibdNote")}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
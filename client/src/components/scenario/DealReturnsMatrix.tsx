@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useTranslation } from "react-i18next";
+import { useAuth } from "../../hooks/useAuth";
 import { Calculator, Settings2, Info, ChevronDown, ChevronUp } from "lucide-react";
 import { getErrorMessage } from "../../utils/errors";
 import type {
@@ -9,9 +10,12 @@ import type {
   FinancialPeriod,
   ShareSummary,
   DebtScheduleRow,
+  DealTimeline,
 } from "../../types";
 import { toNum } from "./helpers";
+import { summariseTimeline } from "../../utils/dealTimeline";
 import SectionHeader from "./SectionHeader";
+import DebtTranchesEditor from "./DebtTranchesEditor";
 import api from "../../services/api";
 
 // ── Norwegian number helpers ──────────────────────────────────────
@@ -107,6 +111,7 @@ export default function DealReturnsMatrix({
   onExitMultiplesChange,
 }: DealReturnsMatrixProps) {
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
   const [showParams, setShowParams] = useState(false);
   const [showEquityParams, setShowEquityParams] = useState(false);
   const [calculating, setCalculating] = useState(false);
@@ -114,6 +119,7 @@ export default function DealReturnsMatrix({
   const [level, setLevel] = useState<1 | 2>(1);
   const [_levelLabel, setLevelLabel] = useState("");
   const [shareSummary, setShareSummary] = useState<ShareSummary | undefined>(undefined);
+  const [timeline, setTimeline] = useState<DealTimeline | undefined>(undefined);
 
   // Initialize params from scenario or defaults
   const savedParams = scenario.deal_parameters;
@@ -146,6 +152,15 @@ export default function DealReturnsMatrix({
     }
   }, [scenario.id]);
 
+  // Pick up exit multiples saved elsewhere (e.g. filled from a comp set)
+  const savedMultiplesKey = scenario.deal_parameters?.exit_multiples?.join(",") ?? "";
+  useEffect(() => {
+    if (!savedMultiplesKey) return;
+    const mults = savedMultiplesKey.split(",").map(Number);
+    setParams((prev) => ({ ...prev, exit_multiples: mults }));
+    setExitMultiplesText(mults.join(", "));
+  }, [savedMultiplesKey]);
+
   // Sync capital structure fields from scenario whenever they change
   // (e.g. after CapitalStructure component saves OE/PE/PE-rate)
   useEffect(() => {
@@ -210,8 +225,11 @@ export default function DealReturnsMatrix({
     }
   }, [usesTotal, priceDerivedFromUses]);
 
-  // Detect level based on current params
-  const currentLevel: 1 | 2 = (params.ordinary_equity ?? 0) > 0 && (params.net_debt ?? 0) > 0 ? 2 : 1;
+  // Detect level based on current params (debt tranches replace net_debt when set)
+  const totalDebt = params.debt_tranches?.length
+    ? params.debt_tranches.reduce((s, tr) => s + (tr.amount || 0), 0)
+    : params.net_debt ?? 0;
+  const currentLevel: 1 | 2 = (params.ordinary_equity ?? 0) > 0 && totalDebt > 0 ? 2 : 1;
 
   const handleCalculate = useCallback(async () => {
     if (!scenario.id || scenario.id === 0) return;
@@ -222,6 +240,7 @@ export default function DealReturnsMatrix({
       setLevel(result.level);
       setLevelLabel(result.level_label);
       setShareSummary(result.share_summary);
+      setTimeline(result.timeline);
       onCalculated(result.calculated_returns, result.deal_parameters, result.share_summary, result.debt_schedule);
     } catch (err) {
       setError(getErrorMessage(err));
@@ -262,6 +281,9 @@ export default function DealReturnsMatrix({
     (r) => r.return_case === "Kombinert" && r.per_share_irr != null
   ) ?? false;
 
+  // Holding period and stub years (only when the scenario has entry/exit dates)
+  const holding = timeline ? summariseTimeline(timeline) : null;
+
   const standaloneCase = caseNames.find((c) => c === "Standalone");
   const combinedCase = caseNames.find((c) => c === "Kombinert");
 
@@ -313,7 +335,8 @@ export default function DealReturnsMatrix({
             </button>
             <button
               onClick={handleCalculate}
-              disabled={calculating || !params.price_paid}
+              disabled={!canEdit || calculating || !params.price_paid}
+              title={canEdit ? undefined : t("common.readOnly")}
               className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
             >
               <Calculator size={12} />{" "}
@@ -454,6 +477,34 @@ export default function DealReturnsMatrix({
                   />
                   <span className="text-[10px] text-gray-400">{t("returns.daHint")}</span>
                 </div>
+                <div>
+                  <label className={labelCls}>{t("returns.ppaIntangiblesLabel")}</label>
+                  <input
+                    type="number"
+                    value={params.ppa_intangibles || ""}
+                    onChange={(e) =>
+                      updateParam("ppa_intangibles", e.target.value ? Number(e.target.value) : undefined)
+                    }
+                    className={inputCls}
+                    placeholder={t("returns.egPlaceholder", { value: "150" })}
+                  />
+                  <span className="text-[10px] text-gray-400">{t("returns.ppaIntangiblesHint")}</span>
+                </div>
+                <div>
+                  <label className={labelCls}>{t("returns.ppaYearsLabel")}</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={params.ppa_amortisation_years || ""}
+                    onChange={(e) =>
+                      updateParam("ppa_amortisation_years", e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined)
+                    }
+                    className={inputCls}
+                    placeholder="10"
+                  />
+                  <span className="text-[10px] text-gray-400">{t("returns.ppaYearsHint")}</span>
+                </div>
                 <div>
                   <label className={labelCls}>{t("returns.targetCapexLabel")}</label>
                   <input
@@ -678,12 +729,22 @@ export default function DealReturnsMatrix({
                     </div>
                   </div>
                 )}
+
+                {showEquityParams && (
+                  <DebtTranchesEditor
+                    tranches={params.debt_tranches ?? []}
+                    onChange={(tranches) =>
+                      updateParam("debt_tranches", tranches.length > 0 ? tranches : undefined)
+                    }
+                  />
+                )}
               </div>
 
               <div className="mt-4 flex justify-end">
                 <button
                   onClick={handleCalculate}
-                  disabled={calculating || !params.price_paid}
+                  disabled={!canEdit || calculating || !params.price_paid}
+                  title={canEdit ? undefined : t("common.readOnly")}
                   className="flex items-center gap-2 px-4 py-2 bg-ecit-dark text-white rounded-lg text-sm font-medium hover:bg-ecit-navy disabled:opacity-50"
                 >
                   <Calculator size={14} />
@@ -733,6 +794,18 @@ export default function DealReturnsMatrix({
                 </span>
               </div>
 
+              {/* Holding period from acquisition / exit dates */}
+              {holding && (
+                <p className="text-xs text-gray-500 -mt-3">
+                  {t("returns.holdingPeriod", { entry: holding.entry, exit: holding.exit, years: nbFmt1.format(holding.years) })}
+                  {[holding.firstStub, holding.lastStub].map((stub) => stub && (
+                    <span key={stub.label} className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-gray-100 text-gray-600">
+                      {t("returns.stubPeriod", { period: stub.label, pct: Math.round(stub.fraction * 100) })}
+                    </span>
+                  ))}
+                </p>
+              )}
+
               {/* Main IRR/MoM table */}
               <div>
                 <h4 className="text-sm font-semibold text-gray-900 mb-3">
@@ -760,6 +833,8 @@ export default function DealReturnsMatrix({
                             ? t("returns.standaloneLabel", { name: acquirerName })
                             : caseName === "Kombinert"
                             ? t("returns.combinedLabel", { acquirer: acquirerName, target: targetName })
+                            : caseName === "Risikovektet"
+                            ? t("returns.riskWeightedLabel")
                             : caseName;
 
                         return (
@@ -779,6 +854,12 @@ export default function DealReturnsMatrix({
                               {caseName === "Kombinert" && level === 2 && (
                                 <div className="text-[10px] text-blue-500 font-normal">{t("returns.equityIrrLevel2")}</div>
                               )}
+                              {caseName === "Risikovektet" && (
+                                <div className="text-[10px] text-gray-400 font-normal">{t("returns.riskWeightedHint")}</div>
+                              )}
+                              {caseName.startsWith("Add-on ") && (
+                                <div className="text-[10px] text-gray-400 font-normal">{t("returns.addOnHint")}</div>
+                              )}
                             </td>
                             {exitMultiples.map((mult) => {
                               const cell = data[mult];
@@ -1,6 +1,6 @@
 import { Landmark, Info } from "lucide-react";
 import type { DebtScheduleRow, DealParameters } from "../../types";
-import { formatNum, formatMultiple } from "./helpers";
+import { formatNum, formatMultiple, formatPct } from "./helpers";
 import SectionHeader from "./SectionHeader";
 import { useTranslation } from "react-i18next";
 
@@ -24,10 +24,19 @@ export default function DebtScheduleTable({
   const { t } = useTranslation();
   if (!debtSchedule || debtSchedule.length === 0) return null;
 
-  const interestRate = dealParameters?.interest_rate ?? 0.05;
-  const amortPerYear = dealParameters?.debt_amortisation ?? 0;
+  // With debt tranches, show the amount-weighted entry rate and the summed amortisation
+  const tranches = dealParameters?.debt_tranches ?? [];
+  const trancheTotal = tranches.reduce((s, tr) => s + (tr.amount || 0), 0);
+  const interestRate = tranches.length > 0 && trancheTotal > 0
+    ? tranches.reduce((s, tr) => s + (tr.amount || 0) * (tr.interest_rate || 0), 0) / trancheTotal
+    : dealParameters?.interest_rate ?? 0.05;
+  const amortPerYear = tranches.length > 0
+    ? tranches.reduce((s, tr) => s + (tr.amortisation || 0), 0)
+    : dealParameters?.debt_amortisation ?? 0;
   const sweepPct = dealParameters?.cash_sweep_pct ?? 1.0;
   const pikRate = dealParameters?.preferred_equity_rate ?? 0;
+  // Floating-rate debt: the engine reports the hedged base rate per year
+  const isFloating = debtSchedule[0].base_rate != null;
 
   // Entry values (first row opening)
   const entryDebt = debtSchedule[0].opening_debt;
@@ -48,22 +57,48 @@ export default function DebtScheduleTable({
     indent?: boolean;
     negative?: boolean; // display as negative (outflow)
     highlight?: string; // bg color class
+    value?: (row: DebtScheduleRow) => number | null; // custom getter (per-tranche rows)
   };
 
+  // Add-on funding rows (buy-and-build scenarios only)
+  const hasAddOns = debtSchedule.some((r) => r.add_on_debt != null || r.add_on_equity != null);
+
+  // Per-tranche rows (names come from the first schedule row, in seniority order)
+  const trancheNames = debtSchedule[0].tranches?.map((tr) => tr.name) ?? [];
+  const hasPikTranche = debtSchedule.some((r) => r.tranches?.some((tr) => tr.pik_interest > 0));
+  const trancheRows: RowDef[] = trancheNames.flatMap((name, k): RowDef[] => [
+    { label: name, key: "entry_header", header: true },
+    { label: t("debt.trancheOpening"), key: "opening_debt", value: (r) => r.tranches?.[k]?.opening ?? null },
+    { label: t("debt.trancheRate"), key: "base_rate", indent: true, format: "pct", value: (r) => r.tranches?.[k]?.interest_rate ?? null },
+    { label: t("debt.interestExpense"), key: "interest", indent: true, negative: true, value: (r) => r.tranches?.[k]?.interest ?? null },
+    ...(hasPikTranche
+      ? [{ label: t("debt.pikInterest"), key: "pik_accrual", indent: true, value: (r: DebtScheduleRow) => r.tranches?.[k]?.pik_interest ?? null } as RowDef]
+      : []),
+    { label: t("debt.mandatoryRepayment"), key: "mandatory_amort", indent: true, negative: true, value: (r) => r.tranches?.[k]?.mandatory_amort ?? null },
+    { label: t("debt.cashSweep"), key: "sweep", indent: true, negative: true, value: (r) => r.tranches?.[k]?.sweep ?? null },
+    { label: t("debt.trancheClosing"), key: "closing_debt", bold: true, value: (r) => r.tranches?.[k]?.closing ?? null },
+  ]);
+
   const rows: RowDef[] = [
     // ── Debt section ──
     { label: t("debt.debtLabel"), key: "entry_header", header: true },
     { label: t("debt.ebitdaPf"), key: "ebitda", bold: true },
     { label: t("debt.unleveredFcf"), key: "unlevered_fcf", bold: true },
+    ...(isFloating ? [{ label: t("debt.baseRateHedged"), key: "base_rate", format: "pct" } as RowDef] : []),
     { label: "", key: "separator", separator: true },
     { label: t("debt.debtBalanceOpening"), key: "opening_debt", bold: true, highlight: "bg-blue-50" },
     { label: t("debt.interestExpense"), key: "interest", indent: true, negative: true },
     { label: t("debt.mandatoryRepayment"), key: "mandatory_amort", indent: true, negative: true },
     { label: t("debt.cashSweep"), key: "sweep", indent: true, negative: true },
     { label: t("debt.totalDebtService"), key: "total_debt_service", bold: true, negative: true, highlight: "bg-red-50" },
+    ...(hasAddOns ? [{ label: t("debt.addOnDebt"), key: "add_on_debt", indent: true } as RowDef] : []),
     { label: t("debt.debtBalanceClosing"), key: "closing_debt", bold: true, highlight: "bg-blue-50" },
     { label: t("debt.debtToEbitda"), key: "leverage", format: "multiple" },
     { label: "", key: "separator", separator: true },
+    // ── Per-tranche breakdown (multi-tranche debt only) ──
+    ...(trancheRows.length > 0
+      ? [...trancheRows, { label: "", key: "separator", separator: true } as RowDef]
+      : []),
     // ── Preferred equity section ──
     { label: t("debt.prefEquityOpening"), key: "opening_pref", bold: true, highlight: "bg-amber-50" },
     { label: t("debt.pikInterest"), key: "pik_accrual", indent: true },
@@ -71,6 +106,7 @@ export default function DebtScheduleTable({
     { label: "", key: "separator", separator: true },
     // ── FCF to equity ──
     { label: t("debt.fcfToEquity"), key: "fcf_to_equity", bold: true, highlight: "bg-green-50" },
+    ...(hasAddOns ? [{ label: t("debt.addOnEquity"), key: "add_on_equity", indent: true, negative: true } as RowDef] : []),
   ];
 
   return (
@@ -78,7 +114,9 @@ export default function DebtScheduleTable({
       <SectionHeader
         sectionKey="debtSchedule"
         title={t("debt.title")}
-        subtitle={`${t("debt.title")} — ${t("debt.interestExpense")} ${(interestRate * 100).toFixed(1)}% | PIK ${(pikRate * 100).toFixed(1)}%`}
+        subtitle={isFloating
+          ? `${t("debt.title")} — ${t("debt.floatingRate")} | PIK ${(pikRate * 100).toFixed(1)}%`
+          : `${t("debt.title")} — ${t("debt.interestExpense")} ${(interestRate * 100).toFixed(1)}% | PIK ${(pikRate * 100).toFixed(1)}%`}
         expanded={expanded}
         onToggle={onToggle}
       />
@@ -112,7 +150,14 @@ export default function DebtScheduleTable({
           {/* Assumptions bar */}
           <div className="flex items-center gap-4 px-4 py-2.5 bg-gray-50 rounded-lg mb-4 text-xs text-gray-500">
             <Info size={14} className="text-gray-400 flex-shrink-0" />
-            <span>{t("debt.interestLabel")} <b className="text-gray-700">{(interestRate * 100).toFixed(1)}%</b></span>
+            {trancheNames.length > 0 && (
+              <span>{t("debt.tranchesLabel")} <b className="text-gray-700">{trancheNames.length}</b></span>
+            )}
+            {isFloating ? (
+              <span>{t("debt.baseRateLabel")} <b className="text-gray-700">{(debtSchedule[0].base_rate! * 100).toFixed(2)}%</b> {t("debt.floatingSuffix")}</span>
+            ) : (
+              <span>{t("debt.interestLabel")} <b className="text-gray-700">{(interestRate * 100).toFixed(1)}%</b></span>
+            )}
             <span>{t("debt.amortPerYearLabel")} <b className="text-gray-700">{formatNum(amortPerYear)} {t("common.nokm")}</b></span>
             <span>{t("debt.cashSweepLabel")} <b className="text-gray-700">{(sweepPct * 100).toFixed(0)}%</b></span>
             <span>{t("debt.pikRateLabel")} <b className="text-gray-700">{(pikRate * 100).toFixed(1)}%</b></span>
@@ -165,7 +210,7 @@ export default function DebtScheduleTable({
 
                   return (
                     <tr
-                      key={rowDef.key}
+                      key={rowDef.value ? `${rowDef.key}-${idx}` : rowDef.key}
                       className={`border-b border-gray-50 hover:bg-gray-50/50 ${rowDef.highlight ?? ""}`}
                     >
                       <td
@@ -174,11 +219,15 @@ export default function DebtScheduleTable({
                         {rowDef.label}
                       </td>
                       {debtSchedule.map((row) => {
-                        const rawVal = row[rowDef.key as keyof DebtScheduleRow] as number | null;
+                        const rawVal = rowDef.value
+                          ? rowDef.value(row)
+                          : row[rowDef.key as keyof DebtScheduleRow] as number | null;
                         let displayVal: string;
 
                         if (rowDef.format === "multiple") {
                           displayVal = rawVal !== null ? formatMultiple(rawVal) : "-";
+                        } else if (rowDef.format === "pct") {
+                          displayVal = formatPct(rawVal);
                         } else if (rawVal === null || rawVal === undefined) {
                           displayVal = "-";
                         } else {
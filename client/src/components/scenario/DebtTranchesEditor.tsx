@@ -0,0 +1,171 @@
+import { Plus, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import type { DebtTranche } from "../../types";
+import { IconButton } from "../ui";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface DebtTranchesEditorProps {
+  tranches: DebtTranche[];
+  onChange: (tranches: DebtTranche[]) => void;
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Inline editor for the ordered debt tranche list (senior TL, RCF, second lien,
+ * holdco PIK, ...). The cash sweep is allocated by seniority, lowest rank first.
+ * A tranche with a margin floats over the scenario's base-rate curve.
+ */
+export default function DebtTranchesEditor({ tranches, onChange }: DebtTranchesEditorProps) {
+  const { t } = useTranslation();
+
+  const update = (idx: number, patch: Partial<DebtTranche>) => {
+    onChange(tranches.map((tr, i) => (i === idx ? { ...tr, ...patch } : tr)));
+  };
+
+  const addTranche = () => {
+    onChange([
+      ...tranches,
+      {
+        name: t("returns.trancheDefaultName", { n: tranches.length + 1 }),
+        amount: 0,
+        interest_rate: 0.05,
+        amortisation: 0,
+        seniority: tranches.length + 1,
+        sweep_eligible: true,
+      },
+    ]);
+  };
+
+  const removeTranche = (idx: number) => {
+    onChange(tranches.filter((_, i) => i !== idx));
+  };
+
+  const total = tranches.reduce((s, tr) => s + (tr.amount || 0), 0);
+  const cellCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const thCls = "text-right py-1.5 px-2 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h5 className="text-xs font-semibold text-gray-700">{t("returns.debtTranches")}</h5>
+        <button
+          onClick={addTranche}
+          className="flex items-center gap-1 text-xs text-ecit-navy hover:underline font-medium"
+        >
+          <Plus size={12} /> {t("returns.addTranche")}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-2">{t("returns.debtTranchesHint")}</p>
+
+      {tranches.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className={`${thCls} text-left`}>{t("returns.trancheName")}</th>
+              <th className={thCls}>{t("returns.trancheAmount")}</th>
+              <th className={thCls}>{t("returns.trancheRate")}</th>
+              <th className={thCls}>{t("returns.trancheMargin")}</th>
+              <th className={thCls}>{t("returns.trancheAmortisation")}</th>
+              <th className={thCls}>{t("returns.trancheSeniority")}</th>
+              <th className={`${thCls} text-center`}>{t("returns.trancheSweep")}</th>
+              <th className={`${thCls} text-center`}>{t("returns.tranchePik")}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {tranches.map((tr, idx) => (
+              <tr key={idx} className="border-b border-gray-50">
+                <td className="py-1 px-1">
+                  <input
+                    type="text"
+                    value={tr.name}
+                    onChange={(e) => update(idx, { name: e.target.value })}
+                    className={`${cellCls} text-left`}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    value={tr.amount || ""}
+                    onChange={(e) => update(idx, { amount: Number(e.target.value) || 0 })}
+                    className={cellCls}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={tr.interest_rate ? (tr.interest_rate * 100).toFixed(1) : ""}
+                    onChange={(e) => update(idx, { interest_rate: Number(e.target.value) / 100 || 0 })}
+                    className={cellCls}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    step="0.05"
+                    value={tr.margin != null ? (tr.margin * 100).toFixed(2) : ""}
+                    onChange={(e) =>
+                      update(idx, { margin: e.target.value === "" ? undefined : Number(e.target.value) / 100 })
+                    }
+                    className={cellCls}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    value={tr.amortisation || ""}
+                    onChange={(e) => update(idx, { amortisation: Number(e.target.value) || 0 })}
+                    className={cellCls}
+                  />
+                </td>
+                <td className="py-1 px-1 w-20">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={tr.seniority ?? idx + 1}
+                    onChange={(e) => update(idx, { seniority: Math.max(1, Math.round(Number(e.target.value))) || undefined })}
+                    className={cellCls}
+                  />
+                </td>
+                <td className="py-1 px-1 text-center">
+                  <input
+                    type="checkbox"
+                    checked={tr.sweep_eligible !== false}
+                    onChange={(e) => update(idx, { sweep_eligible: e.target.checked })}
+                  />
+                </td>
+                <td className="py-1 px-1 text-center">
+                  <input
+                    type="checkbox"
+                    checked={!!tr.pik}
+                    onChange={(e) => update(idx, { pik: e.target.checked })}
+                  />
+                </td>
+                <td className="py-1 px-1 text-right">
+                  <IconButton
+                    icon={<Trash2 size={14} />}
+                    variant="danger"
+                    onClick={() => removeTranche(idx)}
+                    title={t("common.remove")}
+                  />
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="py-1.5 px-2 text-xs font-semibold text-gray-700">{t("returns.trancheTotal")}</td>
+              <td className="py-1.5 px-2 text-right text-xs font-semibold text-gray-700 tabular-nums">
+                {Math.round(total).toLocaleString("nb-NO")}
+              </td>
+              <td colSpan={7} />
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useMemo } from "react";
+import { Calculator } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, DealParameters, EpsAccretionResponse, EpsPeriod } from "../../types";
+import { toNum, fmt, pct, formatPctDelta, deltaColor } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import api from "../../services/api";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface EpsAccretionProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+}
+
+interface Row {
+  key: string;
+  value: (p: EpsPeriod) => number | null;
+  decimals?: number;
+  total?: boolean;
+  accretion?: boolean;
+}
+
+// Pro forma P&L, costs shown as negatives
+const PNL_ROWS: Row[] = [
+  { key: "ebitda", value: (p) => p.pro_forma.ebitda - p.pro_forma.synergy_ebitda },
+  { key: "synergies", value: (p) => p.pro_forma.synergy_ebitda },
+  { key: "integrationCosts", value: (p) => p.pro_forma.integration_costs },
+  { key: "depreciation", value: (p) => -p.pro_forma.depreciation },
+  { key: "amortisation", value: (p) => -(p.pro_forma.amortisation - p.pro_forma.ppa_amortisation) },
+  { key: "ppaAmortisation", value: (p) => -p.pro_forma.ppa_amortisation },
+  { key: "ebit", value: (p) => p.pro_forma.ebit, total: true },
+  { key: "netFinancialItems", value: (p) => p.pro_forma.net_financial_items + p.pro_forma.new_debt_interest },
+  { key: "newDebtInterest", value: (p) => -p.pro_forma.new_debt_interest },
+  { key: "preTaxProfit", value: (p) => p.pro_forma.pre_tax_profit, total: true },
+  { key: "tax", value: (p) => -p.pro_forma.tax },
+  { key: "netIncome", value: (p) => p.pro_forma.net_income, total: true },
+];
+
+const PER_SHARE_ROWS: Row[] = [
+  { key: "standaloneNetIncome", value: (p) => p.standalone.net_income },
+  { key: "standaloneShares", value: (p) => p.standalone_shares, decimals: 2 },
+  { key: "proFormaShares", value: (p) => p.pro_forma_shares, decimals: 2 },
+  { key: "standaloneEps", value: (p) => p.standalone_eps, decimals: 2 },
+  { key: "proFormaEps", value: (p) => p.pro_forma_eps, decimals: 2 },
+  { key: "epsAccretion", value: (p) => p.eps_accretion, accretion: true },
+  { key: "standaloneFcfps", value: (p) => p.standalone_fcf_per_share, decimals: 2 },
+  { key: "proFormaFcfps", value: (p) => p.pro_forma_fcf_per_share, decimals: 2 },
+  { key: "fcfpsAccretion", value: (p) => p.fcf_per_share_accretion, accretion: true },
+];
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * EPS accretion / dilution (server-side): a below-EBITDA P&L for the combined
+ * group with synergies, integration costs, PPA amortisation and interest on
+ * new debt, EPS and FCF per share against the acquirer standalone, and the
+ * synergies at which the deal is EPS-neutral.
+ */
+export default function EpsAccretion({ scenario, dealParams, expanded, onToggle }: EpsAccretionProps) {
+  const { t } = useTranslation();
+  const { id: scenarioId, deal_parameters: savedParams } = scenario;
+
+  const [result, setResult] = useState<EpsAccretionResponse | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the DCF: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  const handleCalculate = async () => {
+    if (!scenarioId) return;
+    setCalculating(true);
+    setError("");
+    try {
+      setResult(await api.calculateEpsAccretion(scenarioId, baseParams));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const periods = result?.periods ?? [];
+
+  const renderRows = (rows: Row[]) =>
+    rows.map((row) => (
+      <tr key={row.key} className={row.total ? "font-semibold border-t border-gray-300" : ""}>
+        <td className={row.total ? "text-gray-900" : "text-gray-600"}>{t(`eps.rows.${row.key}`)}</td>
+        {periods.map((p) => {
+          const v = row.value(p);
+          return row.accretion ? (
+            <td key={p.period_label} className={`num font-semibold ${deltaColor(v)}`}>{formatPctDelta(v)}</td>
+          ) : (
+            <td key={p.period_label} className="num">{fmt(v, row.decimals ?? 1)}</td>
+          );
+        })}
+      </tr>
+    ));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="eps"
+        title={t("eps.title")}
+        subtitle={t("eps.subtitle")}
+        dark
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          <button
+            onClick={handleCalculate}
+            disabled={calculating}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
+          >
+            <Calculator size={12} />
+            {calculating ? t("eps.calculating") : t("eps.calculate")}
+          </button>
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {!result && !calculating && (
+            <div className="text-center py-8 text-gray-400">
+              <Calculator size={32} className="mx-auto mb-3 opacity-40" />
+              <p className="text-sm">{t("eps.emptyState")}</p>
+            </div>
+          )}
+
+          {calculating && (
+            <div className="text-center py-12 text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ecit-navy mx-auto mb-4" />
+              <p className="text-sm">{t("eps.calculating")}</p>
+            </div>
+          )}
+
+          {result && !calculating && (
+            periods.length === 0 ? (
+              <p className="text-sm text-gray-400">{t("eps.noPeriods")}</p>
+            ) : (
+              <div className="space-y-6">
+                {/* Pro forma P&L below EBITDA */}
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("eps.pnlTitle")}</h4>
+                  <div className="overflow-x-auto">
+                    <table className="ecit-table w-full">
+                      <thead>
+                        <tr>
+                          <th className="text-left">NOKm</th>
+                          {periods.map((p) => (
+                            <th key={p.period_label} className="num">{p.period_label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>{renderRows(PNL_ROWS)}</tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Per share accretion / dilution */}
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">{t("eps.perShareTitle")}</h4>
+                  <div className="overflow-x-auto">
+                    <table className="ecit-table w-full">
+                      <thead>
+                        <tr>
+                          <th className="text-left" />
+                          {periods.map((p) => (
+                            <th key={p.period_label} className="num">{p.period_label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {renderRows(PER_SHARE_ROWS)}
+                        <tr className="font-semibold border-t border-gray-300">
+                          <td className="text-gray-900">{t("eps.rows.breakevenSynergies")}</td>
+                          {periods.map((p) => (
+                            <td key={p.period_label} className="num">{fmt(p.breakeven_synergies)}</td>
+                          ))}
+                        </tr>
+                        <tr>
+                          <td className="text-gray-600">{t("eps.rows.modelledSynergies")}</td>
+                          {periods.map((p) => (
+                            <td key={p.period_label} className="num text-gray-500">{fmt(p.pro_forma.synergy_ebitda)}</td>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                <p className="text-[10px] text-gray-400">
+                  {t("eps.hint", {
+                    tax: pct(result.tax_rate),
+                    ppa: fmt(result.ppa_intangibles, 0),
+                    years: result.ppa_amortisation_years,
+                  })}
+                  {!result.reported_pnl && ` ${t("eps.proxyNote")}`}
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useMemo } from "react";
 import { useTranslation } from "react-i18next";
 import type { FinancialPeriod, ProFormaPeriod } from "../../types";
 import { formatNum, toNum } from "./helpers";
+import { withLatestLtm } from "../../utils/periods";
 import SectionHeader from "./SectionHeader";
 
 // ── Types ──────────────────────────────────────────────────
@@ -16,6 +17,9 @@ interface EquityBridgeTableProps {
   onToggle: (key: string) => void;
   /** Multiples to offer — synced from DealReturnsMatrix if available */
   exitMultiples?: number[];
+  /** LTM figures from quarterly / monthly models, used for the LTM basis */
+  acquirerLtm?: FinancialPeriod[];
+  targetLtm?: FinancialPeriod[];
 }
 
 type BasisMode = "ltm" | "ntm";
@@ -282,7 +286,8 @@ function computeBridge(
 
     if (basis === "ltm") {
       basisEbitda = ebitdaLtm;
-      basisLabel = `LTM ${p.period_label}`;
+      // Real trailing rows are already labelled "LTM Q3 2025"
+      basisLabel = p.period_label.startsWith("LTM") ? p.period_label : `LTM ${p.period_label}`;
     } else {
       const ntm = projectNtmEbitda(periods, idx, ntmOverrides);
       basisEbitda = ntm.ebitda;
@@ -733,6 +738,8 @@ export default function EquityBridgeTable({
   expanded,
   onToggle,
   exitMultiples,
+  acquirerLtm,
+  targetLtm,
 }: EquityBridgeTableProps) {
   const { t } = useTranslation();
   const multiples = exitMultiples?.length ? exitMultiples : DEFAULT_MULTIPLES;
@@ -755,14 +762,24 @@ export default function EquityBridgeTable({
   const acqFormulas = useMemo(() => deriveDilutionFormulas(acquirerPeriods), [acquirerPeriods]);
   const tgtFormulas = useMemo(() => deriveDilutionFormulas(targetPeriods), [targetPeriods]);
 
+  // LTM basis: the latest trailing twelve months next to the annual periods
+  const acqBridgePeriods = useMemo(
+    () => (basis === "ltm" ? withLatestLtm(acquirerPeriods, acquirerLtm) : acquirerPeriods),
+    [basis, acquirerPeriods, acquirerLtm]
+  );
+  const tgtBridgePeriods = useMemo(
+    () => (basis === "ltm" ? withLatestLtm(targetPeriods, targetLtm) : targetPeriods),
+    [basis, targetPeriods, targetLtm]
+  );
+
   // Compute bridges
   const acqBridge = useMemo(
-    () => computeBridge(acquirerPeriods, selectedMultiple, basis, effectiveAcqNtm, acqFormulas),
-    [acquirerPeriods, selectedMultiple, basis, effectiveAcqNtm, acqFormulas]
+    () => computeBridge(acqBridgePeriods, selectedMultiple, basis, effectiveAcqNtm, acqFormulas),
+    [acqBridgePeriods, selectedMultiple, basis, effectiveAcqNtm, acqFormulas]
   );
   const tgtBridge = useMemo(
-    () => computeBridge(targetPeriods, selectedMultiple, basis, effectiveTgtNtm, tgtFormulas),
-    [targetPeriods, selectedMultiple, basis, effectiveTgtNtm, tgtFormulas]
+    () => computeBridge(tgtBridgePeriods, selectedMultiple, basis, effectiveTgtNtm, tgtFormulas),
+    [tgtBridgePeriods, selectedMultiple, basis, effectiveTgtNtm, tgtFormulas]
   );
 
   // Compute Pro Forma bridge (combined)
@@ -1204,8 +1221,8 @@ export default function EquityBridgeTable({
           {acqHasData && (
             <BridgeTable
               title={t("bridge.equityBridgeFor", { name: acquirerName })}
-              columnLabels={acquirerPeriods.map((p) => p.period_label)}
-              rows={buildRows(acqBridge, acquirerPeriods, acqHasBridge, acqFormulas)}
+              columnLabels={acqBridgePeriods.map((p) => p.period_label)}
+              rows={buildRows(acqBridge, acqBridgePeriods, acqHasBridge, acqFormulas)}
             />
           )}
 
@@ -1220,8 +1237,8 @@ export default function EquityBridgeTable({
           {tgtHasData && (
             <BridgeTable
               title={t("bridge.equityBridgeFor", { name: targetName })}
-              columnLabels={targetPeriods.map((p) => p.period_label)}
-              rows={buildRows(tgtBridge, targetPeriods, tgtHasBridge, tgtFormulas)}
+              columnLabels={tgtBridgePeriods.map((p) => p.period_label)}
+              rows={buildRows(tgtBridge, tgtBridgePeriods, tgtHasBridge, tgtFormulas)}
             />
           )}
 
@@ -0,0 +1,195 @@
+import { useState, useMemo } from "react";
+import { Target, CheckCircle, AlertTriangle } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, DealParameters, GoalSeekResponse, SensitivityMetric, SensitivityParam } from "../../types";
+import { GOAL_SEEK_METRICS, GOAL_SEEK_PARAMS, isPercentMetric, parseTarget } from "../../utils/goalSeek";
+import { PARAM_UNITS } from "../../utils/tornado";
+import { toNum, pct, formatMultiple, formatParamValue } from "./helpers";
+import api from "../../services/api";
+
+interface GoalSeekPanelProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+}
+
+/**
+ * Goal seek inside the capital structure section: solves server-side for
+ * the value of one deal parameter (default: entry price) that gives a
+ * target IRR / MoM at a fixed exit multiple.
+ */
+export default function GoalSeekPanel({ scenario, dealParams }: GoalSeekPanelProps) {
+  const { t } = useTranslation();
+  const { id: scenarioId, deal_parameters: savedParams } = scenario;
+
+  const [param, setParam] = useState<SensitivityParam>("price_paid");
+  const [metric, setMetric] = useState<SensitivityMetric>("irr");
+  const [target, setTarget] = useState("20");
+  const [returnCase, setReturnCase] = useState<"Kombinert" | "Standalone">("Kombinert");
+  const [exitMultiple, setExitMultiple] = useState("");
+
+  const [result, setResult] = useState<GoalSeekResponse | null>(null);
+  const [solving, setSolving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the sensitivity grid: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  const multiples = baseParams.exit_multiples ?? [];
+  const defaultMultiple = multiples[Math.floor(multiples.length / 2)] ?? 12;
+  const targetValue = parseTarget(metric, target);
+  const multipleValue = exitMultiple.trim() ? parseFloat(exitMultiple.replace(",", ".")) : defaultMultiple;
+  const canSolve = targetValue != null && Number.isFinite(multipleValue) && multipleValue > 0 && baseParams.price_paid > 0;
+
+  const handleSolve = async () => {
+    if (!scenarioId || !canSolve || targetValue == null) return;
+    setSolving(true);
+    setError("");
+    try {
+      const res = await api.goalSeek(scenarioId, {
+        base_params: baseParams,
+        param,
+        metric,
+        target: targetValue,
+        return_case: returnCase,
+        ...(param === "exit_multiple" ? {} : { exit_multiple: multipleValue }),
+      });
+      setResult(res);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSolving(false);
+    }
+  };
+
+  const fmtMetric = (v: number | null, m: SensitivityMetric) => (isPercentMetric(m) ? pct(v) : formatMultiple(v));
+  const fmtParam = (v: number | null, p: SensitivityParam) => formatParamValue(PARAM_UNITS[p], v);
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const labelCls = "block text-xs font-medium text-gray-500 mb-1";
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-lg p-4 border border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-900 mb-1">{t("goalSeek.title")}</h4>
+      <p className="text-[11px] text-gray-500 mb-3">{t("goalSeek.subtitle")}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+        <div className="col-span-2 md:col-span-1">
+          <label className={labelCls}>{t("goalSeek.solveFor")}</label>
+          <select value={param} onChange={(e) => setParam(e.target.value as SensitivityParam)} className={inputCls}>
+            {GOAL_SEEK_PARAMS.map((p) => (
+              <option key={p} value={p}>{t(`tornado.params.${p}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls}>{t("goalSeek.metric")}</label>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as SensitivityMetric)} className={inputCls}>
+            {GOAL_SEEK_METRICS.map((m) => (
+              <option key={m} value={m}>{t(`goalSeek.metrics.${m}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelCls}>
+            {t("goalSeek.target")} ({isPercentMetric(metric) ? "%" : "x"})
+          </label>
+          <input value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputCls} text-right`} />
+        </div>
+        <div>
+          <label className={labelCls}>{t("goalSeek.exitMultiple")} (x)</label>
+          <input
+            value={param === "exit_multiple" ? "" : exitMultiple}
+            onChange={(e) => setExitMultiple(e.target.value)}
+            placeholder={String(defaultMultiple)}
+            disabled={param === "exit_multiple"}
+            className={`${inputCls} text-right disabled:bg-gray-100`}
+          />
+        </div>
+        <div>
+          <label className={labelCls}>{t("sensitivity.case")}</label>
+          <select value={returnCase} onChange={(e) => setReturnCase(e.target.value as "Kombinert" | "Standalone")} className={inputCls}>
+            <option value="Kombinert">{t("sensitivity.combined")}</option>
+            <option value="Standalone">{t("sensitivity.standalone")}</option>
+          </select>
+        </div>
+        <div>
+          <button
+            onClick={handleSolve}
+            disabled={solving || !canSolve}
+            className="w-full flex items-center justify-center gap-1 px-3 py-2 text-sm bg-ecit-navy hover:bg-ecit-dark disabled:opacity-50 text-white rounded-lg font-medium"
+          >
+            <Target size={14} />
+            {solving ? t("goalSeek.solving") : t("goalSeek.solve")}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mt-3 bg-red-50 text-red-700 px-3 py-2 rounded-lg text-xs">{error}</div>}
+
+      {result && !solving && (
+        result.status === "no_solution" ? (
+          <div className="mt-3 flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg px-3 py-2 text-xs">
+            <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            <span>
+              {t(`goalSeek.reasons.${result.reason ?? "target_above_range"}`, {
+                metric: t(`goalSeek.metrics.${result.metric}`),
+                target: fmtMetric(result.target, result.metric),
+                lower: fmtParam(result.bracket.lower, result.param),
+                upper: fmtParam(result.bracket.upper, result.param),
+                atLower: fmtMetric(result.bracket.metric_at_lower, result.metric),
+                atUpper: fmtMetric(result.bracket.metric_at_upper, result.metric),
+              })}
+            </span>
+          </div>
+        ) : (
+          <div
+            className={`mt-3 flex items-start gap-2 rounded-lg px-3 py-2 text-xs border ${
+              result.status === "converged"
+                ? "bg-green-50 border-green-200 text-green-800"
+                : "bg-amber-50 border-amber-200 text-amber-800"
+            }`}
+          >
+            {result.status === "converged" ? (
+              <CheckCircle size={14} className="flex-shrink-0 mt-0.5" />
+            ) : (
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+            )}
+            <div>
+              <div className="text-sm font-semibold">
+                {t("goalSeek.solution", {
+                  param: t(`tornado.params.${result.param}`),
+                  value: fmtParam(result.solution, result.param),
+                  metric: t(`goalSeek.metrics.${result.metric}`),
+                  achieved: fmtMetric(result.achieved, result.metric),
+                })}
+              </div>
+              <div className="mt-0.5">
+                {result.status === "converged"
+                  ? t("goalSeek.converged", { count: result.iterations })
+                  : t(`goalSeek.reasons.${result.reason ?? "max_iterations"}`, { count: result.iterations })}
+                {" · "}
+                {t("goalSeek.current", {
+                  value: fmtParam(result.base_value, result.param),
+                  metric: fmtMetric(result.base_metric, result.metric),
+                  multiple: formatMultiple(result.exit_multiple),
+                })}
+              </div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
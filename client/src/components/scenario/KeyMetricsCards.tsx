@@ -1,6 +1,7 @@
 import { TrendingUp, TrendingDown, Minus } from "lucide-react";
 import type { AcquisitionScenario, FinancialPeriod, ProFormaPeriod } from "../../types";
 import { formatNum, formatPct, toNum, getEvFromUses } from "./helpers";
+import { ltmAt } from "../../utils/periods";
 import { useTranslation } from "react-i18next";
 
 interface KeyMetricsCardsProps {
@@ -63,11 +64,13 @@ export default function KeyMetricsCards({
 
   // ── Derived metrics ──
   // Implied acquisition multiple: EV from Uses (S&U) / target EBITDA
-  // Falls back to price_paid if Uses has no Enterprise Value item
+  // Falls back to price_paid if Uses has no Enterprise Value item.
+  // Quarterly / monthly targets use LTM EBITDA at the acquisition date.
   const evFromUses = getEvFromUses(scenario.uses);
   const pricePaid = toNum(scenario.deal_parameters?.price_paid);
   const targetEv = evFromUses > 0 ? evFromUses : pricePaid;
-  const tgtEbitdaCur = tgtCur ? toNum(tgtCur.ebitda_total) : 0;
+  const tgtLtm = ltmAt(scenario.target_ltm, scenario.acquisition_date);
+  const tgtEbitdaCur = tgtLtm ? toNum(tgtLtm.ebitda_total) : tgtCur ? toNum(tgtCur.ebitda_total) : 0;
   const impliedMultiple =
     targetEv > 0 && tgtEbitdaCur > 0 ? targetEv / tgtEbitdaCur : null;
 
@@ -132,6 +135,7 @@ export default function KeyMetricsCards({
     cards.push({
       label: t("metrics.impliedMultiple"),
       curVal: `${nbFmt1.format(impliedMultiple)}x`,
+      refVal: tgtLtm?.period_label,
       small: true,
       highlight: "border-amber-300",
     });
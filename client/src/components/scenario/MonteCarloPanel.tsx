@@ -0,0 +1,386 @@
+import { useState, useCallback, useMemo } from "react";
+import { Dices } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { getErrorMessage } from "../../utils/errors";
+import type {
+  AcquisitionScenario,
+  DealParameters,
+  Distribution,
+  DistributionSummary,
+  SimulationResponse,
+  SimulationVariable,
+} from "../../types";
+import {
+  SIMULATION_INPUTS,
+  CORRELATION_PAIRS,
+  defaultDistributionInputs,
+  toDistribution,
+  buildCorrelations,
+  type DistributionInput,
+  type DistributionType,
+} from "../../utils/monteCarlo";
+import { toNum, pct, formatMultiple } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import CopyChartButton from "./CopyChartButton";
+import api from "../../services/api";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface MonteCarloPanelProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+}
+
+const PERCENTILE_KEYS = ["p5", "p10", "p25", "p50", "p75", "p90", "p95"] as const;
+const DISTRIBUTION_TYPES: DistributionType[] = ["triangular", "normal", "uniform"];
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * Monte Carlo simulation of deal returns: distributions (and correlations)
+ * for exit multiple, synergy realisation, EBITDA growth haircut and interest
+ * rate, run server-side; shows IRR / MoM percentiles, the probability of
+ * beating the hurdle and a histogram.
+ */
+export default function MonteCarloPanel({ scenario, dealParams, expanded, onToggle }: MonteCarloPanelProps) {
+  const { t } = useTranslation();
+  const { id: scenarioId, deal_parameters: savedParams } = scenario;
+
+  const [inputs, setInputs] = useState(() => defaultDistributionInputs(dealParams ?? savedParams ?? null));
+  const [correlations, setCorrelations] = useState<Record<string, string>>({});
+  const [iterations, setIterations] = useState(2000);
+  const [hurdle, setHurdle] = useState("20");
+  const [metric, setMetric] = useState<"irr" | "mom">("irr");
+
+  const [result, setResult] = useState<SimulationResponse | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the sensitivity grid: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  // Distributions of the enabled inputs; null entries are incomplete
+  const distributions = useMemo(() => {
+    const out: Partial<Record<SimulationVariable, Distribution | null>> = {};
+    for (const { key, percent } of SIMULATION_INPUTS) {
+      if (inputs[key].enabled) out[key] = toDistribution(inputs[key], percent);
+    }
+    return out;
+  }, [inputs]);
+
+  const enabled = SIMULATION_INPUTS.map((i) => i.key).filter((k) => inputs[k].enabled);
+  const invalid = enabled.filter((k) => !distributions[k]);
+  const canRun = enabled.length > 0 && invalid.length === 0 && baseParams.price_paid > 0;
+
+  const update = (key: SimulationVariable, patch: Partial<DistributionInput>) => {
+    setInputs((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  const handleRun = useCallback(async () => {
+    if (!scenarioId || !canRun) return;
+    setRunning(true);
+    setError("");
+    try {
+      const res = await api.runSimulation(scenarioId, {
+        base_params: baseParams,
+        variables: distributions as Partial<Record<SimulationVariable, Distribution>>,
+        correlations: buildCorrelations(correlations, enabled),
+        iterations,
+        hurdle_rate: (parseFloat(hurdle.replace(",", ".")) || 0) / 100,
+      });
+      setResult(res);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRunning(false);
+    }
+  }, [scenarioId, canRun, baseParams, distributions, correlations, enabled, iterations, hurdle]);
+
+  const fmt = (v: number | null, m: "irr" | "mom") => (m === "irr" ? pct(v) : formatMultiple(v));
+  const summary: DistributionSummary | null = result ? result[metric] : null;
+  const hurdleRate = result?.hurdle_rate ?? 0;
+
+  const chartData = (summary?.histogram ?? []).map((bin) => ({
+    label: fmt((bin.from + bin.to) / 2, metric),
+    count: bin.count,
+    above: metric === "irr" ? bin.from >= hurdleRate : bin.from >= 1,
+  }));
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-100 disabled:text-gray-400";
+  const labelCls = "block text-xs font-medium text-gray-600 mb-1";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="simulation"
+        title={t("simulation.title")}
+        subtitle={t("simulation.subtitle")}
+        dark
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          <button
+            onClick={handleRun}
+            disabled={running || !canRun}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
+          >
+            <Dices size={12} />
+            {running ? t("simulation.running") : t("simulation.run")}
+          </button>
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {/* ── Inputs ─────────────────────────────────────── */}
+          <div className="bg-gray-50 rounded-xl border border-gray-200 p-5 mb-6">
+            <h4 className="text-sm font-semibold text-gray-900 mb-4">{t("simulation.distributions")}</h4>
+            <div className="overflow-x-auto">
+              <table className="ecit-table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left min-w-[200px]">{t("simulation.input")}</th>
+                    <th className="text-left min-w-[130px]">{t("simulation.distribution")}</th>
+                    <th className="num min-w-[80px]">{t("simulation.min")}</th>
+                    <th className="num min-w-[80px]">{t("simulation.modeOrMean")}</th>
+                    <th className="num min-w-[80px]">{t("simulation.max")}</th>
+                    <th className="num min-w-[80px]">{t("simulation.sd")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SIMULATION_INPUTS.map(({ key, percent }) => {
+                    const input = inputs[key];
+                    const isNormal = input.type === "normal";
+                    return (
+                      <tr key={key} className={input.enabled && !distributions[key] ? "!bg-red-50" : ""}>
+                        <td>
+                          <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={input.enabled}
+                              onChange={(e) => update(key, { enabled: e.target.checked })}
+                            />
+                            {t(`simulation.inputs.${key}`)} <span className="text-gray-400 text-xs">({percent ? "%" : "x"})</span>
+                          </label>
+                        </td>
+                        <td className="!p-1">
+                          <select
+                            value={input.type}
+                            onChange={(e) => update(key, { type: e.target.value as DistributionType })}
+                            disabled={!input.enabled}
+                            className={`${inputCls} !text-left`}
+                          >
+                            {DISTRIBUTION_TYPES.map((d) => (
+                              <option key={d} value={d}>{t(`simulation.types.${d}`)}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="!p-1">
+                          <input value={input.min} onChange={(e) => update(key, { min: e.target.value })} disabled={!input.enabled || isNormal} className={inputCls} />
+                        </td>
+                        <td className="!p-1">
+                          <input
+                            value={isNormal ? input.mean : input.mode}
+                            onChange={(e) => update(key, isNormal ? { mean: e.target.value } : { mode: e.target.value })}
+                            disabled={!input.enabled || input.type === "uniform"}
+                            className={inputCls}
+                          />
+                        </td>
+                        <td className="!p-1">
+                          <input value={input.max} onChange={(e) => update(key, { max: e.target.value })} disabled={!input.enabled || isNormal} className={inputCls} />
+                        </td>
+                        <td className="!p-1">
+                          <input value={input.sd} onChange={(e) => update(key, { sd: e.target.value })} disabled={!input.enabled || !isNormal} className={inputCls} />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <h4 className="text-sm font-semibold text-gray-900 mt-5 mb-2">{t("simulation.correlations")}</h4>
+            <p className="text-[10px] text-gray-400 mb-2">{t("simulation.correlationsHint")}</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {CORRELATION_PAIRS.map(([a, b]) => {
+                const pairKey = `${a}|${b}`;
+                const active = inputs[a].enabled && inputs[b].enabled;
+                return (
+                  <label key={pairKey} className="text-xs text-gray-600">
+                    {t(`simulation.inputs.${a}`)} ↔ {t(`simulation.inputs.${b}`)}
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="-1"
+                      max="1"
+                      value={correlations[pairKey] ?? ""}
+                      onChange={(e) => setCorrelations((prev) => ({ ...prev, [pairKey]: e.target.value }))}
+                      disabled={!active}
+                      placeholder="0"
+                      className={`${inputCls} mt-1`}
+                    />
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-5">
+              <div>
+                <label className={labelCls}>{t("simulation.iterations")}</label>
+                <select
+                  value={iterations}
+                  onChange={(e) => setIterations(Number(e.target.value))}
+                  className={`${inputCls} !text-left`}
+                >
+                  {[500, 1000, 2000, 5000, 10000].map((n) => (
+                    <option key={n} value={n}>{n.toLocaleString("nb-NO")}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelCls}>{t("simulation.hurdle")}</label>
+                <input value={hurdle} onChange={(e) => setHurdle(e.target.value)} className={inputCls} />
+              </div>
+            </div>
+
+            {invalid.length > 0 && (
+              <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-700">
+                {t("simulation.invalidInputs", { inputs: invalid.map((k) => t(`simulation.inputs.${k}`)).join(", ") })}
+              </div>
+            )}
+          </div>
+
+          {/* ── Results ────────────────────────────────────── */}
+          {!result && !running && (
+            <div className="text-center py-8 text-gray-400">
+              <Dices size={32} className="mx-auto mb-3 opacity-40" />
+              <p className="text-sm">{t("simulation.emptyState")}</p>
+            </div>
+          )}
+
+          {running && (
+            <div className="text-center py-12 text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ecit-navy mx-auto mb-4" />
+              <p className="text-sm">{t("simulation.runningIterations", { count: iterations })}</p>
+            </div>
+          )}
+
+          {result && !running && summary && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-green-50 rounded-lg p-4">
+                  <div className="text-xs text-gray-500">{t("simulation.probAboveHurdle", { hurdle: pct(result.hurdle_rate) })}</div>
+                  <div className="text-2xl font-bold text-green-800">{pct(result.prob_above_hurdle)}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-xs text-gray-500">{t("simulation.medianIrr")}</div>
+                  <div className="text-2xl font-bold text-gray-900">{pct(result.irr.percentiles.p50)}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-xs text-gray-500">{t("simulation.irrRange")}</div>
+                  <div className="text-lg font-bold text-gray-900">
+                    {pct(result.irr.percentiles.p5)} – {pct(result.irr.percentiles.p95)}
+                  </div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <div className="text-xs text-gray-500">{t("simulation.medianMom")}</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatMultiple(result.mom.percentiles.p50)}</div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="ecit-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="text-left">{t("simulation.percentiles")}</th>
+                      {PERCENTILE_KEYS.map((p) => (
+                        <th key={p} className="num">{p.toUpperCase()}</th>
+                      ))}
+                      <th className="num">{t("simulation.mean")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(["irr", "mom"] as const).map((m) => (
+                      <tr key={m}>
+                        <td className="font-semibold text-gray-900">{m === "irr" ? "IRR" : "MoM"}</td>
+                        {PERCENTILE_KEYS.map((p) => (
+                          <td key={p} className={`num ${p === "p50" ? "font-semibold" : ""}`}>{fmt(result[m].percentiles[p], m)}</td>
+                        ))}
+                        <td className="num">{fmt(result[m].mean, m)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold text-gray-900">{t("simulation.histogram")}</h4>
+                  <div className="flex gap-1">
+                    {(["irr", "mom"] as const).map((m) => (
+                      <button
+                        key={m}
+                        onClick={() => setMetric(m)}
+                        className={`px-2 py-1 text-xs rounded ${metric === m ? "bg-ecit-dark text-white" : "bg-gray-100 text-gray-600"}`}
+                      >
+                        {m === "irr" ? "IRR" : "MoM"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <CopyChartButton fileName="monte-carlo">
+                  <ResponsiveContainer width="100%" height={260}>
+                    <BarChart data={chartData} barCategoryGap="5%">
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="label" fontSize={10} />
+                      <YAxis fontSize={12} allowDecimals={false} />
+                      <Tooltip formatter={(value) => [value, t("simulation.iterationsLabel")]} />
+                      <Bar dataKey="count">
+                        {chartData.map((d, i) => (
+                          <Cell key={i} fill={d.above ? "#16a34a" : "#a8b5d6"} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CopyChartButton>
+                <p className="text-[10px] text-gray-400 mt-1">
+                  {t("simulation.footnote", {
+                    count: result.iterations,
+                    failed: result.iterations - result.irr.count,
+                  })}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import type { ProFormaPeriod, FinancialPeriod } from "../../types";
 import { formatNum, formatPct, toNum } from "./helpers";
 import SectionHeader from "./SectionHeader";
 import { useTranslation } from "react-i18next";
+import { AlertTriangle } from "lucide-react";
+import { getTargetAlignment, summariseAlignment, describeAlignmentSources } from "../../utils/calendarisation";
 
 interface ProFormaTableProps {
   pfPeriods: ProFormaPeriod[];
@@ -47,8 +49,15 @@ export default function ProFormaTable({
     }
   }
 
+  const alignment = summariseAlignment(pfPeriods);
+
   const hasAcqOrgGrowth = acquirerPeriods?.some((p) => toNum(p.organic_growth) > 0) ?? false;
   const hasTgtOrgGrowth = targetPeriods?.some((p) => toNum(p.organic_growth) > 0) ?? false;
+  const hasRevenueSynergies = pfPeriods.some((p) => toNum(p.revenue_synergies) !== 0);
+  const hasIntegrationCosts = pfPeriods.some((p) => toNum(p.integration_costs) !== 0);
+  const hasPnl = pfPeriods.some((p) =>
+    p.total_depreciation != null || p.total_amortisation != null || p.total_net_financial_items != null || toNum(p.ppa_amortisation) !== 0
+  );
 
   const lineItems: { key: string; label: string; bold?: boolean; pct?: boolean; indent?: boolean; custom?: boolean }[] = [
     { key: "acquirer_revenue", label: `${acquirerName} ${t("proforma.revenue").toLowerCase()}` },
@@ -63,12 +72,25 @@ export default function ProFormaTable({
     { key: "total_ebitda_excl_synergies", label: t("proforma.totalEbitdaExcl"), bold: true },
     { key: "ebitda_margin_excl_synergies", label: t("proforma.margin"), pct: true, indent: true },
     { key: "cost_synergies", label: t("proforma.costSynergies") },
+    ...(hasRevenueSynergies ? [
+      { key: "revenue_synergies", label: t("proforma.revenueSynergies") },
+      { key: "revenue_synergy_ebitda", label: t("proforma.revenueSynergyEbitda"), indent: true },
+    ] : []),
     { key: "total_ebitda_incl_synergies", label: t("proforma.totalEbitdaIncl"), bold: true },
     { key: "ebitda_margin_incl_synergies", label: t("proforma.margin"), pct: true, indent: true },
     { key: "total_capex", label: t("proforma.totalCapex") },
     { key: "total_change_nwc", label: t("proforma.totalChangeNwc") },
     { key: "total_other_cash_flow", label: t("proforma.otherCashFlow") },
     { key: "operating_fcf", label: t("proforma.operatingFcf"), bold: true },
+    // Stored operating FCF is before synergies; one-off integration costs are shown separately
+    ...(hasIntegrationCosts ? [{ key: "integration_costs", label: t("proforma.integrationCosts") }] : []),
+    // Below EBITDA: combined reported lines and the amortisation of PPA intangibles (costs positive)
+    ...(hasPnl ? [
+      { key: "total_depreciation", label: t("proforma.depreciation") },
+      { key: "total_amortisation", label: t("proforma.amortisation") },
+      { key: "ppa_amortisation", label: t("proforma.ppaAmortisation") },
+      { key: "total_net_financial_items", label: t("proforma.netFinancialItems") },
+    ] : []),
   ];
 
   function getCellValue(item: typeof lineItems[0], p: ProFormaPeriod): string {
@@ -104,6 +126,22 @@ export default function ProFormaTable({
         expanded={expanded}
         onToggle={onToggle}
       />
+      {expanded && (alignment.calendarised.length > 0 || alignment.missing.length > 0) && (
+        <div className="mx-6 mt-4 space-y-1 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          {alignment.calendarised.length > 0 && (
+            <p className="flex items-center gap-1.5">
+              <AlertTriangle size={12} />
+              {t("proforma.calendarisedWarning", { name: targetName, periods: alignment.calendarised.join(", ") })}
+            </p>
+          )}
+          {alignment.missing.length > 0 && (
+            <p className="flex items-center gap-1.5">
+              <AlertTriangle size={12} />
+              {t("proforma.missingTargetWarning", { name: targetName, periods: alignment.missing.join(", ") })}
+            </p>
+          )}
+        </div>
+      )}
       {expanded && (
         <table className="ecit-table">
           <thead>
@@ -111,11 +149,26 @@ export default function ProFormaTable({
               <th className="text-left min-w-[200px]">
                 NOKm
               </th>
-              {pfPeriods.map((p) => (
-                <th key={p.id} className="num min-w-[90px]">
-                  {p.period_label}
-                </th>
-              ))}
+              {pfPeriods.map((p) => {
+                const a = getTargetAlignment(p);
+                const flagged = a && a.status !== "exact";
+                return (
+                  <th
+                    key={p.id}
+                    className={`num min-w-[90px] ${flagged ? "text-amber-700" : ""}`}
+                    title={
+                      a?.status === "calendarised"
+                        ? t("proforma.calendarisedFrom", { sources: describeAlignmentSources(a) })
+                        : a?.status === "missing"
+                          ? t("proforma.missingTarget", { name: targetName })
+                          : undefined
+                    }
+                  >
+                    {p.period_label}
+                    {flagged && "*"}
+                  </th>
+                );
+              })}
             </tr>
           </thead>
           <tbody>
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "../../hooks/useAuth";
+import { GitBranch, CornerDownRight, Columns3 } from "lucide-react";
+import api from "../../services/api";
+import type { AcquisitionScenario } from "../../types";
+import SectionHeader from "./SectionHeader";
+import { Button, SpinnerCircle } from "../ui";
+import { getErrorMessage } from "../../utils/errors";
+import { buildScenarioTree, flattenScenarioTree, treesMatching } from "../../utils/scenarioTree";
+import { MAX_COMPARED_SCENARIOS, toggleComparisonId } from "../../utils/scenarioComparison";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface ScenarioTreeProps {
+  acquirerModelId: number;
+  /** With a target: the trees of that deal; without: every deal of the acquirer model. */
+  targetModelId: number | null;
+  /** Scenario shown on the page (highlighted). */
+  currentScenarioId?: number;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  onCloned: (clone: AcquisitionScenario) => void;
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Scenario variants: every scenario of a deal as a parent/child tree of
+ * what-if branches, each of which can be cloned again under a new name, and
+ * up to five of which can be picked for a side-by-side comparison.
+ */
+export default function ScenarioTree({
+  acquirerModelId,
+  targetModelId,
+  currentScenarioId,
+  expanded,
+  onToggle,
+  onCloned,
+}: ScenarioTreeProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const [scenarios, setScenarios] = useState<AcquisitionScenario[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [cloneSource, setCloneSource] = useState<AcquisitionScenario | null>(null);
+  const [cloneName, setCloneName] = useState("");
+  const [cloning, setCloning] = useState(false);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  const fetchScenarios = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      setScenarios(await api.getScenarios());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when the section opens and when the page switches scenario
+  useEffect(() => {
+    if (expanded) fetchScenarios();
+  }, [expanded, fetchScenarios, currentScenarioId]);
+
+  const rows = useMemo(() => {
+    const sameDeal = (s: AcquisitionScenario) =>
+      s.acquirer_model_id === acquirerModelId && (targetModelId === null || s.target_model_id === targetModelId);
+    return flattenScenarioTree(treesMatching(buildScenarioTree(scenarios), sameDeal));
+  }, [scenarios, acquirerModelId, targetModelId]);
+
+  const startClone = (s: AcquisitionScenario) => {
+    setCloneSource(s);
+    setCloneName(t("scenarioTree.copyName", { name: s.name }));
+  };
+
+  const handleClone = async () => {
+    if (!cloneSource) return;
+    setCloning(true);
+    setError("");
+    try {
+      const clone = await api.cloneScenario(cloneSource.id, { name: cloneName.trim() || undefined });
+      setCloneSource(null);
+      await fetchScenarios();
+      onCloned(clone);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  const thCls = "text-left py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="variants"
+        title={t("scenarioTree.title")}
+        subtitle={t("scenarioTree.subtitle")}
+        expanded={expanded}
+        onToggle={onToggle}
+      />
+      {expanded && (
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+
+          {loading && scenarios.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <SpinnerCircle />
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-400">{t("scenarioTree.empty")}</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-gray-400">{t("scenarioTree.compareHint", { max: MAX_COMPARED_SCENARIOS })}</p>
+                {compareIds.length >= 2 && (
+                  <Link
+                    to={`/scenarios/compare?ids=${compareIds.join(",")}`}
+                    className="flex items-center gap-1.5 text-xs font-medium text-ecit-navy hover:underline"
+                  >
+                    <Columns3 size={12} />
+                    {t("scenarioTree.compareSelected", { count: compareIds.length })}
+                  </Link>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="w-8" />
+                    <th className={thCls}>{t("scenarioTree.scenario")}</th>
+                    <th className={thCls}>{t("scenarioTree.models")}</th>
+                    <th className={thCls}>{t("scenarioTree.status")}</th>
+                    <th className={thCls}>{t("scenarioTree.updated")}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ scenario: s, depth }) => (
+                    <tr
+                      key={s.id}
+                      className={`border-b border-gray-50 hover:bg-gray-50 ${s.id === currentScenarioId ? "bg-ecit-navy/5" : ""}`}
+                    >
+                      <td className="py-2 pl-3">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(s.id)}
+                          disabled={!compareIds.includes(s.id) && compareIds.length >= MAX_COMPARED_SCENARIOS}
+                          onChange={() => setCompareIds((prev) => toggleComparisonId(prev, s.id))}
+                          aria-label={t("scenarioTree.selectForCompare", { name: s.name })}
+                        />
+                      </td>
+                      <td className="py-2 px-3 whitespace-nowrap">
+                        <div className="flex items-center gap-1.5" style={{ paddingLeft: `${depth * 20}px` }}>
+                          {depth > 0 && <CornerDownRight size={12} className="text-gray-300 flex-shrink-0" />}
+                          <Link to={`/scenarios/${s.id}`} className="font-medium text-ecit-navy hover:underline">
+                            {s.name}
+                          </Link>
+                          {s.id === currentScenarioId && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-ecit-navy/10 text-ecit-navy">
+                              {t("scenarioTree.shown")}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 px-3 text-xs text-gray-500">
+                        {s.acquirer_model_name} + {s.target_company_name} ({s.target_model_name})
+                      </td>
+                      <td className="py-2 px-3 text-xs text-gray-600">{s.status}</td>
+                      <td className="py-2 px-3 text-xs text-gray-500 whitespace-nowrap">
+                        {new Date(s.updated_at).toLocaleDateString("nb-NO")}
+                      </td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {canEdit && cloneSource?.id !== s.id && (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            icon={<GitBranch size={12} />}
+                            onClick={() => startClone(s)}
+                          >
+                            {t("scenarioTree.clone")}
+                          </Button>
+                        )}
+                        {cloneSource?.id === s.id && (
+                          <div className="flex justify-end items-center gap-2">
+                            <input
+                              value={cloneName}
+                              onChange={(e) => setCloneName(e.target.value)}
+                              onKeyDown={(e) => e.key === "Enter" && handleClone()}
+                              maxLength={200}
+                              autoFocus
+                              aria-label={t("scenarioTree.cloneName")}
+                              className="border border-gray-300 rounded-lg px-2 py-1 text-xs w-56"
+                            />
+                            <Button size="sm" loading={cloning} onClick={handleClone}>
+                              {t("scenarioTree.createBranch")}
+                            </Button>
+                            <Button variant="secondary" size="sm" onClick={() => setCloneSource(null)}>
+                              {t("common.cancel")}
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
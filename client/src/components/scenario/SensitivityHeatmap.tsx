@@ -67,6 +67,7 @@ interface AxisOption {
   unit: string;
   isPercent: boolean;  // input is decimal (0.05), display as %
   isMultiple: boolean; // display with "x" suffix
+  isShift?: boolean;   // signed percentage-point shift; custom values are always typed in %
   defaultRange: number[];
 }
 
@@ -95,6 +96,15 @@ const AXIS_OPTIONS: AxisOption[] = [
     isMultiple: false,
     defaultRange: [0.03, 0.04, 0.05, 0.06, 0.07, 0.08, 0.09],
   },
+  {
+    param: "base_rate_shift",
+    labelKey: "sensitivity.axisOptions.baseRateShift",
+    unit: "%",
+    isPercent: true,
+    isMultiple: false,
+    isShift: true,
+    defaultRange: [-0.03, -0.02, -0.01, 0, 0.01, 0.02, 0.03],
+  },
   {
     param: "ordinary_equity",
     labelKey: "sensitivity.axisOptions.ordinaryEquity",
@@ -153,6 +163,7 @@ const METRIC_OPTIONS: { value: SensitivityMetric; labelKey: string }[] = [
 ];
 
 function formatAxisValue(val: number, opt: AxisOption): string {
+  if (opt.isShift) return `${val > 0 ? "+" : ""}${nbFmt1.format(val * 100)}%`;
   if (opt.isPercent) return `${nbFmt1.format(val * 100)}%`;
   if (opt.isMultiple) return `${nbFmt1.format(val)}x`;
   if (val >= 1000) return nbFmt1.format(val);
@@ -202,7 +213,7 @@ export default function SensitivityHeatmap({
     const vals = str.split(",").map(s => {
       const n = parseFloat(s.trim().replace(",", "."));
       // If user typed % values for percent fields, convert to decimal
-      if (opt.isPercent && n > 1) return n / 100;
+      if (opt.isPercent && (opt.isShift || n > 1)) return n / 100;
       return n;
     }).filter(n => !isNaN(n) && isFinite(n));
     return vals.length > 0 ? vals : opt.defaultRange;
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Save, TrendingUp, RotateCcw } from "lucide-react";
-import type { AcquisitionScenario, FinancialPeriod, ProFormaPeriod } from "../../types";
+import type { AcquisitionScenario, FinancialPeriod, ProFormaPeriod, SynergyFields, SynergyItem } from "../../types";
 import SectionHeader from "./SectionHeader";
+import SynergyItemsTable from "./SynergyItemsTable";
 import { useTranslation } from "react-i18next";
+import { useAuth } from "../../hooks/useAuth";
+import { toSynergyFields, yearSynergies, cleanSynergyFields, plannedCost } from "../../utils/synergies";
 
 // ── Norwegian number helpers ──────────────────────────────────────
 
@@ -26,9 +29,12 @@ interface SynergiesEditorProps {
   targetName: string;
   expanded: boolean;
   onToggle: (key: string) => void;
-  onSave: (timeline: Record<string, number>) => Promise<void>;
+  onSave: (fields: SynergyFields) => Promise<void>;
 }
 
+/** Year-keyed inputs edited in the table, in row order. */
+type TimelineKey = "cost_synergies_timeline" | "revenue_synergies_timeline" | "synergy_realisation" | "integration_costs_timeline";
+
 // ── Component ──────────────────────────────────────────────────────
 
 export default function SynergiesEditor({
@@ -43,6 +49,7 @@ export default function SynergiesEditor({
   onSave,
 }: SynergiesEditorProps) {
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
   // Extract years from acquirer periods (these drive the projection timeline)
   const years = useMemo(
     () => acquirerPeriods.map((p) => {
@@ -52,53 +59,62 @@ export default function SynergiesEditor({
     [acquirerPeriods]
   );
 
-  // Initialize timeline from scenario's saved values
-  const [timeline, setTimeline] = useState<Record<string, number>>(() => {
-    const saved = scenario.cost_synergies_timeline || {};
-    const initial: Record<string, number> = {};
-    for (const year of years) {
-      initial[year] = saved[year] ?? 0;
-    }
-    return initial;
-  });
+  // Initialize from scenario's saved values
+  const [fields, setFields] = useState<SynergyFields>(() => toSynergyFields(scenario));
 
   const [saving, setSaving] = useState(false);
   const [dirty, setDirty] = useState(false);
   const rampInputRef = useRef<HTMLInputElement>(null);
 
   // Re-sync when scenario changes (different ID or external save)
+  const {
+    cost_synergies_timeline, revenue_synergies_timeline, revenue_synergy_margin,
+    synergy_realisation, integration_costs_timeline, synergy_items,
+  } = scenario;
   useEffect(() => {
-    const saved = scenario.cost_synergies_timeline || {};
-    const updated: Record<string, number> = {};
-    for (const year of years) {
-      updated[year] = saved[year] ?? 0;
-    }
-    setTimeline(updated);
+    setFields(toSynergyFields({
+      cost_synergies_timeline, revenue_synergies_timeline, revenue_synergy_margin,
+      synergy_realisation, integration_costs_timeline, synergy_items,
+    }));
     setDirty(false);
-  }, [scenario.id, scenario.cost_synergies_timeline, years]);
+  }, [
+    scenario.id, cost_synergies_timeline, revenue_synergies_timeline, revenue_synergy_margin,
+    synergy_realisation, integration_costs_timeline, synergy_items,
+  ]);
+
+  /** Set (or clear, with null) one year of a timeline. */
+  const updateYear = (key: TimelineKey, year: string, value: number | null) => {
+    setFields((prev) => {
+      const next = { ...prev[key] };
+      if (value === null) delete next[year];
+      else next[year] = value;
+      return { ...prev, [key]: next };
+    });
+    setDirty(true);
+  };
+
+  const updateItems = (items: SynergyItem[]) => {
+    setFields((prev) => ({ ...prev, synergy_items: items }));
+    setDirty(true);
+  };
 
-  const updateYear = (year: string, value: number) => {
-    setTimeline((prev) => ({ ...prev, [year]: value }));
+  const updateMargin = (pct: string) => {
+    setFields((prev) => ({ ...prev, revenue_synergy_margin: pct === "" ? null : Number(pct) / 100 }));
     setDirty(true);
   };
 
   const handleSave = useCallback(async () => {
     setSaving(true);
     try {
-      await onSave(timeline);
+      await onSave(cleanSynergyFields(fields, years));
       setDirty(false);
     } finally {
       setSaving(false);
     }
-  }, [timeline, onSave]);
+  }, [fields, years, onSave]);
 
   const handleReset = () => {
-    const saved = scenario.cost_synergies_timeline || {};
-    const reset: Record<string, number> = {};
-    for (const year of years) {
-      reset[year] = saved[year] ?? 0;
-    }
-    setTimeline(reset);
+    setFields(toSynergyFields(scenario));
     setDirty(false);
   };
 
@@ -112,12 +128,21 @@ export default function SynergiesEditor({
       const pct = rampSteps > 1 ? i / (rampSteps - 1) : 1;
       updated[years[i]] = Math.round(fullRunRate * pct * 10) / 10;
     }
-    setTimeline(updated);
+    setFields((prev) => ({ ...prev, cost_synergies_timeline: updated }));
     setDirty(true);
   };
 
-  // Total synergies across all years
-  const totalSynergies = Object.values(timeline).reduce((s, v) => s + v, 0);
+  // Realised synergies per year, and their EBITDA impact
+  const realised = Object.fromEntries(years.map((y) => [y, yearSynergies(fields, y)]));
+  const totalSynergies = years.reduce((s, y) => s + realised[y].ebitda, 0);
+  // Cost synergies come from the items when there are any (read-only row, plus a risk-weighted one)
+  const fromItems = fields.synergy_items.length > 0;
+  const riskWeighted = fromItems
+    ? Object.fromEntries(years.map((y) => [y, yearSynergies(fields, y, true)]))
+    : null;
+  const valueOf = (key: TimelineKey, year: string) =>
+    key === "cost_synergies_timeline" ? plannedCost(fields, year) : fields[key][year];
+  const sumOf = (key: TimelineKey) => years.reduce((s, y) => s + (valueOf(key, y) || 0), 0);
 
   // Compute impact: show EBITDA excl vs incl synergies per year
   const ebitdaByYear: Record<string, { excl: number; incl: number; targetEbitda: number }> = {};
@@ -125,15 +150,26 @@ export default function SynergiesEditor({
     const pf = pfPeriods[i];
     const tgt = targetPeriods[i];
     const excl = pf ? (Number(pf.total_ebitda_excl_synergies) || 0) : 0;
-    const synergy = timeline[years[i]] || 0;
     const tgtEbitda = tgt ? (Number(tgt.ebitda_total) || 0) : 0;
     ebitdaByYear[years[i]] = {
       excl,
-      incl: excl + synergy,
+      incl: excl + realised[years[i]].ebitda,
       targetEbitda: tgtEbitda,
     };
   }
 
+  // Editable rows: timeline key, label, hint and how values are shown (realisation as %)
+  const inputRows: { key: TimelineKey; label: string; hint: string; pct?: boolean }[] = [
+    {
+      key: "cost_synergies_timeline",
+      label: `${t("synergies.costSynergies")} (${t("common.nokm")})`,
+      hint: fromItems ? t("synergies.fromItems") : t("synergies.editDirectly"),
+    },
+    { key: "revenue_synergies_timeline", label: `${t("synergies.revenueSynergies")} (${t("common.nokm")})`, hint: t("synergies.revenueHint") },
+    { key: "synergy_realisation", label: t("synergies.realisation"), hint: t("synergies.realisationHint"), pct: true },
+    { key: "integration_costs_timeline", label: `${t("synergies.integrationCosts")} (${t("common.nokm")})`, hint: t("synergies.integrationHint") },
+  ];
+
   const inputCls =
     "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
 
@@ -165,32 +201,51 @@ export default function SynergiesEditor({
             {t("synergies.placeholder")}
           </p>
 
-          {/* Ramp tool */}
+          <SynergyItemsTable items={fields.synergy_items} years={years} canEdit={canEdit} onChange={updateItems} />
+
+          {/* Ramp tool and revenue synergy margin */}
           <div className="flex items-center gap-3 mb-5">
-            <label className="text-xs font-medium text-gray-600 whitespace-nowrap">
-              {t("synergies.quickRamp")}:
+            {/* Typed cost synergies only; items are phased by their templates */}
+            {!fromItems && (
+              <>
+                <label className="text-xs font-medium text-gray-600 whitespace-nowrap">
+                  {t("synergies.quickRamp")}:
+                </label>
+                <input
+                  type="number"
+                  ref={rampInputRef}
+                  placeholder={t("synergies.rampPlaceholder")}
+                  className="w-28 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      const val = Number((e.target as HTMLInputElement).value);
+                      if (val > 0) handleApplyRamp(val);
+                    }
+                  }}
+                />
+                <button
+                  onClick={() => {
+                    const val = Number(rampInputRef.current?.value || 0);
+                    if (val > 0) handleApplyRamp(val);
+                  }}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+                >
+                  <TrendingUp size={12} /> {t("synergies.distributeLinear")}
+                </button>
+              </>
+            )}
+            <label className="ml-auto text-xs font-medium text-gray-600 whitespace-nowrap">
+              {t("synergies.revenueMargin")}:
             </label>
             <input
               type="number"
-              ref={rampInputRef}
-              placeholder={t("synergies.rampPlaceholder")}
-              className="w-28 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none"
-              onKeyDown={(e) => {
-                if (e.key === "Enter") {
-                  const val = Number((e.target as HTMLInputElement).value);
-                  if (val > 0) handleApplyRamp(val);
-                }
-              }}
+              step="0.5"
+              value={fields.revenue_synergy_margin != null ? Math.round(fields.revenue_synergy_margin * 10000) / 100 : ""}
+              onChange={(e) => updateMargin(e.target.value)}
+              disabled={!canEdit}
+              placeholder="%"
+              className="w-20 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-50"
             />
-            <button
-              onClick={() => {
-                const val = Number(rampInputRef.current?.value || 0);
-                if (val > 0) handleApplyRamp(val);
-              }}
-              className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
-            >
-              <TrendingUp size={12} /> {t("synergies.distributeLinear")}
-            </button>
           </div>
 
           {/* Year-by-year editor table */}
@@ -208,33 +263,40 @@ export default function SynergiesEditor({
                 </tr>
               </thead>
               <tbody>
-                {/* Input row */}
-                <tr className="!bg-amber-50/50">
-                  <td className="font-semibold text-gray-900">
-                    <div>{t("synergies.title")} ({t("common.nokm")})</div>
-                    <div className="text-[10px] text-gray-400 font-normal">
-                      {t("synergies.editDirectly")}
-                    </div>
-                  </td>
-                  {years.map((year) => (
-                    <td key={year} className="!p-1">
-                      <input
-                        type="number"
-                        step="0.1"
-                        value={timeline[year] || ""}
-                        onChange={(e) => {
-                          const v = e.target.value === "" ? 0 : Number(e.target.value);
-                          updateYear(year, v);
-                        }}
-                        className={inputCls}
-                        placeholder="0"
-                      />
+                {/* Input rows */}
+                {inputRows.map((row) => (
+                  <tr key={row.key} className="!bg-amber-50/50">
+                    <td className="font-semibold text-gray-900">
+                      <div>{row.label}</div>
+                      <div className="text-[10px] text-gray-400 font-normal">{row.hint}</div>
                     </td>
-                  ))}
-                  <td className="num font-semibold bg-gray-50 text-gray-900">
-                    {nbFmt1.format(totalSynergies)}
-                  </td>
-                </tr>
+                    {years.map((year) => {
+                      const v = valueOf(row.key, year);
+                      return (
+                        <td key={year} className="!p-1">
+                          <input
+                            type="number"
+                            step={row.pct ? "5" : "0.1"}
+                            value={row.pct ? (v != null ? Math.round(v * 1000) / 10 : "") : v || ""}
+                            onChange={(e) => {
+                              if (row.pct) {
+                                updateYear(row.key, year, e.target.value === "" ? null : Number(e.target.value) / 100);
+                              } else {
+                                updateYear(row.key, year, e.target.value === "" ? 0 : Number(e.target.value));
+                              }
+                            }}
+                            disabled={!canEdit || (fromItems && row.key === "cost_synergies_timeline")}
+                            className={`${inputCls} disabled:bg-gray-50`}
+                            placeholder={row.pct ? "100" : "0"}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="num font-semibold bg-gray-50 text-gray-900">
+                      {row.pct ? "-" : nbFmt1.format(sumOf(row.key))}
+                    </td>
+                  </tr>
+                ))}
 
                 {/* Synergies as % of target EBITDA */}
                 <tr>
@@ -244,7 +306,7 @@ export default function SynergiesEditor({
                   {years.map((year) => {
                     const data = ebitdaByYear[year];
                     const pct = data?.targetEbitda > 0
-                      ? (timeline[year] || 0) / data.targetEbitda
+                      ? realised[year].ebitda / data.targetEbitda
                       : 0;
                     return (
                       <td key={year} className="num text-xs text-gray-500">
@@ -262,6 +324,37 @@ export default function SynergiesEditor({
                   </td>
                 </tr>
 
+                {/* Realised EBITDA uplift with items weighted by probability */}
+                {riskWeighted && (
+                  <tr>
+                    <td className="text-gray-600 text-xs">
+                      <div>{t("synergies.riskWeighted")}</div>
+                      <div className="text-[10px] text-gray-400">{t("synergies.riskWeightedHint")}</div>
+                    </td>
+                    {years.map((year) => (
+                      <td key={year} className="num text-xs text-gray-500">
+                        {riskWeighted[year].ebitda !== 0 ? nbFmt1.format(riskWeighted[year].ebitda) : "-"}
+                      </td>
+                    ))}
+                    <td className="num text-xs text-gray-400 bg-gray-50">
+                      {nbFmt1.format(years.reduce((s, y) => s + riskWeighted[y].ebitda, 0))}
+                    </td>
+                  </tr>
+                )}
+
+                {/* EBITDA earned on (realised) revenue synergies */}
+                <tr>
+                  <td className="text-gray-600 text-xs">{t("synergies.revenueSynergyEbitda")}</td>
+                  {years.map((year) => (
+                    <td key={year} className="num text-xs text-gray-500">
+                      {realised[year].revenueEbitda !== 0 ? nbFmt1.format(realised[year].revenueEbitda) : "-"}
+                    </td>
+                  ))}
+                  <td className="num text-xs text-gray-400 bg-gray-50">
+                    {nbFmt1.format(years.reduce((s, y) => s + realised[y].revenueEbitda, 0))}
+                  </td>
+                </tr>
+
                 {/* PF EBITDA excl synergies */}
                 <tr>
                   <td className="text-gray-600 text-xs">{t("synergies.pfEbitdaExcl")}</td>
@@ -298,7 +391,7 @@ export default function SynergiesEditor({
                   {years.map((year) => {
                     const data = ebitdaByYear[year];
                     const uplift = data?.excl > 0
-                      ? (timeline[year] || 0) / data.excl
+                      ? realised[year].ebitda / data.excl
                       : 0;
                     return (
                       <td key={year} className="num text-xs text-gray-500">
@@ -317,24 +410,26 @@ export default function SynergiesEditor({
             <div className="text-xs text-gray-400">
               {t("synergies.impactNote")}
             </div>
-            <div className="flex items-center gap-2">
-              {dirty && (
+            {canEdit && (
+              <div className="flex items-center gap-2">
+                {dirty && (
+                  <button
+                    onClick={handleReset}
+                    className="flex items-center gap-1 px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-lg font-medium transition-colors"
+                  >
+                    <RotateCcw size={12} /> {t("synergies.reset")}
+                  </button>
+                )}
                 <button
-                  onClick={handleReset}
-                  className="flex items-center gap-1 px-3 py-2 text-xs bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-lg font-medium transition-colors"
+                  onClick={handleSave}
+                  disabled={saving || !dirty}
+                  className="flex items-center gap-1 px-4 py-2 text-xs bg-ecit-dark hover:bg-ecit-navy disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
                 >
-                  <RotateCcw size={12} /> {t("synergies.reset")}
+                  <Save size={12} />
+                  {saving ? t("synergies.saving") : t("synergies.saveSynergies")}
                 </button>
-              )}
-              <button
-                onClick={handleSave}
-                disabled={saving || !dirty}
-                className="flex items-center gap-1 px-4 py-2 text-xs bg-ecit-dark hover:bg-ecit-navy disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
-              >
-                <Save size={12} />
-                {saving ? t("synergies.saving") : t("synergies.saveSynergies")}
-              </button>
-            </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,180 @@
+import { Plus, Trash2 } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import type { PhasingTemplate, SynergyCategory, SynergyItem } from "../../types";
+import { SYNERGY_CATEGORIES, PHASING_TEMPLATES } from "../../utils/synergies";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface SynergyItemsTableProps {
+  items: SynergyItem[];
+  /** Projection years; the first is the default start year for new items. */
+  years: string[];
+  canEdit: boolean;
+  onChange: (items: SynergyItem[]) => void;
+}
+
+const TEMPLATES: PhasingTemplate[] = [...(Object.keys(PHASING_TEMPLATES) as PhasingTemplate[]), "custom"];
+
+/** "25/50/100" ↔ [0.25, 0.5, 1] */
+const formatPhasing = (phasing?: number[]) => (phasing ?? []).map((v) => Math.round(v * 1000) / 10).join("/");
+const parsePhasing = (text: string) =>
+  text.split(/[/,;\s]+/).filter(Boolean).map(Number).filter((v) => Number.isFinite(v)).map((v) => Math.min(Math.max(v, 0), 100) / 100);
+
+// ── Component ──────────────────────────────────────────────────────
+
+export default function SynergyItemsTable({ items, years, canEdit, onChange }: SynergyItemsTableProps) {
+  const { t } = useTranslation();
+
+  const update = (index: number, patch: Partial<SynergyItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const add = () => {
+    onChange([
+      ...items,
+      {
+        name: "",
+        category: "other",
+        run_rate: 0,
+        start_year: Number(years[0]) || new Date().getFullYear(),
+        template: "25_50_100",
+        probability: 1,
+      },
+    ]);
+  };
+
+  const remove = (index: number) => onChange(items.filter((_, i) => i !== index));
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none disabled:bg-gray-50";
+
+  return (
+    <div className="mb-5">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <div className="text-xs font-semibold text-gray-700">{t("synergies.items")}</div>
+          <div className="text-[10px] text-gray-400">{t("synergies.itemsHint")}</div>
+        </div>
+        {canEdit && (
+          <button
+            onClick={add}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+          >
+            <Plus size={12} /> {t("synergies.addItem")}
+          </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="ecit-table w-full">
+            <thead>
+              <tr>
+                <th className="text-left min-w-[180px]">{t("synergies.itemName")}</th>
+                <th className="text-left min-w-[130px]">{t("synergies.category")}</th>
+                <th className="num min-w-[100px]">{t("synergies.runRate")}</th>
+                <th className="num min-w-[90px]">{t("synergies.startYear")}</th>
+                <th className="text-left min-w-[140px]">{t("synergies.phasing")}</th>
+                <th className="text-left min-w-[120px]">{t("synergies.customPhasing")}</th>
+                <th className="num min-w-[90px]">{t("synergies.probability")}</th>
+                {canEdit && <th className="w-8" />}
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, i) => (
+                <tr key={i} className="!bg-amber-50/50">
+                  <td className="!p-1">
+                    <input
+                      value={item.name}
+                      onChange={(e) => update(i, { name: e.target.value })}
+                      disabled={!canEdit}
+                      className={inputCls}
+                    />
+                  </td>
+                  <td className="!p-1">
+                    <select
+                      value={item.category}
+                      onChange={(e) => update(i, { category: e.target.value as SynergyCategory })}
+                      disabled={!canEdit}
+                      className={inputCls}
+                    >
+                      {SYNERGY_CATEGORIES.map((c) => (
+                        <option key={c} value={c}>{t(`synergies.categories.${c}`)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="!p-1">
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={item.run_rate || ""}
+                      onChange={(e) => update(i, { run_rate: Number(e.target.value) || 0 })}
+                      disabled={!canEdit}
+                      className={`${inputCls} text-right`}
+                      placeholder="0"
+                    />
+                  </td>
+                  <td className="!p-1">
+                    <input
+                      type="number"
+                      value={item.start_year}
+                      onChange={(e) => update(i, { start_year: Number(e.target.value) || item.start_year })}
+                      disabled={!canEdit}
+                      className={`${inputCls} text-right`}
+                    />
+                  </td>
+                  <td className="!p-1">
+                    <select
+                      value={item.template}
+                      onChange={(e) => update(i, { template: e.target.value as PhasingTemplate })}
+                      disabled={!canEdit}
+                      className={inputCls}
+                    >
+                      {TEMPLATES.map((tpl) => (
+                        <option key={tpl} value={tpl}>{t(`synergies.templates.${tpl}`)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="!p-1">
+                    {item.template === "custom" ? (
+                      <input
+                        defaultValue={formatPhasing(item.custom_phasing)}
+                        onBlur={(e) => update(i, { custom_phasing: parsePhasing(e.target.value) })}
+                        disabled={!canEdit}
+                        className={inputCls}
+                        placeholder="20/60/100"
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-400 px-2">{formatPhasing(PHASING_TEMPLATES[item.template])}</span>
+                    )}
+                  </td>
+                  <td className="!p-1">
+                    <input
+                      type="number"
+                      step="5"
+                      value={Math.round((item.probability ?? 1) * 1000) / 10}
+                      onChange={(e) => update(i, { probability: Math.min(Math.max(Number(e.target.value) || 0, 0), 100) / 100 })}
+                      disabled={!canEdit}
+                      className={`${inputCls} text-right`}
+                    />
+                  </td>
+                  {canEdit && (
+                    <td className="!p-1 text-center">
+                      <button
+                        onClick={() => remove(i)}
+                        title={t("synergies.removeItem")}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState, useCallback, useMemo } from "react";
+import { BarChart3, Presentation } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { getErrorMessage } from "../../utils/errors";
+import type { AcquisitionScenario, DealParameters, TornadoDelta, SensitivityParam, TornadoResponse } from "../../types";
+import {
+  TORNADO_INPUTS,
+  PARAM_UNITS,
+  defaultDeltaInputs,
+  toDelta,
+  tornadoChartRows,
+  type DeltaInput,
+} from "../../utils/tornado";
+import { toNum, pct, formatMultiple, formatParamValue } from "./helpers";
+import SectionHeader from "./SectionHeader";
+import CopyChartButton from "./CopyChartButton";
+import api from "../../services/api";
+
+// ── Props ─────────────────────────────────────────────────────────
+
+interface TornadoChartProps {
+  scenario: AcquisitionScenario;
+  dealParams: DealParameters | null;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+}
+
+// ── Component ─────────────────────────────────────────────────────
+
+/**
+ * Tornado chart: moves each deal parameter to a low and a high value with
+ * everything else at base (server-side) and ranks parameters by IRR swing.
+ * The same analysis can be added as a slide to the PowerPoint export.
+ */
+export default function TornadoChart({ scenario, dealParams, expanded, onToggle }: TornadoChartProps) {
+  const { t } = useTranslation();
+  const { id: scenarioId, name: scenarioName, deal_parameters: savedParams } = scenario;
+
+  const [inputs, setInputs] = useState<Record<SensitivityParam, DeltaInput>>(defaultDeltaInputs);
+  const [returnCase, setReturnCase] = useState<"Kombinert" | "Standalone">("Kombinert");
+
+  const [result, setResult] = useState<TornadoResponse | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Same base as the sensitivity grid: deal params with the scenario's capital structure
+  const baseParams = useMemo((): DealParameters => {
+    const dp = dealParams || savedParams || { price_paid: 0, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+    return {
+      ...dp,
+      ordinary_equity: dp.ordinary_equity ?? (toNum(scenario.ordinary_equity) || undefined),
+      preferred_equity: dp.preferred_equity ?? (toNum(scenario.preferred_equity) || undefined),
+      preferred_equity_rate: dp.preferred_equity_rate ?? (toNum(scenario.preferred_equity_rate) || undefined),
+      net_debt: dp.net_debt ?? (toNum(scenario.net_debt) || undefined),
+      rollover_equity: dp.rollover_equity ?? (toNum(scenario.rollover_shareholders) || undefined),
+    };
+  }, [dealParams, savedParams, scenario.ordinary_equity, scenario.preferred_equity, scenario.preferred_equity_rate, scenario.net_debt, scenario.rollover_shareholders]);
+
+  const deltas = useMemo(() => {
+    const out: Partial<Record<SensitivityParam, TornadoDelta | null>> = {};
+    for (const { param, unit } of TORNADO_INPUTS) out[param] = toDelta(inputs[param], unit);
+    return out;
+  }, [inputs]);
+
+  const invalid = TORNADO_INPUTS.map((i) => i.param).filter((p) => !deltas[p]);
+  const canRun = invalid.length === 0 && baseParams.price_paid > 0;
+
+  const handleCalculate = useCallback(async () => {
+    if (!scenarioId || !canRun) return;
+    setCalculating(true);
+    setError("");
+    try {
+      const res = await api.calculateTornado(scenarioId, {
+        base_params: baseParams,
+        deltas: deltas as Partial<Record<SensitivityParam, TornadoDelta>>,
+        return_case: returnCase,
+      });
+      setResult(res);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setCalculating(false);
+    }
+  }, [scenarioId, canRun, baseParams, deltas, returnCase]);
+
+  const handleExportPpt = async () => {
+    if (!scenarioId) return;
+    setExporting(true);
+    setError("");
+    try {
+      await api.exportPpt(scenarioId, scenarioName, { tornado: true });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const chartData = (result ? tornadoChartRows(result) : []).map((r) => ({
+    ...r,
+    label: t(`tornado.params.${r.param}`),
+  }));
+
+  const inputCls =
+    "w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="tornado"
+        title={t("tornado.title")}
+        subtitle={t("tornado.subtitle")}
+        dark
+        expanded={expanded}
+        onToggle={onToggle}
+        actions={
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExportPpt}
+              disabled={exporting}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-ecit-gold hover:bg-ecit-gold-dark disabled:opacity-50 text-white rounded-lg font-medium"
+            >
+              <Presentation size={12} />
+              {exporting ? t("common.exporting") : t("tornado.exportPpt")}
+            </button>
+            <button
+              onClick={handleCalculate}
+              disabled={calculating || !canRun}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-medium"
+            >
+              <BarChart3 size={12} />
+              {calculating ? t("tornado.calculating") : t("tornado.calculate")}
+            </button>
+          </div>
+        }
+      />
+
+      {expanded && (
+        <div className="p-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">{error}</div>
+          )}
+
+          {/* ── Moves per parameter ────────────────────────── */}
+          <div className="bg-gray-50 rounded-xl border border-gray-200 p-5 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="text-sm font-semibold text-gray-900">{t("tornado.moves")}</h4>
+              <select
+                value={returnCase}
+                onChange={(e) => setReturnCase(e.target.value as "Kombinert" | "Standalone")}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+              >
+                <option value="Kombinert">{t("sensitivity.combined")}</option>
+                <option value="Standalone">{t("sensitivity.standalone")}</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+              {TORNADO_INPUTS.map(({ param, unit }) => (
+                <div key={param} className={`grid grid-cols-[1fr_80px_80px] gap-2 items-center ${deltas[param] ? "" : "bg-red-50 rounded"}`}>
+                  <span className="text-sm text-gray-700">
+                    {t(`tornado.params.${param}`)} <span className="text-gray-400 text-xs">({t(`tornado.units.${unit}`)})</span>
+                  </span>
+                  <input
+                    value={inputs[param].low}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, [param]: { ...prev[param], low: e.target.value } }))}
+                    aria-label={`${t(`tornado.params.${param}`)} ${t("tornado.low")}`}
+                    className={inputCls}
+                  />
+                  <input
+                    value={inputs[param].high}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, [param]: { ...prev[param], high: e.target.value } }))}
+                    aria-label={`${t(`tornado.params.${param}`)} ${t("tornado.high")}`}
+                    className={inputCls}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-3">{t("tornado.movesHint")}</p>
+            {invalid.length > 0 && (
+              <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-700">
+                {t("tornado.invalidInputs", { params: invalid.map((p) => t(`tornado.params.${p}`)).join(", ") })}
+              </div>
+            )}
+          </div>
+
+          {/* ── Results ────────────────────────────────────── */}
+          {!result && !calculating && (
+            <div className="text-center py-8 text-gray-400">
+              <BarChart3 size={32} className="mx-auto mb-3 opacity-40" />
+              <p className="text-sm">{t("tornado.emptyState")}</p>
+            </div>
+          )}
+
+          {calculating && (
+            <div className="text-center py-12 text-gray-500">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-ecit-navy mx-auto mb-4" />
+              <p className="text-sm">{t("tornado.calculating")}</p>
+            </div>
+          )}
+
+          {result && !calculating && (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {t("tornado.baseLine", {
+                  caseLabel: result.return_case,
+                  multiple: formatMultiple(result.exit_multiple),
+                  irr: pct(result.base_irr),
+                  mom: formatMultiple(result.base_mom),
+                })}
+              </p>
+
+              <CopyChartButton fileName="tornado">
+                <ResponsiveContainer width="100%" height={Math.max(200, chartData.length * 34 + 60)}>
+                  <BarChart data={chartData} layout="vertical" margin={{ left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis type="number" fontSize={11} unit=" pp" />
+                    <YAxis type="category" dataKey="label" fontSize={11} width={170} />
+                    <Tooltip formatter={(value) => `${Number(value).toFixed(1)} pp`} />
+                    <Legend />
+                    <ReferenceLine x={0} stroke="#002C55" />
+                    <Bar dataKey="low" name={t("tornado.low")} fill="#a8b5d6" />
+                    <Bar dataKey="high" name={t("tornado.high")} fill="#C9A84C" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CopyChartButton>
+
+              <div className="overflow-x-auto">
+                <table className="ecit-table w-full">
+                  <thead>
+                    <tr>
+                      <th className="text-left">{t("tornado.parameter")}</th>
+                      <th className="num">{t("tornado.low")}</th>
+                      <th className="num">{t("tornado.base")}</th>
+                      <th className="num">{t("tornado.high")}</th>
+                      <th className="num">{t("tornado.irrLow")}</th>
+                      <th className="num">{t("tornado.irrHigh")}</th>
+                      <th className="num">{t("tornado.irrSwing")}</th>
+                      <th className="num">{t("tornado.momSwing")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map((r) => {
+                      const unit = PARAM_UNITS[r.param];
+                      return (
+                        <tr key={r.param}>
+                          <td className="font-medium text-gray-900">{t(`tornado.params.${r.param}`)}</td>
+                          <td className="num">{formatParamValue(unit, r.low.value)}</td>
+                          <td className="num text-gray-500">{formatParamValue(unit, r.base_value)}</td>
+                          <td className="num">{formatParamValue(unit, r.high.value)}</td>
+                          <td className="num">{pct(r.low.irr)}</td>
+                          <td className="num">{pct(r.high.irr)}</td>
+                          <td className="num font-semibold">{pct(r.irr_swing)}</td>
+                          <td className="num">{formatMultiple(r.mom_swing)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[10px] text-gray-400">{t("tornado.footnote")}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
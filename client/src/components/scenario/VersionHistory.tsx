@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from "react";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "../../hooks/useAuth";
+import { GitCompare, RotateCcw } from "lucide-react";
+import api from "../../services/api";
+import type { AcquisitionScenario, ScenarioVersion, ScenarioVersionDiff } from "../../types";
+import SectionHeader from "./SectionHeader";
+import { formatPct, formatPctDelta, formatMultiple, formatMomDelta, formatDiffValue } from "./helpers";
+import { Button, ConfirmModal, SpinnerCircle } from "../ui";
+import { getErrorMessage } from "../../utils/errors";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface VersionHistoryProps {
+  scenario: AcquisitionScenario;
+  expanded: boolean;
+  onToggle: (key: string) => void;
+  onRestore: (versionNumber: number) => Promise<void>;
+}
+
+// ── Component ──────────────────────────────────────────────────────
+
+/**
+ * Version history: every scenario save is an immutable snapshot. Any earlier
+ * version can be diffed against the latest (field changes + IRR/MoM impact)
+ * and restored — a restore is itself recorded as a new version.
+ */
+export default function VersionHistory({ scenario, expanded, onToggle, onRestore }: VersionHistoryProps) {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const [versions, setVersions] = useState<ScenarioVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [diff, setDiff] = useState<ScenarioVersionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      setVersions(await api.getScenarioVersions(scenario.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [scenario.id]);
+
+  // Reload when the section opens and after every save (updated_at / deal params change)
+  useEffect(() => {
+    if (expanded) fetchVersions();
+  }, [expanded, fetchVersions, scenario.updated_at, scenario.deal_parameters]);
+
+  const latest = versions[0]?.version_number;
+
+  const handleCompare = async (versionNumber: number) => {
+    if (latest === undefined) return;
+    setDiffLoading(versionNumber);
+    setError("");
+    try {
+      setDiff(await api.diffScenarioVersions(scenario.id, versionNumber, latest));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setDiffLoading(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (restoreTarget === null) return;
+    setRestoring(true);
+    try {
+      await onRestore(restoreTarget);
+      setDiff(null);
+    } finally {
+      setRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const thCls = "text-left py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 mb-8">
+      <SectionHeader
+        sectionKey="versions"
+        title={t("versions.title")}
+        subtitle={t("versions.subtitle")}
+        expanded={expanded}
+        onToggle={onToggle}
+      />
+      {expanded && (
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+
+          {loading && versions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <SpinnerCircle />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-400">{t("versions.empty")}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className={thCls}>{t("versions.version")}</th>
+                  <th className={thCls}>{t("versions.savedAt")}</th>
+                  <th className={thCls}>{t("versions.author")}</th>
+                  <th className={thCls}>{t("versions.changes")}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((v) => (
+                  <tr key={v.id} className="border-b border-gray-50 hover:bg-gray-50">
+                    <td className="py-2 px-3 font-medium text-gray-900 whitespace-nowrap">
+                      v{v.version_number}
+                      {v.version_number === latest && (
+                        <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-ecit-navy/10 text-ecit-navy">
+                          {t("versions.current")}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-gray-600 whitespace-nowrap">
+                      {new Date(v.created_at).toLocaleString("nb-NO")}
+                    </td>
+                    <td className="py-2 px-3 text-gray-600">
+                      {v.created_by_name || t("versions.unknownAuthor")}
+                    </td>
+                    <td className="py-2 px-3 text-xs text-gray-500">
+                      {v.restored_from !== null
+                        ? t("versions.restoredFrom", { n: v.restored_from })
+                        : v.changed_fields && v.changed_fields.length > 0
+                          ? v.changed_fields.join(", ")
+                          : t("versions.initial")}
+                    </td>
+                    <td className="py-2 px-3 text-right whitespace-nowrap">
+                      {v.version_number !== latest && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            icon={<GitCompare size={12} />}
+                            loading={diffLoading === v.version_number}
+                            onClick={() => handleCompare(v.version_number)}
+                          >
+                            {t("versions.compare")}
+                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              icon={<RotateCcw size={12} />}
+                              onClick={() => setRestoreTarget(v.version_number)}
+                            >
+                              {t("versions.restore")}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {diff && (
+            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+              <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                {t("versions.diffTitle", { from: diff.from.version_number, to: diff.to.version_number })}
+              </h4>
+
+              {/* Returns impact */}
+              <div className="flex flex-wrap gap-6 text-sm mb-4">
+                <span className="text-gray-500">{t("versions.returnsImpact")}:</span>
+                {diff.returns.from || diff.returns.to ? (
+                  <>
+                    <span>
+                      IRR {formatPct(diff.returns.from?.irr ?? null)} → <b>{formatPct(diff.returns.to?.irr ?? null)}</b>{" "}
+                      <span className="text-gray-500">Δ {formatPctDelta(diff.returns.irr_delta)}</span>
+                    </span>
+                    <span>
+                      MoM {formatMultiple(diff.returns.from?.mom ?? null)} → <b>{formatMultiple(diff.returns.to?.mom ?? null)}</b>{" "}
+                      <span className="text-gray-500">Δ {formatMomDelta(diff.returns.mom_delta)}</span>
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-gray-400">{t("versions.noReturns")}</span>
+                )}
+              </div>
+
+              {diff.changes.length === 0 ? (
+                <p className="text-sm text-gray-400">{t("versions.noChanges")}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className={thCls}>{t("versions.field")}</th>
+                      <th className={thCls}>v{diff.from.version_number}</th>
+                      <th className={thCls}>v{diff.to.version_number}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.changes.map((c) => (
+                      <tr key={c.field} className="border-b border-gray-100 align-top">
+                        <td className="py-1.5 px-3 font-mono text-xs text-gray-700">{c.field}</td>
+                        <td className="py-1.5 px-3 text-xs text-red-700 break-all">{formatDiffValue(c.from)}</td>
+                        <td className="py-1.5 px-3 text-xs text-green-700 break-all">{formatDiffValue(c.to)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        open={restoreTarget !== null}
+        onConfirm={handleRestore}
+        onCancel={() => setRestoreTarget(null)}
+        title={t("versions.confirmRestoreTitle")}
+        message={t("versions.confirmRestoreMessage", { n: restoreTarget ?? "" })}
+        confirmLabel={t("versions.restore")}
+        variant="warning"
+        loading={restoring}
+      />
+    </div>
+  );
+}
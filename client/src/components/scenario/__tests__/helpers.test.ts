@@ -10,6 +10,7 @@ import {
   formatMomDelta,
   formatMultiple,
   formatTooltip,
+  formatDiffValue,
   autoClassifySource,
   getSourceType,
   getEquityFromSources,
@@ -293,6 +294,25 @@ describe("formatTooltip", () => {
   });
 });
 
+// ─── formatDiffValue ──────────────────────────────────────────────────────
+
+describe("formatDiffValue", () => {
+  it("renders empty values as a dash", () => {
+    expect(formatDiffValue(null)).toBe("–");
+    expect(formatDiffValue(undefined)).toBe("–");
+    expect(formatDiffValue("")).toBe("–");
+  });
+
+  it("passes strings and booleans through", () => {
+    expect(formatDiffValue("active")).toBe("active");
+    expect(formatDiffValue(true)).toBe("true");
+  });
+
+  it("serialises objects as JSON", () => {
+    expect(formatDiffValue({ amount: 1 })).toBe('{"amount":1}');
+  });
+});
+
 // ─── autoClassifySource ───────────────────────────────────────────────────
 
 describe("autoClassifySource", () => {
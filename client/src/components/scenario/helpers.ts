@@ -96,6 +96,13 @@ export const formatMultiple = (val: any) => {
   return `${nbFmt1.format(num)}x`;
 };
 
+/** Format a sensitivity parameter value by unit: multiple "12,0x", amount "1 250", rate "6,5%" */
+export const formatParamValue = (unit: "multiple" | "amount" | "rate", val: number | null) => {
+  if (unit === "multiple") return formatMultiple(val);
+  if (unit === "amount") return formatNum(val, 0);
+  return pct(val);
+};
+
 /** Format a value for chart tooltips (Norwegian locale + suffix) */
 export const formatTooltip = (val: any, suffix = "") => {
   if (val === null || val === undefined) return "-";
@@ -104,6 +111,14 @@ export const formatTooltip = (val: any, suffix = "") => {
   return `${nbFmt1.format(num)}${suffix ? ` ${suffix}` : ""}`;
 };
 
+/** Format a before/after value in a field diff (version history, audit log) */
+export const formatDiffValue = (v: unknown): string => {
+  if (v === null || v === undefined || v === "") return "–";
+  if (typeof v === "number") return v.toLocaleString("nb-NO", { maximumFractionDigits: 4 });
+  if (typeof v === "string" || typeof v === "boolean") return String(v);
+  return JSON.stringify(v);
+};
+
 /**
  * Auto-classify a source by name using keyword heuristics.
  * Used as fallback when a source has no explicit `type` field (backward compat).
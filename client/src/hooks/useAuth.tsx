@@ -1,10 +1,15 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
 import type { User } from "../types";
 import api from "../services/api";
+import { canEditRole, isAdminRole } from "../utils/roles";
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
+  /** Admins and analysts can modify data; viewers are read-only. */
+  canEdit: boolean;
+  /** Admins additionally see the audit log. */
+  isAdmin: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => void;
@@ -46,7 +51,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   return (
     <AuthContext.Provider
-      value={{ user, isAuthenticated: !!user, login, register, logout }}
+      value={{ user, isAuthenticated: !!user, canEdit: canEditRole(user?.role), isAdmin: isAdminRole(user?.role), login, register, logout }}
     >
       {children}
     </AuthContext.Provider>
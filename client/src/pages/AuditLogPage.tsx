@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback, Fragment } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { ChevronDown, ChevronRight, ScrollText } from "lucide-react";
+import api from "../services/api";
+import type { AuditEntityType, AuditEvent, AuditFilters, AuditUser } from "../types";
+import { Button, SpinnerCircle } from "../components/ui";
+import { formatDiffValue } from "../components/scenario/helpers";
+import { auditEntityPath } from "../utils/audit";
+import { getErrorMessage } from "../utils/errors";
+
+const PAGE_SIZE = 50;
+const ENTITY_TYPES: AuditEntityType[] = ["company", "model", "period", "scenario", "label_rule", "comparable"];
+
+/**
+ * Admin audit log: every company, model, period and scenario write with
+ * author, timestamp and the before/after field diff. Filterable by entity
+ * type, user and date range.
+ */
+export default function AuditLogPage() {
+  const { t } = useTranslation();
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [offset, setOffset] = useState(0);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [users, setUsers] = useState<AuditUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const page = await api.getAuditEvents({ ...filters, limit: PAGE_SIZE, offset });
+      setEvents(page.events);
+      setTotal(page.total);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    api.getAuditUsers().then(setUsers).catch(() => setUsers([]));
+  }, []);
+
+  const updateFilter = (patch: Partial<AuditFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setOffset(0);
+    setExpanded(null);
+  };
+
+  const inputCls =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const thCls = "text-left py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="p-8 max-w-7xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <ScrollText size={22} className="text-ecit-navy" />
+          {t("audit.title")}
+        </h1>
+        <p className="text-gray-500 mt-1">{t("audit.subtitle")}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4 mb-6 flex flex-wrap items-end gap-4">
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("audit.entityType")}</span>
+          <select
+            value={filters.entity_type ?? ""}
+            onChange={(e) => updateFilter({ entity_type: (e.target.value || undefined) as AuditEntityType | undefined })}
+            className={inputCls}
+          >
+            <option value="">{t("audit.all")}</option>
+            {ENTITY_TYPES.map((type) => (
+              <option key={type} value={type} className="capitalize">
+                {t(`audit.entities.${type}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("audit.user")}</span>
+          <select
+            value={filters.user_id ?? ""}
+            onChange={(e) => updateFilter({ user_id: e.target.value ? Number(e.target.value) : undefined })}
+            className={inputCls}
+          >
+            <option value="">{t("audit.all")}</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("audit.from")}</span>
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={inputCls}
+          />
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("audit.to")}</span>
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={inputCls}
+          />
+        </label>
+        <Button variant="secondary" size="sm" onClick={() => updateFilter({ entity_type: undefined, user_id: undefined, from: undefined, to: undefined })}>
+          {t("common.reset")}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-200">
+        {loading && events.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <SpinnerCircle />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-400 p-6">{t("audit.empty")}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="w-8" />
+                <th className={thCls}>{t("audit.time")}</th>
+                <th className={thCls}>{t("audit.user")}</th>
+                <th className={thCls}>{t("audit.action")}</th>
+                <th className={thCls}>{t("audit.entity")}</th>
+                <th className={thCls}>{t("audit.changes")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e) => {
+                const isOpen = expanded === e.id;
+                return (
+                  <Fragment key={e.id}>
+                    <tr
+                      className="border-b border-gray-50 hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpanded(isOpen ? null : e.id)}
+                    >
+                      <td className="py-2 pl-3 text-gray-400">
+                        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                      </td>
+                      <td className="py-2 px-3 text-gray-600 whitespace-nowrap">
+                        {new Date(e.created_at).toLocaleString("nb-NO")}
+                      </td>
+                      <td className="py-2 px-3 text-gray-600">{e.user_name || t("audit.unknownUser")}</td>
+                      <td className="py-2 px-3 text-gray-900 font-medium">{t(`audit.actions.${e.action}`)}</td>
+                      <td className="py-2 px-3">
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 mr-2 capitalize">
+                          {t(`audit.entities.${e.entity_type}`)}
+                        </span>
+                        {e.action === "delete" || auditEntityPath(e.entity_type, e.entity_id) === null ? (
+                          <span className="text-gray-900">{e.entity_name ?? `#${e.entity_id}`}</span>
+                        ) : (
+                          <Link
+                            to={auditEntityPath(e.entity_type, e.entity_id)!}
+                            onClick={(ev) => ev.stopPropagation()}
+                            className="text-ecit-navy hover:underline"
+                          >
+                            {e.entity_name ?? `#${e.entity_id}`}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-xs text-gray-500">
+                        {t("audit.fieldCount", { count: e.changes.length })}
+                      </td>
+                    </tr>
+                    {isOpen && (
+                      <tr className="bg-gray-50 border-b border-gray-200">
+                        <td />
+                        <td colSpan={5} className="py-3 px-3">
+                          {e.metadata && Object.keys(e.metadata).length > 0 && (
+                            <p className="text-xs text-gray-500 mb-2 font-mono break-all">
+                              {JSON.stringify(e.metadata)}
+                            </p>
+                          )}
+                          {e.changes.length === 0 ? (
+                            <p className="text-xs text-gray-400">{t("audit.noChanges")}</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="border-b border-gray-200">
+                                  <th className={thCls}>{t("audit.field")}</th>
+                                  <th className={thCls}>{t("audit.before")}</th>
+                                  <th className={thCls}>{t("audit.after")}</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {e.changes.map((c) => (
+                                  <tr key={c.field} className="border-b border-gray-100 align-top">
+                                    <td className="py-1 px-3 font-mono text-gray-700">{c.field}</td>
+                                    <td className="py-1 px-3 text-red-700 break-all">{formatDiffValue(c.from)}</td>
+                                    <td className="py-1 px-3 text-green-700 break-all">{formatDiffValue(c.to)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Paging */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-500">
+          <span>
+            {t("audit.showing", { from: offset + 1, to: Math.min(offset + PAGE_SIZE, total), total })}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+              {t("audit.previous")}
+            </Button>
+            <Button variant="secondary" size="sm" disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+              {t("audit.next")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import type { Company } from "../types";
 import { Building2, Plus, Trash2, Target, Crown } from "lucide-react";
 import { getErrorMessage } from "../utils/errors";
 import { Spinner, ConfirmModal } from "../components/ui";
+import { useAuth } from "../hooks/useAuth";
 
 export default function CompaniesPage() {
   const [companies, setCompanies] = useState<Company[]>([]);
@@ -22,6 +23,7 @@ export default function CompaniesPage() {
   const [error, setError] = useState("");
   const [deleteTarget, setDeleteTarget] = useState<{ id: number; name: string } | null>(null);
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
 
   const fetchCompanies = async () => {
     try {
@@ -89,13 +91,15 @@ export default function CompaniesPage() {
             {t("companies.subtitle")}
           </p>
         </div>
-        <button
-          onClick={() => setShowForm(!showForm)}
-          className="flex items-center gap-2 px-4 py-2.5 bg-ecit-dark text-white rounded-lg hover:bg-ecit-navy transition-colors text-sm font-medium"
-        >
-          <Plus size={16} />
-          {t("companies.newCompany")}
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-ecit-dark text-white rounded-lg hover:bg-ecit-navy transition-colors text-sm font-medium"
+          >
+            <Plus size={16} />
+            {t("companies.newCompany")}
+          </button>
+        )}
       </div>
 
       {error && (
@@ -217,7 +221,7 @@ export default function CompaniesPage() {
               <CompanyCard
                 key={c.id}
                 company={c}
-                onDelete={() => handleDeleteClick(c.id, c.name)}
+                onDelete={canEdit ? () => handleDeleteClick(c.id, c.name) : undefined}
               />
             ))}
           </div>
@@ -240,7 +244,7 @@ export default function CompaniesPage() {
               <CompanyCard
                 key={c.id}
                 company={c}
-                onDelete={() => handleDeleteClick(c.id, c.name)}
+                onDelete={canEdit ? () => handleDeleteClick(c.id, c.name) : undefined}
               />
             ))}
           </div>
@@ -264,7 +268,8 @@ function CompanyCard({
   onDelete,
 }: {
   company: Company;
-  onDelete: () => void;
+  /** Omitted for read-only users (no delete button). */
+  onDelete?: () => void;
 }) {
   const { t } = useTranslation();
 
@@ -298,13 +303,15 @@ function CompanyCard({
             </div>
           </div>
         </Link>
-        <button
-          onClick={onDelete}
-          className="p-2 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
-          title={t("common.delete")}
-        >
-          <Trash2 size={16} />
-        </button>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="p-2 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
+            title={t("common.delete")}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
       </div>
     </div>
   );
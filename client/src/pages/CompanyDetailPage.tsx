@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import api from "../services/api";
-import type { Company, FinancialModel, ExcelImportResult } from "../types";
+import type { Company, FinancialModel, ExcelImportResult, ExcelImportPreview as ExcelImportPreviewType, ExcelImportSelection } from "../types";
 import {
   ArrowLeft,
   Plus,
@@ -15,8 +15,11 @@ import {
   X,
 } from "lucide-react";
 import CompanyAssumptions from "../components/CompanyAssumptions";
+import ExcelImportPreview from "../components/ExcelImportPreview";
+import UnmappedLabels from "../components/UnmappedLabels";
 import { getErrorMessage } from "../utils/errors";
 import { Spinner, ConfirmModal } from "../components/ui";
+import { useAuth } from "../hooks/useAuth";
 
 export default function CompanyDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -26,6 +29,7 @@ export default function CompanyDetailPage() {
   const [error, setError] = useState("");
   const [deleteTarget, setDeleteTarget] = useState<{ id: number; name: string } | null>(null);
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
 
   // New model form
   const [showModelForm, setShowModelForm] = useState(false);
@@ -44,6 +48,8 @@ export default function CompanyDetailPage() {
   const [excelDragOver, setExcelDragOver] = useState(false);
   const [excelResult, setExcelResult] = useState<ExcelImportResult | null>(null);
   const [excelError, setExcelError] = useState("");
+  const [excelPreview, setExcelPreview] = useState<{ file: File; preview: ExcelImportPreviewType } | null>(null);
+  const [excelCommitting, setExcelCommitting] = useState(false);
 
   const fetchData = async () => {
     if (!id) return;
@@ -146,11 +152,12 @@ export default function CompanyDetailPage() {
     setExcelUploading(true);
     setExcelError("");
     setExcelResult(null);
+    setExcelPreview(null);
 
+    // Dry run first — nothing is written until the preview is confirmed
     try {
-      const result = await api.importExcelFile(Number(id), file);
-      setExcelResult(result);
-      fetchData(); // Refresh model list
+      const preview = await api.previewExcelImport(Number(id), file);
+      setExcelPreview({ file, preview });
     } catch (err) {
       setExcelError(getErrorMessage(err) || t("companyDetail.importFailed"));
     } finally {
@@ -158,6 +165,32 @@ export default function CompanyDetailPage() {
     }
   }, [id, t]);
 
+  const refreshExcelPreview = async () => {
+    if (!id || !excelPreview) return;
+    try {
+      const preview = await api.previewExcelImport(Number(id), excelPreview.file);
+      setExcelPreview({ file: excelPreview.file, preview });
+    } catch (err) {
+      setExcelError(getErrorMessage(err) || t("companyDetail.importFailed"));
+    }
+  };
+
+  const handleExcelCommit = async (selection: ExcelImportSelection) => {
+    if (!id || !excelPreview) return;
+    setExcelCommitting(true);
+    setExcelError("");
+    try {
+      const result = await api.importExcelFile(Number(id), excelPreview.file, selection);
+      setExcelResult(result);
+      setExcelPreview(null);
+      fetchData(); // Refresh model list
+    } catch (err) {
+      setExcelError(getErrorMessage(err) || t("companyDetail.importFailed"));
+    } finally {
+      setExcelCommitting(false);
+    }
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -231,13 +264,15 @@ export default function CompanyDetailPage() {
               <span>{company.currency}</span>
             </div>
           </div>
-          <button
-            onClick={() => setShowModelForm(!showModelForm)}
-            className="flex items-center gap-2 px-4 py-2.5 bg-ecit-dark text-white rounded-lg hover:bg-ecit-navy transition-colors text-sm font-medium"
-          >
-            <Plus size={16} />
-            {t("companyDetail.newModel")}
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowModelForm(!showModelForm)}
+              className="flex items-center gap-2 px-4 py-2.5 bg-ecit-dark text-white rounded-lg hover:bg-ecit-navy transition-colors text-sm font-medium"
+            >
+              <Plus size={16} />
+              {t("companyDetail.newModel")}
+            </button>
+          )}
         </div>
       </div>
 
@@ -249,55 +284,57 @@ export default function CompanyDetailPage() {
 
       {/* Excel Upload Zone */}
       <div className="mb-8">
-        <div
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          className={`relative border-2 border-dashed rounded-xl p-6 text-center transition-colors ${
-            excelDragOver
-              ? "border-ecit-accent bg-blue-50/50"
-              : "border-gray-300 hover:border-gray-400"
-          } ${excelUploading ? "opacity-60 pointer-events-none" : ""}`}
-        >
-          <div className="flex flex-col items-center gap-2">
-            <div className="p-3 rounded-full bg-blue-50">
-              <FileSpreadsheet size={28} className="text-ecit-navy" />
-            </div>
-            <div>
-              <p className="text-sm font-medium text-gray-700">
-                {excelUploading ? t("companyDetail.uploadExcelActive") : t("companyDetail.uploadExcel")}
-              </p>
-              <p className="text-xs text-gray-400 mt-1">
-                {t("companyDetail.dragAndDrop")}{" "}
-                <label className="text-ecit-accent hover:text-ecit-navy cursor-pointer underline">
-                  {t("companyDetail.selectFile")}
-                  <input
-                    type="file"
-                    accept=".xlsx,.xls"
-                    className="hidden"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleExcelUpload(file);
-                      e.target.value = "";
-                    }}
-                  />
-                </label>
-              </p>
-              <p className="text-xs text-gray-400 mt-0.5">
-                {t("companyDetail.autoCreateModels")}
-              </p>
+        {canEdit && (
+          <div
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            className={`relative border-2 border-dashed rounded-xl p-6 text-center transition-colors ${
+              excelDragOver
+                ? "border-ecit-accent bg-blue-50/50"
+                : "border-gray-300 hover:border-gray-400"
+            } ${excelUploading ? "opacity-60 pointer-events-none" : ""}`}
+          >
+            <div className="flex flex-col items-center gap-2">
+              <div className="p-3 rounded-full bg-blue-50">
+                <FileSpreadsheet size={28} className="text-ecit-navy" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700">
+                  {excelUploading ? t("companyDetail.uploadExcelActive") : t("companyDetail.uploadExcel")}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {t("companyDetail.dragAndDrop")}{" "}
+                  <label className="text-ecit-accent hover:text-ecit-navy cursor-pointer underline">
+                    {t("companyDetail.selectFile")}
+                    <input
+                      type="file"
+                      accept=".xlsx,.xls"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleExcelUpload(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </p>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {t("companyDetail.autoCreateModels")}
+                </p>
+              </div>
             </div>
-          </div>
 
-          {excelUploading && (
-            <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-xl">
-              <div className="flex items-center gap-2 text-sm text-ecit-navy font-medium">
-                <div className="w-4 h-4 border-2 border-ecit-navy border-t-transparent rounded-full animate-spin" />
-                {t("companyDetail.readingExcel")}
+            {excelUploading && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-xl">
+                <div className="flex items-center gap-2 text-sm text-ecit-navy font-medium">
+                  <div className="w-4 h-4 border-2 border-ecit-navy border-t-transparent rounded-full animate-spin" />
+                  {t("companyDetail.readingExcel")}
+                </div>
               </div>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
 
         {/* Excel Import Error */}
         {excelError && (
@@ -310,6 +347,19 @@ export default function CompanyDetailPage() {
           </div>
         )}
 
+        {/* Excel Import Preview (dry run) */}
+        {excelPreview && (
+          <ExcelImportPreview
+            preview={excelPreview.preview}
+            companyId={Number(id)}
+            fileName={excelPreview.file.name}
+            committing={excelCommitting}
+            onConfirm={handleExcelCommit}
+            onCancel={() => setExcelPreview(null)}
+            onRefresh={refreshExcelPreview}
+          />
+        )}
+
         {/* Excel Import Result */}
         {excelResult && (
           <div className="mt-3 bg-green-50 border border-green-200 rounded-lg p-4">
@@ -326,18 +376,26 @@ export default function CompanyDetailPage() {
                     {excelResult.models_updated > 0 && t("companyDetail.modelsUpdated", { count: excelResult.models_updated })}
                     {" — "}
                     {t("companyDetail.totalPeriods", { count: excelResult.total_periods })}
+                    {excelResult.models_skipped > 0 && ` (${t("excelPreview.modelsSkipped", { count: excelResult.models_skipped })})`}
                   </p>
 
                   {/* Model details */}
                   {excelResult.model_details.length > 0 && (
                     <div className="mt-2 space-y-1">
                       {excelResult.model_details.map((m, i) => (
-                        <div key={i} className="flex items-center gap-2 text-xs text-green-700">
-                          <FileSpreadsheet size={12} />
-                          <span className="font-medium">{m.name}</span>
-                          <span className="text-green-500">
-                            ({m.periods} {t("common.periods")}, {m.action === "created" ? t("companyDetail.new") : t("companyDetail.updated")})
-                          </span>
+                        <div key={i}>
+                          <div className="flex items-center gap-2 text-xs text-green-700">
+                            <FileSpreadsheet size={12} />
+                            <span className="font-medium">{m.name}</span>
+                            <span className="text-green-500">
+                              ({m.periods} {t("common.periods")}, {m.action === "created" ? t("companyDetail.new") : t("companyDetail.updated")})
+                            </span>
+                          </div>
+                          {m.unmapped_labels.length > 0 && (
+                            <div className="ml-5 mt-1">
+                              <UnmappedLabels labels={m.unmapped_labels} companyId={Number(id)} />
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -484,20 +542,22 @@ export default function CompanyDetailPage() {
 
                 <div className="flex items-center gap-2">
                   {/* Import button (JSON/CSV per-model) */}
-                  <label className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg text-xs font-medium hover:bg-blue-100 cursor-pointer transition-colors">
-                    <Upload size={14} />
-                    {t("common.import")}
-                    <input
-                      type="file"
-                      accept=".json,.csv"
-                      className="hidden"
-                      onChange={(e) => {
-                        const file = e.target.files?.[0];
-                        if (file) handleFileUpload(model.id, file);
-                        e.target.value = "";
-                      }}
-                    />
-                  </label>
+                  {canEdit && (
+                    <label className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg text-xs font-medium hover:bg-blue-100 cursor-pointer transition-colors">
+                      <Upload size={14} />
+                      {t("common.import")}
+                      <input
+                        type="file"
+                        accept=".json,.csv"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleFileUpload(model.id, file);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  )}
 
                   {/* View button */}
                   <Link
@@ -509,13 +569,15 @@ export default function CompanyDetailPage() {
                   </Link>
 
                   {/* Delete */}
-                  <button
-                    onClick={() => handleDeleteModelClick(model.id, model.name)}
-                    className="p-1.5 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
-                    title={t("companyDetail.deleteModel")}
-                  >
-                    <Trash2 size={14} />
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleDeleteModelClick(model.id, model.name)}
+                      className="p-1.5 rounded-lg hover:bg-red-50 text-gray-400 hover:text-red-600 transition-colors"
+                      title={t("companyDetail.deleteModel")}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
                 </div>
               </div>
 
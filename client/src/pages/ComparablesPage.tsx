@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useTranslation } from "react-i18next";
+import { Scale, Trash2, Upload } from "lucide-react";
+import api from "../services/api";
+import type { Comparable, ComparableFilters, ComparableImportResult, ComparableKind, CompSetStats } from "../types";
+import { Button, ConfirmModal, IconButton, SpinnerCircle } from "../components/ui";
+import { formatMultiple, formatNum } from "../components/scenario/helpers";
+import { MULTIPLE_KEYS } from "../utils/comparables";
+import { getErrorMessage } from "../utils/errors";
+import { useAuth } from "../hooks/useAuth";
+
+const KINDS: ComparableKind[] = ["trading", "transaction"];
+
+/**
+ * Comparables database: trading peers and precedent transactions with their
+ * EV multiples, imported from CSV or Excel. Median and quartile multiples of
+ * the filtered set back up the exit multiple range on a scenario.
+ */
+export default function ComparablesPage() {
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const [filters, setFilters] = useState<ComparableFilters>({});
+  const [comps, setComps] = useState<Comparable[]>([]);
+  const [stats, setStats] = useState<CompSetStats | null>(null);
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [importKind, setImportKind] = useState<ComparableKind | "">("");
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ComparableImportResult | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Comparable | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const loadComps = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const [list, summary] = await Promise.all([api.getComparables(filters), api.getComparableStats(filters)]);
+      setComps(list);
+      setStats(summary);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  const loadSectors = useCallback(() => {
+    api.getComparableSectors().then(setSectors).catch(() => setSectors([]));
+  }, []);
+
+  useEffect(() => {
+    loadComps();
+  }, [loadComps]);
+
+  useEffect(() => {
+    loadSectors();
+  }, [loadSectors]);
+
+  const updateFilter = (patch: Partial<ComparableFilters>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    setError("");
+    setImportResult(null);
+    try {
+      setImportResult(await api.importComparables(file, importKind || undefined));
+      loadSectors();
+      await loadComps();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setImporting(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    try {
+      await api.deleteComparable(deleteTarget.id);
+      setDeleteTarget(null);
+      await loadComps();
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setDeleteTarget(null);
+    }
+  };
+
+  const inputCls =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-ecit-navy focus:border-ecit-navy outline-none";
+  const thCls = "text-left py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+  const thNumCls = "text-right py-2 px-3 text-[10px] font-semibold text-gray-500 uppercase tracking-wide";
+
+  return (
+    <div className="p-8 max-w-7xl">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Scale size={22} className="text-ecit-navy" />
+          {t("comparables.title")}
+        </h1>
+        <p className="text-gray-500 mt-1">{t("comparables.subtitle")}</p>
+      </div>
+
+      {/* Import */}
+      {canEdit && (
+        <div className="bg-white rounded-xl border border-gray-200 p-4 mb-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-xs text-gray-500">
+              <span className="block mb-1">{t("comparables.importKind")}</span>
+              <select value={importKind} onChange={(e) => setImportKind(e.target.value as ComparableKind | "")} className={inputCls}>
+                <option value="">{t("comparables.kindFromFile")}</option>
+                {KINDS.map((k) => (
+                  <option key={k} value={k}>{t(`comparables.kinds.${k}`)}</option>
+                ))}
+              </select>
+            </label>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <Button variant="primary" size="sm" icon={<Upload size={14} />} loading={importing} onClick={() => fileRef.current?.click()}>
+              {t("comparables.import")}
+            </Button>
+            <p className="text-xs text-gray-400 flex-1 min-w-[240px]">{t("comparables.importHint")}</p>
+          </div>
+          {importResult && (
+            <div className="mt-3 text-sm">
+              <p className="text-green-700">{t("comparables.imported", { inserted: importResult.inserted, updated: importResult.updated })}</p>
+              {importResult.errors.length > 0 && (
+                <ul className="mt-1 text-xs text-amber-700 space-y-0.5">
+                  {importResult.errors.map((e) => (
+                    <li key={e.row}>{t("comparables.rowError", { row: e.row, error: e.error })}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4 mb-6 flex flex-wrap items-end gap-4">
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("comparables.kind")}</span>
+          <select
+            value={filters.kind ?? ""}
+            onChange={(e) => updateFilter({ kind: (e.target.value || undefined) as ComparableKind | undefined })}
+            className={inputCls}
+          >
+            <option value="">{t("comparables.all")}</option>
+            {KINDS.map((k) => (
+              <option key={k} value={k}>{t(`comparables.kinds.${k}`)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("comparables.sector")}</span>
+          <select value={filters.sector ?? ""} onChange={(e) => updateFilter({ sector: e.target.value || undefined })} className={inputCls}>
+            <option value="">{t("comparables.all")}</option>
+            {sectors.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("comparables.from")}</span>
+          <input type="date" value={filters.from ?? ""} onChange={(e) => updateFilter({ from: e.target.value || undefined })} className={inputCls} />
+        </label>
+        <label className="text-xs text-gray-500">
+          <span className="block mb-1">{t("comparables.to")}</span>
+          <input type="date" value={filters.to ?? ""} onChange={(e) => updateFilter({ to: e.target.value || undefined })} className={inputCls} />
+        </label>
+        <Button variant="secondary" size="sm" onClick={() => setFilters({})}>
+          {t("common.reset")}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {/* Comp set statistics */}
+      {stats && stats.count > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 mb-6">
+          <h2 className="text-sm font-semibold text-gray-900 px-4 pt-4">{t("comparables.statsTitle", { count: stats.count })}</h2>
+          <table className="w-full text-sm mt-2">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className={thCls}>{t("comparables.multiple")}</th>
+                <th className={thNumCls}>n</th>
+                <th className={thNumCls}>{t("comparables.min")}</th>
+                <th className={thNumCls}>Q1</th>
+                <th className={thNumCls}>{t("comparables.median")}</th>
+                <th className={thNumCls}>Q3</th>
+                <th className={thNumCls}>{t("comparables.max")}</th>
+                <th className={thNumCls}>{t("comparables.mean")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MULTIPLE_KEYS.map((key) => {
+                const s = stats.multiples[key];
+                return (
+                  <tr key={key} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 px-3 text-gray-700">{t(`comparables.metrics.${key}`)}</td>
+                    <td className="py-2 px-3 text-right text-gray-500">{s?.count ?? 0}</td>
+                    <td className="py-2 px-3 text-right">{formatMultiple(s?.min)}</td>
+                    <td className="py-2 px-3 text-right">{formatMultiple(s?.q1)}</td>
+                    <td className="py-2 px-3 text-right font-semibold">{formatMultiple(s?.median)}</td>
+                    <td className="py-2 px-3 text-right">{formatMultiple(s?.q3)}</td>
+                    <td className="py-2 px-3 text-right">{formatMultiple(s?.max)}</td>
+                    <td className="py-2 px-3 text-right text-gray-500">{formatMultiple(s?.mean)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Comparables */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+        {loading && comps.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <SpinnerCircle />
+          </div>
+        ) : comps.length === 0 ? (
+          <p className="text-sm text-gray-400 p-6">{t("comparables.empty")}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className={thCls}>{t("comparables.name")}</th>
+                <th className={thCls}>{t("comparables.kind")}</th>
+                <th className={thCls}>{t("comparables.sector")}</th>
+                <th className={thCls}>{t("comparables.country")}</th>
+                <th className={thCls}>{t("comparables.date")}</th>
+                <th className={thNumCls}>EV</th>
+                {MULTIPLE_KEYS.map((key) => (
+                  <th key={key} className={thNumCls}>{t(`comparables.metrics.${key}`)}</th>
+                ))}
+                {canEdit && <th className="w-10" />}
+              </tr>
+            </thead>
+            <tbody>
+              {comps.map((c) => (
+                <tr key={c.id} className="border-b border-gray-100 last:border-0 hover:bg-gray-50">
+                  <td className="py-2 px-3">
+                    <span className="font-medium text-gray-900">{c.name}</span>
+                    {c.acquirer && <span className="block text-xs text-gray-400">{t("comparables.acquiredBy", { acquirer: c.acquirer })}</span>}
+                  </td>
+                  <td className="py-2 px-3 text-gray-600">{t(`comparables.kinds.${c.kind}`)}</td>
+                  <td className="py-2 px-3 text-gray-600">{c.sector ?? "-"}</td>
+                  <td className="py-2 px-3 text-gray-600">{c.country ?? "-"}</td>
+                  <td className="py-2 px-3 text-gray-600 whitespace-nowrap">{String(c.as_of_date).slice(0, 10)}</td>
+                  <td className="py-2 px-3 text-right whitespace-nowrap">
+                    {formatNum(c.ev, 0)}
+                    {c.currency && <span className="text-xs text-gray-400 ml-1">{c.currency}</span>}
+                  </td>
+                  {MULTIPLE_KEYS.map((key) => (
+                    <td key={key} className="py-2 px-3 text-right">{formatMultiple(c[key])}</td>
+                  ))}
+                  {canEdit && (
+                    <td className="py-2 px-1">
+                      <IconButton
+                        icon={<Trash2 size={14} />}
+                        variant="danger"
+                        title={t("common.delete")}
+                        onClick={() => setDeleteTarget(c)}
+                      />
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <ConfirmModal
+        open={deleteTarget !== null}
+        title={t("common.confirmDelete")}
+        message={t("comparables.confirmDelete", { name: deleteTarget?.name ?? "" })}
+        variant="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+      />
+    </div>
+  );
+}
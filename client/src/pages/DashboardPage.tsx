@@ -20,8 +20,11 @@ import {
   Plus,
   BarChart3,
   Clock,
+  Tag,
 } from "lucide-react";
 import { Spinner, ConfirmModal } from "../components/ui";
+import { useAuth } from "../hooks/useAuth";
+import { auditEntityPath } from "../utils/audit";
 
 /* ─── Helpers ──────────────────────────────────────────────── */
 
@@ -123,7 +126,8 @@ function PipelineRow({
 }: {
   s: DashboardScenario;
   t: (k: string, opts?: Record<string, unknown>) => string;
-  onDelete: (id: number, name: string) => void;
+  /** Omitted for read-only users (no delete button). */
+  onDelete?: (id: number, name: string) => void;
 }) {
   const exitRange = useMemo(() => {
     if (!s.exit_multiples || s.exit_multiples.length === 0) return "—";
@@ -167,16 +171,18 @@ function PipelineRow({
         </div>
         <StatusBadge status={s.status} t={t} />
       </Link>
-      <button
-        onClick={(e) => {
-          e.preventDefault();
-          onDelete(s.id, s.name);
-        }}
-        className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 hover:bg-red-50 transition-colors shrink-0 opacity-0 group-hover:opacity-100"
-        title={t("dashboard.deleteScenario")}
-      >
-        <Trash2 size={14} />
-      </button>
+      {onDelete && (
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            onDelete(s.id, s.name);
+          }}
+          className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 hover:bg-red-50 transition-colors shrink-0 opacity-0 group-hover:opacity-100"
+          title={t("dashboard.deleteScenario")}
+        >
+          <Trash2 size={14} />
+        </button>
+      )}
     </div>
   );
 }
@@ -250,36 +256,51 @@ function ActivityItem({
   a: DashboardActivity;
   t: (k: string, opts?: Record<string, unknown>) => string;
 }) {
-  const isScenario = a.entity_type === "scenario";
-  const link = isScenario ? `/scenarios/${a.id}` : `/companies/${a.id}`;
-  const label = isScenario
-    ? t("dashboard.updatedScenario")
-    : t("dashboard.updatedCompany");
+  const style = {
+    scenario: { Icon: GitMerge, bg: "bg-emerald-50", color: "text-emerald-600" },
+    company: { Icon: Building2, bg: "bg-blue-50", color: "text-ecit-navy" },
+    model: { Icon: FileSpreadsheet, bg: "bg-amber-50", color: "text-amber-600" },
+    period: { Icon: FileSpreadsheet, bg: "bg-amber-50", color: "text-amber-600" },
+    label_rule: { Icon: Tag, bg: "bg-gray-100", color: "text-gray-600" },
+    comparable: { Icon: BarChart3, bg: "bg-purple-50", color: "text-purple-600" },
+  }[a.entity_type];
+  const label = t("dashboard.activityLabel", {
+    action: t(`audit.actions.${a.action}`),
+    entity: t(`audit.entities.${a.entity_type}`),
+  });
 
-  return (
-    <Link
-      to={link}
-      className="flex items-center gap-3 py-2.5 px-1 hover:bg-gray-50 rounded-lg transition-colors"
-    >
+  const content = (
+    <>
       <div
-        className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 ${
-          isScenario ? "bg-emerald-50" : "bg-blue-50"
-        }`}
+        className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 ${style.bg}`}
       >
-        {isScenario ? (
-          <GitMerge size={13} className="text-emerald-600" />
-        ) : (
-          <Building2 size={13} className="text-ecit-navy" />
-        )}
+        <style.Icon size={13} className={style.color} />
       </div>
       <div className="flex-1 min-w-0">
-        <p className="text-sm text-gray-900 font-medium truncate">{a.name}</p>
-        <p className="text-[11px] text-gray-400">{label}</p>
+        <p className="text-sm text-gray-900 font-medium truncate">{a.name ?? `#${a.id}`}</p>
+        <p className="text-[11px] text-gray-400 truncate">
+          {label}
+          {a.user_name && ` · ${a.user_name}`}
+        </p>
       </div>
       {a.status && <StatusBadge status={a.status} t={t} />}
       <span className="text-[10px] text-gray-400 shrink-0 w-16 text-right">
         {timeAgo(a.updated_at, t)}
       </span>
+    </>
+  );
+
+  // Deleted entities and label rules have nothing to link to
+  const path = a.action === "delete" ? null : auditEntityPath(a.entity_type, a.id);
+  if (!path) {
+    return <div className="flex items-center gap-3 py-2.5 px-1">{content}</div>;
+  }
+  return (
+    <Link
+      to={path}
+      className="flex items-center gap-3 py-2.5 px-1 hover:bg-gray-50 rounded-lg transition-colors"
+    >
+      {content}
     </Link>
   );
 }
@@ -295,6 +316,7 @@ export default function DashboardPage() {
     name: string;
   } | null>(null);
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
 
   const loadData = async () => {
     try {
@@ -533,7 +555,7 @@ export default function DashboardPage() {
                     key={s.id}
                     s={s}
                     t={t}
-                    onDelete={(id, name) => setDeleteTarget({ id, name })}
+                    onDelete={canEdit ? (id, name) => setDeleteTarget({ id, name }) : undefined}
                   />
                 ))}
               </div>
@@ -1,10 +1,16 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import api from "../services/api";
 import type { FinancialModel, FinancialPeriod } from "../types";
-import { ArrowLeft, Settings, TrendingUp } from "lucide-react";
+import { ArrowLeft, Scale, Settings, TrendingUp } from "lucide-react";
 import { Spinner } from "../components/ui";
+import { hasBalanceSheet, nwcAnalysis } from "../utils/nwc";
+import { hasSubAnnualPeriods } from "../utils/periods";
+
+/** Quarterly / monthly models: reported periods, calendar-year or LTM roll-ups. */
+type PeriodView = "reported" | "calendar" | "ltm";
+const PERIOD_VIEWS: PeriodView[] = ["reported", "calendar", "ltm"];
 
 export default function ModelDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -12,6 +18,7 @@ export default function ModelDetailPage() {
   const [model, setModel] = useState<FinancialModel | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [view, setView] = useState<PeriodView>("reported");
 
   useEffect(() => {
     if (!id) return;
@@ -34,7 +41,15 @@ export default function ModelDetailPage() {
     );
   }
 
-  const periods = model.periods || [];
+  const reportedPeriods = model.periods || [];
+  const subAnnual = hasSubAnnualPeriods(reportedPeriods);
+  const periods =
+    !subAnnual || view === "reported"
+      ? reportedPeriods
+      : (view === "calendar" ? model.calendar_periods : model.ltm_periods) || [];
+  const hasPnl = periods.some((p) =>
+    [p.depreciation, p.amortisation, p.net_financial_items, p.net_income].some((v) => v != null)
+  );
 
   // Financial line items to display
   const lineItems: {
@@ -74,6 +89,13 @@ export default function ModelDetailPage() {
     { key: "minority_interest", labelKey: "modelDetail.lineItems.minorityInterest", format: "number" },
     { key: "operating_fcf_excl_minorities", labelKey: "modelDetail.lineItems.operatingFcfExclMinorities", format: "number", bold: true },
     { key: "cash_conversion", labelKey: "modelDetail.lineItems.cashConversion", format: "pct", indent: true },
+    ...(hasPnl ? [
+      { key: "depreciation", labelKey: "modelDetail.lineItems.depreciation", format: "number", sectionKey: "modelDetail.sections.belowEbitda" },
+      { key: "amortisation", labelKey: "modelDetail.lineItems.amortisation", format: "number" },
+      { key: "net_financial_items", labelKey: "modelDetail.lineItems.netFinancialItems", format: "number" },
+      { key: "tax", labelKey: "modelDetail.lineItems.tax", format: "number" },
+      { key: "net_income", labelKey: "modelDetail.lineItems.netIncome", format: "number", bold: true },
+    ] as const : []),
   ];
 
   // Equity bridge line items
@@ -109,6 +131,33 @@ export default function ModelDetailPage() {
     )
   );
 
+  // Balance sheet and working capital — NWC, its change and days derived from the balances
+  const nwc = nwcAnalysis(periods);
+  const balanceSheetItems: {
+    key: string;
+    labelKey: string;
+    value: (p: FinancialPeriod, i: number) => number | null | undefined;
+    format: "number" | "days";
+    bold?: boolean;
+    indent?: boolean;
+    sectionKey?: string;
+  }[] = [
+    { key: "trade_receivables", labelKey: "modelDetail.balanceItems.tradeReceivables", value: (p) => p.trade_receivables, format: "number", sectionKey: "modelDetail.sections.workingCapital" },
+    { key: "work_in_progress", labelKey: "modelDetail.balanceItems.workInProgress", value: (p) => p.work_in_progress, format: "number" },
+    { key: "trade_payables", labelKey: "modelDetail.balanceItems.tradePayables", value: (p) => p.trade_payables, format: "number" },
+    { key: "deferred_revenue", labelKey: "modelDetail.balanceItems.deferredRevenue", value: (p) => p.deferred_revenue, format: "number" },
+    { key: "nwc", labelKey: "modelDetail.balanceItems.nwc", value: (_p, i) => nwc[i].nwc, format: "number", bold: true },
+    { key: "change_nwc", labelKey: "modelDetail.balanceItems.changeNwcDerived", value: (_p, i) => nwc[i].change_nwc, format: "number", indent: true },
+    { key: "receivable_days", labelKey: "modelDetail.balanceItems.receivableDays", value: (_p, i) => nwc[i].receivable_days, format: "days", sectionKey: "modelDetail.sections.nwcDays" },
+    { key: "wip_days", labelKey: "modelDetail.balanceItems.wipDays", value: (_p, i) => nwc[i].wip_days, format: "days" },
+    { key: "payable_days", labelKey: "modelDetail.balanceItems.payableDays", value: (_p, i) => nwc[i].payable_days, format: "days" },
+    { key: "deferred_revenue_days", labelKey: "modelDetail.balanceItems.deferredRevenueDays", value: (_p, i) => nwc[i].deferred_revenue_days, format: "days" },
+    { key: "nwc_days", labelKey: "modelDetail.balanceItems.nwcDays", value: (_p, i) => nwc[i].nwc_days, format: "days", bold: true },
+    { key: "cash", labelKey: "modelDetail.balanceItems.cash", value: (p) => p.cash, format: "number", sectionKey: "modelDetail.sections.cashAndDebt" },
+    { key: "gross_debt", labelKey: "modelDetail.balanceItems.grossDebt", value: (p) => p.gross_debt, format: "number" },
+    { key: "lease_liabilities", labelKey: "modelDetail.balanceItems.leaseLiabilities", value: (p) => p.lease_liabilities, format: "number" },
+  ];
+
   // Check if model parameters exist
   const params = model.model_parameters;
   const hasModelParameters = params && Object.keys(params).length > 0;
@@ -131,6 +180,9 @@ export default function ModelDetailPage() {
     const num = typeof val === "string" ? parseFloat(val) : val;
     if (isNaN(num)) return "-";
 
+    if (format === "days") {
+      return num.toLocaleString("nb-NO", { maximumFractionDigits: 0 });
+    }
     if (format === "pct") {
       // Stored as decimal (0.158 = 15.8%)
       return `${(num * 100).toLocaleString("nb-NO", { minimumFractionDigits: 1, maximumFractionDigits: 1 })} %`;
@@ -160,9 +212,26 @@ export default function ModelDetailPage() {
           </span>
         </div>
         <p className="text-gray-500 mt-1">
-          {periods.length} {t("common.periods")}
+          {reportedPeriods.length} {t("common.periods")}
           {model.description && ` | ${model.description}`}
         </p>
+        {subAnnual && (
+          <div className="flex bg-gray-100 rounded-lg p-0.5 mt-3 w-fit">
+            {PERIOD_VIEWS.map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-3 py-1 text-xs rounded font-medium transition-colors ${
+                  view === v
+                    ? "bg-white text-gray-900 shadow-sm"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {t(`modelDetail.periodViews.${v}`)}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {error && (
@@ -173,10 +242,16 @@ export default function ModelDetailPage() {
 
       {periods.length === 0 ? (
         <div className="bg-white rounded-xl border border-dashed border-gray-300 p-12 text-center text-gray-400">
-          <p className="text-lg mb-2">{t("modelDetail.noDataYet")}</p>
-          <p className="text-sm">
-            {t("modelDetail.importViaCompany")}
-          </p>
+          {reportedPeriods.length > 0 ? (
+            <p className="text-sm">{t(`modelDetail.noRollUps.${view}`)}</p>
+          ) : (
+            <>
+              <p className="text-lg mb-2">{t("modelDetail.noDataYet")}</p>
+              <p className="text-sm">
+                {t("modelDetail.importViaCompany")}
+              </p>
+            </>
+          )}
         </div>
       ) : (
         <>
@@ -190,7 +265,7 @@ export default function ModelDetailPage() {
                 </th>
                 {periods.map((p) => (
                   <th
-                    key={p.id}
+                    key={p.period_date}
                     className={`num min-w-[90px]`}
                   >
                     {p.period_label}
@@ -233,7 +308,7 @@ export default function ModelDetailPage() {
                       </td>
                       {periods.map((p) => (
                         <td
-                          key={p.id}
+                          key={p.period_date}
                           className={`num ${
                             item.bold ? "font-semibold" : ""
                           } ${
@@ -253,6 +328,68 @@ export default function ModelDetailPage() {
           </table>
         </div>
 
+        {/* Balance Sheet and Working Capital Table */}
+        {hasBalanceSheet(periods) && (
+          <div className="mt-8">
+            <div className="flex items-center gap-2 mb-4">
+              <Scale size={18} className="text-ecit-navy" />
+              <h2 className="text-lg font-semibold text-gray-900">{t("modelDetail.balanceSheet")}</h2>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+              <table className="ecit-table">
+                <thead>
+                  <tr>
+                    <th className="text-left sticky left-0 bg-ecit-navy min-w-[220px]">
+                      {t("modelDetail.balanceSheetAndNwc")}
+                    </th>
+                    {periods.map((p) => (
+                      <th key={p.period_date} className="num min-w-[90px]">
+                        {p.period_label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {balanceSheetItems.map((item) => {
+                    const values = periods.map((p, i) => item.value(p, i));
+                    if (values.every((v) => v === null || v === undefined)) return null;
+
+                    return (
+                      <Fragment key={item.key}>
+                        {item.sectionKey && (
+                          <tr>
+                            <td
+                              colSpan={periods.length + 1}
+                              className="px-4 py-2 text-xs font-bold text-ecit-navy uppercase tracking-wider !bg-ecit-cream border-t border-gray-200"
+                            >
+                              {t(item.sectionKey)}
+                            </td>
+                          </tr>
+                        )}
+                        <tr className={item.bold ? "!bg-ecit-cream" : ""}>
+                          <td
+                            className={`sticky left-0 ${
+                              item.indent ? "pl-8 text-gray-500 italic" : ""
+                            } ${item.bold ? "font-semibold text-gray-900" : "text-gray-700"}`}
+                          >
+                            {t(item.labelKey)}
+                          </td>
+                          {periods.map((p, i) => (
+                            <td key={p.period_date} className={`num ${item.bold ? "font-semibold" : ""}`}>
+                              {formatValue(values[i], item.format)}
+                            </td>
+                          ))}
+                        </tr>
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-2">{t("modelDetail.nwcDaysHint")}</p>
+          </div>
+        )}
+
         {/* Equity Bridge Table */}
         {hasEquityBridgeData && (
           <div className="mt-8">
@@ -269,7 +406,7 @@ export default function ModelDetailPage() {
                      </th>
                     {periods.map((p) => (
                       <th
-                        key={p.id}
+                        key={p.period_date}
                         className={`num min-w-[90px]`}
                       >
                         {p.period_label}
@@ -311,7 +448,7 @@ export default function ModelDetailPage() {
                           </td>
                           {periods.map((p) => (
                             <td
-                              key={p.id}
+                              key={p.period_date}
                               className={`num ${
                                 item.bold ? "font-semibold" : ""
                               }`}
@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, ClipboardCheck } from "lucide-react";
+import api from "../services/api";
+import type {
+  AcquisitionScenario,
+  FinancialModel,
+  ScenarioVersion,
+  VarianceLine,
+  VarianceMetric,
+  VarianceReport,
+} from "../types";
+import { fmt, pct, formatPctDelta, deltaColor } from "../components/scenario/helpers";
+import { latestActualPeriod, varianceStatus, type VarianceStatus } from "../utils/variance";
+import { getErrorMessage } from "../utils/errors";
+import { Spinner } from "../components/ui";
+import { useAuth } from "../hooks/useAuth";
+
+const METRICS: VarianceMetric[] = ["revenue", "ebitda", "ebitda_margin", "fcf", "synergies"];
+
+const STATUS_STYLES: Record<VarianceStatus, string> = {
+  ahead: "bg-green-50 text-green-700",
+  onTrack: "bg-gray-100 text-gray-600",
+  behind: "bg-red-50 text-red-700",
+};
+
+/**
+ * Post-deal tracking: actuals loaded into a model after closing against the
+ * target plan and the synergies of the scenario version that went to IC.
+ */
+export default function PostDealTrackingPage() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { canEdit } = useAuth();
+  const [scenario, setScenario] = useState<AcquisitionScenario | null>(null);
+  const [report, setReport] = useState<VarianceReport | null>(null);
+  const [models, setModels] = useState<FinancialModel[]>([]);
+  const [versions, setVersions] = useState<ScenarioVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [successMsg, setSuccessMsg] = useState("");
+
+  // ─── Data fetching ──────────────────────────────────────
+
+  const fetchReport = useCallback(async () => {
+    if (!id) return;
+    setReport(await api.getVarianceReport(Number(id)));
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    (async () => {
+      try {
+        const [data, versionList] = await Promise.all([
+          api.getScenario(Number(id)),
+          api.getScenarioVersions(Number(id)),
+          fetchReport(),
+        ]);
+        setScenario(data);
+        setVersions(versionList);
+        // Actuals are loaded as a model of the target company
+        if (data.target_model_id) {
+          const target = await api.getModel(data.target_model_id);
+          setModels(await api.getModels(target.company_id));
+        }
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [id, fetchReport]);
+
+  // ─── Actions ──────────────────────────────────────────────
+
+  const handleSave = async (changes: Pick<AcquisitionScenario, "actuals_model_id" | "ic_version">) => {
+    if (!scenario) return;
+    setSaving(true);
+    setError("");
+    try {
+      await api.updateScenario(scenario.id, changes);
+      setScenario({ ...scenario, ...changes });
+      await fetchReport();
+      setSuccessMsg(t("tracking.saved"));
+      setTimeout(() => setSuccessMsg(""), 3000);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Spinner fullPage label={t("tracking.loading")} />;
+  }
+
+  if (!scenario) {
+    return (
+      <div className="p-8">
+        <p className="text-red-600">{t("scenarioDetail.notFound")} {error}</p>
+      </div>
+    );
+  }
+
+  // ─── Derived data ─────────────────────────────────────────
+
+  const periods = report?.periods ?? [];
+  const latest = report ? latestActualPeriod(report) : null;
+  const currency = report?.reporting_currency ?? t("common.nokm");
+
+  const formatValue = (metric: VarianceMetric, v: number | null) =>
+    metric === "ebitda_margin" ? pct(v) : fmt(v);
+
+  const formatVariance = (metric: VarianceMetric, line: VarianceLine) =>
+    metric === "ebitda_margin"
+      ? line.variance === null ? "–" : `${line.variance > 0 ? "+" : ""}${(line.variance * 100).toFixed(1)}pp`
+      : line.variance === null ? "–" : `${line.variance > 0 ? "+" : ""}${fmt(line.variance)}`;
+
+  const renderMetric = (metric: VarianceMetric) => {
+    const lines = [...periods.map((p) => p[metric]), report!.totals[metric]];
+    const key = (i: number) => (i < periods.length ? periods[i].period_date : "total");
+    return [
+      <tr key={`${metric}-section`} className="bg-gray-50">
+        <td colSpan={lines.length + 1} className="font-semibold text-gray-900">{t(`tracking.metrics.${metric}`)}</td>
+      </tr>,
+      <tr key={`${metric}-plan`}>
+        <td className="text-gray-600">{t("tracking.plan")}</td>
+        {lines.map((l, i) => <td key={key(i)} className="num text-gray-500">{formatValue(metric, l.plan)}</td>)}
+      </tr>,
+      <tr key={`${metric}-actual`}>
+        <td className="text-gray-600">{t("tracking.actual")}</td>
+        {lines.map((l, i) => <td key={key(i)} className="num">{formatValue(metric, l.actual)}</td>)}
+      </tr>,
+      <tr key={`${metric}-variance`} className="font-semibold">
+        <td className="text-gray-900">{metric === "ebitda_margin" ? t("tracking.variancePp") : t("tracking.variance")}</td>
+        {lines.map((l, i) => (
+          <td key={key(i)} className={`num ${deltaColor(l.variance)}`}>{formatVariance(metric, l)}</td>
+        ))}
+      </tr>,
+      ...(metric === "ebitda_margin" ? [] : [
+        <tr key={`${metric}-pct`}>
+          <td className="text-gray-600">{t("tracking.variancePct")}</td>
+          {lines.map((l, i) => <td key={key(i)} className="num text-gray-500">{formatPctDelta(l.variance_pct)}</td>)}
+        </tr>,
+      ]),
+    ];
+  };
+
+  // ─── Render ───────────────────────────────────────────────
+
+  return (
+    <div className="p-8 max-w-[1400px]">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          to={`/scenarios/${scenario.id}`}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft size={14} />
+          {t("tracking.backToScenario")}
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">{t("tracking.title")}: {scenario.name}</h1>
+        <p className="text-gray-500 mt-1">{t("tracking.subtitle")}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-6 text-sm">{error}</div>
+      )}
+      {successMsg && (
+        <div className="bg-green-50 text-green-700 px-4 py-3 rounded-lg mb-6 text-sm">{successMsg}</div>
+      )}
+
+      {/* Settings: actuals model and IC version */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6 flex flex-wrap gap-6">
+        <label className="text-sm">
+          <span className="block text-xs text-gray-500 mb-1">{t("tracking.actualsModel")}</span>
+          <select
+            value={scenario.actuals_model_id ?? ""}
+            disabled={!canEdit || saving}
+            title={canEdit ? undefined : t("common.readOnly")}
+            onChange={(e) => handleSave({ actuals_model_id: e.target.value ? Number(e.target.value) : null })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm min-w-[220px] disabled:bg-gray-50"
+          >
+            <option value="">{t("tracking.noActualsModel")}</option>
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block text-xs text-gray-500 mb-1">{t("tracking.icVersion")}</span>
+          <select
+            value={scenario.ic_version ?? ""}
+            disabled={!canEdit || saving}
+            title={canEdit ? undefined : t("common.readOnly")}
+            onChange={(e) => handleSave({ ic_version: e.target.value ? Number(e.target.value) : null })}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm min-w-[220px] disabled:bg-gray-50"
+          >
+            <option value="">{t("tracking.currentScenario")}</option>
+            {[...versions].reverse().map((v) => (
+              <option key={v.version_number} value={v.version_number}>
+                {t("tracking.version", {
+                  number: v.version_number,
+                  date: new Date(v.created_at).toLocaleDateString("nb-NO"),
+                })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Totals by metric */}
+      {report && latest && (
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+          {METRICS.map((metric) => {
+            const line = report.totals[metric];
+            const status = varianceStatus(line, metric);
+            return (
+              <div key={metric} className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 mb-0.5">{t(`tracking.metrics.${metric}`)}</p>
+                <p className="text-xl font-bold text-gray-900 tabular-nums">{formatValue(metric, line.actual)}</p>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {t("tracking.plan")}: {formatValue(metric, line.plan)}
+                </p>
+                {status && (
+                  <span className={`inline-block mt-2 px-2 py-0.5 rounded text-[10px] font-medium ${STATUS_STYLES[status]}`}>
+                    {t(`tracking.status.${status}`)}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Variance by period */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        {!scenario.actuals_model_id && (
+          <div className="text-center py-8 text-gray-400">
+            <ClipboardCheck size={32} className="mx-auto mb-3 opacity-40" />
+            <p className="text-sm">{t("tracking.emptyState")}</p>
+          </div>
+        )}
+
+        {scenario.actuals_model_id && report && !latest && (
+          <p className="text-sm text-gray-400 mb-4">{t("tracking.noActuals")}</p>
+        )}
+        {latest && (
+          <p className="text-sm text-gray-500 mb-4">{t("tracking.latest", { period: latest })}</p>
+        )}
+
+        {report && (
+          periods.length === 0 ? (
+            <p className="text-sm text-gray-400">{t("tracking.noPeriods")}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="ecit-table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left">{currency}</th>
+                    {periods.map((p) => (
+                      <th key={p.period_date} className={`num ${p.has_actuals ? "" : "text-gray-400"}`}>
+                        {p.period_label}
+                        {!p.has_actuals && <span className="block text-[10px] font-normal">{t("tracking.planOnly")}</span>}
+                      </th>
+                    ))}
+                    <th className="num">{t("tracking.total")}</th>
+                  </tr>
+                </thead>
+                <tbody>{METRICS.flatMap(renderMetric)}</tbody>
+              </table>
+            </div>
+          )
+        )}
+
+        <p className="text-[10px] text-gray-400 mt-4">{t("tracking.hint")}</p>
+      </div>
+    </div>
+  );
+}
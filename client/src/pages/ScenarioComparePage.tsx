@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, Columns3, Download, Presentation, Trophy, X } from "lucide-react";
+import api from "../services/api";
+import type { AcquisitionScenario, ScenarioComparison, ScenarioComparisonMetric } from "../types";
+import { fmt, pct, formatMultiple } from "../components/scenario/helpers";
+import {
+  MAX_COMPARED_SCENARIOS,
+  metricTone,
+  parseComparisonIds,
+  toggleComparisonId,
+} from "../utils/scenarioComparison";
+import { getErrorMessage } from "../utils/errors";
+import { Button, Spinner, SpinnerCircle } from "../components/ui";
+
+type MetricFormat = "amount" | "multiple" | "mom" | "pct" | "pp";
+
+const SECTIONS: { key: string; metrics: [ScenarioComparisonMetric, MetricFormat][] }[] = [
+  { key: "entry", metrics: [["price_paid", "amount"], ["entry_multiple", "multiple"]] },
+  { key: "capital", metrics: [["net_debt", "amount"], ["leverage", "multiple"], ["debt_share", "pct"]] },
+  {
+    key: "returns",
+    metrics: [["combined_irr", "pct"], ["combined_mom", "mom"], ["per_share_irr", "pct"], ["per_share_mom", "mom"]],
+  },
+  { key: "accretion", metrics: [["irr_accretion", "pp"], ["mom_accretion", "mom"], ["exit_dilution", "pct"]] },
+];
+
+function formatMetric(format: MetricFormat, v: number | null): string {
+  if (v === null) return "–";
+  if (format === "amount") return fmt(v, 0);
+  if (format === "multiple") return formatMultiple(v);
+  if (format === "mom") return `${fmt(v, 2)}x`;
+  if (format === "pp") return `${v > 0 ? "+" : ""}${(v * 100).toFixed(1)}pp`;
+  return pct(v);
+}
+
+const TONE_STYLES = {
+  best: "text-emerald-600 font-semibold",
+  worst: "text-red-600",
+};
+
+/**
+ * Scenario comparison: two to five saved scenarios side by side at one exit
+ * multiple, with the best and worst value of each metric marked and the
+ * table exportable to Excel and PowerPoint.
+ */
+export default function ScenarioComparePage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ids = parseComparisonIds(searchParams.get("ids"));
+  const idsKey = ids.join(",");
+  const exitParam = searchParams.get("exit");
+  const exitMultiple = exitParam && Number(exitParam) > 0 ? Number(exitParam) : undefined;
+
+  const [scenarios, setScenarios] = useState<AcquisitionScenario[]>([]);
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [exporting, setExporting] = useState<"excel" | "ppt" | null>(null);
+  const [exitInput, setExitInput] = useState(exitParam ?? "");
+  const [error, setError] = useState("");
+
+  // ─── Data fetching ──────────────────────────────────────
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setScenarios(await api.getScenarios());
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    const selected = parseComparisonIds(idsKey);
+    if (selected.length < 2) {
+      setComparison(null);
+      return;
+    }
+    let cancelled = false;
+    setComparing(true);
+    setError("");
+    api.getScenarioComparison(selected, exitMultiple)
+      .then((result) => { if (!cancelled) setComparison(result); })
+      .catch((err) => { if (!cancelled) setError(getErrorMessage(err)); })
+      .finally(() => { if (!cancelled) setComparing(false); });
+    return () => { cancelled = true; };
+  }, [idsKey, exitMultiple]);
+
+  // ─── Actions ──────────────────────────────────────────────
+
+  const updateParams = (nextIds: number[], nextExit: string | null) => {
+    const params: Record<string, string> = {};
+    if (nextIds.length > 0) params.ids = nextIds.join(",");
+    if (nextExit) params.exit = nextExit;
+    setSearchParams(params);
+  };
+
+  const toggleScenario = (id: number) => updateParams(toggleComparisonId(ids, id), exitParam);
+
+  const applyExitMultiple = () => {
+    const v = exitInput.trim();
+    updateParams(ids, v && Number(v) > 0 ? v : null);
+  };
+
+  const handleExport = async (kind: "excel" | "ppt") => {
+    setExporting(kind);
+    setError("");
+    try {
+      if (kind === "excel") await api.exportComparisonExcel(ids, exitMultiple);
+      else await api.exportComparisonPpt(ids, exitMultiple);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (loading) {
+    return <Spinner fullPage label={t("scenarioCompare.loading")} />;
+  }
+
+  // ─── Derived data ─────────────────────────────────────────
+
+  const byId = new Map(scenarios.map((s) => [s.id, s]));
+  const available = scenarios.filter((s) => !ids.includes(s.id));
+  const summaries = new Map(comparison?.metrics.map((m) => [m.metric, m]));
+  const columns = comparison?.scenarios ?? [];
+
+  // ─── Render ───────────────────────────────────────────────
+
+  return (
+    <div className="p-8 max-w-[1400px]">
+      {/* Header */}
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link to="/scenarios" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-4">
+            <ArrowLeft size={14} />
+            {t("scenarioCompare.backToScenarios")}
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">{t("scenarioCompare.title")}</h1>
+          <p className="text-gray-500 mt-1">{t("scenarioCompare.subtitle")}</p>
+        </div>
+        {comparison && (
+          <div className="flex gap-3 flex-shrink-0">
+            <Button
+              variant="secondary"
+              icon={<Presentation size={16} />}
+              loading={exporting === "ppt"}
+              disabled={exporting !== null}
+              onClick={() => handleExport("ppt")}
+            >
+              {t("scenarioCompare.exportPpt")}
+            </Button>
+            <Button
+              icon={<Download size={16} />}
+              loading={exporting === "excel"}
+              disabled={exporting !== null}
+              onClick={() => handleExport("excel")}
+            >
+              {t("scenarioCompare.exportExcel")}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg mb-6 text-sm">{error}</div>
+      )}
+
+      {/* Selection: scenarios and exit multiple */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {ids.map((id) => (
+            <span key={id} className="inline-flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-full bg-ecit-navy/10 text-ecit-navy text-sm">
+              {byId.get(id)?.name ?? `#${id}`}
+              <button
+                onClick={() => toggleScenario(id)}
+                aria-label={t("scenarioCompare.remove")}
+                className="p-0.5 rounded-full hover:bg-ecit-navy/20"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <select
+            value=""
+            disabled={ids.length >= MAX_COMPARED_SCENARIOS}
+            onChange={(e) => e.target.value && toggleScenario(Number(e.target.value))}
+            aria-label={t("scenarioCompare.addScenario")}
+            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm min-w-[260px] disabled:bg-gray-50"
+          >
+            <option value="">
+              {ids.length >= MAX_COMPARED_SCENARIOS
+                ? t("scenarioCompare.maxReached", { max: MAX_COMPARED_SCENARIOS })
+                : t("scenarioCompare.addScenario")}
+            </option>
+            {available.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name} — {s.acquirer_model_name} + {s.target_company_name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <span className="block text-xs text-gray-500 mb-1">{t("scenarioCompare.exitMultiple")}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={exitInput}
+              placeholder={comparison ? String(comparison.exit_multiple) : ""}
+              onChange={(e) => setExitInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && applyExitMultiple()}
+              className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm w-28"
+            />
+          </label>
+          <Button variant="secondary" size="sm" onClick={applyExitMultiple}>
+            {t("scenarioCompare.apply")}
+          </Button>
+          <p className="text-xs text-gray-400">{t("scenarioCompare.exitHint")}</p>
+        </div>
+      </div>
+
+      {/* Comparison table */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        {ids.length < 2 ? (
+          <div className="text-center py-8 text-gray-400">
+            <Columns3 size={32} className="mx-auto mb-3 opacity-40" />
+            <p className="text-sm">{t("scenarioCompare.selectScenarios", { max: MAX_COMPARED_SCENARIOS })}</p>
+          </div>
+        ) : comparing && !comparison ? (
+          <div className="flex justify-center py-8">
+            <SpinnerCircle />
+          </div>
+        ) : comparison && (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              {t("scenarioCompare.atExit", { multiple: formatMultiple(comparison.exit_multiple) })}
+            </p>
+            <div className={`overflow-x-auto ${comparing ? "opacity-60" : ""}`}>
+              <table className="ecit-table w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left">{t("scenarioCompare.metric")}</th>
+                    {columns.map((s) => (
+                      <th key={s.id} className="num">
+                        <Link to={`/scenarios/${s.id}`} className="hover:underline">{s.name}</Link>
+                        <span className="block text-[10px] font-normal">
+                          {s.acquirer_model_name} + {s.target_company_name}
+                        </span>
+                      </th>
+                    ))}
+                    <th className="num">{t("scenarioCompare.spread")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SECTIONS.flatMap(({ key, metrics }) => [
+                    <tr key={key} className="bg-gray-50">
+                      <td colSpan={columns.length + 2} className="font-semibold text-gray-900">
+                        {t(`scenarioCompare.sections.${key}`)}
+                      </td>
+                    </tr>,
+                    ...metrics.map(([metric, format]) => {
+                      const summary = summaries.get(metric);
+                      const differs = summary?.differs ?? false;
+                      return (
+                        <tr key={metric}>
+                          <td className={differs ? "font-medium text-gray-900" : "text-gray-500"}>
+                            {t(`scenarioCompare.metrics.${metric}`)}
+                          </td>
+                          {columns.map((s) => {
+                            const tone = metricTone(summary, s.id);
+                            return (
+                              <td
+                                key={s.id}
+                                className={`num ${tone ? TONE_STYLES[tone] : differs ? "" : "text-gray-400"}`}
+                              >
+                                {formatMetric(format, s.metrics[metric])}
+                                {tone === "best" && <Trophy size={12} className="inline ml-1 text-emerald-500" />}
+                              </td>
+                            );
+                          })}
+                          <td className="num text-gray-500">
+                            {differs ? formatMetric(format, summary?.spread ?? null) : "–"}
+                          </td>
+                        </tr>
+                      );
+                    }),
+                  ])}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-4">{t("scenarioCompare.hint")}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,13 @@ import type {
   DealParameters,
   DebtScheduleRow,
   ShareSummary,
+  FxRates,
+  SynergyFields,
+  AddOnTarget,
+  DcfAssumptions,
+  CompSetSelection,
 } from "../types";
-import { ArrowLeft, RefreshCw, Download, Presentation } from "lucide-react";
+import { ArrowLeft, RefreshCw, Download, Presentation, ClipboardCheck } from "lucide-react";
 import { formatNum } from "../components/scenario/helpers";
 
 // Extracted sub-components
@@ -27,12 +32,23 @@ import SynergiesEditor from "../components/scenario/SynergiesEditor";
 import ShareTracker from "../components/scenario/ShareTracker";
 import DebtScheduleTable from "../components/scenario/DebtScheduleTable";
 import SensitivityHeatmap from "../components/scenario/SensitivityHeatmap";
+import TornadoChart from "../components/scenario/TornadoChart";
+import DcfValuation from "../components/scenario/DcfValuation";
+import ContributionAnalysis from "../components/scenario/ContributionAnalysis";
+import EpsAccretion from "../components/scenario/EpsAccretion";
+import CompSetPanel from "../components/scenario/CompSetPanel";
+import MonteCarloPanel from "../components/scenario/MonteCarloPanel";
+import VersionHistory from "../components/scenario/VersionHistory";
+import CurrencySettings from "../components/scenario/CurrencySettings";
+import AddOnTargetsEditor from "../components/scenario/AddOnTargetsEditor";
 import { getErrorMessage } from "../utils/errors";
 import { Spinner } from "../components/ui";
+import { useAuth } from "../hooks/useAuth";
 
 export default function ScenarioDetailPage() {
   const { id } = useParams<{ id: string }>();
   const { t } = useTranslation();
+  const { canEdit } = useAuth();
   const [scenario, setScenario] = useState<AcquisitionScenario | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
@@ -51,11 +67,20 @@ export default function ScenarioDetailPage() {
     synergies: true,
     returns: true,
     capital: true,
+    currency: true,
+    addOns: true,
     accretion: true,
+    eps: true,
     equityBridge: true,
     shareTracker: true,
     debtSchedule: true,
     sensitivity: true,
+    tornado: true,
+    simulation: true,
+    dcf: true,
+    contribution: true,
+    compSet: true,
+    versions: false,
   });
 
   const toggleSection = (key: string) =>
@@ -180,6 +205,10 @@ export default function ScenarioDetailPage() {
     preferred_equity_rate: number | null;
     net_debt: number | null;
     deal_parameters?: Record<string, unknown>;
+    base_rate_curve?: Record<string, number>;
+    interest_margin?: number | null;
+    hedge_ratio?: number | null;
+    swap_rate?: number | null;
   }) => {
     if (!id) return;
     setError("");
@@ -192,11 +221,11 @@ export default function ScenarioDetailPage() {
     }
   };
 
-  const handleSaveSynergies = async (timeline: Record<string, number>) => {
+  const handleSaveSynergies = async (fields: SynergyFields) => {
     if (!id) return;
     setError("");
     try {
-      await api.updateScenario(Number(id), { cost_synergies_timeline: timeline } as any);
+      await api.updateScenario(Number(id), fields);
       await fetchScenario();
       showSuccess(t("scenarios.synergiesSaved"));
     } catch (err) {
@@ -204,6 +233,63 @@ export default function ScenarioDetailPage() {
     }
   };
 
+  const handleSaveAddOns = async (fields: { add_on_targets: AddOnTarget[] }) => {
+    if (!id) return;
+    setError("");
+    try {
+      await api.updateScenario(Number(id), fields);
+      await fetchScenario();
+      showSuccess(t("scenarios.addOnsSaved"));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleSaveFx = async (fields: { reporting_currency: string | null; fx_rates: FxRates }) => {
+    if (!id) return;
+    setError("");
+    try {
+      await api.updateScenario(Number(id), fields);
+      await fetchScenario();
+      showSuccess(t("fx.saved"));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleSaveDcfAssumptions = async (assumptions: Partial<DcfAssumptions>) => {
+    if (!id || !scenario?.deal_parameters) return;
+    setError("");
+    try {
+      await api.updateScenario(Number(id), { deal_parameters: { ...scenario.deal_parameters, ...assumptions } });
+      await fetchScenario();
+      showSuccess(t("dcf.saved"));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleApplyCompSet = async (compSet: CompSetSelection, exitMultiples: number[]) => {
+    if (!id || !scenario?.deal_parameters) return;
+    await api.updateScenario(Number(id), {
+      deal_parameters: { ...scenario.deal_parameters, comp_set: compSet, exit_multiples: exitMultiples },
+    });
+    await fetchScenario();
+    showSuccess(t("compSet.applied"));
+  };
+
+  const handleRestoreVersion = async (versionNumber: number) => {
+    if (!id) return;
+    setError("");
+    try {
+      await api.restoreScenarioVersion(Number(id), versionNumber);
+      await fetchScenario();
+      showSuccess(t("versions.restored", { n: versionNumber }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
   // ─── Loading / Error states ───────────────────────────────
 
   if (loading) {
@@ -258,7 +344,7 @@ export default function ScenarioDetailPage() {
                 </span>
               )}
               {scenario.enterprise_value && (
-                <span>EV: {formatNum(scenario.enterprise_value)} {t("common.nokm")}</span>
+                <span>EV: {formatNum(scenario.enterprise_value)} {scenario.fx?.reporting_currency ?? t("common.nokm")}</span>
               )}
               {scenario.share_price && (
                 <span>{t("scenarioDetail.price")}: {t("common.nok")} {scenario.share_price}/{t("common.share")}</span>
@@ -266,6 +352,13 @@ export default function ScenarioDetailPage() {
             </div>
           </div>
           <div className="flex gap-3 flex-shrink-0">
+            <Link
+              to={`/scenarios/${scenario.id}/tracking`}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium shadow-sm"
+            >
+              <ClipboardCheck size={16} />
+              {t("scenarioDetail.tracking")}
+            </Link>
             <button
               onClick={handleExportPpt}
               disabled={exportingPpt}
@@ -284,7 +377,8 @@ export default function ScenarioDetailPage() {
             </button>
             <button
               onClick={handleGenerateProForma}
-              disabled={generating}
+              disabled={!canEdit || generating}
+              title={canEdit ? undefined : t("common.readOnly")}
               className="flex items-center gap-2 px-4 py-2.5 bg-ecit-dark text-white rounded-lg hover:bg-ecit-navy transition-colors text-sm font-medium disabled:opacity-50 shadow-sm"
             >
               <RefreshCw size={16} className={generating ? "animate-spin" : ""} />
@@ -323,6 +417,16 @@ export default function ScenarioDetailPage() {
         onToggle={toggleSection}
       />
 
+      {/* 2b. EPS and FCF per share accretion / dilution */}
+      {targetPeriods.length > 0 && (
+        <EpsAccretion
+          scenario={scenario}
+          dealParams={dealParams}
+          expanded={expandedSections.eps}
+          onToggle={toggleSection}
+        />
+      )}
+
       {/* 3. Charts section */}
       <div className="bg-white rounded-xl border border-gray-200 mb-8">
         <SectionHeader
@@ -355,6 +459,7 @@ export default function ScenarioDetailPage() {
       {/* 4. Capital Structure / Sources & Uses — financing before returns */}
       <CapitalStructure
         scenario={scenario}
+        dealParams={dealParams}
         expanded={expandedSections.capital}
         onToggle={toggleSection}
         onSaveSU={handleSaveSU}
@@ -371,6 +476,29 @@ export default function ScenarioDetailPage() {
         />
       )}
 
+      {/* 4c. Currency — reporting currency and FX rates applied to the periods */}
+      <CurrencySettings
+        scenario={scenario}
+        acquirerPeriods={acquirerPeriods}
+        targetPeriods={targetPeriods}
+        acquirerName={scenario.acquirer_company_name || "Acquirer"}
+        targetName={scenario.target_company_name || "Target"}
+        expanded={expandedSections.currency}
+        onToggle={toggleSection}
+        onSave={handleSaveFx}
+      />
+
+      {/* 4d. Add-on acquisitions (buy-and-build) */}
+      {scenario.target_model_id != null && (
+        <AddOnTargetsEditor
+          scenario={scenario}
+          years={acquirerPeriods.map((p) => new Date(p.period_date).getFullYear().toString())}
+          expanded={expandedSections.addOns}
+          onToggle={toggleSection}
+          onSave={handleSaveAddOns}
+        />
+      )}
+
       {/* 5. Pro Forma Combined Table */}
       <ProFormaTable
         pfPeriods={pfPeriods}
@@ -418,6 +546,16 @@ export default function ScenarioDetailPage() {
         expanded={expandedSections.equityBridge}
         onToggle={toggleSection}
         exitMultiples={exitMultiples.length > 0 ? exitMultiples : undefined}
+        acquirerLtm={scenario.acquirer_ltm}
+        targetLtm={scenario.target_ltm}
+      />
+
+      {/* 7b. Comp set (fills the exit multiple range) */}
+      <CompSetPanel
+        scenario={scenario}
+        expanded={expandedSections.compSet}
+        onToggle={toggleSection}
+        onApply={handleApplyCompSet}
       />
 
       {/* 8. Deal Returns (IRR / MoM) */}
@@ -434,6 +572,25 @@ export default function ScenarioDetailPage() {
         onExitMultiplesChange={setExitMultiples}
       />
 
+      {/* 8b. DCF valuation (against the entry price) */}
+      <DcfValuation
+        scenario={scenario}
+        dealParams={dealParams}
+        expanded={expandedSections.dcf}
+        onToggle={toggleSection}
+        onSaveAssumptions={handleSaveDcfAssumptions}
+      />
+
+      {/* 8c. Contribution vs ownership (exchange ratios) */}
+      {targetPeriods.length > 0 && (
+        <ContributionAnalysis
+          scenario={scenario}
+          dealParams={dealParams}
+          expanded={expandedSections.contribution}
+          onToggle={toggleSection}
+        />
+      )}
+
       {/* 9. Sensitivity Analysis Heatmap */}
       {dealParams && (
         <SensitivityHeatmap
@@ -444,6 +601,34 @@ export default function ScenarioDetailPage() {
         />
       )}
 
+      {/* 9b. Tornado (one-at-a-time sensitivities) */}
+      {dealParams && (
+        <TornadoChart
+          scenario={scenario}
+          dealParams={dealParams}
+          expanded={expandedSections.tornado}
+          onToggle={toggleSection}
+        />
+      )}
+
+      {/* 9c. Monte Carlo simulation */}
+      {dealParams && (
+        <MonteCarloPanel
+          scenario={scenario}
+          dealParams={dealParams}
+          expanded={expandedSections.simulation}
+          onToggle={toggleSection}
+        />
+      )}
+
+      {/* 10. Version history (snapshots, diff, restore) */}
+      <VersionHistory
+        scenario={scenario}
+        expanded={expandedSections.versions}
+        onToggle={toggleSection}
+        onRestore={handleRestoreVersion}
+      />
+
       {/* Empty state warnings */}
       {pfPeriods.length === 0 && acquirerPeriods.length > 0 && targetPeriods.length > 0 && (
         <div className="bg-white rounded-xl border border-dashed border-gray-300 p-12 text-center text-gray-400 mb-8">
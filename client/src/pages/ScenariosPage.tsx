@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import api from "../services/api";
 import type {
@@ -13,8 +14,9 @@ import type {
   DealParameters,
   DebtScheduleRow,
   ShareSummary,
+  SynergyFields,
 } from "../types";
-import { GitMerge, ChevronDown, Download, Presentation } from "lucide-react";
+import { GitMerge, ChevronDown, Download, Presentation, Columns3 } from "lucide-react";
 
 // Reuse analysis components from scenario detail
 import KeyMetricsCards from "../components/scenario/KeyMetricsCards";
@@ -30,6 +32,7 @@ import SynergiesEditor from "../components/scenario/SynergiesEditor";
 import ShareTracker from "../components/scenario/ShareTracker";
 import DebtScheduleTable from "../components/scenario/DebtScheduleTable";
 import SensitivityHeatmap from "../components/scenario/SensitivityHeatmap";
+import ScenarioTree from "../components/scenario/ScenarioTree";
 import { getErrorMessage } from "../utils/errors";
 import { Spinner } from "../components/ui";
 
@@ -73,6 +76,7 @@ export default function ScenariosPage() {
     shareTracker: true,
     debtSchedule: true,
     sensitivity: true,
+    variants: true,
   });
 
   const toggleSection = (key: string) =>
@@ -255,12 +259,12 @@ export default function ScenariosPage() {
     }
   };
 
-  const handleSaveSynergies = async (timeline: Record<string, number>) => {
+  const handleSaveSynergies = async (fields: SynergyFields) => {
     const scenarioId = compareResult?.scenario?.id;
     if (!scenarioId) return;
     setError("");
     try {
-      await api.updateScenario(scenarioId, { cost_synergies_timeline: timeline } as any);
+      await api.updateScenario(scenarioId, fields);
       await fetchComparison();
       showSuccess(t("scenarios.synergiesSaved"));
     } catch (err) {
@@ -290,6 +294,8 @@ export default function ScenariosPage() {
         pro_forma_periods: pfPeriods,
         acquirer_periods: acquirerPeriods,
         target_periods: targetPeriods,
+        acquirer_ltm: compareResult.acquirer_ltm,
+        target_ltm: compareResult.target_ltm,
         acquirer_company_name:
           compareResult.scenario.acquirer_company_name || acquirerName,
         acquirer_model_name:
@@ -377,26 +383,35 @@ export default function ScenariosPage() {
             {t("scenarios.subtitle")}
           </p>
         </div>
-        {compareResult?.scenario && compareResult.scenario.id > 0 && (
-          <div className="flex gap-3 flex-shrink-0">
-            <button
-              onClick={handleExportPpt}
-              disabled={exportingPpt}
-              className="flex items-center gap-2 px-4 py-2.5 bg-ecit-gold text-white rounded-lg hover:bg-ecit-gold-dark transition-colors text-sm font-medium disabled:opacity-50 shadow-sm"
-            >
-              <Presentation size={16} className={exportingPpt ? "animate-bounce" : ""} />
-              {exportingPpt ? t("common.exporting") : t("scenarios.pptExport")}
-            </button>
-            <button
-              onClick={handleExportExcel}
-              disabled={exporting}
-              className="flex items-center gap-2 px-4 py-2.5 bg-[#1B6B3A] text-white rounded-lg hover:bg-[#155a2f] transition-colors text-sm font-medium disabled:opacity-50 shadow-sm"
-            >
-              <Download size={16} className={exporting ? "animate-bounce" : ""} />
-              {exporting ? t("common.exporting") : t("scenarios.excelExport")}
-            </button>
-          </div>
-        )}
+        <div className="flex gap-3 flex-shrink-0">
+          <Link
+            to="/scenarios/compare"
+            className="flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            <Columns3 size={16} />
+            {t("scenarios.compareScenarios")}
+          </Link>
+          {compareResult?.scenario && compareResult.scenario.id > 0 && (
+            <>
+              <button
+                onClick={handleExportPpt}
+                disabled={exportingPpt}
+                className="flex items-center gap-2 px-4 py-2.5 bg-ecit-gold text-white rounded-lg hover:bg-ecit-gold-dark transition-colors text-sm font-medium disabled:opacity-50 shadow-sm"
+              >
+                <Presentation size={16} className={exportingPpt ? "animate-bounce" : ""} />
+                {exportingPpt ? t("common.exporting") : t("scenarios.pptExport")}
+              </button>
+              <button
+                onClick={handleExportExcel}
+                disabled={exporting}
+                className="flex items-center gap-2 px-4 py-2.5 bg-[#1B6B3A] text-white rounded-lg hover:bg-[#155a2f] transition-colors text-sm font-medium disabled:opacity-50 shadow-sm"
+              >
+                <Download size={16} className={exporting ? "animate-bounce" : ""} />
+                {exporting ? t("common.exporting") : t("scenarios.excelExport")}
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {error && (
@@ -490,6 +505,18 @@ export default function ScenariosPage() {
         </div>
       </div>
 
+      {/* ─── Scenario variants (clones / what-if branches) ─ */}
+      {selectedAcquirerId && (
+        <ScenarioTree
+          acquirerModelId={selectedAcquirerId}
+          targetModelId={selectedTargetId}
+          currentScenarioId={compareResult?.scenario?.id}
+          expanded={expandedSections.variants}
+          onToggle={toggleSection}
+          onCloned={(clone) => showSuccess(t("scenarioTree.cloned", { name: clone.name }))}
+        />
+      )}
+
       {/* ─── Loading indicator for comparison ────────────── */}
       {comparing && !compareResult && (
         <div className="flex items-center justify-center py-12">
@@ -620,6 +647,8 @@ export default function ScenariosPage() {
             expanded={expandedSections.equityBridge}
             onToggle={toggleSection}
             exitMultiples={exitMultiples.length > 0 ? exitMultiples : undefined}
+            acquirerLtm={scenario.acquirer_ltm}
+            targetLtm={scenario.target_ltm}
           />
 
           {/* 8. Deal Returns (IRR / MoM) — only when target selected */}
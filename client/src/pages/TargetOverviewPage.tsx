@@ -199,6 +199,10 @@ export default function TargetOverviewPage() {
     );
   }, [firstPeriod, latestPeriod, nPeriods]);
 
+  const hasPnl = periods.some((p) =>
+    [p.depreciation, p.amortisation, p.net_financial_items, p.net_income].some((v) => v != null)
+  );
+
   // ── Financial table line items ──
   const lineItems: {
     key: keyof FinancialPeriod;
@@ -232,6 +236,13 @@ export default function TargetOverviewPage() {
     { key: "minority_interest", label: t("targetOverview.lineItems.minorityInterest"), format: "number" },
     { key: "operating_fcf_excl_minorities", label: t("targetOverview.lineItems.operatingFcfExclMinorities"), format: "number", bold: true },
     { key: "cash_conversion", label: t("targetOverview.lineItems.cashConversionPct"), format: "pct", indent: true },
+    ...(hasPnl ? [
+      { key: "depreciation", label: t("modelDetail.lineItems.depreciation"), format: "number", section: t("modelDetail.sections.belowEbitda") },
+      { key: "amortisation", label: t("modelDetail.lineItems.amortisation"), format: "number" },
+      { key: "net_financial_items", label: t("modelDetail.lineItems.netFinancialItems"), format: "number" },
+      { key: "tax", label: t("modelDetail.lineItems.tax"), format: "number" },
+      { key: "net_income", label: t("modelDetail.lineItems.netIncome"), format: "number", bold: true },
+    ] as const : []),
   ];
 
   // Equity bridge items
@@ -4,17 +4,51 @@ import type {
   FinancialModel,
   AcquisitionScenario,
   ExcelImportResult,
+  ExcelImportPreview,
+  ExcelImportSelection,
+  LabelRule,
+  CreateLabelRule,
   CompareResult,
   DealParameters,
   CalculatedReturn,
   SensitivityRequest,
   SensitivityResponse,
+  SimulationRequest,
+  SimulationResponse,
+  TornadoRequest,
+  TornadoResponse,
+  GoalSeekRequest,
+  GoalSeekResponse,
+  DcfRequest,
+  DcfResponse,
+  ContributionRequest,
+  ContributionResponse,
+  EpsAccretionResponse,
+  VarianceReport,
+  ScenarioComparison,
+  Comparable,
+  ComparableFilters,
+  ComparableImportResult,
+  ComparableKind,
+  CompSetStats,
   CompanyAssumptions,
   DashboardSummary,
+  ScenarioVersion,
+  ScenarioVersionDiff,
+  AuditEventPage,
+  AuditFilters,
+  AuditUser,
 } from "../types";
 
 const API_BASE = "/api";
 
+/** Query string of a scenario comparison: ?ids=1,2,3[&exit_multiple=12]. */
+function comparisonQuery(ids: number[], exitMultiple?: number): string {
+  const params = new URLSearchParams({ ids: ids.join(",") });
+  if (exitMultiple !== undefined) params.set("exit_multiple", String(exitMultiple));
+  return params.toString();
+}
+
 class ApiService {
   private token: string | null = null;
 
@@ -209,18 +243,94 @@ class ApiService {
     });
   }
 
-  async importExcelFile(
+  /** Parse an Excel file and diff it against existing models without writing. */
+  async previewExcelImport(
     companyId: number,
     file: File
+  ): Promise<ExcelImportPreview> {
+    const formData = new FormData();
+    formData.append("file", file);
+    return this.request(`/import/excel/${companyId}?dry_run=true`, {
+      method: "POST",
+      body: formData,
+    });
+  }
+
+  async importExcelFile(
+    companyId: number,
+    file: File,
+    selection?: ExcelImportSelection
   ): Promise<ExcelImportResult> {
     const formData = new FormData();
     formData.append("file", file);
+    if (selection) formData.append("selection", JSON.stringify(selection));
     return this.request(`/import/excel/${companyId}`, {
       method: "POST",
       body: formData,
     });
   }
 
+  // Label mapping rules (Excel import)
+  async getLabelRules(companyId?: number): Promise<LabelRule[]> {
+    const qs = companyId !== undefined ? `?company_id=${companyId}` : "";
+    return this.request(`/label-rules${qs}`);
+  }
+
+  async getLabelRuleFields(): Promise<string[]> {
+    return this.request("/label-rules/fields");
+  }
+
+  async createLabelRule(data: CreateLabelRule): Promise<LabelRule> {
+    return this.request("/label-rules", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteLabelRule(id: number): Promise<void> {
+    return this.request(`/label-rules/${id}`, { method: "DELETE" });
+  }
+
+  // Comparables
+  private comparableQuery(filters: ComparableFilters): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (Array.isArray(value)) {
+        if (value.length > 0) params.set(key, value.join(","));
+      } else if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+    const qs = params.toString();
+    return qs ? `?${qs}` : "";
+  }
+
+  async getComparables(filters: ComparableFilters = {}): Promise<Comparable[]> {
+    return this.request(`/comparables${this.comparableQuery(filters)}`);
+  }
+
+  async getComparableStats(filters: ComparableFilters = {}): Promise<CompSetStats> {
+    return this.request(`/comparables/stats${this.comparableQuery(filters)}`);
+  }
+
+  async getComparableSectors(): Promise<string[]> {
+    return this.request("/comparables/sectors");
+  }
+
+  /** CSV or Excel upload; `kind` applies to rows without a kind column. */
+  async importComparables(file: File, kind?: ComparableKind): Promise<ComparableImportResult> {
+    const formData = new FormData();
+    formData.append("file", file);
+    return this.request(`/comparables/import${kind ? `?kind=${kind}` : ""}`, {
+      method: "POST",
+      body: formData,
+    });
+  }
+
+  async deleteComparable(id: number): Promise<void> {
+    return this.request(`/comparables/${id}`, { method: "DELETE" });
+  }
+
   // Scenarios
   async getScenarios(): Promise<AcquisitionScenario[]> {
     return this.request("/scenarios");
@@ -262,10 +372,45 @@ class ApiService {
     });
   }
 
+  async cloneScenario(
+    id: number,
+    data: { name?: string; description?: string } = {}
+  ): Promise<AcquisitionScenario> {
+    return this.request(`/scenarios/${id}/clone`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
   async deleteScenario(id: number): Promise<void> {
     return this.request(`/scenarios/${id}`, { method: "DELETE" });
   }
 
+  async getScenarioVersions(id: number): Promise<ScenarioVersion[]> {
+    return this.request(`/scenarios/${id}/versions`);
+  }
+
+  async diffScenarioVersions(
+    id: number,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<ScenarioVersionDiff> {
+    const params = new URLSearchParams({
+      from: String(fromVersion),
+      to: String(toVersion),
+    });
+    return this.request(`/scenarios/${id}/versions/diff?${params.toString()}`);
+  }
+
+  async restoreScenarioVersion(
+    id: number,
+    versionNumber: number
+  ): Promise<AcquisitionScenario> {
+    return this.request(`/scenarios/${id}/versions/${versionNumber}/restore`, {
+      method: "POST",
+    });
+  }
+
   async upsertDealReturns(
     scenarioId: number,
     returns: any[]
@@ -287,7 +432,7 @@ class ApiService {
   async calculateReturns(
     scenarioId: number,
     dealParameters: DealParameters
-  ): Promise<{ calculated_returns: CalculatedReturn[]; standalone_by_multiple: Record<number, { irr: number | null; mom: number | null }>; deal_parameters: DealParameters; level: 1 | 2; level_label: string; share_summary?: import("../types").ShareSummary; debt_schedule?: import("../types").DebtScheduleRow[] }> {
+  ): Promise<{ calculated_returns: CalculatedReturn[]; standalone_by_multiple: Record<number, { irr: number | null; mom: number | null }>; deal_parameters: DealParameters; level: 1 | 2; level_label: string; share_summary?: import("../types").ShareSummary; debt_schedule?: import("../types").DebtScheduleRow[]; timeline?: import("../types").DealTimeline }> {
     return this.request(`/scenarios/${scenarioId}/calculate-returns`, {
       method: "POST",
       body: JSON.stringify({ deal_parameters: dealParameters }),
@@ -304,45 +449,118 @@ class ApiService {
     });
   }
 
-  /**
-   * Export scenario as Excel (.xlsx) and trigger browser download.
-   */
-  async exportExcel(scenarioId: number, scenarioName?: string): Promise<void> {
-    const headers: Record<string, string> = {};
-    if (this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
-    }
+  async runSimulation(
+    scenarioId: number,
+    request: SimulationRequest
+  ): Promise<SimulationResponse> {
+    return this.request(`/scenarios/${scenarioId}/simulate`, {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
 
-    const res = await fetch(`${API_BASE}/scenarios/${scenarioId}/export-excel`, {
-      headers,
+  async calculateTornado(
+    scenarioId: number,
+    request: TornadoRequest
+  ): Promise<TornadoResponse> {
+    return this.request(`/scenarios/${scenarioId}/tornado`, {
+      method: "POST",
+      body: JSON.stringify(request),
     });
+  }
 
-    if (!res.ok) {
-      const error = await res.json().catch(() => ({ error: res.statusText }));
-      throw new Error(error.error || `Export failed: ${res.status}`);
-    }
+  async goalSeek(
+    scenarioId: number,
+    request: GoalSeekRequest
+  ): Promise<GoalSeekResponse> {
+    return this.request(`/scenarios/${scenarioId}/goal-seek`, {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
 
-    const blob = await res.blob();
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${(scenarioName || "scenario").replace(/[^a-zA-Z0-9\-_ ]/g, "")}_${scenarioId}.xlsx`;
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
+  async calculateDcf(
+    scenarioId: number,
+    request: DcfRequest
+  ): Promise<DcfResponse> {
+    return this.request(`/scenarios/${scenarioId}/dcf`, {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
+
+  async calculateContribution(
+    scenarioId: number,
+    request: ContributionRequest
+  ): Promise<ContributionResponse> {
+    return this.request(`/scenarios/${scenarioId}/contribution`, {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
+
+  async calculateEpsAccretion(
+    scenarioId: number,
+    baseParams: DealParameters
+  ): Promise<EpsAccretionResponse> {
+    return this.request(`/scenarios/${scenarioId}/eps-accretion`, {
+      method: "POST",
+      body: JSON.stringify({ base_params: baseParams }),
+    });
+  }
+
+  async getVarianceReport(scenarioId: number): Promise<VarianceReport> {
+    return this.request(`/scenarios/${scenarioId}/variance`);
+  }
+
+  /**
+   * Export scenario as Excel (.xlsx) and trigger browser download.
+   */
+  async exportExcel(scenarioId: number, scenarioName?: string): Promise<void> {
+    await this.download(
+      `/scenarios/${scenarioId}/export-excel`,
+      `${(scenarioName || "scenario").replace(/[^a-zA-Z0-9\-_ ]/g, "")}_${scenarioId}.xlsx`
+    );
   }
 
   /**
    * Export scenario as PowerPoint (.pptx) and trigger browser download.
    */
-  async exportPpt(scenarioId: number, scenarioName?: string): Promise<void> {
+  async exportPpt(scenarioId: number, scenarioName?: string, options: { tornado?: boolean } = {}): Promise<void> {
+    const query = options.tornado ? "?tornado=1" : "";
+    await this.download(
+      `/scenarios/${scenarioId}/export-ppt${query}`,
+      `${(scenarioName || "scenario").replace(/[^a-zA-Z0-9\-_ ]/g, "")}_${scenarioId}.pptx`
+    );
+  }
+
+  // Scenario comparison
+  async getScenarioComparison(ids: number[], exitMultiple?: number): Promise<ScenarioComparison> {
+    return this.request(`/scenarios/comparison?${comparisonQuery(ids, exitMultiple)}`);
+  }
+
+  async exportComparisonExcel(ids: number[], exitMultiple?: number): Promise<void> {
+    await this.download(
+      `/scenarios/comparison/export-excel?${comparisonQuery(ids, exitMultiple)}`,
+      `Scenario_comparison_${ids.join("-")}.xlsx`
+    );
+  }
+
+  async exportComparisonPpt(ids: number[], exitMultiple?: number): Promise<void> {
+    await this.download(
+      `/scenarios/comparison/export-ppt?${comparisonQuery(ids, exitMultiple)}`,
+      `Scenario_comparison_${ids.join("-")}.pptx`
+    );
+  }
+
+  /** Fetch a file export and trigger a browser download under the given name. */
+  private async download(path: string, fileName: string): Promise<void> {
     const headers: Record<string, string> = {};
     if (this.token) {
       headers["Authorization"] = `Bearer ${this.token}`;
     }
 
-    const res = await fetch(`${API_BASE}/scenarios/${scenarioId}/export-ppt`, {
+    const res = await fetch(`${API_BASE}${path}`, {
       headers,
     });
 
@@ -355,7 +573,7 @@ class ApiService {
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${(scenarioName || "scenario").replace(/[^a-zA-Z0-9\-_ ]/g, "")}_${scenarioId}.pptx`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(url);
@@ -366,6 +584,20 @@ class ApiService {
   async getDashboardSummary(): Promise<DashboardSummary> {
     return this.request("/dashboard/summary");
   }
+
+  // Audit log (admin only)
+  async getAuditEvents(filters: AuditFilters = {}): Promise<AuditEventPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.request(`/audit${qs ? `?${qs}` : ""}`);
+  }
+
+  async getAuditUsers(): Promise<AuditUser[]> {
+    return this.request("/audit/users");
+  }
 }
 
 export const api = new ApiService();
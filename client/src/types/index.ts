@@ -41,6 +41,10 @@ export interface FinancialModel {
   first_period?: string;
   last_period?: string;
   periods?: FinancialPeriod[];
+  /** Calendar years rolled up from quarterly / monthly periods (model detail only). */
+  calendar_periods?: FinancialPeriod[];
+  /** Last twelve months at each quarter / month end (model detail only). */
+  ltm_periods?: FinancialPeriod[];
   geography?: RevenueGeography[];
   services?: RevenueService[];
   created_at: string;
@@ -59,12 +63,15 @@ export interface ModelParameters {
   [key: string]: any;
 }
 
+export type PeriodGranularity = "annual" | "quarterly" | "monthly";
+
 export interface FinancialPeriod {
   id: number;
   model_id: number;
   period_date: string;
   period_label: string;
   period_type: "actual" | "budget" | "estimate" | "forecast";
+  period_granularity?: PeriodGranularity;
 
   // Revenue
   revenue_managed_services: number | null;
@@ -106,6 +113,24 @@ export interface FinancialPeriod {
   operating_fcf_excl_minorities: number | null;
   cash_conversion: number | null;
 
+  // Below EBITDA (optional)
+  depreciation?: number | null;
+  amortisation?: number | null;
+  net_financial_items?: number | null;
+  tax?: number | null;
+  net_income?: number | null;
+
+  // Balance sheet (optional)
+  trade_receivables?: number | null;
+  trade_payables?: number | null;
+  work_in_progress?: number | null;
+  deferred_revenue?: number | null;
+  cash?: number | null;
+  gross_debt?: number | null;
+  lease_liabilities?: number | null;
+  /** Scenario periods: change_nwc was derived from the balance sheet (signed). */
+  change_nwc_derived?: boolean;
+
   // Equity bridge
   share_count: number | null;
   nibd: number | null;
@@ -162,10 +187,33 @@ export interface AcquisitionScenario {
   preferred_equity_rate: number | null;
   net_debt: number | null;
   rollover_shareholders: number | null;
+  // Floating-rate financing: base rate per year + margin, optionally swapped to fixed
+  base_rate_curve?: Record<string, number> | null;
+  interest_margin?: number | null;
+  hedge_ratio?: number | null;
+  swap_rate?: number | null;
+  // Currency: periods are converted into the reporting currency (null = acquirer's)
+  reporting_currency?: string | null;
+  fx_rates?: FxRates | null;
+  fx?: ScenarioFx;
   sources: SourceUseItem[];
   uses: SourceUseItem[];
   exit_date: string | null;
   cost_synergies_timeline: Record<string, number>;
+  // Revenue synergies (with an EBITDA margin), realisation % and one-off integration costs
+  revenue_synergies_timeline?: Record<string, number> | null;
+  revenue_synergy_margin?: number | null;
+  synergy_realisation?: Record<string, number> | null;
+  integration_costs_timeline?: Record<string, number> | null;
+  // Itemised cost synergies; when set they drive cost_synergies_timeline
+  synergy_items?: SynergyItem[] | null;
+  // Buy-and-build: further targets, each consolidated from its own close date
+  add_on_targets?: AddOnTarget[] | null;
+  // What-if branch: the scenario this one was cloned from
+  parent_scenario_id?: number | null;
+  // Post-deal tracking: actuals model after closing and the version that went to IC
+  actuals_model_id?: number | null;
+  ic_version?: number | null;
   deal_parameters?: DealParameters | null;
   status: "draft" | "active" | "archived";
   deal_returns?: DealReturn[];
@@ -173,10 +221,70 @@ export interface AcquisitionScenario {
   pro_forma_periods?: ProFormaPeriod[];
   acquirer_periods?: FinancialPeriod[];
   target_periods?: FinancialPeriod[];
+  /** LTM figures for quarterly / monthly models (empty for annual ones). */
+  acquirer_ltm?: FinancialPeriod[];
+  target_ltm?: FinancialPeriod[];
   created_at: string;
   updated_at: string;
 }
 
+/** Synergy inputs saved together from the synergies editor (timelines keyed by year). */
+export interface SynergyFields {
+  cost_synergies_timeline: Record<string, number>;
+  revenue_synergies_timeline: Record<string, number>;
+  revenue_synergy_margin: number | null;
+  /** Decimal per year; missing years are fully realised. */
+  synergy_realisation: Record<string, number>;
+  /** Positive amounts per year. */
+  integration_costs_timeline: Record<string, number>;
+  synergy_items: SynergyItem[];
+}
+
+export type SynergyCategory = "it" | "premises" | "headcount" | "procurement" | "other";
+
+export type PhasingTemplate = "25_50_100" | "s_curve" | "linear_3" | "immediate" | "custom";
+
+/** A cost synergy entered as a run-rate phased in from a start year. */
+export interface SynergyItem {
+  name: string;
+  category: SynergyCategory;
+  run_rate: number;
+  start_year: number;
+  template: PhasingTemplate;
+  /** Per-year shares (decimal) for the custom template; the last value holds. */
+  custom_phasing?: number[];
+  /** Probability of delivery (decimal, default 1). */
+  probability?: number;
+}
+
+/** A further target in a buy-and-build scenario (the scenario's own target is the platform). */
+export interface AddOnTarget {
+  target_model_id: number;
+  /** Completion date (YYYY-MM-DD). */
+  close_date: string;
+  /** Enterprise value paid; defaults to the Uses total. */
+  price_paid?: number | null;
+  sources?: SourceUseItem[];
+  uses?: SourceUseItem[];
+  cost_synergies_timeline?: Record<string, number>;
+}
+
+/** Currency code -> reporting-currency units per unit, flat or per year. */
+export type FxRates = Record<string, number | Record<string, number>>;
+
+export interface FxConversion {
+  side: "acquirer" | "target";
+  currency: string;
+  /** Rate applied per period year. */
+  rates: Record<string, number>;
+  missing_rate: boolean;
+}
+
+export interface ScenarioFx {
+  reporting_currency: string;
+  conversions: FxConversion[];
+}
+
 export type SourceType = "debt" | "equity" | "preferred";
 
 export interface SourceUseItem {
@@ -196,6 +304,17 @@ export interface DealReturn {
   mom_delta: number | null;
 }
 
+export interface DebtTranche {
+  name: string;
+  amount: number;
+  interest_rate: number;      // decimal, e.g. 0.065 = 6.5%
+  margin?: number;            // floats at base rate + margin when a base-rate curve is set
+  amortisation?: number;      // mandatory repayment per year (NOKm)
+  seniority?: number;         // sweep waterfall rank, 1 = most senior
+  sweep_eligible?: boolean;   // default true
+  pik?: boolean;              // interest accrues to the balance
+}
+
 export interface DealParameters {
   price_paid: number;
   tax_rate: number;
@@ -207,6 +326,9 @@ export interface DealParameters {
   capex_pct_revenue?: number;  // Capex as % of revenue (default 1%)
   // D&A as % of revenue for EBT proxy (default 1%)
   da_pct_revenue?: number;
+  // Acquired intangibles from the PPA (NOKm), amortised straight-line (default 10 years)
+  ppa_intangibles?: number;
+  ppa_amortisation_years?: number;
   // Target-specific FCF assumptions (applied when target period data is missing)
   target_capex_pct_revenue?: number;  // e.g. 0.01 = 1% of target revenue
   target_nwc_pct_revenue?: number;    // e.g. 0.0097 = 0.97% of target revenue
@@ -222,6 +344,14 @@ export interface DealParameters {
   rollover_equity?: number;
   // Cash sweep: % of excess FCF after mandatory amort applied to debt repayment (0-1)
   cash_sweep_pct?: number;
+  // Multi-tranche debt — replaces net_debt / interest_rate / debt_amortisation when set
+  debt_tranches?: DebtTranche[];
+  // Floating rate: per-year base rate + margin, hedge_ratio swapped at swap_rate
+  base_rate_curve?: Record<string, number>;
+  interest_margin?: number;
+  hedge_ratio?: number;
+  swap_rate?: number;
+  base_rate_shift?: number;  // parallel shift of the curve (sensitivity)
   // Share tracking (per-share returns with dilution)
   entry_shares?: number;
   exit_shares?: number;
@@ -236,10 +366,15 @@ export interface DealParameters {
   existing_warrants_count?: number;
   existing_warrants_price?: number;
   dilution_base_shares?: number;  // base shares for PPS_pre calc
+  // ── DCF valuation (not used in IRR calc) ──
+  wacc?: number;                  // discount rate for unlevered FCF
+  terminal_method?: TerminalMethod;
+  terminal_growth?: number;       // Gordon growth
+  terminal_multiple?: number;     // EV / EBITDA (default: middle exit multiple)
+  // ── Comparables (not used in IRR calc) ──
+  comp_set?: CompSetSelection;    // comp set the exit multiples were filled from
   // Deprecated (kept for backward compat)
   nibd_target?: number;
-  wacc?: number;
-  terminal_growth?: number;
 }
 
 export interface CalculatedReturn {
@@ -290,18 +425,115 @@ export interface DebtScheduleRow {
   pik_accrual: number;
   closing_pref: number;
   fcf_to_equity: number;
+  base_rate?: number;           // hedged base rate (floating-rate debt only)
+  year_fraction?: number;       // share of the year held (only with entry/exit dates)
+  tranches?: DebtTrancheRow[];  // per-tranche breakdown (only with debt_tranches)
+  add_on_debt?: number;         // debt drawn for add-ons closing this year
+  add_on_equity?: number;       // equity injected for add-ons closing this year
+}
+
+/** Holding period from the scenario's acquisition and exit dates. */
+export interface DealTimeline {
+  entry_date: string;
+  exit_date: string;
+  holding_years: number;
+  first_index: number;
+  exit_index: number;
+  exit_ltm_weight: number;
+  periods: {
+    period_label: string | null;
+    period_date: string;
+    year_fraction: number;   // share of the period held (0 outside the holding period)
+    cash_flow_date: string;
+  }[];
+}
+
+export interface DebtTrancheRow {
+  name: string;
+  opening: number;
+  interest_rate: number;    // all-in rate applied this year
+  interest: number;         // cash interest paid
+  pik_interest: number;     // interest capitalised into the balance
+  mandatory_amort: number;
+  sweep: number;
+  closing: number;
 }
 
 export interface ExcelImportResult {
   message: string;
   models_created: number;
   models_updated: number;
+  models_skipped: number;
   total_periods: number;
-  model_details: { name: string; periods: number; action: string }[];
+  model_details: { name: string; periods: number; action: string; unmapped_labels: string[] }[];
   warnings: string[];
   input_parameters: Record<string, any>;
 }
 
+export interface DetectedYearColumn {
+  sheet: string;
+  column: string;
+  row: number;
+  year: number;
+  /** Quarter / month columns, e.g. "Q1 2025". */
+  period_label?: string;
+}
+
+export interface PeriodFieldChange {
+  period_date: string;
+  period_label: string;
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ModelImportPreview {
+  name: string;
+  source: string | null;
+  action: "create" | "update";
+  model_id: number | null;
+  year_columns: DetectedYearColumn[];
+  unmapped_labels: string[];
+  fields: string[];
+  periods: Record<string, unknown>[];
+  new_periods: number;
+  changes: PeriodFieldChange[];
+}
+
+/** Dry-run response of the Excel import: parsed models and their diff against existing data. */
+export interface ExcelImportPreview {
+  dry_run: true;
+  models: ModelImportPreview[];
+  input_parameters: Record<string, unknown>;
+  warnings: string[];
+}
+
+/** Models (and optionally fields) to commit from a previewed workbook. */
+export interface ExcelImportSelection {
+  models: { name: string; fields?: string[] }[];
+  input_parameters?: boolean;
+}
+
+/** User-defined Excel label → period field rule (company_id null = global). */
+export interface LabelRule {
+  id: number;
+  company_id: number | null;
+  company_name: string | null;
+  pattern: string;
+  match_type: "exact" | "regex";
+  field_key: string;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface CreateLabelRule {
+  pattern: string;
+  match_type?: "exact" | "regex";
+  field_key: string;
+  company_id?: number | null;
+}
+
 export interface ProFormaPeriod {
   id: number;
   scenario_id: number;
@@ -319,8 +551,12 @@ export interface ProFormaPeriod {
   total_ebitda_excl_synergies: number | null;
   ebitda_margin_excl_synergies: number | null;
   cost_synergies: number | null;
+  revenue_synergies?: number | null;
+  revenue_synergy_ebitda?: number | null;
   total_ebitda_incl_synergies: number | null;
   ebitda_margin_incl_synergies: number | null;
+  /** One-off integration costs (negative = outflow). */
+  integration_costs?: number | null;
   total_capex: number | null;
   total_change_nwc: number | null;
   total_other_cash_flow: number | null;
@@ -328,6 +564,22 @@ export interface ProFormaPeriod {
   minority_interest: number | null;
   operating_fcf_excl_minorities: number | null;
   cash_conversion: number | null;
+  /** Combined reported lines below EBITDA (null when neither party reports them). */
+  total_depreciation?: number | null;
+  total_amortisation?: number | null;
+  total_net_financial_items?: number | null;
+  /** Amortisation of intangibles from the purchase price allocation. */
+  ppa_amortisation?: number | null;
+  extra_data?: { target_alignment?: TargetAlignment } & Record<string, unknown>;
+  /** Set on pro forma periods computed on the fly (stored rows keep it in extra_data). */
+  target_alignment?: TargetAlignment;
+}
+
+/** How a target's fiscal periods were matched to a pro forma period. */
+export interface TargetAlignment {
+  status: "exact" | "calendarised" | "missing";
+  method: "exact" | "time_weighted" | null;
+  sources: { period_label: string; period_date: string; weight: number }[];
 }
 
 // Sensitivity analysis
@@ -338,6 +590,22 @@ export interface SensitivityAxis {
 
 export type SensitivityMetric = 'irr' | 'mom' | 'per_share_irr' | 'per_share_mom';
 
+/** Parameters the grid, tornado and goal seek can move. */
+export type SensitivityParam =
+  | 'exit_multiple'
+  | 'price_paid'
+  | 'interest_rate'
+  | 'ordinary_equity'
+  | 'net_debt'
+  | 'debt_amortisation'
+  | 'cash_sweep_pct'
+  | 'preferred_equity_rate'
+  | 'tax_rate'
+  | 'preferred_equity'
+  | 'da_pct_revenue'
+  | 'acquirer_entry_ev'
+  | 'base_rate_shift';
+
 export interface SensitivityRequest {
   base_params: DealParameters;
   row_axis: SensitivityAxis;
@@ -354,11 +622,411 @@ export interface SensitivityResponse {
   return_case: string;
 }
 
+// Monte Carlo simulation
+export type SimulationVariable = 'exit_multiple' | 'synergy_realisation' | 'ebitda_haircut' | 'interest_rate';
+
+export type Distribution =
+  | { type: 'normal'; mean: number; sd: number }
+  | { type: 'triangular'; min: number; mode: number; max: number }
+  | { type: 'uniform'; min: number; max: number };
+
+export interface SimulationCorrelation {
+  a: SimulationVariable;
+  b: SimulationVariable;
+  rho: number;
+}
+
+export interface SimulationRequest {
+  base_params: DealParameters;
+  variables: Partial<Record<SimulationVariable, Distribution>>;
+  correlations: SimulationCorrelation[];
+  iterations: number;
+  hurdle_rate: number;
+  return_case?: string;
+  bins?: number;
+  seed?: number;
+}
+
+export interface DistributionSummary {
+  count: number;
+  mean: number | null;
+  sd: number | null;
+  min: number | null;
+  max: number | null;
+  percentiles: Record<'p5' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p95', number | null>;
+  histogram: { from: number; to: number; count: number }[];
+}
+
+export interface SimulationResponse {
+  iterations: number;
+  return_case: string;
+  hurdle_rate: number;
+  /** Share of iterations with IRR at or above the hurdle. */
+  prob_above_hurdle: number | null;
+  irr: DistributionSummary;
+  mom: DistributionSummary;
+}
+
+// Tornado (one-at-a-time sensitivities)
+export interface TornadoDelta {
+  /** Signed offsets from base: absolute (x, decimals) or relative (share of base). */
+  low: number;
+  high: number;
+  mode: 'absolute' | 'relative';
+}
+
+export interface TornadoRequest {
+  base_params: DealParameters;
+  deltas?: Partial<Record<SensitivityParam, TornadoDelta>>;
+  params?: SensitivityParam[];
+  return_case?: string;
+}
+
+export interface TornadoPoint {
+  value: number;
+  irr: number | null;
+  mom: number | null;
+}
+
+export interface TornadoRow {
+  param: SensitivityParam;
+  base_value: number;
+  low: TornadoPoint;
+  high: TornadoPoint;
+  irr_swing: number | null;
+  mom_swing: number | null;
+}
+
+export interface TornadoResponse {
+  return_case: string;
+  exit_multiple: number;
+  base_irr: number | null;
+  base_mom: number | null;
+  /** Largest IRR swing first. */
+  rows: TornadoRow[];
+}
+
+// Goal seek
+export interface GoalSeekRequest {
+  base_params: DealParameters;
+  param: SensitivityParam;
+  metric: SensitivityMetric;
+  target: number;
+  return_case?: string;
+  exit_multiple?: number;
+  lower?: number;
+  upper?: number;
+}
+
+export interface GoalSeekResponse {
+  param: SensitivityParam;
+  metric: SensitivityMetric;
+  target: number;
+  return_case: string;
+  exit_multiple: number | null;
+  base_value: number | null;
+  base_metric: number | null;
+  status: 'converged' | 'no_solution' | 'not_converged';
+  reason?: 'target_below_range' | 'target_above_range' | 'undefined_at_bound' | 'undefined_in_bracket' | 'max_iterations';
+  solution: number | null;
+  achieved: number | null;
+  iterations: number;
+  bracket: { lower: number; upper: number; metric_at_lower: number | null; metric_at_upper: number | null };
+  steps: { value: number; metric: number | null }[];
+}
+
+// DCF valuation
+export type TerminalMethod = 'gordon' | 'exit_multiple';
+
+export interface DcfAssumptions {
+  wacc: number;
+  terminal_method: TerminalMethod;
+  terminal_growth: number;
+  terminal_multiple: number;
+}
+
+export interface DcfRequest extends Partial<DcfAssumptions> {
+  base_params: DealParameters;
+}
+
+export interface DcfPeriodRow {
+  period_label: string;
+  ebitda: number;
+  tax: number;
+  capex: number;
+  change_nwc: number;
+  integration_costs: number;
+  add_on_spend: number;
+  unlevered_fcf: number;
+  from_nibd: boolean;
+  discount_factor: number;
+  present_value: number;
+}
+
+export interface DcfValuation {
+  entity: 'acquirer' | 'target' | 'pro_forma';
+  name: string;
+  periods: DcfPeriodRow[];
+  sum_pv_fcf: number;
+  terminal_value: number | null;
+  pv_terminal_value: number | null;
+  enterprise_value: number | null;
+  terminal_share: number | null;
+  net_debt: number;
+  preferred_equity: number;
+  equity_value: number | null;
+  shares: number | null;
+  value_per_share: number | null;
+  entry_ev: number | null;
+  entry_per_share: number | null;
+  ev_premium: number | null;
+  per_share_premium: number | null;
+}
+
+export interface DcfResponse {
+  assumptions: DcfAssumptions;
+  valuations: DcfValuation[];
+}
+
+// Contribution analysis (contribution vs post-deal ownership)
+export type ContributionMetric = 'revenue' | 'ebitda' | 'fcf' | 'equity_value';
+
+export interface ContributionRequest {
+  base_params: DealParameters;
+  price_factors?: number[];
+  issue_price?: number;
+}
+
+export interface ContributionRow {
+  metric: ContributionMetric;
+  acquirer: number | null;
+  target: number | null;
+  total: number | null;
+  acquirer_pct: number | null;
+  target_pct: number | null;
+}
+
+export interface ContributionOwnership {
+  existing_shares: number;
+  issued_shares: number;
+  rollover_shares: number;
+  total_shares: number;
+  acquirer_pct: number;
+  target_pct: number;
+}
+
+export interface ExchangePoint {
+  price_factor: number;
+  target_equity_value: number;
+  enterprise_value: number;
+  share_consideration: number;
+  new_shares: number;
+  target_ownership: number;
+  exchange_ratio: number | null;
+}
+
+export interface ImpliedExchange {
+  metric: ContributionMetric;
+  target_pct: number;
+  price_factor: number;
+  target_equity_value: number;
+  new_shares: number;
+  exchange_ratio: number | null;
+}
+
+export interface ContributionResponse {
+  acquirer_name: string;
+  target_name: string;
+  basis_period: string | null;
+  contributions: ContributionRow[];
+  periods: { period_label: string; rows: ContributionRow[] }[];
+  ownership: ContributionOwnership | null;
+  exchange: {
+    entry_price_per_share: number;
+    issue_price: number;
+    target_equity_value: number;
+    target_debt_like: number;
+    target_shares: number | null;
+    share_funded_pct: number;
+    all_share: boolean;
+    points: ExchangePoint[];
+    implied: ImpliedExchange[];
+  } | null;
+}
+
+// EPS accretion / dilution (below-EBITDA P&L, standalone vs pro forma)
+export interface PnlLines {
+  ebitda: number;
+  depreciation: number;
+  amortisation: number;
+  ebit: number;
+  net_financial_items: number;
+  pre_tax_profit: number;
+  tax: number;
+  net_income: number;
+}
+
+export interface EpsPeriod {
+  period_label: string;
+  standalone: PnlLines & { estimated: boolean };
+  target: (PnlLines & { estimated: boolean }) | null;
+  pro_forma: PnlLines & {
+    synergy_ebitda: number;
+    integration_costs: number;
+    ppa_amortisation: number;
+    new_debt_interest: number;
+  };
+  standalone_shares: number | null;
+  pro_forma_shares: number | null;
+  standalone_eps: number | null;
+  pro_forma_eps: number | null;
+  eps_accretion: number | null;
+  standalone_fcf: number;
+  pro_forma_fcf: number;
+  standalone_fcf_per_share: number | null;
+  pro_forma_fcf_per_share: number | null;
+  fcf_per_share_accretion: number | null;
+  breakeven_synergies: number | null;
+}
+
+export interface EpsAccretionResponse {
+  tax_rate: number;
+  ppa_intangibles: number;
+  ppa_amortisation_years: number;
+  reported_pnl: boolean;
+  periods: EpsPeriod[];
+}
+
+// Post-deal variance (actuals after closing vs the IC plan)
+export type VarianceMetric = 'revenue' | 'ebitda' | 'ebitda_margin' | 'fcf' | 'synergies';
+
+export interface VarianceLine {
+  plan: number | null;
+  actual: number | null;
+  /** actual − plan (percentage points for ebitda_margin). */
+  variance: number | null;
+  variance_pct: number | null;
+}
+
+export type VariancePeriod = {
+  period_date: string;
+  period_label: string;
+  has_actuals: boolean;
+} & Record<VarianceMetric, VarianceLine>;
+
+export interface VarianceReport {
+  actuals_model_id: number | null;
+  actuals_model_name: string | null;
+  ic_version: number | null;
+  ic_version_created_at: string | null;
+  reporting_currency: string;
+  periods: VariancePeriod[];
+  totals: Record<VarianceMetric, VarianceLine>;
+}
+
+// Scenario comparison (2–5 saved scenarios at one exit multiple)
+export type ScenarioComparisonMetric =
+  | 'price_paid' | 'entry_multiple' | 'net_debt' | 'leverage' | 'debt_share'
+  | 'combined_irr' | 'combined_mom' | 'per_share_irr' | 'per_share_mom'
+  | 'irr_accretion' | 'mom_accretion' | 'exit_dilution';
+
+export interface ComparedScenario {
+  id: number;
+  name: string;
+  acquirer_model_name: string | null;
+  target_company_name: string | null;
+  target_model_name: string | null;
+  entry_period: string | null;
+  metrics: Record<ScenarioComparisonMetric, number | null>;
+}
+
+export interface ScenarioMetricComparison {
+  metric: ScenarioComparisonMetric;
+  better: 'higher' | 'lower' | null;
+  /** Whether the scenarios with a value disagree. */
+  differs: boolean;
+  spread: number | null;
+  /** Scenario ids with the best / worst value. */
+  best: number[];
+  worst: number[];
+}
+
+export interface ScenarioComparison {
+  exit_multiple: number;
+  scenarios: ComparedScenario[];
+  metrics: ScenarioMetricComparison[];
+}
+
+// Comparables (trading peers and precedent transactions)
+export type ComparableKind = 'trading' | 'transaction';
+export type MultipleKey = 'ev_ebitda_ltm' | 'ev_ebitda_ntm' | 'ev_revenue_ltm' | 'ev_revenue_ntm';
+
+export interface Comparable {
+  id: number;
+  kind: ComparableKind;
+  name: string;
+  acquirer: string | null;
+  sector: string | null;
+  country: string | null;
+  as_of_date: string;
+  currency: string | null;
+  ev: number | string;
+  revenue_ltm: number | string | null;
+  revenue_ntm: number | string | null;
+  ebitda_ltm: number | string | null;
+  ebitda_ntm: number | string | null;
+  source: string | null;
+  created_by_name: string | null;
+  // Derived on read
+  ev_ebitda_ltm: number | null;
+  ev_ebitda_ntm: number | null;
+  ev_revenue_ltm: number | null;
+  ev_revenue_ntm: number | null;
+}
+
+export interface ComparableFilters {
+  kind?: ComparableKind;
+  sector?: string;
+  /** Inclusive YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  ids?: number[];
+}
+
+/** Filters + multiple a scenario's exit multiple range was filled from. */
+export interface CompSetSelection extends ComparableFilters {
+  metric: MultipleKey;
+}
+
+export interface MultipleStats {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+}
+
+export interface CompSetStats {
+  count: number;
+  multiples: Record<MultipleKey, MultipleStats | null>;
+}
+
+export interface ComparableImportResult {
+  message: string;
+  inserted: number;
+  updated: number;
+  errors: { row: number; error: string }[];
+}
+
 export interface CompareResult {
-  acquirer_model: FinancialModel & { company_name: string; company_type: string };
+  acquirer_model: FinancialModel & { company_name: string; company_type: string; currency?: string };
   acquirer_periods: FinancialPeriod[];
-  target_model: (FinancialModel & { company_name: string; company_type: string }) | null;
+  target_model: (FinancialModel & { company_name: string; company_type: string; currency?: string }) | null;
   target_periods: FinancialPeriod[];
+  acquirer_ltm?: FinancialPeriod[];
+  target_ltm?: FinancialPeriod[];
   pro_forma_periods: ProFormaPeriod[];
   scenario: AcquisitionScenario | null;
   deal_returns: DealReturn[];
@@ -366,6 +1034,89 @@ export interface CompareResult {
   returns_level?: 1 | 2;
   returns_level_label?: string;
   share_summary?: ShareSummary;
+  fx?: ScenarioFx;
+}
+
+// ── Scenario versions (from GET /api/scenarios/:id/versions) ──
+
+export interface ScenarioVersion {
+  id: number;
+  scenario_id: number;
+  version_number: number;
+  restored_from: number | null;
+  created_by: number | null;
+  created_by_name: string | null;
+  created_at: string;
+  /** Fields changed vs the previous version (empty for the first). */
+  changed_fields?: string[];
+}
+
+export interface ScenarioFieldChange {
+  /** Column name, or `column.key` for keyed JSON fields (e.g. `deal_parameters.price_paid`). */
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ScenarioVersionReturns {
+  return_case: string;
+  exit_multiple: number;
+  irr: number | null;
+  mom: number | null;
+}
+
+export interface ScenarioVersionDiff {
+  from: ScenarioVersion;
+  to: ScenarioVersion;
+  changes: ScenarioFieldChange[];
+  returns: {
+    from: ScenarioVersionReturns | null;
+    to: ScenarioVersionReturns | null;
+    irr_delta: number | null;
+    mom_delta: number | null;
+  };
+}
+
+// ── Audit log (from GET /api/audit, admin only) ──
+
+export type AuditEntityType = 'company' | 'model' | 'period' | 'scenario' | 'label_rule' | 'comparable';
+export type AuditAction = 'create' | 'update' | 'delete' | 'import' | 'restore' | 'generate';
+
+export interface AuditEvent {
+  id: number;
+  user_id: number | null;
+  user_name: string | null;
+  user_email: string | null;
+  entity_type: AuditEntityType;
+  /** Model id for period events */
+  entity_id: number;
+  entity_name: string | null;
+  action: AuditAction;
+  /** Before/after diff; period fields read `2025B.revenue_total` */
+  changes: ScenarioFieldChange[];
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+export interface AuditFilters {
+  entity_type?: AuditEntityType;
+  user_id?: number;
+  /** Inclusive YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditUser {
+  id: number;
+  name: string;
+  email: string;
 }
 
 // ── Dashboard Summary (from GET /api/dashboard/summary) ──
@@ -424,11 +1175,13 @@ export interface DashboardCompany {
 }
 
 export interface DashboardActivity {
-  entity_type: 'scenario' | 'company';
+  entity_type: AuditEntityType;
   id: number;
-  name: string;
+  name: string | null;
   updated_at: string;
   status: string | null;
+  action: AuditAction;
+  user_name: string | null;
 }
 
 export interface DashboardSummary {
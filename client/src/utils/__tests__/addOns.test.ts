@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { toAddOnRow, fromAddOnRow, isFundingMismatch } from "../addOns";
+
+const saved = {
+  target_model_id: 7,
+  close_date: "2027-07-01",
+  price_paid: 120,
+  sources: [
+    { name: "Bank", amount: 60, type: "debt" as const },
+    { name: "Equity", amount: 60, type: "equity" as const },
+  ],
+  cost_synergies_timeline: { "2028": 5 },
+};
+
+describe("toAddOnRow", () => {
+  it("reads debt and equity from the sources", () => {
+    expect(toAddOnRow(saved)).toEqual({
+      target_model_id: 7,
+      close_date: "2027-07-01",
+      price_paid: 120,
+      debt: 60,
+      equity: 60,
+      cost_synergies_timeline: { "2028": 5 },
+    });
+  });
+
+  it("falls back to the Uses total for the price", () => {
+    const row = toAddOnRow({ target_model_id: 7, close_date: "2027-07-01", uses: [{ name: "EV", amount: 80 }] });
+    expect(row.price_paid).toBe(80);
+    expect(row.debt).toBe(0);
+  });
+});
+
+describe("fromAddOnRow", () => {
+  it("round-trips a saved add-on", () => {
+    const out = fromAddOnRow(toAddOnRow(saved));
+    expect(out.price_paid).toBe(120);
+    expect(out.sources).toEqual([
+      { name: "Debt", amount: 60, type: "debt" },
+      { name: "Equity", amount: 60, type: "equity" },
+    ]);
+    expect(out.cost_synergies_timeline).toEqual({ "2028": 5 });
+  });
+
+  it("drops zero amounts", () => {
+    const out = fromAddOnRow({ ...toAddOnRow(saved), debt: 0, price_paid: 0, cost_synergies_timeline: { "2028": 0 } });
+    expect(out.price_paid).toBeNull();
+    expect(out.sources).toEqual([{ name: "Equity", amount: 60, type: "equity" }]);
+    expect(out.cost_synergies_timeline).toEqual({});
+  });
+});
+
+describe("isFundingMismatch", () => {
+  it("flags funding that does not match the price", () => {
+    expect(isFundingMismatch(toAddOnRow(saved))).toBe(false);
+    expect(isFundingMismatch({ ...toAddOnRow(saved), equity: 40 })).toBe(true);
+  });
+
+  it("ignores rows without funding", () => {
+    expect(isFundingMismatch({ ...toAddOnRow(saved), debt: 0, equity: 0 })).toBe(false);
+  });
+});
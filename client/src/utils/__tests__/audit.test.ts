@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { auditEntityPath } from "../audit";
+
+describe("auditEntityPath", () => {
+  it("links scenarios and companies to their detail pages", () => {
+    expect(auditEntityPath("scenario", 4)).toBe("/scenarios/4");
+    expect(auditEntityPath("company", 2)).toBe("/companies/2");
+  });
+
+  it("links model and period events to the model page", () => {
+    expect(auditEntityPath("model", 10)).toBe("/models/10");
+    expect(auditEntityPath("period", 10)).toBe("/models/10");
+  });
+
+  it("links comparables to the list and leaves label rules unlinked", () => {
+    expect(auditEntityPath("comparable", 3)).toBe("/comparables");
+    expect(auditEntityPath("label_rule", 5)).toBeNull();
+  });
+});
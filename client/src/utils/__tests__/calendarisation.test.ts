@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { getTargetAlignment, summariseAlignment, describeAlignmentSources } from "../calendarisation";
+import type { ProFormaPeriod, TargetAlignment } from "../../types";
+
+const calendarised: TargetAlignment = {
+  status: "calendarised",
+  method: "time_weighted",
+  sources: [
+    { period_label: "FY24/25", period_date: "2025-06-30", weight: 0.5 },
+    { period_label: "FY25/26", period_date: "2026-06-30", weight: 0.5 },
+  ],
+};
+const missing: TargetAlignment = { status: "missing", method: null, sources: [] };
+
+function pf(label: string, fields: Partial<ProFormaPeriod> = {}): ProFormaPeriod {
+  return { period_label: label, ...fields } as ProFormaPeriod;
+}
+
+describe("getTargetAlignment", () => {
+  it("reads computed and stored rows", () => {
+    expect(getTargetAlignment(pf("2025", { target_alignment: missing }))).toBe(missing);
+    expect(getTargetAlignment(pf("2025", { extra_data: { target_alignment: missing } }))).toBe(missing);
+    expect(getTargetAlignment(pf("2025"))).toBeUndefined();
+  });
+});
+
+describe("summariseAlignment", () => {
+  it("lists calendarised and missing periods", () => {
+    const periods = [
+      pf("2025E", { target_alignment: calendarised }),
+      pf("2026E", { extra_data: { target_alignment: missing } }),
+      pf("2027E"),
+    ];
+    expect(summariseAlignment(periods)).toEqual({ calendarised: ["2025E"], missing: ["2026E"] });
+  });
+});
+
+describe("describeAlignmentSources", () => {
+  it("lists source periods with weights", () => {
+    expect(describeAlignmentSources(calendarised)).toBe("FY24/25 50% + FY25/26 50%");
+  });
+});
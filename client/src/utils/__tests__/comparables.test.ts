@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { exitMultipleRange } from "../comparables";
+
+describe("exitMultipleRange", () => {
+  it("runs from Q1 through the median to Q3", () => {
+    expect(exitMultipleRange({ q1: 9, median: 11, q3: 12 })).toEqual([9, 10, 11, 11.5, 12]);
+    expect(exitMultipleRange({ q1: 9, median: 11, q3: 12 }, 3)).toEqual([9, 11, 12]);
+    expect(exitMultipleRange({ q1: 9, median: 11, q3: 12 }, 1)).toEqual([11]);
+  });
+
+  it("rounds to one decimal and drops duplicates", () => {
+    expect(exitMultipleRange({ q1: 10.04, median: 10.04, q3: 10.04 })).toEqual([10]);
+    expect(exitMultipleRange({ q1: 8.333, median: 9.1, q3: 9.87 }, 4)).toEqual([8.3, 8.8, 9.4, 9.9]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PRICE_FACTORS_INPUT, parseIssuePrice, parsePriceFactors } from "../contribution";
+
+describe("parsePriceFactors", () => {
+  it("reads percentages with comma, semicolon or space separators", () => {
+    expect(parsePriceFactors(DEFAULT_PRICE_FACTORS_INPUT)).toEqual([0.8, 0.9, 1, 1.1, 1.2]);
+    expect(parsePriceFactors("120; 80 100 100")).toEqual([0.8, 1, 1.2]);
+    expect(parsePriceFactors("92,5, 100")).toEqual([0.925, 1]);
+  });
+
+  it("rejects empty, non-positive and non-numeric input", () => {
+    expect(parsePriceFactors(" ")).toBeNull();
+    expect(parsePriceFactors("100, 0")).toBeNull();
+    expect(parsePriceFactors("100, x")).toBeNull();
+  });
+});
+
+describe("parseIssuePrice", () => {
+  it("leaves an empty price to the server and rejects bad values", () => {
+    expect(parseIssuePrice("")).toBeUndefined();
+    expect(parseIssuePrice("112,5")).toBe(112.5);
+    expect(parseIssuePrice("-1")).toBeNull();
+  });
+});
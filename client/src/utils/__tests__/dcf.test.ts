@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { defaultDcfInputs, toDcfAssumptions } from "../dcf";
+
+describe("defaultDcfInputs", () => {
+  it("shows saved rates in percent, else the server defaults", () => {
+    expect(defaultDcfInputs(null)).toEqual({ wacc: "9", terminal_method: "gordon", terminal_growth: "2", terminal_multiple: "" });
+    expect(defaultDcfInputs({ price_paid: 1, tax_rate: 0.22, exit_multiples: [], wacc: 0.085, terminal_multiple: 11 }))
+      .toMatchObject({ wacc: "8.5", terminal_multiple: "11" });
+  });
+});
+
+describe("toDcfAssumptions", () => {
+  it("converts percentages and leaves an empty multiple to the server", () => {
+    expect(toDcfAssumptions({ wacc: "9,5", terminal_method: "gordon", terminal_growth: "2", terminal_multiple: "" }))
+      .toEqual({ assumptions: { wacc: 0.095, terminal_method: "gordon", terminal_growth: 0.02 } });
+    expect(toDcfAssumptions({ wacc: "9", terminal_method: "exit_multiple", terminal_growth: "2", terminal_multiple: "12" }))
+      .toMatchObject({ assumptions: { terminal_multiple: 12 } });
+  });
+
+  it("rejects bad numbers and Gordon growth at or above WACC", () => {
+    expect(toDcfAssumptions({ wacc: "x", terminal_method: "gordon", terminal_growth: "2", terminal_multiple: "" })).toEqual({ error: "invalidNumber" });
+    expect(toDcfAssumptions({ wacc: "9", terminal_method: "gordon", terminal_growth: "9", terminal_multiple: "" })).toEqual({ error: "growthAboveWacc" });
+    // Growth does not matter with an exit multiple
+    expect(toDcfAssumptions({ wacc: "9", terminal_method: "exit_multiple", terminal_growth: "9", terminal_multiple: "" })).toHaveProperty("assumptions");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { formatTimelineDate, summariseTimeline } from "../dealTimeline";
+import type { DealTimeline } from "../../types";
+
+function timeline(fractions: number[], overrides: Partial<DealTimeline> = {}): DealTimeline {
+  const held = fractions.map((f, i) => (f > 0 ? i : -1)).filter((i) => i >= 0);
+  return {
+    entry_date: "2026-06-30",
+    exit_date: "2029-03-31",
+    holding_years: 2.75,
+    first_index: held[0],
+    exit_index: held[held.length - 1],
+    exit_ltm_weight: 1,
+    periods: fractions.map((f, i) => ({
+      period_label: `${2026 + i}E`,
+      period_date: `${2026 + i}-12-31`,
+      year_fraction: f,
+      cash_flow_date: `${2026 + i}-12-31`,
+    })),
+    ...overrides,
+  };
+}
+
+describe("formatTimelineDate", () => {
+  it("formats as dd.mm.yyyy", () => {
+    expect(formatTimelineDate("2026-06-30")).toBe("30.06.2026");
+  });
+});
+
+describe("summariseTimeline", () => {
+  it("reports first and last stubs", () => {
+    const s = summariseTimeline(timeline([0.5, 1, 1, 0.25]));
+    expect(s.entry).toBe("30.06.2026");
+    expect(s.firstStub).toEqual({ label: "2026E", fraction: 0.5 });
+    expect(s.lastStub).toEqual({ label: "2029E", fraction: 0.25 });
+  });
+
+  it("reports no stubs for whole years", () => {
+    const s = summariseTimeline(timeline([1, 1]));
+    expect(s.firstStub).toBeNull();
+    expect(s.lastStub).toBeNull();
+  });
+
+  it("skips periods outside the holding period", () => {
+    const s = summariseTimeline(timeline([0, 0.5, 1]));
+    expect(s.firstStub?.label).toBe("2027E");
+    expect(s.lastStub).toBeNull();
+  });
+});
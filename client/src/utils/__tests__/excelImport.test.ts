@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { buildExcelImportSelection } from "../excelImport";
+import type { ExcelImportPreview, ModelImportPreview } from "../../types";
+
+function model(name: string, fields: string[]): ModelImportPreview {
+  return {
+    name,
+    source: null,
+    action: "create",
+    model_id: null,
+    year_columns: [],
+    unmapped_labels: [],
+    fields,
+    periods: [],
+    new_periods: 0,
+    changes: [],
+  };
+}
+
+const preview: ExcelImportPreview = {
+  dry_run: true,
+  models: [model("Base", ["revenue_total", "ebitda_total"]), model("Upside", ["revenue_total"])],
+  input_parameters: {},
+  warnings: [],
+};
+
+describe("buildExcelImportSelection", () => {
+  it("selects every model in full when nothing is unticked", () => {
+    expect(buildExcelImportSelection(preview, { models: [], fields: {}, inputParameters: true })).toEqual({
+      models: [{ name: "Base" }, { name: "Upside" }],
+      input_parameters: true,
+    });
+  });
+
+  it("drops unticked models and lists the remaining fields", () => {
+    const selection = buildExcelImportSelection(preview, {
+      models: ["Upside"],
+      fields: { Base: ["ebitda_total"] },
+      inputParameters: false,
+    });
+    expect(selection).toEqual({
+      models: [{ name: "Base", fields: ["revenue_total"] }],
+      input_parameters: false,
+    });
+  });
+});
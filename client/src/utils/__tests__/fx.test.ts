@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { currencyCode, toFxRateInputs, buildFxRates } from "../fx";
+
+describe("currencyCode", () => {
+  it("strips the unit scale", () => {
+    expect(currencyCode("NOKm")).toBe("NOK");
+    expect(currencyCode("EURk")).toBe("EUR");
+    expect(currencyCode("MSEK")).toBe("SEK");
+    expect(currencyCode("dkk")).toBe("DKK");
+  });
+});
+
+describe("toFxRateInputs", () => {
+  const years = ["2025", "2026"];
+
+  it("repeats a flat rate for every year", () => {
+    expect(toFxRateInputs(0.98, years)).toEqual({ "2025": "0.98", "2026": "0.98" });
+  });
+
+  it("fills missing years of a per-year rate with blanks", () => {
+    expect(toFxRateInputs({ "2025": 11.6 }, years)).toEqual({ "2025": "11.6", "2026": "" });
+    expect(toFxRateInputs(undefined, years)).toEqual({ "2025": "", "2026": "" });
+  });
+});
+
+describe("buildFxRates", () => {
+  it("saves equal rates as a flat rate", () => {
+    expect(buildFxRates({ SEK: { "2025": "0.98", "2026": "0.98" } })).toEqual({ SEK: 0.98 });
+  });
+
+  it("keeps differing or partial rates per year", () => {
+    expect(buildFxRates({ EUR: { "2025": "11.6", "2026": "11.4" } })).toEqual({
+      EUR: { "2025": 11.6, "2026": 11.4 },
+    });
+    expect(buildFxRates({ EUR: { "2025": "11.6", "2026": "" } })).toEqual({ EUR: { "2025": 11.6 } });
+  });
+
+  it("drops currencies without a valid rate", () => {
+    expect(buildFxRates({ DKK: { "2025": "", "2026": "-1" } })).toEqual({});
+  });
+});
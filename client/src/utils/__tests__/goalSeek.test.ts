@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { GOAL_SEEK_PARAMS, isPercentMetric, parseTarget } from "../goalSeek";
+import { PARAM_UNITS } from "../tornado";
+
+describe("GOAL_SEEK_PARAMS", () => {
+  it("offers every sensitivity parameter once, with a unit", () => {
+    expect(new Set(GOAL_SEEK_PARAMS).size).toBe(GOAL_SEEK_PARAMS.length);
+    expect([...GOAL_SEEK_PARAMS].sort()).toEqual(Object.keys(PARAM_UNITS).sort());
+  });
+});
+
+describe("parseTarget", () => {
+  it("reads IRR targets in percent and MoM as multiples", () => {
+    expect(isPercentMetric("per_share_irr")).toBe(true);
+    expect(parseTarget("irr", "20")).toBeCloseTo(0.2);
+    expect(parseTarget("mom", "2,5")).toBe(2.5);
+    expect(parseTarget("irr", "")).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  CORRELATION_PAIRS,
+  buildCorrelations,
+  defaultDistributionInputs,
+  toDistribution,
+  type DistributionInput,
+} from "../monteCarlo";
+
+const input = (overrides: Partial<DistributionInput>): DistributionInput => ({
+  enabled: true, type: "triangular", mean: "", sd: "", min: "", mode: "", max: "", ...overrides,
+});
+
+describe("defaultDistributionInputs", () => {
+  it("centres the exit multiple on the middle multiple", () => {
+    const d = defaultDistributionInputs({ price_paid: 1000, tax_rate: 0.22, exit_multiples: [10, 12, 14] });
+    expect([d.exit_multiple.min, d.exit_multiple.mode, d.exit_multiple.max]).toEqual(["10", "12", "13"]);
+  });
+
+  it("enables the interest rate only for leveraged deals", () => {
+    expect(defaultDistributionInputs({ price_paid: 1000, tax_rate: 0.22, exit_multiples: [12] }).interest_rate.enabled).toBe(false);
+    const levered = defaultDistributionInputs({ price_paid: 1000, tax_rate: 0.22, exit_multiples: [12], interest_rate: 0.065 });
+    expect(levered.interest_rate.enabled).toBe(true);
+    expect(levered.interest_rate.mean).toBe("6.5");
+  });
+});
+
+describe("toDistribution", () => {
+  it("converts percentages to decimals", () => {
+    expect(toDistribution(input({ min: "50", mode: "90", max: "100" }), true)).toEqual({
+      type: "triangular", min: 0.5, mode: 0.9, max: 1,
+    });
+    const normal = toDistribution(input({ type: "normal", mean: "5", sd: "1" }), true);
+    expect(normal).toEqual({ type: "normal", mean: 0.05, sd: 0.01 });
+  });
+
+  it("keeps multiples as entered and accepts decimal commas", () => {
+    expect(toDistribution(input({ type: "uniform", min: "10,5", max: "13" }), false)).toEqual({
+      type: "uniform", min: 10.5, max: 13,
+    });
+  });
+
+  it("rejects incomplete or inconsistent inputs", () => {
+    expect(toDistribution(input({ min: "10", mode: "", max: "12" }), false)).toBeNull();
+    expect(toDistribution(input({ min: "10", mode: "14", max: "12" }), false)).toBeNull();
+    expect(toDistribution(input({ type: "uniform", min: "12", max: "10" }), false)).toBeNull();
+    expect(toDistribution(input({ type: "normal", mean: "12", sd: "-1" }), false)).toBeNull();
+  });
+});
+
+describe("buildCorrelations", () => {
+  it("lists every pair once", () => {
+    expect(CORRELATION_PAIRS).toHaveLength(6);
+  });
+
+  it("keeps non-zero correlations between enabled inputs, clamped to ±1", () => {
+    const values = {
+      "exit_multiple|synergy_realisation": "0.5",
+      "exit_multiple|ebitda_haircut": "-1.4",
+      "exit_multiple|interest_rate": "0.3",
+      "synergy_realisation|ebitda_haircut": "0",
+    };
+    expect(buildCorrelations(values, ["exit_multiple", "synergy_realisation", "ebitda_haircut"])).toEqual([
+      { a: "exit_multiple", b: "synergy_realisation", rho: 0.5 },
+      { a: "exit_multiple", b: "ebitda_haircut", rho: -1 },
+    ]);
+  });
+});
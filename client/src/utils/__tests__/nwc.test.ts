@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { hasBalanceSheet, netWorkingCapital, nwcAnalysis } from "../nwc";
+import type { FinancialPeriod } from "../../types";
+
+function period(fields: Partial<FinancialPeriod>): FinancialPeriod {
+  return { period_label: "2025", revenue_total: 730, ...fields } as FinancialPeriod;
+}
+
+describe("netWorkingCapital", () => {
+  it("nets the working capital items whatever the liability sign", () => {
+    expect(netWorkingCapital(period({ trade_receivables: 100, work_in_progress: 20, trade_payables: -40, deferred_revenue: 10 }))).toBe(70);
+    expect(netWorkingCapital(period({ cash: 50 }))).toBeNull();
+  });
+});
+
+describe("nwcAnalysis", () => {
+  const periods = [
+    period({ trade_receivables: 100, trade_payables: 40 }),
+    period({ trade_receivables: 120, trade_payables: 30, deferred_revenue: 10 }),
+  ];
+  const result = nwcAnalysis(periods);
+
+  it("derives the change in NWC from the balances", () => {
+    expect(result.map((r) => r.nwc)).toEqual([60, 80]);
+    expect(result.map((r) => r.change_nwc)).toEqual([null, 20]);
+  });
+
+  it("shows each item as days of revenue", () => {
+    expect(result[1]).toMatchObject({ receivable_days: 60, payable_days: 15, deferred_revenue_days: 5, nwc_days: 40, wip_days: null });
+    expect(nwcAnalysis([period({ revenue_total: null, trade_receivables: 10 })])[0].nwc_days).toBeNull();
+  });
+
+  it("detects whether a model has balance sheet lines", () => {
+    expect(hasBalanceSheet(periods)).toBe(true);
+    expect(hasBalanceSheet([period({})])).toBe(false);
+  });
+});
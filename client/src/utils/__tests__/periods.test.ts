@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { hasSubAnnualPeriods, ltmAt, withLatestLtm } from "../periods";
+import type { FinancialPeriod } from "../../types";
+
+function period(period_date: string, period_label: string, fields: Partial<FinancialPeriod> = {}): FinancialPeriod {
+  return { period_date, period_label, ebitda_total: 100, ...fields } as FinancialPeriod;
+}
+
+const annual = [period("2024-12-31", "2024"), period("2025-12-31", "2025E")];
+const ltm = [
+  period("2025-03-31", "LTM Q1 2025", { ebitda_total: 90 }),
+  period("2025-06-30", "LTM Q2 2025", { ebitda_total: 95, revenue_ma: 12 }),
+];
+
+describe("hasSubAnnualPeriods", () => {
+  it("treats periods without a granularity as annual", () => {
+    expect(hasSubAnnualPeriods(annual)).toBe(false);
+    expect(hasSubAnnualPeriods([period("2025-03-31", "Q1 2025", { period_granularity: "quarterly" })])).toBe(true);
+  });
+});
+
+describe("ltmAt", () => {
+  it("picks the latest LTM on or before the date", () => {
+    expect(ltmAt(ltm, "2025-05-15")?.period_label).toBe("LTM Q1 2025");
+    expect(ltmAt(ltm)?.period_label).toBe("LTM Q2 2025");
+    expect(ltmAt(ltm, "2024-01-01")?.period_label).toBe("LTM Q2 2025");
+    expect(ltmAt([], "2025-05-15")).toBeNull();
+  });
+});
+
+describe("withLatestLtm", () => {
+  it("slots the latest LTM in by date without acquired revenue", () => {
+    const result = withLatestLtm(annual, ltm);
+    expect(result.map((p) => p.period_label)).toEqual(["2024", "LTM Q2 2025", "2025E"]);
+    expect(result[1].revenue_ma).toBeNull();
+  });
+
+  it("leaves the periods alone without LTM figures or when the LTM is a year-end", () => {
+    expect(withLatestLtm(annual, undefined)).toBe(annual);
+    expect(withLatestLtm(annual, [period("2024-12-31", "LTM Q4 2024")])).toBe(annual);
+  });
+});
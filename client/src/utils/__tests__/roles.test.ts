@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { canEditRole, isAdminRole } from "../roles";
+
+describe("canEditRole", () => {
+  it("allows admins and analysts to edit", () => {
+    expect(canEditRole("admin")).toBe(true);
+    expect(canEditRole("analyst")).toBe(true);
+  });
+
+  it("keeps viewers read-only", () => {
+    expect(canEditRole("viewer")).toBe(false);
+  });
+
+  it("treats a missing or unknown role as read-only", () => {
+    expect(canEditRole(undefined)).toBe(false);
+    expect(canEditRole("guest")).toBe(false);
+  });
+});
+
+describe("isAdminRole", () => {
+  it("is true for admins only", () => {
+    expect(isAdminRole("admin")).toBe(true);
+    expect(isAdminRole("analyst")).toBe(false);
+    expect(isAdminRole(undefined)).toBe(false);
+  });
+});
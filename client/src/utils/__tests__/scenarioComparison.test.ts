@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { metricTone, parseComparisonIds, toggleComparisonId } from "../scenarioComparison";
+import type { ScenarioMetricComparison } from "../../types";
+
+describe("parseComparisonIds", () => {
+  it("keeps distinct positive integers, at most five", () => {
+    expect(parseComparisonIds("3, 1,3,x,-2,0")).toEqual([3, 1]);
+    expect(parseComparisonIds("1,2,3,4,5,6")).toEqual([1, 2, 3, 4, 5]);
+    expect(parseComparisonIds(null)).toEqual([]);
+  });
+});
+
+describe("toggleComparisonId", () => {
+  it("adds and removes scenarios up to the maximum", () => {
+    expect(toggleComparisonId([1, 2], 3)).toEqual([1, 2, 3]);
+    expect(toggleComparisonId([1, 2, 3], 2)).toEqual([1, 3]);
+    expect(toggleComparisonId([1, 2, 3, 4, 5], 6)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("metricTone", () => {
+  const summary: ScenarioMetricComparison = {
+    metric: "combined_irr", better: "higher", differs: true, spread: 0.05, best: [2], worst: [1],
+  };
+
+  it("marks the best and worst scenarios", () => {
+    expect(metricTone(summary, 2)).toBe("best");
+    expect(metricTone(summary, 1)).toBe("worst");
+    expect(metricTone(summary, 3)).toBeNull();
+    expect(metricTone(undefined, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { buildScenarioTree, flattenScenarioTree, treesMatching } from "../scenarioTree";
+import type { AcquisitionScenario } from "../../types";
+
+const scenario = (id: number, parent: number | null, created: string, targetModelId = 20) =>
+  ({
+    id,
+    name: `S${id}`,
+    parent_scenario_id: parent,
+    acquirer_model_id: 10,
+    target_model_id: targetModelId,
+    created_at: created,
+  }) as AcquisitionScenario;
+
+const scenarios = [
+  scenario(3, 1, "2026-03-01"),
+  scenario(1, null, "2026-01-01"),
+  scenario(2, 1, "2026-02-01"),
+  scenario(4, 2, "2026-04-01"),
+  scenario(5, null, "2026-05-01", 30),
+  scenario(6, 99, "2026-06-01", 30),
+];
+
+describe("buildScenarioTree", () => {
+  it("nests branches under their parent, oldest first", () => {
+    const rows = flattenScenarioTree(buildScenarioTree(scenarios));
+    expect(rows.map((r) => [r.scenario.id, r.depth])).toEqual([
+      [1, 0], [2, 1], [4, 2], [3, 1], [5, 0], [6, 0],
+    ]);
+  });
+
+  it("makes a scenario with a missing parent a root", () => {
+    expect(buildScenarioTree(scenarios).map((n) => n.scenario.id)).toContain(6);
+  });
+
+  it("does not loop on a parent cycle", () => {
+    const cycle = [scenario(1, 2, "2026-01-01"), scenario(2, 1, "2026-02-01")];
+    expect(flattenScenarioTree(buildScenarioTree(cycle))).toEqual([]);
+  });
+});
+
+describe("treesMatching", () => {
+  it("keeps whole trees with a matching scenario", () => {
+    const trees = treesMatching(buildScenarioTree(scenarios), (s) => s.id === 4);
+    expect(flattenScenarioTree(trees).map((r) => r.scenario.id)).toEqual([1, 2, 4, 3]);
+    expect(treesMatching(buildScenarioTree(scenarios), (s) => s.target_model_id === 30)).toHaveLength(2);
+  });
+});
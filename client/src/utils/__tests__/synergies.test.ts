@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { yearSynergies, cleanSynergyFields, toSynergyFields, phasingFactor, plannedCost } from "../synergies";
+import type { AcquisitionScenario, SynergyFields, SynergyItem } from "../../types";
+
+const fields: SynergyFields = {
+  cost_synergies_timeline: { "2026": 0, "2027": 20 },
+  revenue_synergies_timeline: { "2027": 50 },
+  revenue_synergy_margin: 0.3,
+  synergy_realisation: { "2027": 0.8 },
+  integration_costs_timeline: { "2026": 15 },
+  synergy_items: [],
+};
+
+describe("yearSynergies", () => {
+  it("realises cost and revenue synergies and adds EBITDA at the margin", () => {
+    const y = yearSynergies(fields, "2027");
+    expect(y.cost).toBeCloseTo(16);
+    expect(y.revenue).toBeCloseTo(40);
+    expect(y.revenueEbitda).toBeCloseTo(12);
+    expect(y.ebitda).toBeCloseTo(28);
+  });
+
+  it("treats integration costs as an outflow and missing realisation as 100 %", () => {
+    const y = yearSynergies(fields, "2026");
+    expect(y.integrationCosts).toBe(-15);
+    expect(y.realisation).toBe(1);
+  });
+});
+
+describe("cleanSynergyFields", () => {
+  it("keeps every cost year but drops empty and default entries", () => {
+    const cleaned = cleanSynergyFields(
+      { ...fields, synergy_realisation: { "2026": 1, "2027": 0.8 }, revenue_synergies_timeline: { "2026": 0, "2027": 50, "2030": 5 } },
+      ["2026", "2027"],
+    );
+    expect(cleaned.cost_synergies_timeline).toEqual({ "2026": 0, "2027": 20 });
+    expect(cleaned.revenue_synergies_timeline).toEqual({ "2027": 50 });
+    expect(cleaned.synergy_realisation).toEqual({ "2027": 0.8 });
+  });
+});
+
+describe("toSynergyFields", () => {
+  it("defaults unset timelines and parses the margin", () => {
+    const scenario = { cost_synergies_timeline: { "2026": 5 }, revenue_synergy_margin: "0.25" } as unknown as AcquisitionScenario;
+    const f = toSynergyFields(scenario);
+    expect(f.revenue_synergy_margin).toBe(0.25);
+    expect(f.integration_costs_timeline).toEqual({});
+  });
+});
+
+const item: SynergyItem = {
+  name: "IT", category: "it", run_rate: 20, start_year: 2026, template: "25_50_100", probability: 0.5,
+};
+
+describe("synergy items", () => {
+  it("phases the run-rate by template and holds the last step", () => {
+    expect([2025, 2026, 2027, 2030].map((y) => phasingFactor(item, y))).toEqual([0, 0.25, 0.5, 1]);
+    expect(phasingFactor({ ...item, template: "custom", custom_phasing: [0.3] }, 2028)).toBe(0.3);
+  });
+
+  it("replaces the typed cost timeline and weights by probability", () => {
+    const withItems = { ...fields, synergy_items: [item] };
+    expect(plannedCost(withItems, "2027")).toBe(10);
+    expect(plannedCost(withItems, "2027", true)).toBe(5);
+    expect(yearSynergies(withItems, "2027", true).cost).toBeCloseTo(4);
+  });
+
+  it("saves the items' full phasing as the cost timeline", () => {
+    const cleaned = cleanSynergyFields({ ...fields, synergy_items: [item] }, ["2026", "2027"]);
+    expect(cleaned.cost_synergies_timeline).toEqual({ "2026": 5, "2027": 10 });
+    expect(cleaned.synergy_items).toEqual([item]);
+  });
+});
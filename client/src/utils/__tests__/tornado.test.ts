@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { TORNADO_INPUTS, defaultDeltaInputs, toDelta, tornadoChartRows } from "../tornado";
+import type { TornadoResponse } from "../../types";
+
+describe("defaultDeltaInputs", () => {
+  it("has a move for every parameter", () => {
+    const inputs = defaultDeltaInputs();
+    expect(Object.keys(inputs)).toHaveLength(TORNADO_INPUTS.length);
+    expect(inputs.exit_multiple).toEqual({ low: "-1", high: "1" });
+  });
+});
+
+describe("toDelta", () => {
+  it("maps units to model deltas", () => {
+    expect(toDelta({ low: "-1", high: "1,5" }, "multiple")).toEqual({ low: -1, high: 1.5, mode: "absolute" });
+    expect(toDelta({ low: "-10", high: "10" }, "amount")).toEqual({ low: -0.1, high: 0.1, mode: "relative" });
+    expect(toDelta({ low: "-1", high: "1" }, "rate")).toEqual({ low: -0.01, high: 0.01, mode: "absolute" });
+  });
+
+  it("rejects incomplete or reversed moves", () => {
+    expect(toDelta({ low: "", high: "1" }, "rate")).toBeNull();
+    expect(toDelta({ low: "2", high: "1" }, "rate")).toBeNull();
+  });
+});
+
+describe("tornadoChartRows", () => {
+  it("expresses IRR as percentage points from base", () => {
+    const result: TornadoResponse = {
+      return_case: "Kombinert",
+      exit_multiple: 12,
+      base_irr: 0.2,
+      base_mom: 2.5,
+      rows: [
+        {
+          param: "exit_multiple",
+          base_value: 12,
+          low: { value: 11, irr: 0.17, mom: 2.2 },
+          high: { value: 13, irr: 0.225, mom: 2.8 },
+          irr_swing: 0.055,
+          mom_swing: 0.6,
+        },
+        {
+          param: "tax_rate",
+          base_value: 0.22,
+          low: { value: 0.21, irr: null, mom: 2.5 },
+          high: { value: 0.23, irr: 0.2, mom: 2.5 },
+          irr_swing: null,
+          mom_swing: 0,
+        },
+      ],
+    };
+    const rows = tornadoChartRows(result);
+    expect(rows[0].param).toBe("exit_multiple");
+    expect(rows[0].low).toBeCloseTo(-3);
+    expect(rows[0].high).toBeCloseTo(2.5);
+    expect(rows[1].low).toBeNull();
+  });
+});
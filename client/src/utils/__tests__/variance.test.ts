@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { latestActualPeriod, varianceStatus } from "../variance";
+import type { VarianceLine, VarianceReport } from "../../types";
+
+const line = (plan: number | null, actual: number | null): VarianceLine => {
+  const variance = plan !== null && actual !== null ? actual - plan : null;
+  return { plan, actual, variance, variance_pct: variance !== null && plan ? variance / Math.abs(plan) : null };
+};
+
+describe("varianceStatus", () => {
+  it("compares amounts relative to plan", () => {
+    expect(varianceStatus(line(100, 110), "ebitda")).toBe("ahead");
+    expect(varianceStatus(line(100, 99), "ebitda")).toBe("onTrack");
+    expect(varianceStatus(line(100, 90), "revenue")).toBe("behind");
+  });
+
+  it("compares margins in percentage points", () => {
+    expect(varianceStatus({ plan: 0.15, actual: 0.12, variance: -0.03, variance_pct: null }, "ebitda_margin")).toBe("behind");
+    expect(varianceStatus({ plan: 0.15, actual: 0.16, variance: 0.01, variance_pct: null }, "ebitda_margin")).toBe("onTrack");
+  });
+
+  it("is empty without actuals", () => {
+    expect(varianceStatus(line(100, null), "fcf")).toBeNull();
+  });
+});
+
+describe("latestActualPeriod", () => {
+  const period = (label: string, hasActuals: boolean) => ({
+    period_date: `${label}-12-31`,
+    period_label: label,
+    has_actuals: hasActuals,
+    revenue: line(1, 1), ebitda: line(1, 1), ebitda_margin: line(1, 1), fcf: line(1, 1), synergies: line(1, 1),
+  });
+  const report = (periods: ReturnType<typeof period>[]): VarianceReport => ({
+    actuals_model_id: 1, actuals_model_name: "Actuals", ic_version: null, ic_version_created_at: null,
+    reporting_currency: "NOKm", periods, totals: periods[0],
+  });
+
+  it("returns the last period with actuals", () => {
+    expect(latestActualPeriod(report([period("2025", true), period("2026", true), period("2027", false)]))).toBe("2026");
+    expect(latestActualPeriod(report([period("2025", false)]))).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import type { AddOnTarget, SourceUseItem } from "../types";
+
+/** An add-on as edited in the form: funding as two amounts instead of Sources. */
+export interface AddOnRow {
+  target_model_id: number;
+  close_date: string;
+  price_paid: number;
+  debt: number;
+  equity: number;
+  cost_synergies_timeline: Record<string, number>;
+}
+
+const sumByType = (sources: SourceUseItem[] | undefined, type: SourceUseItem["type"]) =>
+  (sources ?? []).filter((s) => s.type === type).reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+
+/** Saved add-on → form row (price falls back to the Uses total, as on the server). */
+export function toAddOnRow(target: AddOnTarget): AddOnRow {
+  const usesTotal = (target.uses ?? []).reduce((sum, u) => sum + (Number(u.amount) || 0), 0);
+  return {
+    target_model_id: target.target_model_id,
+    close_date: target.close_date,
+    price_paid: Number(target.price_paid) > 0 ? Number(target.price_paid) : usesTotal,
+    debt: sumByType(target.sources, "debt"),
+    equity: sumByType(target.sources, "equity"),
+    cost_synergies_timeline: target.cost_synergies_timeline ?? {},
+  };
+}
+
+/** Form row → saved add-on; zero amounts and synergy years are left out. */
+export function fromAddOnRow(row: AddOnRow): AddOnTarget {
+  const sources: SourceUseItem[] = [];
+  if (row.debt > 0) sources.push({ name: "Debt", amount: row.debt, type: "debt" });
+  if (row.equity > 0) sources.push({ name: "Equity", amount: row.equity, type: "equity" });
+  return {
+    target_model_id: row.target_model_id,
+    close_date: row.close_date,
+    price_paid: row.price_paid > 0 ? row.price_paid : null,
+    sources,
+    cost_synergies_timeline: Object.fromEntries(
+      Object.entries(row.cost_synergies_timeline).filter(([, v]) => v !== 0),
+    ),
+  };
+}
+
+/** True when the debt and equity entered do not add up to the price. */
+export function isFundingMismatch(row: AddOnRow): boolean {
+  return row.debt + row.equity > 0 && Math.abs(row.debt + row.equity - row.price_paid) > 0.05;
+}
@@ -0,0 +1,22 @@
+import type { AuditEntityType } from "../types";
+
+/**
+ * App route for an audited entity. Period events carry their model id,
+ * so they link to the model page like model events do. Label rules have
+ * no page of their own (null).
+ */
+export function auditEntityPath(entityType: AuditEntityType, entityId: number): string | null {
+  switch (entityType) {
+    case "scenario":
+      return `/scenarios/${entityId}`;
+    case "company":
+      return `/companies/${entityId}`;
+    case "model":
+    case "period":
+      return `/models/${entityId}`;
+    case "comparable":
+      return "/comparables";
+    case "label_rule":
+      return null;
+  }
+}
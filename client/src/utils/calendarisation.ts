@@ -0,0 +1,18 @@
+import type { ProFormaPeriod, TargetAlignment } from "../types";
+
+/** Alignment of a pro forma period — computed rows carry it directly, stored rows in extra_data. */
+export function getTargetAlignment(p: ProFormaPeriod): TargetAlignment | undefined {
+  return p.target_alignment ?? p.extra_data?.target_alignment;
+}
+
+/** Period labels whose target figures were calendarised or are missing. */
+export function summariseAlignment(pfPeriods: ProFormaPeriod[]): { calendarised: string[]; missing: string[] } {
+  const withStatus = (status: TargetAlignment["status"]) =>
+    pfPeriods.filter((p) => getTargetAlignment(p)?.status === status).map((p) => p.period_label);
+  return { calendarised: withStatus("calendarised"), missing: withStatus("missing") };
+}
+
+/** "FY24/25 50% + FY25/26 50%" — the target periods behind a calendarised year. */
+export function describeAlignmentSources(alignment: TargetAlignment): string {
+  return alignment.sources.map((s) => `${s.period_label} ${Math.round(s.weight * 100)}%`).join(" + ");
+}
@@ -0,0 +1,26 @@
+import type { MultipleKey, MultipleStats } from "../types";
+
+/** Multiples offered for the exit range, EV / EBITDA first. */
+export const MULTIPLE_KEYS: MultipleKey[] = ["ev_ebitda_ltm", "ev_ebitda_ntm", "ev_revenue_ltm", "ev_revenue_ntm"];
+
+/** Same size as the matrix had before, so the returns grid keeps its shape. */
+export const DEFAULT_RANGE_SIZE = 5;
+
+/**
+ * Exit multiple range from comp set statistics: `n` points running from Q1
+ * through the median to Q3 (the median sits in the middle, also for skewed
+ * sets), rounded to one decimal, duplicates dropped.
+ */
+export function exitMultipleRange(stats: Pick<MultipleStats, "q1" | "median" | "q3">, n = DEFAULT_RANGE_SIZE): number[] {
+  const count = Math.max(1, Math.round(n));
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const t = count === 1 ? 0.5 : i / (count - 1);
+    const v = t <= 0.5
+      ? stats.q1 + (stats.median - stats.q1) * t * 2
+      : stats.median + (stats.q3 - stats.median) * (t - 0.5) * 2;
+    const rounded = Math.round(v * 10) / 10;
+    if (!values.includes(rounded)) values.push(rounded);
+  }
+  return values;
+}
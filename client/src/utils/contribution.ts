@@ -0,0 +1,24 @@
+/** Default price range around the deal price, as typed (in %). */
+export const DEFAULT_PRICE_FACTORS_INPUT = "80, 90, 100, 110, 120";
+
+const parse = (text: string) => parseFloat(text.replace(",", "."));
+
+/**
+ * "80; 100 120" → [0.8, 1, 1.2]: prices in % of the deal price, sorted and
+ * de-duplicated, or null when a value is not a positive number or there are
+ * more than the server accepts.
+ */
+export function parsePriceFactors(text: string): number[] | null {
+  const parts = text.split(/[\s;]+|,\s+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 15) return null;
+  const factors = parts.map((p) => parse(p) / 100);
+  if (factors.some((f) => !Number.isFinite(f) || f <= 0 || f > 10)) return null;
+  return [...new Set(factors)].sort((a, b) => a - b);
+}
+
+/** Issue price override; empty = as in the share tracker. */
+export function parseIssuePrice(text: string): number | undefined | null {
+  if (!text.trim()) return undefined;
+  const price = parse(text);
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
@@ -0,0 +1,43 @@
+import type { DcfAssumptions, DealParameters, TerminalMethod } from "../types";
+
+/** DCF assumptions as typed: rates in %, multiple as x (empty = server default). */
+export interface DcfInputs {
+  wacc: string;
+  terminal_method: TerminalMethod;
+  terminal_growth: string;
+  terminal_multiple: string;
+}
+
+export type DcfInputError = "invalidNumber" | "growthAboveWacc";
+
+const parse = (text: string) => parseFloat(text.replace(",", "."));
+
+/** Inputs from saved deal parameters (server defaults: 9 % WACC, 2 % growth). */
+export function defaultDcfInputs(dp: DealParameters | null | undefined): DcfInputs {
+  return {
+    wacc: String(+((dp?.wacc ?? 0.09) * 100).toFixed(2)),
+    terminal_method: dp?.terminal_method ?? "gordon",
+    terminal_growth: String(+((dp?.terminal_growth ?? 0.02) * 100).toFixed(2)),
+    terminal_multiple: dp?.terminal_multiple != null ? String(dp.terminal_multiple) : "",
+  };
+}
+
+/** Inputs → request assumptions (decimals), or the first input error. */
+export function toDcfAssumptions(inputs: DcfInputs): { assumptions: Partial<DcfAssumptions> } | { error: DcfInputError } {
+  const wacc = parse(inputs.wacc) / 100;
+  const growth = parse(inputs.terminal_growth) / 100;
+  const multiple = inputs.terminal_multiple.trim() ? parse(inputs.terminal_multiple) : undefined;
+
+  if (!Number.isFinite(wacc) || wacc <= 0 || !Number.isFinite(growth)) return { error: "invalidNumber" };
+  if (multiple !== undefined && !(multiple > 0)) return { error: "invalidNumber" };
+  if (inputs.terminal_method === "gordon" && growth >= wacc) return { error: "growthAboveWacc" };
+
+  return {
+    assumptions: {
+      wacc,
+      terminal_method: inputs.terminal_method,
+      terminal_growth: growth,
+      ...(multiple !== undefined ? { terminal_multiple: multiple } : {}),
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { DealTimeline } from "../types";
+
+/** "30.06.2026" — scenario dates are plain YYYY-MM-DD. */
+export function formatTimelineDate(key: string): string {
+  const [y, m, d] = key.slice(0, 10).split("-");
+  return `${d}.${m}.${y}`;
+}
+
+/**
+ * Stub fractions of the first and last held periods (null when the period
+ * is held in full), for the holding-period note on the returns section.
+ */
+export function summariseTimeline(timeline: DealTimeline): {
+  entry: string;
+  exit: string;
+  years: number;
+  firstStub: { label: string; fraction: number } | null;
+  lastStub: { label: string; fraction: number } | null;
+} {
+  const stub = (idx: number) => {
+    const p = timeline.periods[idx];
+    if (!p || p.year_fraction >= 0.999) return null;
+    return { label: p.period_label ?? p.period_date.slice(0, 4), fraction: p.year_fraction };
+  };
+  return {
+    entry: formatTimelineDate(timeline.entry_date),
+    exit: formatTimelineDate(timeline.exit_date),
+    years: timeline.holding_years,
+    firstStub: stub(timeline.first_index),
+    lastStub: timeline.exit_index !== timeline.first_index ? stub(timeline.exit_index) : null,
+  };
+}
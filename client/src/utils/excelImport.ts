@@ -0,0 +1,30 @@
+import type { ExcelImportPreview, ExcelImportSelection } from "../types";
+
+/** Models and fields the user has unticked in the import preview. */
+export interface ExcelImportExclusions {
+  models: string[];
+  /** Unticked fields per model name. */
+  fields: Record<string, string[]>;
+  inputParameters: boolean;
+}
+
+/**
+ * Turn the preview checkboxes into the selection sent with the committing
+ * import. Field lists are only sent for models with unticked fields, so a
+ * model imported in full keeps every column (including ones the preview
+ * did not list because they were empty).
+ */
+export function buildExcelImportSelection(
+  preview: ExcelImportPreview,
+  exclusions: ExcelImportExclusions
+): ExcelImportSelection {
+  const models = preview.models
+    .filter((m) => !exclusions.models.includes(m.name))
+    .map((m) => {
+      const excluded = exclusions.fields[m.name] ?? [];
+      if (excluded.length === 0) return { name: m.name };
+      return { name: m.name, fields: m.fields.filter((f) => !excluded.includes(f)) };
+    });
+
+  return { models, input_parameters: exclusions.inputParameters };
+}
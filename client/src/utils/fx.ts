@@ -0,0 +1,48 @@
+import type { FxRates } from "../types";
+
+/** ISO code of a currency unit: "NOKm" / "MNOK" -> "NOK", "EURk" -> "EUR". */
+export function currencyCode(unit: string | null | undefined): string {
+  const raw = (unit ?? "").trim();
+  const suffix = /^([A-Za-z]{3})(k|m|bn)?$/.exec(raw);
+  if (suffix) return suffix[1].toUpperCase();
+  const prefix = /^(M|T|K)([A-Z]{3})$/.exec(raw);
+  if (prefix) return prefix[2];
+  return raw.toUpperCase();
+}
+
+/** Per-year rate inputs for one currency, as strings from the form. */
+export type FxRateInputs = Record<string, string>;
+
+/**
+ * Expand a saved rate (flat or per year) into one input per year so the
+ * editor can show every projection year.
+ */
+export function toFxRateInputs(rate: FxRates[string] | undefined, years: string[]): FxRateInputs {
+  const inputs: FxRateInputs = {};
+  for (const year of years) {
+    if (rate == null) inputs[year] = "";
+    else if (typeof rate === "number") inputs[year] = String(rate);
+    else inputs[year] = rate[year] != null ? String(rate[year]) : "";
+  }
+  return inputs;
+}
+
+/**
+ * Turn the editor inputs back into `fx_rates`. A currency with the same rate
+ * in every year is saved flat; blank or non-positive inputs are dropped, and
+ * currencies without any rate are left out.
+ */
+export function buildFxRates(inputs: Record<string, FxRateInputs>): FxRates {
+  const rates: FxRates = {};
+  for (const [code, byYear] of Object.entries(inputs)) {
+    const entries = Object.entries(byYear)
+      .map(([year, v]) => [year, Number(v)] as const)
+      .filter(([, v]) => Number.isFinite(v) && v > 0);
+    if (entries.length === 0) continue;
+
+    const values = new Set(entries.map(([, v]) => v));
+    const allYears = entries.length === Object.keys(byYear).length;
+    rates[code] = values.size === 1 && allYears ? entries[0][1] : Object.fromEntries(entries);
+  }
+  return rates;
+}
@@ -0,0 +1,30 @@
+import type { SensitivityMetric, SensitivityParam } from "../types";
+
+/** Parameters offered by the solver, most common first. */
+export const GOAL_SEEK_PARAMS: SensitivityParam[] = [
+  "price_paid",
+  "exit_multiple",
+  "net_debt",
+  "ordinary_equity",
+  "preferred_equity",
+  "interest_rate",
+  "preferred_equity_rate",
+  "cash_sweep_pct",
+  "debt_amortisation",
+  "tax_rate",
+  "da_pct_revenue",
+  "acquirer_entry_ev",
+  "base_rate_shift",
+];
+
+export const GOAL_SEEK_METRICS: SensitivityMetric[] = ["irr", "mom", "per_share_irr"];
+
+/** IRR metrics are entered in %, MoM as a multiple. */
+export const isPercentMetric = (metric: SensitivityMetric) => metric === "irr" || metric === "per_share_irr";
+
+/** Target as typed (20 or 2,5) → model value (0.2 or 2.5), or null when not a number. */
+export function parseTarget(metric: SensitivityMetric, text: string): number | null {
+  const n = parseFloat(text.replace(",", "."));
+  if (!Number.isFinite(n)) return null;
+  return isPercentMetric(metric) ? n / 100 : n;
+}
@@ -0,0 +1,85 @@
+import type { DealParameters, Distribution, SimulationCorrelation, SimulationVariable } from "../types";
+
+export type DistributionType = Distribution["type"];
+
+/** One simulation input as edited in the form (values in display units: x or %). */
+export interface DistributionInput {
+  enabled: boolean;
+  type: DistributionType;
+  mean: string;
+  sd: string;
+  min: string;
+  mode: string;
+  max: string;
+}
+
+export const SIMULATION_INPUTS: { key: SimulationVariable; percent: boolean }[] = [
+  { key: "exit_multiple", percent: false },
+  { key: "synergy_realisation", percent: true },
+  { key: "ebitda_haircut", percent: true },
+  { key: "interest_rate", percent: true },
+];
+
+/** Every pair of inputs, in a fixed order ("a|b" keys). */
+export const CORRELATION_PAIRS: [SimulationVariable, SimulationVariable][] = SIMULATION_INPUTS.flatMap((a, i) =>
+  SIMULATION_INPUTS.slice(i + 1).map((b): [SimulationVariable, SimulationVariable] => [a.key, b.key]),
+);
+
+const triangular = (min: number, mode: number, max: number, enabled = true): DistributionInput => ({
+  enabled, type: "triangular", mean: String(mode), sd: "", min: String(min), mode: String(mode), max: String(max),
+});
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Starting distributions around the deal's own assumptions: exit multiple
+ * −2x / +1x around the middle multiple, 50–100 % synergy realisation,
+ * 0–40 % of EBITDA growth lost and ±1 pp on the interest rate (only when the
+ * deal is leveraged).
+ */
+export function defaultDistributionInputs(dp: DealParameters | null): Record<SimulationVariable, DistributionInput> {
+  const multiples = dp?.exit_multiples ?? [];
+  const midMultiple = multiples[Math.floor(multiples.length / 2)] ?? 12;
+  const rate = round2((dp?.interest_rate ?? 0.05) * 100);
+  return {
+    exit_multiple: triangular(midMultiple - 2, midMultiple, midMultiple + 1),
+    synergy_realisation: triangular(50, 90, 100),
+    ebitda_haircut: triangular(0, 10, 40),
+    interest_rate: {
+      enabled: (dp?.interest_rate ?? 0) > 0,
+      type: "normal", mean: String(rate), sd: "1", min: String(rate - 1), mode: String(rate), max: String(rate + 1),
+    },
+  };
+}
+
+/** Form input → distribution in model units (decimals for %), or null when incomplete or inconsistent. */
+export function toDistribution(input: DistributionInput, percent: boolean): Distribution | null {
+  const scale = percent ? 0.01 : 1;
+  const read = (v: string) => {
+    const n = parseFloat(v.replace(",", "."));
+    return Number.isFinite(n) ? n * scale : null;
+  };
+  if (input.type === "normal") {
+    const mean = read(input.mean);
+    const sd = read(input.sd);
+    return mean != null && sd != null && sd >= 0 ? { type: "normal", mean, sd } : null;
+  }
+  const min = read(input.min);
+  const max = read(input.max);
+  if (min == null || max == null || min > max) return null;
+  if (input.type === "uniform") return { type: "uniform", min, max };
+  const mode = read(input.mode);
+  return mode != null && mode >= min && mode <= max ? { type: "triangular", min, mode, max } : null;
+}
+
+/** Non-zero correlations between enabled inputs. */
+export function buildCorrelations(
+  values: Record<string, string>,
+  enabled: SimulationVariable[],
+): SimulationCorrelation[] {
+  return CORRELATION_PAIRS.flatMap(([a, b]) => {
+    const rho = parseFloat((values[`${a}|${b}`] ?? "").replace(",", "."));
+    if (!Number.isFinite(rho) || rho === 0 || !enabled.includes(a) || !enabled.includes(b)) return [];
+    return [{ a, b, rho: Math.max(-1, Math.min(1, rho)) }];
+  });
+}
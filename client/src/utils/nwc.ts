@@ -0,0 +1,67 @@
+import type { FinancialPeriod } from "../types";
+
+/** Balance sheet columns on a financial period. */
+export const BALANCE_SHEET_KEYS = [
+  "trade_receivables", "work_in_progress", "trade_payables", "deferred_revenue",
+  "cash", "gross_debt", "lease_liabilities",
+] as const;
+
+export interface NwcPeriod {
+  nwc: number | null;
+  /** NWC_t − NWC_t−1 (positive = build-up = cash use); null for the first period. */
+  change_nwc: number | null;
+  /** Days of revenue: balance / revenue × 365. */
+  receivable_days: number | null;
+  wip_days: number | null;
+  payable_days: number | null;
+  deferred_revenue_days: number | null;
+  nwc_days: number | null;
+}
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = typeof v === "number" ? v : parseFloat(String(v));
+  return Number.isNaN(n) ? null : n;
+};
+
+/** Whether any period reports a balance sheet line. */
+export function hasBalanceSheet(periods: FinancialPeriod[]): boolean {
+  return periods.some((p) => BALANCE_SHEET_KEYS.some((k) => num(p[k]) !== null));
+}
+
+/**
+ * Receivables + WIP − payables − deferred revenue (liabilities count
+ * positive whatever their stored sign); null when none is reported.
+ */
+export function netWorkingCapital(p: FinancialPeriod): number | null {
+  const items = [p.trade_receivables, p.work_in_progress, p.trade_payables, p.deferred_revenue].map(num);
+  if (items.every((v) => v === null)) return null;
+  const [rec, wip, pay, def] = items.map((v) => v ?? 0);
+  return rec + wip - Math.abs(pay) - Math.abs(def);
+}
+
+/**
+ * NWC, its change and days per period. Days are on a revenue basis for all
+ * items (the models have no cost of sales), so payable days read as days of
+ * revenue rather than of purchases.
+ */
+export function nwcAnalysis(periods: FinancialPeriod[]): NwcPeriod[] {
+  return periods.map((p, i) => {
+    const nwc = netWorkingCapital(p);
+    const prev = i > 0 ? netWorkingCapital(periods[i - 1]) : null;
+    const revenue = num(p.revenue_total);
+    const days = (v: unknown) => {
+      const n = num(v);
+      return n !== null && revenue && revenue > 0 ? (Math.abs(n) / revenue) * 365 : null;
+    };
+    return {
+      nwc,
+      change_nwc: nwc !== null && prev !== null ? nwc - prev : null,
+      receivable_days: days(p.trade_receivables),
+      wip_days: days(p.work_in_progress),
+      payable_days: days(p.trade_payables),
+      deferred_revenue_days: days(p.deferred_revenue),
+      nwc_days: nwc !== null && revenue && revenue > 0 ? (nwc / revenue) * 365 : null,
+    };
+  });
+}
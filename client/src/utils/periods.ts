@@ -0,0 +1,36 @@
+import type { FinancialPeriod } from "../types";
+
+const dateKey = (d: string) => String(d).slice(0, 10);
+
+/** Whether a model has quarterly or monthly periods. */
+export function hasSubAnnualPeriods(periods: FinancialPeriod[]): boolean {
+  return periods.some((p) => (p.period_granularity ?? "annual") !== "annual");
+}
+
+/**
+ * LTM row at a date: the latest one ending on or before it, else the
+ * latest overall. Null when the model has no LTM figures.
+ */
+export function ltmAt(ltm: FinancialPeriod[] | undefined, date?: string | null): FinancialPeriod | null {
+  if (!ltm?.length) return null;
+  const sorted = [...ltm].sort((a, b) => dateKey(a.period_date).localeCompare(dateKey(b.period_date)));
+  if (!date) return sorted[sorted.length - 1];
+  const before = sorted.filter((p) => dateKey(p.period_date) <= dateKey(date));
+  return before[before.length - 1] ?? sorted[sorted.length - 1];
+}
+
+/**
+ * Annual periods with the latest LTM row slotted in by date, so an LTM
+ * basis can read real trailing figures (e.g. "LTM Q3 2025") next to the
+ * calendar years. Skipped when the LTM ends on a period already shown (a
+ * year-end LTM is the calendar year). Acquired revenue is left out of the
+ * LTM row so share issuance is not counted twice.
+ */
+export function withLatestLtm(periods: FinancialPeriod[], ltm: FinancialPeriod[] | undefined): FinancialPeriod[] {
+  const latest = ltmAt(ltm);
+  if (!latest) return periods;
+  if (periods.some((p) => dateKey(p.period_date) === dateKey(latest.period_date))) return periods;
+  return [...periods, { ...latest, revenue_ma: null }].sort((a, b) =>
+    dateKey(a.period_date).localeCompare(dateKey(b.period_date)),
+  );
+}
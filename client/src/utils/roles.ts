@@ -0,0 +1,15 @@
+/** Roles allowed to modify data — mirrors EDITOR_ROLES on the server. */
+const EDITOR_ROLES = ["admin", "analyst"];
+
+/**
+ * Whether a user role may create, edit or delete data.
+ * Viewers (and unknown roles) are read-only; the server enforces the same rule.
+ */
+export function canEditRole(role: string | undefined): boolean {
+  return !!role && EDITOR_ROLES.includes(role);
+}
+
+/** Admin-only features (audit log). */
+export function isAdminRole(role: string | undefined): boolean {
+  return role === "admin";
+}
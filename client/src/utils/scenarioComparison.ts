@@ -0,0 +1,24 @@
+import type { ScenarioMetricComparison } from "../types";
+
+/** Scenarios compared side by side at most (matches the API). */
+export const MAX_COMPARED_SCENARIOS = 5;
+
+/** Scenario ids from the ?ids=1,2,3 query parameter: distinct positive integers, at most five. */
+export function parseComparisonIds(param: string | null): number[] {
+  if (!param) return [];
+  const ids = param.split(",").map((s) => Number(s.trim())).filter((n) => Number.isInteger(n) && n > 0);
+  return [...new Set(ids)].slice(0, MAX_COMPARED_SCENARIOS);
+}
+
+/** Add or remove a scenario from the selection; adding beyond the maximum is ignored. */
+export function toggleComparisonId(ids: number[], id: number): number[] {
+  if (ids.includes(id)) return ids.filter((i) => i !== id);
+  return ids.length < MAX_COMPARED_SCENARIOS ? [...ids, id] : ids;
+}
+
+/** Whether a scenario holds the best or worst value of a metric. */
+export function metricTone(summary: ScenarioMetricComparison | undefined, scenarioId: number): "best" | "worst" | null {
+  if (summary?.best.includes(scenarioId)) return "best";
+  if (summary?.worst.includes(scenarioId)) return "worst";
+  return null;
+}
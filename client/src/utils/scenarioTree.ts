@@ -0,0 +1,44 @@
+import type { AcquisitionScenario } from "../types";
+
+export interface ScenarioNode {
+  scenario: AcquisitionScenario;
+  /** 0 for a root, 1 for its branches, … */
+  depth: number;
+  children: ScenarioNode[];
+}
+
+/**
+ * Parent/child tree of scenarios from parent_scenario_id. Scenarios whose
+ * parent is missing (deleted, or not in the list) are roots; siblings are
+ * ordered oldest first so a branch sits below the scenario it came from.
+ */
+export function buildScenarioTree(scenarios: AcquisitionScenario[]): ScenarioNode[] {
+  const ids = new Set(scenarios.map((s) => s.id));
+  const byParent = new Map<number | null, AcquisitionScenario[]>();
+  for (const s of scenarios) {
+    const parent = s.parent_scenario_id != null && ids.has(s.parent_scenario_id) ? s.parent_scenario_id : null;
+    byParent.set(parent, [...(byParent.get(parent) ?? []), s]);
+  }
+
+  const visited = new Set<number>();
+  const build = (parent: number | null, depth: number): ScenarioNode[] =>
+    (byParent.get(parent) ?? [])
+      .filter((s) => !visited.has(s.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+      .map((s) => {
+        visited.add(s.id);
+        return { scenario: s, depth, children: build(s.id, depth + 1) };
+      });
+
+  return build(null, 0);
+}
+
+/** Depth-first list of a tree, for rendering as indented rows. */
+export function flattenScenarioTree(nodes: ScenarioNode[]): ScenarioNode[] {
+  return nodes.flatMap((n) => [n, ...flattenScenarioTree(n.children)]);
+}
+
+/** Trees containing at least one scenario that matches (every variant of the same deal). */
+export function treesMatching(nodes: ScenarioNode[], match: (s: AcquisitionScenario) => boolean): ScenarioNode[] {
+  return nodes.filter((n) => flattenScenarioTree([n]).some((d) => match(d.scenario)));
+}
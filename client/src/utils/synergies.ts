@@ -0,0 +1,99 @@
+import type { AcquisitionScenario, PhasingTemplate, SynergyCategory, SynergyFields, SynergyItem } from "../types";
+
+export const SYNERGY_CATEGORIES: SynergyCategory[] = ["it", "premises", "headcount", "procurement", "other"];
+
+/** Share of run-rate in each year from the start year (same as the server). */
+export const PHASING_TEMPLATES: Record<Exclude<PhasingTemplate, "custom">, number[]> = {
+  "25_50_100": [0.25, 0.5, 1],
+  s_curve: [0.1, 0.4, 0.8, 1],
+  linear_3: [1 / 3, 2 / 3, 1],
+  immediate: [1],
+};
+
+/** Realised synergies for one year, mirroring the server's pro forma. */
+export interface YearSynergies {
+  cost: number;
+  revenue: number;
+  revenueEbitda: number;
+  /** Total EBITDA uplift: cost + EBITDA on revenue synergies. */
+  ebitda: number;
+  /** One-off integration costs (negative = outflow). */
+  integrationCosts: number;
+  realisation: number;
+}
+
+type SynergySource = Pick<
+  AcquisitionScenario,
+  | "cost_synergies_timeline" | "revenue_synergies_timeline" | "revenue_synergy_margin"
+  | "synergy_realisation" | "integration_costs_timeline" | "synergy_items"
+>;
+
+/** Synergy fields from a scenario, with empty timelines where unset. */
+export function toSynergyFields(scenario: SynergySource): SynergyFields {
+  return {
+    cost_synergies_timeline: scenario.cost_synergies_timeline || {},
+    revenue_synergies_timeline: scenario.revenue_synergies_timeline || {},
+    revenue_synergy_margin: scenario.revenue_synergy_margin != null ? Number(scenario.revenue_synergy_margin) : null,
+    synergy_realisation: scenario.synergy_realisation || {},
+    integration_costs_timeline: scenario.integration_costs_timeline || {},
+    synergy_items: scenario.synergy_items || [],
+  };
+}
+
+/** Share of an item's run-rate reached in a year; the last step holds. */
+export function phasingFactor(item: SynergyItem, year: number): number {
+  const offset = year - item.start_year;
+  if (offset < 0) return 0;
+  const steps = item.template === "custom" ? (item.custom_phasing ?? []) : PHASING_TEMPLATES[item.template];
+  if (steps.length === 0) return 1;
+  return steps[Math.min(offset, steps.length - 1)];
+}
+
+/** An item's synergy in a year, optionally weighted by its probability. */
+export function itemSynergy(item: SynergyItem, year: number, riskWeighted = false): number {
+  return (Number(item.run_rate) || 0) * phasingFactor(item, year) * (riskWeighted ? (item.probability ?? 1) : 1);
+}
+
+/** Planned cost synergies for a year (before realisation): from items when there are any. */
+export function plannedCost(fields: SynergyFields, year: string, riskWeighted = false): number {
+  if (fields.synergy_items.length === 0) return fields.cost_synergies_timeline[year] || 0;
+  return fields.synergy_items.reduce((s, item) => s + itemSynergy(item, Number(year), riskWeighted), 0);
+}
+
+/**
+ * Realisation scales cost and revenue synergies; revenue synergies earn
+ * EBITDA at the margin; integration costs sit below EBITDA.
+ */
+export function yearSynergies(fields: SynergyFields, year: string, riskWeighted = false): YearSynergies {
+  const realisation = fields.synergy_realisation[year] ?? 1;
+  const cost = plannedCost(fields, year, riskWeighted) * realisation;
+  const revenue = (fields.revenue_synergies_timeline[year] || 0) * realisation;
+  const revenueEbitda = revenue * (fields.revenue_synergy_margin ?? 0);
+  return {
+    cost,
+    revenue,
+    revenueEbitda,
+    ebitda: cost + revenueEbitda,
+    integrationCosts: -Math.abs(fields.integration_costs_timeline[year] || 0),
+    realisation,
+  };
+}
+
+/**
+ * Keep only the given years (timelines) and drop zero or blank entries,
+ * so the saved plan matches what the editor shows. Realisation of 100 %
+ * is the default and is not stored. With items, the cost timeline is
+ * saved as the items' full phasing.
+ */
+export function cleanSynergyFields(fields: SynergyFields, years: string[]): SynergyFields {
+  const pick = (timeline: Record<string, number>, skip: (v: number) => boolean) =>
+    Object.fromEntries(years.filter((y) => timeline[y] != null && !skip(timeline[y])).map((y) => [y, timeline[y]]));
+  return {
+    cost_synergies_timeline: Object.fromEntries(years.map((y) => [y, plannedCost(fields, y)])),
+    revenue_synergies_timeline: pick(fields.revenue_synergies_timeline, (v) => v === 0),
+    revenue_synergy_margin: fields.revenue_synergy_margin,
+    synergy_realisation: pick(fields.synergy_realisation, (v) => v === 1),
+    integration_costs_timeline: pick(fields.integration_costs_timeline, (v) => v === 0),
+    synergy_items: fields.synergy_items,
+  };
+}
@@ -0,0 +1,53 @@
+import type { TornadoDelta, SensitivityParam, TornadoResponse } from "../types";
+
+/**
+ * How a parameter's move is entered: multiples in x (absolute), amounts in %
+ * of base (relative), rates in percentage points (absolute).
+ */
+export type ParamUnit = "multiple" | "amount" | "rate";
+
+/** Low / high move as edited in the form (display units). */
+export interface DeltaInput {
+  low: string;
+  high: string;
+}
+
+export const TORNADO_INPUTS: { param: SensitivityParam; unit: ParamUnit; low: number; high: number }[] = [
+  { param: "exit_multiple", unit: "multiple", low: -1, high: 1 },
+  { param: "price_paid", unit: "amount", low: -10, high: 10 },
+  { param: "interest_rate", unit: "rate", low: -1, high: 1 },
+  { param: "base_rate_shift", unit: "rate", low: -1, high: 1 },
+  { param: "ordinary_equity", unit: "amount", low: -10, high: 10 },
+  { param: "net_debt", unit: "amount", low: -10, high: 10 },
+  { param: "debt_amortisation", unit: "amount", low: -10, high: 10 },
+  { param: "cash_sweep_pct", unit: "rate", low: -25, high: 25 },
+  { param: "preferred_equity", unit: "amount", low: -10, high: 10 },
+  { param: "preferred_equity_rate", unit: "rate", low: -1, high: 1 },
+  { param: "tax_rate", unit: "rate", low: -1, high: 1 },
+  { param: "da_pct_revenue", unit: "rate", low: -0.5, high: 0.5 },
+  { param: "acquirer_entry_ev", unit: "amount", low: -10, high: 10 },
+];
+
+export const PARAM_UNITS = Object.fromEntries(TORNADO_INPUTS.map((i) => [i.param, i.unit])) as Record<SensitivityParam, ParamUnit>;
+
+export function defaultDeltaInputs(): Record<SensitivityParam, DeltaInput> {
+  return Object.fromEntries(
+    TORNADO_INPUTS.map(({ param, low, high }) => [param, { low: String(low), high: String(high) }]),
+  ) as Record<SensitivityParam, DeltaInput>;
+}
+
+/** Form input → delta in model units, or null when incomplete or low > high. */
+export function toDelta(input: DeltaInput, unit: ParamUnit): TornadoDelta | null {
+  const scale = unit === "multiple" ? 1 : 0.01;
+  const low = parseFloat(input.low.replace(",", "."));
+  const high = parseFloat(input.high.replace(",", "."));
+  if (!Number.isFinite(low) || !Number.isFinite(high) || low > high) return null;
+  return { low: low * scale, high: high * scale, mode: unit === "amount" ? "relative" : "absolute" };
+}
+
+/** Chart bars: IRR change vs. base in percentage points, largest swing first. */
+export function tornadoChartRows(result: TornadoResponse): { param: SensitivityParam; low: number | null; high: number | null }[] {
+  const base = result.base_irr;
+  const diff = (irr: number | null) => (irr != null && base != null ? (irr - base) * 100 : null);
+  return result.rows.map((r) => ({ param: r.param, low: diff(r.low.irr), high: diff(r.high.irr) }));
+}
@@ -0,0 +1,28 @@
+import type { VarianceLine, VarianceMetric, VarianceReport } from "../types";
+
+export type VarianceStatus = "ahead" | "onTrack" | "behind";
+
+/** Within this share of plan (or percentage points for margins) counts as on track. */
+export const ON_TRACK_TOLERANCE = 0.02;
+
+/**
+ * Status of one line against plan: a relative variance for amounts, the
+ * margin variance in percentage points, null without both plan and actual.
+ */
+export function varianceStatus(
+  line: VarianceLine,
+  metric: VarianceMetric,
+  tolerance = ON_TRACK_TOLERANCE,
+): VarianceStatus | null {
+  const v = metric === "ebitda_margin" ? line.variance : line.variance_pct;
+  if (v === null) return null;
+  if (v > tolerance) return "ahead";
+  if (v < -tolerance) return "behind";
+  return "onTrack";
+}
+
+/** Label of the last period with actuals, or null before any are loaded. */
+export function latestActualPeriod(report: VarianceReport): string | null {
+  const tracked = report.periods.filter((p) => p.has_actuals);
+  return tracked.length > 0 ? tracked[tracked.length - 1].period_label : null;
+}
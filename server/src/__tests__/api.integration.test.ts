@@ -14,6 +14,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import request from "supertest";
 import jwt from "jsonwebtoken";
+import ExcelJS from "exceljs";
 
 // Mock the database pool BEFORE importing app
 vi.mock("../models/db.js", () => {
@@ -39,6 +40,30 @@ function bearer(token: string) {
   return `Bearer ${token}`;
 }
 
+const TX_CONTROL = ["BEGIN", "COMMIT", "ROLLBACK"];
+
+/**
+ * Mock pool.connect() with a client for one transaction: BEGIN, COMMIT and
+ * ROLLBACK resolve empty, other queries get `results` in order (then no rows).
+ */
+function mockTransaction(...results: { rows: unknown[] }[]) {
+  const queue = [...results];
+  const client = {
+    query: vi.fn().mockImplementation(async (sql: string) =>
+      TX_CONTROL.includes(sql) ? { rows: [] } : queue.shift() ?? { rows: [] }),
+    release: vi.fn(),
+  };
+  vi.mocked(pool.connect).mockResolvedValueOnce(client as never);
+  return client;
+}
+
+/** [sql, params] of a transaction client's statements, without BEGIN/COMMIT/ROLLBACK. */
+function statements(client: ReturnType<typeof mockTransaction>) {
+  return client.query.mock.calls
+    .map((c) => [String(c[0]), c[1] as unknown[]] as const)
+    .filter(([sql]) => !TX_CONTROL.includes(sql));
+}
+
 // ══════════════════════════════════════════════════════════════════
 // Health
 // ══════════════════════════════════════════════════════════════════
@@ -121,7 +146,7 @@ describe("Zod validation middleware", () => {
   });
 
   it("accepts valid company creation", async () => {
-    (pool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+    const client = mockTransaction({
       rows: [{ id: 1, name: "ECIT AS", company_type: "acquirer", slug: "ecit-as" }],
     });
 
@@ -132,6 +157,7 @@ describe("Zod validation middleware", () => {
 
     expect(res.status).toBe(201);
     expect(res.body.name).toBe("ECIT AS");
+    expect(statements(client)[1][0]).toContain("INSERT INTO audit_events");
   });
 
   it("rejects scenario with invalid deal parameters", async () => {
@@ -217,9 +243,10 @@ describe("Companies CRUD", () => {
   });
 
   it("updates a company", async () => {
-    vi.mocked(pool.query).mockResolvedValueOnce({
-      rows: [{ id: 1, name: "Updated Name", description: "Updated" }],
-    } as never);
+    const client = mockTransaction(
+      { rows: [{ id: 1, name: "ECIT AS", description: "Old" }] },
+      { rows: [{ id: 1, name: "Updated Name", description: "Updated" }] },
+    );
 
     const res = await request(app)
       .put("/api/companies/1")
@@ -228,10 +255,32 @@ describe("Companies CRUD", () => {
 
     expect(res.status).toBe(200);
     expect(res.body.name).toBe("Updated Name");
+
+    // Audit event with the before/after diff, committed with the update
+    const [auditSql, params] = statements(client)[2];
+    expect(auditSql).toContain("INSERT INTO audit_events");
+    expect(client.query.mock.calls.at(-1)?.[0]).toBe("COMMIT");
+    expect(params.slice(0, 5)).toEqual([1, "company", 1, "Updated Name", "update"]);
+    expect(JSON.parse(params[5] as string)).toEqual([
+      { field: "name", from: "ECIT AS", to: "Updated Name" },
+      { field: "description", from: "Old", to: "Updated" },
+    ]);
+  });
+
+  it("returns 404 when updating a missing company", async () => {
+    const client = mockTransaction({ rows: [] });
+
+    const res = await request(app)
+      .put("/api/companies/999")
+      .set("Authorization", bearer(token))
+      .send({ name: "Updated Name" });
+
+    expect(res.status).toBe(404);
+    expect(statements(client)).toHaveLength(1);
   });
 
   it("deletes a company", async () => {
-    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 1 }] } as never);
+    const client = mockTransaction({ rows: [{ id: 1, name: "ECIT AS" }] });
 
     const res = await request(app)
       .delete("/api/companies/1")
@@ -239,6 +288,27 @@ describe("Companies CRUD", () => {
 
     expect(res.status).toBe(200);
     expect(res.body.message).toBe("Company deleted");
+
+    const [auditSql, params] = statements(client)[1];
+    expect(auditSql).toContain("INSERT INTO audit_events");
+    expect(params.slice(3, 5)).toEqual(["ECIT AS", "delete"]);
+  });
+
+  it("rolls the change back when the audit insert fails", async () => {
+    const client = mockTransaction({ rows: [{ id: 1, name: "ECIT AS" }] });
+    client.query.mockImplementationOnce(async () => ({ rows: [] })) // BEGIN
+      .mockImplementationOnce(async () => ({ rows: [{ id: 1, name: "ECIT AS" }] }))
+      .mockImplementationOnce(async () => { throw new Error("audit insert failed"); });
+
+    const res = await request(app)
+      .delete("/api/companies/1")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(500);
+    const sqls = client.query.mock.calls.map((c) => String(c[0]));
+    expect(sqls).toContain("ROLLBACK");
+    expect(sqls).not.toContain("COMMIT");
+    expect(client.release).toHaveBeenCalled();
   });
 });
 
@@ -254,9 +324,9 @@ describe("Models", () => {
   });
 
   it("creates a model with valid data", async () => {
-    vi.mocked(pool.query).mockResolvedValueOnce({
+    mockTransaction({
       rows: [{ id: 10, company_id: 1, name: "Base Case", model_type: "base" }],
-    } as never);
+    });
 
     const res = await request(app)
       .post("/api/models")
@@ -280,9 +350,16 @@ describe("Models", () => {
     // Mock model existence check
     vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 10 }] } as never);
 
-    // Mock pool.connect() for transaction
+    // Mock pool.connect() for transaction; the period snapshot before the
+    // upsert is empty, the one after holds the new periods
+    let snapshots = 0;
     const mockClient = {
-      query: vi.fn().mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 }),
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.startsWith("SELECT * FROM financial_periods")) {
+          return { rows: snapshots++ === 0 ? [] : [{ period_label: "2024A", revenue_total: "100" }] };
+        }
+        return { rows: [{ id: 1 }], rowCount: 1 };
+      }),
       release: vi.fn(),
     };
     vi.mocked(pool.connect).mockResolvedValueOnce(mockClient as never);
@@ -299,6 +376,12 @@ describe("Models", () => {
 
     expect(res.status).toBe(201);
     expect(mockClient.release).toHaveBeenCalled();
+
+    // The period diff is audited inside the same transaction
+    const sqls = mockClient.query.mock.calls.map((c) => String(c[0]));
+    const auditIdx = sqls.findIndex((q) => q.includes("INSERT INTO audit_events"));
+    expect(auditIdx).toBeGreaterThan(-1);
+    expect(auditIdx).toBeLessThan(sqls.indexOf("COMMIT"));
   });
 
   it("rejects empty periods array", async () => {
@@ -323,14 +406,15 @@ describe("Scenarios", () => {
   });
 
   it("creates a scenario", async () => {
-    vi.mocked(pool.query).mockResolvedValueOnce({
+    // Insert, then the version snapshot (latest-version lookup + insert of version 1)
+    const client = mockTransaction({
       rows: [{
         id: 1,
         name: "Test Acquisition",
         acquirer_model_id: 10,
         status: "draft",
       }],
-    } as never);
+    });
 
     const res = await request(app)
       .post("/api/scenarios")
@@ -339,6 +423,12 @@ describe("Scenarios", () => {
 
     expect(res.status).toBe(201);
     expect(res.body.name).toBe("Test Acquisition");
+
+    const [versionSql, versionParams] = statements(client)[2];
+    expect(versionSql).toContain("INSERT INTO scenario_versions");
+    expect(versionParams[1]).toBe(1);
+    expect(versionParams[5]).toEqual([10]);
+    expect(statements(client)[3][0]).toContain("INSERT INTO audit_events");
   });
 
   it("rejects scenario without name", async () => {
@@ -350,6 +440,96 @@ describe("Scenarios", () => {
     expect(res.status).toBe(400);
   });
 
+  it("clones a scenario with its deal returns as a branch of the source", async () => {
+    const client = {
+      query: vi.fn().mockImplementation(async (sql: string) => {
+        if (sql.startsWith("SELECT name, description")) return { rows: [{ name: "Base case", description: null }] };
+        if (sql.includes("INSERT INTO acquisition_scenarios")) {
+          return { rows: [{ id: 2, name: "Base case (copy)", parent_scenario_id: 1, status: "draft" }] };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValueOnce(client as never);
+
+    const res = await request(app)
+      .post("/api/scenarios/1/clone")
+      .set("Authorization", bearer(token))
+      .send({});
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ id: 2, parent_scenario_id: 1 });
+
+    const calls = client.query.mock.calls.map((c) => [String(c[0]), c[1]] as const);
+    const insert = calls.find(([sql]) => sql.includes("INSERT INTO acquisition_scenarios"))!;
+    expect(insert[0]).toContain("deal_parameters");
+    expect(insert[1]).toEqual(["1", "Base case (copy)", null, 1]);
+    expect(calls.find(([sql]) => sql.includes("INSERT INTO deal_returns"))?.[1]).toEqual(["1", 2]);
+    expect(calls.map(([sql]) => sql)).toContain("COMMIT");
+  });
+
+  it("returns 404 when cloning a missing scenario", async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [] }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValueOnce(client as never);
+
+    const res = await request(app)
+      .post("/api/scenarios/999/clone")
+      .set("Authorization", bearer(token))
+      .send({ name: "What-if" });
+
+    expect(res.status).toBe(404);
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("returns 404 for versions of a missing scenario", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/999/versions")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("lists versions newest first with changed fields", async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] } as never)
+      .mockResolvedValueOnce({
+        rows: [
+          { version_number: 1, snapshot: { name: "A", deal_parameters: { price_paid: 100 } }, created_by_name: "Admin" },
+          { version_number: 2, snapshot: { name: "A", deal_parameters: { price_paid: 120 } }, created_by_name: "Admin" },
+        ],
+      } as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/1/versions")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((v: { version_number: number }) => v.version_number)).toEqual([2, 1]);
+    expect(res.body[0].changed_fields).toEqual(["deal_parameters.price_paid"]);
+    expect(res.body[0]).not.toHaveProperty("snapshot");
+  });
+
+  it("rejects version diff without from/to", async () => {
+    const res = await request(app)
+      .get("/api/scenarios/1/versions/diff?from=1")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 when restoring a missing version", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as never);
+
+    const res = await request(app)
+      .post("/api/scenarios/1/versions/7/restore")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(404);
+  });
+
   it("validates calculate-returns requires tax_rate and exit_multiples", async () => {
     const res = await request(app)
       .post("/api/scenarios/1/calculate-returns")
@@ -359,6 +539,561 @@ describe("Scenarios", () => {
     expect(res.status).toBe(400);
     expect(res.body.details.some((d: { path: string }) => d.path.includes("tax_rate"))).toBe(true);
   });
+
+  it("rejects contribution analysis with a non-positive price factor", async () => {
+    const res = await request(app)
+      .post("/api/scenarios/1/contribution")
+      .set("Authorization", bearer(token))
+      .send({ base_params: { tax_rate: 0.22, exit_multiples: [10] }, price_factors: [1, 0] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for contribution analysis of a missing scenario", async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never);
+
+    const res = await request(app)
+      .post("/api/scenarios/999/contribution")
+      .set("Authorization", bearer(token))
+      .send({ base_params: { tax_rate: 0.22, exit_multiples: [10] } });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects EPS accretion with a fractional PPA amortisation period", async () => {
+    const res = await request(app)
+      .post("/api/scenarios/1/eps-accretion")
+      .set("Authorization", bearer(token))
+      .send({ base_params: { tax_rate: 0.22, exit_multiples: [10], ppa_intangibles: 100, ppa_amortisation_years: 2.5 } });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for EPS accretion of a missing scenario", async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never);
+
+    const res = await request(app)
+      .post("/api/scenarios/999/eps-accretion")
+      .set("Authorization", bearer(token))
+      .send({ base_params: { tax_rate: 0.22, exit_multiples: [10] } });
+
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 404 for the variance report of a missing scenario", async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/999/variance")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(404);
+  });
+
+  it("plans the variance on the target model of the IC version", async () => {
+    const period = (modelId: number, year: number, ebitda: string, type = "forecast") => ({
+      model_id: modelId, period_date: new Date(`${year}-12-31`), period_label: `${year}`,
+      period_type: type, period_granularity: "annual", revenue_total: "500", ebitda_total: ebitda,
+    });
+    const periods: Record<number, unknown[]> = {
+      10: [period(10, 2026, "300")],
+      20: [period(20, 2026, "100")],
+      21: [period(21, 2026, "80")],
+      30: [period(30, 2026, "90", "actual")],
+    };
+    vi.mocked(pool.query).mockImplementation((async (sql: string, params?: unknown[]) => {
+      if (sql.includes("FROM acquisition_scenarios s")) {
+        return { rows: [{
+          id: 1, acquirer_model_id: 10, target_model_id: 20, actuals_model_id: 30, ic_version: 1,
+          acquisition_date: "2025-06-30", acquirer_currency: "NOK", target_currency: "NOK",
+        }] };
+      }
+      if (sql.includes("FROM scenario_versions v")) {
+        return { rows: [{ version_number: 1, snapshot: { target_model_id: 21 }, created_at: "2025-05-01" }] };
+      }
+      if (sql.includes("SELECT fm.id, c.currency")) return { rows: [{ id: 10, currency: "NOK" }, { id: 21, currency: "NOK" }] };
+      if (sql.includes("SELECT m.name, c.currency")) return { rows: [{ name: "Target actuals", currency: "NOK" }] };
+      if (sql.includes("FROM financial_periods")) return { rows: periods[params![0] as number] ?? [] };
+      return { rows: [] };
+    }) as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/1/variance")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    expect(res.body.ic_version).toBe(1);
+    expect(res.body.periods[0].ebitda).toMatchObject({ plan: 80, actual: 90, variance: 10 });
+  });
+
+  it("plans the variance on the periods stored with the IC version", async () => {
+    const period = (modelId: number, year: number, ebitda: string, type = "forecast") => ({
+      model_id: modelId, period_date: new Date(`${year}-12-31`), period_label: `${year}`,
+      period_type: type, period_granularity: "annual", revenue_total: "500", ebitda_total: ebitda,
+    });
+    // Target periods edited after IC: the live model says 60, the IC version stored 80
+    const live: Record<number, unknown[]> = {
+      10: [period(10, 2026, "300")],
+      20: [period(20, 2026, "60")],
+      30: [period(30, 2026, "90", "actual")],
+    };
+    const stored = [
+      { model_id: 10, period_date: "2026-12-31", period_label: "2026", period_type: "forecast",
+        period_granularity: "annual", revenue_total: 500, ebitda_total: 300 },
+      { model_id: 20, period_date: "2026-12-31", period_label: "2026", period_type: "forecast",
+        period_granularity: "annual", revenue_total: 500, ebitda_total: 80 },
+    ];
+    vi.mocked(pool.query).mockImplementation((async (sql: string, params?: unknown[]) => {
+      if (sql.includes("FROM acquisition_scenarios s")) {
+        return { rows: [{
+          id: 1, acquirer_model_id: 10, target_model_id: 20, actuals_model_id: 30, ic_version: 1,
+          acquisition_date: "2025-06-30", acquirer_currency: "NOK", target_currency: "NOK",
+        }] };
+      }
+      if (sql.includes("FROM scenario_versions v")) {
+        return { rows: [{ version_number: 1, snapshot: { target_model_id: 20 }, created_at: "2025-05-01" }] };
+      }
+      if (sql.includes("SELECT periods FROM scenario_versions")) return { rows: [{ periods: stored }] };
+      if (sql.includes("SELECT fm.id, c.currency")) return { rows: [{ id: 10, currency: "NOK" }, { id: 20, currency: "NOK" }] };
+      if (sql.includes("SELECT m.name, c.currency")) return { rows: [{ name: "Target actuals", currency: "NOK" }] };
+      if (sql.includes("FROM financial_periods")) return { rows: live[params![0] as number] ?? [] };
+      return { rows: [] };
+    }) as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/1/variance")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    expect(res.body.periods[0].ebitda).toMatchObject({ plan: 80, actual: 90, variance: 10 });
+  });
+
+  it("requires between two and five scenarios to compare", async () => {
+    const one = await request(app)
+      .get("/api/scenarios/comparison?ids=1")
+      .set("Authorization", bearer(token));
+    const six = await request(app)
+      .get("/api/scenarios/comparison/export-excel?ids=1,2,3,4,5,6")
+      .set("Authorization", bearer(token));
+    const malformed = await request(app)
+      .get("/api/scenarios/comparison/export-ppt?ids=1,abc")
+      .set("Authorization", bearer(token));
+
+    expect(one.status).toBe(400);
+    expect(six.status).toBe(400);
+    expect(malformed.status).toBe(400);
+  });
+
+  it("returns 404 when a compared scenario is missing", async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as never);
+
+    const res = await request(app)
+      .get("/api/scenarios/comparison?ids=1,999&exit_multiple=12")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe("Scenario not found");
+  });
+
+  it("rejects a non-integer IC version on scenario update", async () => {
+    const res = await request(app)
+      .put("/api/scenarios/1")
+      .set("Authorization", bearer(token))
+      .send({ ic_version: 1.5 });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// Excel import — dry run + selection
+// ══════════════════════════════════════════════════════════════════
+
+describe("Excel import", () => {
+  const token = authToken();
+
+  async function workbook(): Promise<Buffer> {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Base");
+    ws.addRow(["", 2025, 2026]);
+    ws.addRow(["Revenue", 500, 550]);
+    ws.addRow(["EBITDA", 60, 70]);
+    ws.addRow(["Headcount", 40, 45]);
+    return Buffer.from(await wb.xlsx.writeBuffer());
+  }
+
+  beforeEach(() => {
+    vi.mocked(pool.query).mockReset();
+    vi.mocked(pool.connect).mockReset();
+  });
+
+  it("previews a dry run without writing", async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "Target Co" }] } as never)
+      .mockResolvedValueOnce({ rows: [] } as never) // label rules
+      .mockResolvedValueOnce({ rows: [{ id: 10, name: "Base" }] } as never)
+      .mockResolvedValueOnce({
+        rows: [{ period_date: new Date(2025, 11, 31), period_label: "2025", revenue_total: "480.0", ebitda_total: "60.0" }],
+      } as never);
+
+    const res = await request(app)
+      .post("/api/import/excel/1?dry_run=true")
+      .set("Authorization", bearer(token))
+      .attach("file", await workbook(), "Base.xlsx");
+
+    expect(res.status).toBe(200);
+    expect(res.body.dry_run).toBe(true);
+    const [model] = res.body.models;
+    expect(model).toMatchObject({ name: "Base", action: "update", model_id: 10, new_periods: 1 });
+    expect(model.year_columns.map((c: { year: number }) => c.year)).toEqual([2025, 2026]);
+    expect(model.unmapped_labels).toEqual(["Headcount"]);
+    expect(model.changes).toContainEqual({
+      period_date: "2025-12-31", period_label: "2025", field: "revenue_total", from: 480, to: 500,
+    });
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it("applies saved label rules before the built-in mappings", async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "Target Co" }] } as never)
+      .mockResolvedValueOnce({ rows: [{ pattern: "Headcount", match_type: "exact", field_key: "share_count" }] } as never)
+      .mockResolvedValueOnce({ rows: [] } as never);
+
+    const res = await request(app)
+      .post("/api/import/excel/1?dry_run=true")
+      .set("Authorization", bearer(token))
+      .attach("file", await workbook(), "Base.xlsx");
+
+    expect(res.status).toBe(200);
+    const [model] = res.body.models;
+    expect(model.unmapped_labels).toEqual([]);
+    expect(model.fields).toContain("share_count");
+    expect(vi.mocked(pool.query).mock.calls[1][1]).toEqual(["1"]);
+  });
+
+  it("rejects a malformed selection before writing", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 1, name: "Target Co" }] } as never);
+
+    const res = await request(app)
+      .post("/api/import/excel/1")
+      .set("Authorization", bearer(token))
+      .field("selection", JSON.stringify({ models: [{ name: "Base", fields: ["bogus"] }] }))
+      .attach("file", await workbook(), "Base.xlsx");
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain("bogus");
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// Label mapping rules
+// ══════════════════════════════════════════════════════════════════
+
+describe("Label rules", () => {
+  const token = authToken();
+
+  beforeEach(() => {
+    vi.mocked(pool.query).mockReset();
+    vi.mocked(pool.connect).mockReset();
+  });
+
+  it("creates a company-scoped rule", async () => {
+    const client = mockTransaction(
+      { rows: [{ id: 1 }] },
+      { rows: [{ id: 5, company_id: 1, pattern: "Headcount", match_type: "exact", field_key: "share_count" }] },
+    );
+
+    const res = await request(app)
+      .post("/api/label-rules")
+      .set("Authorization", bearer(token))
+      .send({ pattern: "Headcount", field_key: "share_count", company_id: 1 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.id).toBe(5);
+    const [sql, params] = statements(client)[1];
+    expect(sql).toContain("INSERT INTO label_mapping_rules");
+    expect(params).toEqual([1, "Headcount", "exact", "share_count", 1]);
+
+    // Audited as a label rule named by its pattern
+    const [auditSql, auditParams] = statements(client)[2];
+    expect(auditSql).toContain("INSERT INTO audit_events");
+    expect(auditParams.slice(0, 5)).toEqual([1, "label_rule", 5, "Headcount", "create"]);
+  });
+
+  it("rejects unknown fields and invalid or unsafe regexes", async () => {
+    const bad = await request(app)
+      .post("/api/label-rules")
+      .set("Authorization", bearer(token))
+      .send({ pattern: "Headcount", field_key: "password_hash" });
+    expect(bad.status).toBe(400);
+
+    const regex = await request(app)
+      .post("/api/label-rules")
+      .set("Authorization", bearer(token))
+      .send({ pattern: "^head(", match_type: "regex", field_key: "share_count" });
+    expect(regex.status).toBe(400);
+
+    const nested = await request(app)
+      .post("/api/label-rules")
+      .set("Authorization", bearer(token))
+      .send({ pattern: "^(head\\w*)+$", match_type: "regex", field_key: "share_count" });
+    expect(nested.status).toBe(400);
+    expect(nested.body.error).toMatch(/nested quantifiers/);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 for a duplicate pattern", async () => {
+    mockTransaction({ rows: [] });
+
+    const res = await request(app)
+      .post("/api/label-rules")
+      .set("Authorization", bearer(token))
+      .send({ pattern: "Headcount", field_key: "share_count" });
+
+    expect(res.status).toBe(409);
+  });
+
+  it("lists the rules that apply to a company", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 5 }] } as never);
+
+    const res = await request(app)
+      .get("/api/label-rules?company_id=1")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0];
+    expect(sql).toContain("r.company_id = $1 OR r.company_id IS NULL");
+    expect(params).toEqual([1]);
+  });
+
+  it("returns 404 when deleting a missing rule", async () => {
+    mockTransaction({ rows: [] });
+
+    const res = await request(app)
+      .delete("/api/label-rules/999")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// Comparables
+// ══════════════════════════════════════════════════════════════════
+
+describe("Comparables", () => {
+  const token = authToken();
+
+  beforeEach(() => {
+    vi.mocked(pool.query).mockReset();
+    vi.mocked(pool.connect).mockReset();
+  });
+
+  it("filters the list and adds derived multiples", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [{ id: 1, name: "Peer A", ev: "1200.00", ebitda_ltm: "100.00", revenue_ltm: null }],
+    } as never);
+
+    const res = await request(app)
+      .get("/api/comparables?kind=trading&sector=IT&from=2023-01-01")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    expect(res.body[0]).toMatchObject({ ev_ebitda_ltm: 12, ev_revenue_ltm: null });
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0];
+    expect(sql).toContain("c.kind = $1 AND LOWER(c.sector) = LOWER($2) AND c.as_of_date >= $3::date");
+    expect(params).toEqual(["trading", "IT", "2023-01-01"]);
+  });
+
+  it("rejects a malformed filter", async () => {
+    const res = await request(app)
+      .get("/api/comparables/stats?from=yesterday")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(400);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it("returns quartile stats for a hand-picked comp set", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({
+      rows: [{ ev: "1000", ebitda_ltm: "100" }, { ev: "1200", ebitda_ltm: "100" }, { ev: "1500", ebitda_ltm: "100" }],
+    } as never);
+
+    const res = await request(app)
+      .get("/api/comparables/stats?ids=1,2,3")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    expect(res.body.multiples.ev_ebitda_ltm).toMatchObject({ count: 3, q1: 11, median: 12, q3: 13.5 });
+    expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([[1, 2, 3]]);
+  });
+
+  it("imports valid CSV rows and reports the rest", async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [{ inserted: true }] }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValueOnce(client as never);
+    const csv = "name,date,ev,ltm ebitda\nPeer A,2024-12-31,1200,100\nPeer B,,900,80\n";
+
+    const res = await request(app)
+      .post("/api/comparables/import?kind=trading")
+      .set("Authorization", bearer(token))
+      .attach("file", Buffer.from(csv), "peers.csv");
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ inserted: 1, updated: 0, errors: [{ row: 2 }] });
+    const upsert = client.query.mock.calls.find(([sql]) => String(sql).includes("INSERT INTO comparables"));
+    expect(upsert?.[1]).toEqual(["trading", "Peer A", null, null, null, "2024-12-31", null, 1200, null, null, 100, null, "peers.csv", 1]);
+    const audit = client.query.mock.calls.find(([sql]) => String(sql).includes("INSERT INTO audit_events"));
+    expect((audit?.[1] as unknown[]).slice(1, 2)).toEqual(["comparable"]);
+    expect((audit?.[1] as unknown[])[4]).toBe("import");
+  });
+
+  it("audits a deleted comparable in the same transaction", async () => {
+    const client = mockTransaction({ rows: [{ id: 3, name: "Peer A", kind: "trading" }] });
+
+    const res = await request(app)
+      .delete("/api/comparables/3")
+      .set("Authorization", bearer(token));
+
+    expect(res.status).toBe(200);
+    const [auditSql, params] = statements(client)[1];
+    expect(auditSql).toContain("INSERT INTO audit_events");
+    expect(params.slice(1, 5)).toEqual(["comparable", 3, "Peer A", "delete"]);
+    expect(client.query.mock.calls.at(-1)?.[0]).toBe("COMMIT");
+  });
+
+  it("rejects a file without valid rows", async () => {
+    const res = await request(app)
+      .post("/api/comparables/import")
+      .set("Authorization", bearer(token))
+      .attach("file", Buffer.from("name,date,ev\nPeer A,2024-12-31,1200\n"), "peers.csv");
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].error).toContain("kind");
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// Role guard — viewers are read-only
+// ══════════════════════════════════════════════════════════════════
+
+describe("Role guard", () => {
+  const viewer = authToken(3, "viewer");
+  const analyst = authToken(2, "analyst");
+
+  beforeEach(() => {
+    vi.mocked(pool.query).mockReset();
+    vi.mocked(pool.connect).mockReset();
+  });
+
+  const mutatingRoutes: [string, string, Record<string, unknown>?][] = [
+    ["post", "/api/companies", { name: "X", company_type: "target" }],
+    ["put", "/api/companies/1", { name: "X" }],
+    ["put", "/api/companies/1/assumptions", {}],
+    ["delete", "/api/companies/1"],
+    ["post", "/api/models", { company_id: 1, name: "Budget" }],
+    ["put", "/api/models/1", { name: "Budget" }],
+    ["delete", "/api/models/1"],
+    ["post", "/api/models/1/periods", { periods: [] }],
+    ["post", "/api/scenarios", { name: "X", acquirer_model_id: 1 }],
+    ["put", "/api/scenarios/1", { name: "X" }],
+    ["delete", "/api/scenarios/1"],
+    ["post", "/api/scenarios/1/calculate-returns", { deal_parameters: {} }],
+    ["post", "/api/scenarios/1/returns", { returns: [] }],
+    ["post", "/api/scenarios/1/generate-pro-forma"],
+    ["post", "/api/scenarios/1/versions/1/restore"],
+    ["post", "/api/scenarios/1/clone", {}],
+    ["post", "/api/import/json/1"],
+    ["post", "/api/import/csv/1"],
+    ["post", "/api/import/excel/1"],
+    ["post", "/api/label-rules", { pattern: "Headcount", field_key: "share_count" }],
+    ["delete", "/api/label-rules/1"],
+    ["post", "/api/comparables", { kind: "trading", name: "Peer", as_of_date: "2024-12-31", ev: 100 }],
+    ["post", "/api/comparables/import"],
+    ["delete", "/api/comparables/1"],
+  ];
+
+  it.each(mutatingRoutes)("viewer gets 403 on %s %s", async (method, path, body) => {
+    const req = (request(app) as any)[method](path).set("Authorization", bearer(viewer));
+    const res = body ? await req.send(body) : await req;
+
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("Insufficient permissions");
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it("viewer can still read", async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as never);
+
+    const res = await request(app)
+      .get("/api/companies")
+      .set("Authorization", bearer(viewer));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("analyst passes the guard", async () => {
+    mockTransaction({ rows: [] });
+
+    const res = await request(app)
+      .delete("/api/companies/999")
+      .set("Authorization", bearer(analyst));
+
+    expect(res.status).toBe(404);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// Audit log — admin only
+// ══════════════════════════════════════════════════════════════════
+
+describe("Audit log", () => {
+  const admin = authToken(1, "admin");
+  const analyst = authToken(2, "analyst");
+
+  beforeEach(() => {
+    vi.mocked(pool.query).mockReset();
+  });
+
+  it("rejects non-admins", async () => {
+    const res = await request(app)
+      .get("/api/audit")
+      .set("Authorization", bearer(analyst));
+
+    expect(res.status).toBe(403);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unknown entity_type", async () => {
+    const res = await request(app)
+      .get("/api/audit?entity_type=invoice")
+      .set("Authorization", bearer(admin));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("lists filtered events with the total count", async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({
+        rows: [{ id: 5, entity_type: "scenario", entity_id: 1, action: "update", changes: [], user_name: "Admin" }],
+      } as never)
+      .mockResolvedValueOnce({ rows: [{ total: "1" }] } as never);
+
+    const res = await request(app)
+      .get("/api/audit?entity_type=scenario&user_id=1&from=2026-01-01&to=2026-01-31")
+      .set("Authorization", bearer(admin));
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.events).toHaveLength(1);
+
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0];
+    expect(String(sql)).toContain("e.entity_type = $1 AND e.user_id = $2");
+    expect(params).toEqual(["scenario", 1, "2026-01-01", "2026-01-31", 50, 0]);
+  });
 });
 
 // ══════════════════════════════════════════════════════════════════
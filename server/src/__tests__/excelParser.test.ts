@@ -11,10 +11,17 @@
 
 import { describe, it, expect } from "vitest";
 import ExcelJS from "exceljs";
-import { mapLabelToField, normalizeLabel, type ParseContext } from "../services/excelParser/labelMapping.js";
+import {
+  mapLabelToField,
+  normalizeLabel,
+  compileLabelRules,
+  isSafeRuleRegex,
+  MAX_RULE_REGEX_LENGTH,
+  type ParseContext,
+} from "../services/excelParser/labelMapping.js";
 import { detectSheetType, mergeMultiSheetModels } from "../services/excelParser/sheetMerge.js";
 import { createEmptyPeriod, parseBlock } from "../services/excelParser/blockParser.js";
-import { findYearHeader, findLabelColumn, findNameBlocks, findSectionBlocks } from "../services/excelParser/sheetDetection.js";
+import { findYearHeader, findLabelColumn, findNameBlocks, findSectionBlocks, parsePeriodHeader } from "../services/excelParser/sheetDetection.js";
 import { parseExcelBuffer } from "../services/excelParser/parseExcelBuffer.js";
 import type { ParsedModelBlock, PeriodYear, SheetType } from "../services/excelParser/types.js";
 
@@ -167,6 +174,27 @@ describe("mapLabelToField", () => {
     expect(mapLabelToField("EQV (post MIP, TSO, ExW)")).toBe("eqv_post_dilution");
   });
 
+  // ── Balance sheet ──
+  it("maps balance sheet labels", () => {
+    expect(mapLabelToField("Trade receivables")).toBe("trade_receivables");
+    expect(mapLabelToField("Kundefordringer")).toBe("trade_receivables");
+    expect(mapLabelToField("Accounts payable")).toBe("trade_payables");
+    expect(mapLabelToField("Leverandørgjeld")).toBe("trade_payables");
+    expect(mapLabelToField("WIP")).toBe("work_in_progress");
+    expect(mapLabelToField("Igangværende arbeid")).toBe("work_in_progress");
+    expect(mapLabelToField("Deferred revenue")).toBe("deferred_revenue");
+    expect(mapLabelToField("Forskuddsbetalte inntekter")).toBe("deferred_revenue");
+    expect(mapLabelToField("Cash and cash equivalents")).toBe("cash");
+    expect(mapLabelToField("Bankinnskudd")).toBe("cash");
+    expect(mapLabelToField("Interest-bearing debt")).toBe("gross_debt");
+    expect(mapLabelToField("Rentebærende gjeld")).toBe("gross_debt");
+    expect(mapLabelToField("Lease liabilities")).toBe("lease_liabilities");
+    expect(mapLabelToField("Leasinggjeld")).toBe("lease_liabilities");
+    // Net debt and cash conversion keep their own fields
+    expect(mapLabelToField("Net interest bearing debt")).toBe("nibd");
+    expect(mapLabelToField("Cash conversion")).toBe("cash_conversion");
+  });
+
   // ── Growth ──
   it("maps growth labels", () => {
     expect(mapLabelToField("Organic growth")).toBe("organic_growth");
@@ -204,6 +232,57 @@ describe("mapLabelToField", () => {
 
 // ─── Sheet Type Detection ─────────────────────────────────
 
+describe("compileLabelRules", () => {
+  it("consults user rules before the built-in mappings", () => {
+    const rules = compileLabelRules([
+      { pattern: "Headcount", matchType: "exact", field: "share_count" },
+      { pattern: "Revenue", matchType: "exact", field: "revenue_other" },
+    ]);
+    expect(mapLabelToField("headcount:", undefined, rules)).toBe("share_count");
+    expect(mapLabelToField("Revenue", undefined, rules)).toBe("revenue_other");
+    expect(mapLabelToField("Revenue")).toBe("revenue_total");
+  });
+
+  it("matches exact patterns on the normalized label only", () => {
+    const rules = compileLabelRules([{ pattern: "Sales (EUR)", matchType: "exact", field: "revenue_total" }]);
+    expect(mapLabelToField("sales  (eur)", undefined, rules)).toBe("revenue_total");
+    expect(mapLabelToField("Sales (EUR) adjusted", undefined, rules)).toBeNull();
+  });
+
+  it("tests regex patterns case-insensitively and skips invalid ones", () => {
+    const rules = compileLabelRules([
+      { pattern: "^head(", matchType: "regex", field: "nibd" },
+      { pattern: "^FTE", matchType: "regex", field: "share_count" },
+    ]);
+    expect(rules).toHaveLength(1);
+    expect(mapLabelToField("FTEs year end", undefined, rules)).toBe("share_count");
+  });
+
+  it("skips regex patterns that could backtrack catastrophically", () => {
+    expect(isSafeRuleRegex("^(fte|headcount)s?\\b.*")).toBe(true);
+    expect(isSafeRuleRegex("^(?:sales|revenue)\\s+\\(eur\\)")).toBe(true);
+    expect(isSafeRuleRegex("[(a+)]+")).toBe(true);
+    expect(isSafeRuleRegex("^(a+)+$")).toBe(false);
+    expect(isSafeRuleRegex("(.*)*x")).toBe(false);
+    expect(isSafeRuleRegex("((ab)*c){2,}")).toBe(false);
+    expect(isSafeRuleRegex("^(a?)+$")).toBe(false);
+    expect(isSafeRuleRegex("^(?:sales|revenue)(\\s+total)?$")).toBe(true);
+    expect(isSafeRuleRegex("^(?:x\\s)+y")).toBe(true);
+    expect(isSafeRuleRegex("a".repeat(MAX_RULE_REGEX_LENGTH + 1))).toBe(false);
+
+    const rules = compileLabelRules([{ pattern: "^(\\w+\\s?)*$", matchType: "regex", field: "nibd" }]);
+    expect(rules).toHaveLength(0);
+  });
+
+  it("skips repeated alternations with overlapping branches", () => {
+    expect(isSafeRuleRegex("^(a|aa)+$")).toBe(false);
+    expect(isSafeRuleRegex("(\\w|\\d)+$")).toBe(false);
+    expect(isSafeRuleRegex("^((a|b)c)*$")).toBe(false);
+    expect(isSafeRuleRegex("^(fte|headcount)$")).toBe(true);
+    expect(compileLabelRules([{ pattern: "^(a|aa)+$", matchType: "regex", field: "nibd" }])).toHaveLength(0);
+  });
+});
+
 describe("detectSheetType", () => {
   it("detects P&L sheets", () => {
     expect(detectSheetType("P&L")).toBe("pnl");
@@ -448,6 +527,53 @@ describe("findYearHeader", () => {
     expect(result).not.toBeNull();
     expect(result!.yearCols).toHaveLength(1);
   });
+
+  it("detects quarter headers and drops the year total column", async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Test");
+    ws.addRow(["", "Q1 2025", "Q2 2025", "Q3 2025", "Q4 2025", "FY2025"]);
+    ws.addRow(["Revenue", 100, 110, 120, 130, 460]);
+
+    const result = findYearHeader(ws, 1, 2);
+    expect(result!.granularity).toBe("quarterly");
+    expect(result!.yearCols.map((yc) => yc.month)).toEqual([3, 6, 9, 12]);
+  });
+
+  it("detects month headers", async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Test");
+    ws.addRow(["", "Jan-25", "Feb-25", "Mar-25"]);
+    ws.addRow(["Revenue", 30, 32, 35]);
+
+    const result = findYearHeader(ws, 1, 2);
+    expect(result!.granularity).toBe("monthly");
+    expect(result!.yearCols.map((yc) => [yc.year, yc.month])).toEqual([[2025, 1], [2025, 2], [2025, 3]]);
+  });
+
+  it("reads quarter-end dates as quarters and year-end dates as years", async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Test");
+    ws.addRow(["", new Date(2025, 2, 31), new Date(2025, 5, 30), new Date(2025, 8, 30)]);
+    ws.addRow(["", new Date(2024, 11, 31), new Date(2025, 11, 31)]);
+
+    expect(findYearHeader(ws, 1, 1)!.granularity).toBe("quarterly");
+    expect(findYearHeader(ws, 2, 2)!.granularity).toBe("annual");
+  });
+});
+
+describe("parsePeriodHeader", () => {
+  it("reads years, quarters and months in English and Norwegian", () => {
+    expect(parsePeriodHeader("2025B")).toEqual({ year: 2025 });
+    expect(parsePeriodHeader("2025Q3")).toEqual({ year: 2025, month: 9, quarter: true });
+    expect(parsePeriodHeader("1Q26")).toEqual({ year: 2026, month: 3, quarter: true });
+    expect(parsePeriodHeader("Q4-25")).toEqual({ year: 2025, month: 12, quarter: true });
+    expect(parsePeriodHeader("mai 2025")).toEqual({ year: 2025, month: 5 });
+    expect(parsePeriodHeader("Desember 2025")).toEqual({ year: 2025, month: 12 });
+    expect(parsePeriodHeader("2025-03")).toEqual({ year: 2025, month: 3 });
+    expect(parsePeriodHeader("10/2025")).toEqual({ year: 2025, month: 10 });
+    expect(parsePeriodHeader("Revenue")).toBeNull();
+    expect(parsePeriodHeader("Q1 2050")).toBeNull();
+  });
 });
 
 describe("findLabelColumn", () => {
@@ -546,6 +672,35 @@ describe("parseBlock", () => {
     expect(p2025.ebitda_margin).toBe(0.12);
   });
 
+  it("records the detected year columns", async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("P&L");
+    ws.addRow([]);
+    ws.addRow(["", "", 2025, 2026]);
+    ws.addRow(["", "Revenue", 500, 550]);
+
+    const result = parseBlock(ws, 1, 4, "Test Model");
+    expect(result.model!.yearColumns).toEqual([
+      { sheet: "P&L", column: "C", row: 2, year: 2025 },
+      { sheet: "P&L", column: "D", row: 2, year: 2026 },
+    ]);
+  });
+
+  it("parses quarterly management accounts", async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Test");
+    ws.addRow(["", "Q3 2024", "Q4 2024", "Q1 2025"]);
+    ws.addRow(["Revenue", 120, 140, 125]);
+
+    const result = parseBlock(ws, 1, 3, "Test Model");
+    expect(result.model!.periods.map((p) => [p.period_date, p.period_label, p.period_granularity])).toEqual([
+      ["2024-09-30", "Q3 2024", "quarterly"],
+      ["2024-12-31", "Q4 2024", "quarterly"],
+      ["2025-03-31", "Q1 2025", "quarterly"],
+    ]);
+    expect(result.model!.yearColumns![0]).toMatchObject({ year: 2024, period_label: "Q3 2024" });
+  });
+
   it("maps Norwegian labels correctly", async () => {
     const wb = new ExcelJS.Workbook();
     const ws = wb.addWorksheet("Test");
@@ -659,6 +814,14 @@ describe("createEmptyPeriod", () => {
     const p = createEmptyPeriod(2040);
     expect(p.period_type).toBe("forecast");
   });
+
+  it("dates and labels quarter and month periods at the period end", () => {
+    expect(createEmptyPeriod(2024, "quarterly", 6)).toMatchObject({
+      period_date: "2024-06-30", period_label: "Q2 2024", period_type: "actual", period_granularity: "quarterly",
+    });
+    expect(createEmptyPeriod(2024, "monthly", 2)).toMatchObject({ period_date: "2024-02-29", period_label: "Feb 2024" });
+    expect(createEmptyPeriod(2025).period_granularity).toBe("annual");
+  });
 });
 
 // ─── End-to-End Parsing ───────────────────────────────────
@@ -687,6 +850,27 @@ describe("parseExcelBuffer", () => {
     expect(p[0].ebitda_total).toBe(60);
   });
 
+  it("applies user label rules to otherwise unrecognized rows", async () => {
+    const buffer = await createWorkbookBuffer([
+      {
+        name: "Ark1",
+        rows: [
+          ["", 2025, 2026],
+          ["Net sales (EUR)", 500, 550],
+          ["EBITDA", 60, 70],
+          ["Headcount", 40, 45],
+        ],
+      },
+    ]);
+
+    const result = await parseExcelBuffer(buffer, "Rules.xlsx", {
+      labelRules: [{ pattern: "Headcount", matchType: "exact", field: "share_count" }],
+    });
+    const model = result.models[0];
+    expect(model.periods[1].share_count).toBe(45);
+    expect(model.unmappedRows).toEqual([]);
+  });
+
   it("parses Name: block format (ECIT standard)", async () => {
     const buffer = await createWorkbookBuffer([
       {
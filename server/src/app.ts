@@ -8,6 +8,9 @@ import modelRoutes from "./routes/models.js";
 import scenarioRoutes from "./routes/scenarios.js";
 import importRoutes from "./routes/import.js";
 import dashboardRoutes from "./routes/dashboard.js";
+import auditRoutes from "./routes/audit.js";
+import labelRuleRoutes from "./routes/labelRules.js";
+import comparableRoutes from "./routes/comparables.js";
 import { openApiSpec } from "./docs/openapi.js";
 
 const app = express();
@@ -50,6 +53,9 @@ app.use("/api/models", modelRoutes);
 app.use("/api/scenarios", scenarioRoutes);
 app.use("/api/import", importRoutes);
 app.use("/api/dashboard", dashboardRoutes);
+app.use("/api/audit", auditRoutes);
+app.use("/api/label-rules", labelRuleRoutes);
+app.use("/api/comparables", comparableRoutes);
 
 // API documentation
 app.get("/api/docs/openapi.json", (_req, res) => res.json(openApiSpec));
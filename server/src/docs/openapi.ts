@@ -43,6 +43,10 @@ const fileBody = (description: string): OpenAPIV3.RequestBodyObject => ({
 
 const ok = (desc: string) => ({ 200: { description: desc } });
 const created = (desc: string) => ({ 201: { description: desc } });
+const COMPARISON_QUERY: OpenAPIV3.ParameterObject[] = [
+  { name: "ids", in: "query", required: true, description: "2–5 comma-separated scenario IDs", schema: { type: "string" } },
+  { name: "exit_multiple", in: "query", schema: { type: "number" } },
+];
 
 // ── Schemas (derived from Zod definitions in schemas.ts) ───────────
 
@@ -132,6 +136,7 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       period_date: { type: "string" },
       period_label: { type: "string" },
       period_type: { type: "string" },
+      period_granularity: { type: "string", enum: ["annual", "quarterly", "monthly"], default: "annual" },
       revenue_managed_services: { type: "number" },
       revenue_professional_services: { type: "number" },
       revenue_other: { type: "number" },
@@ -163,6 +168,31 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       type: { type: "string", description: "debt | equity | preferred" },
     },
   },
+  SynergyItem: {
+    type: "object",
+    required: ["name", "category", "run_rate", "start_year", "template"],
+    properties: {
+      name: { type: "string" },
+      category: { type: "string", enum: ["it", "premises", "headcount", "procurement", "other"] },
+      run_rate: { type: "number", minimum: 0, description: "Annual cost synergy once fully phased in" },
+      start_year: { type: "integer", description: "First year with any synergy" },
+      template: { type: "string", enum: ["25_50_100", "s_curve", "linear_3", "immediate", "custom"] },
+      custom_phasing: { type: "array", items: { type: "number", minimum: 0, maximum: 1 }, description: "Share of run-rate per year from start_year (custom template); the last value holds" },
+      probability: { type: "number", minimum: 0, maximum: 1, description: "Probability of delivery, decimal (default 1); drives the risk-weighted case" },
+    },
+  },
+  AddOnTarget: {
+    type: "object",
+    required: ["target_model_id", "close_date"],
+    properties: {
+      target_model_id: { type: "integer" },
+      close_date: { type: "string", description: "Completion date (YYYY-MM-DD); the add-on is consolidated from here" },
+      price_paid: { type: "number", minimum: 0, nullable: true, description: "Enterprise value paid; defaults to the Uses total" },
+      sources: { type: "array", items: { $ref: "#/components/schemas/SourceUseItem" } },
+      uses: { type: "array", items: { $ref: "#/components/schemas/SourceUseItem" } },
+      cost_synergies_timeline: { type: "object", additionalProperties: { type: "number" }, description: "Year -> cost synergies from this add-on" },
+    },
+  },
   CreateScenario: {
     type: "object",
     required: ["name", "acquirer_model_id"],
@@ -186,6 +216,13 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       cost_synergies_timeline: { type: "object", additionalProperties: { type: "number" } },
     },
   },
+  CloneScenario: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: 200, description: "Defaults to the source name + \" (copy)\"" },
+      description: { type: "string", maxLength: 2000, description: "Defaults to the source description" },
+    },
+  },
   UpdateScenario: {
     type: "object",
     properties: {
@@ -195,6 +232,30 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       target_model_id: { type: "integer" },
       sources: { type: "array", items: { $ref: "#/components/schemas/SourceUseItem" } },
       uses: { type: "array", items: { $ref: "#/components/schemas/SourceUseItem" } },
+      cost_synergies_timeline: { type: "object", additionalProperties: { type: "number" } },
+      revenue_synergies_timeline: { type: "object", additionalProperties: { type: "number" }, description: "Year -> revenue synergies (before realisation)" },
+      revenue_synergy_margin: { type: "number", minimum: 0, maximum: 1, nullable: true, description: "EBITDA margin earned on revenue synergies, decimal" },
+      synergy_realisation: { type: "object", additionalProperties: { type: "number", minimum: 0, maximum: 1 }, description: "Year -> share of cost and revenue synergies realised, decimal (default 1)" },
+      integration_costs_timeline: { type: "object", additionalProperties: { type: "number", minimum: 0 }, description: "Year -> one-off integration costs, positive; deducted below EBITDA" },
+      synergy_items: { type: "array", items: { $ref: "#/components/schemas/SynergyItem" }, description: "Itemised cost synergies; when set they replace cost_synergies_timeline in calculations" },
+      add_on_targets: { type: "array", items: { $ref: "#/components/schemas/AddOnTarget" }, description: "Further targets in order, each consolidated from its own close date (buy-and-build)" },
+      base_rate_curve: { type: "object", additionalProperties: { type: "number" }, description: "Year -> base rate (NIBOR/EURIBOR), decimal" },
+      interest_margin: { type: "number", minimum: 0, maximum: 1, nullable: true },
+      hedge_ratio: { type: "number", minimum: 0, maximum: 1, nullable: true },
+      swap_rate: { type: "number", nullable: true },
+      reporting_currency: { type: "string", maxLength: 20, nullable: true, description: "Currency unit for pro forma and returns, e.g. NOKm. Null = acquirer company currency" },
+      fx_rates: {
+        type: "object",
+        additionalProperties: {
+          oneOf: [
+            { type: "number", exclusiveMinimum: 0 },
+            { type: "object", additionalProperties: { type: "number", exclusiveMinimum: 0 } },
+          ],
+        },
+        description: "Currency code -> reporting-currency units per unit, flat or per year (e.g. {\"SEK\": 0.98, \"EUR\": {\"2025\": 11.6}})",
+      },
+      actuals_model_id: { type: "integer", nullable: true, description: "Model holding the target's actuals after closing (post-deal variance)" },
+      ic_version: { type: "integer", nullable: true, description: "Scenario version that went to investment committee; its synergies are the plan. Null = current scenario" },
       deal_parameters: { type: "object", additionalProperties: true },
       status: { type: "string" },
     },
@@ -212,6 +273,8 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       nwc_pct_revenue: { type: "number", minimum: 0, maximum: 1 },
       capex_pct_revenue: { type: "number", minimum: 0, maximum: 1 },
       da_pct_revenue: { type: "number", minimum: 0, maximum: 1 },
+      ppa_intangibles: { type: "number", minimum: 0, description: "Purchase price allocated to acquired intangibles (NOKm)" },
+      ppa_amortisation_years: { type: "integer", minimum: 1, maximum: 50, description: "Straight-line PPA amortisation period (default 10)" },
       target_capex_pct_revenue: { type: "number", minimum: 0, maximum: 1 },
       target_nwc_pct_revenue: { type: "number", minimum: 0, maximum: 1 },
       minority_pct: { type: "number", minimum: 0, maximum: 1 },
@@ -223,6 +286,17 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       interest_rate: { type: "number", minimum: 0, maximum: 1 },
       rollover_equity: { type: "number", minimum: 0 },
       cash_sweep_pct: { type: "number", minimum: 0, maximum: 1 },
+      debt_tranches: {
+        type: "array",
+        maxItems: 10,
+        items: { $ref: "#/components/schemas/DebtTranche" },
+        description: "Ordered debt tranches. Replaces net_debt / interest_rate / debt_amortisation in the debt schedule when set.",
+      },
+      base_rate_curve: { type: "object", additionalProperties: { type: "number" }, description: "Year -> base rate. When set, debt pays base + interest_margin instead of interest_rate" },
+      interest_margin: { type: "number", minimum: 0, maximum: 1 },
+      hedge_ratio: { type: "number", minimum: 0, maximum: 1, description: "Share of floating debt swapped to fixed" },
+      swap_rate: { type: "number" },
+      base_rate_shift: { type: "number", description: "Parallel shift of the base-rate curve (sensitivity)" },
       entry_shares: { type: "number" },
       exit_shares: { type: "number" },
       entry_price_per_share: { type: "number" },
@@ -234,10 +308,40 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       existing_warrants_count: { type: "number" },
       existing_warrants_price: { type: "number" },
       dilution_base_shares: { type: "number" },
+      wacc: { type: "number", description: "DCF discount rate (not used in IRR calc)" },
+      terminal_method: { type: "string", enum: ["gordon", "exit_multiple"], description: "DCF terminal value method" },
+      terminal_growth: { type: "number", description: "DCF perpetual growth for Gordon growth" },
+      terminal_multiple: { type: "number", description: "DCF EV/EBITDA terminal multiple (default: middle exit multiple)" },
+      comp_set: {
+        type: "object",
+        description: "Comp set the exit multiple range was filled from (filters as in GET /api/comparables)",
+        properties: {
+          kind: { type: "string", enum: ["trading", "transaction"] },
+          sector: { type: "string" },
+          from: { type: "string", format: "date" },
+          to: { type: "string", format: "date" },
+          ids: { type: "array", items: { type: "integer" } },
+          metric: { type: "string", enum: ["ev_ebitda_ltm", "ev_ebitda_ntm", "ev_revenue_ltm", "ev_revenue_ntm"] },
+        },
+      },
     },
     additionalProperties: true,
     description: "Core financial engine input for deal returns calculation.",
   },
+  DebtTranche: {
+    type: "object",
+    required: ["name", "amount", "interest_rate"],
+    properties: {
+      name: { type: "string", maxLength: 100 },
+      amount: { type: "number", minimum: 0, description: "Drawn balance at entry" },
+      interest_rate: { type: "number", minimum: 0, maximum: 1 },
+      amortisation: { type: "number", minimum: 0, description: "Mandatory repayment per year" },
+      margin: { type: "number", minimum: 0, maximum: 1, description: "Floating margin over the base-rate curve (overrides interest_rate)" },
+      seniority: { type: "integer", minimum: 1, description: "Sweep waterfall rank (1 = most senior)" },
+      sweep_eligible: { type: "boolean", default: true },
+      pik: { type: "boolean", default: false, description: "Interest accrues to the balance instead of being paid in cash" },
+    },
+  },
   CalculateReturns: {
     type: "object",
     required: ["deal_parameters"],
@@ -264,6 +368,119 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       return_case: { type: "string", default: "Kombinert" },
     },
   },
+  Distribution: {
+    type: "object",
+    required: ["type"],
+    properties: {
+      type: { type: "string", enum: ["normal", "triangular", "uniform"] },
+      mean: { type: "number", description: "normal" },
+      sd: { type: "number", minimum: 0, description: "normal" },
+      min: { type: "number", description: "triangular, uniform" },
+      mode: { type: "number", description: "triangular" },
+      max: { type: "number", description: "triangular, uniform" },
+    },
+  },
+  Simulation: {
+    type: "object",
+    required: ["base_params", "variables"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+      variables: {
+        type: "object",
+        description: "Distribution per input: exit_multiple (x), synergy_realisation (share of planned synergies, decimal), ebitda_haircut (share of EBITDA growth lost, decimal), interest_rate (decimal)",
+        properties: {
+          exit_multiple: { $ref: "#/components/schemas/Distribution" },
+          synergy_realisation: { $ref: "#/components/schemas/Distribution" },
+          ebitda_haircut: { $ref: "#/components/schemas/Distribution" },
+          interest_rate: { $ref: "#/components/schemas/Distribution" },
+        },
+      },
+      correlations: {
+        type: "array",
+        maxItems: 6,
+        items: {
+          type: "object",
+          required: ["a", "b", "rho"],
+          properties: { a: { type: "string" }, b: { type: "string" }, rho: { type: "number", minimum: -1, maximum: 1 } },
+        },
+        default: [],
+      },
+      iterations: { type: "integer", minimum: 100, maximum: 10000, default: 2000 },
+      hurdle_rate: { type: "number", default: 0.2, description: "IRR hurdle, decimal" },
+      return_case: { type: "string", default: "Kombinert" },
+      bins: { type: "integer", minimum: 5, maximum: 50, default: 20 },
+      seed: { type: "integer", description: "Fixed seed for a reproducible run" },
+    },
+  },
+  TornadoDelta: {
+    type: "object",
+    required: ["low", "high", "mode"],
+    properties: {
+      low: { type: "number", description: "Signed offset from base, e.g. -1 (x) or -0.1 (relative)" },
+      high: { type: "number" },
+      mode: { type: "string", enum: ["absolute", "relative"] },
+    },
+  },
+  Tornado: {
+    type: "object",
+    required: ["base_params"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+      deltas: {
+        type: "object",
+        description: "Low/high move per parameter (defaults: ±1x exit multiple, ±10 % on amounts, ±1 pp on rates)",
+        additionalProperties: { $ref: "#/components/schemas/TornadoDelta" },
+      },
+      params: { type: "array", items: { type: "string" }, description: "Subset of parameters (default: all)" },
+      return_case: { type: "string", default: "Kombinert" },
+    },
+  },
+  GoalSeek: {
+    type: "object",
+    required: ["base_params", "param", "target"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+      param: { type: "string", description: "Any sensitivity parameter, e.g. price_paid or exit_multiple" },
+      metric: { type: "string", enum: ["irr", "mom", "per_share_irr", "per_share_mom"], default: "irr" },
+      target: { type: "number", description: "Target metric value (decimal IRR or multiple)" },
+      return_case: { type: "string", default: "Kombinert" },
+      exit_multiple: { type: "number", description: "Exit multiple held fixed (default: middle multiple)" },
+      lower: { type: "number", description: "Search range start (default depends on the parameter)" },
+      upper: { type: "number" },
+      tolerance: { type: "number", default: 0.000001 },
+      max_iterations: { type: "integer", minimum: 1, maximum: 200, default: 100 },
+    },
+  },
+  Dcf: {
+    type: "object",
+    required: ["base_params"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+      wacc: { type: "number", description: "Overrides base_params.wacc (default 9%)" },
+      terminal_method: { type: "string", enum: ["gordon", "exit_multiple"], default: "gordon" },
+      terminal_growth: { type: "number", description: "Overrides base_params.terminal_growth (default 2%)" },
+      terminal_multiple: { type: "number", description: "Overrides base_params.terminal_multiple" },
+    },
+  },
+  Contribution: {
+    type: "object",
+    required: ["base_params"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+      price_factors: {
+        type: "array", items: { type: "number" }, minItems: 1, maxItems: 15,
+        description: "Target equity price relative to the deal price (default 0.8–1.2)",
+      },
+      issue_price: { type: "number", description: "Price per new share (default: as in the share tracker, or entry PPS × 1.2 when the deal has no share funding)" },
+    },
+  },
+  EpsAccretion: {
+    type: "object",
+    required: ["base_params"],
+    properties: {
+      base_params: { $ref: "#/components/schemas/DealParameters" },
+    },
+  },
   DealReturnRow: {
     type: "object",
     required: ["return_case", "exit_multiple", "irr", "mom"],
@@ -283,12 +500,50 @@ const schemas: Record<string, OpenAPIV3.SchemaObject> = {
       returns: { type: "array", items: { $ref: "#/components/schemas/DealReturnRow" }, minItems: 1, maxItems: 500 },
     },
   },
+  CreateLabelRule: {
+    type: "object",
+    required: ["pattern", "field_key"],
+    properties: {
+      pattern: { type: "string", minLength: 1, maxLength: 255, description: "Row label (exact) or regular expression" },
+      match_type: { type: "string", enum: ["exact", "regex"], default: "exact" },
+      field_key: { type: "string", description: "Period field, e.g. revenue_total (see GET /api/label-rules/fields)" },
+      company_id: { type: "integer", nullable: true, description: "Omit for a global rule" },
+    },
+  },
+  CreateComparable: {
+    type: "object",
+    required: ["kind", "name", "as_of_date", "ev"],
+    properties: {
+      kind: { type: "string", enum: ["trading", "transaction"] },
+      name: { type: "string", maxLength: 255, description: "Peer company, or the target of a transaction" },
+      acquirer: { type: "string", nullable: true, description: "Transactions only" },
+      sector: { type: "string", nullable: true },
+      country: { type: "string", nullable: true },
+      as_of_date: { type: "string", format: "date", description: "Market data date (trading) or announcement date (transaction)" },
+      currency: { type: "string", maxLength: 3, nullable: true },
+      ev: { type: "number", exclusiveMinimum: true, minimum: 0, description: "Enterprise value (millions)" },
+      revenue_ltm: { type: "number", nullable: true },
+      revenue_ntm: { type: "number", nullable: true },
+      ebitda_ltm: { type: "number", nullable: true },
+      ebitda_ntm: { type: "number", nullable: true },
+      source: { type: "string", nullable: true },
+    },
+  },
 };
 
 // ── Paths ──────────────────────────────────────────────────────────
 
 const secured = [{ BearerAuth: [] }];
 
+const comparableFilterParams: OpenAPIV3.ParameterObject[] = [
+  { name: "kind", in: "query", schema: { type: "string", enum: ["trading", "transaction"] } },
+  { name: "sector", in: "query", schema: { type: "string" }, description: "Case-insensitive exact match" },
+  { name: "country", in: "query", schema: { type: "string" } },
+  { name: "from", in: "query", schema: { type: "string", format: "date" }, description: "Inclusive start date" },
+  { name: "to", in: "query", schema: { type: "string", format: "date" }, description: "Inclusive end date" },
+  { name: "ids", in: "query", schema: { type: "string" }, description: "Comma-separated comparable IDs (hand-picked comp set)" },
+];
+
 const paths: Record<string, OpenAPIV3.PathItemObject> = {
   "/api/health": {
     get: {
@@ -402,7 +657,9 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
     get: {
       tags: ["Models"],
       summary: "Get model details",
-      description: "Returns model with periods, geography, and service breakdown",
+      description:
+        "Returns model with periods, geography, and service breakdown. Quarterly and monthly models also get " +
+        "calendar_periods (complete calendar years) and ltm_periods (trailing twelve months at each period end).",
       security: secured,
       parameters: [idParam("id", "Model ID")],
       responses: ok("Model with all related data"),
@@ -440,6 +697,7 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
     get: {
       tags: ["Scenarios"],
       summary: "List all scenarios",
+      description: "Newest first; parent_scenario_id links clones to the scenario they were branched from",
       security: secured,
       responses: ok("Array of scenarios"),
     },
@@ -464,10 +722,47 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
       responses: ok("Comparison result with pro forma and returns"),
     },
   },
+  "/api/scenarios/comparison": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "Compare scenarios",
+      description:
+        "Runs 2–5 saved scenarios through the full calculation at one exit multiple (exit_multiple, else the middle of the " +
+        "first scenario's range) and lines up price paid, entry multiple, debt, leverage, combined IRR/MoM, per-share " +
+        "IRR/MoM, accretion vs standalone and dilution at exit. Each metric reports whether the scenarios differ and, " +
+        "where a direction applies, the best and worst scenario ids",
+      security: secured,
+      parameters: COMPARISON_QUERY,
+      responses: ok("Compared scenarios and per-metric differences"),
+    },
+  },
+  "/api/scenarios/comparison/export-excel": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "Export scenario comparison as Excel",
+      description: "Downloads a one-sheet .xlsx workbook with the compared scenarios side by side, best and worst values shaded",
+      security: secured,
+      parameters: COMPARISON_QUERY,
+      responses: { 200: { description: "Excel file download", content: { "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {} } } },
+    },
+  },
+  "/api/scenarios/comparison/export-ppt": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "Export scenario comparison as PowerPoint",
+      description: "Downloads a one-slide .pptx deck with the compared scenarios side by side",
+      security: secured,
+      parameters: COMPARISON_QUERY,
+      responses: { 200: { description: "PowerPoint file download", content: { "application/vnd.openxmlformats-officedocument.presentationml.presentation": {} } } },
+    },
+  },
   "/api/scenarios/{id}": {
     get: {
       tags: ["Scenarios"],
       summary: "Get scenario details",
+      description:
+        "Periods are annual (quarters and months rolled up into calendar years); acquirer_ltm and target_ltm " +
+        "hold LTM figures for quarterly / monthly models.",
       security: secured,
       parameters: [idParam("id", "Scenario ID")],
       responses: ok("Scenario with all related data"),
@@ -488,6 +783,51 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
       responses: ok("Scenario deleted"),
     },
   },
+  "/api/scenarios/{id}/clone": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Clone scenario",
+      description: "Creates a draft what-if branch with the same models, deal terms, synergies and stored deal returns; parent_scenario_id links it to the source. Post-deal tracking settings are not copied",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("CloneScenario"),
+      responses: created("Cloned scenario"),
+    },
+  },
+  "/api/scenarios/{id}/versions": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "List scenario versions",
+      description: "Immutable snapshots recorded on every save (newest first), with author, timestamp and fields changed vs the previous version",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      responses: ok("Version list"),
+    },
+  },
+  "/api/scenarios/{id}/versions/diff": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "Diff two scenario versions",
+      description: "Field-level diff between two versions plus the resulting IRR/MoM change (combined case, middle exit multiple)",
+      security: secured,
+      parameters: [
+        idParam("id", "Scenario ID"),
+        { name: "from", in: "query", required: true, schema: { type: "integer" }, description: "Base version number" },
+        { name: "to", in: "query", required: true, schema: { type: "integer" }, description: "Compared version number" },
+      ],
+      responses: ok("Field changes and returns delta"),
+    },
+  },
+  "/api/scenarios/{id}/versions/{version}/restore": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Restore scenario version",
+      description: "Rolls the scenario back to an earlier version; the restore is recorded as a new version",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID"), idParam("version", "Version number")],
+      responses: ok("Restored scenario"),
+    },
+  },
   "/api/scenarios/{id}/calculate-returns": {
     post: {
       tags: ["Scenarios"],
@@ -510,6 +850,82 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
       responses: ok("Sensitivity matrix"),
     },
   },
+  "/api/scenarios/{id}/simulate": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Monte Carlo simulation",
+      description: "Draws correlated inputs from their distributions and returns IRR/MoM percentiles, the probability of beating the hurdle and histogram bins",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("Simulation"),
+      responses: ok("IRR and MoM distributions"),
+    },
+  },
+  "/api/scenarios/{id}/tornado": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Tornado sensitivities",
+      description: "Moves each parameter to a low and a high value with all others at base and returns the IRR/MoM swing per parameter, largest first",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("Tornado"),
+      responses: ok("Swing per parameter"),
+    },
+  },
+  "/api/scenarios/{id}/goal-seek": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Goal seek",
+      description: "Solves for the parameter value giving a target IRR/MoM; returns the solution, iterations and bracket, or no_solution when the target is out of range",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("GoalSeek"),
+      responses: ok("Solver outcome"),
+    },
+  },
+  "/api/scenarios/{id}/dcf": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "DCF valuation",
+      description: "Discounts unlevered FCF of the forecast periods at WACC with a Gordon growth or exit multiple terminal value; returns implied EV, equity value and value per share for acquirer, target and pro forma next to the entry price",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("Dcf"),
+      responses: ok("DCF valuations"),
+    },
+  },
+  "/api/scenarios/{id}/contribution": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "Contribution analysis",
+      description: "Compares each party's share of pro forma revenue, EBITDA, unlevered FCF and equity value with its post-deal ownership from the share tracker, and shows shares issued, target ownership and the implied exchange ratio at different prices",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("Contribution"),
+      responses: ok("Contributions, ownership and exchange ratios"),
+    },
+  },
+  "/api/scenarios/{id}/eps-accretion": {
+    post: {
+      tags: ["Scenarios"],
+      summary: "EPS accretion / dilution",
+      description: "Builds a below-EBITDA P&L for the acquirer standalone and the combined group (synergies, integration costs, PPA amortisation and interest on new debt after tax) and returns EPS and FCF per share accretion by forecast year with the synergies needed for EPS neutrality",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      requestBody: jsonBody("EpsAccretion"),
+      responses: ok("Standalone and pro forma P&L, EPS and FCF per share by year"),
+    },
+  },
+  "/api/scenarios/{id}/variance": {
+    get: {
+      tags: ["Scenarios"],
+      summary: "Post-deal variance",
+      description: "Compares the actual periods of the scenario's actuals model after closing with the target plan and the cost synergies of the IC version (ic_version), by period: revenue, EBITDA, EBITDA margin, FCF and realised synergies, with totals over the periods that have actuals",
+      security: secured,
+      parameters: [idParam("id", "Scenario ID")],
+      responses: ok("Plan, actual and variance by period and in total"),
+    },
+  },
   "/api/scenarios/{id}/returns": {
     post: {
       tags: ["Scenarios"],
@@ -567,11 +983,146 @@ const paths: Record<string, OpenAPIV3.PathItemObject> = {
     post: {
       tags: ["Import"],
       summary: "Import Excel model",
-      description: "Parses .xlsx file and auto-creates models + periods. Returns model details and any warnings.",
+      description: "Parses .xlsx file and auto-creates models + periods. Returns model details and any warnings. " +
+        "With dry_run=true nothing is written: the response lists the parsed model blocks, detected year columns, " +
+        "unrecognized labels and a per-field diff against existing periods. An optional `selection` form field " +
+        "(JSON: { models: [{ name, fields? }], input_parameters? }) limits the commit to the ticked models and fields.",
       security: secured,
-      parameters: [idParam("companyId", "Company ID")],
+      parameters: [
+        idParam("companyId", "Company ID"),
+        { name: "dry_run", in: "query", schema: { type: "boolean", default: false }, description: "Preview without writing" },
+      ],
       requestBody: fileBody("Excel .xlsx file"),
-      responses: created("Import result with model details and warnings"),
+      responses: {
+        ...ok("Dry-run preview (dry_run=true)"),
+        ...created("Import result with model details and warnings"),
+      },
+    },
+  },
+
+  // ── Label rules ──
+  "/api/label-rules": {
+    get: {
+      tags: ["Import"],
+      summary: "List label mapping rules",
+      description: "User-defined Excel row label → field rules. With company_id, the rules that apply to that company (its own + global) in the order the parser consults them.",
+      security: secured,
+      parameters: [{ name: "company_id", in: "query", schema: { type: "integer" } }],
+      responses: ok("Label rules"),
+    },
+    post: {
+      tags: ["Import"],
+      summary: "Create a label mapping rule",
+      description: "Consulted before the built-in label mappings on the next Excel import. 409 if the pattern already exists in the same scope.",
+      security: secured,
+      requestBody: jsonBody("CreateLabelRule"),
+      responses: created("Created rule"),
+    },
+  },
+  "/api/label-rules/fields": {
+    get: {
+      tags: ["Import"],
+      summary: "List mappable period fields",
+      security: secured,
+      responses: ok("Field keys"),
+    },
+  },
+  "/api/label-rules/{id}": {
+    delete: {
+      tags: ["Import"],
+      summary: "Delete a label mapping rule",
+      security: secured,
+      parameters: [idParam("id", "Rule ID")],
+      responses: ok("Rule deleted"),
+    },
+  },
+
+  // ── Comparables ──
+  "/api/comparables": {
+    get: {
+      tags: ["Comparables"],
+      summary: "List comparables",
+      description: "Trading peers and precedent transactions (newest first) with derived EV / EBITDA and EV / revenue multiples (LTM and NTM).",
+      security: secured,
+      parameters: comparableFilterParams,
+      responses: ok("Comparables"),
+    },
+    post: {
+      tags: ["Comparables"],
+      summary: "Create a comparable",
+      description: "An existing row with the same kind, name and date is updated.",
+      security: secured,
+      requestBody: jsonBody("CreateComparable"),
+      responses: created("Created comparable"),
+    },
+  },
+  "/api/comparables/stats": {
+    get: {
+      tags: ["Comparables"],
+      summary: "Comp set statistics",
+      description: "Count, min, Q1, median, Q3 (inclusive quartiles), max and mean per multiple for the filtered comp set. Multiples with a missing or non-positive denominator are left out.",
+      security: secured,
+      parameters: comparableFilterParams,
+      responses: ok("{ count, multiples: { ev_ebitda_ltm, ev_ebitda_ntm, ev_revenue_ltm, ev_revenue_ntm } }"),
+    },
+  },
+  "/api/comparables/sectors": {
+    get: {
+      tags: ["Comparables"],
+      summary: "List comparable sectors",
+      security: secured,
+      responses: ok("Sectors"),
+    },
+  },
+  "/api/comparables/import": {
+    post: {
+      tags: ["Comparables"],
+      summary: "Import comparables",
+      description: "CSV (comma or semicolon) or Excel file with a header row: name, kind, acquirer, sector, country, date, currency, ev, " +
+        "revenue_ltm, revenue_ntm, ebitda_ltm, ebitda_ntm, source (common aliases such as \"LTM EBITDA\" are recognised). " +
+        "Invalid rows are skipped and listed in `errors`; the rest are upserted on kind, name and date.",
+      security: secured,
+      parameters: [{ name: "kind", in: "query", schema: { type: "string", enum: ["trading", "transaction"] }, description: "Kind for rows without a kind column" }],
+      requestBody: fileBody("CSV or Excel file with one comparable per row"),
+      responses: created("{ inserted, updated, errors }"),
+    },
+  },
+  "/api/comparables/{id}": {
+    delete: {
+      tags: ["Comparables"],
+      summary: "Delete a comparable",
+      security: secured,
+      parameters: [idParam("id", "Comparable ID")],
+      responses: ok("Comparable deleted"),
+    },
+  },
+
+  // ── Audit ──
+  "/api/audit": {
+    get: {
+      tags: ["Audit"],
+      summary: "List audit events",
+      description: "Who changed what on companies, models, periods and scenarios (newest first), each with a before/after field diff. Admin only.",
+      security: secured,
+      parameters: [
+        { name: "entity_type", in: "query", schema: { type: "string", enum: ["company", "model", "period", "scenario", "label_rule", "comparable"] } },
+        { name: "entity_id", in: "query", schema: { type: "integer" }, description: "Entity ID (model ID for period events)" },
+        { name: "user_id", in: "query", schema: { type: "integer" } },
+        { name: "from", in: "query", schema: { type: "string", format: "date" }, description: "Inclusive start date" },
+        { name: "to", in: "query", schema: { type: "string", format: "date" }, description: "Inclusive end date" },
+        { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 200 } },
+        { name: "offset", in: "query", schema: { type: "integer", default: 0 } },
+      ],
+      responses: ok("Audit events and total count"),
+    },
+  },
+  "/api/audit/users": {
+    get: {
+      tags: ["Audit"],
+      summary: "List users in the audit log",
+      description: "Users with at least one audit event, for the user filter. Admin only.",
+      security: secured,
+      responses: ok("User list"),
     },
   },
 };
@@ -583,7 +1134,7 @@ export const openApiSpec: OpenAPIV3.Document = {
   info: {
     title: "ECIT Acquisition Analysis API",
     version: "1.0.0",
-    description: "API for M&A acquisition modeling — financial scenarios, pro forma analysis, deal returns (IRR/MoM), and sensitivity analysis.",
+    description: "API for M&A acquisition modeling — financial scenarios, pro forma analysis, deal returns (IRR/MoM), and sensitivity analysis. Mutating endpoints require the admin or analyst role; viewers get 403.",
   },
   servers: [{ url: "http://localhost:3001", description: "Local development" }],
   tags: [
@@ -593,6 +1144,8 @@ export const openApiSpec: OpenAPIV3.Document = {
     { name: "Models", description: "Financial models and periods" },
     { name: "Scenarios", description: "Acquisition scenarios, returns, and pro forma" },
     { name: "Import", description: "Data import (Excel, JSON, CSV)" },
+    { name: "Comparables", description: "Trading and transaction comparables" },
+    { name: "Audit", description: "Audit log of data changes" },
   ],
   paths,
   components: {
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import jwt from "jsonwebtoken";
-import { authMiddleware, generateToken } from "../auth.js";
+import { authMiddleware, generateToken, requireRole, requireEditor } from "../auth.js";
 import type { Response, NextFunction } from "express";
 import type { AuthRequest } from "../auth.js";
 
@@ -107,3 +107,48 @@ describe("authMiddleware", () => {
     expect(next).not.toHaveBeenCalled();
   });
 });
+
+// ─── requireRole ───────────────────────────────────────────────────────────
+
+describe("requireRole", () => {
+  it("calls next when the role is allowed", () => {
+    const { req, res, next } = createMocks();
+    req.userRole = "admin";
+    requireRole("admin")(req, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("rejects a role that is not allowed with 403", () => {
+    const { req, res, next } = createMocks();
+    req.userRole = "analyst";
+    requireRole("admin")(req, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: "Insufficient permissions" });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects a request without a role", () => {
+    const { req, res, next } = createMocks();
+    requireRole("admin", "analyst")(req, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireEditor", () => {
+  it.each(["admin", "analyst"])("allows %s", (role) => {
+    const { req, res, next } = createMocks();
+    req.userRole = role;
+    requireEditor(req, res, next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects viewer", () => {
+    const { req, res, next } = createMocks();
+    req.userRole = "viewer";
+    requireEditor(req, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
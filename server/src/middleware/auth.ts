@@ -39,6 +39,26 @@ export function authMiddleware(
   }
 }
 
+/** Roles allowed to create, modify or delete data — viewers are read-only. */
+export const EDITOR_ROLES = ["admin", "analyst"];
+
+/**
+ * Express middleware factory: rejects with 403 unless the authenticated
+ * user's role is one of `roles`. Must run after authMiddleware.
+ */
+export function requireRole(...roles: string[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.userRole || !roles.includes(req.userRole)) {
+      res.status(403).json({ error: "Insufficient permissions" });
+      return;
+    }
+    next();
+  };
+}
+
+/** Guard for every mutating route (admin + analyst). */
+export const requireEditor = requireRole(...EDITOR_ROLES);
+
 export function generateToken(userId: number, role: string): string {
   return jwt.sign({ userId, role }, getJwtSecret(), { expiresIn: "7d" });
 }
@@ -43,14 +43,15 @@ CREATE TABLE IF NOT EXISTS financial_models (
   UNIQUE(company_id, name)
 );
 
--- Financial periods: yearly data per model
+-- Financial periods: yearly (or quarterly / monthly) data per model
 -- Stores all financial line items for a given year
 CREATE TABLE IF NOT EXISTS financial_periods (
   id SERIAL PRIMARY KEY,
   model_id INTEGER NOT NULL REFERENCES financial_models(id) ON DELETE CASCADE,
-  period_date DATE NOT NULL,              -- e.g. 2024-12-31
-  period_label VARCHAR(20) NOT NULL,      -- e.g. "2024A", "2025B", "2026E"
+  period_date DATE NOT NULL,              -- e.g. 2024-12-31 (period end)
+  period_label VARCHAR(20) NOT NULL,      -- e.g. "2024A", "2025B", "2026E", "Q1 2025"
   period_type VARCHAR(10) NOT NULL CHECK (period_type IN ('actual', 'budget', 'estimate', 'forecast')),
+  period_granularity VARCHAR(10) NOT NULL DEFAULT 'annual' CHECK (period_granularity IN ('annual', 'quarterly', 'monthly')),
   
   -- Revenue breakdown
   revenue_managed_services NUMERIC(15,1),
@@ -94,6 +95,21 @@ CREATE TABLE IF NOT EXISTS financial_periods (
   operating_fcf_excl_minorities NUMERIC(15,1),
   cash_conversion NUMERIC(8,4),
   
+  -- Below EBITDA (optional; tax expense is the tax column above)
+  depreciation NUMERIC(15,1),              -- D&A (cost, positive)
+  amortisation NUMERIC(15,1),              -- Amortisation of acquired intangibles
+  net_financial_items NUMERIC(15,1),       -- Net financial items (negative = expense)
+  net_income NUMERIC(15,1),                -- Net income after tax
+  
+  -- Balance sheet (optional; change_nwc is derived from the working capital items when missing)
+  trade_receivables NUMERIC(15,1),         -- Trade receivables
+  trade_payables NUMERIC(15,1),            -- Trade payables
+  work_in_progress NUMERIC(15,1),          -- Work in progress (unbilled)
+  deferred_revenue NUMERIC(15,1),          -- Deferred revenue / contract liabilities
+  cash NUMERIC(15,1),                      -- Cash and cash equivalents
+  gross_debt NUMERIC(15,1),                -- Gross interest-bearing debt
+  lease_liabilities NUMERIC(15,1),         -- Lease liabilities (IFRS 16)
+  
   -- Equity bridge
   share_count NUMERIC(15,4),               -- Number of shares in period
   nibd NUMERIC(15,1),                      -- Net interest-bearing debt
@@ -150,6 +166,9 @@ CREATE TABLE IF NOT EXISTS acquisition_scenarios (
   acquirer_model_id INTEGER REFERENCES financial_models(id) ON DELETE SET NULL,
   target_model_id INTEGER REFERENCES financial_models(id) ON DELETE SET NULL,
   
+  -- Clone / what-if branch: the scenario this one was branched from
+  parent_scenario_id INTEGER REFERENCES acquisition_scenarios(id) ON DELETE SET NULL,
+  
   -- Deal terms
   acquisition_date DATE,
   share_price NUMERIC(15,2),              -- e.g. NOK 82 per share
@@ -163,6 +182,20 @@ CREATE TABLE IF NOT EXISTS acquisition_scenarios (
   net_debt NUMERIC(15,1),
   rollover_shareholders NUMERIC(15,1),
   
+  -- Floating-rate financing (base rate + margin, optionally swapped to fixed)
+  base_rate_curve JSONB DEFAULT '{}',     -- year -> base rate, e.g. {"2026": 0.045}
+  interest_margin NUMERIC(8,4),           -- e.g. 0.0275 for 275 bps
+  hedge_ratio NUMERIC(8,4),               -- share of debt swapped to fixed (0-1)
+  swap_rate NUMERIC(8,4),                 -- fixed swap rate on the hedged share
+  
+  -- Currency: target (and acquirer) periods are converted into the reporting currency
+  reporting_currency VARCHAR(20),         -- e.g. "NOKm"; NULL = acquirer company currency
+  fx_rates JSONB DEFAULT '{}',            -- code -> rate or {year: rate}, e.g. {"SEK": 0.98}
+  
+  -- Post-deal tracking: actuals loaded after closing against the IC plan
+  actuals_model_id INTEGER REFERENCES financial_models(id) ON DELETE SET NULL,
+  ic_version INTEGER,                     -- scenario version that went to IC; NULL = current
+  
   -- Sources & Uses (stored as JSON for flexibility)
   sources JSONB DEFAULT '[]',
   uses JSONB DEFAULT '[]',
@@ -170,6 +203,12 @@ CREATE TABLE IF NOT EXISTS acquisition_scenarios (
   -- Deal assumptions
   exit_date DATE,
   cost_synergies_timeline JSONB DEFAULT '{}',
+  revenue_synergies_timeline JSONB DEFAULT '{}',
+  revenue_synergy_margin NUMERIC(8,4),     -- EBITDA margin on revenue synergies (decimal)
+  synergy_realisation JSONB DEFAULT '{}',  -- year -> share of synergies realised (decimal)
+  integration_costs_timeline JSONB DEFAULT '{}',  -- year -> one-off cost (positive)
+  synergy_items JSONB DEFAULT '[]',        -- itemised cost synergies (run-rate, phasing, probability)
+  add_on_targets JSONB DEFAULT '[]',       -- further targets: model, close date, price, S&U, synergies
   
   -- Deal parameters for IRR/MoM calculation
   deal_parameters JSONB DEFAULT '{}',
@@ -226,10 +265,13 @@ CREATE TABLE IF NOT EXISTS pro_forma_periods (
   total_ebitda_excl_synergies NUMERIC(15,1),
   ebitda_margin_excl_synergies NUMERIC(8,4),
   cost_synergies NUMERIC(15,1),
+  revenue_synergies NUMERIC(15,1),
+  revenue_synergy_ebitda NUMERIC(15,1),
   total_ebitda_incl_synergies NUMERIC(15,1),
   ebitda_margin_incl_synergies NUMERIC(8,4),
   
   -- Combined cash flow
+  integration_costs NUMERIC(15,1),        -- one-off, negative = outflow
   total_capex NUMERIC(15,1),
   total_change_nwc NUMERIC(15,1),
   total_other_cash_flow NUMERIC(15,1),
@@ -238,6 +280,12 @@ CREATE TABLE IF NOT EXISTS pro_forma_periods (
   operating_fcf_excl_minorities NUMERIC(15,1),
   cash_conversion NUMERIC(8,4),
   
+  -- Below EBITDA (null when neither party reports it)
+  total_depreciation NUMERIC(15,1),
+  total_amortisation NUMERIC(15,1),
+  ppa_amortisation NUMERIC(15,1),         -- amortisation of PPA intangibles from the deal
+  total_net_financial_items NUMERIC(15,1),
+  
   -- Extra / overrides
   extra_data JSONB DEFAULT '{}',
   
@@ -245,6 +293,64 @@ CREATE TABLE IF NOT EXISTS pro_forma_periods (
   UNIQUE(scenario_id, period_date)
 );
 
+-- Scenario versions: immutable snapshot of the editable scenario fields on every save
+CREATE TABLE IF NOT EXISTS scenario_versions (
+  id SERIAL PRIMARY KEY,
+  scenario_id INTEGER NOT NULL REFERENCES acquisition_scenarios(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,         -- 1, 2, 3, ... per scenario
+  snapshot JSONB NOT NULL,                 -- deal_parameters, sources, uses, synergies, capital fields
+  periods JSONB,                           -- periods of the acquirer/target/add-on models at save; NULL = not stored
+  restored_from INTEGER,                   -- version_number this save rolled back to (if a restore)
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(scenario_id, version_number)
+);
+
+-- Audit log: who changed what on companies, models, periods, scenarios, label rules and comparables
+CREATE TABLE IF NOT EXISTS audit_events (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('company', 'model', 'period', 'scenario', 'label_rule', 'comparable')),
+  entity_id INTEGER NOT NULL,              -- period events carry the model id
+  entity_name VARCHAR(255),                -- kept so deleted entities stay readable
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'import', 'restore', 'generate')),
+  changes JSONB NOT NULL DEFAULT '[]',     -- [{ field, from, to }] before/after diff
+  metadata JSONB DEFAULT '{}',             -- e.g. import source file, row counts
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- User-defined Excel label rules, consulted before the parser's built-in mappings
+CREATE TABLE IF NOT EXISTS label_mapping_rules (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER REFERENCES companies(id) ON DELETE CASCADE,  -- NULL = global rule
+  pattern VARCHAR(255) NOT NULL,
+  match_type VARCHAR(10) NOT NULL DEFAULT 'exact' CHECK (match_type IN ('exact', 'regex')),
+  field_key VARCHAR(100) NOT NULL,         -- financial_periods column, e.g. 'revenue_total'
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Trading and transaction comparables (peer multiples, precedent deals)
+CREATE TABLE IF NOT EXISTS comparables (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('trading', 'transaction')),
+  name VARCHAR(255) NOT NULL,              -- peer company, or the target of a transaction
+  acquirer VARCHAR(255),                   -- transactions only
+  sector VARCHAR(100),
+  country VARCHAR(100),
+  as_of_date DATE NOT NULL,                -- market data date / announcement date
+  currency VARCHAR(3),
+  ev NUMERIC(15,2) NOT NULL,               -- enterprise value (millions)
+  revenue_ltm NUMERIC(15,2),
+  revenue_ntm NUMERIC(15,2),
+  ebitda_ltm NUMERIC(15,2),
+  ebitda_ntm NUMERIC(15,2),
+  source VARCHAR(255),                     -- e.g. data provider or import file
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Insert default admin user (password: admin123 - change in production!)
 INSERT INTO users (email, password_hash, name, role) VALUES 
   ('admin@ecit.no', '$2b$10$placeholder_will_be_set_on_first_login', 'Admin', 'admin')
@@ -255,5 +361,12 @@ CREATE INDEX IF NOT EXISTS idx_financial_periods_model ON financial_periods(mode
 CREATE INDEX IF NOT EXISTS idx_financial_periods_date ON financial_periods(period_date);
 CREATE INDEX IF NOT EXISTS idx_deal_returns_scenario ON deal_returns(scenario_id);
 CREATE INDEX IF NOT EXISTS idx_pro_forma_scenario ON pro_forma_periods(scenario_id);
+CREATE INDEX IF NOT EXISTS idx_scenario_versions_scenario ON scenario_versions(scenario_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_user ON audit_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_rules_unique ON label_mapping_rules(COALESCE(company_id, 0), match_type, pattern);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_comparables_unique ON comparables(kind, name, as_of_date);
+CREATE INDEX IF NOT EXISTS idx_comparables_sector ON comparables(LOWER(sector));
 CREATE INDEX IF NOT EXISTS idx_companies_type ON companies(company_type);
 CREATE INDEX IF NOT EXISTS idx_models_company ON financial_models(company_id);
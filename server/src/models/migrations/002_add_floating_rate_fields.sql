@@ -0,0 +1,35 @@
+-- Migration: Add floating-rate financing columns to acquisition_scenarios
+-- Base-rate curve (NIBOR/EURIBOR per year), credit margin and swap hedge.
+-- Safe to run multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'base_rate_curve'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN base_rate_curve JSONB DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'interest_margin'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN interest_margin NUMERIC(8,4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'hedge_ratio'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN hedge_ratio NUMERIC(8,4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'swap_rate'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN swap_rate NUMERIC(8,4);
+  END IF;
+END
+$$;
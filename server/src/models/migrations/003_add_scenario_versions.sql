@@ -0,0 +1,17 @@
+-- Migration: Add scenario_versions table for scenario version history
+-- Every scenario save writes an immutable snapshot row (author + timestamp),
+-- so the numbers that went to IC can be diffed against and restored.
+-- Safe to run multiple times (uses IF NOT EXISTS).
+
+CREATE TABLE IF NOT EXISTS scenario_versions (
+  id SERIAL PRIMARY KEY,
+  scenario_id INTEGER NOT NULL REFERENCES acquisition_scenarios(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  restored_from INTEGER,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(scenario_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scenario_versions_scenario ON scenario_versions(scenario_id);
@@ -0,0 +1,20 @@
+-- Migration: Add audit_events table for the audit log
+-- Every mutating route (incl. the JSON/CSV/Excel importers) records who
+-- changed which company, model, period set or scenario, with a before/after diff.
+-- Safe to run multiple times (uses IF NOT EXISTS).
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('company', 'model', 'period', 'scenario')),
+  entity_id INTEGER NOT NULL,
+  entity_name VARCHAR(255),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'import', 'restore', 'generate')),
+  changes JSONB NOT NULL DEFAULT '[]',
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_user ON audit_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at DESC);
@@ -0,0 +1,17 @@
+-- Migration: Add label_mapping_rules table for user-defined Excel label rules
+-- Rules map a row label (exact or regex) to a financial_periods field and are
+-- consulted before the parser's built-in mappings. company_id NULL = global.
+-- Safe to run multiple times (uses IF NOT EXISTS).
+
+CREATE TABLE IF NOT EXISTS label_mapping_rules (
+  id SERIAL PRIMARY KEY,
+  company_id INTEGER REFERENCES companies(id) ON DELETE CASCADE,
+  pattern VARCHAR(255) NOT NULL,
+  match_type VARCHAR(10) NOT NULL DEFAULT 'exact' CHECK (match_type IN ('exact', 'regex')),
+  field_key VARCHAR(100) NOT NULL,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_rules_unique
+  ON label_mapping_rules(COALESCE(company_id, 0), match_type, pattern);
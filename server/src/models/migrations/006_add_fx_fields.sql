@@ -0,0 +1,22 @@
+-- Migration: Add reporting currency and FX rates to acquisition_scenarios
+-- Target/acquirer periods are converted into the reporting currency using
+-- flat or per-year rates, e.g. {"SEK": 0.98, "EUR": {"2025": 11.6}}.
+-- Safe to run multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'reporting_currency'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN reporting_currency VARCHAR(20);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'fx_rates'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN fx_rates JSONB DEFAULT '{}';
+  END IF;
+END
+$$;
@@ -0,0 +1,57 @@
+-- Migration: Add revenue synergies, synergy realisation and integration costs
+-- Scenarios get year-keyed timelines alongside cost_synergies_timeline, plus an
+-- EBITDA margin on revenue synergies; pro forma periods store the realised
+-- amounts. Safe to run multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'revenue_synergies_timeline'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN revenue_synergies_timeline JSONB DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'revenue_synergy_margin'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN revenue_synergy_margin NUMERIC(8,4);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'synergy_realisation'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN synergy_realisation JSONB DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'integration_costs_timeline'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN integration_costs_timeline JSONB DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'revenue_synergies'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN revenue_synergies NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'revenue_synergy_ebitda'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN revenue_synergy_ebitda NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'integration_costs'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN integration_costs NUMERIC(15,1);
+  END IF;
+END
+$$;
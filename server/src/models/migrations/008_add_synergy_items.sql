@@ -0,0 +1,16 @@
+-- Migration: Add itemised synergies with phasing templates and probabilities
+-- Each item has a category, run-rate, start year, phasing template and
+-- probability; when present they replace cost_synergies_timeline and drive the
+-- risk-weighted return case. Safe to run multiple times (uses IF NOT EXISTS
+-- pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'synergy_items'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN synergy_items JSONB DEFAULT '[]';
+  END IF;
+END
+$$;
@@ -0,0 +1,16 @@
+-- Migration: Add add-on targets for buy-and-build scenarios
+-- An ordered list of further targets, each with its own model, close date,
+-- price, sources & uses and cost synergies. target_model_id stays the
+-- platform deal. Safe to run multiple times (uses IF NOT EXISTS pattern via
+-- DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'add_on_targets'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN add_on_targets JSONB DEFAULT '[]';
+  END IF;
+END
+$$;
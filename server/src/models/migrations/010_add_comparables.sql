@@ -0,0 +1,29 @@
+-- Migration: Add comparables table for trading and transaction comps
+-- Peer companies (kind 'trading', as_of_date = date of the market data) and
+-- precedent transactions (kind 'transaction', as_of_date = announcement
+-- date). Figures in millions; multiples are derived, not stored.
+-- Safe to run multiple times (uses IF NOT EXISTS).
+
+CREATE TABLE IF NOT EXISTS comparables (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('trading', 'transaction')),
+  name VARCHAR(255) NOT NULL,
+  acquirer VARCHAR(255),
+  sector VARCHAR(100),
+  country VARCHAR(100),
+  as_of_date DATE NOT NULL,
+  currency VARCHAR(3),
+  ev NUMERIC(15,2) NOT NULL,
+  revenue_ltm NUMERIC(15,2),
+  revenue_ntm NUMERIC(15,2),
+  ebitda_ltm NUMERIC(15,2),
+  ebitda_ntm NUMERIC(15,2),
+  source VARCHAR(255),
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_comparables_unique
+  ON comparables(kind, name, as_of_date);
+CREATE INDEX IF NOT EXISTS idx_comparables_sector ON comparables(LOWER(sector));
@@ -0,0 +1,66 @@
+-- Migration: Add a below-EBITDA P&L for EPS accretion / dilution
+-- Financial periods get D&A, amortisation of acquired intangibles, net
+-- financial items and net income (the tax expense is the existing tax
+-- column); pro forma periods store the combined lines and the amortisation of
+-- intangibles identified in the purchase price allocation (PPA). Safe to run
+-- multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'depreciation'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN depreciation NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'amortisation'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN amortisation NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'net_financial_items'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN net_financial_items NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'net_income'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN net_income NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'total_depreciation'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN total_depreciation NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'total_amortisation'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN total_amortisation NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'ppa_amortisation'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN ppa_amortisation NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pro_forma_periods' AND column_name = 'total_net_financial_items'
+  ) THEN
+    ALTER TABLE pro_forma_periods ADD COLUMN total_net_financial_items NUMERIC(15,1);
+  END IF;
+END
+$$;
@@ -0,0 +1,59 @@
+-- Migration: Add balance sheet fields to financial periods
+-- Working capital items (trade receivables, trade payables, work in progress,
+-- deferred revenue) plus cash, gross interest-bearing debt and lease
+-- liabilities. Change in NWC is derived from the working capital items when a
+-- model has no change_nwc line. Safe to run multiple times (uses IF NOT EXISTS
+-- pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'trade_receivables'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN trade_receivables NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'trade_payables'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN trade_payables NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'work_in_progress'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN work_in_progress NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'deferred_revenue'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN deferred_revenue NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'cash'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN cash NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'gross_debt'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN gross_debt NUMERIC(15,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'lease_liabilities'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN lease_liabilities NUMERIC(15,1);
+  END IF;
+END
+$$;
@@ -0,0 +1,16 @@
+-- Migration: Add period granularity to financial periods
+-- Periods can be annual, quarterly or monthly (management accounts);
+-- period_date is the period end. Existing rows are annual. Safe to run
+-- multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'financial_periods' AND column_name = 'period_granularity'
+  ) THEN
+    ALTER TABLE financial_periods ADD COLUMN period_granularity VARCHAR(10) NOT NULL DEFAULT 'annual'
+      CHECK (period_granularity IN ('annual', 'quarterly', 'monthly'));
+  END IF;
+END
+$$;
@@ -0,0 +1,24 @@
+-- Migration: Add post-deal tracking to acquisition scenarios
+-- actuals_model_id points at the model actuals are loaded into after
+-- closing; ic_version marks the scenario version that went to investment
+-- committee. Safe to run multiple times (uses IF NOT EXISTS pattern via DO
+-- block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'actuals_model_id'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN actuals_model_id INTEGER
+      REFERENCES financial_models(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'ic_version'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN ic_version INTEGER;
+  END IF;
+END
+$$;
@@ -0,0 +1,16 @@
+-- Migration: Add parent scenario link for clones ("what-if" branches)
+-- A clone keeps a link to the scenario it was branched from; deleting the
+-- parent leaves the branch standing on its own. Safe to run multiple times
+-- (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'acquisition_scenarios' AND column_name = 'parent_scenario_id'
+  ) THEN
+    ALTER TABLE acquisition_scenarios ADD COLUMN parent_scenario_id INTEGER
+      REFERENCES acquisition_scenarios(id) ON DELETE SET NULL;
+  END IF;
+END
+$$;
@@ -0,0 +1,18 @@
+-- Migration: Keep scenario versions when their author is deleted
+-- scenario_versions.created_by was created without ON DELETE, so deleting a
+-- user who had saved a scenario failed. The author now falls back to NULL
+-- and the history stays intact. Safe to run multiple times (checks the
+-- delete rule via DO block).
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.referential_constraints
+    WHERE constraint_name = 'scenario_versions_created_by_fkey' AND delete_rule <> 'SET NULL'
+  ) THEN
+    ALTER TABLE scenario_versions DROP CONSTRAINT scenario_versions_created_by_fkey;
+    ALTER TABLE scenario_versions ADD CONSTRAINT scenario_versions_created_by_fkey
+      FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL;
+  END IF;
+END
+$$;
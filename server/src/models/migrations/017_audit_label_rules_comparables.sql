@@ -0,0 +1,17 @@
+-- Migration: Audit label rules and comparables
+-- Label rule and comparable writes now record audit events too, so
+-- audit_events.entity_type accepts 'label_rule' and 'comparable'.
+-- Safe to run multiple times (checks the constraint via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.check_constraints
+    WHERE constraint_name = 'audit_events_entity_type_check' AND check_clause LIKE '%comparable%'
+  ) THEN
+    ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_entity_type_check;
+    ALTER TABLE audit_events ADD CONSTRAINT audit_events_entity_type_check
+      CHECK (entity_type IN ('company', 'model', 'period', 'scenario', 'label_rule', 'comparable'));
+  END IF;
+END
+$$;
@@ -0,0 +1,17 @@
+-- Migration: Store model periods with scenario versions
+-- The post-deal variance rebuilds the IC plan from a version snapshot, but
+-- read the models' current periods, so edits after IC moved the plan. Each
+-- version now stores the periods of the models it points at. Versions
+-- recorded before keep NULL and fall back to the current periods. Safe to
+-- run multiple times (uses IF NOT EXISTS pattern via DO block).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scenario_versions' AND column_name = 'periods'
+  ) THEN
+    ALTER TABLE scenario_versions ADD COLUMN periods JSONB;
+  END IF;
+END
+$$;
@@ -0,0 +1,43 @@
+/**
+ * Audit log route — admin-only view of who changed what.
+ */
+
+import { Router, Response } from "express";
+import { AuthRequest, authMiddleware, requireRole } from "../middleware/auth.js";
+import { parseAuditFilters, listAuditEvents, listAuditUsers } from "../services/auditLog.js";
+
+const router = Router();
+router.use(authMiddleware);
+router.use(requireRole("admin"));
+
+/**
+ * GET /api/audit
+ *
+ * Audit events newest first. Filters: entity_type, entity_id, user_id,
+ * from / to (inclusive YYYY-MM-DD), limit (max 200), offset.
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = parseAuditFilters(req.query);
+    if ("error" in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+    res.json(await listAuditEvents(filters));
+  } catch (err) {
+    console.error("Error fetching audit events:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Users that appear in the log (for the user filter)
+router.get("/users", async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.json(await listAuditUsers());
+  } catch (err) {
+    console.error("Error fetching audit users:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 import { Router, Response } from "express";
 import pool from "../models/db.js";
-import { AuthRequest, authMiddleware } from "../middleware/auth.js";
+import { AuthRequest, authMiddleware, requireEditor } from "../middleware/auth.js";
 import { validate } from "../middleware/validate.js";
 import { CreateCompanySchema, UpdateCompanySchema, UpdateAssumptionsSchema } from "../schemas.js";
+import { recordAuditEvent, diffPeriods, withTransaction } from "../services/auditLog.js";
 
 const router = Router();
 router.use(authMiddleware);
@@ -52,7 +53,7 @@ router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
 });
 
 // Create company
-router.post("/", validate(CreateCompanySchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.post("/", requireEditor, validate(CreateCompanySchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { name, company_type, description, currency, country, sector } =
       req.body;
@@ -61,21 +62,31 @@ router.post("/", validate(CreateCompanySchema), async (req: AuthRequest, res: Re
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/^-|-$/g, "");
 
-    const result = await pool.query(
-      `INSERT INTO companies (name, slug, company_type, description, currency, country, sector, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
-      [
-        name,
-        slug,
-        company_type,
-        description,
-        currency || "NOKm",
-        country,
-        sector,
-        req.userId,
-      ]
-    );
-    res.status(201).json(result.rows[0]);
+    const company = await withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO companies (name, slug, company_type, description, currency, country, sector, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+        [
+          name,
+          slug,
+          company_type,
+          description,
+          currency || "NOKm",
+          country,
+          sector,
+          req.userId,
+        ]
+      );
+      await recordAuditEvent(client, {
+        userId: req.userId,
+        entityType: "company",
+        entityId: result.rows[0].id,
+        action: "create",
+        after: result.rows[0],
+      });
+      return result.rows[0];
+    });
+    res.status(201).json(company);
   } catch (err: any) {
     if (err.code === "23505") {
       res.status(409).json({ error: "Company with this name already exists" });
@@ -87,24 +98,38 @@ router.post("/", validate(CreateCompanySchema), async (req: AuthRequest, res: Re
 });
 
 // Update company
-router.put("/:id", validate(UpdateCompanySchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.put("/:id", requireEditor, validate(UpdateCompanySchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const { name, description, currency, country, sector } = req.body;
 
-    const result = await pool.query(
-      `UPDATE companies SET name = COALESCE($1, name), description = COALESCE($2, description),
-       currency = COALESCE($3, currency), country = COALESCE($4, country), 
-       sector = COALESCE($5, sector), updated_at = NOW()
-       WHERE id = $6 RETURNING *`,
-      [name, description, currency, country, sector, id]
-    );
+    const company = await withTransaction(async (client) => {
+      const before = await client.query("SELECT * FROM companies WHERE id = $1 FOR UPDATE", [id]);
+      if (before.rows.length === 0) return null;
+
+      const result = await client.query(
+        `UPDATE companies SET name = COALESCE($1, name), description = COALESCE($2, description),
+         currency = COALESCE($3, currency), country = COALESCE($4, country), 
+         sector = COALESCE($5, sector), updated_at = NOW()
+         WHERE id = $6 RETURNING *`,
+        [name, description, currency, country, sector, id]
+      );
+      await recordAuditEvent(client, {
+        userId: req.userId,
+        entityType: "company",
+        entityId: result.rows[0].id,
+        action: "update",
+        before: before.rows[0],
+        after: result.rows[0],
+      });
+      return result.rows[0];
+    });
 
-    if (result.rows.length === 0) {
+    if (!company) {
       res.status(404).json({ error: "Company not found" });
       return;
     }
-    res.json(result.rows[0]);
+    res.json(company);
   } catch (err) {
     console.error("Error updating company:", err);
     res.status(500).json({ error: "Internal server error" });
@@ -230,7 +255,7 @@ router.get("/:id/assumptions", async (req: AuthRequest, res: Response): Promise<
 });
 
 // PUT /companies/:id/assumptions — saves to ALL models for the company
-router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.put("/:id/assumptions", requireEditor, validate(UpdateAssumptionsSchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const {
@@ -250,7 +275,7 @@ router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: Au
 
     // Get all models for this company
     const modelsResult = await pool.query(
-      `SELECT id, model_parameters FROM financial_models WHERE company_id = $1`,
+      `SELECT id, name, model_parameters FROM financial_models WHERE company_id = $1`,
       [id]
     );
 
@@ -302,12 +327,22 @@ router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: Au
            WHERE id = $2`,
           [JSON.stringify(updated), model.id]
         );
+        await recordAuditEvent(client, {
+          userId: req.userId,
+          entityType: "model",
+          entityId: model.id,
+          entityName: model.name,
+          action: "update",
+          before: { model_parameters: existing },
+          after: { model_parameters: updated },
+          metadata: { source: "company_assumptions", company_id: Number(id) },
+        });
 
         // Also update the first period's equity bridge values (NIBD, EV, PE, share_count)
         if (preferred_equity !== undefined || nibd !== undefined || enterprise_value !== undefined || equity_value !== undefined || shares_at_completion !== undefined) {
           // Get the first period for this model
           const firstPeriod = await client.query(
-            `SELECT id FROM financial_periods WHERE model_id = $1 ORDER BY period_date ASC LIMIT 1`,
+            `SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date ASC LIMIT 1`,
             [model.id]
           );
           if (firstPeriod.rows.length > 0) {
@@ -339,10 +374,19 @@ router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: Au
             if (sets.length > 0) {
               sets.push(`updated_at = NOW()`);
               vals.push(firstPeriod.rows[0].id);
-              await client.query(
-                `UPDATE financial_periods SET ${sets.join(", ")} WHERE id = $${paramIdx}`,
+              const after = await client.query(
+                `UPDATE financial_periods SET ${sets.join(", ")} WHERE id = $${paramIdx} RETURNING *`,
                 vals
               );
+              await recordAuditEvent(client, {
+                userId: req.userId,
+                entityType: "period",
+                entityId: model.id,
+                entityName: model.name,
+                action: "update",
+                changes: diffPeriods(firstPeriod.rows, after.rows),
+                metadata: { source: "company_assumptions", company_id: Number(id) },
+              });
             }
           }
         }
@@ -350,14 +394,23 @@ router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: Au
         // Update exit period share_count if shares_at_year_end changed
         if (shares_at_year_end !== undefined) {
           const lastPeriod = await client.query(
-            `SELECT id FROM financial_periods WHERE model_id = $1 ORDER BY period_date DESC LIMIT 1`,
+            `SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date DESC LIMIT 1`,
             [model.id]
           );
           if (lastPeriod.rows.length > 0) {
-            await client.query(
-              `UPDATE financial_periods SET share_count = $1, updated_at = NOW() WHERE id = $2`,
+            const after = await client.query(
+              `UPDATE financial_periods SET share_count = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
               [shares_at_year_end, lastPeriod.rows[0].id]
             );
+            await recordAuditEvent(client, {
+              userId: req.userId,
+              entityType: "period",
+              entityId: model.id,
+              entityName: model.name,
+              action: "update",
+              changes: diffPeriods(lastPeriod.rows, after.rows),
+              metadata: { source: "company_assumptions", company_id: Number(id) },
+            });
           }
         }
 
@@ -383,14 +436,25 @@ router.put("/:id/assumptions", validate(UpdateAssumptionsSchema), async (req: Au
 });
 
 // Delete company
-router.delete("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
+router.delete("/:id", requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const result = await pool.query(
-      "DELETE FROM companies WHERE id = $1 RETURNING id",
-      [id]
-    );
-    if (result.rows.length === 0) {
+    const company = await withTransaction(async (client) => {
+      const result = await client.query(
+        "DELETE FROM companies WHERE id = $1 RETURNING *",
+        [id]
+      );
+      if (result.rows.length === 0) return null;
+      await recordAuditEvent(client, {
+        userId: req.userId,
+        entityType: "company",
+        entityId: result.rows[0].id,
+        action: "delete",
+        before: result.rows[0],
+      });
+      return result.rows[0];
+    });
+    if (!company) {
       res.status(404).json({ error: "Company not found" });
       return;
     }
@@ -0,0 +1,154 @@
+/**
+ * Comparables — trading peers and precedent transactions behind the exit
+ * multiple range.
+ */
+
+import { Router, Response } from "express";
+import multer from "multer";
+import { AuthRequest, authMiddleware, requireEditor } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import { CreateComparableSchema } from "../schemas.js";
+import {
+  COMPARABLE_KINDS,
+  type ComparableKind,
+  parseComparableFilters,
+  listComparables,
+  listComparableSectors,
+  comparableStats,
+  createComparable,
+  readComparableFile,
+  parseComparableRows,
+  importComparables,
+  deleteComparable,
+} from "../services/comparables.js";
+
+const router = Router();
+router.use(authMiddleware);
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+/**
+ * GET /api/comparables
+ *
+ * Comparables newest first with derived multiples. Filters: kind, sector,
+ * country, from / to (inclusive YYYY-MM-DD), ids (comma-separated).
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = parseComparableFilters(req.query);
+    if ("error" in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+    res.json(await listComparables(filters));
+  } catch (err) {
+    console.error("Error fetching comparables:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * GET /api/comparables/stats
+ *
+ * Count, min, quartiles, max and mean per multiple for the comp set selected
+ * by the same filters as the list.
+ */
+router.get("/stats", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = parseComparableFilters(req.query);
+    if ("error" in filters) {
+      res.status(400).json({ error: filters.error });
+      return;
+    }
+    res.json(await comparableStats(filters));
+  } catch (err) {
+    console.error("Error computing comparable stats:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Sectors in use (for the filter)
+router.get("/sectors", async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.json(await listComparableSectors());
+  } catch (err) {
+    console.error("Error fetching comparable sectors:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Create one comparable (same kind, name and date updates it)
+router.post("/", requireEditor, validate(CreateComparableSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(201).json(await createComparable(req.body, req.userId));
+  } catch (err) {
+    console.error("Error creating comparable:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * POST /api/comparables/import
+ *
+ * CSV (comma or semicolon) or Excel upload, one comparable per row with a
+ * header row. `?kind=` applies to rows without a kind column. Rows that fail
+ * validation are skipped and reported; the rest are upserted together.
+ */
+router.post("/import", requireEditor, upload.single("file"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: "No file uploaded" });
+      return;
+    }
+    const kind = typeof req.query.kind === "string" && req.query.kind !== "" ? req.query.kind : undefined;
+    if (kind !== undefined && !(COMPARABLE_KINDS as readonly string[]).includes(kind)) {
+      res.status(400).json({ error: `kind must be one of: ${COMPARABLE_KINDS.join(", ")}` });
+      return;
+    }
+
+    let rows: Record<string, unknown>[];
+    try {
+      rows = await readComparableFile(req.file.buffer, req.file.originalname);
+    } catch (err) {
+      res.status(400).json({ error: `Could not read file: ${err instanceof Error ? err.message : String(err)}` });
+      return;
+    }
+
+    const { comparables, errors } = parseComparableRows(rows, kind as ComparableKind | undefined);
+    if (comparables.length === 0) {
+      res.status(400).json({ error: "No valid comparables found", errors });
+      return;
+    }
+
+    const { inserted, updated } = await importComparables(
+      comparables.map((c) => ({ ...c, source: c.source ?? req.file!.originalname })),
+      req.userId
+    );
+    res.status(201).json({
+      message: `Imported ${comparables.length} comparables`,
+      inserted,
+      updated,
+      errors,
+    });
+  } catch (err) {
+    console.error("Error importing comparables:", err);
+    res.status(500).json({ error: "Import failed" });
+  }
+});
+
+// Delete a comparable
+router.delete("/:id", requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const comp = await deleteComparable(String(req.params.id), req.userId);
+    if (!comp) {
+      res.status(404).json({ error: "Comparable not found" });
+      return;
+    }
+    res.json({ message: "Comparable deleted" });
+  } catch (err) {
+    console.error("Error deleting comparable:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -16,7 +16,7 @@ router.use(authMiddleware);
  * - counts by entity type
  * - scenario pipeline with financial highlights
  * - company cards with latest-period financials
- * - recent activity
+ * - recent activity (from the audit log)
  */
 router.get("/summary", async (_req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -107,20 +107,15 @@ router.get("/summary", async (_req: AuthRequest, res: Response): Promise<void> =
         ORDER BY c.company_type, c.name
       `),
 
-      // 4. Recent activity (latest 10 updated entities)
+      // 4. Recent activity (latest 10 audit events)
       pool.query(`
-        (
-          SELECT 'scenario' as entity_type, id, name, updated_at, status
-          FROM acquisition_scenarios
-          ORDER BY updated_at DESC LIMIT 5
-        )
-        UNION ALL
-        (
-          SELECT 'company' as entity_type, id, name, updated_at, NULL as status
-          FROM companies
-          ORDER BY updated_at DESC LIMIT 5
-        )
-        ORDER BY updated_at DESC LIMIT 10
+        SELECT e.entity_type, e.entity_id as id, e.entity_name as name,
+          e.created_at as updated_at, s.status, e.action, u.name as user_name
+        FROM audit_events e
+        LEFT JOIN users u ON e.user_id = u.id
+        LEFT JOIN acquisition_scenarios s ON e.entity_type = 'scenario' AND s.id = e.entity_id
+        ORDER BY e.created_at DESC, e.id DESC
+        LIMIT 10
       `),
     ]);
 
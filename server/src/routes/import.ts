@@ -2,7 +2,7 @@ import { Router, Response } from "express";
 import multer from "multer";
 import { parse } from "csv-parse/sync";
 import pool from "../models/db.js";
-import { AuthRequest, authMiddleware } from "../middleware/auth.js";
+import { AuthRequest, authMiddleware, requireEditor } from "../middleware/auth.js";
 import { parseExcelBuffer } from "../services/excelParser/index.js";
 import {
   buildPeriodUpsertSQL,
@@ -12,9 +12,18 @@ import {
   COLUMNS_EXCEL,
   type PeriodColumn,
 } from "../services/periodUpsert.js";
+import { recordAuditEvent, snapshotPeriods, diffPeriods } from "../services/auditLog.js";
+import {
+  buildImportPreview,
+  parseImportSelection,
+  applyImportSelection,
+} from "../services/excelImportPreview.js";
+import { loadLabelRules } from "../services/labelRules.js";
 
 const router = Router();
 router.use(authMiddleware);
+// Every import writes models/periods — viewers are read-only
+router.use(requireEditor);
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
 
@@ -38,7 +47,7 @@ router.post(
 
       // Verify model exists
       const modelCheck = await pool.query(
-        "SELECT id FROM financial_models WHERE id = $1",
+        "SELECT id, name FROM financial_models WHERE id = $1",
         [modelId]
       );
       if (modelCheck.rows.length === 0) {
@@ -58,11 +67,13 @@ router.post(
       const { sql } = buildPeriodUpsertSQL({ columns: COLUMNS_JSON, strategy: "overwrite" });
       try {
         await client.query("BEGIN");
+        const before = await snapshotPeriods(client, modelId);
         let count = 0;
 
         for (const p of periods) {
           const params = extractPeriodParams(modelId, p.period_date, p, COLUMNS_JSON, (col, row) => {
             if (col === "period_type") return row.period_type || "estimate";
+            if (col === "period_granularity") return row.period_granularity || "annual";
             if (col === "extra_data") return JSON.stringify(row.extra_data || {});
             return row[col] ?? null;
           });
@@ -96,6 +107,22 @@ router.post(
           }
         }
 
+        await recordAuditEvent(client, {
+          userId: req.userId,
+          entityType: "period",
+          entityId: modelCheck.rows[0].id,
+          entityName: modelCheck.rows[0].name,
+          action: "import",
+          changes: diffPeriods(before, await snapshotPeriods(client, modelId)),
+          metadata: {
+            source: "json",
+            file: req.file?.originalname ?? null,
+            periods: count,
+            geography: Array.isArray(data.geography) ? data.geography.length : 0,
+            services: Array.isArray(data.services) ? data.services.length : 0,
+          },
+        });
+
         await client.query("COMMIT");
         res.status(201).json({ message: `Imported ${count} periods`, count });
       } catch (err) {
@@ -124,6 +151,16 @@ router.post(
         return;
       }
 
+      // Verify model exists
+      const modelCheck = await pool.query(
+        "SELECT id, name FROM financial_models WHERE id = $1",
+        [modelId]
+      );
+      if (modelCheck.rows.length === 0) {
+        res.status(404).json({ error: "Model not found" });
+        return;
+      }
+
       const csvContent = req.file.buffer.toString("utf-8");
       const records = parse(csvContent, {
         columns: true,
@@ -147,6 +184,7 @@ router.post(
       const { sql: csvSql } = buildPeriodUpsertSQL({ columns: COLUMNS_CSV, strategy: "coalesce" });
       try {
         await client.query("BEGIN");
+        const before = await snapshotPeriods(client, modelId);
         let count = 0;
 
         for (const row of records) {
@@ -206,6 +244,16 @@ router.post(
           count++;
         }
 
+        await recordAuditEvent(client, {
+          userId: req.userId,
+          entityType: "period",
+          entityId: modelCheck.rows[0].id,
+          entityName: modelCheck.rows[0].name,
+          action: "import",
+          changes: diffPeriods(before, await snapshotPeriods(client, modelId)),
+          metadata: { source: "csv", file: req.file.originalname, periods: count },
+        });
+
         await client.query("COMMIT");
         res.status(201).json({ message: `Imported ${count} periods from CSV`, count });
       } catch (err) {
@@ -221,7 +269,9 @@ router.post(
   }
 );
 
-// Import Excel file for a company (creates models + periods automatically)
+// Import Excel file for a company (creates models + periods automatically).
+// `?dry_run=true` returns the parsed models and a per-field diff without writing;
+// a `selection` form field limits the commit to the ticked models/fields.
 router.post(
   "/excel/:companyId",
   upload.single("file"),
@@ -254,8 +304,16 @@ router.post(
         return;
       }
 
-      // Parse Excel
-      const parseResult = await parseExcelBuffer(req.file.buffer, req.file.originalname);
+      const dryRun = req.query.dry_run === "true" || req.body?.dry_run === "true";
+      const selection = parseImportSelection(req.body?.selection);
+      if (selection && "error" in selection) {
+        res.status(400).json({ error: selection.error });
+        return;
+      }
+
+      // Parse Excel (company/global label rules take precedence over built-in mappings)
+      const labelRules = await loadLabelRules(pool, String(companyId));
+      const parseResult = await parseExcelBuffer(req.file.buffer, req.file.originalname, { labelRules });
 
       if (parseResult.models.length === 0) {
         res.status(400).json({
@@ -265,31 +323,65 @@ router.post(
         return;
       }
 
+      if (dryRun) {
+        const existingModels = await pool.query(
+          "SELECT * FROM financial_models WHERE company_id = $1",
+          [companyId]
+        );
+        const models = await buildImportPreview(
+          parseResult.models,
+          existingModels.rows,
+          (modelId) => snapshotPeriods(pool, modelId),
+        );
+        res.json({
+          dry_run: true,
+          models,
+          input_parameters: parseResult.inputParameters,
+          warnings: parseResult.warnings,
+        });
+        return;
+      }
+
+      const selected = applyImportSelection(parseResult.models, selection);
+      if ("error" in selected) {
+        res.status(400).json({ error: selected.error });
+        return;
+      }
+      if (selected.length === 0) {
+        res.status(400).json({ error: "No models selected for import." });
+        return;
+      }
+      const applyInputParameters =
+        selection?.input_parameters !== false && Object.keys(parseResult.inputParameters).length > 0;
+
       const client = await pool.connect();
-      const { sql: excelSql } = buildPeriodUpsertSQL({ columns: COLUMNS_EXCEL, strategy: "coalesce" });
       const summary: {
         models_created: number;
         models_updated: number;
+        models_skipped: number;
         total_periods: number;
-        model_details: { name: string; periods: number; action: string }[];
+        model_details: { name: string; periods: number; action: string; unmapped_labels: string[] }[];
         warnings: string[];
         input_parameters: Record<string, any>;
       } = {
         models_created: 0,
         models_updated: 0,
+        models_skipped: parseResult.models.length - selected.length,
         total_periods: 0,
         model_details: [],
         warnings: parseResult.warnings,
         input_parameters: parseResult.inputParameters,
       };
 
+      const auditMeta = { source: "excel", file: req.file.originalname, company_id: Number(companyId) };
+
       try {
         await client.query("BEGIN");
 
-        for (const modelBlock of parseResult.models) {
+        for (const { block: modelBlock, columns } of selected) {
           // Check if a model with this name already exists for this company
           const existing = await client.query(
-            "SELECT id FROM financial_models WHERE company_id = $1 AND name = $2",
+            "SELECT * FROM financial_models WHERE company_id = $1 AND name = $2",
             [companyId, modelBlock.name]
           );
 
@@ -300,46 +392,80 @@ router.post(
             modelId = existing.rows[0].id;
             action = "updated";
             // Update model_parameters if we have input params
-            if (Object.keys(parseResult.inputParameters).length > 0) {
-              await client.query(
-                "UPDATE financial_models SET model_parameters = $1, updated_at = NOW() WHERE id = $2",
+            if (applyInputParameters) {
+              const updated = await client.query(
+                "UPDATE financial_models SET model_parameters = $1, updated_at = NOW() WHERE id = $2 RETURNING *",
                 [JSON.stringify(parseResult.inputParameters), modelId]
               );
+              await recordAuditEvent(client, {
+                userId: req.userId,
+                entityType: "model",
+                entityId: modelId,
+                action: "update",
+                before: existing.rows[0],
+                after: updated.rows[0],
+                metadata: auditMeta,
+              });
             }
             summary.models_updated++;
           } else {
             // Create new model
             const insertResult = await client.query(
               `INSERT INTO financial_models (company_id, name, model_type, description, model_parameters)
-               VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+               VALUES ($1, $2, $3, $4, $5) RETURNING *`,
               [
                 companyId,
                 modelBlock.name,
                 "management", // default type
                 `Imported from Excel`,
-                Object.keys(parseResult.inputParameters).length > 0
+                applyInputParameters
                   ? JSON.stringify(parseResult.inputParameters)
                   : null,
               ]
             );
             modelId = insertResult.rows[0].id;
             action = "created";
+            await recordAuditEvent(client, {
+              userId: req.userId,
+              entityType: "model",
+              entityId: modelId,
+              action: "create",
+              after: insertResult.rows[0],
+              metadata: auditMeta,
+            });
             summary.models_created++;
           }
 
-          // Upsert periods — includes all fields the parser can output
+          // Upsert periods — all fields the parser can output, minus any the user unticked
+          const { sql: excelSql } = buildPeriodUpsertSQL({ columns, strategy: "coalesce" });
+          const excludedFields = COLUMNS_EXCEL.filter((c) => !columns.includes(c));
+          const periodsBefore = await snapshotPeriods(client, modelId);
           let periodCount = 0;
           for (const p of modelBlock.periods) {
-            const params = extractPeriodParams(modelId, p.period_date, p, COLUMNS_EXCEL);
+            const params = extractPeriodParams(modelId, p.period_date, p, columns);
             await client.query(excelSql, params);
             periodCount++;
           }
+          await recordAuditEvent(client, {
+            userId: req.userId,
+            entityType: "period",
+            entityId: modelId,
+            entityName: modelBlock.name,
+            action: "import",
+            changes: diffPeriods(periodsBefore, await snapshotPeriods(client, modelId)),
+            metadata: {
+              ...auditMeta,
+              periods: periodCount,
+              ...(excludedFields.length > 0 && { excluded_fields: excludedFields }),
+            },
+          });
 
           summary.total_periods += periodCount;
           summary.model_details.push({
             name: modelBlock.name,
             periods: periodCount,
             action,
+            unmapped_labels: modelBlock.unmappedRows,
           });
         }
 
@@ -0,0 +1,75 @@
+/**
+ * Label mapping rules — user-defined Excel row label → period field mappings.
+ */
+
+import { Router, Response } from "express";
+import { AuthRequest, authMiddleware, requireEditor } from "../middleware/auth.js";
+import { validate } from "../middleware/validate.js";
+import { CreateLabelRuleSchema } from "../schemas.js";
+import {
+  MAPPABLE_FIELDS,
+  listLabelRules,
+  createLabelRule,
+  deleteLabelRule,
+} from "../services/labelRules.js";
+
+const router = Router();
+router.use(authMiddleware);
+
+/**
+ * GET /api/label-rules
+ *
+ * All rules, or with `?company_id=` the rules that apply to that company
+ * (its own + global), in the order the parser consults them.
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const raw = req.query.company_id;
+    const companyId = typeof raw === "string" && raw !== "" ? Number(raw) : undefined;
+    if (companyId !== undefined && !Number.isInteger(companyId)) {
+      res.status(400).json({ error: "company_id must be an integer" });
+      return;
+    }
+    res.json(await listLabelRules(companyId));
+  } catch (err) {
+    console.error("Error fetching label rules:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Period fields a rule can map to
+router.get("/fields", (_req: AuthRequest, res: Response): void => {
+  res.json(MAPPABLE_FIELDS);
+});
+
+// Create a rule
+router.post("/", requireEditor, validate(CreateLabelRuleSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await createLabelRule(req.body, req.userId);
+    if ("_errorStatus" in result) {
+      res.status(result._errorStatus).json({ error: result.error });
+      return;
+    }
+    res.status(201).json(result);
+  } catch (err) {
+    console.error("Error creating label rule:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Delete a rule
+router.delete("/:id", requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await deleteLabelRule(String(req.params.id), req.userId);
+    if (!rule) {
+      res.status(404).json({ error: "Label rule not found" });
+      return;
+    }
+    res.json({ message: "Label rule deleted" });
+  } catch (err) {
+    console.error("Error deleting label rule:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
@@ -1,9 +1,11 @@
 import { Router, Response } from "express";
 import pool from "../models/db.js";
-import { AuthRequest, authMiddleware } from "../middleware/auth.js";
+import { AuthRequest, authMiddleware, requireEditor } from "../middleware/auth.js";
 import { validate } from "../middleware/validate.js";
 import { CreateModelSchema, UpdateModelSchema, BulkPeriodsSchema } from "../schemas.js";
 import { buildPeriodUpsertSQL, extractPeriodParams, COLUMNS_FULL } from "../services/periodUpsert.js";
+import { recordAuditEvent, snapshotPeriods, diffPeriods, withTransaction } from "../services/auditLog.js";
+import { calendarYearPeriods, ltmPeriods } from "../services/periodAggregation.js";
 
 const router = Router();
 router.use(authMiddleware);
@@ -61,6 +63,9 @@ router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
     res.json({
       ...modelResult.rows[0],
       periods: periodsResult.rows,
+      // Roll-ups of quarterly / monthly periods (empty for annual models)
+      calendar_periods: calendarYearPeriods(periodsResult.rows),
+      ltm_periods: ltmPeriods(periodsResult.rows),
       geography: geoResult.rows,
       services: serviceResult.rows,
     });
@@ -71,16 +76,26 @@ router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
 });
 
 // Create model
-router.post("/", validate(CreateModelSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.post("/", requireEditor, validate(CreateModelSchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { company_id, name, description, model_type, model_parameters } = req.body;
 
-    const result = await pool.query(
-      `INSERT INTO financial_models (company_id, name, description, model_type, model_parameters, created_by)
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
-      [company_id, name, description, model_type || "base", model_parameters ? JSON.stringify(model_parameters) : null, req.userId]
-    );
-    res.status(201).json(result.rows[0]);
+    const model = await withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO financial_models (company_id, name, description, model_type, model_parameters, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [company_id, name, description, model_type || "base", model_parameters ? JSON.stringify(model_parameters) : null, req.userId]
+      );
+      await recordAuditEvent(client, {
+        userId: req.userId,
+        entityType: "model",
+        entityId: result.rows[0].id,
+        action: "create",
+        after: result.rows[0],
+      });
+      return result.rows[0];
+    });
+    res.status(201).json(model);
   } catch (err: any) {
     if (err.code === "23505") {
       res
@@ -94,25 +109,40 @@ router.post("/", validate(CreateModelSchema), async (req: AuthRequest, res: Resp
 });
 
 // Update model
-router.put("/:id", validate(UpdateModelSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.put("/:id", requireEditor, validate(UpdateModelSchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const { name, description, model_type, is_active, model_parameters } = req.body;
 
-    const result = await pool.query(
-      `UPDATE financial_models 
-       SET name = COALESCE($1, name), description = COALESCE($2, description),
-           model_type = COALESCE($3, model_type), is_active = COALESCE($4, is_active),
-           model_parameters = COALESCE($5, model_parameters),
-           updated_at = NOW()
-       WHERE id = $6 RETURNING *`,
-      [name, description, model_type, is_active, model_parameters ? JSON.stringify(model_parameters) : null, id]
-    );
-    if (result.rows.length === 0) {
+    const model = await withTransaction(async (client) => {
+      const before = await client.query("SELECT * FROM financial_models WHERE id = $1 FOR UPDATE", [id]);
+      if (before.rows.length === 0) return null;
+
+      const result = await client.query(
+        `UPDATE financial_models 
+         SET name = COALESCE($1, name), description = COALESCE($2, description),
+             model_type = COALESCE($3, model_type), is_active = COALESCE($4, is_active),
+             model_parameters = COALESCE($5, model_parameters),
+             updated_at = NOW()
+         WHERE id = $6 RETURNING *`,
+        [name, description, model_type, is_active, model_parameters ? JSON.stringify(model_parameters) : null, id]
+      );
+      await recordAuditEvent(client, {
+        userId: req.userId,
+        entityType: "model",
+        entityId: result.rows[0].id,
+        action: "update",
+        before: before.rows[0],
+        after: result.rows[0],
+      });
+      return result.rows[0];
+    });
+
+    if (!model) {
       res.status(404).json({ error: "Model not found" });
       return;
     }
-    res.json(result.rows[0]);
+    res.json(model);
   } catch (err) {
     console.error("Error updating model:", err);
     res.status(500).json({ error: "Internal server error" });
@@ -122,14 +152,26 @@ router.put("/:id", validate(UpdateModelSchema), async (req: AuthRequest, res: Re
 // Delete model
 router.delete(
   "/:id",
+  requireEditor,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const result = await pool.query(
-        "DELETE FROM financial_models WHERE id = $1 RETURNING id",
-        [id]
-      );
-      if (result.rows.length === 0) {
+      const model = await withTransaction(async (client) => {
+        const result = await client.query(
+          "DELETE FROM financial_models WHERE id = $1 RETURNING *",
+          [id]
+        );
+        if (result.rows.length === 0) return null;
+        await recordAuditEvent(client, {
+          userId: req.userId,
+          entityType: "model",
+          entityId: result.rows[0].id,
+          action: "delete",
+          before: result.rows[0],
+        });
+        return result.rows[0];
+      });
+      if (!model) {
         res.status(404).json({ error: "Model not found" });
         return;
       }
@@ -144,6 +186,7 @@ router.delete(
 // Bulk upsert financial periods for a model
 router.post(
   "/:id/periods",
+  requireEditor,
   validate(BulkPeriodsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -152,7 +195,7 @@ router.post(
 
       // Verify model exists
       const modelCheck = await pool.query(
-        "SELECT id FROM financial_models WHERE id = $1",
+        "SELECT id, name FROM financial_models WHERE id = $1",
         [id]
       );
       if (modelCheck.rows.length === 0) {
@@ -164,6 +207,7 @@ router.post(
       const { sql } = buildPeriodUpsertSQL({ columns: COLUMNS_FULL, strategy: "overwrite", returning: true });
       try {
         await client.query("BEGIN");
+        const before = await snapshotPeriods(client, id);
 
         const inserted = [];
         for (const p of periods) {
@@ -172,6 +216,16 @@ router.post(
           inserted.push(result.rows[0]);
         }
 
+        await recordAuditEvent(client, {
+          userId: req.userId,
+          entityType: "period",
+          entityId: modelCheck.rows[0].id,
+          entityName: modelCheck.rows[0].name,
+          action: "update",
+          changes: diffPeriods(before, await snapshotPeriods(client, id)),
+          metadata: { periods: inserted.length },
+        });
+
         await client.query("COMMIT");
         res.status(201).json({ count: inserted.length, periods: inserted });
       } catch (err) {
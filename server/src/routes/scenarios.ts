@@ -1,11 +1,18 @@
 import { Router, Response } from "express";
-import { AuthRequest, authMiddleware } from "../middleware/auth.js";
+import { AuthRequest, authMiddleware, requireEditor, EDITOR_ROLES } from "../middleware/auth.js";
 import { validate } from "../middleware/validate.js";
 import {
   CreateScenarioSchema,
   UpdateScenarioSchema,
+  CloneScenarioSchema,
   CalculateReturnsSchema,
   SensitivitySchema,
+  SimulationSchema,
+  TornadoSchema,
+  GoalSeekSchema,
+  DcfSchema,
+  ContributionSchema,
+  EpsAccretionSchema,
   BulkReturnsSchema,
 } from "../schemas.js";
 import type { DealParameters } from "../services/dealReturns.js";
@@ -14,15 +21,29 @@ import {
   compareModels,
   getScenarioWithRelatedData,
   createScenario,
+  cloneScenario,
   updateScenario,
   calculateReturnsForScenario,
   runSensitivityGrid,
+  runMonteCarloSimulation,
+  runTornado,
+  runGoalSeek,
+  runDcf,
+  runContribution,
+  runEpsAccretion,
+  runVariance,
   bulkUpsertReturns,
   generateAndPersistProForma,
   buildExcelExportData,
   buildPptExportData,
   deleteScenario,
+  restoreScenarioVersion,
+  runScenarioComparison,
+  buildComparisonExcel,
+  buildComparisonPpt,
 } from "../services/scenarioService.js";
+import { parseComparisonQuery } from "../services/scenarioComparison.js";
+import { listScenarioVersions, diffScenarioVersions } from "../services/scenarioVersions.js";
 
 const router = Router();
 router.use(authMiddleware);
@@ -53,7 +74,9 @@ router.get(
         return;
       }
 
-      const result = await compareModels(acquirerModelId, targetModelId, req.userId);
+      // Viewers can compare, but must not trigger the scenario auto-create
+      const canCreate = EDITOR_ROLES.includes(req.userRole ?? "");
+      const result = await compareModels(acquirerModelId, targetModelId, req.userId, canCreate);
       if ("_errorStatus" in result) {
         res.status(result._errorStatus).json({ error: result.error });
         return;
@@ -66,6 +89,74 @@ router.get(
   }
 );
 
+// Compare 2–5 saved scenarios side by side at one exit multiple
+router.get("/comparison", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const query = parseComparisonQuery(req.query);
+    if ("error" in query) {
+      res.status(400).json({ error: query.error });
+      return;
+    }
+    const comparison = await runScenarioComparison(query.ids, query);
+    if (!comparison) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    res.json(comparison);
+  } catch (err) {
+    console.error("Error comparing scenarios:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Export the scenario comparison as Excel (.xlsx)
+router.get("/comparison/export-excel", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const query = parseComparisonQuery(req.query);
+    if ("error" in query) {
+      res.status(400).json({ error: query.error });
+      return;
+    }
+    const result = await buildComparisonExcel(query.ids, query);
+    if (!result) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    const { workbook, fileName } = result;
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    await workbook.xlsx.write(res);
+    res.end();
+  } catch (err) {
+    console.error("Error exporting scenario comparison to Excel:", err);
+    res.status(500).json({ error: "Failed to export Excel file" });
+  }
+});
+
+// Export the scenario comparison as PowerPoint (.pptx)
+router.get("/comparison/export-ppt", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const query = parseComparisonQuery(req.query);
+    if ("error" in query) {
+      res.status(400).json({ error: query.error });
+      return;
+    }
+    const result = await buildComparisonPpt(query.ids, query);
+    if (!result) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    const { pres, fileName } = result;
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.presentationml.presentation");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    const pptxData = await pres.write({ outputType: "nodebuffer" });
+    res.send(pptxData);
+  } catch (err) {
+    console.error("Error exporting scenario comparison to PPT:", err);
+    res.status(500).json({ error: "Failed to export PowerPoint file" });
+  }
+});
+
 // Get scenario with all related data
 router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -82,7 +173,7 @@ router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
 });
 
 // Create scenario
-router.post("/", validate(CreateScenarioSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.post("/", requireEditor, validate(CreateScenarioSchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const row = await createScenario(req.body, req.userId);
     res.status(201).json(row);
@@ -92,10 +183,25 @@ router.post("/", validate(CreateScenarioSchema), async (req: AuthRequest, res: R
   }
 });
 
+// Clone scenario as a what-if branch of it
+router.post("/:id/clone", requireEditor, validate(CloneScenarioSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const row = await cloneScenario(req.params.id, req.body, req.userId);
+    if (!row) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    res.status(201).json(row);
+  } catch (err) {
+    console.error("Error cloning scenario:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Update scenario
-router.put("/:id", validate(UpdateScenarioSchema), async (req: AuthRequest, res: Response): Promise<void> => {
+router.put("/:id", requireEditor, validate(UpdateScenarioSchema), async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const result = await updateScenario(req.params.id, req.body);
+    const result = await updateScenario(req.params.id, req.body, { userId: req.userId });
     if (result && "_errorStatus" in result) {
       res.status(result._errorStatus).json({ error: result.error });
       return;
@@ -111,14 +217,77 @@ router.put("/:id", validate(UpdateScenarioSchema), async (req: AuthRequest, res:
   }
 });
 
+// List saved versions of a scenario (newest first)
+router.get("/:id/versions", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const versions = await listScenarioVersions(req.params.id);
+    if (!versions) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    res.json(versions);
+  } catch (err) {
+    console.error("Error fetching scenario versions:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Field-level diff between two versions, incl. the resulting IRR/MoM change
+router.get("/:id/versions/diff", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      res.status(400).json({ error: "from and to version numbers are required" });
+      return;
+    }
+
+    const result = await diffScenarioVersions(req.params.id, from, to);
+    if ("_errorStatus" in result) {
+      res.status(result._errorStatus).json({ error: result.error });
+      return;
+    }
+    res.json(result);
+  } catch (err) {
+    console.error("Error diffing scenario versions:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Roll the scenario back to an earlier version (recorded as a new version)
+router.post("/:id/versions/:version/restore", requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const version = Number(req.params.version);
+    if (!Number.isInteger(version)) {
+      res.status(400).json({ error: "Invalid version number" });
+      return;
+    }
+
+    const result = await restoreScenarioVersion(req.params.id, version, req.userId);
+    if (result && "_errorStatus" in result) {
+      res.status(result._errorStatus).json({ error: result.error });
+      return;
+    }
+    if (!result) {
+      res.status(404).json({ error: "Scenario version not found" });
+      return;
+    }
+    res.json(result);
+  } catch (err) {
+    console.error("Error restoring scenario version:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Calculate returns from deal parameters + financial data
 router.post(
   "/:id/calculate-returns",
+  requireEditor,
   validate(CalculateReturnsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
       const dp = req.body.deal_parameters as DealParameters;
-      const result = await calculateReturnsForScenario(req.params.id, dp);
+      const result = await calculateReturnsForScenario(req.params.id, dp, req.userId);
       if (!result) {
         res.status(404).json({ error: "Scenario not found" });
         return;
@@ -154,13 +323,151 @@ router.post(
   }
 );
 
+// Monte Carlo simulation: IRR / MoM distribution from input distributions
+router.post(
+  "/:id/simulate",
+  validate(SimulationSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runMonteCarloSimulation(req.params.id, req.body);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      if ("_errorStatus" in result) {
+        res.status(result._errorStatus as number).json({ error: result.error });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error running simulation:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Tornado: IRR / MoM swing per parameter, one parameter at a time
+router.post(
+  "/:id/tornado",
+  validate(TornadoSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runTornado(req.params.id, req.body);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error computing tornado:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Goal seek: parameter value that hits a target IRR / MoM
+router.post(
+  "/:id/goal-seek",
+  validate(GoalSeekSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runGoalSeek(req.params.id, req.body);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      if ("_errorStatus" in result) {
+        res.status(result._errorStatus as number).json({ error: result.error });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error running goal seek:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// DCF valuation of acquirer, target and pro forma
+router.post(
+  "/:id/dcf",
+  validate(DcfSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runDcf(req.params.id, req.body);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error computing DCF:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Contribution vs ownership with exchange ratios at different prices
+router.post(
+  "/:id/contribution",
+  validate(ContributionSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runContribution(req.params.id, req.body);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error computing contribution analysis:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// EPS and FCF per share accretion / dilution with breakeven synergies
+router.post(
+  "/:id/eps-accretion",
+  validate(EpsAccretionSchema),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const result = await runEpsAccretion(req.params.id, req.body.base_params);
+      if (!result) {
+        res.status(404).json({ error: "Scenario not found" });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      console.error("Error computing EPS accretion:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Actuals after closing against the IC plan
+router.get("/:id/variance", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await runVariance(req.params.id);
+    if (!result) {
+      res.status(404).json({ error: "Scenario not found" });
+      return;
+    }
+    res.json(result);
+  } catch (err) {
+    console.error("Error computing variance report:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Bulk upsert deal returns
 router.post(
   "/:id/returns",
+  requireEditor,
   validate(BulkReturnsSchema),
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const result = await bulkUpsertReturns(req.params.id, req.body.returns);
+      const result = await bulkUpsertReturns(req.params.id, req.body.returns, req.userId);
       res.status(201).json(result);
     } catch (err) {
       console.error("Error upserting deal returns:", err);
@@ -172,9 +479,10 @@ router.post(
 // Generate pro forma combined periods
 router.post(
   "/:id/generate-pro-forma",
+  requireEditor,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const result = await generateAndPersistProForma(req.params.id);
+      const result = await generateAndPersistProForma(req.params.id, req.userId);
       if (!result) {
         res.status(404).json({ error: "Scenario not found" });
         return;
@@ -214,7 +522,7 @@ router.get(
   "/:id/export-ppt",
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const result = await buildPptExportData(req.params.id);
+      const result = await buildPptExportData(req.params.id, { tornado: req.query.tornado === "1" });
       if (!result) {
         res.status(404).json({ error: "Scenario not found" });
         return;
@@ -235,9 +543,10 @@ router.get(
 // Delete scenario
 router.delete(
   "/:id",
+  requireEditor,
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
-      const deleted = await deleteScenario(req.params.id);
+      const deleted = await deleteScenario(req.params.id, req.userId);
       if (!deleted) {
         res.status(404).json({ error: "Scenario not found" });
         return;
@@ -7,6 +7,7 @@ const num = z.coerce.number();
 const posNum = z.coerce.number().positive();
 const nonNegNum = z.coerce.number().min(0);
 const pct = z.coerce.number().min(0).max(1); // decimal percentage 0-1
+const rate = z.coerce.number().min(-0.05).max(1); // interest rate, may be slightly negative (e.g. EURIBOR)
 const optNum = num.optional();
 const optNonNegNum = nonNegNum.optional();
 const optPct = pct.optional();
@@ -89,6 +90,7 @@ const FinancialPeriodSchema = z.object({
   period_date: z.string().min(1, "period_date is required"),
   period_label: z.string().optional(),
   period_type: z.string().optional(),
+  period_granularity: z.enum(["annual", "quarterly", "monthly"]).optional(),
   revenue_managed_services: optNum,
   revenue_professional_services: optNum,
   revenue_other: optNum,
@@ -119,6 +121,17 @@ const FinancialPeriodSchema = z.object({
   minority_interest: optNum,
   operating_fcf_excl_minorities: optNum,
   cash_conversion: optNum,
+  depreciation: optNum,
+  amortisation: optNum,
+  net_financial_items: optNum,
+  net_income: optNum,
+  trade_receivables: optNum,
+  trade_payables: optNum,
+  work_in_progress: optNum,
+  deferred_revenue: optNum,
+  cash: optNum,
+  gross_debt: optNum,
+  lease_liabilities: optNum,
   share_count: optNum,
   nibd: optNum,
   option_debt: optNum,
@@ -153,6 +166,25 @@ const SourceUseItem = z.object({
   type: z.string().optional(),
 }).catchall(z.unknown());
 
+const SynergyItemSchema = z.object({
+  name: z.string().max(200),
+  category: z.enum(["it", "premises", "headcount", "procurement", "other"]),
+  run_rate: nonNegNum,
+  start_year: z.coerce.number().int().min(1900).max(2200),
+  template: z.enum(["25_50_100", "s_curve", "linear_3", "immediate", "custom"]),
+  custom_phasing: z.array(pct).max(20).optional(),
+  probability: optPct,
+});
+
+const AddOnTargetSchema = z.object({
+  target_model_id: z.coerce.number().int().positive(),
+  close_date: z.string().min(1),
+  price_paid: optNonNegNum.nullable(),
+  sources: z.array(SourceUseItem).optional(),
+  uses: z.array(SourceUseItem).optional(),
+  cost_synergies_timeline: z.record(z.string(), z.coerce.number()).optional(),
+});
+
 export const CreateScenarioSchema = z.object({
   name: z.string().min(1, "Scenario name is required").max(200),
   description: z.string().max(2000).optional(),
@@ -173,6 +205,12 @@ export const CreateScenarioSchema = z.object({
   cost_synergies_timeline: z.record(z.string(), z.coerce.number()).optional().default({}),
 });
 
+// Clone scenario: new name (defaults to "<name> (copy)")
+export const CloneScenarioSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+});
+
 // Update scenario: all fields optional, but validated if present
 export const UpdateScenarioSchema = z.object({
   name: z.string().min(1).max(200).optional(),
@@ -192,12 +230,40 @@ export const UpdateScenarioSchema = z.object({
   uses: z.array(SourceUseItem).optional(),
   exit_date: z.string().optional(),
   cost_synergies_timeline: z.record(z.string(), z.coerce.number()).optional(),
+  revenue_synergies_timeline: z.record(z.string(), z.coerce.number()).optional(),
+  revenue_synergy_margin: optPct.nullable(),
+  synergy_realisation: z.record(z.string(), pct).optional(),
+  integration_costs_timeline: z.record(z.string(), nonNegNum).optional(),
+  synergy_items: z.array(SynergyItemSchema).max(100).optional(),
+  add_on_targets: z.array(AddOnTargetSchema).max(20).optional(),
+  base_rate_curve: z.record(z.string(), rate).optional(),
+  interest_margin: optPct.nullable(),
+  hedge_ratio: optPct.nullable(),
+  swap_rate: rate.optional().nullable(),
+  reporting_currency: z.string().max(20).optional().nullable(),
+  fx_rates: z.record(
+    z.string(),
+    z.union([posNum, z.record(z.string().regex(/^\d{4}$/, "FX rate years must be YYYY"), posNum)]),
+  ).optional(),
+  actuals_model_id: z.coerce.number().int().positive().optional().nullable(),
+  ic_version: z.coerce.number().int().positive().optional().nullable(),
   deal_parameters: z.record(z.string(), z.unknown()).optional(),
   status: z.string().optional(),
 }).catchall(z.unknown());
 
 // ── Deal Parameters (the core financial engine input) ──
 
+const DebtTrancheSchema = z.object({
+  name: z.string().min(1, "Tranche name is required").max(100),
+  amount: nonNegNum,
+  interest_rate: pct,
+  amortisation: optNonNegNum,
+  margin: optPct,
+  seniority: z.coerce.number().int().min(1).optional(),
+  sweep_eligible: z.boolean().optional(),
+  pik: z.boolean().optional(),
+});
+
 export const DealParametersSchema = z.object({
   price_paid: posNum.optional(), // auto-derived from Uses total when S&U exists
   tax_rate: pct,
@@ -207,6 +273,8 @@ export const DealParametersSchema = z.object({
   nwc_pct_revenue: optPct,
   capex_pct_revenue: optPct,
   da_pct_revenue: optPct,
+  ppa_intangibles: optNonNegNum,
+  ppa_amortisation_years: z.number().int().min(1).max(50).optional(),
   target_capex_pct_revenue: optPct,
   target_nwc_pct_revenue: optPct,
   minority_pct: optPct,
@@ -220,6 +288,12 @@ export const DealParametersSchema = z.object({
   interest_rate: optPct,
   rollover_equity: optNonNegNum,
   cash_sweep_pct: optPct,
+  debt_tranches: z.array(DebtTrancheSchema).max(10).optional(),
+  base_rate_curve: z.record(z.string(), rate).optional(),
+  interest_margin: optPct,
+  hedge_ratio: optPct,
+  swap_rate: rate.optional(),
+  base_rate_shift: z.coerce.number().min(-1).max(1).optional(),
 
   // Share tracking
   entry_shares: optNum,
@@ -236,10 +310,24 @@ export const DealParametersSchema = z.object({
   existing_warrants_price: optNum,
   dilution_base_shares: optNum,
 
-  // Deprecated (accepted but ignored)
-  nibd_target: optNum,
+  // DCF valuation (not used in IRR calc)
   wacc: optNum,
+  terminal_method: z.enum(["gordon", "exit_multiple"]).optional(),
   terminal_growth: optNum,
+  terminal_multiple: optNum,
+
+  // Comp set the exit multiple range was filled from (not used in IRR calc)
+  comp_set: z.object({
+    kind: z.enum(["trading", "transaction"]).optional(),
+    sector: z.string().max(100).optional(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+    ids: z.array(z.coerce.number().int().positive()).optional(),
+    metric: z.enum(["ev_ebitda_ltm", "ev_ebitda_ntm", "ev_revenue_ltm", "ev_revenue_ntm"]),
+  }).optional(),
+
+  // Deprecated (accepted but ignored)
+  nibd_target: optNum,
 }).catchall(z.unknown()); // allow forward-compat fields
 
 export const CalculateReturnsSchema = z.object({
@@ -248,6 +336,13 @@ export const CalculateReturnsSchema = z.object({
 
 // ── Sensitivity analysis ──
 
+/** Parameters with a setter in `sensitivityParamSetters` (tornado, goal seek). */
+const SensitivityParamName = z.enum([
+  "exit_multiple", "price_paid", "interest_rate", "ordinary_equity", "net_debt", "debt_amortisation",
+  "cash_sweep_pct", "preferred_equity_rate", "tax_rate", "preferred_equity", "da_pct_revenue",
+  "acquirer_entry_ev", "base_rate_shift",
+]);
+
 const SensitivityAxis = z.object({
   param: z.string().min(1, "Axis param name is required"),
   values: z
@@ -264,6 +359,88 @@ export const SensitivitySchema = z.object({
   return_case: z.string().optional().default("Kombinert"),
 });
 
+// ── Monte Carlo simulation ──
+
+const SimulationVariableName = z.enum(["exit_multiple", "synergy_realisation", "ebitda_haircut", "interest_rate"]);
+
+const DistributionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("normal"), mean: num, sd: nonNegNum }),
+  z.object({ type: z.literal("triangular"), min: num, mode: num, max: num })
+    .refine((d) => d.min <= d.mode && d.mode <= d.max, "Triangular needs min <= mode <= max"),
+  z.object({ type: z.literal("uniform"), min: num, max: num })
+    .refine((d) => d.min <= d.max, "Uniform needs min <= max"),
+]);
+
+export const SimulationSchema = z.object({
+  base_params: DealParametersSchema,
+  variables: z.partialRecord(SimulationVariableName, DistributionSchema),
+  correlations: z
+    .array(z.object({ a: SimulationVariableName, b: SimulationVariableName, rho: z.coerce.number().min(-1).max(1) }))
+    .max(6)
+    .optional()
+    .default([]),
+  iterations: z.coerce.number().int().min(100).max(10000).optional().default(2000),
+  hurdle_rate: rate.optional().default(0.2),
+  return_case: z.string().optional().default("Kombinert"),
+  bins: z.coerce.number().int().min(5).max(50).optional().default(20),
+  seed: z.coerce.number().int().optional(),
+});
+
+// ── Tornado ──
+
+const TornadoDeltaSchema = z.object({
+  low: num,
+  high: num,
+  mode: z.enum(["absolute", "relative"]),
+}).refine((d) => d.low <= d.high, "Tornado delta needs low <= high");
+
+export const TornadoSchema = z.object({
+  base_params: DealParametersSchema,
+  deltas: z.partialRecord(SensitivityParamName, TornadoDeltaSchema).optional().default({}),
+  params: z.array(SensitivityParamName).min(1).optional(),
+  return_case: z.string().optional().default("Kombinert"),
+});
+
+// ── Goal seek ──
+
+export const GoalSeekSchema = z.object({
+  base_params: DealParametersSchema,
+  param: SensitivityParamName,
+  metric: z.enum(["irr", "mom", "per_share_irr", "per_share_mom"]).optional().default("irr"),
+  target: num,
+  return_case: z.string().optional().default("Kombinert"),
+  exit_multiple: z.coerce.number().positive().optional(),
+  lower: optNum,
+  upper: optNum,
+  tolerance: z.coerce.number().positive().max(0.1).optional().default(1e-6),
+  max_iterations: z.coerce.number().int().min(1).max(200).optional().default(100),
+}).refine((d) => d.lower == null || d.upper == null || d.lower < d.upper, "lower must be below upper");
+
+// ── DCF valuation ──
+
+export const DcfSchema = z.object({
+  base_params: DealParametersSchema,
+  wacc: z.coerce.number().positive().max(1).optional(),
+  terminal_method: z.enum(["gordon", "exit_multiple"]).optional(),
+  terminal_growth: z.coerce.number().min(-0.1).max(0.2).optional(),
+  terminal_multiple: z.coerce.number().positive().optional(),
+});
+
+// ── Contribution analysis ──
+
+export const ContributionSchema = z.object({
+  base_params: DealParametersSchema,
+  // Target equity price relative to the deal price (1 = as modelled)
+  price_factors: z.array(posNum.max(10)).min(1).max(15).optional(),
+  issue_price: posNum.optional(),
+});
+
+// ── EPS accretion / dilution ──
+
+export const EpsAccretionSchema = z.object({
+  base_params: DealParametersSchema,
+});
+
 // ── Bulk upsert deal returns ──
 
 const DealReturnRow = z.object({
@@ -281,3 +458,38 @@ export const BulkReturnsSchema = z.object({
     .min(1, "At least one return row is required")
     .max(500, "Maximum 500 return rows"),
 });
+
+// ══════════════════════════════════════════════════════════════════
+// LABEL MAPPING RULES (Excel import)
+// ══════════════════════════════════════════════════════════════════
+
+export const CreateLabelRuleSchema = z.object({
+  pattern: z.string().trim().min(1, "Pattern is required").max(255),
+  match_type: z.enum(["exact", "regex"]).optional().default("exact"),
+  field_key: z.string().min(1, "field_key is required"),
+  /** Omit / null for a global rule. */
+  company_id: z.coerce.number().int().positive().nullable().optional(),
+});
+
+// ══════════════════════════════════════════════════════════════════
+// COMPARABLES (trading and transaction comps)
+// ══════════════════════════════════════════════════════════════════
+
+const optFinancial = z.coerce.number().nullable().optional();
+const optText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+export const CreateComparableSchema = z.object({
+  kind: z.enum(["trading", "transaction"]),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  acquirer: optText(255),
+  sector: optText(100),
+  country: optText(100),
+  as_of_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "as_of_date must be a date (YYYY-MM-DD)"),
+  currency: optText(3),
+  ev: posNum,
+  revenue_ltm: optFinancial,
+  revenue_ntm: optFinancial,
+  ebitda_ltm: optFinancial,
+  ebitda_ntm: optFinancial,
+  source: optText(255),
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import {
+  addOnCaseName,
+  addOnEquityByYear,
+  applyAddOnFunding,
+  computeAddOnReturns,
+  consolidateAddOns,
+  consolidationShare,
+  toAddOnDeal,
+  type LoadedAddOn,
+} from "../addOns.js";
+import { buildSynergyPlan, periodSynergies } from "../synergies.js";
+import { computeDynamicShares } from "../proForma.js";
+import {
+  computeLevel1Return,
+  computeLevel2Return,
+  type DealParameters,
+  type PeriodData,
+} from "../dealReturns.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function makePeriod(year: number, overrides: Record<string, any> = {}) {
+  return {
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: "200",
+    ...overrides,
+  };
+}
+
+const years = [2026, 2027, 2028, 2029];
+const acquirerPeriods = years.map((y) => makePeriod(y));
+const platformPeriods = years.map((y) => makePeriod(y, { revenue_total: "500", ebitda_total: "100", nibd: "-50" }));
+
+const addOnB: LoadedAddOn = {
+  target_model_id: 7,
+  name: "Target B",
+  close_date: "2027-07-01",
+  price_paid: 120,
+  sources: [{ name: "Bank", amount: 60, type: "debt" }, { name: "Equity", amount: 60, type: "equity" }],
+  cost_synergies_timeline: { "2028": 5, "2029": 5 },
+  periods: years.map((y) => makePeriod(y, { revenue_total: "200", ebitda_total: "40" })),
+};
+
+const params: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10], acquisition_date: "2026-01-01" };
+
+// ── Consolidation ──────────────────────────────────────────────────
+
+describe("consolidationShare", () => {
+  it("is the share of the period after the close date", () => {
+    expect(consolidationShare(new Date("2027-12-31"), "2027-07-01")).toBeCloseTo(183 / 365, 4);
+  });
+
+  it("is 1 once closed and 0 before closing", () => {
+    expect(consolidationShare(new Date("2028-12-31"), "2027-07-01")).toBe(1);
+    expect(consolidationShare(new Date("2026-12-31"), "2027-07-01")).toBe(0);
+    expect(consolidationShare(new Date("2026-12-31"), "2026-12-31")).toBe(0);
+  });
+});
+
+describe("consolidateAddOns", () => {
+  it("returns the platform periods unchanged without add-ons", () => {
+    expect(consolidateAddOns(acquirerPeriods, platformPeriods, [])).toBe(platformPeriods);
+  });
+
+  it("adds each add-on from its close date", () => {
+    const out = consolidateAddOns(acquirerPeriods, platformPeriods, [addOnB]);
+    expect(out).toHaveLength(4);
+    expect(out[0].revenue_total).toBe(500);
+    expect(out[1].revenue_total).toBeCloseTo(500 + 200 * 183 / 365, 4);
+    expect(out[2].revenue_total).toBe(700);
+    expect(out[2].ebitda_total).toBe(140);
+    expect(out[2].ebitda_margin).toBeCloseTo(0.2);
+  });
+
+  it("drops NIBD so FCF falls back to the EBITDA build-up", () => {
+    const out = consolidateAddOns(acquirerPeriods, platformPeriods, [addOnB]);
+    expect(out.every((p) => p.nibd === null)).toBe(true);
+  });
+
+  it("sums a reported and a derived ΔNWC as signed build-ups", () => {
+    const platform = years.map((y) => makePeriod(y, { change_nwc: "-10" }));
+    const addOn = { ...addOnB, periods: years.map((y) => makePeriod(y, { change_nwc: -4, change_nwc_derived: true })) };
+    const out = consolidateAddOns(acquirerPeriods, platform, [addOn]);
+    expect(out[2]).toMatchObject({ change_nwc: 6, change_nwc_derived: true });
+    expect(consolidateAddOns(acquirerPeriods, platform, [addOnB])[2].change_nwc).toBe(-10);
+  });
+});
+
+// ── Deal terms and funding ─────────────────────────────────────────
+
+describe("toAddOnDeal", () => {
+  it("splits the price into debt and equity", () => {
+    expect(toAddOnDeal(addOnB)).toEqual({
+      name: "Target B", close_date: "2027-07-01", price_paid: 120, debt: 60, equity: 60,
+    });
+  });
+
+  it("defaults the price to the Uses total and caps debt at the price", () => {
+    const deal = toAddOnDeal({
+      ...addOnB,
+      price_paid: null,
+      uses: [{ name: "EV", amount: 50 }],
+    });
+    expect(deal.price_paid).toBe(50);
+    expect(deal.debt).toBe(50);
+    expect(deal.equity).toBe(0);
+  });
+});
+
+describe("applyAddOnFunding", () => {
+  it("puts the spend and debt on the period the add-on closes in", () => {
+    const periods: PeriodData[] = years.map((y) => ({ ebitda: 300, period_date: `${y}-12-31` }));
+    applyAddOnFunding(periods, [toAddOnDeal(addOnB)]);
+    expect(periods[1].add_on_spend).toBe(-120);
+    expect(periods[1].add_on_debt).toBe(60);
+    expect(periods[0].add_on_spend).toBeUndefined();
+    expect(periods[2].add_on_spend).toBeUndefined();
+  });
+
+  it("groups equity by close year", () => {
+    expect(addOnEquityByYear([toAddOnDeal(addOnB)])).toEqual({ "2027": 60 });
+  });
+});
+
+describe("add-on spend in deal returns", () => {
+  const base: PeriodData[] = years.map((y) => ({ ebitda: 300, revenue: 1500, period_date: `${y}-12-31` }));
+  const withAddOn = (): PeriodData[] => {
+    const periods = base.map((p) => ({ ...p }));
+    applyAddOnFunding(periods, [toAddOnDeal(addOnB)]);
+    return periods;
+  };
+
+  it("Level 1 deducts the price from FCF in the close period", () => {
+    const a = computeLevel1Return(1000, base, params, 10);
+    const b = computeLevel1Return(1000, withAddOn(), params, 10);
+    expect(b.irr!).toBeLessThan(a.irr!);
+  });
+
+  it("Level 2 draws the add-on debt and injects the rest as equity", () => {
+    const l2: DealParameters = {
+      ...params, ordinary_equity: 500, net_debt: 500, interest_rate: 0.05, debt_amortisation: 0, cash_sweep_pct: 0,
+    };
+    const a = computeLevel2Return(1000, base, l2, 10, true);
+    const b = computeLevel2Return(1000, withAddOn(), l2, 10, true);
+    const row = b.schedule![1];
+    expect(row.add_on_debt).toBe(60);
+    expect(row.add_on_equity).toBe(60);
+    expect(row.closing_debt).toBeCloseTo(a.schedule![1].closing_debt + 60);
+    expect(a.schedule![1].add_on_debt).toBeUndefined();
+  });
+});
+
+// ── Share tracking ─────────────────────────────────────────────────
+
+describe("computeDynamicShares with add-on equity", () => {
+  it("issues add-on shares at the prior year's price per share × 1.2", () => {
+    const periods = [
+      makePeriod(2026, { share_count: "100", eqv_post_dilution: "10" }),
+      makePeriod(2027, { share_count: "100", eqv_post_dilution: "12.5" }),
+      makePeriod(2028, { share_count: "100", eqv_post_dilution: "15" }),
+    ];
+    const result = computeDynamicShares(periods, null, 0, { "2027": 60 });
+    // 60 / (10 × 1.2) = 5 new shares from 2027
+    expect(result.sharesByPeriod[1].addOnShares).toBeCloseTo(5);
+    expect(result.sharesByPeriod[2].shares).toBeCloseTo(105);
+    expect(result.entryShares).toBe(100);
+    expect(result.exitShares).toBeCloseTo(105);
+  });
+});
+
+// ── Synergies and incremental returns ──────────────────────────────
+
+describe("add-on synergies", () => {
+  it("adds each add-on's cost synergies to the scenario's plan", () => {
+    const plan = buildSynergyPlan({
+      cost_synergies_timeline: { "2028": 10 },
+      add_on_targets: [addOnB, { cost_synergies_timeline: { "2028": 2 } }],
+    });
+    expect(plan.add_on_cost).toEqual({ "2028": 7, "2029": 5 });
+    expect(periodSynergies(plan, "2028").cost).toBe(17);
+  });
+});
+
+describe("computeAddOnReturns", () => {
+  it("returns one incremental case per add-on and exit multiple", () => {
+    const cases = computeAddOnReturns(acquirerPeriods, [addOnB], params, [8, 10]);
+    expect(cases.map((c) => c.return_case)).toEqual(["Add-on 1: Target B", "Add-on 1: Target B"]);
+    expect(cases.map((c) => c.exit_multiple)).toEqual([8, 10]);
+    expect(cases[1].irr!).toBeGreaterThan(cases[0].irr!);
+  });
+
+  it("skips add-ons without a price", () => {
+    expect(computeAddOnReturns(acquirerPeriods, [{ ...addOnB, price_paid: 0 }], params, [10])).toEqual([]);
+  });
+
+  it("names cases by position and company", () => {
+    expect(addOnCaseName(1, "Target C")).toBe("Add-on 2: Target C");
+  });
+});
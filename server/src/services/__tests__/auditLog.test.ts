@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from "vitest";
+import type pg from "pg";
+import { diffRecords, diffPeriods, parseAuditFilters, recordAuditEvent } from "../auditLog.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function mockDb() {
+  return { query: vi.fn().mockResolvedValue({ rows: [] }) };
+}
+
+function period(label: string, overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: 1,
+    model_id: 10,
+    period_label: label,
+    period_date: new Date(Date.UTC(Number(label.slice(0, 4)), 11, 31)),
+    revenue_total: "100.0",
+    ebitda_total: "20.0",
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+// ── diffRecords ────────────────────────────────────────────────────
+
+describe("diffRecords", () => {
+  it("lists changed fields and ignores bookkeeping columns", () => {
+    const changes = diffRecords(
+      { id: 1, name: "A", sector: "IT", updated_at: "2026-01-01" },
+      { id: 1, name: "B", sector: "IT", updated_at: "2026-02-01" },
+    );
+    expect(changes).toEqual([{ field: "name", from: "A", to: "B" }]);
+  });
+
+  it("diffs JSON objects key by key", () => {
+    const changes = diffRecords(
+      { model_parameters: { shares_completion: 100, mip_share_pct: 0.05 } },
+      { model_parameters: { shares_completion: 120, mip_share_pct: 0.05 } },
+    );
+    expect(changes).toEqual([{ field: "model_parameters.shares_completion", from: 100, to: 120 }]);
+  });
+
+  it("compares arrays whole", () => {
+    const changes = diffRecords({ sources: [{ amount: 1 }] }, { sources: [{ amount: 2 }] });
+    expect(changes).toEqual([{ field: "sources", from: [{ amount: 1 }], to: [{ amount: 2 }] }]);
+  });
+
+  it("lists every non-null field on create and delete", () => {
+    const row = { id: 3, name: "Target Co", description: null, currency: "NOKm" };
+    expect(diffRecords(null, row).map((c) => c.field)).toEqual(["name", "currency"]);
+    expect(diffRecords(row, null)).toContainEqual({ field: "name", from: "Target Co", to: null });
+  });
+});
+
+// ── diffPeriods ────────────────────────────────────────────────────
+
+describe("diffPeriods", () => {
+  it("keys changes by period label", () => {
+    const changes = diffPeriods(
+      [period("2025A"), period("2026B")],
+      [period("2025A"), period("2026B", { revenue_total: "110.0" })],
+    );
+    expect(changes).toEqual([{ field: "2026B.revenue_total", from: "100.0", to: "110.0" }]);
+  });
+
+  it("reports added periods without model_id noise", () => {
+    const changes = diffPeriods([], [period("2027B")]);
+    expect(changes.map((c) => c.field)).toEqual([
+      "2027B.period_label",
+      "2027B.period_date",
+      "2027B.revenue_total",
+      "2027B.ebitda_total",
+    ]);
+  });
+});
+
+// ── recordAuditEvent ───────────────────────────────────────────────
+
+describe("recordAuditEvent", () => {
+  it("inserts the event with its diff", async () => {
+    const db = mockDb();
+    const written = await recordAuditEvent(db as unknown as pg.Pool, {
+      userId: 7,
+      entityType: "model",
+      entityId: 10,
+      action: "update",
+      before: { name: "Base" },
+      after: { name: "Budget" },
+      metadata: { source: "excel" },
+    });
+
+    expect(written).toBe(true);
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain("INSERT INTO audit_events");
+    expect(params).toEqual([
+      7, "model", 10, "Budget", "update",
+      JSON.stringify([{ field: "name", from: "Base", to: "Budget" }]),
+      JSON.stringify({ source: "excel" }),
+    ]);
+  });
+
+  it("skips updates that change nothing", async () => {
+    const db = mockDb();
+    const written = await recordAuditEvent(db as unknown as pg.Pool, {
+      userId: 7,
+      entityType: "company",
+      entityId: 1,
+      action: "update",
+      before: { name: "A" },
+      after: { name: "A" },
+    });
+    expect(written).toBe(false);
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it("records imports even without changes", async () => {
+    const db = mockDb();
+    const written = await recordAuditEvent(db as unknown as pg.Pool, {
+      userId: 7,
+      entityType: "period",
+      entityId: 10,
+      entityName: "Base",
+      action: "import",
+      changes: [],
+    });
+    expect(written).toBe(true);
+  });
+});
+
+// ── parseAuditFilters ──────────────────────────────────────────────
+
+describe("parseAuditFilters", () => {
+  it("applies defaults", () => {
+    expect(parseAuditFilters({})).toEqual({ limit: 50, offset: 0 });
+  });
+
+  it("parses all filters and caps the limit", () => {
+    expect(parseAuditFilters({
+      entity_type: "period", entity_id: "10", user_id: "2",
+      from: "2026-01-01", to: "2026-03-31", limit: "1000", offset: "50",
+    })).toEqual({
+      entity_type: "period", entity_id: 10, user_id: 2,
+      from: "2026-01-01", to: "2026-03-31", limit: 200, offset: 50,
+    });
+  });
+
+  it("rejects malformed values", () => {
+    expect(parseAuditFilters({ entity_type: "invoice" })).toHaveProperty("error");
+    expect(parseAuditFilters({ user_id: "abc" })).toHaveProperty("error");
+    expect(parseAuditFilters({ from: "01.01.2026" })).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { netWorkingCapital, nwcCashFlow, signedChangeNwc, withDerivedChangeNwc } from "../balanceSheet.js";
+
+describe("netWorkingCapital", () => {
+  it("nets receivables and WIP against payables and deferred revenue", () => {
+    expect(netWorkingCapital({ trade_receivables: "120", work_in_progress: "30", trade_payables: "50", deferred_revenue: "20" })).toBe(80);
+    // Liabilities stored with a negative sign count the same
+    expect(netWorkingCapital({ trade_receivables: 120, trade_payables: -50 })).toBe(70);
+    expect(netWorkingCapital({ cash: 100 })).toBeNull();
+  });
+});
+
+describe("withDerivedChangeNwc", () => {
+  const periods = [
+    { period_date: "2024-12-31", trade_receivables: "100", trade_payables: "40", change_nwc: null },
+    { period_date: "2025-12-31", trade_receivables: "130", trade_payables: "50", change_nwc: null },
+    { period_date: "2026-12-31", trade_receivables: "140", trade_payables: "50", change_nwc: "-4" },
+    { period_date: "2027-12-31", trade_receivables: "125", trade_payables: "55", change_nwc: null },
+  ];
+  const result = withDerivedChangeNwc(periods);
+
+  it("fills a missing change_nwc from the movement in NWC", () => {
+    expect(result[1]).toMatchObject({ change_nwc: 20, change_nwc_derived: true });
+    expect(result[3]).toMatchObject({ change_nwc: -20, change_nwc_derived: true });
+  });
+
+  it("keeps reported lines and leaves the first period without an opening balance", () => {
+    expect(result[2]).toBe(periods[2]);
+    expect(result[0]).toBe(periods[0]);
+    expect(withDerivedChangeNwc([periods[0], { period_date: "2025-12-31", change_nwc: null }])[1].change_nwc).toBeNull();
+  });
+});
+
+describe("nwcCashFlow", () => {
+  it("reads reported lines as an outflow and derived ones with their sign", () => {
+    expect(nwcCashFlow({ change_nwc: "12" })).toBe(-12);
+    expect(nwcCashFlow({ change_nwc: "-12" })).toBe(-12);
+    expect(nwcCashFlow({ change_nwc: -20, change_nwc_derived: true })).toBe(20);
+    expect(nwcCashFlow({ change_nwc: null })).toBeUndefined();
+  });
+
+  it("converts either kind to a signed build-up for weighting", () => {
+    expect(signedChangeNwc({ change_nwc: "-12" })).toBe(12);
+    expect(signedChangeNwc({ change_nwc: -20, change_nwc_derived: true })).toBe(-20);
+    expect(signedChangeNwc({})).toBeNull();
+  });
+});
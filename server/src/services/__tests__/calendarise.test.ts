@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { alignTargetPeriods, getTargetAlignment } from "../calendarise.js";
+import { buildProFormaPeriods, buildProFormaPeriodData } from "../proForma.js";
+import type { DealParameters } from "../dealReturns.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function makePeriod(date: string, label: string, overrides: Record<string, any> = {}) {
+  return {
+    period_date: new Date(date),
+    period_label: label,
+    revenue_total: "1000",
+    ebitda_total: "200",
+    ...overrides,
+  };
+}
+
+const acquirer = [
+  makePeriod("2025-12-31", "2025E"),
+  makePeriod("2026-12-31", "2026E"),
+];
+
+// June year-end target: FY25/26 ends 2026-06-30
+const juneTarget = [
+  makePeriod("2025-06-30", "FY24/25", { revenue_total: "400", ebitda_total: "40", nibd: "100" }),
+  makePeriod("2026-06-30", "FY25/26", { revenue_total: "600", ebitda_total: "60", nibd: "80" }),
+  makePeriod("2027-06-30", "FY26/27", { revenue_total: "800", ebitda_total: "80", nibd: "60" }),
+];
+
+// ── alignTargetPeriods ─────────────────────────────────────────────
+
+describe("alignTargetPeriods", () => {
+  it("uses exact date matches as-is", () => {
+    const target = [makePeriod("2025-12-31", "2025E", { revenue_total: "500" })];
+    const aligned = alignTargetPeriods([acquirer[0]], target);
+    const match = aligned.get("2025-12-31")!;
+    expect(match.period).toBe(target[0]);
+    expect(match.alignment.status).toBe("exact");
+  });
+
+  it("time-weights a June year-end onto December", () => {
+    const aligned = alignTargetPeriods(acquirer, juneTarget);
+    const cy2025 = aligned.get("2025-12-31")!;
+    expect(cy2025.alignment.status).toBe("calendarised");
+    expect(cy2025.alignment.method).toBe("time_weighted");
+    expect(cy2025.alignment.sources.map((s) => [s.period_label, s.weight])).toEqual([
+      ["FY24/25", 0.5],
+      ["FY25/26", 0.5],
+    ]);
+    expect(cy2025.period.revenue_total).toBeCloseTo(500); // 0.5 × 400 + 0.5 × 600
+    expect(cy2025.period.ebitda_total).toBeCloseTo(50);
+    expect(cy2025.period.ebitda_margin).toBeCloseTo(0.1);
+    expect(cy2025.period.period_label).toBe("2025E");
+  });
+
+  it("takes balance items from the latest period before the year-end", () => {
+    const aligned = alignTargetPeriods(acquirer, juneTarget);
+    expect(aligned.get("2025-12-31")!.period.nibd).toBe("100"); // FY24/25 (Jun-2025)
+    expect(aligned.get("2026-12-31")!.period.nibd).toBe("80"); // FY25/26 (Jun-2026)
+  });
+
+  it("weights a March year-end 3/12 and 9/12", () => {
+    const target = [
+      makePeriod("2025-03-31", "FY24", { revenue_total: "400" }),
+      makePeriod("2026-03-31", "FY25", { revenue_total: "800" }),
+    ];
+    const match = alignTargetPeriods([acquirer[0]], target).get("2025-12-31")!;
+    expect(match.period.revenue_total).toBeCloseTo(700); // 0.25 × 400 + 0.75 × 800
+  });
+
+  it("reports a period as missing when the target years do not cover it", () => {
+    const target = juneTarget.slice(0, 2); // no FY26/27
+    const match = alignTargetPeriods(acquirer, target).get("2026-12-31")!;
+    expect(match.period).toBeNull();
+    expect(match.alignment.status).toBe("missing");
+    expect(match.alignment.sources).toHaveLength(1);
+  });
+});
+
+// ── Pro forma integration ──────────────────────────────────────────
+
+describe("buildProFormaPeriods with a non-December target", () => {
+  it("includes the calendarised target instead of zero", () => {
+    const result = buildProFormaPeriods(acquirer, juneTarget);
+    expect(result[0].target_revenue).toBeCloseTo(500);
+    expect(result[0].total_revenue).toBeCloseTo(1500);
+    expect(result[1].target_revenue).toBeCloseTo(700);
+    expect(getTargetAlignment(result[0])?.status).toBe("calendarised");
+  });
+
+  it("flags missing periods and leaves target figures at zero", () => {
+    const result = buildProFormaPeriods(acquirer, juneTarget.slice(0, 2));
+    expect(result[1].target_revenue).toBe(0);
+    expect(result[1].target_alignment?.status).toBe("missing");
+  });
+
+  it("records no alignment without a target", () => {
+    const result = buildProFormaPeriods(acquirer, []);
+    expect(result[0].target_alignment).toBeUndefined();
+  });
+
+  it("feeds the calendarised figures to the deal returns engine", () => {
+    const dp = { tax_rate: 0.22, exit_multiples: [10] } as DealParameters;
+    const data = buildProFormaPeriodData(acquirer, juneTarget, {}, dp);
+    expect(data[0].ebitda).toBeCloseTo(250); // 200 + 50
+  });
+
+  it("reads the alignment from stored rows", () => {
+    const stored = { extra_data: { target_alignment: { status: "missing", method: null, sources: [] } } };
+    expect(getTargetAlignment(stored)?.status).toBe("missing");
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import ExcelJS from "exceljs";
+import {
+  comparableMultiples,
+  compSetStats,
+  parseComparableDate,
+  parseComparableFilters,
+  parseComparableRows,
+  parseNumber,
+  quantile,
+  readComparableFile,
+  summariseMultiples,
+} from "../comparables.js";
+
+describe("comparableMultiples", () => {
+  it("divides EV by each denominator and skips missing or negative ones", () => {
+    const m = comparableMultiples({ ev: "1200", ebitda_ltm: "100", ebitda_ntm: -5, revenue_ltm: 600, revenue_ntm: null });
+    expect(m).toEqual({ ev_ebitda_ltm: 12, ev_ebitda_ntm: null, ev_revenue_ltm: 2, ev_revenue_ntm: null });
+  });
+});
+
+describe("statistics", () => {
+  it("interpolates quartiles like QUARTILE.INC", () => {
+    const sorted = [8, 10, 11, 14];
+    expect(quantile(sorted, 0.25)).toBeCloseTo(9.5);
+    expect(quantile(sorted, 0.5)).toBeCloseTo(10.5);
+    expect(quantile(sorted, 0.75)).toBeCloseTo(11.75);
+  });
+
+  it("summarises unsorted values and returns null when empty", () => {
+    expect(summariseMultiples([14, 8, 11, 10])).toEqual({ count: 4, min: 8, q1: 9.5, median: 10.5, q3: 11.75, max: 14, mean: 10.75 });
+    expect(summariseMultiples([])).toBeNull();
+  });
+
+  it("counts each multiple over the comps that have it", () => {
+    const stats = compSetStats([
+      { ev: 1000, ebitda_ltm: 100 },
+      { ev: 1200, ebitda_ltm: 100, revenue_ltm: 400 },
+    ]);
+    expect(stats.count).toBe(2);
+    expect(stats.multiples.ev_ebitda_ltm).toMatchObject({ count: 2, median: 11 });
+    expect(stats.multiples.ev_revenue_ltm).toMatchObject({ count: 1, median: 3 });
+    expect(stats.multiples.ev_ebitda_ntm).toBeNull();
+  });
+});
+
+describe("parseComparableFilters", () => {
+  it("parses kind, sector, dates and ids", () => {
+    expect(parseComparableFilters({ kind: "trading", sector: " IT services ", from: "2022-01-01", ids: "3, 5" }))
+      .toEqual({ kind: "trading", sector: "IT services", from: "2022-01-01", ids: [3, 5] });
+  });
+
+  it("rejects unknown kinds, bad dates and bad ids", () => {
+    expect(parseComparableFilters({ kind: "listed" })).toHaveProperty("error");
+    expect(parseComparableFilters({ to: "31.12.2024" })).toHaveProperty("error");
+    expect(parseComparableFilters({ ids: "1,x" })).toHaveProperty("error");
+  });
+});
+
+describe("import parsing", () => {
+  it("reads Norwegian and English numbers, brackets and an x suffix", () => {
+    expect(parseNumber("1 234,5")).toBe(1234.5);
+    expect(parseNumber("1,234.5")).toBe(1234.5);
+    expect(parseNumber("(12)")).toBe(-12);
+    expect(parseNumber("11.5x")).toBe(11.5);
+    expect(parseNumber("n/a")).toBeNull();
+  });
+
+  it("accepts ISO, Nordic and year-only dates", () => {
+    expect(parseComparableDate("2024-06-30")).toBe("2024-06-30");
+    expect(parseComparableDate("1.3.2023")).toBe("2023-03-01");
+    expect(parseComparableDate(2022)).toBe("2022-12-31");
+    expect(parseComparableDate(new Date(Date.UTC(2021, 4, 15)))).toBe("2021-05-15");
+    expect(parseComparableDate("last year")).toBeNull();
+  });
+
+  it("maps header aliases and applies the default kind", () => {
+    const { comparables, errors } = parseComparableRows(
+      [{ Company: "Peer A", Industry: "IT", Date: "2024-12-31", "Enterprise value": "1 500", "LTM EBITDA": "120", Acquirer: "X" }],
+      "trading"
+    );
+    expect(errors).toEqual([]);
+    expect(comparables).toEqual([{
+      kind: "trading", name: "Peer A", acquirer: null, sector: "IT", country: null, as_of_date: "2024-12-31",
+      currency: null, ev: 1500, revenue_ltm: null, revenue_ntm: null, ebitda_ltm: 120, ebitda_ntm: null, source: null,
+    }]);
+  });
+
+  it("reports invalid rows and skips blank ones", () => {
+    const { comparables, errors } = parseComparableRows([
+      { name: "Deal A", type: "precedent", date: "2023", ev: "800" },
+      { name: "Deal B", date: "2023", ev: "800" },
+      { name: "Deal C", type: "deal", date: "", ev: "800" },
+      { name: "Deal D", type: "deal", date: "2023", ev: "0" },
+      { name: "", type: "", date: "", ev: "" },
+    ]);
+    expect(comparables.map((c) => [c.name, c.kind])).toEqual([["Deal A", "transaction"]]);
+    expect(errors.map((e) => e.row)).toEqual([2, 3, 4]);
+  });
+
+  it("reads semicolon CSV and the first Excel sheet", async () => {
+    const csv = Buffer.from("name;date;ev;ebitda_ltm\nPeer A;2024-12-31;1 200,5;100\n");
+    expect(await readComparableFile(csv, "comps.csv")).toEqual([{ name: "Peer A", date: "2024-12-31", ev: "1 200,5", ebitda_ltm: "100" }]);
+
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet("Comps");
+    ws.addRow(["Name", "EV"]);
+    ws.addRow(["Peer B", 900]);
+    const rows = await readComparableFile(Buffer.from(await wb.xlsx.writeBuffer()), "comps.xlsx");
+    expect(rows).toEqual([{ Name: "Peer B", EV: 900 }]);
+  });
+});
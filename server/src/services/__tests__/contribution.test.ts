@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { contributionAnalysis, contributionRow, type ContributionInput } from "../contribution.js";
+
+// FCF given directly (NIBD-derived) so the shares can be checked by hand
+const base: ContributionInput = {
+  acquirer_name: "ECIT",
+  target_name: "Target",
+  periods: [
+    { period_label: "2025", acquirer: { ebitda: 300, revenue: 1500, nibd_fcf: 150 }, target: { ebitda: 100, revenue: 500, nibd_fcf: 50 } },
+    { period_label: "2026", acquirer: { ebitda: 330, revenue: 1600, nibd_fcf: 160 }, target: null },
+  ],
+  basis_index: 0,
+  dp: { price_paid: 500, tax_rate: 0.22, exit_multiples: [10] },
+  existing_shares: 100,
+  issued_shares: 10,          // 120 of S&U equity at 10 × 1.2
+  rollover_shares: 8,         // 80 of rollover at 10
+  entry_price_per_share: 10,
+  target_debt_like: 100,
+  target_shares: 40,
+  share_consideration: 200,
+};
+
+describe("contributionRow", () => {
+  it("splits the combined figure and leaves shares empty when a side is missing or the total is not positive", () => {
+    expect(contributionRow("ebitda", 300, 100)).toEqual({
+      metric: "ebitda", acquirer: 300, target: 100, total: 400, acquirer_pct: 0.75, target_pct: 0.25,
+    });
+    expect(contributionRow("fcf", 20, -50)).toMatchObject({ total: -30, acquirer_pct: null, target_pct: null });
+    expect(contributionRow("revenue", 100, null)).toMatchObject({ total: null, target_pct: null });
+  });
+});
+
+describe("contributionAnalysis", () => {
+  const result = contributionAnalysis(base);
+
+  it("compares the basis period and equity value with ownership", () => {
+    expect(result.basis_period).toBe("2025");
+    const byMetric = Object.fromEntries(result.contributions.map((c) => [c.metric, c.target_pct]));
+    expect(byMetric).toEqual({ revenue: 0.25, ebitda: 0.25, fcf: 0.25, equity_value: 400 / 1400 });
+    expect(result.ownership).toMatchObject({ total_shares: 118, acquirer_pct: 100 / 118, target_pct: 18 / 118 });
+    expect(result.periods[1].rows[1]).toMatchObject({ target: null, target_pct: null });
+  });
+
+  it("scales the shares issued with the price and reproduces the tracker at factor 1", () => {
+    const x = result.exchange!;
+    expect(x.share_funded_pct).toBe(0.5);
+    expect(x.issue_price).toBeCloseTo(200 / 18);
+    const at = (f: number) => x.points.find((p) => p.price_factor === f)!;
+    expect(at(1)).toMatchObject({ target_equity_value: 400, enterprise_value: 500, share_consideration: 200 });
+    expect(at(1).new_shares).toBeCloseTo(18);
+    expect(at(1).exchange_ratio).toBeCloseTo(0.45);
+    expect(at(1.2).new_shares).toBeCloseTo(21.6);
+    expect(at(1.2).target_ownership).toBeCloseTo(21.6 / 121.6);
+  });
+
+  it("solves the price at which ownership equals each contribution", () => {
+    const ebitda = result.exchange!.implied.find((i) => i.metric === "ebitda")!;
+    // 25% of the group: 100 / 3 new shares
+    expect(ebitda.new_shares).toBeCloseTo(100 / 3);
+    expect(ebitda.target_equity_value).toBeCloseTo(((100 / 3) * (200 / 18)) / 0.5);
+    expect(ebitda.price_factor).toBeCloseTo(ebitda.target_equity_value / 400);
+  });
+
+  it("shows a deal without share funding as all-share at entry PPS × 1.2", () => {
+    const x = contributionAnalysis({ ...base, issued_shares: 0, rollover_shares: 0, share_consideration: 0 }).exchange!;
+    expect(x).toMatchObject({ all_share: true, share_funded_pct: 1, issue_price: 12 });
+    expect(x.points.find((p) => p.price_factor === 1)!.new_shares).toBeCloseTo(400 / 12);
+  });
+
+  it("uses an issue price override and skips the exchange without share data", () => {
+    const x = contributionAnalysis({ ...base, issue_price: 20, price_factors: [1] }).exchange!;
+    expect(x.points).toHaveLength(1);
+    expect(x.points[0].new_shares).toBeCloseTo(10);
+
+    const noShares = contributionAnalysis({ ...base, existing_shares: null });
+    expect(noShares.ownership).toBeNull();
+    expect(noShares.exchange).toBeNull();
+    expect(noShares.contributions.find((c) => c.metric === "equity_value")).toMatchObject({ acquirer: null, target: 400 });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  discountFactor,
+  firstForecastIndex,
+  periodBridge,
+  resolveDcfAssumptions,
+  terminalValue,
+  valueEntity,
+  type DcfAssumptions,
+} from "../dcf.js";
+import type { DealParameters, PeriodData } from "../dealReturns.js";
+import { computeDcf } from "../scenarioService.js";
+import { buildSynergyPlan } from "../synergies.js";
+import type { ScenarioContext, ScenarioRow } from "../scenarioContext.js";
+
+const dp: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10, 11, 12, 13, 14] };
+const gordon: DcfAssumptions = { wacc: 0.1, terminal_method: "gordon", terminal_growth: 0.02, terminal_multiple: 12 };
+const bridge = { net_debt: 200, preferred_equity: 0, shares: 10, entry_ev: 1000, entry_per_share: 80 };
+
+// FCF given directly (NIBD-derived) so the discounting can be checked by hand
+const periods: PeriodData[] = [
+  { ebitda: 120, nibd_fcf: 100 },
+  { ebitda: 130, nibd_fcf: 110 },
+];
+
+describe("resolveDcfAssumptions", () => {
+  it("takes request overrides, then deal params, then defaults", () => {
+    expect(resolveDcfAssumptions(dp)).toEqual({ wacc: 0.09, terminal_method: "gordon", terminal_growth: 0.02, terminal_multiple: 12 });
+    const withDp = { ...dp, wacc: 0.08, terminal_method: "exit_multiple" as const, terminal_multiple: 9 };
+    expect(resolveDcfAssumptions(withDp, { wacc: 0.11 })).toMatchObject({ wacc: 0.11, terminal_method: "exit_multiple", terminal_multiple: 9 });
+  });
+});
+
+describe("forecast periods", () => {
+  it("starts after the last actual period and takes the bridge from it", () => {
+    const rows = [
+      { period_type: "actual", nibd: "300", share_count: "10" },
+      { period_type: "actual", nibd: "250", share_count: "11", preferred_equity: "50" },
+      { period_type: "budget", nibd: "200" },
+    ];
+    expect(firstForecastIndex(rows)).toBe(2);
+    expect(periodBridge(rows)).toEqual({ net_debt: 250, preferred_equity: 50, shares: 11 });
+  });
+
+  it("uses the first period when there are no actuals", () => {
+    expect(firstForecastIndex([{ period_type: "forecast" }])).toBe(0);
+    expect(periodBridge([{ period_type: "forecast", nibd: null }])).toEqual({ net_debt: 0, preferred_equity: 0, shares: null });
+  });
+});
+
+describe("terminalValue", () => {
+  it("applies Gordon growth or the exit multiple", () => {
+    expect(terminalValue(gordon, 110, 130)).toBeCloseTo((110 * 1.02) / 0.08);
+    expect(terminalValue({ ...gordon, terminal_method: "exit_multiple" }, 110, 130)).toBe(1560);
+  });
+
+  it("has no Gordon value when growth is not below WACC", () => {
+    expect(terminalValue({ ...gordon, terminal_growth: 0.1 }, 110, 130)).toBeNull();
+  });
+});
+
+describe("valueEntity", () => {
+  it("discounts FCF and the terminal value to EV, equity and per share", () => {
+    const v = valueEntity("acquirer", "Acq", periods, ["2026", "2027"], dp, gordon, bridge);
+    const pv = 100 / 1.1 + 110 / 1.1 ** 2;
+    const pvTv = ((110 * 1.02) / 0.08) * discountFactor(0.1, 2);
+    expect(v.sum_pv_fcf).toBeCloseTo(pv);
+    expect(v.pv_terminal_value).toBeCloseTo(pvTv);
+    expect(v.enterprise_value).toBeCloseTo(pv + pvTv);
+    expect(v.equity_value).toBeCloseTo(pv + pvTv - 200);
+    expect(v.value_per_share).toBeCloseTo((pv + pvTv - 200) / 10);
+    expect(v.ev_premium).toBeCloseTo((pv + pvTv) / 1000 - 1);
+    expect(v.per_share_premium).toBeCloseTo((pv + pvTv - 200) / 10 / 80 - 1);
+    expect(v.periods.map((p) => p.period_label)).toEqual(["2026", "2027"]);
+  });
+
+  it("builds FCF from EBITDA like the Level 1 returns", () => {
+    const [row] = valueEntity("target", "Tgt", [{ ebitda: 100, revenue: 500, capex: -10, change_nwc: -5 }], ["2026"], dp, gordon, bridge).periods;
+    // EBT proxy = 100 − 1 % × 500 = 95, tax 22 %
+    expect(row.tax).toBeCloseTo(-20.9);
+    expect(row.unlevered_fcf).toBeCloseTo(100 - 20.9 - 10 - 5);
+    expect(row.from_nibd).toBe(false);
+  });
+
+  it("deducts add-on prices but keeps them out of the terminal value", () => {
+    const v = valueEntity("pro_forma", "PF", [{ ebitda: 120, nibd_fcf: 100, add_on_spend: -50 }], ["2026"], dp, gordon, bridge);
+    expect(v.periods[0].unlevered_fcf).toBe(50);
+    expect(v.terminal_value).toBeCloseTo((100 * 1.02) / 0.08);
+  });
+
+  it("leaves values empty without periods or shares", () => {
+    const v = valueEntity("target", "Tgt", [], [], dp, gordon, { ...bridge, shares: null, entry_ev: null });
+    expect(v.enterprise_value).toBeNull();
+    expect(v.value_per_share).toBeNull();
+    expect(v.ev_premium).toBeNull();
+  });
+});
+
+describe("computeDcf", () => {
+  const period = (year: number, ebitda: string) => ({
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: ebitda,
+  });
+  const scenario = { id: 1 } as unknown as ScenarioRow;
+  const ctx: ScenarioContext = {
+    scenario,
+    acquirerPeriods: [2026, 2027, 2028].map((y) => period(y, "200")),
+    targetPeriods: [2026, 2027, 2028].map((y) => period(y, "100")),
+    acquirerModelParams: null,
+    synergiesTimeline: {},
+    synergyPlan: buildSynergyPlan(scenario),
+  };
+
+  it("bridges the pro forma value with the tranche-financed entry debt", () => {
+    const result = computeDcf(ctx, {
+      base_params: {
+        ...dp,
+        acquirer_entry_ev: 2000,
+        ordinary_equity: 500,
+        debt_tranches: [
+          { name: "TLA", amount: 400, interest_rate: 0.05 },
+          { name: "TLB", amount: 200, interest_rate: 0.08 },
+        ],
+      },
+    });
+    const proForma = result.valuations.find((v) => v.entity === "pro_forma")!;
+    expect(proForma.net_debt).toBe(600);
+    expect(proForma.equity_value).toBeCloseTo(proForma.enterprise_value! - 600);
+  });
+});
@@ -5,6 +5,11 @@ import {
   isLevel2,
   computeLevel1Return,
   computeLevel2Return,
+  resolveDebtTranches,
+  resolveBaseRate,
+  hedgedBaseRate,
+  entryDebtRate,
+  shiftDebtRate,
   calculateDealReturns,
   type DealParameters,
   type PeriodData,
@@ -140,6 +145,13 @@ describe("isLevel2", () => {
   it("returns false when ordinary_equity is zero", () => {
     expect(isLevel2(level2Params({ ordinary_equity: 0 }))).toBe(false);
   });
+
+  it("returns true when debt comes from tranches instead of net_debt", () => {
+    expect(isLevel2(level2Params({
+      net_debt: undefined,
+      debt_tranches: [{ name: "TLB", amount: 800, interest_rate: 0.06 }],
+    }))).toBe(true);
+  });
 });
 
 // ══════════════════════════════════════════════════════════════════
@@ -321,6 +333,238 @@ describe("computeLevel2Return", () => {
   });
 });
 
+// ══════════════════════════════════════════════════════════════════
+// LEVEL 2: MULTI-TRANCHE DEBT
+// ══════════════════════════════════════════════════════════════════
+
+describe("debt tranches", () => {
+  const periods = makePeriods(3, { ebitda: 300, revenue: 1500 });
+
+  it("resolves net_debt into a single implicit tranche when no tranches are set", () => {
+    const tranches = resolveDebtTranches(level2Params());
+    expect(tranches).toHaveLength(1);
+    expect(tranches[0]).toMatchObject({ amount: 800, interest_rate: 0.05, amortisation: 50 });
+  });
+
+  it("sorts tranches by seniority, keeping list order for ties", () => {
+    const tranches = resolveDebtTranches(level2Params({
+      debt_tranches: [
+        { name: "Second lien", amount: 200, interest_rate: 0.1, seniority: 2 },
+        { name: "RCF", amount: 100, interest_rate: 0.05, seniority: 1 },
+        { name: "TLB", amount: 500, interest_rate: 0.06, seniority: 1 },
+      ],
+    }));
+    expect(tranches.map((t) => t.name)).toEqual(["RCF", "TLB", "Second lien"]);
+  });
+
+  it("single tranche matches the net_debt model exactly", () => {
+    const single = computeLevel2Return(2000, periods, level2Params(), 12, true);
+    const tranched = computeLevel2Return(2000, periods, level2Params({
+      debt_tranches: [{ name: "TLB", amount: 800, interest_rate: 0.05, amortisation: 50 }],
+    }), 12, true);
+
+    expect(tranched.irr).toBeCloseTo(single.irr!, 10);
+    expect(tranched.exit_debt).toBeCloseTo(single.exit_debt!, 10);
+    expect(single.schedule![0].tranches).toBeUndefined();
+    expect(tranched.schedule![0].tranches).toHaveLength(1);
+  });
+
+  it("sweeps the senior tranche before touching the junior tranche", () => {
+    const params = level2Params({
+      debt_tranches: [
+        { name: "Senior", amount: 300, interest_rate: 0.06 },
+        { name: "Junior", amount: 500, interest_rate: 0.09 },
+      ],
+    });
+    const result = computeLevel2Return(2000, periods, params, 12, true);
+    const [senior, junior] = result.schedule![0].tranches!;
+
+    // UFCF = 300 − tax(0.22 × (300 − 15 − 63)) − 15 capex = 236.16; excess = 236.16 − 63 interest
+    expect(round(senior.interest, 2)).toBe(18);
+    expect(round(junior.interest, 2)).toBe(45);
+    expect(round(senior.sweep, 2)).toBe(173.16);
+    expect(junior.sweep).toBe(0);
+    expect(junior.closing).toBe(500);
+
+    // Year 2: senior is repaid in full, the remainder flows to the junior tranche
+    const year2 = result.schedule![1].tranches!;
+    expect(year2[0].closing).toBe(0);
+    expect(year2[1].sweep).toBeGreaterThan(0);
+  });
+
+  it("never sweeps a tranche that is not sweep-eligible", () => {
+    const params = level2Params({
+      debt_tranches: [
+        { name: "Bullet", amount: 400, interest_rate: 0.07, sweep_eligible: false },
+        { name: "TLB", amount: 400, interest_rate: 0.06 },
+      ],
+    });
+    const result = computeLevel2Return(2000, periods, params, 12, true);
+
+    for (const row of result.schedule!) {
+      expect(row.tranches![0].sweep).toBe(0);
+      expect(row.tranches![0].closing).toBe(400);
+    }
+    expect(result.schedule![0].tranches![1].sweep).toBeGreaterThan(0);
+  });
+
+  it("PIK tranche capitalises interest instead of paying cash", () => {
+    const params = level2Params({
+      cash_sweep_pct: 0,
+      debt_tranches: [
+        { name: "TLB", amount: 600, interest_rate: 0.06 },
+        { name: "Holdco PIK", amount: 200, interest_rate: 0.12, pik: true, sweep_eligible: false },
+      ],
+    });
+    const result = computeLevel2Return(2000, periods, params, 12, true);
+    const row = result.schedule![0];
+    const pik = row.tranches![1];
+
+    expect(pik.interest).toBe(0);
+    expect(round(pik.pik_interest, 2)).toBe(24);
+    expect(round(pik.closing, 2)).toBe(224);
+    // Aggregate interest is the cash interest only
+    expect(round(row.interest, 2)).toBe(36);
+    expect(round(row.closing_debt, 2)).toBe(824);
+  });
+
+  it("aggregate schedule rows equal the sum of the tranche rows", () => {
+    const params = level2Params({
+      debt_tranches: [
+        { name: "RCF", amount: 100, interest_rate: 0.05, amortisation: 20 },
+        { name: "TLB", amount: 500, interest_rate: 0.065, amortisation: 50 },
+        { name: "Second lien", amount: 200, interest_rate: 0.1, seniority: 3 },
+      ],
+    });
+    const result = computeLevel2Return(2000, periods, params, 12, true);
+
+    for (const row of result.schedule!) {
+      const sum = (key: "opening" | "interest" | "mandatory_amort" | "sweep" | "closing") =>
+        row.tranches!.reduce((s, t) => s + t[key], 0);
+      expect(row.opening_debt).toBeCloseTo(sum("opening"), 8);
+      expect(row.interest).toBeCloseTo(sum("interest"), 8);
+      expect(row.mandatory_amort).toBeCloseTo(sum("mandatory_amort"), 8);
+      expect(row.sweep).toBeCloseTo(sum("sweep"), 8);
+      expect(row.closing_debt).toBeCloseTo(sum("closing"), 8);
+    }
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+// LEVEL 2: FLOATING RATE
+// ══════════════════════════════════════════════════════════════════
+
+describe("floating rate", () => {
+  const periods = makePeriods(3, { ebitda: 300, revenue: 1500 });
+  const labels = ["2026E", "2027E", "2028E"];
+  const curve = { "2026": 0.045, "2027": 0.04 };
+
+  it("resolveBaseRate carries the last curve value forward", () => {
+    expect(resolveBaseRate(curve, 2026, 0)).toBe(0.045);
+    expect(resolveBaseRate(curve, 2027, 1)).toBe(0.04);
+    expect(resolveBaseRate(curve, 2030, 4)).toBe(0.04);
+    expect(resolveBaseRate(curve, 2024, 0)).toBe(0.045);
+  });
+
+  it("resolveBaseRate reads the curve by position without a year", () => {
+    expect(resolveBaseRate(curve, null, 0)).toBe(0.045);
+    expect(resolveBaseRate(curve, null, 5)).toBe(0.04);
+  });
+
+  it("hedgedBaseRate blends swap and floating by hedge ratio, shift hits floating only", () => {
+    const params = level2Params({ base_rate_curve: curve, hedge_ratio: 0.6, swap_rate: 0.035, base_rate_shift: 0.01 });
+    // 0.6 × 3.5% + 0.4 × (4.5% + 1%)
+    expect(hedgedBaseRate(params, 2026, 0)).toBeCloseTo(0.6 * 0.035 + 0.4 * 0.055, 10);
+  });
+
+  it("ignores the hedge when no swap rate is set", () => {
+    const params = level2Params({ base_rate_curve: curve, hedge_ratio: 1 });
+    expect(hedgedBaseRate(params, 2026, 0)).toBe(0.045);
+  });
+
+  it("net debt pays base rate + margin per year instead of interest_rate", () => {
+    const params = level2Params({ cash_sweep_pct: 0, debt_amortisation: 0, base_rate_curve: curve, interest_margin: 0.03 });
+    const result = computeLevel2Return(2000, periods, params, 12, true, labels);
+    const [y1, y2, y3] = result.schedule!;
+
+    expect(round(y1.interest, 2)).toBe(60);   // 800 × (4.5% + 3%)
+    expect(round(y2.interest, 2)).toBe(56);   // 800 × (4% + 3%)
+    expect(round(y3.interest, 2)).toBe(56);   // curve held flat after 2027
+    expect(y1.base_rate).toBe(0.045);
+  });
+
+  it("fixed-rate schedule has no base_rate", () => {
+    const result = computeLevel2Return(2000, periods, level2Params(), 12, true, labels);
+    expect(result.schedule![0].base_rate).toBeUndefined();
+  });
+
+  it("a parallel upward shift lowers equity IRR, a full hedge neutralises it", () => {
+    const base = level2Params({ base_rate_curve: curve, interest_margin: 0.03 });
+    const shifted = { ...base, base_rate_shift: 0.02 };
+    const hedged = { ...base, hedge_ratio: 1, swap_rate: 0.04 };
+    const hedgedShifted = { ...hedged, base_rate_shift: 0.02 };
+
+    const irrBase = computeLevel2Return(2000, periods, base, 12, false, labels).irr!;
+    const irrShifted = computeLevel2Return(2000, periods, shifted, 12, false, labels).irr!;
+    expect(irrShifted).toBeLessThan(irrBase);
+
+    const irrHedged = computeLevel2Return(2000, periods, hedged, 12, false, labels).irr!;
+    const irrHedgedShifted = computeLevel2Return(2000, periods, hedgedShifted, 12, false, labels).irr!;
+    expect(irrHedgedShifted).toBeCloseTo(irrHedged, 10);
+  });
+
+  it("only tranches with a margin float; others keep their fixed rate", () => {
+    const params = level2Params({
+      cash_sweep_pct: 0,
+      base_rate_curve: curve,
+      debt_tranches: [
+        { name: "TLB", amount: 500, interest_rate: 0.06, margin: 0.03 },
+        { name: "Bond", amount: 300, interest_rate: 0.08 },
+      ],
+    });
+    const result = computeLevel2Return(2000, periods, params, 12, true, labels);
+    const [tlb, bond] = result.schedule![0].tranches!;
+
+    expect(tlb.interest_rate).toBeCloseTo(0.075, 10);
+    expect(bond.interest_rate).toBe(0.08);
+    expect(round(tlb.interest, 2)).toBe(37.5);
+    expect(round(bond.interest, 2)).toBe(24);
+  });
+
+  it("reads the curve by period_date year when labels are not years", () => {
+    const dated = periods.map((p, i) => ({ ...p, period_date: `${2027 + i}-12-31` }));
+    const params = level2Params({ cash_sweep_pct: 0, debt_amortisation: 0, base_rate_curve: curve, interest_margin: 0.03 });
+    const result = computeLevel2Return(2000, dated, params, 12, true, ["FY27", "LTM Q3 2028", "FY29"]);
+    // 2027 is the second curve point, not the first by position
+    expect(result.schedule!.map((r) => r.base_rate)).toEqual([0.04, 0.04, 0.04]);
+    expect(result.schedule![0].year).toBe(2027);
+  });
+
+  it("the interest rate of floating debt is base + margin, and moving it moves the margin", () => {
+    const params = level2Params({ cash_sweep_pct: 0, base_rate_curve: curve, interest_margin: 0.03 });
+    expect(entryDebtRate(params)).toBeCloseTo(0.075, 10);
+
+    const shifted = shiftDebtRate(params, 0.085);
+    expect(shifted.interest_margin).toBeCloseTo(0.04, 10);
+    const irrBase = computeLevel2Return(2000, periods, params, 12, false, labels).irr!;
+    expect(computeLevel2Return(2000, periods, shifted, 12, false, labels).irr!).toBeLessThan(irrBase);
+
+    const tranched = level2Params({
+      base_rate_curve: curve,
+      debt_tranches: [
+        { name: "TLB", amount: 500, interest_rate: 0.06, margin: 0.03 },
+        { name: "Bond", amount: 300, interest_rate: 0.08 },
+      ],
+    });
+    // (500 × 7.5% + 300 × 8%) / 800
+    expect(entryDebtRate(tranched)).toBeCloseTo(0.076875, 10);
+    const [tlb, bond] = shiftDebtRate(tranched, 0.086875).debt_tranches!;
+    expect(tlb.margin).toBeCloseTo(0.04, 10);
+    expect(tlb.interest_rate).toBe(0.06);
+    expect(bond.interest_rate).toBeCloseTo(0.09, 10);
+  });
+});
+
 // ══════════════════════════════════════════════════════════════════
 // calculateDealReturns — FULL PUBLIC API
 // ══════════════════════════════════════════════════════════════════
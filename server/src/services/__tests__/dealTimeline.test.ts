@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import { buildDealTimeline, exitLtmEbitda, toIsoDate } from "../dealTimeline.js";
+import {
+  computeIRR,
+  computeXIRR,
+  computeLevel1Return,
+  computeLevel2Return,
+  calculateDealReturns,
+  type DealParameters,
+  type PeriodData,
+} from "../dealReturns.js";
+import { mergeScenarioParams } from "../proForma.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** N annual December periods from 2026, EBITDA 100, 110, 120, … */
+function makeDatedPeriods(n: number, overrides: Partial<PeriodData> = {}): PeriodData[] {
+  return Array.from({ length: n }, (_, i) => ({
+    ebitda: 100 + 10 * i,
+    revenue: 500,
+    period_date: `${2026 + i}-12-31`,
+    ...overrides,
+  }));
+}
+
+const params: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10] };
+
+// ── buildDealTimeline ──────────────────────────────────────────────
+
+describe("buildDealTimeline", () => {
+  it("returns null without entry or exit dates", () => {
+    expect(buildDealTimeline(makeDatedPeriods(3), {})).toBeNull();
+  });
+
+  it("returns null when periods have no dates", () => {
+    expect(buildDealTimeline([{ ebitda: 100 } as PeriodData], { acquisition_date: "2026-06-30" })).toBeNull();
+  });
+
+  it("makes the first period a stub from the acquisition date", () => {
+    const tl = buildDealTimeline(makeDatedPeriods(3), { acquisition_date: "2026-06-30" })!;
+    expect(tl.periods[0].year_fraction).toBeCloseTo(184 / 365);
+    expect(tl.periods[1].year_fraction).toBe(1);
+    expect(tl.entry_date).toBe("2026-06-30");
+    expect(tl.exit_date).toBe("2028-12-31");
+    expect(tl.periods.map((p) => p.cash_flow_date)).toEqual(["2026-12-31", "2027-12-31", "2028-12-31"]);
+  });
+
+  it("makes the last held period a stub to the exit date and drops later ones", () => {
+    const tl = buildDealTimeline(makeDatedPeriods(4), { acquisition_date: "2025-12-31", exit_date: "2028-03-31" })!;
+    expect(tl.first_index).toBe(0);
+    expect(tl.exit_index).toBe(2);
+    expect(tl.periods[2].year_fraction).toBeCloseTo(91 / 366);
+    expect(tl.periods[2].cash_flow_date).toBe("2028-03-31");
+    expect(tl.periods[3].year_fraction).toBe(0);
+    expect(tl.exit_ltm_weight).toBeCloseTo(91 / 366);
+  });
+
+  it("skips periods ending before the acquisition date", () => {
+    const tl = buildDealTimeline(makeDatedPeriods(3), { acquisition_date: "2027-03-31" })!;
+    expect(tl.first_index).toBe(1);
+    expect(tl.periods[0].year_fraction).toBe(0);
+  });
+
+  it("caps an exit date past the last period at its end", () => {
+    const tl = buildDealTimeline(makeDatedPeriods(2), { exit_date: "2035-06-30" })!;
+    expect(tl.exit_date).toBe("2027-12-31");
+    expect(tl.entry_date).toBe("2025-12-31");
+  });
+
+  it("blends exit EBITDA across the exit period and the one before", () => {
+    const periods = makeDatedPeriods(3);
+    const tl = buildDealTimeline(periods, { exit_date: "2028-06-30" })!;
+    const w = tl.exit_ltm_weight;
+    expect(exitLtmEbitda(periods, tl)).toBeCloseTo(w * 120 + (1 - w) * 110);
+  });
+});
+
+describe("toIsoDate", () => {
+  it("formats pg dates without a UTC shift", () => {
+    expect(toIsoDate(new Date(2026, 5, 30))).toBe("2026-06-30");
+    expect(toIsoDate("2026-06-30T00:00:00.000Z")).toBe("2026-06-30");
+    expect(toIsoDate(null)).toBeUndefined();
+    expect(toIsoDate("not a date")).toBeUndefined();
+  });
+});
+
+// ── computeXIRR ────────────────────────────────────────────────────
+
+describe("computeXIRR", () => {
+  it("matches IRR on whole-year dates", () => {
+    const cfs = [-100, 10, 10, 110];
+    const xirr = computeXIRR(cfs, ["2025-01-01", "2026-01-01", "2027-01-01", "2028-01-01"])!;
+    // 2028 is a leap year → tiny day-count difference
+    expect(xirr).toBeCloseTo(computeIRR(cfs)!, 2);
+  });
+
+  it("annualises a half-year holding period", () => {
+    // 100 → 110 in 181 days ≈ 21% annualised
+    const xirr = computeXIRR([-100, 110], ["2026-01-01", "2026-07-01"])!;
+    expect(xirr).toBeCloseTo(Math.pow(1.1, 365 / 181) - 1, 6);
+  });
+
+  it("returns null without a sign change", () => {
+    expect(computeXIRR([100, 10], ["2026-01-01", "2027-01-01"])).toBeNull();
+  });
+});
+
+// ── Returns with entry/exit dates ──────────────────────────────────
+
+describe("stub-period returns", () => {
+  it("leaves undated returns unchanged", () => {
+    const dated = makeDatedPeriods(3);
+    const undated = dated.map(({ period_date: _d, ...p }) => p);
+    expect(computeLevel1Return(1000, dated, params, 10)).toEqual(computeLevel1Return(1000, undated, params, 10));
+  });
+
+  it("consolidates only the held part of the first year", () => {
+    const periods = makeDatedPeriods(3);
+    const full = computeLevel1Return(1000, periods, { ...params, acquisition_date: "2025-12-31" }, 10);
+    const stub = computeLevel1Return(1000, periods, { ...params, acquisition_date: "2026-06-30" }, 10);
+    // Less FCF consolidated, but over a shorter holding period
+    expect(stub.mom!).toBeLessThan(full.mom!);
+    expect(stub.irr!).toBeGreaterThan(full.irr!);
+  });
+
+  it("equals annual IRR when the dates match the period ends", () => {
+    const periods = makeDatedPeriods(3);
+    const annual = computeLevel1Return(1000, periods.map(({ period_date: _d, ...p }) => p), params, 10);
+    const dated = computeLevel1Return(1000, periods, { ...params, acquisition_date: "2025-12-31", exit_date: "2028-12-31" }, 10);
+    expect(dated.mom!).toBeCloseTo(annual.mom!, 10);
+    expect(dated.irr!).toBeCloseTo(annual.irr!, 2);
+  });
+
+  it("prorates interest, amortisation and PIK in a Level 2 stub", () => {
+    const l2: DealParameters = {
+      ...params, ordinary_equity: 500, preferred_equity: 200, preferred_equity_rate: 0.1,
+      net_debt: 800, interest_rate: 0.05, debt_amortisation: 50, cash_sweep_pct: 0,
+    };
+    const result = computeLevel2Return(1300, makeDatedPeriods(3), { ...l2, acquisition_date: "2026-06-30" }, 10, true);
+    const first = result.schedule![0];
+    const f = first.year_fraction!;
+    expect(f).toBeCloseTo(184 / 365);
+    expect(first.interest).toBeCloseTo(800 * 0.05 * f);
+    expect(first.mandatory_amort).toBeCloseTo(50 * f);
+    expect(first.pik_accrual).toBeCloseTo(200 * 0.1 * f);
+    expect(result.schedule![1].year_fraction).toBe(1);
+  });
+
+  it("keeps the acquirer's own cash flow before entry in pro forma stubs", () => {
+    const acquirer = makeDatedPeriods(3);
+    // Pro forma with no target contribution: the stub loses nothing
+    const full = computeLevel1Return(1000, acquirer, { ...params, acquisition_date: "2025-12-31" }, 10);
+    const stub = computeLevel1Return(1000, acquirer, { ...params, acquisition_date: "2026-06-30" }, 10, acquirer);
+    expect(stub.mom!).toBeCloseTo(full.mom!, 10);
+
+    // Level 2: the pre-close share of the acquirer's unlevered FCF is added to the stub
+    const l2: DealParameters = { ...params, ordinary_equity: 500, net_debt: 800, interest_rate: 0.05, acquisition_date: "2026-06-30" };
+    const proForma = makeDatedPeriods(3, { ebitda: 150, revenue: 700 });
+    const without = computeLevel2Return(1300, proForma, l2, 10, true).schedule![0];
+    const withAcquirer = computeLevel2Return(1300, proForma, l2, 10, true, undefined, acquirer).schedule![0];
+    const acquirerFcf = 100 - (100 - 5) * 0.22 - 5; // EBITDA − tax on EBITDA − D&A − capex proxy
+    expect(withAcquirer.unlevered_fcf - without.unlevered_fcf).toBeCloseTo(acquirerFcf * (1 - without.year_fraction!));
+  });
+
+  it("reports the timeline and dates the per-share IRR", () => {
+    const periods = makeDatedPeriods(3);
+    const result = calculateDealReturns(periods, periods, { ...params, acquisition_date: "2026-06-30", exit_date: "2028-06-30" });
+    expect(result.timeline?.entry_date).toBe("2026-06-30");
+    expect(result.timeline?.exit_date).toBe("2028-06-30");
+    expect(result.timeline?.holding_years).toBeCloseTo(731 / 365);
+  });
+
+  it("omits the timeline without dates", () => {
+    const periods = makeDatedPeriods(3);
+    expect(calculateDealReturns(periods, periods, params).timeline).toBeUndefined();
+  });
+});
+
+// ── Scenario merge ─────────────────────────────────────────────────
+
+describe("mergeScenarioParams with dates", () => {
+  it("takes entry and exit dates from the scenario", () => {
+    const merged = mergeScenarioParams(params, { acquisition_date: new Date(2026, 5, 30), exit_date: "2031-06-30" });
+    expect(merged.acquisition_date).toBe("2026-06-30");
+    expect(merged.exit_date).toBe("2031-06-30");
+  });
+
+  it("keeps deal parameter dates when the scenario has none", () => {
+    const merged = mergeScenarioParams({ ...params, exit_date: "2030-12-31" }, {});
+    expect(merged.exit_date).toBe("2030-12-31");
+    expect(merged.acquisition_date).toBeUndefined();
+  });
+});
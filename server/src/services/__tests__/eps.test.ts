@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { epsAccretion, epsPeriod, ppaAmortisationSchedule, standalonePnl, type EpsPeriodInput } from "../eps.js";
+import type { DealParameters } from "../dealReturns.js";
+import { computeEpsAccretion } from "../scenarioService.js";
+import { buildSynergyPlan } from "../synergies.js";
+import type { ScenarioContext, ScenarioRow } from "../scenarioContext.js";
+
+const params = { tax_rate: 0.25, da_pct_revenue: 0.02 };
+
+// Reported P&L (D&A stored with a negative sign) and an EBITDA-only model
+const reported = { ebitda_total: 200, revenue_total: 1000, depreciation: -30, amortisation: 10, net_financial_items: -20, tax: 35 };
+const ebitdaOnly = { ebitda_total: 100, revenue_total: 500 };
+
+describe("standalonePnl", () => {
+  it("uses the reported lines below EBITDA", () => {
+    expect(standalonePnl(reported, params)).toEqual({
+      ebitda: 200, depreciation: 30, amortisation: 10, ebit: 160,
+      net_financial_items: -20, pre_tax_profit: 140, tax: 35, net_income: 105, estimated: false,
+    });
+  });
+
+  it("proxies D&A from revenue and taxes positive EBT at the tax rate", () => {
+    expect(standalonePnl(ebitdaOnly, params)).toMatchObject({ depreciation: 10, pre_tax_profit: 90, tax: 22.5, net_income: 67.5, estimated: true });
+    expect(standalonePnl({ ebitda_total: 5, revenue_total: 500 }, params)).toMatchObject({ pre_tax_profit: -5, tax: 0, net_income: -5 });
+  });
+
+  it("derives tax from a reported net income", () => {
+    expect(standalonePnl({ ...ebitdaOnly, depreciation: 10, net_income: 60 }, params)).toMatchObject({ tax: 30, net_income: 60, estimated: false });
+  });
+});
+
+describe("ppaAmortisationSchedule", () => {
+  const periods = [
+    { period_date: "2024-12-31", period_type: "actual" },
+    { period_date: "2025-12-31", period_type: "forecast" },
+    { period_date: "2026-12-31", period_type: "forecast" },
+    { period_date: "2027-12-31", period_type: "forecast" },
+  ];
+
+  it("amortises straight-line from the first forecast period", () => {
+    expect(ppaAmortisationSchedule(periods, { ppa_intangibles: 90, ppa_amortisation_years: 2 })).toEqual([0, 45, 45, 0]);
+  });
+
+  it("starts from the first period ending after close", () => {
+    expect(ppaAmortisationSchedule(periods, { ppa_intangibles: 90, ppa_amortisation_years: 2, acquisition_date: "2026-03-31" }))
+      .toEqual([0, 0, 45, 45]);
+    expect(ppaAmortisationSchedule(periods, {})).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe("epsPeriod", () => {
+  const input: EpsPeriodInput = {
+    period_label: "2026",
+    acquirer: reported,
+    target: ebitdaOnly,
+    synergy_ebitda: 20,
+    integration_costs: -8,
+    ppa_amortisation: 12,
+    new_debt_interest: 16,
+    acquirer_capex_nwc: -50,
+    pro_forma_capex_nwc: -80,
+    standalone_shares: 100,
+    pro_forma_shares: 140,
+  };
+  const result = epsPeriod(input, params);
+
+  it("adds the deal adjustments after tax to the combined net income", () => {
+    // 105 + 67.5 + (20 − 8 − 12 − 16) × 0.75
+    expect(result.pro_forma).toMatchObject({
+      ebitda: 320, depreciation: 40, amortisation: 22, ebit: 250,
+      net_financial_items: -36, pre_tax_profit: 214, tax: 53.5, net_income: 160.5,
+    });
+  });
+
+  it("compares EPS and FCF per share", () => {
+    expect(result.standalone_eps).toBeCloseTo(1.05);
+    expect(result.pro_forma_eps).toBeCloseTo(160.5 / 140);
+    expect(result.eps_accretion).toBeCloseTo(160.5 / 140 / 1.05 - 1);
+    // FCF = net income + D&A + amortisation + capex and NWC
+    expect(result.standalone_fcf).toBeCloseTo(95);
+    expect(result.pro_forma_fcf).toBeCloseTo(142.5);
+    expect(result.fcf_per_share_accretion).toBeCloseTo(142.5 / 140 / 0.95 - 1);
+  });
+
+  it("solves the synergies at which the deal is EPS-neutral", () => {
+    expect(result.breakeven_synergies).toBeCloseTo(2);
+    const atBreakeven = epsPeriod({ ...input, synergy_ebitda: result.breakeven_synergies! }, params);
+    expect(atBreakeven.eps_accretion).toBeCloseTo(0);
+  });
+
+  it("leaves per-share figures empty without shares or with a standalone loss", () => {
+    const noShares = epsPeriod({ ...input, pro_forma_shares: null }, params);
+    expect(noShares).toMatchObject({ pro_forma_eps: null, eps_accretion: null, breakeven_synergies: null });
+    const loss = epsPeriod({ ...input, acquirer: { ...reported, net_income: -10 } }, params);
+    expect(loss.eps_accretion).toBeNull();
+  });
+});
+
+describe("epsAccretion", () => {
+  it("flags whether any period has a reported P&L", () => {
+    const base: EpsPeriodInput = {
+      period_label: "2026", acquirer: ebitdaOnly, target: null, synergy_ebitda: 0, integration_costs: 0,
+      ppa_amortisation: 0, new_debt_interest: 0, acquirer_capex_nwc: 0, pro_forma_capex_nwc: 0,
+      standalone_shares: 100, pro_forma_shares: 100,
+    };
+    expect(epsAccretion([base], params)).toMatchObject({ reported_pnl: false, ppa_amortisation_years: 10, tax_rate: 0.25 });
+    expect(epsAccretion([base, { ...base, acquirer: reported }], params).reported_pnl).toBe(true);
+  });
+});
+
+describe("computeEpsAccretion", () => {
+  const period = (year: number, ebitda: string) => ({
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: ebitda,
+    share_count: "100",
+  });
+  const scenario = { id: 1 } as unknown as ScenarioRow;
+  const ctx: ScenarioContext = {
+    scenario,
+    acquirerPeriods: [2026, 2027].map((y) => period(y, "200")),
+    targetPeriods: [2026, 2027].map((y) => period(y, "100")),
+    acquirerModelParams: null,
+    synergiesTimeline: {},
+    synergyPlan: buildSynergyPlan(scenario),
+  };
+  // No ordinary equity: Level 1, so no debt schedule and the flat interest is used
+  const dp: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10], acquirer_entry_ev: 2000 };
+  const interest = (params: DealParameters) =>
+    computeEpsAccretion(ctx, params).periods.map((p) => Math.abs(p.pro_forma.new_debt_interest));
+
+  it("charges interest on the debt tranches without a debt schedule", () => {
+    const tranched = interest({
+      ...dp,
+      debt_tranches: [
+        { name: "TLA", amount: 400, interest_rate: 0.05 },
+        { name: "TLB", amount: 200, interest_rate: 0.08 },
+      ],
+    });
+    expect(tranched[0]).toBeCloseTo(400 * 0.05 + 200 * 0.08);
+  });
+
+  it("charges floating-rate debt at the base rate plus margin", () => {
+    const floating = interest({ ...dp, net_debt: 600, base_rate_curve: { "2026": 0.04 }, interest_margin: 0.03 });
+    expect(floating[0]).toBeCloseTo(600 * 0.07);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { createEmptyPeriod } from "../excelParser/blockParser.js";
+import type { ParsedModelBlock, PeriodYear } from "../excelParser/index.js";
+import {
+  diffParsedPeriods,
+  buildImportPreview,
+  parseImportSelection,
+  applyImportSelection,
+} from "../excelImportPreview.js";
+import { COLUMNS_EXCEL } from "../periodUpsert.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function period(year: number, overrides: Partial<PeriodYear> = {}): PeriodYear {
+  return { ...createEmptyPeriod(year), ...overrides };
+}
+
+function block(name: string, periods: PeriodYear[]): ParsedModelBlock {
+  return {
+    name,
+    periods,
+    unmappedRows: ["Headcount"],
+    source: "P&L:1-20",
+    yearColumns: periods.map((p, i) => ({ sheet: "P&L", column: String.fromCharCode(67 + i), row: 3, year: p.year })),
+  };
+}
+
+// pg returns DATE as local midnight and NUMERIC as strings
+const existingPeriod = (year: number, overrides: Record<string, unknown> = {}) => ({
+  id: year,
+  model_id: 10,
+  period_date: new Date(year, 11, 31),
+  period_label: String(year),
+  revenue_total: "500.0",
+  ebitda_total: "60.0",
+  ...overrides,
+});
+
+// ── diffParsedPeriods ──────────────────────────────────────────────
+
+describe("diffParsedPeriods", () => {
+  it("lists only fields whose value changes", () => {
+    const { changes, newPeriods } = diffParsedPeriods(
+      block("Base", [period(2025, { revenue_total: 500, ebitda_total: 65 })]),
+      [existingPeriod(2025)],
+    );
+    expect(newPeriods).toBe(0);
+    expect(changes).toEqual([
+      { period_date: "2025-12-31", period_label: "2025", field: "ebitda_total", from: 60, to: 65 },
+    ]);
+  });
+
+  it("ignores empty cells (the upsert keeps existing values)", () => {
+    const { changes } = diffParsedPeriods(
+      block("Base", [period(2025, { revenue_total: null, ebitda_total: 60 })]),
+      [existingPeriod(2025)],
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it("counts new periods and lists their values", () => {
+    const { changes, newPeriods } = diffParsedPeriods(
+      block("Base", [period(2026, { revenue_total: 550 })]),
+      [existingPeriod(2025)],
+    );
+    expect(newPeriods).toBe(1);
+    expect(changes).toEqual([
+      { period_date: "2026-12-31", period_label: "2026", field: "revenue_total", from: null, to: 550 },
+    ]);
+  });
+});
+
+// ── buildImportPreview ─────────────────────────────────────────────
+
+describe("buildImportPreview", () => {
+  it("matches existing models by name and reports new ones as create", async () => {
+    const loaded: number[] = [];
+    const previews = await buildImportPreview(
+      [
+        block("Base", [period(2025, { revenue_total: 520 })]),
+        block("Upside", [period(2025, { revenue_total: 600, ebitda_total: 80 })]),
+      ],
+      [{ id: 10, name: "Base" }],
+      async (id) => {
+        loaded.push(id);
+        return [existingPeriod(2025)];
+      },
+    );
+
+    expect(loaded).toEqual([10]);
+    expect(previews[0]).toMatchObject({ name: "Base", action: "update", model_id: 10, new_periods: 0 });
+    expect(previews[0].changes).toHaveLength(1);
+    expect(previews[0].fields).toEqual(["revenue_total"]);
+    expect(previews[0].unmapped_labels).toEqual(["Headcount"]);
+    expect(previews[0].year_columns).toEqual([{ sheet: "P&L", column: "C", row: 3, year: 2025 }]);
+
+    expect(previews[1]).toMatchObject({ name: "Upside", action: "create", model_id: null, new_periods: 1 });
+    expect(previews[1].fields).toEqual(["revenue_total", "ebitda_total"]);
+  });
+});
+
+// ── Selection ──────────────────────────────────────────────────────
+
+describe("parseImportSelection", () => {
+  it("returns null when no selection is sent", () => {
+    expect(parseImportSelection(undefined)).toBeNull();
+    expect(parseImportSelection("")).toBeNull();
+  });
+
+  it("parses a JSON selection", () => {
+    const sel = parseImportSelection(JSON.stringify({
+      models: [{ name: "Base", fields: ["revenue_total"] }],
+      input_parameters: false,
+    }));
+    expect(sel).toEqual({ models: [{ name: "Base", fields: ["revenue_total"] }], input_parameters: false });
+  });
+
+  it("rejects malformed selections", () => {
+    expect(parseImportSelection("{not json")).toHaveProperty("error");
+    expect(parseImportSelection(JSON.stringify({ models: "Base" }))).toHaveProperty("error");
+    expect(parseImportSelection(JSON.stringify({ models: [{ name: "Base", fields: ["password"] }] })))
+      .toHaveProperty("error");
+  });
+});
+
+describe("applyImportSelection", () => {
+  const models = [block("Base", [period(2025)]), block("Upside", [period(2025)])];
+
+  it("imports everything without a selection", () => {
+    const selected = applyImportSelection(models, null);
+    expect(Array.isArray(selected) && selected.map((s) => s.block.name)).toEqual(["Base", "Upside"]);
+  });
+
+  it("skips unticked models and restricts columns to ticked fields", () => {
+    const selected = applyImportSelection(models, {
+      models: [{ name: "Upside", fields: ["revenue_total", "ebitda_total"] }],
+    });
+    if ("error" in selected) throw new Error(selected.error);
+
+    expect(selected.map((s) => s.block.name)).toEqual(["Upside"]);
+    expect(selected[0].columns).toEqual(["period_label", "period_type", "period_granularity", "revenue_total", "ebitda_total"]);
+  });
+
+  it("keeps all columns when a model has no field list", () => {
+    const selected = applyImportSelection(models, { models: [{ name: "Base" }] });
+    if ("error" in selected) throw new Error(selected.error);
+    expect(selected[0].columns).toEqual(COLUMNS_EXCEL);
+  });
+
+  it("rejects models that are not in the file", () => {
+    expect(applyImportSelection(models, { models: [{ name: "Downside" }] })).toHaveProperty("error");
+  });
+});
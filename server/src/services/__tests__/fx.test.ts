@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCurrencyUnit,
+  resolveFxRate,
+  convertPeriods,
+  applyScenarioFx,
+} from "../fx.js";
+import { buildProFormaPeriods } from "../proForma.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Create a period-like row as pg returns it (NUMERIC as strings) */
+function makePeriod(year: number, overrides: Record<string, any> = {}) {
+  return {
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "500",
+    ebitda_total: "100",
+    ebitda_margin: "0.2000",
+    share_count: "10",
+    per_share_pre: "50",
+    ...overrides,
+  };
+}
+
+// ── parseCurrencyUnit ──────────────────────────────────────────────
+
+describe("parseCurrencyUnit", () => {
+  it("splits code and scale", () => {
+    expect(parseCurrencyUnit("NOKm")).toEqual({ code: "NOK", scale: 1e6 });
+    expect(parseCurrencyUnit("EURk")).toEqual({ code: "EUR", scale: 1e3 });
+    expect(parseCurrencyUnit("sek")).toEqual({ code: "SEK", scale: 1 });
+  });
+
+  it("accepts prefixed units", () => {
+    expect(parseCurrencyUnit("MNOK")).toEqual({ code: "NOK", scale: 1e6 });
+    expect(parseCurrencyUnit("TEUR")).toEqual({ code: "EUR", scale: 1e3 });
+  });
+
+  it("keeps unknown units as-is", () => {
+    expect(parseCurrencyUnit("NOK mill.")).toEqual({ code: "NOK MILL.", scale: 1 });
+  });
+});
+
+// ── resolveFxRate ──────────────────────────────────────────────────
+
+describe("resolveFxRate", () => {
+  const rates = { SEK: 0.98, EUR: { "2025": 11.6, "2027": 11.2 } };
+
+  it("returns flat rates for every year", () => {
+    expect(resolveFxRate(rates, "SEK", 2030)).toBe(0.98);
+  });
+
+  it("reads per-year rates like the base-rate curve", () => {
+    expect(resolveFxRate(rates, "EUR", 2024)).toBe(11.6); // before curve → first
+    expect(resolveFxRate(rates, "EUR", 2026)).toBe(11.6); // gap → last earlier year
+    expect(resolveFxRate(rates, "EUR", 2029)).toBe(11.2); // past curve → last
+  });
+
+  it("returns null for currencies without a rate", () => {
+    expect(resolveFxRate(rates, "DKK", 2025)).toBeNull();
+  });
+});
+
+// ── convertPeriods ─────────────────────────────────────────────────
+
+describe("convertPeriods", () => {
+  it("converts amounts and per-share values but not ratios or share counts", () => {
+    const { periods, conversion } = convertPeriods([makePeriod(2025)], "target", "SEKm", "NOKm", { SEK: 0.98 });
+    expect(periods[0].revenue_total).toBeCloseTo(490);
+    expect(periods[0].ebitda_total).toBeCloseTo(98);
+    expect(periods[0].per_share_pre).toBeCloseTo(49);
+    expect(periods[0].ebitda_margin).toBe("0.2000");
+    expect(periods[0].share_count).toBe("10");
+    expect(conversion).toEqual({ side: "target", currency: "SEKm", rates: { "2025": 0.98 }, missing_rate: false });
+  });
+
+  it("applies the unit scale between thousands and millions", () => {
+    const { periods } = convertPeriods([makePeriod(2025)], "target", "EURk", "NOKm", { EUR: 11.5 });
+    // 500 EURk = 0.5 EURm = 5.75 NOKm
+    expect(periods[0].revenue_total).toBeCloseTo(5.75);
+    // Per-share values are in whole currency units
+    expect(periods[0].per_share_pre).toBeCloseTo(575);
+  });
+
+  it("leaves periods in the reporting currency untouched", () => {
+    const input = [makePeriod(2025)];
+    const { periods, conversion } = convertPeriods(input, "acquirer", "NOKm", "NOKm", {});
+    expect(periods[0]).toBe(input[0]);
+    expect(conversion.rates).toEqual({ "2025": 1 });
+  });
+
+  it("flags a missing rate and keeps the figures", () => {
+    const input = [makePeriod(2025)];
+    const { periods, conversion } = convertPeriods(input, "target", "DKKm", "NOKm", {});
+    expect(periods[0]).toBe(input[0]);
+    expect(conversion.missing_rate).toBe(true);
+  });
+});
+
+// ── applyScenarioFx ────────────────────────────────────────────────
+
+describe("applyScenarioFx", () => {
+  it("defaults the reporting currency to the acquirer's", () => {
+    const { fx } = applyScenarioFx(null, [makePeriod(2025)], [], "NOKm", null);
+    expect(fx.reporting_currency).toBe("NOKm");
+    expect(fx.conversions).toHaveLength(1);
+  });
+
+  it("converts the acquirer when reporting in another currency", () => {
+    const { acquirerPeriods, targetPeriods, fx } = applyScenarioFx(
+      { reporting_currency: "EURm", fx_rates: { NOK: 0.086, SEK: { "2025": 0.084 } } },
+      [makePeriod(2025)],
+      [makePeriod(2025)],
+      "NOKm",
+      "SEKm",
+    );
+    expect(acquirerPeriods[0].revenue_total).toBeCloseTo(43);
+    expect(targetPeriods[0].revenue_total).toBeCloseTo(42);
+    expect(fx.conversions.map((c) => c.side)).toEqual(["acquirer", "target"]);
+  });
+
+  it("feeds converted target figures into the pro forma", () => {
+    const { acquirerPeriods, targetPeriods } = applyScenarioFx(
+      { fx_rates: { SEK: 0.98 } },
+      [makePeriod(2025)],
+      [makePeriod(2025, { revenue_total: "200", ebitda_total: "40" })],
+      "NOKm",
+      "SEKm",
+    );
+    const [pf] = buildProFormaPeriods(acquirerPeriods, targetPeriods);
+    expect(pf.target_revenue).toBeCloseTo(196);
+    expect(pf.total_revenue).toBeCloseTo(696);
+    expect(pf.total_ebitda_excl_synergies).toBeCloseTo(139.2);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { defaultBounds, solve } from "../goalSeek.js";
+
+const opts = { tolerance: 1e-8, maxIterations: 100 };
+
+describe("solve", () => {
+  it("finds the root of a smooth decreasing curve", () => {
+    // IRR-like: higher price → lower return
+    const irr = (price: number) => (2000 / price) ** 0.2 - 1;
+    const r = solve(irr, 0.2, 100, 3000, opts);
+    expect(r.status).toBe("converged");
+    expect(r.solution!).toBeCloseTo(2000 / 1.2 ** 5, 4);
+    expect(r.achieved!).toBeCloseTo(0.2, 7);
+    expect(r.iterations).toBeLessThan(30);
+    expect(r.steps).toHaveLength(r.iterations);
+  });
+
+  it("reports when the target is outside the range", () => {
+    const f = (x: number) => x / 10;
+    expect(solve(f, 5, 0, 10, opts)).toMatchObject({ status: "no_solution", reason: "target_above_range", solution: null });
+    expect(solve(f, -1, 0, 10, opts)).toMatchObject({ status: "no_solution", reason: "target_below_range" });
+    expect(solve(f, 5, 0, 10, opts).bracket).toEqual({ lower: 0, upper: 10, metric_at_lower: 0, metric_at_upper: 1 });
+  });
+
+  it("accepts a bound that already hits the target", () => {
+    expect(solve((x) => x, 10, 0, 10, opts)).toMatchObject({ status: "converged", solution: 10, iterations: 0 });
+  });
+
+  it("stops when the metric is undefined", () => {
+    expect(solve((x) => (x < 1 ? null : x), 5, 0, 10, opts)).toMatchObject({ status: "no_solution", reason: "undefined_at_bound" });
+    const r = solve((x) => (x > 4 && x < 6 ? null : x), 5, 0, 10, opts);
+    expect(r.status).toBe("not_converged");
+    expect(r.reason).toBe("undefined_in_bracket");
+  });
+
+  it("reports the best point when the iteration limit is hit", () => {
+    const r = solve((x) => x ** 3, 2, 0, 10, { tolerance: 1e-12, maxIterations: 3 });
+    expect(r.status).toBe("not_converged");
+    expect(r.reason).toBe("max_iterations");
+    expect(r.iterations).toBe(3);
+    expect(r.solution).not.toBeNull();
+  });
+});
+
+describe("defaultBounds", () => {
+  it("scales amounts from the price and keeps rates in range", () => {
+    expect(defaultBounds("exit_multiple", 12, 1000)).toEqual([1, 40]);
+    expect(defaultBounds("price_paid", 1000, 1000)).toEqual([50, 3000]);
+    expect(defaultBounds("net_debt", null, 1000)).toEqual([0, 3000]);
+    expect(defaultBounds("interest_rate", 0.06, 1000)).toEqual([0, 0.5]);
+    expect(defaultBounds("base_rate_shift", 0, 1000)).toEqual([-0.1, 0.1]);
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyEbitdaHaircut,
+  choleskyDecompose,
+  correlationMatrix,
+  createRng,
+  histogram,
+  inverseCdf,
+  normalCdf,
+  percentile,
+  probabilityAbove,
+  sampleInputs,
+  scaleRealisation,
+  summarise,
+  type Distribution,
+  type SimulationVariable,
+} from "../monteCarlo.js";
+import type { DealParameters, PeriodData } from "../dealReturns.js";
+import { computeSimulation, type SimulationParams } from "../scenarioService.js";
+import { buildSynergyPlan } from "../synergies.js";
+import type { ScenarioContext, ScenarioRow } from "../scenarioContext.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function draw(
+  variables: SimulationVariable[],
+  distributions: Partial<Record<SimulationVariable, Distribution>>,
+  rho = 0,
+  n = 4000,
+) {
+  const cholesky = choleskyDecompose(
+    correlationMatrix(variables, rho ? [{ a: variables[0], b: variables[1], rho }] : []),
+  )!;
+  const rng = createRng(42);
+  return Array.from({ length: n }, () => sampleInputs(variables, distributions, cholesky, rng));
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const mx = xs.reduce((s, v) => s + v, 0) / xs.length;
+  const my = ys.reduce((s, v) => s + v, 0) / ys.length;
+  let sxy = 0, sxx = 0, syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// ── Random numbers and distributions ───────────────────────────────
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  it("stays within [0, 1)", () => {
+    const rng = createRng(1);
+    for (let i = 0; i < 1000; i++) {
+      const u = rng();
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(1);
+    }
+  });
+});
+
+describe("normalCdf", () => {
+  it("matches known values", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.645)).toBeCloseTo(0.05, 3);
+  });
+});
+
+describe("inverseCdf", () => {
+  const tri: Distribution = { type: "triangular", min: 8, mode: 10, max: 14 };
+
+  it("maps the ends and the mode of a triangular distribution", () => {
+    expect(inverseCdf(tri, 0, 0)).toBe(8);
+    expect(inverseCdf(tri, 1, 0)).toBe(14);
+    // P(X <= mode) = (mode - min) / (max - min) = 1/3
+    expect(inverseCdf(tri, 1 / 3, 0)).toBeCloseTo(10);
+  });
+
+  it("scales uniform and normal draws", () => {
+    expect(inverseCdf({ type: "uniform", min: 0.6, max: 1 }, 0.5, 0)).toBeCloseTo(0.8);
+    expect(inverseCdf({ type: "normal", mean: 0.05, sd: 0.01 }, 0.5, 2)).toBeCloseTo(0.07);
+  });
+});
+
+// ── Correlation ────────────────────────────────────────────────────
+
+describe("choleskyDecompose", () => {
+  it("factors a valid correlation matrix", () => {
+    const l = choleskyDecompose([[1, 0.5], [0.5, 1]])!;
+    expect(l[0][0]).toBe(1);
+    expect(l[1][0]).toBeCloseTo(0.5);
+    expect(l[1][1]).toBeCloseTo(Math.sqrt(0.75));
+  });
+
+  it("rejects inconsistent correlations", () => {
+    const vars: SimulationVariable[] = ["exit_multiple", "synergy_realisation", "ebitda_haircut"];
+    const m = correlationMatrix(vars, [
+      { a: "exit_multiple", b: "synergy_realisation", rho: 0.9 },
+      { a: "synergy_realisation", b: "ebitda_haircut", rho: 0.9 },
+      { a: "exit_multiple", b: "ebitda_haircut", rho: -0.9 },
+    ]);
+    expect(choleskyDecompose(m)).toBeNull();
+  });
+});
+
+describe("sampleInputs", () => {
+  const vars: SimulationVariable[] = ["exit_multiple", "synergy_realisation"];
+  const dists: Partial<Record<SimulationVariable, Distribution>> = {
+    exit_multiple: { type: "normal", mean: 12, sd: 1 },
+    synergy_realisation: { type: "uniform", min: 0.5, max: 1 },
+  };
+
+  it("draws within the marginal distributions", () => {
+    const samples = draw(vars, dists);
+    const multiples = samples.map((s) => s.exit_multiple!);
+    const mean = multiples.reduce((s, v) => s + v, 0) / multiples.length;
+    expect(mean).toBeCloseTo(12, 1);
+    expect(samples.every((s) => s.synergy_realisation! >= 0.5 && s.synergy_realisation! <= 1)).toBe(true);
+  });
+
+  it("applies the requested correlation", () => {
+    const samples = draw(vars, dists, 0.8);
+    const rho = correlation(samples.map((s) => s.exit_multiple!), samples.map((s) => s.synergy_realisation!));
+    expect(rho).toBeGreaterThan(0.7);
+    expect(rho).toBeLessThan(0.85);
+  });
+
+  it("leaves inputs independent without correlations", () => {
+    const samples = draw(vars, dists);
+    const rho = correlation(samples.map((s) => s.exit_multiple!), samples.map((s) => s.synergy_realisation!));
+    expect(Math.abs(rho)).toBeLessThan(0.05);
+  });
+});
+
+// ── Inputs applied to period data ──────────────────────────────────
+
+describe("applyEbitdaHaircut", () => {
+  const periods: PeriodData[] = [{ ebitda: 100 }, { ebitda: 120 }, { ebitda: 150 }];
+
+  it("removes a share of growth over the first period", () => {
+    expect(applyEbitdaHaircut(periods, 0.5).map((p) => p.ebitda)).toEqual([100, 110, 125]);
+  });
+
+  it("does not mutate the input", () => {
+    applyEbitdaHaircut(periods, 1);
+    expect(periods[2].ebitda).toBe(150);
+  });
+});
+
+describe("scaleRealisation", () => {
+  it("scales saved realisation and fills missing years at 100 %", () => {
+    expect(scaleRealisation({ "2026": 0.5 }, ["2026", "2027"], 0.8)).toEqual({ "2026": 0.4, "2027": 0.8 });
+  });
+});
+
+// ── Statistics ─────────────────────────────────────────────────────
+
+describe("percentile", () => {
+  it("interpolates between sorted values", () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([1, 2, 3, 4, 5], 25)).toBe(2);
+    expect(percentile([0, 10], 5)).toBeCloseTo(0.5);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("histogram", () => {
+  it("counts every value into equal-width bins", () => {
+    const bins = histogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+    expect(bins).toHaveLength(5);
+    expect(bins.reduce((s, b) => s + b.count, 0)).toBe(10);
+    expect(bins[0]).toEqual({ from: 0, to: 2, count: 2 });
+    expect(bins[4].count).toBe(2); // 8 and the maximum
+  });
+
+  it("uses one bin when all values are equal", () => {
+    expect(histogram([0.2, 0.2], 10)).toEqual([{ from: 0.2, to: 0.2, count: 2 }]);
+  });
+});
+
+describe("summarise", () => {
+  it("ignores failed iterations", () => {
+    const s = summarise([0.1, null, 0.2, 0.3], 5);
+    expect(s.count).toBe(3);
+    expect(s.mean).toBeCloseTo(0.2);
+    expect(s.percentiles.p50).toBeCloseTo(0.2);
+    expect(s.min).toBe(0.1);
+    expect(s.max).toBe(0.3);
+  });
+});
+
+describe("probabilityAbove", () => {
+  it("counts failed iterations as misses", () => {
+    expect(probabilityAbove([0.25, 0.15, null, 0.2], 0.2)).toBe(0.5);
+    expect(probabilityAbove([], 0.2)).toBeNull();
+  });
+});
+
+describe("computeSimulation", () => {
+  const years = [2026, 2027, 2028, 2029];
+  const period = (year: number, ebitda: string) => ({
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: ebitda,
+  });
+  const scenario = { id: 1 } as unknown as ScenarioRow;
+  const ctx: ScenarioContext = {
+    scenario,
+    acquirerPeriods: years.map((y) => period(y, "200")),
+    targetPeriods: years.map((y) => period(y, "100")),
+    acquirerModelParams: null,
+    synergiesTimeline: {},
+    synergyPlan: buildSynergyPlan(scenario),
+  };
+  const base_params: DealParameters = {
+    price_paid: 1000,
+    tax_rate: 0.22,
+    exit_multiples: [10],
+    acquirer_entry_ev: 2000,
+    ordinary_equity: 500,
+    cash_sweep_pct: 0,
+    debt_tranches: [
+      { name: "TLA", amount: 300, interest_rate: 0.05 },
+      { name: "TLB", amount: 300, interest_rate: 0.07 },
+    ],
+  };
+  const params = (overrides: Partial<DealParameters> = {}): SimulationParams => ({
+    base_params: { ...base_params, ...overrides },
+    variables: { interest_rate: { type: "uniform", min: 0.03, max: 0.1 } },
+    correlations: [],
+    iterations: 50,
+    hurdle_rate: 0.2,
+    return_case: "Kombinert",
+    bins: 5,
+    seed: 7,
+  });
+
+  it("spreads returns over the sampled interest rate with debt tranches", async () => {
+    const result = await computeSimulation(ctx, params());
+    if ("error" in result) throw new Error(result.error);
+    expect(result.irr.count).toBe(50);
+    expect(result.irr.sd!).toBeGreaterThan(0.001);
+  });
+
+  it("spreads returns for floating-rate debt", async () => {
+    const result = await computeSimulation(ctx, params({
+      debt_tranches: undefined,
+      net_debt: 600,
+      base_rate_curve: { "2026": 0.04 },
+      interest_margin: 0.03,
+    }));
+    if ("error" in result) throw new Error(result.error);
+    expect(result.irr.sd!).toBeGreaterThan(0.001);
+  });
+
+  it("yields to the event loop during a run", async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    try {
+      await computeSimulation(ctx, { ...params(), iterations: 200 });
+    } finally {
+      clearInterval(timer);
+    }
+    expect(ticks).toBeGreaterThan(0);
+  });
+});
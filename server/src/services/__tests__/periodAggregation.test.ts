@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { calendarYearPeriods, ltmPeriods, toAnnualPeriods } from "../periodAggregation.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function quarter(date: string, label: string, revenue: number, overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    period_date: new Date(date),
+    period_label: label,
+    period_type: "actual",
+    period_granularity: "quarterly",
+    revenue_total: String(revenue),
+    ebitda_total: String(revenue / 10),
+    ebitda_margin: "0.1",
+    nibd: "50",
+    ...overrides,
+  };
+}
+
+// Q2 2024 – Q1 2026: one complete calendar year (2025)
+const quarters = [
+  quarter("2024-06-30", "Q2 2024", 90),
+  quarter("2024-09-30", "Q3 2024", 90),
+  quarter("2024-12-31", "Q4 2024", 100),
+  quarter("2025-03-31", "Q1 2025", 100),
+  quarter("2025-06-30", "Q2 2025", 110),
+  quarter("2025-09-30", "Q3 2025", 120),
+  quarter("2025-12-31", "Q4 2025", 130, { period_type: "budget", nibd: "40" }),
+  quarter("2026-03-31", "Q1 2026", 140, { period_type: "forecast" }),
+];
+
+// ── calendarYearPeriods ────────────────────────────────────────────
+
+describe("calendarYearPeriods", () => {
+  it("rolls complete years up and skips partial ones", () => {
+    const years = calendarYearPeriods(quarters);
+    expect(years).toHaveLength(1);
+    expect(years[0]).toMatchObject({
+      period_label: "2025",
+      period_granularity: "annual",
+      revenue_total: 460,
+      ebitda_total: 46,
+      ebitda_margin: 0.1,
+      nibd: "40",
+      period_type: "budget",
+    });
+    expect(years[0].id).toBeUndefined();
+  });
+
+  it("skips a year with a missing quarter", () => {
+    expect(calendarYearPeriods(quarters.filter((q) => q.period_label !== "Q2 2025"))).toEqual([]);
+  });
+
+  it("ignores annual rows", () => {
+    expect(calendarYearPeriods([{ period_date: new Date("2025-12-31"), revenue_total: "100" }])).toEqual([]);
+  });
+});
+
+// ── ltmPeriods ─────────────────────────────────────────────────────
+
+describe("ltmPeriods", () => {
+  it("sums the trailing four quarters at each quarter end", () => {
+    const ltm = ltmPeriods(quarters);
+    expect(ltm.map((p) => p.period_label)).toEqual([
+      "LTM Q1 2025", "LTM Q2 2025", "LTM Q3 2025", "LTM Q4 2025", "LTM Q1 2026",
+    ]);
+    expect(ltm.map((p) => p.revenue_total)).toEqual([380, 400, 430, 460, 500]);
+  });
+
+  it("measures growth against the LTM a year earlier", () => {
+    const ltm = ltmPeriods(quarters);
+    expect(ltm[0].revenue_growth).toBeNull();
+    expect(ltm[4].revenue_growth).toBeCloseTo(500 / 380 - 1);
+  });
+
+  it("rolls up twelve months", () => {
+    const months = Array.from({ length: 12 }, (_, i) => ({
+      period_date: new Date(Date.UTC(2025, i + 1, 0)),
+      period_label: `M${i + 1}`,
+      period_granularity: "monthly",
+      revenue_total: 10,
+    }));
+    expect(ltmPeriods(months)).toHaveLength(1);
+    expect(ltmPeriods(months)[0].revenue_total).toBe(120);
+  });
+});
+
+// ── toAnnualPeriods ────────────────────────────────────────────────
+
+describe("toAnnualPeriods", () => {
+  it("returns annual models unchanged", () => {
+    const annual = [{ period_date: new Date("2025-12-31"), revenue_total: "100" }];
+    expect(toAnnualPeriods(annual)).toBe(annual);
+  });
+
+  it("replaces quarters with calendar years next to annual forecasts", () => {
+    const forecast = { period_date: new Date("2026-12-31"), period_label: "2026E", period_granularity: "annual", revenue_total: "600" };
+    const periods = toAnnualPeriods([...quarters, forecast]);
+    expect(periods.map((p) => p.period_label)).toEqual(["2025", "2026E"]);
+  });
+});
@@ -24,6 +24,7 @@ import {
   type SourceItem,
   type ProFormaPeriodRaw,
 } from "../proForma.js";
+import { withDerivedChangeNwc } from "../balanceSheet.js";
 import type { DealParameters } from "../dealReturns.js";
 
 // ── Helpers ────────────────────────────────────────────────────────
@@ -357,6 +358,20 @@ describe("buildProFormaPeriods", () => {
     expect(result[0].target_revenue).toBe(0);
     expect(result[0].target_ebitda).toBe(0);
   });
+
+  it("combines the reported lines below EBITDA and amortises the PPA intangibles", () => {
+    const withPnl = [
+      makePeriod(2025, { ...acquirer[0], depreciation: "-12", net_financial_items: "-5" }),
+      makePeriod(2026, acquirer[1]),
+    ];
+    const targetWithDa = [makePeriod(2025, { revenue_total: "500", ebitda_total: "55", depreciation: "4", net_financial_items: "1" })];
+    const result = buildProFormaPeriods(withPnl, targetWithDa, { ppa_intangibles: 50, ppa_amortisation_years: 5 });
+    expect(result[0].total_depreciation).toBe(16);       // |−12| + 4
+    expect(result[0].total_net_financial_items).toBe(-4); // signed
+    expect(result[0].total_amortisation).toBeNull();     // neither party reports it
+    expect(result[1].total_depreciation).toBeNull();
+    expect(result.map((r) => r.ppa_amortisation)).toEqual([10, 10]);
+  });
 });
 
 // ══════════════════════════════════════════════════════════════════
@@ -418,7 +433,7 @@ describe("applySynergies", () => {
 // ══════════════════════════════════════════════════════════════════
 
 describe("buildAcquirerPeriodData", () => {
-  it("extracts ebitda, revenue, capex, change_nwc from period rows", () => {
+  it("extracts ebitda, revenue, capex, change_nwc, period_date from period rows", () => {
     const periods = [makePeriod(2025, { capex: "-30", change_nwc: "-20" })];
     const result = buildAcquirerPeriodData(periods);
     expect(result).toEqual([{
@@ -426,6 +441,7 @@ describe("buildAcquirerPeriodData", () => {
       revenue: 500,
       capex: -30,
       change_nwc: -20,
+      period_date: "2025-12-31",
     }]);
   });
 
@@ -435,6 +451,16 @@ describe("buildAcquirerPeriodData", () => {
     expect(result[0].capex).toBeUndefined();
     expect(result[0].change_nwc).toBeUndefined();
   });
+
+  it("uses a ΔNWC derived from the balance sheet with its sign", () => {
+    const periods = withDerivedChangeNwc([
+      makePeriod(2025, { change_nwc: null, trade_receivables: "100", trade_payables: "40" }),
+      makePeriod(2026, { change_nwc: null, trade_receivables: "90", trade_payables: "45" }),
+      makePeriod(2027, { change_nwc: null, trade_receivables: "120", trade_payables: "45" }),
+    ]);
+    const result = buildAcquirerPeriodData(periods);
+    expect(result.map((p) => p.change_nwc)).toEqual([undefined, 15, -30]);
+  });
 });
 
 describe("buildTargetPeriodData", () => {
@@ -685,6 +711,26 @@ describe("mergeScenarioParams", () => {
     const result = mergeScenarioParams(dp, {});
     expect(result.price_paid).toBe(0);
   });
+
+  it("floating-rate columns on the scenario override deal_parameters", () => {
+    const dp: DealParameters = { ...baseDp, base_rate_curve: { "2026": 0.03 }, interest_margin: 0.02 };
+    const result = mergeScenarioParams(dp, {
+      base_rate_curve: { "2026": 0.045, "2027": 0.04 },
+      interest_margin: "0.0275",
+      hedge_ratio: "0.5",
+      swap_rate: "0.035",
+    });
+    expect(result.base_rate_curve).toEqual({ "2026": 0.045, "2027": 0.04 });
+    expect(result.interest_margin).toBe(0.0275);
+    expect(result.hedge_ratio).toBe(0.5);
+    expect(result.swap_rate).toBe(0.035);
+  });
+
+  it("empty base_rate_curve on the scenario falls back to deal_parameters", () => {
+    const dp: DealParameters = { ...baseDp, base_rate_curve: { "2026": 0.03 } };
+    const result = mergeScenarioParams(dp, { base_rate_curve: {} });
+    expect(result.base_rate_curve).toEqual({ "2026": 0.03 });
+  });
 });
 
 // ══════════════════════════════════════════════════════════════════
@@ -1300,14 +1346,15 @@ describe("sensitivityParamSetters", () => {
     expect(sensitivityParamSetters["random_param"]).toBeUndefined();
   });
 
-  it("all 12 setter keys exist", () => {
+  it("all 13 setter keys exist", () => {
     const keys = Object.keys(sensitivityParamSetters);
-    expect(keys.length).toBe(12);
+    expect(keys.length).toBe(13);
     // Verify specific keys are present
     const expectedKeys = [
       "exit_multiple", "price_paid", "interest_rate", "ordinary_equity",
       "net_debt", "debt_amortisation", "cash_sweep_pct", "preferred_equity_rate",
       "tax_rate", "preferred_equity", "da_pct_revenue", "acquirer_entry_ev",
+      "base_rate_shift",
     ];
     for (const key of expectedKeys) {
       expect(sensitivityParamSetters[key]).toBeDefined();
@@ -1350,4 +1397,49 @@ describe("sensitivityParamSetters", () => {
     const result = sensitivityParamSetters["acquirer_entry_ev"](baseDp, 5000);
     expect(result.acquirer_entry_ev).toBe(5000);
   });
+
+  it("base_rate_shift setter shifts the curve without touching it", () => {
+    const curveDp = { ...baseDp, base_rate_curve: { "2026": 0.04 } };
+    const result = sensitivityParamSetters["base_rate_shift"](curveDp, 0.01);
+    expect(result.base_rate_shift).toBe(0.01);
+    expect(result.base_rate_curve).toEqual({ "2026": 0.04 });
+  });
+
+  describe("with debt tranches", () => {
+    const tranchedDp: DealParameters = {
+      ...baseDp,
+      price_paid: 1000,
+      ordinary_equity: 400,
+      cash_sweep_pct: 0,
+      debt_tranches: [
+        { name: "TLA", amount: 300, interest_rate: 0.05, amortisation: 30 },
+        { name: "TLB", amount: 300, interest_rate: 0.07, amortisation: 10 },
+      ],
+    };
+    const periods: PeriodData[] = [
+      { ebitda: 150, revenue: 700 },
+      { ebitda: 165, revenue: 770 },
+      { ebitda: 180, revenue: 840 },
+    ];
+    const combinedIrr = (dp: DealParameters) =>
+      calculateDealReturns(periods, periods, dp).cases.find((c) => c.return_case === "Kombinert")!.irr!;
+
+    it("interest_rate shifts every tranche and keeps the spread", () => {
+      const result = sensitivityParamSetters["interest_rate"](tranchedDp, 0.08);
+      expect(result.debt_tranches!.map((t) => round(t.interest_rate))).toEqual([0.07, 0.09]);
+      expect(combinedIrr(result)).toBeLessThan(combinedIrr(tranchedDp));
+    });
+
+    it("debt_amortisation scales every tranche's amortisation", () => {
+      const result = sensitivityParamSetters["debt_amortisation"](tranchedDp, 80);
+      expect(result.debt_tranches!.map((t) => t.amortisation)).toEqual([60, 20]);
+      expect(combinedIrr(result)).not.toBeCloseTo(combinedIrr(tranchedDp), 6);
+    });
+
+    it("debt_amortisation spreads by amount when no tranche amortises", () => {
+      const bullet = { ...tranchedDp, debt_tranches: tranchedDp.debt_tranches!.map((t) => ({ ...t, amortisation: 0 })) };
+      const result = sensitivityParamSetters["debt_amortisation"](bullet, 40);
+      expect(result.debt_tranches!.map((t) => t.amortisation)).toEqual([20, 20]);
+    });
+  });
 });
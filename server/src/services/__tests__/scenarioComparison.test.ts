@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareMetric,
+  compareScenarios,
+  comparisonExitMultiple,
+  entryPeriod,
+  parseComparisonQuery,
+  scenarioMetrics,
+  type ComparedScenario,
+  type ComparisonInput,
+} from "../scenarioComparison.js";
+import type { CalculatedReturns } from "../dealReturns.js";
+
+const acquirerPeriods = [
+  { period_date: "2025-12-31", period_label: "2025E", ebitda_total: 300 },
+  { period_date: "2026-12-31", period_label: "2026E", ebitda_total: 330 },
+];
+const targetPeriods = [
+  { period_date: "2025-12-31", period_label: "2025E", ebitda_total: "100" },
+  { period_date: "2026-12-31", period_label: "2026E", ebitda_total: "120" },
+];
+
+function result(irr: number, mom: number, standaloneIrr: number, dilution?: number): CalculatedReturns {
+  return {
+    cases: [
+      { return_case: "Standalone", exit_multiple: 12, irr: standaloneIrr, mom: 2.0 },
+      { return_case: "Kombinert", exit_multiple: 12, irr, mom, per_share_irr: irr - 0.01, per_share_mom: mom - 0.1 },
+    ],
+    standalone_by_multiple: { 12: { irr: standaloneIrr, mom: 2.0 } },
+    level: 2,
+    level_label: "Level 2",
+    ...(dilution !== undefined ? {
+      share_summary: {
+        entry_shares: 100, exit_shares_base: 100, rollover_shares: 5, total_exit_shares: 105,
+        dilution_pct: 0.048, entry_price_per_share: 10, dilution_value_pct: dilution,
+      },
+    } : {}),
+  };
+}
+
+const base: ComparisonInput = {
+  id: 1,
+  name: "Base",
+  acquirer_model_name: "Budget",
+  target_company_name: "Target AS",
+  acquirerPeriods,
+  targetPeriods,
+  dp: {
+    price_paid: 1000,
+    exit_multiples: [12],
+    ordinary_equity: 500,
+    preferred_equity: 100,
+    net_debt: 400,
+    acquisition_date: "2025-06-30",
+  },
+  result: result(0.2, 2.4, 0.15, 0.03),
+};
+
+describe("parseComparisonQuery", () => {
+  it("parses 2–5 distinct ids and an optional exit multiple", () => {
+    expect(parseComparisonQuery({ ids: "3, 1,3" })).toEqual({ ids: [3, 1] });
+    expect(parseComparisonQuery({ ids: "1,2", exit_multiple: "11.5" })).toEqual({ ids: [1, 2], exit_multiple: 11.5 });
+  });
+
+  it("rejects too few, too many and malformed ids", () => {
+    expect(parseComparisonQuery({ ids: "1" })).toHaveProperty("error");
+    expect(parseComparisonQuery({ ids: "1,2,3,4,5,6" })).toHaveProperty("error");
+    expect(parseComparisonQuery({ ids: "1,x" })).toHaveProperty("error");
+    expect(parseComparisonQuery({})).toHaveProperty("error");
+    expect(parseComparisonQuery({ ids: "1,2", exit_multiple: "-1" })).toHaveProperty("error");
+  });
+});
+
+describe("comparisonExitMultiple", () => {
+  it("uses the requested multiple, else the middle of the range", () => {
+    expect(comparisonExitMultiple(9, [10, 11, 12])).toBe(9);
+    expect(comparisonExitMultiple(undefined, [10, 11, 12, 13, 14])).toBe(12);
+    expect(comparisonExitMultiple(undefined, undefined)).toBe(12);
+  });
+});
+
+describe("entryPeriod", () => {
+  it("is the first period ending on or after close", () => {
+    expect(entryPeriod(targetPeriods, "2025-06-30")?.period_label).toBe("2025E");
+    expect(entryPeriod(targetPeriods, "2026-01-15")?.period_label).toBe("2026E");
+    expect(entryPeriod(targetPeriods, "2027-01-15")).toBeNull();
+    expect(entryPeriod(targetPeriods, null)?.period_label).toBe("2025E");
+  });
+});
+
+describe("scenarioMetrics", () => {
+  it("lines up entry, capital structure, returns, accretion and dilution", () => {
+    const s = scenarioMetrics(base, 12);
+    expect(s.entry_period).toBe("2025E");
+    expect(s.metrics).toMatchObject({
+      price_paid: 1000,
+      entry_multiple: 10,
+      net_debt: 400,
+      leverage: 1,
+      debt_share: 0.4,
+      combined_irr: 0.2,
+      combined_mom: 2.4,
+      per_share_irr: 0.19,
+      exit_dilution: 0.03,
+    });
+    expect(s.metrics.irr_accretion).toBeCloseTo(0.05);
+    expect(s.metrics.mom_accretion).toBeCloseTo(0.4);
+  });
+
+  it("sums debt tranches and leaves out what cannot be measured", () => {
+    const s = scenarioMetrics({
+      ...base,
+      targetPeriods: [],
+      dp: { ...base.dp, price_paid: 0, debt_tranches: [{ name: "TLA", amount: 150 }, { name: "TLB", amount: 150 }] },
+      result: { ...result(0.2, 2.4, 0.15), cases: [] },
+    }, 12);
+    expect(s.metrics).toMatchObject({
+      price_paid: null,
+      entry_multiple: null,
+      net_debt: 300,
+      leverage: 1,
+      combined_irr: null,
+      irr_accretion: null,
+      exit_dilution: null,
+    });
+  });
+});
+
+describe("compareMetric", () => {
+  const scenarios = [
+    { id: 1, metrics: { combined_irr: 0.2, price_paid: 1000 } },
+    { id: 2, metrics: { combined_irr: 0.25, price_paid: 1000 } },
+    { id: 3, metrics: { combined_irr: 0.25, price_paid: 1000 } },
+    { id: 4, metrics: { combined_irr: null, price_paid: null } },
+  ] as unknown as ComparedScenario[];
+
+  it("ranks best and worst in the metric's direction, ties included", () => {
+    expect(compareMetric("combined_irr", scenarios)).toMatchObject({
+      differs: true, best: [2, 3], worst: [1],
+    });
+    expect(compareMetric("combined_irr", scenarios).spread).toBeCloseTo(0.05);
+  });
+
+  it("does not rank equal values or metrics without a direction", () => {
+    expect(compareMetric("price_paid", scenarios)).toEqual({
+      metric: "price_paid", better: null, differs: false, spread: 0, best: [], worst: [],
+    });
+  });
+});
+
+describe("compareScenarios", () => {
+  it("compares every metric at one exit multiple", () => {
+    const cheaper: ComparisonInput = { ...base, id: 2, name: "Cheaper", dp: { ...base.dp, price_paid: 900 }, result: result(0.22, 2.6, 0.15, 0.05) };
+    const comparison = compareScenarios([base, cheaper], 12);
+    expect(comparison.exit_multiple).toBe(12);
+    expect(comparison.scenarios.map((s) => s.name)).toEqual(["Base", "Cheaper"]);
+    const byMetric = Object.fromEntries(comparison.metrics.map((m) => [m.metric, m]));
+    expect(byMetric.entry_multiple).toMatchObject({ differs: true, best: [2], worst: [1] });
+    expect(byMetric.combined_irr).toMatchObject({ best: [2], worst: [1] });
+    expect(byMetric.exit_dilution).toMatchObject({ best: [1], worst: [2] });
+    expect(byMetric.leverage).toMatchObject({ differs: false, best: [], worst: [] });
+  });
+});
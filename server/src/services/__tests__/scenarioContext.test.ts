@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildComputationData,
+  calculateScenarioReturns,
+  runFullCalculation,
+  type ScenarioContext,
+  type ScenarioRow,
+} from "../scenarioContext.js";
+import { buildSynergyPlan } from "../synergies.js";
+import type { LoadedAddOn } from "../addOns.js";
+import type { DealParameters } from "../dealReturns.js";
+import { computeSensitivityGrid } from "../scenarioService.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function makePeriod(year: number, overrides: Record<string, any> = {}) {
+  return {
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: "200",
+    ...overrides,
+  };
+}
+
+const years = [2026, 2027, 2028, 2029];
+
+const addOn: LoadedAddOn = {
+  target_model_id: 7,
+  name: "Target B",
+  close_date: "2027-07-01",
+  price_paid: 120,
+  periods: years.map((y) => makePeriod(y, { revenue_total: "200", ebitda_total: "40" })),
+};
+
+const scenario = {
+  id: 1,
+  synergy_items: [
+    { name: "Procurement", category: "procurement", run_rate: 20, start_year: 2026, template: "immediate", probability: 0.5 },
+  ],
+} as unknown as ScenarioRow;
+
+const ctx: ScenarioContext = {
+  scenario,
+  acquirerPeriods: years.map((y) => makePeriod(y)),
+  targetPeriods: years.map((y) => makePeriod(y, { revenue_total: "500", ebitda_total: "100" })),
+  acquirerModelParams: null,
+  synergiesTimeline: {},
+  synergyPlan: buildSynergyPlan(scenario),
+  addOns: [addOn],
+};
+
+const dp: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10], acquirer_entry_ev: 2000 };
+
+// ── Case assembly ──────────────────────────────────────────────────
+
+describe("calculateScenarioReturns", () => {
+  it("returns the risk-weighted and add-on cases next to the combined case", () => {
+    const { mergedDp } = runFullCalculation(ctx, dp);
+    const cases = calculateScenarioReturns(ctx, mergedDp, buildComputationData(ctx, mergedDp)).cases;
+    expect(cases.map((c) => c.return_case)).toEqual(["Standalone", "Kombinert", "Risikovektet", "Add-on 1: Target B"]);
+
+    const irr = (name: string) => cases.find((c) => c.return_case === name)!.irr!;
+    expect(irr("Risikovektet")).toBeLessThan(irr("Kombinert"));
+  });
+});
+
+// ── Sensitivity grid ───────────────────────────────────────────────
+
+describe("computeSensitivityGrid", () => {
+  it("moves the IRR along the interest_rate axis for a floating-rate scenario", () => {
+    const floating: ScenarioContext = {
+      ...ctx,
+      addOns: [],
+      scenario: { ...scenario, net_debt: 1200, base_rate_curve: { "2026": 0.04 }, interest_margin: 0.03 } as ScenarioRow,
+    };
+    const grid = computeSensitivityGrid(floating, {
+      base_params: { ...dp, ordinary_equity: 1800, cash_sweep_pct: 0 },
+      row_axis: { param: "interest_rate", values: [0.05, 0.07, 0.09] },
+      col_axis: { param: "exit_multiple", values: [10] },
+      metric: "irr",
+      return_case: "Kombinert",
+    });
+    if ("error" in grid) throw new Error(grid.error);
+    const irrs = grid.matrix.map((row) => row[0]!);
+    expect(irrs[0]).toBeGreaterThan(irrs[1]);
+    expect(irrs[1]).toBeGreaterThan(irrs[2]);
+  });
+});
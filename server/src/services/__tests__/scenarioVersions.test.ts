@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { buildSnapshot, diffSnapshots } from "../scenarioVersions.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function makeRow(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: 1,
+    name: "ECIT + Target",
+    description: null,
+    acquisition_date: new Date(2026, 5, 30),
+    share_price: "82.00",
+    net_debt: "1500.0",
+    preferred_equity_rate: "0.0950",
+    status: "active",
+    sources: [{ name: "Term loan", amount: 800 }],
+    uses: [{ name: "Purchase price", amount: 800 }],
+    cost_synergies_timeline: { "2026": 10 },
+    base_rate_curve: {},
+    deal_parameters: { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10, 12] },
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+// ── buildSnapshot ──────────────────────────────────────────────────
+
+describe("buildSnapshot", () => {
+  it("keeps only versioned fields", () => {
+    const snap = buildSnapshot(makeRow());
+    expect(snap).not.toHaveProperty("id");
+    expect(snap).not.toHaveProperty("updated_at");
+    expect(snap.deal_parameters).toEqual({ price_paid: 1000, tax_rate: 0.22, exit_multiples: [10, 12] });
+  });
+
+  it("normalises NUMERIC strings to numbers", () => {
+    const snap = buildSnapshot(makeRow());
+    expect(snap.share_price).toBe(82);
+    expect(snap.net_debt).toBe(1500);
+    expect(snap.preferred_equity_rate).toBeCloseTo(0.095);
+  });
+
+  it("stores dates as YYYY-MM-DD without timezone shift", () => {
+    expect(buildSnapshot(makeRow()).acquisition_date).toBe("2026-06-30");
+  });
+
+  it("versions the models the scenario runs on", () => {
+    const snap = buildSnapshot(makeRow({ acquirer_model_id: 3, target_model_id: 4, actuals_model_id: null }));
+    expect(snap).toMatchObject({ acquirer_model_id: 3, target_model_id: 4, actuals_model_id: null });
+  });
+
+  it("defaults missing fields to null / empty JSON", () => {
+    const snap = buildSnapshot({ id: 1, name: "Bare" });
+    expect(snap.net_debt).toBeNull();
+    expect(snap.sources).toEqual([]);
+    expect(snap.deal_parameters).toEqual({});
+  });
+});
+
+// ── diffSnapshots ──────────────────────────────────────────────────
+
+describe("diffSnapshots", () => {
+  it("returns no changes for identical snapshots", () => {
+    expect(diffSnapshots(buildSnapshot(makeRow()), buildSnapshot(makeRow()))).toEqual([]);
+  });
+
+  it("treats NUMERIC string and number as equal", () => {
+    const a = buildSnapshot(makeRow({ net_debt: "1500.0" }));
+    const b = buildSnapshot(makeRow({ net_debt: 1500 }));
+    expect(diffSnapshots(a, b)).toEqual([]);
+  });
+
+  it("reports scalar field changes", () => {
+    const a = buildSnapshot(makeRow());
+    const b = buildSnapshot(makeRow({ net_debt: "1700.0", name: "Renamed" }));
+    expect(diffSnapshots(a, b)).toEqual([
+      { field: "name", from: "ECIT + Target", to: "Renamed" },
+      { field: "net_debt", from: 1500, to: 1700 },
+    ]);
+  });
+
+  it("diffs deal_parameters key by key", () => {
+    const a = buildSnapshot(makeRow());
+    const b = buildSnapshot(makeRow({
+      deal_parameters: { price_paid: 1100, tax_rate: 0.22, exit_multiples: [10, 12], cash_sweep_pct: 0.5 },
+    }));
+    expect(diffSnapshots(a, b)).toEqual([
+      { field: "deal_parameters.cash_sweep_pct", from: null, to: 0.5 },
+      { field: "deal_parameters.price_paid", from: 1000, to: 1100 },
+    ]);
+  });
+
+  it("compares sources and uses as whole arrays", () => {
+    const a = buildSnapshot(makeRow());
+    const b = buildSnapshot(makeRow({ sources: [{ name: "Term loan", amount: 900 }] }));
+    const changes = diffSnapshots(a, b);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].field).toBe("sources");
+    expect(changes[0].to).toEqual([{ name: "Term loan", amount: 900 }]);
+  });
+
+  it("reports a switched target model", () => {
+    const a = buildSnapshot(makeRow({ acquirer_model_id: 3, target_model_id: 4 }));
+    const b = buildSnapshot(makeRow({ acquirer_model_id: 3, target_model_id: 5 }));
+    expect(diffSnapshots(a, b)).toEqual([{ field: "target_model_id", from: 4, to: 5 }]);
+  });
+
+  it("skips fields a legacy snapshot does not have", () => {
+    const { acquirer_model_id: _a, target_model_id: _t, actuals_model_id: _x, ...legacy } =
+      buildSnapshot(makeRow({ acquirer_model_id: 3, target_model_id: 4 }));
+    expect(diffSnapshots(legacy, buildSnapshot(makeRow({ acquirer_model_id: 3, target_model_id: 4 })))).toEqual([]);
+  });
+
+  it("reports removed synergy years", () => {
+    const a = buildSnapshot(makeRow({ cost_synergies_timeline: { "2026": 10, "2027": 20 } }));
+    const b = buildSnapshot(makeRow({ cost_synergies_timeline: { "2026": 10 } }));
+    expect(diffSnapshots(a, b)).toEqual([
+      { field: "cost_synergies_timeline.2027", from: 20, to: null },
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSynergyPlan,
+  periodSynergies,
+  phasingFactor,
+  plannedCostTimeline,
+  synergyTimelines,
+  toSynergyPlan,
+  type SynergyItem,
+  type SynergyPlan,
+} from "../synergies.js";
+import {
+  applySynergies,
+  buildProFormaPeriods,
+  buildProFormaPeriodData,
+  buildProFormaPeriodDataFromStored,
+} from "../proForma.js";
+import {
+  calculateDealReturns,
+  computeLevel1Return,
+  computeLevel2Return,
+  type DealParameters,
+  type PeriodData,
+} from "../dealReturns.js";
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+function makePeriod(year: number, overrides: Record<string, any> = {}) {
+  return {
+    period_date: new Date(`${year}-12-31`),
+    period_label: `${year}E`,
+    revenue_total: "1000",
+    ebitda_total: "200",
+    ...overrides,
+  };
+}
+
+const plan: SynergyPlan = {
+  cost: { "2027": 20 },
+  revenue: { "2027": 50 },
+  revenue_margin: 0.3,
+  realisation: { "2027": 0.8 },
+  integration_costs: { "2026": 15 },
+};
+
+const params: DealParameters = { price_paid: 1000, tax_rate: 0.22, exit_multiples: [10] };
+
+// ── periodSynergies ────────────────────────────────────────────────
+
+describe("periodSynergies", () => {
+  it("applies realisation to cost and revenue synergies", () => {
+    const syn = periodSynergies(plan, "2027");
+    expect(syn.cost).toBeCloseTo(16);
+    expect(syn.revenue).toBeCloseTo(40);
+    expect(syn.revenue_ebitda).toBeCloseTo(12);
+    expect(syn.ebitda).toBeCloseTo(28);
+    expect(syn.realisation).toBe(0.8);
+  });
+
+  it("fully realises years without a realisation entry", () => {
+    expect(periodSynergies({ cost: { "2026": 10 } }, "2026").cost).toBe(10);
+  });
+
+  it("returns integration costs as an outflow", () => {
+    expect(periodSynergies(plan, "2026").integration_costs).toBe(-15);
+    expect(periodSynergies(plan, "2027").integration_costs).toBeCloseTo(0);
+  });
+
+  it("earns no EBITDA on revenue synergies without a margin", () => {
+    const syn = periodSynergies({ cost: {}, revenue: { "2027": 50 } }, "2027");
+    expect(syn.revenue).toBe(50);
+    expect(syn.ebitda).toBe(0);
+  });
+
+  it("reads a bare timeline as cost synergies", () => {
+    expect(toSynergyPlan({ "2026": 10 })).toEqual({ cost: { "2026": 10 } });
+    expect(periodSynergies({ "2026": 10 }, "2026").ebitda).toBe(10);
+  });
+});
+
+describe("buildSynergyPlan", () => {
+  it("parses the NUMERIC margin and defaults missing timelines", () => {
+    const built = buildSynergyPlan({ cost_synergies_timeline: { "2026": 5 }, revenue_synergy_margin: "0.2500" });
+    expect(built.revenue_margin).toBe(0.25);
+    expect(built.revenue).toEqual({});
+    expect(built.integration_costs).toEqual({});
+  });
+
+  it("keeps a missing margin as null", () => {
+    expect(buildSynergyPlan({ revenue_synergy_margin: null }).revenue_margin).toBeNull();
+  });
+});
+
+// ── Pro forma ──────────────────────────────────────────────────────
+
+describe("applySynergies with a synergy plan", () => {
+  it("sets revenue synergies, their EBITDA and integration costs", () => {
+    const periods = buildProFormaPeriods([makePeriod(2026), makePeriod(2027)], []);
+    applySynergies(periods, plan);
+    expect(periods[0].integration_costs).toBe(-15);
+    expect(periods[0].total_ebitda_incl_synergies).toBe(200);
+    expect(periods[1].cost_synergies).toBeCloseTo(16);
+    expect(periods[1].revenue_synergies).toBeCloseTo(40);
+    expect(periods[1].revenue_synergy_ebitda).toBeCloseTo(12);
+    expect(periods[1].total_ebitda_incl_synergies).toBeCloseTo(228);
+    expect(periods[1].ebitda_margin_incl_synergies).toBeCloseTo(228 / 1040);
+  });
+});
+
+describe("buildProFormaPeriodData with a synergy plan", () => {
+  const acquirer = [makePeriod(2026), makePeriod(2027)];
+
+  it("adds synergy EBITDA and revenue and carries integration costs", () => {
+    const data = buildProFormaPeriodData(acquirer, [], plan, params);
+    expect(data[0].integration_costs).toBe(-15);
+    expect(data[1].ebitda).toBeCloseTo(228);
+    expect(data[1].revenue).toBeCloseTo(1040);
+    expect(data[1].integration_costs).toBeUndefined();
+  });
+
+  it("folds integration costs into NIBD-derived FCF", () => {
+    const target = [makePeriod(2026, { nibd: "100" }), makePeriod(2027, { nibd: "80" })];
+    const withCosts = buildProFormaPeriodData(acquirer, target, plan, params, [30, 30]);
+    const without = buildProFormaPeriodData(acquirer, target, { ...plan, integration_costs: {} }, params, [30, 30]);
+    expect(withCosts[0].nibd_fcf! - without[0].nibd_fcf!).toBeCloseTo(-15);
+  });
+
+  it("matches the stored pro forma path", () => {
+    const stored = [
+      { period_date: new Date("2026-12-31"), total_ebitda_excl_synergies: 200, total_revenue: 1000 },
+      { period_date: new Date("2027-12-31"), total_ebitda_excl_synergies: 200, total_revenue: 1000 },
+    ];
+    const data = buildProFormaPeriodDataFromStored(stored, plan);
+    expect(data[0].integration_costs).toBe(-15);
+    expect(data[1].ebitda).toBeCloseTo(228);
+    expect(data[1].revenue).toBeCloseTo(1040);
+  });
+});
+
+// ── Deal returns ───────────────────────────────────────────────────
+
+describe("integration costs in deal returns", () => {
+  const base: PeriodData[] = [
+    { ebitda: 200, revenue: 1000 },
+    { ebitda: 220, revenue: 1000 },
+  ];
+  const withCosts: PeriodData[] = [{ ...base[0], integration_costs: -50 }, base[1]];
+
+  it("reduce Level 1 FCF net of the tax shield, not exit value", () => {
+    const a = computeLevel1Return(1000, base, params, 10);
+    const b = computeLevel1Return(1000, withCosts, params, 10);
+    expect(b.mom!).toBeLessThan(a.mom!);
+    // 50 after 22 % tax = 39 less cash, exit unchanged
+    expect((a.mom! - b.mom!) * 1000).toBeCloseTo(50 * (1 - 0.22));
+  });
+
+  it("reduce Level 2 unlevered FCF", () => {
+    const l2: DealParameters = {
+      ...params, ordinary_equity: 500, net_debt: 500, interest_rate: 0.05, debt_amortisation: 0, cash_sweep_pct: 0,
+    };
+    const a = computeLevel2Return(1000, base, l2, 10, true);
+    const b = computeLevel2Return(1000, withCosts, l2, 10, true);
+    expect(b.schedule![0].fcf_to_equity).toBeCloseTo(a.schedule![0].fcf_to_equity - 50 * (1 - 0.22));
+  });
+});
+
+// ── Synergy items ──────────────────────────────────────────────────
+
+const itItem: SynergyItem = {
+  name: "IT consolidation", category: "it", run_rate: 20, start_year: 2026, template: "25_50_100", probability: 0.6,
+};
+const premisesItem: SynergyItem = {
+  name: "Office merge", category: "premises", run_rate: 10, start_year: 2027, template: "immediate",
+};
+
+describe("phasingFactor", () => {
+  it("follows the template from the start year and holds the last step", () => {
+    expect(phasingFactor(itItem, 2025)).toBe(0);
+    expect([2026, 2027, 2028, 2031].map((y) => phasingFactor(itItem, y))).toEqual([0.25, 0.5, 1, 1]);
+    expect(phasingFactor({ ...itItem, template: "s_curve" }, 2027)).toBe(0.4);
+  });
+
+  it("uses custom phasing and treats an empty one as immediate", () => {
+    const custom: SynergyItem = { ...itItem, template: "custom", custom_phasing: [0.2, 0.7] };
+    expect([2026, 2027, 2028].map((y) => phasingFactor(custom, y))).toEqual([0.2, 0.7, 0.7]);
+    expect(phasingFactor({ ...custom, custom_phasing: [] }, 2026)).toBe(1);
+  });
+});
+
+describe("synergyTimelines", () => {
+  it("builds full, risk-weighted and per-category timelines", () => {
+    const tl = synergyTimelines({ cost: {}, items: [itItem, premisesItem] }, ["2026", "2027", "2028"]);
+    expect(tl.full).toEqual({ "2026": 5, "2027": 20, "2028": 30 });
+    expect(tl.risk_weighted["2026"]).toBeCloseTo(3);
+    expect(tl.risk_weighted["2028"]).toBeCloseTo(22);
+    expect(tl.by_category.premises).toEqual({ "2026": 0, "2027": 10, "2028": 10 });
+  });
+
+  it("falls back to the typed cost timeline without items", () => {
+    const tl = synergyTimelines({ cost: { "2026": 7 } }, ["2026", "2027"]);
+    expect(tl.full).toEqual({ "2026": 7, "2027": 0 });
+    expect(tl.risk_weighted).toEqual(tl.full);
+    expect(plannedCostTimeline({ cost: { "2026": 7 } }, ["2026"])).toEqual({ "2026": 7 });
+  });
+});
+
+describe("periodSynergies with items", () => {
+  it("replaces the cost timeline and weights by probability when asked", () => {
+    const itemPlan: SynergyPlan = { cost: { "2028": 999 }, items: [itItem], realisation: { "2028": 0.5 } };
+    expect(periodSynergies(itemPlan, "2028").cost).toBe(10);
+    expect(periodSynergies({ ...itemPlan, risk_weighted: true }, "2028").cost).toBeCloseTo(6);
+  });
+
+  it("reads items from the scenario row", () => {
+    expect(buildSynergyPlan({ synergy_items: [itItem] }).items).toEqual([itItem]);
+    expect(buildSynergyPlan({}).items).toEqual([]);
+  });
+});
+
+describe("risk-weighted return case", () => {
+  const periods: PeriodData[] = [
+    { ebitda: 200, revenue: 1000 },
+    { ebitda: 220, revenue: 1000 },
+  ];
+  const riskPeriods: PeriodData[] = periods.map((p) => ({ ...p, ebitda: p.ebitda - 10 }));
+
+  it("adds a Risikovektet case below the combined one", () => {
+    const result = calculateDealReturns(periods, periods, params, undefined, riskPeriods);
+    const combined = result.cases.find((c) => c.return_case === "Kombinert")!;
+    const risk = result.cases.find((c) => c.return_case === "Risikovektet")!;
+    expect(risk).toBeDefined();
+    expect(risk.irr!).toBeLessThan(combined.irr!);
+  });
+
+  it("is omitted without risk-weighted periods", () => {
+    const result = calculateDealReturns(periods, periods, params);
+    expect(result.cases.some((c) => c.return_case === "Risikovektet")).toBe(false);
+  });
+});
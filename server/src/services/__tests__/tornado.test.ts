@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TORNADO_DELTAS,
+  rankByImpact,
+  shiftValue,
+  swing,
+  type TornadoRow,
+} from "../tornado.js";
+import {
+  SENSITIVITY_PARAMS,
+  middleMultiple,
+  sensitivityBaseValue,
+  sensitivityParamSetters,
+} from "../proForma.js";
+import type { DealParameters } from "../dealReturns.js";
+
+const dp: DealParameters = {
+  price_paid: 1000,
+  tax_rate: 0.22,
+  exit_multiples: [10, 11, 12, 13, 14],
+  net_debt: 400,
+  interest_rate: 0.06,
+};
+
+function row(param: TornadoRow["param"], irr_swing: number | null, mom_swing: number | null): TornadoRow {
+  return {
+    param,
+    base_value: 0,
+    low: { value: 0, irr: null, mom: null },
+    high: { value: 0, irr: null, mom: null },
+    irr_swing,
+    mom_swing,
+  };
+}
+
+describe("SENSITIVITY_PARAMS", () => {
+  it("covers every sensitivity setter, each with a default delta", () => {
+    expect([...SENSITIVITY_PARAMS].sort()).toEqual(Object.keys(sensitivityParamSetters).sort());
+    expect(Object.keys(DEFAULT_TORNADO_DELTAS).sort()).toEqual([...SENSITIVITY_PARAMS].sort());
+  });
+});
+
+describe("sensitivityBaseValue", () => {
+  it("uses the middle exit multiple", () => {
+    expect(middleMultiple(dp)).toBe(12);
+    expect(sensitivityBaseValue(dp, "exit_multiple")).toBe(12);
+    expect(middleMultiple({ ...dp, exit_multiples: [] })).toBe(12);
+  });
+
+  it("falls back to engine defaults and skips unused parameters", () => {
+    expect(sensitivityBaseValue(dp, "net_debt")).toBe(400);
+    expect(sensitivityBaseValue(dp, "da_pct_revenue")).toBe(0.01);
+    expect(sensitivityBaseValue(dp, "cash_sweep_pct")).toBe(1);
+    expect(sensitivityBaseValue(dp, "preferred_equity")).toBeNull();
+  });
+
+  it("reads debt terms from the tranches when set", () => {
+    const tranched: DealParameters = {
+      ...dp,
+      debt_tranches: [
+        { name: "TLA", amount: 300, interest_rate: 0.05, amortisation: 30 },
+        { name: "TLB", amount: 100, interest_rate: 0.09 },
+      ],
+    };
+    expect(sensitivityBaseValue(tranched, "interest_rate")).toBeCloseTo(0.06);
+    expect(sensitivityBaseValue(tranched, "debt_amortisation")).toBe(30);
+  });
+});
+
+describe("shiftValue", () => {
+  it("applies absolute and relative offsets", () => {
+    expect(shiftValue("exit_multiple", 12, DEFAULT_TORNADO_DELTAS.exit_multiple, "low")).toBe(11);
+    expect(shiftValue("price_paid", 1000, DEFAULT_TORNADO_DELTAS.price_paid, "high")).toBeCloseTo(1100);
+    expect(shiftValue("interest_rate", 0.06, DEFAULT_TORNADO_DELTAS.interest_rate, "low")).toBeCloseTo(0.05);
+  });
+
+  it("keeps values in range", () => {
+    expect(shiftValue("cash_sweep_pct", 0.9, DEFAULT_TORNADO_DELTAS.cash_sweep_pct, "high")).toBe(1);
+    expect(shiftValue("cash_sweep_pct", 0, DEFAULT_TORNADO_DELTAS.cash_sweep_pct, "low")).toBe(0);
+    expect(shiftValue("interest_rate", 0.005, DEFAULT_TORNADO_DELTAS.interest_rate, "low")).toBe(0);
+    expect(shiftValue("base_rate_shift", 0, DEFAULT_TORNADO_DELTAS.base_rate_shift, "low")).toBeCloseTo(-0.01);
+  });
+});
+
+describe("rankByImpact", () => {
+  it("sorts by IRR swing, then MoM swing, with missing IRR last", () => {
+    const ranked = rankByImpact([
+      row("tax_rate", 0.01, 0.1),
+      row("net_debt", null, 0.5),
+      row("exit_multiple", 0.05, 0.3),
+      row("price_paid", 0.01, 0.2),
+    ]);
+    expect(ranked.map((r) => r.param)).toEqual(["exit_multiple", "price_paid", "tax_rate", "net_debt"]);
+  });
+
+  it("measures swing as the distance between the two runs", () => {
+    expect(swing(0.25, 0.15)).toBeCloseTo(0.1);
+    expect(swing(null, 0.15)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { periodFcf, varianceLine, varianceReport } from "../variance.js";
+
+// Plan 2024–2027 (target model at IC) and actuals for 2025–2026
+const plan = [
+  { period_date: "2024-12-31", period_label: "2024A", period_type: "actual", revenue_total: 900, ebitda_total: 90 },
+  { period_date: "2025-12-31", period_label: "2025E", period_type: "forecast", revenue_total: 1000, ebitda_total: 150, operating_fcf: 100 },
+  { period_date: "2026-12-31", period_label: "2026E", period_type: "forecast", revenue_total: 1100, ebitda_total: 170, operating_fcf: 120 },
+  { period_date: "2027-12-31", period_label: "2027E", period_type: "forecast", revenue_total: 1200, ebitda_total: 190, operating_fcf: 140 },
+];
+const actuals = [
+  { period_date: "2024-12-31", period_label: "2024", period_type: "actual", revenue_total: 910, ebitda_total: 95 },
+  { period_date: "2025-12-31", period_label: "2025", period_type: "actual", revenue_total: 950, ebitda_total: 133, operating_fcf: 90, cost_synergies: 15 },
+  { period_date: "2026-12-31", period_label: "2026", period_type: "actual", revenue_total: 1150, ebitda_total: 184, capex: -30, change_nwc: 10 },
+  { period_date: "2027-12-31", period_label: "2027B", period_type: "budget", revenue_total: 1300, ebitda_total: 200 },
+];
+const input = {
+  plan,
+  actuals,
+  planned_synergies: { "2025": 20, "2026": 40 },
+  acquisition_date: "2025-01-15",
+};
+
+describe("periodFcf", () => {
+  it("uses reported operating FCF", () => {
+    expect(periodFcf({ operating_fcf: "80", ebitda_total: 150 })).toBe(80);
+  });
+
+  it("builds FCF from EBITDA, capex and change in NWC", () => {
+    expect(periodFcf({ ebitda_total: 184, capex: -30, change_nwc: 10 })).toBe(144);
+    expect(periodFcf({ ebitda_total: 100, capex: 20, other_cash_flow_items: -5 })).toBe(75);
+  });
+
+  it("is empty without EBITDA", () => {
+    expect(periodFcf({ revenue_total: 100 })).toBeNull();
+  });
+});
+
+describe("varianceLine", () => {
+  it("measures actual against plan", () => {
+    expect(varianceLine(200, 180)).toEqual({ plan: 200, actual: 180, variance: -20, variance_pct: -0.1 });
+    expect(varianceLine(-50, -40).variance_pct).toBeCloseTo(0.2);
+  });
+
+  it("leaves the percentage out for margins and a zero plan", () => {
+    expect(varianceLine(0.15, 0.14, true).variance_pct).toBeNull();
+    expect(varianceLine(0, 10).variance_pct).toBeNull();
+    expect(varianceLine(100, null)).toMatchObject({ variance: null, variance_pct: null });
+  });
+});
+
+describe("varianceReport", () => {
+  const report = varianceReport(input);
+
+  it("covers the periods after close and only actual periods as actuals", () => {
+    expect(report.periods.map((p) => p.period_label)).toEqual(["2025E", "2026E", "2027E"]);
+    expect(report.periods.map((p) => p.has_actuals)).toEqual([true, true, false]);
+    expect(report.periods[2].revenue).toEqual({ plan: 1200, actual: null, variance: null, variance_pct: null });
+  });
+
+  it("compares revenue, EBITDA, margin and FCF by period", () => {
+    const [y2025, y2026] = report.periods;
+    expect(y2025.revenue).toMatchObject({ variance: -50, variance_pct: -0.05 });
+    expect(y2025.ebitda.variance).toBe(-17);
+    expect(y2025.ebitda_margin.plan).toBeCloseTo(0.15);
+    expect(y2025.ebitda_margin.variance).toBeCloseTo(0.14 - 0.15);
+    expect(y2025.fcf).toMatchObject({ plan: 100, actual: 90, variance: -10 });
+    expect(y2026.fcf).toMatchObject({ plan: 120, actual: 144, variance: 24 });
+  });
+
+  it("measures realised synergies against the planned timeline", () => {
+    expect(report.periods[0].synergies).toMatchObject({ plan: 20, actual: 15, variance: -5 });
+    expect(report.periods[1].synergies).toMatchObject({ plan: 40, actual: 0, variance: -40 });
+    expect(report.periods[2].synergies).toMatchObject({ plan: 0, actual: null });
+  });
+
+  it("totals the periods with actuals and recomputes the margin", () => {
+    expect(report.totals.revenue).toMatchObject({ plan: 2100, actual: 2100, variance: 0 });
+    expect(report.totals.ebitda).toMatchObject({ plan: 320, actual: 317, variance: -3 });
+    expect(report.totals.ebitda_margin.actual).toBeCloseTo(317 / 2100);
+    expect(report.totals.synergies).toMatchObject({ plan: 60, actual: 15 });
+  });
+
+  it("shows the plan alone before any actuals are loaded", () => {
+    const planOnly = varianceReport({ ...input, actuals: [] });
+    expect(planOnly.periods).toHaveLength(3);
+    expect(planOnly.periods.every((p) => !p.has_actuals)).toBe(true);
+    expect(planOnly.totals.revenue).toEqual({ plan: null, actual: null, variance: null, variance_pct: null });
+  });
+
+  it("adds actual periods the plan does not cover", () => {
+    const extra = { period_date: "2028-12-31", period_label: "2028", period_type: "actual", revenue_total: 1400, ebitda_total: 220 };
+    const withExtra = varianceReport({ ...input, actuals: [...actuals, extra] });
+    expect(withExtra.periods.at(-1)).toMatchObject({ period_label: "2028", has_actuals: true });
+    expect(withExtra.periods.at(-1)!.revenue).toMatchObject({ plan: null, actual: 1400, variance: null });
+  });
+});
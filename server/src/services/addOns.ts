@@ -0,0 +1,253 @@
+/**
+ * Add-ons — buy-and-build programmes with several targets.
+ *
+ * A scenario's target_model_id is the platform deal, closing at the
+ * acquisition date and paid for by the scenario's own price and S&U. Further
+ * targets are listed in order in add_on_targets, each with a close date, a
+ * price (or a Uses total), its own sources and its own cost synergies:
+ *
+ *   platform   Target A   closes 2026-01-01   (scenario price, S&U, synergies)
+ *   add-on 1   Target B   closes 2027-07-01   price 120, debt 60 / equity 60
+ *   add-on 2   Target C   closes 2028-03-31   price 80, all equity
+ *
+ * Each add-on is consolidated from its close date: the period it closes in
+ * carries the share of the year after closing, later periods all of it. The
+ * add-on figures are added to the target side of the pro forma, so the
+ * "target" columns show the whole programme.
+ *
+ * In the combined deal returns the price is paid in the close period: Level 1
+ * deducts it from FCF; Level 2 draws the add-on's debt on the most senior
+ * tranche and the rest is a further equity injection. Add-on equity also
+ * issues new shares at the prior year's price per share × 1.2.
+ *
+ * Each add-on gets its own incremental case ("Add-on 1: Target B"): a Level 1
+ * IRR on its price against its own cash flows and synergies from the close
+ * date to exit.
+ */
+
+import {
+  computeLevel1Return,
+  type CaseReturn,
+  type DealParameters,
+  type PeriodData,
+} from "./dealReturns.js";
+import { alignTargetPeriods, periodDateKey, TIME_WEIGHTED_FIELDS } from "./calendarise.js";
+import { toIsoDate } from "./dealTimeline.js";
+import { getDebtFromSources, getUsesTotal, type SourceItem } from "./proForma.js";
+import { periodSynergies, type SynergyPlan } from "./synergies.js";
+import { nwcCashFlow, signedChangeNwc } from "./balanceSheet.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** One entry of a scenario's add_on_targets column. */
+export interface AddOnTarget {
+  target_model_id: number;
+  /** Completion date (YYYY-MM-DD). */
+  close_date: string;
+  /** Enterprise value paid; defaults to the add-on's Uses total. */
+  price_paid?: number | null;
+  sources?: SourceItem[];
+  uses?: SourceItem[];
+  /** Year → cost synergies from this add-on (before realisation). */
+  cost_synergies_timeline?: Record<string, number>;
+}
+
+/** An add-on with its company name and periods (in the reporting currency). */
+export interface LoadedAddOn extends AddOnTarget {
+  name: string;
+  periods: any[];
+}
+
+/** Price and funding of an add-on, as used by the returns engine. */
+export interface AddOnDeal {
+  name: string;
+  close_date: string;
+  price_paid: number;
+  /** New debt drawn to fund it; the rest of the price is equity. */
+  debt: number;
+  equity: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ── Deal terms ─────────────────────────────────────────────────────
+
+/** Price paid and its debt / equity split (debt capped at the price). */
+export function toAddOnDeal(addOn: LoadedAddOn | (AddOnTarget & { name?: string })): AddOnDeal {
+  const usesTotal = getUsesTotal(addOn.uses);
+  const price = Number(addOn.price_paid) > 0 ? Number(addOn.price_paid) : usesTotal;
+  const debt = Math.min(price, getDebtFromSources(addOn.sources));
+  return {
+    name: addOn.name ?? `Model ${addOn.target_model_id}`,
+    close_date: toIsoDate(addOn.close_date) ?? addOn.close_date,
+    price_paid: price,
+    debt,
+    equity: price - debt,
+  };
+}
+
+/** Return case name for an add-on's incremental returns (1-based, in list order). */
+export function addOnCaseName(index: number, name: string): string {
+  return `Add-on ${index + 1}: ${name}`.slice(0, 100);
+}
+
+// ── Consolidation ──────────────────────────────────────────────────
+
+/** Start and end (ms, UTC) of the annual period ending on `periodDate`. */
+function periodBounds(periodDate: Date | string): { start: number; end: number } {
+  const end = Date.parse(periodDateKey(periodDate));
+  const d = new Date(end);
+  return { start: Date.UTC(d.getUTCFullYear() - 1, d.getUTCMonth(), d.getUTCDate()), end };
+}
+
+/**
+ * Share of an annual period ending on `periodDate` that falls after the
+ * close date: 0 when it closes at or after the period end, 1 when it closed
+ * by the period start.
+ */
+export function consolidationShare(periodDate: Date | string, closeDate: string): number {
+  const { start, end } = periodBounds(periodDate);
+  const close = Date.parse(toIsoDate(closeDate) ?? closeDate);
+  if (Number.isNaN(close) || close <= start) return 1;
+  if (close >= end) return 0;
+  return Math.round((end - close) / MS_PER_DAY) / Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * Target periods on the acquirer's dates with every add-on added from its
+ * close date (flow items only, weighted by consolidationShare). Without
+ * add-ons the platform target's periods are returned unchanged.
+ *
+ * NIBD is dropped: a programme's NIBD jumps at each close, so the FCF falls
+ * back to the EBITDA-based build-up.
+ */
+export function consolidateAddOns(acquirerPeriods: any[], targetPeriods: any[], addOns: LoadedAddOn[]): any[] {
+  if (addOns.length === 0) return targetPeriods;
+
+  const platform = alignTargetPeriods(acquirerPeriods, targetPeriods);
+  const aligned = addOns.map((a) => alignTargetPeriods(acquirerPeriods, a.periods));
+
+  return acquirerPeriods.map((ap: any) => {
+    const key = periodDateKey(ap.period_date);
+    const base = platform.get(key)?.period;
+    const periods = [base, ...aligned.map((m) => m.get(key)?.period)];
+    // A derived ΔNWC is signed: sum every side in that convention
+    const signed = periods.some((p) => p?.change_nwc_derived);
+    const out: any = {
+      ...(base ?? {}),
+      period_date: ap.period_date,
+      period_label: ap.period_label,
+      nibd: null,
+    };
+    for (const field of TIME_WEIGHTED_FIELDS) {
+      let total = 0;
+      let seen = false;
+      const add = (period: any, weight: number) => {
+        const v = signed && field === "change_nwc" ? signedChangeNwc(period) : period?.[field];
+        if (v == null || v === "" || weight <= 0) return;
+        const n = parseFloat(v);
+        if (Number.isNaN(n)) return;
+        total += n * weight;
+        seen = true;
+      };
+      add(base, 1);
+      addOns.forEach((a, i) => add(aligned[i].get(key)?.period, consolidationShare(ap.period_date, a.close_date)));
+      out[field] = seen ? total : null;
+    }
+    if (signed) out.change_nwc_derived = out.change_nwc != null;
+    const revenue = out.revenue_total;
+    out.ebitda_margin = revenue ? (out.ebitda_total ?? 0) / revenue : null;
+    return out;
+  });
+}
+
+// ── Funding ────────────────────────────────────────────────────────
+
+/** True when the add-on closes in the period ending on `periodDate` (its first consolidated period). */
+function closesIn(periodDate: Date | string, closeDate: string): boolean {
+  const { start, end } = periodBounds(periodDate);
+  const close = Date.parse(toIsoDate(closeDate) ?? closeDate);
+  return close >= start && close < end;
+}
+
+/**
+ * Set add-on spend and debt drawn on the period each add-on closes in
+ * (mutates in-place). Add-ons closing outside the periods are ignored.
+ */
+export function applyAddOnFunding(periods: PeriodData[], deals: AddOnDeal[]): void {
+  for (const p of periods) {
+    if (!p.period_date) continue;
+    const closing = deals.filter((d) => closesIn(p.period_date!, d.close_date));
+    if (closing.length === 0) continue;
+    p.add_on_spend = -closing.reduce((s, d) => s + d.price_paid, 0);
+    p.add_on_debt = closing.reduce((s, d) => s + d.debt, 0);
+  }
+}
+
+/** Year → equity raised for add-ons closing that year (for share tracking). */
+export function addOnEquityByYear(deals: AddOnDeal[]): Record<string, number> {
+  const byYear: Record<string, number> = {};
+  for (const d of deals) {
+    if (d.equity <= 0) continue;
+    const year = d.close_date.slice(0, 4);
+    byYear[year] = (byYear[year] ?? 0) + d.equity;
+  }
+  return byYear;
+}
+
+// ── Incremental returns ────────────────────────────────────────────
+
+/**
+ * An add-on's own period data on the acquirer's dates: its full-year
+ * figures plus its own realised synergies. The close-date stub is left to
+ * the deal timeline (entry = close date).
+ */
+export function buildAddOnPeriodData(
+  acquirerPeriods: any[],
+  addOn: LoadedAddOn,
+  realisation?: SynergyPlan["realisation"],
+): PeriodData[] {
+  const aligned = alignTargetPeriods(acquirerPeriods, addOn.periods);
+  return acquirerPeriods.map((ap: any) => {
+    const key = periodDateKey(ap.period_date);
+    const tp = aligned.get(key)?.period;
+    const syn = periodSynergies({ cost: addOn.cost_synergies_timeline ?? {}, realisation }, key.slice(0, 4));
+    return {
+      ebitda: (tp ? parseFloat(tp.ebitda_total) || 0 : 0) + syn.ebitda,
+      revenue: tp ? parseFloat(tp.revenue_total) || 0 : 0,
+      capex: tp?.capex != null ? -(Math.abs(parseFloat(tp.capex))) : undefined,
+      change_nwc: tp ? nwcCashFlow(tp) : undefined,
+      period_date: key,
+    };
+  });
+}
+
+/**
+ * Incremental IRR / MoM per add-on and exit multiple: Level 1 on the price
+ * paid, entering at the close date and exiting with the scenario.
+ */
+export function computeAddOnReturns(
+  acquirerPeriods: any[],
+  addOns: LoadedAddOn[],
+  params: DealParameters,
+  exitMultiples: number[],
+  realisation?: SynergyPlan["realisation"],
+): CaseReturn[] {
+  const cases: CaseReturn[] = [];
+  addOns.forEach((addOn, i) => {
+    const deal = toAddOnDeal(addOn);
+    if (deal.price_paid <= 0) return;
+    const data = buildAddOnPeriodData(acquirerPeriods, addOn, realisation);
+    const addOnParams: DealParameters = { ...params, acquisition_date: deal.close_date, minority_pct: 0 };
+    for (const mult of exitMultiples) {
+      const result = computeLevel1Return(deal.price_paid, data, addOnParams, mult);
+      cases.push({
+        return_case: addOnCaseName(i, addOn.name),
+        exit_multiple: mult,
+        irr: result.irr,
+        mom: result.mom,
+      });
+    }
+  });
+  return cases;
+}
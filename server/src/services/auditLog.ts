@@ -0,0 +1,273 @@
+/**
+ * Audit Log — who changed what on companies, models, periods, scenarios,
+ * label rules and comparables.
+ *
+ * Every mutating route records an `audit_events` row with the acting user,
+ * the entity, the action and a field-level before/after diff. The event is
+ * written on the same client as the change, inside its transaction, so the
+ * two commit (or roll back) together.
+ */
+
+import type pg from "pg";
+import pool from "../models/db.js";
+import type { FieldChange } from "./scenarioVersions.js";
+
+/** Matches Express req.params value type (string at runtime, but typed broadly). */
+type ParamId = string | number | string[];
+
+/** Pool or a checked-out client inside a transaction. */
+type Queryable = pg.Pool | pg.PoolClient;
+
+export const AUDIT_ENTITY_TYPES = ["company", "model", "period", "scenario", "label_rule", "comparable"] as const;
+export const AUDIT_ACTIONS = ["create", "update", "delete", "import", "restore", "generate"] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+type Row = Record<string, any>;
+
+// ── Diff ───────────────────────────────────────────────────────────
+
+/** Bookkeeping columns that change on every write and carry no information. */
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at", "created_by"]);
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date);
+
+/**
+ * Field-level diff between two DB rows.
+ *
+ * `before` is null for creates and `after` is null for deletes, in which
+ * case every non-null field is listed. JSONB objects (model_parameters,
+ * deal_parameters, ...) are compared key by key as `column.key`.
+ */
+export function diffRecords(before: Row | null, after: Row | null, prefix = ""): FieldChange[] {
+  const a = before ?? {};
+  const b = after ?? {};
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter((k) => !IGNORED_FIELDS.has(k));
+
+  const changes: FieldChange[] = [];
+  for (const key of keys) {
+    const from = a[key] ?? null;
+    const to = b[key] ?? null;
+    if (isEqual(from, to)) continue;
+
+    if ((isPlainObject(from) || from === null) && (isPlainObject(to) || to === null) && (from || to)) {
+      const nested = diffRecords(from as Row | null, to as Row | null, `${prefix}${key}.`);
+      if (nested.length > 0) {
+        changes.push(...nested);
+        continue;
+      }
+    }
+    changes.push({ field: `${prefix}${key}`, from, to });
+  }
+  return changes;
+}
+
+// ── Period sets ────────────────────────────────────────────────────
+
+/** All financial periods of a model, for diffing an upsert/import. */
+export async function snapshotPeriods(db: Queryable, modelId: ParamId): Promise<Row[]> {
+  const result = await db.query(
+    "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
+    [modelId]
+  );
+  return result.rows;
+}
+
+function periodKey(p: Row): string {
+  if (p.period_label) return String(p.period_label);
+  return p.period_date instanceof Date ? p.period_date.toISOString().slice(0, 10) : String(p.period_date);
+}
+
+/**
+ * Diff two period sets of the same model, keyed by period label:
+ * changes read as `2025B.revenue_total`.
+ */
+export function diffPeriods(before: Row[], after: Row[]): FieldChange[] {
+  const prev = new Map(before.map((p) => [periodKey(p), p]));
+  const changes: FieldChange[] = [];
+  const seen = new Set<string>();
+
+  for (const p of after) {
+    const key = periodKey(p);
+    seen.add(key);
+    changes.push(...diffRecords(prev.get(key) ?? null, p, `${key}.`));
+  }
+  for (const [key, p] of prev) {
+    if (!seen.has(key)) changes.push(...diffRecords(p, null, `${key}.`));
+  }
+
+  // model_id / period ids are identical by construction — drop the noise
+  return changes.filter((c) => !c.field.endsWith(".model_id"));
+}
+
+// ── Recording ──────────────────────────────────────────────────────
+
+export interface AuditEventInput {
+  userId: number | null | undefined;
+  entityType: AuditEntityType;
+  entityId: number | string;
+  entityName?: string | null;
+  action: AuditAction;
+  /** Row before the write (null for creates). */
+  before?: Row | null;
+  /** Row after the write (null for deletes). */
+  after?: Row | null;
+  /** Precomputed diff — used instead of before/after (e.g. period sets). */
+  changes?: FieldChange[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Record one audit event.
+ *
+ * Updates that change nothing are skipped so repeated saves don't flood the
+ * log; every other action is recorded even with an empty diff.
+ * Returns true when a row was written.
+ */
+export async function recordAuditEvent(db: Queryable, event: AuditEventInput): Promise<boolean> {
+  const changes = event.changes ?? diffRecords(event.before ?? null, event.after ?? null);
+  if (event.action === "update" && changes.length === 0) {
+    return false;
+  }
+
+  const entityName = event.entityName ?? event.after?.name ?? event.before?.name ?? null;
+  await db.query(
+    `INSERT INTO audit_events (user_id, entity_type, entity_id, entity_name, action, changes, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      event.userId ?? null,
+      event.entityType,
+      event.entityId,
+      entityName,
+      event.action,
+      JSON.stringify(changes),
+      JSON.stringify(event.metadata ?? {}),
+    ]
+  );
+  return true;
+}
+
+/**
+ * Run a write on one client inside BEGIN/COMMIT. Callers record the audit
+ * event on that client, so a failed audit insert rolls the change back too.
+ */
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Queries ────────────────────────────────────────────────────────
+
+export interface AuditFilters {
+  entity_type?: AuditEntityType;
+  entity_id?: number;
+  user_id?: number;
+  /** Inclusive YYYY-MM-DD bounds on created_at. */
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LIMIT = 200;
+
+/**
+ * Parse and validate the audit log query string.
+ * Returns the filters, or `{ error }` for a malformed parameter.
+ */
+export function parseAuditFilters(query: Record<string, unknown>): AuditFilters | { error: string } {
+  const str = (v: unknown) => (typeof v === "string" && v !== "" ? v : undefined);
+  const int = (v: unknown) => (str(v) !== undefined ? Number(v) : undefined);
+
+  const filters: AuditFilters = { limit: 50, offset: 0 };
+
+  const entityType = str(query.entity_type);
+  if (entityType !== undefined) {
+    if (!(AUDIT_ENTITY_TYPES as readonly string[]).includes(entityType)) {
+      return { error: `entity_type must be one of: ${AUDIT_ENTITY_TYPES.join(", ")}` };
+    }
+    filters.entity_type = entityType as AuditEntityType;
+  }
+
+  for (const key of ["entity_id", "user_id", "limit", "offset"] as const) {
+    const n = int(query[key]);
+    if (n === undefined) continue;
+    if (!Number.isInteger(n) || n < 0) {
+      return { error: `${key} must be a non-negative integer` };
+    }
+    filters[key] = n;
+  }
+  filters.limit = Math.min(Math.max(filters.limit, 1), MAX_LIMIT);
+
+  for (const key of ["from", "to"] as const) {
+    const d = str(query[key]);
+    if (d === undefined) continue;
+    if (!DATE_RE.test(d) || Number.isNaN(Date.parse(d))) {
+      return { error: `${key} must be a date (YYYY-MM-DD)` };
+    }
+    filters[key] = d;
+  }
+
+  return filters;
+}
+
+/** Filtered audit events, newest first, with the total count for paging. */
+export async function listAuditEvents(filters: AuditFilters) {
+  const where: string[] = [];
+  const values: unknown[] = [];
+  const add = (sql: string, value: unknown) => {
+    values.push(value);
+    where.push(sql.replace("?", `$${values.length}`));
+  };
+
+  if (filters.entity_type) add("e.entity_type = ?", filters.entity_type);
+  if (filters.entity_id !== undefined) add("e.entity_id = ?", filters.entity_id);
+  if (filters.user_id !== undefined) add("e.user_id = ?", filters.user_id);
+  if (filters.from) add("e.created_at >= ?::date", filters.from);
+  if (filters.to) add("e.created_at < ?::date + 1", filters.to);
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+
+  const [eventsResult, countResult] = await Promise.all([
+    pool.query(
+      `SELECT e.*, u.name as user_name, u.email as user_email
+       FROM audit_events e
+       LEFT JOIN users u ON e.user_id = u.id
+       ${whereSql}
+       ORDER BY e.created_at DESC, e.id DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, filters.limit, filters.offset]
+    ),
+    pool.query(`SELECT COUNT(*) as total FROM audit_events e ${whereSql}`, values),
+  ]);
+
+  return {
+    events: eventsResult.rows,
+    total: Number(countResult.rows[0]?.total ?? 0),
+  };
+}
+
+/** Users that appear in the audit log (for the user filter). */
+export async function listAuditUsers() {
+  const result = await pool.query(
+    `SELECT DISTINCT u.id, u.name, u.email
+     FROM audit_events e JOIN users u ON e.user_id = u.id
+     ORDER BY u.name`
+  );
+  return result.rows;
+}
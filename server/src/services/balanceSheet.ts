@@ -0,0 +1,82 @@
+/**
+ * Balance sheet periods — net working capital and the change in NWC derived
+ * from it when a model has no change_nwc line.
+ *
+ *   NWC          trade receivables + work in progress − trade payables −
+ *                deferred revenue (missing items count as zero)
+ *   ΔNWC         NWC_t − NWC_t−1, stored in the change_nwc convention
+ *                (positive = build-up = cash use) and flagged as derived
+ *
+ * Reported change_nwc lines are stored with either sign and always read as
+ * an outflow; a derived ΔNWC keeps its sign so a release of working capital
+ * adds to cash flow.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Balance sheet columns on financial_periods (closing balances, not time-weighted). */
+export const BALANCE_SHEET_FIELDS = [
+  "trade_receivables", "trade_payables", "work_in_progress", "deferred_revenue",
+  "cash", "gross_debt", "lease_liabilities",
+] as const;
+
+const NWC_ASSETS = ["trade_receivables", "work_in_progress"] as const;
+const NWC_LIABILITIES = ["trade_payables", "deferred_revenue"] as const;
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = parseFloat(v as string);
+  return Number.isNaN(n) ? null : n;
+};
+
+/**
+ * Net working capital for one period, or null when none of the working
+ * capital items is reported. Liabilities count positive whatever sign the
+ * model stores them with.
+ */
+export function netWorkingCapital(p: any): number | null {
+  const assets = NWC_ASSETS.map((f) => num(p?.[f]));
+  const liabilities = NWC_LIABILITIES.map((f) => num(p?.[f]));
+  if ([...assets, ...liabilities].every((v) => v === null)) return null;
+  return assets.reduce<number>((s, v) => s + (v ?? 0), 0)
+    - liabilities.reduce<number>((s, v) => s + Math.abs(v ?? 0), 0);
+}
+
+/**
+ * Fill a missing change_nwc from the working capital balances of the
+ * period and the one before it (rows ordered by period_date). Reported
+ * values are left alone; the first period has no opening balance and
+ * stays empty.
+ */
+export function withDerivedChangeNwc<T extends Record<string, any>>(periods: T[]): T[] {
+  return periods.map((p, i) => {
+    if (num(p.change_nwc) !== null || i === 0) return p;
+    const closing = netWorkingCapital(p);
+    const opening = netWorkingCapital(periods[i - 1]);
+    if (closing === null || opening === null) return p;
+    return { ...p, change_nwc: closing - opening, change_nwc_derived: true };
+  });
+}
+
+/**
+ * Change in NWC as a cash flow (negative = cash use), or undefined when the
+ * period has none: reported lines are always an outflow, derived ones keep
+ * their sign.
+ */
+export function nwcCashFlow(p: any): number | undefined {
+  const v = num(p?.change_nwc);
+  if (v === null) return undefined;
+  return p.change_nwc_derived ? -v : -Math.abs(v);
+}
+
+/**
+ * ΔNWC in the stored convention with reported lines as a build-up, for
+ * weighting or summing periods that mix reported and derived lines. The
+ * result is signed, so the combined period is flagged as derived.
+ */
+export function signedChangeNwc(p: any): number | null {
+  const cf = nwcCashFlow(p);
+  return cf === undefined ? null : -cf;
+}
@@ -0,0 +1,150 @@
+/**
+ * Calendarisation — align a target's fiscal years with the acquirer's.
+ *
+ * Pro forma periods are keyed by the acquirer's period dates. A target whose
+ * fiscal year ends in another month (e.g. June or March) has no period on
+ * those dates, so each acquirer year is rebuilt from the two target years it
+ * overlaps, weighted by months of overlap:
+ *
+ *   CY2025 (Jan–Dec) = 6/12 × FY Jun-2025 + 6/12 × FY Jun-2026
+ *
+ * Flow items (revenue, EBITDA, capex, …) are time-weighted; balance items
+ * (NIBD, EV, share count, …) are taken from the latest target period ending
+ * on or before the acquirer's year-end. Periods are assumed to be annual.
+ */
+
+import { signedChangeNwc } from "./balanceSheet.js";
+
+export type AlignmentStatus = "exact" | "calendarised" | "missing";
+
+/** Method recorded on each pro forma period. */
+export const CALENDARISATION_METHOD = "time_weighted";
+
+export interface TargetAlignment {
+  status: AlignmentStatus;
+  /** How the target figures were derived (null when missing). */
+  method: "exact" | typeof CALENDARISATION_METHOD | null;
+  /** Target periods used and their weights. */
+  sources: { period_label: string; period_date: string; weight: number }[];
+}
+
+export interface AlignedTargetPeriod {
+  /** Target period on the acquirer's date, or null when it cannot be built. */
+  period: any | null;
+  alignment: TargetAlignment;
+}
+
+/** Flow items — summed over time, so weighted by months of overlap. */
+export const TIME_WEIGHTED_FIELDS = [
+  "revenue_managed_services", "revenue_professional_services", "revenue_other",
+  "revenue_total", "revenue_organic", "revenue_ma", "acquired_revenue",
+  "ebitda_managed_services", "ebitda_professional_services", "ebitda_central_costs",
+  "ebitda_organic", "ebitda_ma", "ebitda_total", "ebitda_incl_synergies", "cost_synergies",
+  "capex", "change_nwc", "tax", "net_cashflow", "other_cash_flow_items",
+  "operating_fcf", "minority_interest", "operating_fcf_excl_minorities",
+  "depreciation", "amortisation", "net_financial_items", "net_income",
+] as const;
+
+/** YYYY-MM-DD key, matching the pro forma's period_date lookup. */
+export function periodDateKey(d: Date | string): string {
+  return d instanceof Date ? d.toISOString().split("T")[0] : String(d).slice(0, 10);
+}
+
+/** Months since year 0 for a YYYY-MM-DD key. */
+function monthIndex(key: string): number {
+  const [y, m] = key.split("-").map(Number);
+  return y * 12 + (m - 1);
+}
+
+/** Weighted sum of a field; null only when every source is null. */
+function weightedValue(parts: { period: any; weight: number }[], field: string): number | null {
+  let total = 0;
+  let seen = false;
+  for (const { period, weight } of parts) {
+    const v = period[field];
+    if (v == null || v === "") continue;
+    const n = parseFloat(v);
+    if (Number.isNaN(n)) continue;
+    total += n * weight;
+    seen = true;
+  }
+  return seen ? total : null;
+}
+
+/** Build a target period on the acquirer's date from weighted fiscal periods. */
+function blendPeriods(parts: { period: any; key: string; weight: number }[], acquirerPeriod: any): any {
+  const acqKey = periodDateKey(acquirerPeriod.period_date);
+  // Balance items: latest target period ending on or before the acquirer's year-end
+  const sorted = [...parts].sort((a, b) => a.key.localeCompare(b.key));
+  const base = [...sorted].reverse().find((p) => p.key <= acqKey) ?? sorted[0];
+
+  const out: any = {
+    ...base.period,
+    period_date: acquirerPeriod.period_date,
+    period_label: acquirerPeriod.period_label,
+  };
+  for (const field of TIME_WEIGHTED_FIELDS) {
+    out[field] = weightedValue(parts, field);
+  }
+  if (parts.some((p) => p.period.change_nwc_derived)) {
+    const signed = parts.map((p) => ({ ...p, period: { change_nwc: signedChangeNwc(p.period) } }));
+    out.change_nwc = weightedValue(signed, "change_nwc");
+    out.change_nwc_derived = true;
+  }
+  const revenue = out.revenue_total;
+  out.ebitda_margin = revenue ? (out.ebitda_total ?? 0) / revenue : null;
+  return out;
+}
+
+/**
+ * Match target periods to each acquirer period date.
+ *
+ * Exact date matches are used as-is. Otherwise the target years that
+ * overlap the acquirer's 12 months are time-weighted; when they do not
+ * cover the full year (history or forecast runs out) the period is
+ * reported as missing and the target contributes nothing.
+ */
+export function alignTargetPeriods(acquirerPeriods: any[], targetPeriods: any[]): Map<string, AlignedTargetPeriod> {
+  const targets = targetPeriods.map((period) => ({ period, key: periodDateKey(period.period_date) }));
+  const byKey = new Map(targets.map((t) => [t.key, t.period]));
+  const aligned = new Map<string, AlignedTargetPeriod>();
+
+  for (const ap of acquirerPeriods) {
+    const key = periodDateKey(ap.period_date);
+    const exact = byKey.get(key);
+    if (exact) {
+      aligned.set(key, {
+        period: exact,
+        alignment: {
+          status: "exact",
+          method: "exact",
+          sources: [{ period_label: exact.period_label, period_date: key, weight: 1 }],
+        },
+      });
+      continue;
+    }
+
+    const end = monthIndex(key);
+    const parts = targets
+      .map((t) => ({ ...t, weight: Math.max(0, 12 - Math.abs(end - monthIndex(t.key))) / 12 }))
+      .filter((t) => t.weight > 0);
+    const coverage = parts.reduce((s, p) => s + p.weight, 0);
+    const sources = parts.map((p) => ({ period_label: p.period.period_label, period_date: p.key, weight: p.weight }));
+
+    if (parts.length > 0 && coverage >= 0.999) {
+      aligned.set(key, {
+        period: blendPeriods(parts, ap),
+        alignment: { status: "calendarised", method: CALENDARISATION_METHOD, sources },
+      });
+    } else {
+      aligned.set(key, { period: null, alignment: { status: "missing", method: null, sources } });
+    }
+  }
+
+  return aligned;
+}
+
+/** Alignment of a pro forma row — in-memory rows carry it directly, stored rows in extra_data. */
+export function getTargetAlignment(pfRow: any): TargetAlignment | undefined {
+  return pfRow?.target_alignment ?? pfRow?.extra_data?.target_alignment;
+}
@@ -0,0 +1,475 @@
+/**
+ * Trading and transaction comparables — peer companies and precedent deals
+ * with EV and LTM / NTM revenue and EBITDA, imported from CSV or Excel.
+ *
+ * Multiples (EV / EBITDA, EV / revenue) are derived on read, never stored.
+ * Comp set statistics use inclusive quartiles (Excel QUARTILE.INC) so the
+ * numbers match what analysts get from the same data in a spreadsheet.
+ */
+
+import ExcelJS from "exceljs";
+import { parse } from "csv-parse/sync";
+import type pg from "pg";
+import pool from "../models/db.js";
+import { recordAuditEvent, withTransaction, type AuditAction } from "./auditLog.js";
+import { cellValue } from "./excelParser/cellUtils.js";
+
+export const COMPARABLE_KINDS = ["trading", "transaction"] as const;
+export type ComparableKind = (typeof COMPARABLE_KINDS)[number];
+
+export const MULTIPLE_KEYS = ["ev_ebitda_ltm", "ev_ebitda_ntm", "ev_revenue_ltm", "ev_revenue_ntm"] as const;
+export type MultipleKey = (typeof MULTIPLE_KEYS)[number];
+
+const MULTIPLE_DENOMINATOR: Record<MultipleKey, "revenue_ltm" | "revenue_ntm" | "ebitda_ltm" | "ebitda_ntm"> = {
+  ev_ebitda_ltm: "ebitda_ltm",
+  ev_ebitda_ntm: "ebitda_ntm",
+  ev_revenue_ltm: "revenue_ltm",
+  ev_revenue_ntm: "revenue_ntm",
+};
+
+export interface ComparableInput {
+  kind: ComparableKind;
+  name: string;
+  acquirer?: string | null;
+  sector?: string | null;
+  country?: string | null;
+  as_of_date: string;               // YYYY-MM-DD
+  currency?: string | null;
+  ev: number;
+  revenue_ltm?: number | null;
+  revenue_ntm?: number | null;
+  ebitda_ltm?: number | null;
+  ebitda_ntm?: number | null;
+  source?: string | null;
+}
+
+/** EV and the multiple denominators (numbers, or NUMERIC strings from pg). */
+export type ComparableFinancials = {
+  [K in "ev" | "revenue_ltm" | "revenue_ntm" | "ebitda_ltm" | "ebitda_ntm"]?: number | string | null;
+};
+
+export interface ComparableFilters {
+  kind?: ComparableKind;
+  sector?: string;
+  country?: string;
+  from?: string;
+  to?: string;
+  ids?: number[];
+}
+
+export interface MultipleStats {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  mean: number;
+}
+
+export interface CompSetStats {
+  count: number;
+  multiples: Record<MultipleKey, MultipleStats | null>;
+}
+
+export interface ImportRowError {
+  row: number;                      // 1-based data row (header excluded)
+  error: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Multiples and statistics ───────────────────────────────────────
+
+const toNum = (v: unknown): number | null => {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** EV multiples of one comparable; null where the denominator is missing or ≤ 0. */
+export function comparableMultiples(c: ComparableFinancials): Record<MultipleKey, number | null> {
+  const ev = toNum(c.ev);
+  const out = {} as Record<MultipleKey, number | null>;
+  for (const key of MULTIPLE_KEYS) {
+    const denom = toNum(c[MULTIPLE_DENOMINATOR[key]]);
+    out[key] = ev !== null && denom !== null && denom > 0 ? ev / denom : null;
+  }
+  return out;
+}
+
+/** Quantile of ascending values with linear interpolation (QUARTILE.INC). */
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Min, quartiles, max and mean of a set of multiples; null when empty. */
+export function summariseMultiples(values: number[]): MultipleStats | null {
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((s, v) => s + v, 0) / sorted.length,
+  };
+}
+
+/** Statistics per multiple across a comp set. */
+export function compSetStats(comps: ComparableFinancials[]): CompSetStats {
+  const perComp = comps.map(comparableMultiples);
+  const multiples = {} as Record<MultipleKey, MultipleStats | null>;
+  for (const key of MULTIPLE_KEYS) {
+    multiples[key] = summariseMultiples(perComp.map((m) => m[key]).filter((v): v is number => v !== null));
+  }
+  return { count: comps.length, multiples };
+}
+
+// ── Query string ───────────────────────────────────────────────────
+
+/**
+ * Parse and validate the comparables query string (kind, sector, country,
+ * from / to as YYYY-MM-DD, ids as a comma-separated list).
+ * Returns the filters, or `{ error }` for a malformed parameter.
+ */
+export function parseComparableFilters(query: Record<string, unknown>): ComparableFilters | { error: string } {
+  const str = (v: unknown) => (typeof v === "string" && v.trim() !== "" ? v.trim() : undefined);
+  const filters: ComparableFilters = {};
+
+  const kind = str(query.kind);
+  if (kind !== undefined) {
+    if (!(COMPARABLE_KINDS as readonly string[]).includes(kind)) {
+      return { error: `kind must be one of: ${COMPARABLE_KINDS.join(", ")}` };
+    }
+    filters.kind = kind as ComparableKind;
+  }
+
+  for (const key of ["sector", "country"] as const) {
+    const v = str(query[key]);
+    if (v !== undefined) filters[key] = v;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const d = str(query[key]);
+    if (d === undefined) continue;
+    if (!DATE_RE.test(d) || Number.isNaN(Date.parse(d))) {
+      return { error: `${key} must be a date (YYYY-MM-DD)` };
+    }
+    filters[key] = d;
+  }
+
+  const ids = str(query.ids);
+  if (ids !== undefined) {
+    const parsed = ids.split(",").map((s) => Number(s.trim()));
+    if (parsed.some((n) => !Number.isInteger(n) || n <= 0)) {
+      return { error: "ids must be a comma-separated list of positive integers" };
+    }
+    filters.ids = parsed;
+  }
+
+  return filters;
+}
+
+// ── Import parsing ─────────────────────────────────────────────────
+
+/** Normalised header → field. Covers common data-provider column names. */
+const HEADER_ALIASES: Record<string, keyof ComparableInput> = {
+  kind: "kind", type: "kind",
+  name: "name", company: "name", target: "name", peer: "name",
+  acquirer: "acquirer", buyer: "acquirer", bidder: "acquirer",
+  sector: "sector", industry: "sector",
+  country: "country", geography: "country",
+  date: "as_of_date", as_of_date: "as_of_date", announced: "as_of_date", announcement_date: "as_of_date", deal_date: "as_of_date",
+  currency: "currency", ccy: "currency",
+  ev: "ev", enterprise_value: "ev", ev_m: "ev",
+  revenue_ltm: "revenue_ltm", ltm_revenue: "revenue_ltm", sales_ltm: "revenue_ltm", ltm_sales: "revenue_ltm",
+  revenue_ntm: "revenue_ntm", ntm_revenue: "revenue_ntm", sales_ntm: "revenue_ntm", ntm_sales: "revenue_ntm",
+  ebitda_ltm: "ebitda_ltm", ltm_ebitda: "ebitda_ltm",
+  ebitda_ntm: "ebitda_ntm", ntm_ebitda: "ebitda_ntm",
+  source: "source",
+};
+
+const KIND_ALIASES: Record<string, ComparableKind> = {
+  trading: "trading", peer: "trading", listed: "trading",
+  transaction: "transaction", precedent: "transaction", deal: "transaction", "m&a": "transaction",
+};
+
+const NUMERIC_FIELDS = ["ev", "revenue_ltm", "revenue_ntm", "ebitda_ltm", "ebitda_ntm"] as const;
+
+const normaliseHeader = (h: string) =>
+  h.trim().toLowerCase().replace(/[()]/g, "").replace(/[^a-z0-9&]+/g, "_").replace(/^_|_$/g, "");
+
+/**
+ * Number from a cell or CSV field: "1 234,5", "1,234.5", "(12)" and a
+ * trailing "x" are accepted; "-", "n/a" and blanks are null.
+ */
+export function parseNumber(v: unknown): number | null {
+  if (v === null || v === undefined) return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  let s = String(v).trim();
+  if (!s || s === "-" || s === "--" || /^n\/?a$/i.test(s)) return null;
+
+  const negative = /^\(.*\)$/.test(s);
+  s = s.replace(/[()x×\s]/gi, "");
+  const comma = s.lastIndexOf(",");
+  const dot = s.lastIndexOf(".");
+  if (comma > dot) {
+    // Comma is the decimal separator (dots, if any, group thousands)
+    s = s.replace(/\./g, "").replace(",", ".");
+  } else {
+    s = s.replace(/,/g, "");
+  }
+  const n = Number(s);
+  if (!Number.isFinite(n) || s === "") return null;
+  return negative ? -n : n;
+}
+
+/** YYYY-MM-DD from a Date, ISO string, DD.MM.YYYY or a bare year (year end). */
+export function parseComparableDate(v: unknown): string | null {
+  if (v instanceof Date) return Number.isNaN(v.getTime()) ? null : v.toISOString().slice(0, 10);
+  if (typeof v === "number" && Number.isInteger(v) && v >= 1900 && v <= 2100) return `${v}-12-31`;
+  const s = String(v ?? "").trim();
+  if (/^\d{4}$/.test(s)) return `${s}-12-31`;
+  const iso = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return Number.isNaN(Date.parse(iso[0])) ? null : iso[0];
+  const nordic = s.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (nordic) {
+    const d = `${nordic[3]}-${nordic[2].padStart(2, "0")}-${nordic[1].padStart(2, "0")}`;
+    return Number.isNaN(Date.parse(d)) ? null : d;
+  }
+  return null;
+}
+
+/**
+ * Map raw import rows (header → value) to comparables. Rows without a kind
+ * column take `defaultKind`. Invalid rows are reported, not imported.
+ */
+export function parseComparableRows(
+  rows: Record<string, unknown>[],
+  defaultKind?: ComparableKind
+): { comparables: ComparableInput[]; errors: ImportRowError[] } {
+  const comparables: ComparableInput[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((raw, i) => {
+    const row: Partial<Record<keyof ComparableInput, unknown>> = {};
+    for (const [header, value] of Object.entries(raw)) {
+      const field = HEADER_ALIASES[normaliseHeader(header)];
+      if (field && row[field] == null) row[field] = value;
+    }
+    const rowNo = i + 1;
+    const text = (v: unknown) => (v == null || String(v).trim() === "" ? null : String(v).trim());
+
+    const name = text(row.name);
+    if (!name) {
+      // Blank lines and trailing notes are skipped silently
+      if (Object.values(raw).some((v) => text(v) !== null)) errors.push({ row: rowNo, error: "Missing name" });
+      return;
+    }
+
+    const kindText = text(row.kind)?.toLowerCase();
+    const kind = kindText ? KIND_ALIASES[kindText] : defaultKind;
+    if (!kind) {
+      errors.push({ row: rowNo, error: kindText ? `Unknown kind: ${kindText}` : "Missing kind (trading or transaction)" });
+      return;
+    }
+
+    const asOf = parseComparableDate(row.as_of_date);
+    if (!asOf) {
+      errors.push({ row: rowNo, error: "Missing or invalid date" });
+      return;
+    }
+
+    const nums = Object.fromEntries(NUMERIC_FIELDS.map((f) => [f, parseNumber(row[f])])) as Record<(typeof NUMERIC_FIELDS)[number], number | null>;
+    if (nums.ev === null || nums.ev <= 0) {
+      errors.push({ row: rowNo, error: "Missing or non-positive EV" });
+      return;
+    }
+
+    comparables.push({
+      kind,
+      name,
+      acquirer: kind === "transaction" ? text(row.acquirer) : null,
+      sector: text(row.sector),
+      country: text(row.country),
+      as_of_date: asOf,
+      currency: text(row.currency)?.toUpperCase().slice(0, 3) ?? null,
+      ...nums,
+      ev: nums.ev,
+      source: text(row.source),
+    });
+  });
+
+  return { comparables, errors };
+}
+
+/** Header → value rows from an uploaded CSV (comma or semicolon) or Excel file. */
+export async function readComparableFile(buffer: Buffer, filename: string): Promise<Record<string, unknown>[]> {
+  if (/\.xlsx?$/i.test(filename)) {
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.load(buffer as any);
+    const ws = wb.worksheets[0];
+    if (!ws) throw new Error("The workbook has no sheets");
+
+    const headers: string[] = [];
+    ws.getRow(1).eachCell((cell, col) => { headers[col] = String(cellValue(cell) ?? "").trim(); });
+    const rows: Record<string, unknown>[] = [];
+    for (let r = 2; r <= ws.rowCount; r++) {
+      const row = ws.getRow(r);
+      const record: Record<string, unknown> = {};
+      headers.forEach((h, col) => { if (h) record[h] = cellValue(row.getCell(col)); });
+      rows.push(record);
+    }
+    return rows;
+  }
+
+  const text = buffer.toString("utf-8").replace(/^\uFEFF/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  return parse(text, { columns: true, skip_empty_lines: true, trim: true, delimiter, relax_column_count: true });
+}
+
+// ── Database ───────────────────────────────────────────────────────
+
+function filterSql(filters: ComparableFilters) {
+  const where: string[] = [];
+  const values: unknown[] = [];
+  const add = (sql: string, value: unknown) => {
+    values.push(value);
+    where.push(sql.replace("?", `$${values.length}`));
+  };
+
+  if (filters.kind) add("c.kind = ?", filters.kind);
+  if (filters.sector) add("LOWER(c.sector) = LOWER(?)", filters.sector);
+  if (filters.country) add("LOWER(c.country) = LOWER(?)", filters.country);
+  if (filters.from) add("c.as_of_date >= ?::date", filters.from);
+  if (filters.to) add("c.as_of_date <= ?::date", filters.to);
+  if (filters.ids) add("c.id = ANY(?::int[])", filters.ids);
+
+  return { whereSql: where.length > 0 ? `WHERE ${where.join(" AND ")}` : "", values };
+}
+
+/** Filtered comparables, newest first, each with its derived multiples. */
+export async function listComparables(filters: ComparableFilters) {
+  const { whereSql, values } = filterSql(filters);
+  const result = await pool.query(
+    `SELECT c.*, u.name as created_by_name
+     FROM comparables c
+     LEFT JOIN users u ON c.created_by = u.id
+     ${whereSql}
+     ORDER BY c.as_of_date DESC, c.name`,
+    values
+  );
+  return result.rows.map((row) => ({ ...row, ...comparableMultiples(row) }));
+}
+
+/** Median / quartile multiples of the filtered comp set. */
+export async function comparableStats(filters: ComparableFilters): Promise<CompSetStats> {
+  const { whereSql, values } = filterSql(filters);
+  const result = await pool.query(
+    `SELECT c.ev, c.revenue_ltm, c.revenue_ntm, c.ebitda_ltm, c.ebitda_ntm FROM comparables c ${whereSql}`,
+    values
+  );
+  return compSetStats(result.rows);
+}
+
+/** Distinct sectors (for the filter). */
+export async function listComparableSectors(): Promise<string[]> {
+  const result = await pool.query(
+    "SELECT DISTINCT sector FROM comparables WHERE sector IS NOT NULL ORDER BY sector"
+  );
+  return result.rows.map((r) => r.sector);
+}
+
+const UPSERT_SQL = `
+  INSERT INTO comparables (kind, name, acquirer, sector, country, as_of_date, currency,
+    ev, revenue_ltm, revenue_ntm, ebitda_ltm, ebitda_ntm, source, created_by)
+  VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+  ON CONFLICT (kind, name, as_of_date) DO UPDATE SET
+    acquirer = EXCLUDED.acquirer, sector = EXCLUDED.sector, country = EXCLUDED.country,
+    currency = EXCLUDED.currency, ev = EXCLUDED.ev,
+    revenue_ltm = EXCLUDED.revenue_ltm, revenue_ntm = EXCLUDED.revenue_ntm,
+    ebitda_ltm = EXCLUDED.ebitda_ltm, ebitda_ntm = EXCLUDED.ebitda_ntm,
+    source = EXCLUDED.source, updated_at = NOW()
+  RETURNING *, (xmax = 0) as inserted`;
+
+const upsertParams = (c: ComparableInput, userId: number | undefined) => [
+  c.kind, c.name, c.acquirer ?? null, c.sector ?? null, c.country ?? null, c.as_of_date, c.currency ?? null,
+  c.ev, c.revenue_ltm ?? null, c.revenue_ntm ?? null, c.ebitda_ltm ?? null, c.ebitda_ntm ?? null,
+  c.source ?? null, userId ?? null,
+];
+
+/**
+ * Upsert one comparable and audit it on the same client. `action` is the
+ * audit action, or undefined for create / update by whether the row existed.
+ */
+async function upsertComparable(
+  client: pg.PoolClient,
+  c: ComparableInput,
+  userId: number | undefined,
+  action?: AuditAction,
+  metadata?: Record<string, unknown>,
+) {
+  const before = await client.query(
+    "SELECT * FROM comparables WHERE kind = $1 AND name = $2 AND as_of_date = $3 FOR UPDATE",
+    [c.kind, c.name, c.as_of_date]
+  );
+  const result = await client.query(UPSERT_SQL, upsertParams(c, userId));
+  const { inserted, ...row } = result.rows[0];
+  await recordAuditEvent(client, {
+    userId,
+    entityType: "comparable",
+    entityId: row.id,
+    action: action ?? (inserted ? "create" : "update"),
+    before: inserted ? null : before.rows[0] ?? null,
+    after: row,
+    metadata,
+  });
+  return { row, inserted: Boolean(inserted) };
+}
+
+/** Save one comparable (same kind, name and date updates the existing row). */
+export async function createComparable(input: ComparableInput, userId: number | undefined) {
+  const { row } = await withTransaction((client) => upsertComparable(client, input, userId));
+  return { ...row, ...comparableMultiples(row) };
+}
+
+/**
+ * Upsert parsed comparables in one transaction.
+ * Returns how many rows were inserted and how many updated existing ones.
+ */
+export async function importComparables(comps: ComparableInput[], userId: number | undefined) {
+  return withTransaction(async (client) => {
+    let inserted = 0;
+    let updated = 0;
+    for (const c of comps) {
+      const result = await upsertComparable(client, c, userId, "import", { source: c.source ?? null });
+      if (result.inserted) inserted++;
+      else updated++;
+    }
+    return { inserted, updated };
+  });
+}
+
+/** Delete a comparable. Returns the deleted row, or null when not found. */
+export async function deleteComparable(id: string | number, userId: number | undefined) {
+  return withTransaction(async (client) => {
+    const result = await client.query("DELETE FROM comparables WHERE id = $1 RETURNING *", [id]);
+    if (result.rows.length === 0) return null;
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "comparable",
+      entityId: result.rows[0].id,
+      action: "delete",
+      before: result.rows[0],
+    });
+    return result.rows[0];
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Contribution analysis — what each party brings to the combined group
+ * versus what it owns afterwards.
+ *
+ *   Contribution   acquirer and target share of pro forma revenue, EBITDA,
+ *                  unlevered FCF (standalone, before synergies) per period,
+ *                  and of equity value (acquirer: existing shares × entry
+ *                  PPS; target: price paid − net debt − preferred equity)
+ *   Ownership      from the share tracker: existing acquirer shares vs the
+ *                  shares issued to the target side (S&U equity at entry
+ *                  PPS × 1.2, rollover at entry PPS)
+ *   Exchange       for a range of prices (target equity value × factor):
+ *                  shares issued, target ownership and the implied exchange
+ *                  ratio (acquirer shares per target share), plus the price
+ *                  at which ownership would equal each contribution
+ *
+ * Deals without share funding are shown as if paid entirely in shares at
+ * the issue price, so the exchange table still answers "what would an
+ * all-share deal look like".
+ */
+
+import { unleveredFcf, type DealParameters, type PeriodData } from "./dealReturns.js";
+import { SHARE_ISSUE_PREMIUM } from "./proForma.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const CONTRIBUTION_METRICS = ["revenue", "ebitda", "fcf", "equity_value"] as const;
+export type ContributionMetric = (typeof CONTRIBUTION_METRICS)[number];
+
+export const DEFAULT_PRICE_FACTORS = [0.8, 0.9, 1, 1.1, 1.2];
+
+export interface ContributionRow {
+  metric: ContributionMetric;
+  acquirer: number | null;
+  target: number | null;
+  total: number | null;
+  acquirer_pct: number | null;
+  target_pct: number | null;
+}
+
+export interface ContributionPeriod {
+  period_label: string;
+  rows: ContributionRow[];          // revenue, EBITDA, FCF
+}
+
+export interface ContributionOwnership {
+  existing_shares: number;
+  issued_shares: number;            // S&U equity shares
+  rollover_shares: number;
+  total_shares: number;
+  acquirer_pct: number;
+  target_pct: number;
+}
+
+export interface ExchangePoint {
+  price_factor: number;
+  target_equity_value: number;
+  enterprise_value: number;
+  share_consideration: number;
+  new_shares: number;
+  target_ownership: number;
+  exchange_ratio: number | null;    // acquirer shares per target share
+}
+
+/** Price at which the target's ownership would equal its contribution. */
+export interface ImpliedExchange {
+  metric: ContributionMetric;
+  target_pct: number;
+  price_factor: number;
+  target_equity_value: number;
+  new_shares: number;
+  exchange_ratio: number | null;
+}
+
+export interface ContributionExchange {
+  entry_price_per_share: number;
+  issue_price: number;
+  target_equity_value: number;      // price paid − target debt-like items (factor 1)
+  target_debt_like: number;
+  target_shares: number | null;
+  share_funded_pct: number;         // share of the equity price paid in shares
+  all_share: boolean;               // no share funding in the deal: shown as all-share
+  points: ExchangePoint[];
+  implied: ImpliedExchange[];
+}
+
+export interface ContributionResult {
+  acquirer_name: string;
+  target_name: string;
+  basis_period: string | null;      // period the headline contributions use
+  contributions: ContributionRow[];
+  periods: ContributionPeriod[];
+  ownership: ContributionOwnership | null;
+  exchange: ContributionExchange | null;
+}
+
+/** One acquirer period with the target period of the same year (if any). */
+export interface ContributionPeriodInput {
+  period_label: string;
+  acquirer: PeriodData;
+  target: PeriodData | null;
+}
+
+export interface ContributionInput {
+  acquirer_name: string;
+  target_name: string;
+  periods: ContributionPeriodInput[];
+  basis_index: number;
+  dp: DealParameters;
+  existing_shares: number | null;
+  issued_shares: number;
+  rollover_shares: number;
+  entry_price_per_share: number | null;
+  /** Target net debt + preferred equity at the valuation date. */
+  target_debt_like: number;
+  target_shares: number | null;
+  share_consideration: number;      // S&U equity + rollover (NOKm)
+  price_factors?: number[];
+  issue_price?: number;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+export function contributionRow(metric: ContributionMetric, acquirer: number | null, target: number | null): ContributionRow {
+  const total = acquirer !== null && target !== null ? acquirer + target : null;
+  // Shares are meaningless when a side is missing or the combined figure is not positive (e.g. negative FCF)
+  const share = (v: number | null) => (v !== null && total !== null && total > 0 ? v / total : null);
+  return { metric, acquirer, target, total, acquirer_pct: share(acquirer), target_pct: share(target) };
+}
+
+function periodRows(p: ContributionPeriodInput, dp: DealParameters): ContributionRow[] {
+  const t = p.target;
+  return [
+    contributionRow("revenue", p.acquirer.revenue ?? null, t ? t.revenue ?? null : null),
+    contributionRow("ebitda", p.acquirer.ebitda, t ? t.ebitda : null),
+    contributionRow("fcf", unleveredFcf(p.acquirer, dp).fcf, t ? unleveredFcf(t, dp).fcf : null),
+  ];
+}
+
+/** Shares issued so the target side owns `pct` of the group. */
+const sharesForOwnership = (pct: number, existing: number) => (pct / (1 - pct)) * existing;
+
+// ── Analysis ───────────────────────────────────────────────────────
+
+export function contributionAnalysis(input: ContributionInput): ContributionResult {
+  const { dp } = input;
+  const periods = input.periods.map((p) => ({ period_label: p.period_label, rows: periodRows(p, dp) }));
+  const basis = periods[Math.min(input.basis_index, periods.length - 1)] ?? null;
+
+  const pps = input.entry_price_per_share && input.entry_price_per_share > 0 ? input.entry_price_per_share : null;
+  const existing = input.existing_shares && input.existing_shares > 0 ? input.existing_shares : null;
+
+  const acquirerEquity = existing !== null && pps !== null ? existing * pps : null;
+  const targetEquity = dp.price_paid != null ? dp.price_paid - input.target_debt_like : null;
+  const contributions = [
+    ...(basis?.rows ?? []),
+    contributionRow("equity_value", acquirerEquity, targetEquity),
+  ];
+
+  // ── Ownership (share tracker) ──
+  let ownership: ContributionOwnership | null = null;
+  if (existing !== null) {
+    const total = existing + input.issued_shares + input.rollover_shares;
+    ownership = {
+      existing_shares: existing,
+      issued_shares: input.issued_shares,
+      rollover_shares: input.rollover_shares,
+      total_shares: total,
+      acquirer_pct: existing / total,
+      target_pct: (input.issued_shares + input.rollover_shares) / total,
+    };
+  }
+
+  // ── Exchange ratio at different prices ──
+  let exchange: ContributionExchange | null = null;
+  if (existing !== null && pps !== null && targetEquity !== null && targetEquity > 0) {
+    const baseNewShares = input.issued_shares + input.rollover_shares;
+    const shareFunded = input.share_consideration > 0 && baseNewShares > 0;
+    const sharePct = shareFunded ? Math.min(1, input.share_consideration / targetEquity) : 1;
+    const issuePrice = input.issue_price
+      ?? (shareFunded ? input.share_consideration / baseNewShares : pps * SHARE_ISSUE_PREMIUM);
+    const ratio = (newShares: number) => (input.target_shares ? newShares / input.target_shares : null);
+
+    const points = (input.price_factors ?? DEFAULT_PRICE_FACTORS).map((f): ExchangePoint => {
+      const equity = targetEquity * f;
+      const consideration = equity * sharePct;
+      const newShares = consideration / issuePrice;
+      return {
+        price_factor: f,
+        target_equity_value: equity,
+        enterprise_value: equity + input.target_debt_like,
+        share_consideration: consideration,
+        new_shares: newShares,
+        target_ownership: newShares / (existing + newShares),
+        exchange_ratio: ratio(newShares),
+      };
+    });
+
+    const implied = contributions
+      .filter((c) => c.target_pct !== null && c.target_pct > 0 && c.target_pct < 1)
+      .map((c): ImpliedExchange => {
+        const newShares = sharesForOwnership(c.target_pct!, existing);
+        const equity = (newShares * issuePrice) / sharePct;
+        return {
+          metric: c.metric,
+          target_pct: c.target_pct!,
+          price_factor: equity / targetEquity,
+          target_equity_value: equity,
+          new_shares: newShares,
+          exchange_ratio: ratio(newShares),
+        };
+      });
+
+    exchange = {
+      entry_price_per_share: pps,
+      issue_price: issuePrice,
+      target_equity_value: targetEquity,
+      target_debt_like: input.target_debt_like,
+      target_shares: input.target_shares,
+      share_funded_pct: sharePct,
+      all_share: !shareFunded,
+      points,
+      implied,
+    };
+  }
+
+  return {
+    acquirer_name: input.acquirer_name,
+    target_name: input.target_name,
+    basis_period: basis?.period_label ?? null,
+    contributions,
+    periods,
+    ownership,
+    exchange,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * DCF valuation — implied value from discounted unlevered free cash flow.
+ *
+ * Runs alongside the IRR engine (it does not feed it) for three entities:
+ * the acquirer standalone, the target standalone and the pro forma group.
+ *
+ *   UFCF_t   unlevered FCF of each forecast period (see unleveredFcf in
+ *            dealReturns.ts — the same FCF the Level 1 returns use)
+ *   PV       Σ UFCF_t / (1 + WACC)^t, end-of-year, t = 1 for the first
+ *            forecast period
+ *   TV       Gordon growth: UFCF_n × (1 + g) / (WACC − g)
+ *            Exit multiple: EBITDA_n × multiple
+ *            discounted with the last period's factor
+ *   EV       PV + PV(TV)
+ *   Equity   EV − net debt − preferred equity, per share when a share
+ *            count is known
+ *
+ * Periods marked "actual" are history: the valuation date is the end of the
+ * last actual period, and net debt / share count are taken from it (from the
+ * first period when there are no actuals). Add-on prices are deducted from
+ * the pro forma FCF in the period each add-on closes.
+ */
+
+import { unleveredFcf, type DealParameters, type PeriodData } from "./dealReturns.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type TerminalMethod = "gordon" | "exit_multiple";
+
+export type DcfEntity = "acquirer" | "target" | "pro_forma";
+
+export interface DcfAssumptions {
+  wacc: number;
+  terminal_method: TerminalMethod;
+  terminal_growth: number;
+  terminal_multiple: number;
+}
+
+export interface DcfPeriodRow {
+  period_label: string;
+  ebitda: number;
+  tax: number;
+  capex: number;
+  change_nwc: number;
+  integration_costs: number;
+  add_on_spend: number;
+  unlevered_fcf: number;
+  from_nibd: boolean;
+  discount_factor: number;
+  present_value: number;
+}
+
+/** Equity bridge and entry price for one entity. */
+export interface DcfBridge {
+  net_debt: number;
+  preferred_equity: number;
+  shares: number | null;
+  entry_ev: number | null;
+  entry_per_share: number | null;
+}
+
+export interface DcfValuation extends DcfBridge {
+  entity: DcfEntity;
+  name: string;
+  periods: DcfPeriodRow[];
+  sum_pv_fcf: number;
+  terminal_value: number | null;
+  pv_terminal_value: number | null;
+  enterprise_value: number | null;
+  /** PV of the terminal value as a share of EV. */
+  terminal_share: number | null;
+  equity_value: number | null;
+  value_per_share: number | null;
+  /** DCF EV over the entry EV, minus one (positive = DCF above the price). */
+  ev_premium: number | null;
+  /** DCF value per share over the entry price per share, minus one. */
+  per_share_premium: number | null;
+}
+
+export interface DcfResult {
+  assumptions: DcfAssumptions;
+  valuations: DcfValuation[];
+}
+
+export const DEFAULT_WACC = 0.09;
+export const DEFAULT_TERMINAL_GROWTH = 0.02;
+
+// ── Assumptions ────────────────────────────────────────────────────
+
+/**
+ * Assumptions from the deal parameters, with request overrides on top.
+ * The exit-multiple terminal value defaults to the middle exit multiple.
+ */
+export function resolveDcfAssumptions(
+  dp: DealParameters,
+  overrides: Partial<DcfAssumptions> = {},
+): DcfAssumptions {
+  const multiples = dp.exit_multiples ?? [];
+  return {
+    wacc: overrides.wacc ?? dp.wacc ?? DEFAULT_WACC,
+    terminal_method: overrides.terminal_method ?? dp.terminal_method ?? "gordon",
+    terminal_growth: overrides.terminal_growth ?? dp.terminal_growth ?? DEFAULT_TERMINAL_GROWTH,
+    terminal_multiple: overrides.terminal_multiple ?? dp.terminal_multiple ?? multiples[Math.floor(multiples.length / 2)] ?? 12,
+  };
+}
+
+/** Index of the first forecast period (after the last "actual"). */
+export function firstForecastIndex(periods: { period_type?: string | null }[]): number {
+  let last = -1;
+  periods.forEach((p, i) => {
+    if (p.period_type === "actual") last = i;
+  });
+  return last + 1;
+}
+
+/**
+ * Net debt, preferred equity and share count at the valuation date, from raw
+ * financial_periods rows (the last actual period, else the first period).
+ */
+export function periodBridge(periods: any[]): Pick<DcfBridge, "net_debt" | "preferred_equity" | "shares"> {
+  const p = periods[Math.max(0, firstForecastIndex(periods) - 1)];
+  const value = (field: string): number | null => {
+    const v = p?.[field] != null ? parseFloat(p[field]) : NaN;
+    return Number.isNaN(v) ? null : v;
+  };
+  return {
+    net_debt: value("nibd") ?? 0,
+    preferred_equity: value("preferred_equity") ?? 0,
+    shares: value("share_count") || null,
+  };
+}
+
+// ── Valuation ──────────────────────────────────────────────────────
+
+export function discountFactor(wacc: number, t: number): number {
+  return 1 / (1 + wacc) ** t;
+}
+
+/** Terminal value at the end of the last period; null when g ≥ WACC. */
+export function terminalValue(a: DcfAssumptions, lastFcf: number, lastEbitda: number): number | null {
+  if (a.terminal_method === "exit_multiple") return lastEbitda * a.terminal_multiple;
+  if (a.wacc <= a.terminal_growth) return null;
+  return (lastFcf * (1 + a.terminal_growth)) / (a.wacc - a.terminal_growth);
+}
+
+/** Value one entity from its forecast periods (labels aligned with periods). */
+export function valueEntity(
+  entity: DcfEntity,
+  name: string,
+  periods: PeriodData[],
+  labels: string[],
+  dp: DealParameters,
+  a: DcfAssumptions,
+  bridge: DcfBridge,
+): DcfValuation {
+  const rows: DcfPeriodRow[] = periods.map((p, i) => {
+    const f = unleveredFcf(p, dp);
+    const addOnSpend = p.add_on_spend ?? 0;
+    const fcf = f.fcf + addOnSpend;
+    const factor = discountFactor(a.wacc, i + 1);
+    return {
+      period_label: labels[i],
+      ebitda: f.ebitda,
+      tax: f.tax,
+      capex: f.capex,
+      change_nwc: f.change_nwc,
+      integration_costs: f.integration_costs,
+      add_on_spend: addOnSpend,
+      unlevered_fcf: fcf,
+      from_nibd: f.from_nibd,
+      discount_factor: factor,
+      present_value: fcf * factor,
+    };
+  });
+
+  const sumPv = rows.reduce((s, r) => s + r.present_value, 0);
+  const last = rows[rows.length - 1];
+  // Gordon growth runs on the recurring FCF (an add-on price in the last year is one-off)
+  const recurringFcf = last ? last.unlevered_fcf - last.add_on_spend : 0;
+  const tv = last ? terminalValue(a, recurringFcf, last.ebitda) : null;
+  const pvTv = tv != null ? tv * last.discount_factor : null;
+  const ev = pvTv != null ? sumPv + pvTv : null;
+  const equity = ev != null ? ev - bridge.net_debt - bridge.preferred_equity : null;
+  const perShare = equity != null && bridge.shares ? equity / bridge.shares : null;
+
+  return {
+    entity,
+    name,
+    periods: rows,
+    sum_pv_fcf: sumPv,
+    terminal_value: tv,
+    pv_terminal_value: pvTv,
+    enterprise_value: ev,
+    terminal_share: ev && pvTv != null ? pvTv / ev : null,
+    ...bridge,
+    equity_value: equity,
+    value_per_share: perShare,
+    ev_premium: ev != null && bridge.entry_ev ? ev / bridge.entry_ev - 1 : null,
+    per_share_premium: perShare != null && bridge.entry_per_share ? perShare / bridge.entry_per_share - 1 : null,
+  };
+}
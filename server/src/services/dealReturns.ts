@@ -13,19 +13,38 @@
  *   Automatically activates when capital structure data is filled in.
  *   - Entry: equity invested (ordinary_equity from sources & uses)
  *   - Debt schedule: net_debt amortised or constant, with interest
+ *     (or an ordered list of debt tranches swept in seniority order)
+ *   - Interest: fixed rate, or a per-year base-rate curve + margin with an optional swap hedge
  *   - Preferred equity: PIK accrual at preferred_equity_rate
  *   - Annual FCF to equity: EBITDA - tax - capex - Δnwc - debt_service
  *   - Exit equity: exit_EV - net_debt_at_exit - preferred_equity_at_exit
  *   - IRR on equity cash flows [-equity_in, FCF_eq_1, ..., FCF_eq_n + exit_equity]
  *
+ * Entry / exit dates (optional, see dealTimeline.ts):
+ *   With acquisition_date / exit_date the first and last periods become stubs —
+ *   only the share of the year held is consolidated — exit EBITDA is the LTM at
+ *   exit, and IRR is computed XIRR-style on the actual cash flow dates.
+ *
+ * Add-ons (optional, see addOns.ts):
+ *   Add-on prices are paid in the period each add-on closes (add_on_spend);
+ *   Level 2 funds them with new senior debt (add_on_debt) and further equity.
+ *
+ * Risk-weighted case (optional, see synergies.ts):
+ *   With itemised synergies, "Risikovektet" repeats the combined case on pro
+ *   forma data where each synergy item is weighted by its probability.
+ *
  * Fixes included:
  * 1. Tax on EBT proxy (EBITDA - D&A proxy), zero tax when EBT < 0
  * 2. Uses actual capex / change_nwc from period data when available
- * 3. Cost synergies included in combined case
+ * 3. Synergies included in combined case (cost + revenue synergy EBITDA,
+ *    less one-off integration costs below EBITDA — see synergies.ts)
  * 4. NIBD handled in equity bridge at entry, not year-1 FCF
- * 5. wacc / terminal_growth removed (not used in IRR calc)
+ * 5. wacc / terminal_growth are not used in IRR calc — they drive the DCF
+ *    valuation (see dcf.ts)
  */
 
+import { buildDealTimeline, exitLtmEbitda, preEntryFraction, yearsBetween, type DealTimeline } from "./dealTimeline.js";
+
 // ── Types ──────────────────────────────────────────────────────────
 
 export interface DealParameters {
@@ -38,6 +57,11 @@ export interface DealParameters {
   // Entry EV for the acquirer (standalone) — for standalone IRR
   acquirer_entry_ev?: number;
 
+  // Entry / exit dates (YYYY-MM-DD, from the scenario). When set, the first and last
+  // periods are consolidated pro rata and IRR uses the actual dates (XIRR).
+  acquisition_date?: string;
+  exit_date?: string;
+
   // Fallback NWC investment when period-level change_nwc is missing (NOKm per year)
   nwc_investment?: number;
   // Fallback NWC as % of revenue when period-level change_nwc is missing (decimal, e.g. 0.0075 = 0.75%)
@@ -48,6 +72,10 @@ export interface DealParameters {
 
   // D&A as % of revenue, used to proxy EBT = EBITDA - D&A (default 1%)
   da_pct_revenue?: number;
+  // Purchase price allocated to acquired intangibles (NOKm), amortised straight-line
+  // from the first period after close over ppa_amortisation_years (default 10)
+  ppa_intangibles?: number;
+  ppa_amortisation_years?: number;
 
   // Target-specific FCF assumptions (applied when target period data is missing)
   target_capex_pct_revenue?: number;  // e.g. 0.01 = 1% of target revenue
@@ -66,15 +94,32 @@ export interface DealParameters {
   net_debt?: number;
   // Annual debt amortisation (positive = repayment, NOKm per year)
   debt_amortisation?: number;
-  // Interest rate on net debt (decimal, e.g. 0.05 = 5%)
+  // Interest rate on net debt (decimal, e.g. 0.05 = 5%). Fixed rate, used when no base_rate_curve is set.
   interest_rate?: number;
   // Rollover equity from existing shareholders
   rollover_equity?: number;
 
   // Cash sweep: percentage of excess FCF (after mandatory amort) applied to additional debt repayment
-  // Decimal 0-1 (e.g. 0.75 = 75% of excess FCF sweeps to debt). Default 0 = no sweep.
+  // Decimal 0-1 (e.g. 0.75 = 75% of excess FCF sweeps to debt). Default DEFAULT_CASH_SWEEP_PCT (full sweep).
   cash_sweep_pct?: number;
 
+  // Multi-tranche debt (senior TL, RCF, second lien, holdco PIK, ...).
+  // When set, replaces net_debt / interest_rate / debt_amortisation in the debt schedule.
+  // The sweep is applied to eligible tranches in seniority order.
+  debt_tranches?: DebtTranche[];
+
+  // ── Floating rate (NIBOR / EURIBOR + margin) ──
+  // Base rate per year, keyed by year (e.g. { "2026": 0.045, "2027": 0.04 }).
+  // When set, net debt pays base + interest_margin instead of the fixed interest_rate.
+  base_rate_curve?: Record<string, number>;
+  // Credit margin over the base rate (decimal, e.g. 0.0275 = 275 bps)
+  interest_margin?: number;
+  // Share of floating debt swapped to fixed (decimal 0-1) and the swap rate it is fixed at
+  hedge_ratio?: number;
+  swap_rate?: number;
+  // Parallel shift applied to the whole base-rate curve (sensitivity, decimal)
+  base_rate_shift?: number;
+
   // ── Share tracking (per-share returns with dilution) ──
   // Number of shares at entry (from acquirer model, e.g. 356.1m)
   entry_shares?: number;
@@ -90,6 +135,9 @@ export interface DealParameters {
   // Handled by computeDynamicShares() in proForma.ts, which adds the shares
   // to entry_shares and exit_shares before they reach dealReturns.
   equity_from_sources?: number;
+  // Equity raised for add-ons, by close year (see addOns.ts). Handled by
+  // computeDynamicShares(): new shares at the prior year's PPS × 1.2.
+  add_on_equity?: Record<string, number>;
 
   // ── Dilution: MIP / TSO warrants / Existing warrants ──
   // These reduce the equity available to ordinary shareholders at exit.
@@ -105,10 +153,40 @@ export interface DealParameters {
   // Usually the "shares at completion" or first-period ordinary shares (~331.6 or ~356.1)
   dilution_base_shares?: number;
 
-  // ── Deprecated (kept for backward compat, ignored in calc) ──
-  nibd_target?: number;
+  // ── DCF valuation (see dcf.ts; not used in IRR calc) ──
+  // Discount rate for unlevered FCF (decimal, e.g. 0.09 = 9%)
   wacc?: number;
+  // Terminal value: Gordon growth on the last FCF, or exit multiple on the last EBITDA
+  terminal_method?: "gordon" | "exit_multiple";
+  // Perpetual growth for Gordon growth (decimal, e.g. 0.02 = 2%)
   terminal_growth?: number;
+  // EBITDA multiple for the exit-multiple terminal value (default: middle exit multiple)
+  terminal_multiple?: number;
+
+  // ── Comparables (see comparables.ts; not used in IRR calc) ──
+  // Comp set the exit multiple range was last filled from
+  comp_set?: {
+    kind?: "trading" | "transaction";
+    sector?: string;
+    from?: string;
+    to?: string;
+    ids?: number[];
+    metric: "ev_ebitda_ltm" | "ev_ebitda_ntm" | "ev_revenue_ltm" | "ev_revenue_ntm";
+  };
+
+  // ── Deprecated (kept for backward compat, ignored in calc) ──
+  nibd_target?: number;
+}
+
+export interface DebtTranche {
+  name: string;               // e.g. "Senior TLB", "RCF", "Holdco PIK"
+  amount: number;             // drawn balance at entry (NOKm)
+  interest_rate: number;      // all-in fixed interest rate (decimal, e.g. 0.065 = 6.5%)
+  margin?: number;            // when set (and a base_rate_curve exists), pays base + margin instead
+  amortisation?: number;      // mandatory repayment per year (NOKm, default 0)
+  seniority?: number;         // waterfall rank, 1 = most senior (default: list order)
+  sweep_eligible?: boolean;   // can receive cash sweep repayments (default true)
+  pik?: boolean;              // interest accrues to the balance instead of being paid in cash
 }
 
 export interface CaseReturn {
@@ -139,6 +217,22 @@ export interface DebtScheduleRow {
   pik_accrual: number;      // PIK interest accrued
   closing_pref: number;     // preferred equity at end of year
   fcf_to_equity: number;    // unlevered FCF − total debt service
+  add_on_debt?: number;     // debt drawn for add-ons closing this year (in closing_debt)
+  add_on_equity?: number;   // equity injected for add-ons closing this year
+  base_rate?: number;       // hedged base rate for the year (only with a base_rate_curve)
+  year_fraction?: number;   // share of the year held (only with entry/exit dates)
+  tranches?: DebtTrancheRow[]; // per-tranche breakdown (only when debt_tranches is set)
+}
+
+export interface DebtTrancheRow {
+  name: string;
+  opening: number;          // tranche balance at start of year
+  interest_rate: number;    // all-in rate applied this year
+  interest: number;         // cash interest paid (0 for PIK tranches)
+  pik_interest: number;     // interest capitalised into the balance (PIK tranches)
+  mandatory_amort: number;  // mandatory repayment (capped at balance)
+  sweep: number;            // cash sweep repayment allocated to this tranche
+  closing: number;          // opening + pik_interest − mandatory_amort − sweep
 }
 
 export interface CalculatedReturns {
@@ -168,6 +262,8 @@ export interface CalculatedReturns {
   };
   // Debt schedule (Level 2 only)
   debt_schedule?: DebtScheduleRow[];
+  // Holding period and stub fractions (only with entry/exit dates)
+  timeline?: DealTimeline;
 }
 
 // ── IRR Calculation (Newton-Raphson) ───────────────────────────────
@@ -239,6 +335,66 @@ function bisectionIRR(cashFlows: number[], lo = -0.5, hi = 5.0, maxIter = 200, t
   return (low + high) / 2;
 }
 
+// ── XIRR (dated cash flows) ────────────────────────────────────────
+
+/**
+ * IRR on dated cash flows, as Excel's XIRR: flows are discounted by
+ * (1 + r)^(days since the first flow / 365). Dates are YYYY-MM-DD.
+ */
+function computeXIRR(cashFlows: number[], dates: string[], guess = 0.1, maxIter = 200, tol = 1e-7): number | null {
+  if (cashFlows.length !== dates.length || cashFlows.length === 0) return null;
+  const hasNeg = cashFlows.some((cf) => cf < 0);
+  const hasPos = cashFlows.some((cf) => cf > 0);
+  if (!hasNeg || !hasPos) return null;
+
+  const times = dates.map((d) => yearsBetween(dates[0], d));
+  const npvAt = (r: number) => cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + r, times[t]), 0);
+
+  let rate = guess;
+  for (let i = 0; i < maxIter; i++) {
+    let npv = 0;
+    let dnpv = 0;
+    for (let t = 0; t < cashFlows.length; t++) {
+      const denom = Math.pow(1 + rate, times[t]);
+      if (denom === 0 || !isFinite(denom)) return null;
+      npv += cashFlows[t] / denom;
+      dnpv -= (times[t] * cashFlows[t]) / Math.pow(1 + rate, times[t] + 1);
+    }
+
+    if (Math.abs(npv) < tol) return rate;
+    if (dnpv === 0) break;
+
+    const newRate = rate - npv / dnpv;
+
+    if (newRate < -0.99) rate = -0.5;
+    else if (newRate > 10) rate = 5;
+    else rate = newRate;
+  }
+
+  // Bisection fallback
+  let low = -0.5, high = 5.0;
+  let fLow = npvAt(low);
+  if (fLow * npvAt(high) > 0) return null;
+  for (let i = 0; i < maxIter; i++) {
+    const mid = (low + high) / 2;
+    const fMid = npvAt(mid);
+    if (Math.abs(fMid) < tol || (high - low) / 2 < tol) return mid;
+    if (fLow * fMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      fLow = fMid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Cash flow dates for a timeline: entry, then each held period's cash flow date. */
+function timelineDates(timeline: DealTimeline): string[] {
+  const held = timeline.periods.slice(timeline.first_index, timeline.exit_index + 1);
+  return [timeline.entry_date, ...held.map((t) => t.cash_flow_date)];
+}
+
 // ── Period data passed from routes ─────────────────────────────────
 
 export interface PeriodData {
@@ -247,7 +403,163 @@ export interface PeriodData {
   capex?: number;        // actual capex from financial_periods (negative = outflow)
   change_nwc?: number;   // actual change in NWC (negative = cash use)
   operating_fcf?: number; // actual operating FCF if available
+  integration_costs?: number; // one-off synergy integration costs (negative = outflow; already in nibd_fcf)
   nibd_fcf?: number;     // FCF derived from year-over-year NIBD change (preferred when available)
+  add_on_spend?: number; // price of add-ons closing in the period (negative = outflow, not pro-rated)
+  add_on_debt?: number;  // new debt drawn to fund those add-ons (the rest is equity)
+  period_date?: string;  // period end (YYYY-MM-DD) — needed for entry/exit date stubs
+}
+
+// ── Debt tranches ──────────────────────────────────────────────────
+
+/**
+ * Resolve the debt tranches to model, sorted in seniority order.
+ * Without explicit debt_tranches, net_debt / interest_rate / debt_amortisation
+ * form a single sweep-eligible tranche (the original single-balance model).
+ */
+function resolveDebtTranches(params: DealParameters): DebtTranche[] {
+  if (params.debt_tranches?.length) {
+    return params.debt_tranches
+      .map((t, idx) => ({ t, idx }))
+      .sort((a, b) => (a.t.seniority ?? a.idx + 1) - (b.t.seniority ?? b.idx + 1) || a.idx - b.idx)
+      .map(({ t }) => t);
+  }
+  const netDebt = params.net_debt ?? 0;
+  if (netDebt <= 0) return [];
+  return [{
+    name: "Net debt",
+    amount: netDebt,
+    interest_rate: params.interest_rate ?? 0.05,
+    amortisation: params.debt_amortisation ?? 0,
+    sweep_eligible: true,
+    ...(hasBaseRateCurve(params) ? { margin: params.interest_margin ?? 0 } : {}),
+  }];
+}
+
+// ── Floating rate ──────────────────────────────────────────────────
+
+/** True when a base-rate curve is set, i.e. debt floats at base + margin. */
+function hasBaseRateCurve(params: DealParameters): boolean {
+  return params.base_rate_curve != null && Object.keys(params.base_rate_curve).length > 0;
+}
+
+/**
+ * Calendar year of a period: the year of its period_date, else a label that
+ * starts with the year ("2026E"). Labels like "FY25" or "LTM Q3 2025" give null.
+ */
+function periodYear(p: PeriodData, label?: string): number | null {
+  if (p.period_date) return Number(p.period_date.slice(0, 4));
+  const match = label?.match(/^(\d{4})/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Base rate for a projection year, before hedging.
+ * Years past the end of the curve keep its last value; years before it use its first.
+ * Without a year (no period date or year label) the curve is read by position.
+ */
+function resolveBaseRate(curve: Record<string, number>, year: number | null, idx: number): number {
+  const years = Object.keys(curve).map(Number).filter((y) => !Number.isNaN(y)).sort((a, b) => a - b);
+  if (years.length === 0) return 0;
+  if (year == null) return curve[String(years[Math.min(idx, years.length - 1)])] ?? 0;
+  let match = years[0];
+  for (const y of years) {
+    if (y <= year) match = y;
+  }
+  return curve[String(match)] ?? 0;
+}
+
+/**
+ * Hedged base rate: hedge_ratio of the debt is fixed at swap_rate, the rest floats
+ * at the (shifted) curve. The parallel shift only hits the unhedged part.
+ * Without a swap_rate the hedge is ignored.
+ */
+function hedgedBaseRate(params: DealParameters, year: number | null, idx: number): number {
+  const floating = resolveBaseRate(params.base_rate_curve ?? {}, year, idx) + (params.base_rate_shift ?? 0);
+  if (params.swap_rate == null) return floating;
+  const hedge = Math.min(1, Math.max(0, params.hedge_ratio ?? 0));
+  return hedge * params.swap_rate + (1 - hedge) * floating;
+}
+
+/** Total debt at entry — sum of tranches when set, otherwise net_debt. */
+function totalEntryDebt(params: DealParameters): number {
+  if (params.debt_tranches?.length) {
+    return params.debt_tranches.reduce((s, t) => s + (t.amount || 0), 0);
+  }
+  return params.net_debt ?? 0;
+}
+
+/** Rescale all tranches pro rata so they sum to `total` (used by the net_debt sensitivity). */
+function scaleDebtTranches(tranches: DebtTranche[], total: number): DebtTranche[] {
+  const current = tranches.reduce((s, t) => s + (t.amount || 0), 0);
+  if (current <= 0) return tranches;
+  const factor = total / current;
+  return tranches.map((t) => ({ ...t, amount: t.amount * factor }));
+}
+
+/**
+ * All-in interest rate of the entry debt (used by the interest_rate sensitivity):
+ * the amount-weighted average over the tranches, where floating tranches count
+ * at the hedged base rate of the first curve year + their margin.
+ * Null when there is no rate to read (no debt terms set).
+ */
+function entryDebtRate(params: DealParameters): number | null {
+  const baseRate = hasBaseRateCurve(params) ? hedgedBaseRate(params, null, 0) : null;
+  if (!params.debt_tranches?.length) {
+    return baseRate != null ? baseRate + (params.interest_margin ?? 0) : params.interest_rate ?? null;
+  }
+  const tranches = params.debt_tranches;
+  const rate = (t: DebtTranche) => (baseRate != null && t.margin != null ? baseRate + t.margin : t.interest_rate ?? 0);
+  const total = tranches.reduce((s, t) => s + Math.max(0, t.amount || 0), 0);
+  if (total <= 0) return tranches.reduce((s, t) => s + rate(t), 0) / tranches.length;
+  return tranches.reduce((s, t) => s + Math.max(0, t.amount || 0) * rate(t), 0) / total;
+}
+
+/**
+ * Move the entry debt to an all-in interest rate. Every tranche shifts by the
+ * same amount, so the weighted average lands on `rate` and the spread between
+ * tranches is kept; floating debt moves its margin, fixed debt its rate.
+ */
+function shiftDebtRate(params: DealParameters, rate: number): DealParameters {
+  const floating = hasBaseRateCurve(params);
+  if (!params.debt_tranches?.length) {
+    return floating
+      ? { ...params, interest_margin: rate - hedgedBaseRate(params, null, 0) }
+      : { ...params, interest_rate: rate };
+  }
+  const delta = rate - (entryDebtRate(params) ?? 0);
+  return {
+    ...params,
+    debt_tranches: params.debt_tranches.map((t) => (floating && t.margin != null
+      ? { ...t, margin: t.margin + delta }
+      : { ...t, interest_rate: (t.interest_rate ?? 0) + delta })),
+  };
+}
+
+/** Mandatory amortisation per year — sum over tranches when set, otherwise debt_amortisation. */
+function totalDebtAmortisation(params: DealParameters): number | null {
+  if (params.debt_tranches?.length) {
+    return params.debt_tranches.reduce((s, t) => s + (t.amortisation ?? 0), 0);
+  }
+  return params.debt_amortisation ?? null;
+}
+
+/**
+ * Set the mandatory amortisation per year: with tranches each tranche's
+ * amortisation is scaled pro rata (by amount when none amortises yet).
+ */
+function scaleDebtAmortisation(params: DealParameters, total: number): DealParameters {
+  if (!params.debt_tranches?.length) return { ...params, debt_amortisation: total };
+  const tranches = params.debt_tranches;
+  const current = totalDebtAmortisation(params) ?? 0;
+  const weights = current > 0
+    ? tranches.map((t) => (t.amortisation ?? 0) / current)
+    : tranches.map((t) => Math.max(0, t.amount || 0) / Math.max(totalEntryDebt(params), 1e-9));
+  return {
+    ...params,
+    debt_amortisation: total,
+    debt_tranches: tranches.map((t, k) => ({ ...t, amortisation: total * weights[k] })),
+  };
 }
 
 // ── Detect which level to use ──────────────────────────────────────
@@ -255,10 +567,79 @@ export interface PeriodData {
 function isLevel2(params: DealParameters): boolean {
   return (
     (params.ordinary_equity ?? 0) > 0 &&
-    (params.net_debt ?? 0) > 0
+    totalEntryDebt(params) > 0
   );
 }
 
+// ── Unlevered FCF per period ───────────────────────────────────────
+
+export interface UnleveredFcf {
+  ebitda: number;
+  tax: number;              // tax on the EBT proxy (negative = outflow)
+  capex: number;            // negative = outflow
+  change_nwc: number;       // negative = cash use
+  integration_costs: number; // one-off, below EBITDA (negative = outflow)
+  fcf: number;
+  from_nibd: boolean;       // fcf is the NIBD-derived FCF, components are not used
+}
+
+/**
+ * Unlevered FCF of one full period (Level 1 and DCF): NIBD-derived FCF when
+ * available, otherwise EBITDA − tax on the EBT proxy + capex + Δnwc, with
+ * capex / NWC falling back to the % of revenue assumptions.
+ */
+export function unleveredFcf(p: PeriodData, params: DealParameters): UnleveredFcf {
+  const ebitda = p.ebitda;
+  if (p.nibd_fcf != null) {
+    return { ebitda, tax: 0, capex: 0, change_nwc: 0, integration_costs: 0, fcf: p.nibd_fcf, from_nibd: true };
+  }
+
+  const taxRate = params.tax_rate ?? 0.22;
+  const daPctRevenue = params.da_pct_revenue ?? 0.01;
+  const nwcPctRevenue = params.nwc_pct_revenue;
+  const capexPctRevenue = params.capex_pct_revenue ?? 0.01;
+
+  // Use actual capex from period data if available, otherwise proxy as % of revenue
+  const revenue = p.revenue ?? 0;
+  const capex = p.capex ?? -(revenue > 0 ? revenue * capexPctRevenue : Math.abs(ebitda) * capexPctRevenue);
+  // NWC fallback: nwc_pct_revenue takes precedence over flat nwc_investment
+  const changeNwc = p.change_nwc ?? (nwcPctRevenue != null && revenue > 0 ? -(revenue * nwcPctRevenue) : -(params.nwc_investment ?? 0));
+
+  // One-off integration costs are below EBITDA but tax-deductible
+  const integrationCosts = p.integration_costs ?? 0;
+
+  // Tax on EBT proxy: EBT ≈ EBITDA - D&A (D&A proxied as % of revenue)
+  const daProxy = revenue > 0 ? revenue * daPctRevenue : Math.abs(ebitda) * daPctRevenue;
+  const ebtProxy = ebitda - daProxy + integrationCosts;
+  // Only tax positive EBT
+  const tax = ebtProxy > 0 ? -ebtProxy * taxRate : 0;
+
+  return {
+    ebitda,
+    tax,
+    capex,
+    change_nwc: changeNwc,
+    integration_costs: integrationCosts,
+    fcf: ebitda + integrationCosts + tax + capex + changeNwc,
+    from_nibd: false,
+  };
+}
+
+/**
+ * The acquirer's own FCF for the part of the first held period before entry.
+ * Pro forma cases pass the acquirer's periods: the stub prorates only the
+ * target and synergies, while the acquirer is counted for the whole year.
+ */
+function preCloseFcf(
+  timeline: DealTimeline | null,
+  preClosePeriods: PeriodData[] | undefined,
+  params: DealParameters,
+): number {
+  if (!timeline || !preClosePeriods || preClosePeriods.length !== timeline.periods.length) return 0;
+  const share = preEntryFraction(timeline);
+  return share > 0 ? unleveredFcf(preClosePeriods[timeline.first_index], params).fcf * share : 0;
+}
+
 // ── Level 1: Simplified EV-based unlevered returns ─────────────────
 
 function computeLevel1Return(
@@ -266,52 +647,38 @@ function computeLevel1Return(
   periods: PeriodData[],
   params: DealParameters,
   exitMultiple: number,
+  preClosePeriods?: PeriodData[],
 ): { irr: number | null; mom: number | null } {
   if (periods.length === 0 || entryEV <= 0) return { irr: null, mom: null };
 
-  const taxRate = params.tax_rate ?? 0.22;
-  const daPctRevenue = params.da_pct_revenue ?? 0.01;
-  const nwcPctRevenue = params.nwc_pct_revenue;
-  const fallbackNwcFlat = params.nwc_investment ?? 0;
-  const capexPctRevenue = params.capex_pct_revenue ?? 0.01;
+  // Entry/exit dates: only held periods count, stubs pro rata
+  const timeline = buildDealTimeline(periods, params);
+  const offset = timeline?.first_index ?? 0;
+  const held = timeline ? periods.slice(offset, timeline.exit_index + 1) : periods;
+  const preClose = preCloseFcf(timeline, preClosePeriods, params);
+
   const minorityPct = params.minority_pct ?? 0;
 
   const fcfs: number[] = [];
-  for (let i = 0; i < periods.length; i++) {
-    const p = periods[i];
-
-    // Prefer NIBD-derived FCF when available (from year-over-year NIBD change)
-    if (p.nibd_fcf != null) {
-      let fcf = p.nibd_fcf;
-      // Apply minority interest deduction (reduces FCF available to acquirer)
-      if (minorityPct > 0) fcf = fcf * (1 - minorityPct);
-      fcfs.push(fcf);
-      continue;
-    }
+  let addOnInvested = 0;
+  for (let i = 0; i < held.length; i++) {
+    const p = held[i];
+    const fraction = timeline?.periods[offset + i].year_fraction ?? 1;
 
-    const ebitda = p.ebitda;
+    // Add-ons closing in the period are paid for in full from its cash flow
+    const addOnSpend = p.add_on_spend ?? 0;
+    addOnInvested -= addOnSpend;
 
-    // Use actual capex from period data if available, otherwise proxy as % of revenue
-    const revenue = p.revenue ?? 0;
-    const capex = p.capex ?? -(revenue > 0 ? revenue * capexPctRevenue : Math.abs(ebitda) * capexPctRevenue);
-    // NWC fallback: nwc_pct_revenue takes precedence over flat nwc_investment
-    const changeNwc = p.change_nwc ?? (nwcPctRevenue != null && revenue > 0 ? -(revenue * nwcPctRevenue) : -fallbackNwcFlat);
-
-    // Tax on EBT proxy: EBT ≈ EBITDA - D&A (D&A proxied as % of revenue)
-    const daProxy = revenue > 0 ? revenue * daPctRevenue : Math.abs(ebitda) * daPctRevenue;
-    const ebtProxy = ebitda - daProxy;
-    // Only tax positive EBT
-    const tax = ebtProxy > 0 ? -ebtProxy * taxRate : 0;
-
-    let fcf = ebitda + tax + capex + changeNwc;
+    // Stub periods: only the share of the year held (plus the acquirer's own pre-close FCF)
+    let fcf = unleveredFcf(p, params).fcf * fraction + (i === 0 ? preClose : 0);
     // Apply minority interest deduction (reduces FCF available to acquirer)
     if (minorityPct > 0) fcf = fcf * (1 - minorityPct);
-    fcfs.push(fcf);
+    fcfs.push(fcf + addOnSpend);
   }
 
-  // Exit value: exit EBITDA × multiple
+  // Exit value: exit EBITDA × multiple (LTM at the exit date when dates are set)
   // (minority is a cash flow claim, not an ownership stake — option debt handles exit buyout)
-  const exitEbitda = periods[periods.length - 1].ebitda;
+  const exitEbitda = timeline ? exitLtmEbitda(periods, timeline) : periods[periods.length - 1].ebitda;
   const exitEV = exitEbitda * exitMultiple;
 
   // Cash flow vector: [-entryEV, FCF1, ..., FCFn + exitEV]
@@ -324,15 +691,19 @@ function computeLevel1Return(
     }
   }
 
-  const irr = computeIRR(cashFlows);
-  const totalReturn = cashFlows.slice(1).reduce((s, v) => s + v, 0);
-  const mom = entryEV > 0 ? totalReturn / entryEV : null;
+  const irr = timeline ? computeXIRR(cashFlows, timelineDates(timeline)) : computeIRR(cashFlows);
+  // MoM on everything invested: add-on prices count as invested, not as negative returns
+  const totalReturn = cashFlows.slice(1).reduce((s, v) => s + v, 0) + addOnInvested;
+  const mom = entryEV > 0 ? totalReturn / (entryEV + addOnInvested) : null;
 
   return { irr, mom };
 }
 
 // ── Level 2: Full Equity IRR (leveraged) ───────────────────────────
 
+/** Share of excess FCF swept to debt when cash_sweep_pct is not set: all of it. */
+export const DEFAULT_CASH_SWEEP_PCT = 1.0;
+
 function computeLevel2Return(
   entryEV: number,
   periods: PeriodData[],
@@ -340,9 +711,16 @@ function computeLevel2Return(
   exitMultiple: number,
   collectSchedule = false,
   periodLabels?: string[],
+  preClosePeriods?: PeriodData[],
 ): { irr: number | null; mom: number | null; schedule?: DebtScheduleRow[]; exit_ev?: number; exit_debt?: number; exit_pref?: number } {
   if (periods.length === 0) return { irr: null, mom: null };
 
+  // Entry/exit dates: only held periods count, stubs pro rata
+  const timeline = buildDealTimeline(periods, params);
+  const offset = timeline?.first_index ?? 0;
+  const held = timeline ? periods.slice(offset, timeline.exit_index + 1) : periods;
+  const preClose = preCloseFcf(timeline, preClosePeriods, params);
+
   const taxRate = params.tax_rate ?? 0.22;
   const daPctRevenue = params.da_pct_revenue ?? 0.01;
   const nwcPctRevenue = params.nwc_pct_revenue;
@@ -355,35 +733,50 @@ function computeLevel2Return(
   const equityIn = ordinaryEquity + rolloverEquity;
   if (equityIn <= 0) return { irr: null, mom: null };
 
-  const netDebtEntry = params.net_debt ?? 0;
   const preferredEquityEntry = params.preferred_equity ?? 0;
   const preferredRate = params.preferred_equity_rate ?? 0;
-  const interestRate = params.interest_rate ?? 0.05;
-  const debtAmort = params.debt_amortisation ?? 0;
-  const cashSweepPct = params.cash_sweep_pct ?? 1.0; // 0-1, fraction of excess FCF to sweep (default: 100% — all excess FCF goes to debt repayment)
+  const cashSweepPct = params.cash_sweep_pct ?? DEFAULT_CASH_SWEEP_PCT; // 0-1, fraction of excess FCF to sweep
 
-  // Track debt and preferred equity balances over time
-  let debtBalance = netDebtEntry;
+  // Debt tranches in seniority order (a single implicit tranche when only net_debt is set)
+  const tranches = resolveDebtTranches(params);
+  const showTranches = (params.debt_tranches?.length ?? 0) > 0;
+  const floatingRate = hasBaseRateCurve(params);
+
+  // Track debt (per tranche) and preferred equity balances over time
+  const trancheBalances = tranches.map((t) => Math.max(0, t.amount || 0));
   let prefBalance = preferredEquityEntry;
 
   const equityCFs: number[] = [-equityIn]; // initial equity outlay
+  let addOnInvested = 0; // equity injected later for add-ons
   const schedule: DebtScheduleRow[] = [];
   let exitEV = 0;
   let exitDebt = 0;
   let exitPref = 0;
 
-  for (let i = 0; i < periods.length; i++) {
-    const p = periods[i];
-    const openingDebt = debtBalance;
+  for (let i = 0; i < held.length; i++) {
+    const p = held[i];
+    const idx = offset + i; // index into periods / periodLabels
+    const fraction = timeline?.periods[idx].year_fraction ?? 1;
+    const openingBalances = [...trancheBalances];
+    const openingDebt = openingBalances.reduce((s, b) => s + b, 0);
     const openingPref = prefBalance;
 
-    // Interest on opening debt balance (known before FCF computation)
-    const interestPayment = debtBalance * interestRate;
+    // Interest on opening tranche balances (known before FCF computation).
+    // Floating tranches pay the hedged base rate + margin; fixed tranches their interest_rate.
+    // PIK tranches capitalise their interest instead of paying it in cash.
+    // Stub periods accrue interest for the share of the year held only.
+    const year = periodYear(p, periodLabels?.[idx]);
+    const baseRate = floatingRate ? hedgedBaseRate(params, year, idx) : undefined;
+    const trancheRates = tranches.map((t) =>
+      baseRate != null && t.margin != null ? baseRate + t.margin : (t.interest_rate ?? 0));
+    const trancheInterest = tranches.map((t, k) => openingBalances[k] * trancheRates[k] * fraction);
+    const interestPayment = trancheInterest.reduce((s, v, k) => s + (tranches[k].pik ? 0 : v), 0);
+    const totalInterest = trancheInterest.reduce((s, v) => s + v, 0);
 
     // Unlevered FCF: prefer NIBD-derived FCF when available
     let unleveredFCF: number;
     if (p.nibd_fcf != null) {
-      unleveredFCF = p.nibd_fcf;
+      unleveredFCF = p.nibd_fcf * fraction;
     } else {
       const ebitda = p.ebitda;
 
@@ -393,47 +786,71 @@ function computeLevel2Return(
       // NWC fallback: nwc_pct_revenue takes precedence over flat nwc_investment
       const changeNwc = p.change_nwc ?? (nwcPctRevenue != null && revenue > 0 ? -(revenue * nwcPctRevenue) : -fallbackNwcFlat);
 
-      // Tax on levered EBT proxy: EBT = EBITDA - D&A - interest (interest tax shield)
+      // Tax on levered EBT proxy: EBT = EBITDA - D&A - interest (interest tax shield, incl. PIK interest)
+      // Stub periods: operating items pro rata (interest is already)
+      // One-off integration costs are below EBITDA but tax-deductible
+      const integrationCosts = p.integration_costs ?? 0;
       const daProxy = revenue > 0 ? revenue * daPctRevenue : Math.abs(ebitda) * daPctRevenue;
-      const ebtProxy = ebitda - daProxy - interestPayment;
+      const ebtProxy = (ebitda - daProxy + integrationCosts) * fraction - totalInterest;
       const tax = ebtProxy > 0 ? -ebtProxy * taxRate : 0;
 
-      unleveredFCF = ebitda + tax + capex + changeNwc;
+      unleveredFCF = (ebitda + integrationCosts + capex + changeNwc) * fraction + tax;
     }
+    // The acquirer's own FCF before entry (no acquisition debt yet, so taxed unlevered)
+    if (i === 0) unleveredFCF += preClose;
 
     // Apply minority interest deduction (reduces FCF available to acquirer)
     if (minorityPct > 0) unleveredFCF = unleveredFCF * (1 - minorityPct);
 
-    // Debt service: mandatory amortisation
-    const actualAmort = Math.min(debtAmort, debtBalance);
+    // Debt service: mandatory amortisation per tranche (capped at balance incl. PIK roll-up)
+    const trancheAmort = tranches.map((t, k) =>
+      Math.min((t.amortisation ?? 0) * fraction, openingBalances[k] + (t.pik ? trancheInterest[k] : 0)));
+    for (let k = 0; k < tranches.length; k++) {
+      trancheBalances[k] = Math.max(0, openingBalances[k] + (tranches[k].pik ? trancheInterest[k] : 0) - trancheAmort[k]);
+    }
+    const actualAmort = trancheAmort.reduce((s, v) => s + v, 0);
     const mandatoryDebtService = interestPayment + actualAmort;
-    let debtAfterMandatory = Math.max(0, debtBalance - actualAmort);
 
-    // Cash sweep: apply fraction of excess FCF (after mandatory debt service) to additional repayment
-    let sweepAmount = 0;
-    if (cashSweepPct > 0 && debtAfterMandatory > 0) {
+    // Cash sweep: apply fraction of excess FCF (after mandatory debt service) to additional
+    // repayment, allocated to sweep-eligible tranches in seniority order
+    const trancheSweep = tranches.map(() => 0);
+    const sweepable = trancheBalances.reduce((s, b, k) => s + (tranches[k].sweep_eligible === false ? 0 : b), 0);
+    if (cashSweepPct > 0 && sweepable > 0) {
       const excessFCF = unleveredFCF - mandatoryDebtService;
       if (excessFCF > 0) {
-        sweepAmount = Math.min(excessFCF * cashSweepPct, debtAfterMandatory);
-        debtAfterMandatory = Math.max(0, debtAfterMandatory - sweepAmount);
+        let remaining = excessFCF * cashSweepPct;
+        for (let k = 0; k < tranches.length && remaining > 0; k++) {
+          if (tranches[k].sweep_eligible === false) continue;
+          const repay = Math.min(remaining, trancheBalances[k]);
+          trancheSweep[k] = repay;
+          trancheBalances[k] = Math.max(0, trancheBalances[k] - repay);
+          remaining -= repay;
+        }
       }
     }
+    const sweepAmount = trancheSweep.reduce((s, v) => s + v, 0);
 
-    debtBalance = debtAfterMandatory;
+    // Add-ons closing this year: debt drawn on the most senior tranche, the rest is new equity
+    const addOnDebt = tranches.length > 0 ? Math.max(0, p.add_on_debt ?? 0) : 0;
+    const addOnEquity = Math.max(0, -(p.add_on_spend ?? 0) - addOnDebt);
+    if (addOnDebt > 0) trancheBalances[0] += addOnDebt;
+    addOnInvested += addOnEquity;
 
-    // Total cash out for debt = interest + mandatory amort + sweep
+    const debtBalance = trancheBalances.reduce((s, b) => s + b, 0);
+
+    // Total cash out for debt = cash interest + mandatory amort + sweep
     const totalDebtCashOut = interestPayment + actualAmort + sweepAmount;
 
     // Preferred equity PIK accrual (no cash payment, compounds)
-    const pikAccrual = prefBalance * preferredRate;
-    prefBalance = prefBalance * (1 + preferredRate);
+    const pikAccrual = prefBalance * preferredRate * fraction;
+    prefBalance = prefBalance + pikAccrual;
 
     // FCF to equity = unlevered FCF - total debt cash outflows
     const fcfToEquity = unleveredFCF - totalDebtCashOut;
 
-    if (i === periods.length - 1) {
-      // Exit year: add exit equity proceeds
-      const exitEbitda = p.ebitda;
+    if (i === held.length - 1) {
+      // Exit year: add exit equity proceeds (LTM EBITDA at the exit date when dates are set)
+      const exitEbitda = timeline ? exitLtmEbitda(periods, timeline) : p.ebitda;
       exitEV = exitEbitda * exitMultiple;
       exitDebt = debtBalance;
       exitPref = prefBalance;
@@ -441,17 +858,17 @@ function computeLevel2Return(
       // (minority is a cash flow claim only; option debt for minority buyout
       //  is reflected in the equity bridge, not as a % deduction here)
       const exitEquity = exitEV - debtBalance - prefBalance;
-      equityCFs.push(fcfToEquity + exitEquity);
+      equityCFs.push(fcfToEquity - addOnEquity + exitEquity);
     } else {
-      equityCFs.push(fcfToEquity);
+      equityCFs.push(fcfToEquity - addOnEquity);
     }
 
     // Collect schedule row
     if (collectSchedule) {
       const ebitda = p.ebitda;
       schedule.push({
-        year: periodLabels?.[i] ? parseInt(periodLabels[i]) || (2026 + i) : 2026 + i,
-        period_label: periodLabels?.[i] ?? `${2026 + i}E`,
+        year: periodYear(p, periodLabels?.[idx]) ?? 2026 + idx,
+        period_label: periodLabels?.[idx] ?? `${2026 + idx}E`,
         ebitda,
         unlevered_fcf: unleveredFCF,
         opening_debt: openingDebt,
@@ -465,13 +882,28 @@ function computeLevel2Return(
         pik_accrual: pikAccrual,
         closing_pref: prefBalance,
         fcf_to_equity: fcfToEquity,
+        ...(addOnDebt > 0 || addOnEquity > 0 ? { add_on_debt: addOnDebt, add_on_equity: addOnEquity } : {}),
+        ...(baseRate != null ? { base_rate: baseRate } : {}),
+        ...(timeline ? { year_fraction: fraction } : {}),
+        ...(showTranches ? {
+          tranches: tranches.map((t, k) => ({
+            name: t.name,
+            opening: openingBalances[k],
+            interest_rate: trancheRates[k],
+            interest: t.pik ? 0 : trancheInterest[k],
+            pik_interest: t.pik ? trancheInterest[k] : 0,
+            mandatory_amort: trancheAmort[k],
+            sweep: trancheSweep[k],
+            closing: trancheBalances[k],
+          })),
+        } : {}),
       });
     }
   }
 
-  const irr = computeIRR(equityCFs);
-  const totalReturn = equityCFs.slice(1).reduce((s, v) => s + v, 0);
-  const mom = equityIn > 0 ? totalReturn / equityIn : null;
+  const irr = timeline ? computeXIRR(equityCFs, timelineDates(timeline)) : computeIRR(equityCFs);
+  const totalReturn = equityCFs.slice(1).reduce((s, v) => s + v, 0) + addOnInvested;
+  const mom = equityIn > 0 ? totalReturn / (equityIn + addOnInvested) : null;
 
   return { irr, mom, schedule: collectSchedule ? schedule : undefined, exit_ev: exitEV, exit_debt: exitDebt, exit_pref: exitPref };
 }
@@ -486,16 +918,17 @@ function computeCaseReturn(
   level: 1 | 2,
   collectSchedule = false,
   periodLabels?: string[],
+  preClosePeriods?: PeriodData[],
 ): { irr: number | null; mom: number | null; schedule?: DebtScheduleRow[]; exit_ev?: number; exit_debt?: number; exit_pref?: number } {
   if (level === 2) {
-    return computeLevel2Return(entryEV, periods, params, exitMultiple, collectSchedule, periodLabels);
+    return computeLevel2Return(entryEV, periods, params, exitMultiple, collectSchedule, periodLabels, preClosePeriods);
   }
-  return computeLevel1Return(entryEV, periods, params, exitMultiple);
+  return computeLevel1Return(entryEV, periods, params, exitMultiple, preClosePeriods);
 }
 
 // ── Exported for testing ──────────────────────────────────────────
 
-export { computeIRR, bisectionIRR, isLevel2, computeLevel1Return, computeLevel2Return };
+export { computeIRR, bisectionIRR, computeXIRR, isLevel2, computeLevel1Return, computeLevel2Return, resolveDebtTranches, totalEntryDebt, scaleDebtTranches, entryDebtRate, shiftDebtRate, totalDebtAmortisation, scaleDebtAmortisation, hasBaseRateCurve, resolveBaseRate, hedgedBaseRate };
 
 /**
  * Calculate deal returns for all cases and exit multiples.
@@ -504,12 +937,15 @@ export { computeIRR, bisectionIRR, isLevel2, computeLevel1Return, computeLevel2R
  * proFormaPeriods: combined pro forma data (including synergies)
  * params: deal parameters from the scenario
  * periodLabels: optional labels for each period (e.g. ["2026E", "2027E", ...])
+ * riskWeightedPeriods: optional pro forma data with probability-weighted synergies
+ *   (adds the "Risikovektet" case, same capital structure as the combined case)
  */
 export function calculateDealReturns(
   acquirerPeriods: PeriodData[],
   proFormaPeriods: PeriodData[],
   params: DealParameters,
   periodLabels?: string[],
+  riskWeightedPeriods?: PeriodData[],
 ): CalculatedReturns {
   const exitMultiples = params.exit_multiples?.length
     ? params.exit_multiples
@@ -566,6 +1002,11 @@ export function calculateDealReturns(
   const dilutionBaseShares = params.dilution_base_shares ?? entryShares;
   const hasDilutionParams = mipSharePct > 0 || tsoCount > 0 || warCount > 0;
 
+  // Holding period from entry/exit dates (null = whole annual periods)
+  const timeline = buildDealTimeline(
+    proFormaPeriods.length > 0 ? proFormaPeriods : acquirerPeriods, params, periodLabels,
+  ) ?? undefined;
+
   const cases: CaseReturn[] = [];
   const standaloneLookup: Record<number, { irr: number | null; mom: number | null }> = {};
 
@@ -619,7 +1060,7 @@ export function calculateDealReturns(
     for (const mult of exitMultiples) {
       // Collect schedule only once (on median multiple) to avoid redundant computation
       const shouldCollectSchedule = level === 2 && mult === medianMultiple;
-      const result = computeCaseReturn(combinedEntryEV, proFormaPeriods, combinedLevel2Params, mult, level, shouldCollectSchedule, periodLabels);
+      const result = computeCaseReturn(combinedEntryEV, proFormaPeriods, combinedLevel2Params, mult, level, shouldCollectSchedule, periodLabels, acquirerPeriods);
 
       // Capture debt schedule from median multiple run
       if (shouldCollectSchedule && result.schedule) {
@@ -720,7 +1161,9 @@ export function calculateDealReturns(
         }
 
         // Per-share IRR: compute from per-share cash flow vector
-        if (perShareEntry && perShareExit !== null) {
+        if (perShareEntry && perShareExit !== null && timeline) {
+          perShareIrr = computeXIRR([-perShareEntry, perShareExit], [timeline.entry_date, timeline.exit_date]);
+        } else if (perShareEntry && perShareExit !== null) {
           const nPeriods = proFormaPeriods.length;
           const perShareCFs: number[] = [-perShareEntry];
           for (let i = 0; i < nPeriods; i++) {
@@ -745,6 +1188,19 @@ export function calculateDealReturns(
         per_share_mom: perShareMom,
       });
     }
+
+    // 3) Risk-weighted case — combined, with synergies weighted by probability
+    if (riskWeightedPeriods && riskWeightedPeriods.length === proFormaPeriods.length) {
+      for (const mult of exitMultiples) {
+        const result = computeCaseReturn(combinedEntryEV, riskWeightedPeriods, combinedLevel2Params, mult, level, false, periodLabels, acquirerPeriods);
+        cases.push({
+          return_case: "Risikovektet",
+          exit_multiple: mult,
+          irr: result.irr,
+          mom: result.mom,
+        });
+      }
+    }
   }
 
   // Build share summary
@@ -770,5 +1226,5 @@ export function calculateDealReturns(
     } : {}),
   } : undefined;
 
-  return { cases, standalone_by_multiple: standaloneLookup, level, level_label, share_summary: shareSummary, debt_schedule: debtSchedule };
+  return { cases, standalone_by_multiple: standaloneLookup, level, level_label, share_summary: shareSummary, debt_schedule: debtSchedule, ...(timeline ? { timeline } : {}) };
 }
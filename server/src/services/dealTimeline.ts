@@ -0,0 +1,154 @@
+/**
+ * Deal timeline — entry and exit dates mapped onto annual periods.
+ *
+ * Without dates, deal returns treat every period as a whole year held, with
+ * entry one year before the first period end and exit at the last. A
+ * scenario's acquisition_date and exit_date instead define the holding
+ * period, which gives a stub first and last period:
+ *
+ *   entry 2026-06-30, exit 2030-03-31, periods 2026E..2030E
+ *     2026E        fraction ≈ 0.50  (Jul–Dec held)
+ *     2027E–2029E  fraction 1
+ *     2030E        fraction ≈ 0.25  (Jan–Mar held, cash flow dated at exit)
+ *
+ * Each period's cash flows are scaled by its fraction and dated at the period
+ * end (or the exit date), and IRR is computed XIRR-style on those dates.
+ * In the pro forma cases the acquirer's own cash flow before entry is kept
+ * (see preEntryFraction); only the target and synergies are prorated.
+ * Exit EBITDA is the LTM at exit: the exit period and the one before it,
+ * time-weighted like calendarised target years. Periods are assumed annual.
+ */
+
+import { periodDateKey } from "./calendarise.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface TimelinePeriod {
+  period_label: string | null;
+  period_date: string;
+  /** Share of the period inside the holding period (0 outside it). */
+  year_fraction: number;
+  /** Date the period's cash flow is received (period end, capped at exit). */
+  cash_flow_date: string;
+}
+
+export interface DealTimeline {
+  entry_date: string;
+  exit_date: string;
+  /** Years between entry and exit (365-day years, as Excel's XIRR). */
+  holding_years: number;
+  /** First and last period index inside the holding period. */
+  first_index: number;
+  exit_index: number;
+  /** Weight of the exit period in LTM exit EBITDA; the rest comes from the period before. */
+  exit_ltm_weight: number;
+  /** One entry per input period, in order. */
+  periods: TimelinePeriod[];
+}
+
+/** YYYY-MM-DD for a scenario date; pg DATEs arrive as local midnight, so no UTC shift. */
+export function toIsoDate(v: unknown): string | undefined {
+  if (v == null || v === "") return undefined;
+  if (v instanceof Date) {
+    if (Number.isNaN(v.getTime())) return undefined;
+    const mm = String(v.getMonth() + 1).padStart(2, "0");
+    const dd = String(v.getDate()).padStart(2, "0");
+    return `${v.getFullYear()}-${mm}-${dd}`;
+  }
+  const s = String(v).slice(0, 10);
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) ? s : undefined;
+}
+
+function toDay(key: string): number {
+  const [y, m, d] = key.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / MS_PER_DAY;
+}
+
+function fromDay(day: number): string {
+  return periodDateKey(new Date(day * MS_PER_DAY));
+}
+
+/** Start of an annual period ending on `key` (same date one year earlier). */
+function periodStartDay(key: string): number {
+  const [y, m, d] = key.split("-").map(Number);
+  return Date.UTC(y - 1, m - 1, d) / MS_PER_DAY;
+}
+
+/** Years between two YYYY-MM-DD dates, on a 365-day basis. */
+export function yearsBetween(from: string, to: string): number {
+  return (toDay(to) - toDay(from)) / 365;
+}
+
+/**
+ * Map entry/exit dates onto the periods.
+ *
+ * Returns null — and the annual model is used — when neither date is set,
+ * when a period has no date, or when the dates leave no period held.
+ * A missing acquisition_date means entry at the start of the first period;
+ * a missing exit_date (or one past the last period) means exit at its end.
+ */
+export function buildDealTimeline(
+  periods: { period_date?: string }[],
+  dates: { acquisition_date?: string | null; exit_date?: string | null },
+  periodLabels?: string[],
+): DealTimeline | null {
+  const acquisitionDate = toIsoDate(dates.acquisition_date);
+  const exitDate = toIsoDate(dates.exit_date);
+  if (!acquisitionDate && !exitDate) return null;
+  if (periods.length === 0 || periods.some((p) => !p.period_date)) return null;
+
+  const ends = periods.map((p) => toDay(p.period_date!));
+  const entry = acquisitionDate ? toDay(acquisitionDate) : periodStartDay(periods[0].period_date!);
+  const exit = Math.min(exitDate ? toDay(exitDate) : Infinity, ends[ends.length - 1]);
+  if (exit <= entry) return null;
+
+  const timelinePeriods: TimelinePeriod[] = periods.map((p, i) => {
+    const start = periodStartDay(p.period_date!);
+    const overlap = Math.max(0, Math.min(ends[i], exit) - Math.max(start, entry));
+    return {
+      period_label: periodLabels?.[i] ?? null,
+      period_date: p.period_date!,
+      year_fraction: overlap / (ends[i] - start),
+      cash_flow_date: fromDay(Math.max(entry, Math.min(ends[i], exit))),
+    };
+  });
+
+  const held = timelinePeriods.map((t, i) => (t.year_fraction > 0 ? i : -1)).filter((i) => i >= 0);
+  if (held.length === 0) return null;
+  const firstIndex = held[0];
+  const exitIndex = held[held.length - 1];
+
+  const exitStart = periodStartDay(periods[exitIndex].period_date!);
+  const exitLtmWeight = exitIndex > 0
+    ? Math.min(1, Math.max(0, (exit - exitStart) / (ends[exitIndex] - exitStart)))
+    : 1;
+
+  return {
+    entry_date: fromDay(entry),
+    exit_date: fromDay(exit),
+    holding_years: (exit - entry) / 365,
+    first_index: firstIndex,
+    exit_index: exitIndex,
+    exit_ltm_weight: exitLtmWeight,
+    periods: timelinePeriods,
+  };
+}
+
+/**
+ * Share of the first held period before the entry date. In the pro forma
+ * cases that part of the year is the acquirer on its own: only the target
+ * and synergies are consolidated from the entry date.
+ */
+export function preEntryFraction(timeline: DealTimeline): number {
+  const key = timeline.periods[timeline.first_index].period_date;
+  const start = periodStartDay(key);
+  return Math.min(1, Math.max(0, (toDay(timeline.entry_date) - start) / (toDay(key) - start)));
+}
+
+/** LTM EBITDA at exit: the exit period blended with the one before it. */
+export function exitLtmEbitda(periods: { ebitda: number }[], timeline: DealTimeline): number {
+  const w = timeline.exit_ltm_weight;
+  const exitEbitda = periods[timeline.exit_index].ebitda;
+  if (w >= 1 || timeline.exit_index === 0) return exitEbitda;
+  return w * exitEbitda + (1 - w) * periods[timeline.exit_index - 1].ebitda;
+}
@@ -0,0 +1,254 @@
+/**
+ * EPS accretion / dilution — earnings and free cash flow per share for the
+ * acquirer standalone versus the combined group, year by year.
+ *
+ *   P&L          EBITDA − D&A − amortisation = EBIT; + net financial items =
+ *                EBT; − tax = net income. Reported lines are used where the
+ *                model has them; D&A falls back to da_pct_revenue and tax to
+ *                tax_rate × positive EBT
+ *   Pro forma    acquirer + target net income plus the deal adjustments,
+ *                taxed at tax_rate: synergy EBITDA, integration costs,
+ *                amortisation of intangibles from the purchase price
+ *                allocation (PPA) and interest on the new debt
+ *   Per share    standalone shares from the share tracker (M&A dilution
+ *                only); pro forma adds the shares issued for S&U equity,
+ *                add-ons and rollover
+ *   FCF          net income + D&A + amortisation + capex + change in NWC
+ *   Breakeven    the pre-tax synergy EBITDA at which pro forma EPS equals
+ *                standalone EPS
+ */
+
+import type { DealParameters } from "./dealReturns.js";
+import { firstForecastIndex } from "./dcf.js";
+import { toIsoDate } from "./dealTimeline.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const DEFAULT_PPA_AMORTISATION_YEARS = 10;
+
+/** Costs (D&A, amortisation, tax) are positive amounts; net financial items are signed. */
+export interface PnlLines {
+  ebitda: number;
+  depreciation: number;
+  amortisation: number;
+  ebit: number;
+  net_financial_items: number;
+  pre_tax_profit: number;
+  tax: number;
+  net_income: number;
+}
+
+export interface StandalonePnl extends PnlLines {
+  /** D&A proxied from revenue, or tax and net income derived at tax_rate. */
+  estimated: boolean;
+}
+
+export interface ProFormaPnl extends PnlLines {
+  synergy_ebitda: number;
+  integration_costs: number;        // negative = cost
+  ppa_amortisation: number;
+  new_debt_interest: number;
+}
+
+export interface EpsPeriodInput {
+  period_label: string;
+  /** financial_periods rows; target aligned to the acquirer period (null if none). */
+  acquirer: any;
+  target: any | null;
+  synergy_ebitda: number;
+  integration_costs: number;
+  ppa_amortisation: number;
+  new_debt_interest: number;
+  /** Capex + change in NWC (negative = outflow). */
+  acquirer_capex_nwc: number;
+  pro_forma_capex_nwc: number;
+  standalone_shares: number | null;
+  pro_forma_shares: number | null;
+}
+
+export interface EpsPeriod {
+  period_label: string;
+  standalone: StandalonePnl;
+  target: StandalonePnl | null;
+  pro_forma: ProFormaPnl;
+  standalone_shares: number | null;
+  pro_forma_shares: number | null;
+  standalone_eps: number | null;
+  pro_forma_eps: number | null;
+  eps_accretion: number | null;
+  standalone_fcf: number;
+  pro_forma_fcf: number;
+  standalone_fcf_per_share: number | null;
+  pro_forma_fcf_per_share: number | null;
+  fcf_per_share_accretion: number | null;
+  /** Synergy EBITDA (pre-tax) at which the deal is EPS-neutral. */
+  breakeven_synergies: number | null;
+}
+
+export interface EpsAccretionResult {
+  tax_rate: number;
+  ppa_intangibles: number;
+  ppa_amortisation_years: number;
+  /** Whether any period has a reported below-EBITDA line (else all proxies). */
+  reported_pnl: boolean;
+  periods: EpsPeriod[];
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const num = (v: unknown): number | null => {
+  if (v == null) return null;
+  const n = parseFloat(v as string);
+  return Number.isNaN(n) ? null : n;
+};
+
+const PNL_FIELDS = ["depreciation", "amortisation", "net_financial_items", "net_income"] as const;
+
+/** Whether a financial_periods row has any reported below-EBITDA line. */
+export function hasReportedPnl(p: any): boolean {
+  return p != null && PNL_FIELDS.some((f) => num(p[f]) !== null);
+}
+
+/**
+ * Standalone P&L for one financial_periods row. A reported net income wins
+ * (tax is then the difference to EBT); otherwise the reported tax, else
+ * tax_rate on positive EBT.
+ */
+export function standalonePnl(p: any, params: DealParameters): StandalonePnl {
+  const ebitda = num(p.ebitda_total) ?? 0;
+  const revenue = num(p.revenue_total) ?? 0;
+  const reportedDa = num(p.depreciation);
+  const daPct = params.da_pct_revenue ?? 0.01;
+  const depreciation = reportedDa !== null
+    ? Math.abs(reportedDa)
+    : (revenue > 0 ? revenue : Math.abs(ebitda)) * daPct;
+  const amortisation = Math.abs(num(p.amortisation) ?? 0);
+  const ebit = ebitda - depreciation - amortisation;
+  const netFinancial = num(p.net_financial_items) ?? 0;
+  const ebt = ebit + netFinancial;
+
+  const reportedNi = num(p.net_income);
+  const reportedTax = num(p.tax);
+  let tax: number;
+  let netIncome: number;
+  if (reportedNi !== null) {
+    netIncome = reportedNi;
+    tax = ebt - reportedNi;
+  } else {
+    tax = reportedTax !== null ? Math.abs(reportedTax) : Math.max(ebt, 0) * (params.tax_rate ?? 0.22);
+    netIncome = ebt - tax;
+  }
+
+  return {
+    ebitda,
+    depreciation,
+    amortisation,
+    ebit,
+    net_financial_items: netFinancial,
+    pre_tax_profit: ebt,
+    tax,
+    net_income: netIncome,
+    estimated: reportedDa === null || (reportedNi === null && reportedTax === null),
+  };
+}
+
+/**
+ * Straight-line amortisation of the PPA intangibles per period: from the
+ * first period ending after close (the first forecast period without an
+ * acquisition date) for ppa_amortisation_years periods.
+ */
+export function ppaAmortisationSchedule(
+  periods: { period_date: Date | string; period_type?: string | null }[],
+  params: Pick<DealParameters, "ppa_intangibles" | "ppa_amortisation_years" | "acquisition_date">,
+): number[] {
+  const intangibles = params.ppa_intangibles ?? 0;
+  const years = params.ppa_amortisation_years ?? DEFAULT_PPA_AMORTISATION_YEARS;
+  if (intangibles <= 0 || years <= 0) return periods.map(() => 0);
+
+  const close = params.acquisition_date;
+  let start = close
+    ? periods.findIndex((p) => (toIsoDate(p.period_date) ?? "") > close)
+    : firstForecastIndex(periods);
+  if (start < 0) start = periods.length;
+
+  return periods.map((_p, i) => (i >= start && i < start + years ? intangibles / years : 0));
+}
+
+const perShare = (v: number, shares: number | null) => (shares && shares > 0 ? v / shares : null);
+const accretion = (pf: number | null, sa: number | null) =>
+  pf !== null && sa !== null && sa > 0 ? pf / sa - 1 : null;
+
+// ── Analysis ───────────────────────────────────────────────────────
+
+export function epsPeriod(input: EpsPeriodInput, params: DealParameters): EpsPeriod {
+  const taxRate = params.tax_rate ?? 0.22;
+  const sa = standalonePnl(input.acquirer, params);
+  const tgt = input.target ? standalonePnl(input.target, params) : null;
+
+  // Deal adjustments, taxed at the marginal rate
+  const adjustment = input.synergy_ebitda + input.integration_costs - input.ppa_amortisation - input.new_debt_interest;
+  const ebitda = sa.ebitda + (tgt?.ebitda ?? 0) + input.synergy_ebitda;
+  const depreciation = sa.depreciation + (tgt?.depreciation ?? 0);
+  const amortisation = sa.amortisation + (tgt?.amortisation ?? 0) + input.ppa_amortisation;
+  const ebit = ebitda + input.integration_costs - depreciation - amortisation;
+  const netFinancial = sa.net_financial_items + (tgt?.net_financial_items ?? 0) - input.new_debt_interest;
+  const tax = sa.tax + (tgt?.tax ?? 0) + adjustment * taxRate;
+  const netIncome = sa.net_income + (tgt?.net_income ?? 0) + adjustment * (1 - taxRate);
+
+  const pro_forma: ProFormaPnl = {
+    ebitda,
+    depreciation,
+    amortisation,
+    ebit,
+    net_financial_items: netFinancial,
+    pre_tax_profit: ebit + netFinancial,
+    tax,
+    net_income: netIncome,
+    synergy_ebitda: input.synergy_ebitda,
+    integration_costs: input.integration_costs,
+    ppa_amortisation: input.ppa_amortisation,
+    new_debt_interest: input.new_debt_interest,
+  };
+
+  const standaloneEps = perShare(sa.net_income, input.standalone_shares);
+  const proFormaEps = perShare(netIncome, input.pro_forma_shares);
+
+  // Non-cash D&A and amortisation added back
+  const standaloneFcf = sa.net_income + sa.depreciation + sa.amortisation + input.acquirer_capex_nwc;
+  const proFormaFcf = netIncome + depreciation + amortisation + input.pro_forma_capex_nwc;
+  const standaloneFcfps = perShare(standaloneFcf, input.standalone_shares);
+  const proFormaFcfps = perShare(proFormaFcf, input.pro_forma_shares);
+
+  // Net income without synergies + s × (1 − t) = standalone EPS × pro forma shares
+  const breakeven = standaloneEps !== null && input.pro_forma_shares && taxRate < 1
+    ? input.synergy_ebitda + (standaloneEps * input.pro_forma_shares - netIncome) / (1 - taxRate)
+    : null;
+
+  return {
+    period_label: input.period_label,
+    standalone: sa,
+    target: tgt,
+    pro_forma,
+    standalone_shares: input.standalone_shares,
+    pro_forma_shares: input.pro_forma_shares,
+    standalone_eps: standaloneEps,
+    pro_forma_eps: proFormaEps,
+    eps_accretion: accretion(proFormaEps, standaloneEps),
+    standalone_fcf: standaloneFcf,
+    pro_forma_fcf: proFormaFcf,
+    standalone_fcf_per_share: standaloneFcfps,
+    pro_forma_fcf_per_share: proFormaFcfps,
+    fcf_per_share_accretion: accretion(proFormaFcfps, standaloneFcfps),
+    breakeven_synergies: breakeven,
+  };
+}
+
+export function epsAccretion(periods: EpsPeriodInput[], params: DealParameters): EpsAccretionResult {
+  return {
+    tax_rate: params.tax_rate ?? 0.22,
+    ppa_intangibles: params.ppa_intangibles ?? 0,
+    ppa_amortisation_years: params.ppa_amortisation_years ?? DEFAULT_PPA_AMORTISATION_YEARS,
+    reported_pnl: periods.some((p) => hasReportedPnl(p.acquirer) || hasReportedPnl(p.target)),
+    periods: periods.map((p) => epsPeriod(p, params)),
+  };
+}
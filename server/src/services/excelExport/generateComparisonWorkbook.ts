@@ -0,0 +1,20 @@
+/**
+ * Excel Export — Scenario Comparison
+ *
+ * A single-sheet workbook with up to five scenarios side by side at a common
+ * exit multiple (see scenarioComparison.ts).
+ */
+
+import ExcelJS from "exceljs";
+import type { ScenarioComparison } from "../scenarioComparison.js";
+import { buildScenarioComparisonSheet } from "./sheets/scenarioComparisonSheet.js";
+
+export async function generateComparisonWorkbook(comparison: ScenarioComparison): Promise<ExcelJS.Workbook> {
+  const wb = new ExcelJS.Workbook();
+  wb.creator = "ECIT Acquisition Analysis";
+  wb.created = new Date();
+
+  buildScenarioComparisonSheet(wb, comparison);
+
+  return wb;
+}
@@ -11,6 +11,9 @@
  *   7. Share Tracker    — share counts, FMV, new issuances
  *   8. Deal Returns     — IRR/MoM matrix with XIRR formulas
  *   9. Sensitivity      — heatmap grid
+ *  10. DCF              — UFCF discounted at WACC for acquirer, target, pro forma
+ *  11. Contribution     — contribution vs ownership and exchange ratios
+ *  12. Variance         — actuals after closing vs the IC plan
  *
  * Key design: the "Inputs" sheet holds all editable parameters as named cells.
  * All other sheets reference Inputs via Excel formulas, so the user can change
@@ -31,6 +34,9 @@ import { buildDilutionSheet } from "./sheets/dilutionSheet.js";
 import { buildShareTrackerSheet } from "./sheets/shareTrackerSheet.js";
 import { buildDealReturnsSheet } from "./sheets/dealReturnsSheet.js";
 import { buildSensitivitySheet } from "./sheets/sensitivitySheet.js";
+import { buildDcfSheet } from "./sheets/dcfSheet.js";
+import { buildContributionSheet } from "./sheets/contributionSheet.js";
+import { buildVarianceSheet } from "./sheets/varianceSheet.js";
 
 export async function generateExcelModel(data: ExportData): Promise<ExcelJS.Workbook> {
   const wb = new ExcelJS.Workbook();
@@ -73,5 +79,14 @@ export async function generateExcelModel(data: ExportData): Promise<ExcelJS.Work
   // 9. Sensitivity — references Deal Returns formulas
   buildSensitivitySheet(wb, data, drRowMap);
 
+  // 10. DCF — references the dcf_* Inputs (only with a DCF valuation)
+  buildDcfSheet(wb, data);
+
+  // 11. Contribution — contribution vs ownership and exchange ratios (static inputs + formulas)
+  buildContributionSheet(wb, data);
+
+  // 12. Variance — actuals vs IC plan by period (static plan/actual, formula variances)
+  buildVarianceSheet(wb, data);
+
   return wb;
 }
@@ -1,2 +1,3 @@
 export { generateExcelModel } from "./generateExcelModel.js";
+export { generateComparisonWorkbook } from "./generateComparisonWorkbook.js";
 export type { ExportData } from "./types.js";
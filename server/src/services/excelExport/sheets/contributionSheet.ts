@@ -0,0 +1,185 @@
+import type ExcelJS from "exceljs";
+import type { ExportData } from "../types.js";
+import type { ContributionMetric } from "../../contribution.js";
+import {
+  COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
+  NUM_FORMAT, NUM_FORMAT_1, NUM_FORMAT_2, PCT_FORMAT,
+  styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
+} from "../styles.js";
+import { colLetter } from "../helpers.js";
+
+const METRIC_LABELS: Record<ContributionMetric, string> = {
+  revenue: "Revenue",
+  ebitda: "EBITDA",
+  fcf: "Unlevered FCF",
+  equity_value: "Equity Value",
+};
+
+/**
+ * Contribution sheet — relative contribution vs post-deal ownership.
+ *
+ * Contributions and share counts are static (from the engine); totals,
+ * percentages, the ownership gap and the exchange table are formulas, so the
+ * price factors, issue price and target share count can be changed in the
+ * workbook.
+ */
+export function buildContributionSheet(wb: ExcelJS.Workbook, data: ExportData) {
+  const c = data.contribution;
+  if (!c) return;
+
+  const ws = wb.addWorksheet("Contribution", { properties: { tabColor: { argb: "2E75B6" } } });
+  const nCols = Math.max(8, c.periods.length + 1);
+  const colW: Partial<ExcelJS.Column>[] = [{ width: 32 }];
+  for (let i = 1; i < nCols; i++) colW.push({ width: 14 });
+  ws.columns = colW;
+
+  let r = 1;
+
+  const titleRow = ws.getRow(r);
+  titleRow.getCell(1).value = "Contribution Analysis";
+  titleRow.getCell(1).font = { ...HEADER_FONT, size: 13 };
+  titleRow.getCell(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: COLORS.headerBg } };
+  ws.mergeCells(r, 1, r, nCols);
+  r++;
+  ws.getRow(r).getCell(1).value = `${c.acquirer_name} vs ${c.target_name}: share of the combined group vs ownership after the deal`;
+  ws.getRow(r).getCell(1).font = { ...VALUE_FONT, italic: true, color: { argb: "808080" } };
+  r += 2;
+
+  function setCell(row: ExcelJS.Row, col: number, value: ExcelJS.CellValue, format: string) {
+    const cell = row.getCell(col);
+    cell.value = value;
+    cell.numFmt = format;
+    cell.alignment = { horizontal: "right" };
+    if (value != null && typeof value === "object" && "formula" in value) {
+      styleFormulaCell(cell);
+    } else {
+      cell.border = THIN_BORDER;
+      cell.font = VALUE_FONT;
+    }
+  }
+
+  function addSection(title: string, cols: number) {
+    const row = ws.getRow(r);
+    row.getCell(1).value = title;
+    styleSectionRow(row, cols);
+    r++;
+  }
+
+  function addHeader(labels: string[]) {
+    const row = ws.getRow(r);
+    labels.forEach((l, i) => { row.getCell(i + 1).value = l; });
+    styleHeader(row, labels.length);
+    r++;
+  }
+
+  function addLabelRow(label: string, cells: [ExcelJS.CellValue, string][], isTotal = false): number {
+    const row = ws.getRow(r);
+    row.getCell(1).value = label;
+    row.getCell(1).font = isTotal ? LABEL_FONT : VALUE_FONT;
+    row.getCell(1).border = THIN_BORDER;
+    cells.forEach(([value, format], i) => setCell(row, i + 2, value, format));
+    if (isTotal) styleTotalRow(row, cells.length + 1);
+    return r++;
+  }
+
+  // ── Ownership ──
+  let targetOwnershipCell: string | null = null;
+  let existingRow = 0;
+  if (c.ownership) {
+    addSection("POST-DEAL OWNERSHIP (SHARE TRACKER)", 3);
+    addHeader(["Shareholder", "Shares (m)", "Ownership"]);
+    const o = c.ownership;
+    existingRow = addLabelRow(`${c.acquirer_name} (existing)`, [[o.existing_shares, NUM_FORMAT_1]]);
+    const issuedRow = addLabelRow("Issued for S&U equity", [[o.issued_shares, NUM_FORMAT_1]]);
+    const rolloverRow = addLabelRow("Issued for rollover", [[o.rollover_shares, NUM_FORMAT_1]]);
+    const totalRow = addLabelRow("Total shares", [[{ formula: `SUM(B${existingRow}:B${rolloverRow})` }, NUM_FORMAT_1]], true);
+    for (const row of [existingRow, issuedRow, rolloverRow]) {
+      setCell(ws.getRow(row), 3, { formula: `B${row}/B$${totalRow}` }, PCT_FORMAT);
+    }
+    const ownershipRow = addLabelRow("Target Side Ownership", [[{ formula: `(B${issuedRow}+B${rolloverRow})/B${totalRow}` }, PCT_FORMAT]], true);
+    targetOwnershipCell = `$B$${ownershipRow}`;
+    r++;
+  }
+
+  // ── Contribution vs ownership ──
+  addSection(`CONTRIBUTION VS OWNERSHIP${c.basis_period ? ` (${c.basis_period})` : ""}`, 8);
+  addHeader(["NOKm", c.acquirer_name, c.target_name, "Total", `${c.acquirer_name} %`, `${c.target_name} %`, "Target Ownership", "Ownership − Contribution"]);
+  const contributionRows: Partial<Record<ContributionMetric, number>> = {};
+  for (const row of c.contributions) {
+    const rowNum = r;
+    contributionRows[row.metric] = rowNum;
+    addLabelRow(METRIC_LABELS[row.metric], [
+      [row.acquirer ?? 0, NUM_FORMAT],
+      [row.target ?? 0, NUM_FORMAT],
+      [{ formula: `B${rowNum}+C${rowNum}` }, NUM_FORMAT],
+      [{ formula: `IF(D${rowNum}>0,B${rowNum}/D${rowNum},"")` }, PCT_FORMAT],
+      [{ formula: `IF(D${rowNum}>0,C${rowNum}/D${rowNum},"")` }, PCT_FORMAT],
+      ...(targetOwnershipCell
+        ? [
+            [{ formula: targetOwnershipCell }, PCT_FORMAT],
+            [{ formula: `IF(D${rowNum}>0,G${rowNum}-F${rowNum},"")` }, PCT_FORMAT],
+          ] as [ExcelJS.CellValue, string][]
+        : []),
+    ]);
+  }
+  r++;
+
+  // ── Contribution by period ──
+  const n = c.periods.length;
+  if (n > 0) {
+    addSection("TARGET CONTRIBUTION BY PERIOD", n + 1);
+    addHeader(["NOKm", ...c.periods.map((p) => p.period_label)]);
+    (["revenue", "ebitda", "fcf"] as const).forEach((metric, m) => {
+      const value = (side: "acquirer" | "target") => c.periods.map((p): [ExcelJS.CellValue, string] => [p.rows[m][side] ?? 0, NUM_FORMAT]);
+      const acqRow = addLabelRow(`${METRIC_LABELS[metric]}: ${c.acquirer_name}`, value("acquirer"));
+      const tgtRow = addLabelRow(`${METRIC_LABELS[metric]}: ${c.target_name}`, value("target"));
+      addLabelRow(`${METRIC_LABELS[metric]}: ${c.target_name} %`, c.periods.map((_p, i): [ExcelJS.CellValue, string] => {
+        const cl = colLetter(i + 2);
+        return [{ formula: `IF(${cl}${acqRow}+${cl}${tgtRow}>0,${cl}${tgtRow}/(${cl}${acqRow}+${cl}${tgtRow}),"")` }, PCT_FORMAT];
+      }), true);
+    });
+    r++;
+  }
+
+  // ── Exchange ratio at different prices ──
+  const x = c.exchange;
+  if (!x || !existingRow) return;
+
+  addSection(x.all_share ? "EXCHANGE RATIO (ILLUSTRATIVE ALL-SHARE DEAL)" : "EXCHANGE RATIO AT DIFFERENT PRICES", 8);
+  const eqRow = addLabelRow("Target Equity Value (price paid)", [[x.target_equity_value, NUM_FORMAT]]);
+  const debtRow = addLabelRow("Target Net Debt + Preferred", [[x.target_debt_like, NUM_FORMAT]]);
+  const fundedRow = addLabelRow("Paid in Shares", [[x.share_funded_pct, PCT_FORMAT]]);
+  const priceRow = addLabelRow("Issue Price per Share (NOK)", [[x.issue_price, NUM_FORMAT_2]]);
+  const tgtSharesRow = addLabelRow("Target Shares (m)", [[x.target_shares ?? "", NUM_FORMAT_1]]);
+  r++;
+
+  addHeader(["Price vs Base", "Equity Value", "EV", "Share Consideration", "New Shares (m)", "Target Ownership", "Exchange Ratio"]);
+  for (const p of x.points) {
+    const rowNum = r;
+    const row = ws.getRow(r);
+    setCell(row, 1, p.price_factor, PCT_FORMAT);
+    setCell(row, 2, { formula: `$B$${eqRow}*A${rowNum}` }, NUM_FORMAT);
+    setCell(row, 3, { formula: `B${rowNum}+$B$${debtRow}` }, NUM_FORMAT);
+    setCell(row, 4, { formula: `B${rowNum}*$B$${fundedRow}` }, NUM_FORMAT);
+    setCell(row, 5, { formula: `D${rowNum}/$B$${priceRow}` }, NUM_FORMAT_1);
+    setCell(row, 6, { formula: `E${rowNum}/($B$${existingRow}+E${rowNum})` }, PCT_FORMAT);
+    setCell(row, 7, { formula: `IF(N($B$${tgtSharesRow})>0,E${rowNum}/$B$${tgtSharesRow},"")` }, "0.0000");
+    r++;
+  }
+  r++;
+
+  if (x.implied.length === 0) return;
+  addSection("PRICE WHERE OWNERSHIP = CONTRIBUTION", 8);
+  addHeader(["Metric", "Target Contribution", "New Shares (m)", "Equity Value", "Price vs Base", "Exchange Ratio"]);
+  for (const imp of x.implied) {
+    const rowNum = r;
+    const src = contributionRows[imp.metric];
+    addLabelRow(METRIC_LABELS[imp.metric], [
+      [src ? { formula: `F${src}` } : imp.target_pct, PCT_FORMAT],
+      [{ formula: `B${rowNum}/(1-B${rowNum})*$B$${existingRow}` }, NUM_FORMAT_1],
+      [{ formula: `C${rowNum}*$B$${priceRow}/$B$${fundedRow}` }, NUM_FORMAT],
+      [{ formula: `D${rowNum}/$B$${eqRow}` }, PCT_FORMAT],
+      [{ formula: `IF(N($B$${tgtSharesRow})>0,C${rowNum}/$B$${tgtSharesRow},"")` }, "0.0000"],
+    ]);
+  }
+}
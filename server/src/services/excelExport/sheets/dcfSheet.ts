@@ -0,0 +1,161 @@
+import type ExcelJS from "exceljs";
+import type { ExportData } from "../types.js";
+import type { DcfValuation } from "../../dcf.js";
+import {
+  COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
+  NUM_FORMAT, NUM_FORMAT_1, NUM_FORMAT_2, PCT_FORMAT,
+  styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
+} from "../styles.js";
+import { colLetter } from "../helpers.js";
+
+const ENTITY_SUFFIX: Record<DcfValuation["entity"], string> = {
+  acquirer: " (STANDALONE)",
+  target: " (TARGET)",
+  pro_forma: "",
+};
+
+/**
+ * DCF sheet — one block per entity (acquirer, target, pro forma).
+ *
+ * Unlevered FCF per forecast period comes from the returns engine (static,
+ * since it may be NIBD-derived). Discount factors, terminal value, EV and the
+ * equity bridge are formulas on the dcf_* Inputs, so WACC, growth and the
+ * terminal method can be changed in the workbook. Each block ends with the
+ * entry price and the premium / discount of the DCF value to it.
+ */
+export function buildDcfSheet(wb: ExcelJS.Workbook, data: ExportData) {
+  const dcf = data.dcf;
+  if (!dcf) return;
+
+  const ws = wb.addWorksheet("DCF", { properties: { tabColor: { argb: "2E75B6" } } });
+  const nCols = Math.max(1, ...dcf.valuations.map((v) => v.periods.length));
+  const colW: Partial<ExcelJS.Column>[] = [{ width: 32 }];
+  for (let i = 0; i < nCols; i++) colW.push({ width: 14 });
+  ws.columns = colW;
+  const totalCols = nCols + 1;
+
+  let r = 1;
+
+  // Title
+  const titleRow = ws.getRow(r);
+  titleRow.getCell(1).value = "DCF Valuation";
+  titleRow.getCell(1).font = { ...HEADER_FONT, size: 13 };
+  titleRow.getCell(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: COLORS.headerBg } };
+  ws.mergeCells(r, 1, r, totalCols);
+  r++;
+  ws.getRow(r).getCell(1).value = "Unlevered FCF discounted at WACC (end of year); assumptions in Inputs";
+  ws.getRow(r).getCell(1).font = { ...VALUE_FONT, italic: true, color: { argb: "808080" } };
+  r += 2;
+
+  function addPeriodRow(label: string, n: number, cellFn: (cl: string, idx: number) => ExcelJS.CellValue, format: string, isTotal = false): number {
+    const row = ws.getRow(r);
+    row.getCell(1).value = label;
+    row.getCell(1).font = isTotal ? LABEL_FONT : VALUE_FONT;
+    row.getCell(1).border = THIN_BORDER;
+    for (let i = 0; i < n; i++) {
+      const cell = row.getCell(i + 2);
+      const value = cellFn(colLetter(i + 2), i);
+      cell.value = value;
+      cell.numFmt = format;
+      cell.alignment = { horizontal: "right" };
+      if (value != null && typeof value === "object" && "formula" in value) {
+        styleFormulaCell(cell);
+      } else {
+        cell.border = THIN_BORDER;
+        cell.font = VALUE_FONT;
+      }
+    }
+    if (isTotal) styleTotalRow(row, n + 1);
+    return r++;
+  }
+
+  function addSummaryRow(label: string, value: ExcelJS.CellValue, format: string, isTotal = false): number {
+    const row = ws.getRow(r);
+    row.getCell(1).value = label;
+    row.getCell(1).font = isTotal ? LABEL_FONT : VALUE_FONT;
+    row.getCell(1).border = THIN_BORDER;
+    const cell = row.getCell(2);
+    cell.value = value;
+    cell.numFmt = format;
+    cell.alignment = { horizontal: "right" };
+    if (value != null && typeof value === "object" && "formula" in value) {
+      styleFormulaCell(cell);
+    } else {
+      cell.border = THIN_BORDER;
+      cell.font = VALUE_FONT;
+    }
+    if (isTotal) styleTotalRow(row, 2);
+    return r++;
+  }
+
+  function addValuation(v: DcfValuation) {
+    const n = v.periods.length;
+    const section = ws.getRow(r);
+    section.getCell(1).value = `${v.name.toUpperCase()}${ENTITY_SUFFIX[v.entity]}`;
+    styleSectionRow(section, totalCols);
+    r++;
+
+    if (n === 0) {
+      ws.getRow(r).getCell(1).value = "No forecast periods";
+      ws.getRow(r).getCell(1).font = { ...VALUE_FONT, italic: true };
+      r += 2;
+      return;
+    }
+
+    const headerRow = ws.getRow(r);
+    headerRow.getCell(1).value = "NOKm";
+    v.periods.forEach((p, i) => { headerRow.getCell(i + 2).value = p.period_label; });
+    styleHeader(headerRow, n + 1);
+    r++;
+
+    const ebitdaRow = addPeriodRow("EBITDA", n, (_cl, i) => v.periods[i].ebitda, NUM_FORMAT);
+    addPeriodRow("  Tax (EBT proxy)", n, (_cl, i) => v.periods[i].tax, NUM_FORMAT);
+    addPeriodRow("  Capex", n, (_cl, i) => v.periods[i].capex, NUM_FORMAT);
+    addPeriodRow("  Change in NWC", n, (_cl, i) => v.periods[i].change_nwc, NUM_FORMAT);
+    if (v.periods.some((p) => p.integration_costs !== 0)) {
+      addPeriodRow("  Integration Costs", n, (_cl, i) => v.periods[i].integration_costs, NUM_FORMAT);
+    }
+    const addOnRow = v.periods.some((p) => p.add_on_spend !== 0)
+      ? addPeriodRow("  Add-on Acquisitions", n, (_cl, i) => v.periods[i].add_on_spend, NUM_FORMAT)
+      : 0;
+    const ufcfRow = addPeriodRow(
+      v.periods.some((p) => p.from_nibd) ? "Unlevered FCF (NIBD-derived where available)" : "Unlevered FCF",
+      n, (_cl, i) => v.periods[i].unlevered_fcf, NUM_FORMAT, true,
+    );
+    const tRow = addPeriodRow("Discount Period", n, (_cl, i) => i + 1, "0");
+    const dfRow = addPeriodRow("Discount Factor", n, (cl) => ({ formula: `1/(1+dcf_wacc)^${cl}${tRow}` }), "0.0000");
+    const pvRow = addPeriodRow("PV of FCF", n, (cl) => ({ formula: `${cl}${ufcfRow}*${cl}${dfRow}` }), NUM_FORMAT);
+    r++;
+
+    const first = colLetter(2);
+    const last = colLetter(n + 1);
+    // Gordon growth on recurring FCF (an add-on price in the last year is one-off)
+    const lastFcf = addOnRow ? `(${last}${ufcfRow}-${last}${addOnRow})` : `${last}${ufcfRow}`;
+
+    const sumPvRow = addSummaryRow("Sum of PV (FCF)", { formula: `SUM(${first}${pvRow}:${last}${pvRow})` }, NUM_FORMAT);
+    const tvRow = addSummaryRow("Terminal Value", {
+      formula: `IF(dcf_gordon=1,IF(dcf_wacc>dcf_terminal_growth,${lastFcf}*(1+dcf_terminal_growth)/(dcf_wacc-dcf_terminal_growth),NA()),${last}${ebitdaRow}*dcf_terminal_multiple)`,
+    }, NUM_FORMAT);
+    const pvTvRow = addSummaryRow("PV of Terminal Value", { formula: `B${tvRow}*${last}${dfRow}` }, NUM_FORMAT);
+    const evRow = addSummaryRow("Enterprise Value (DCF)", { formula: `B${sumPvRow}+B${pvTvRow}` }, NUM_FORMAT, true);
+    addSummaryRow("Terminal Value % of EV", { formula: `IF(B${evRow}<>0,B${pvTvRow}/B${evRow},0)` }, PCT_FORMAT);
+    const ndRow = addSummaryRow("Less: Net Debt", v.net_debt, NUM_FORMAT);
+    const peRow = addSummaryRow("Less: Preferred Equity", v.preferred_equity, NUM_FORMAT);
+    const eqRow = addSummaryRow("Equity Value (DCF)", { formula: `B${evRow}-B${ndRow}-B${peRow}` }, NUM_FORMAT, true);
+    if (v.shares) {
+      const sharesRow = addSummaryRow("Shares (m)", v.shares, NUM_FORMAT_1);
+      const vpsRow = addSummaryRow("Value per Share (NOK)", { formula: `B${eqRow}/B${sharesRow}` }, NUM_FORMAT_2, true);
+      if (v.entry_per_share) {
+        const ppsRow = addSummaryRow("Entry Price per Share (NOK)", v.entry_per_share, NUM_FORMAT_2);
+        addSummaryRow("Premium / (Discount) per Share", { formula: `B${vpsRow}/B${ppsRow}-1` }, PCT_FORMAT);
+      }
+    }
+    if (v.entry_ev) {
+      const entryRow = addSummaryRow(v.entity === "target" ? "Entry Price (EV paid)" : "Entry EV", v.entry_ev, NUM_FORMAT);
+      addSummaryRow("Premium / (Discount) to Entry EV", { formula: `B${evRow}/B${entryRow}-1` }, PCT_FORMAT);
+    }
+    r += 2;
+  }
+
+  for (const v of dcf.valuations) addValuation(v);
+}
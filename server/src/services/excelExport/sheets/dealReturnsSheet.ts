@@ -3,7 +3,7 @@ import type { CaseReturn } from "../../dealReturns.js";
 import type { ExportData, EquityBridgeRowMap, DebtScheduleRowMap, DealReturnsRowMap } from "../types.js";
 import {
   COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
-  NUM_FORMAT, NUM_FORMAT_1, NUM_FORMAT_2, PCT_FORMAT,
+  NUM_FORMAT, NUM_FORMAT_1, NUM_FORMAT_2, PCT_FORMAT, DATE_FORMAT,
   styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
 } from "../styles.js";
 import { colLetter } from "../helpers.js";
@@ -25,6 +25,11 @@ import { colLetter } from "../helpers.js";
   * IRR is computed with Excel's IRR() function on this cash flow range.
   * MoM = sum(positive CFs) / abs(negative CFs)
   *
+  * With entry/exit dates the schedule gets a Date row and IRR uses XIRR():
+  * stub years are already pro rata in the Debt Schedule, periods after exit
+  * are zero, and Exit EBITDA is the LTM at exit (exit year blended with the
+  * year before).
+  *
   * Per-share: Entry PPS from Inputs, Exit PPS from Equity Bridge.
  */
 export function buildDealReturnsSheet(
@@ -40,6 +45,7 @@ export function buildDealReturnsSheet(
   const standaloneResults = cases.filter(c => c.return_case === "Standalone");
   const combinedResults = cases.filter(c => c.return_case === "Kombinert");
   const multiples = data.dealParams.exit_multiples ?? [10, 11, 12, 13, 14];
+  const timeline = data.calculatedReturns.timeline;
 
   const nMults = multiples.length;
   // Columns: A=label, B..=multiples, then gap, then cash flow schedule columns
@@ -247,7 +253,7 @@ export function buildDealReturnsSheet(
     styleSectionRow(summarySection, 3);
     r++;
 
-    function addSummaryRow(label: string, formulaOrVal: string | number, fmt: string, isFormula = false) {
+    function addSummaryRow(label: string, formulaOrVal: string | number | Date, fmt: string, isFormula = false) {
       const row = ws.getRow(r);
       row.getCell(1).value = label;
       row.getCell(1).font = VALUE_FONT;
@@ -269,6 +275,11 @@ export function buildDealReturnsSheet(
     addSummaryRow("Combined Entry EV", "acquirer_entry_ev+price_paid", NUM_FORMAT, true);
     addSummaryRow("Equity Invested (OE + Rollover)", "ordinary_equity+rollover_equity", NUM_FORMAT, true);
     addSummaryRow("Entry PPS (FMV)", "fmv_per_share", NUM_FORMAT_2, true);
+    if (timeline) {
+      addSummaryRow("Entry Date", excelDate(timeline.entry_date), DATE_FORMAT);
+      addSummaryRow("Exit Date", excelDate(timeline.exit_date), DATE_FORMAT);
+      addSummaryRow("Holding Period (years)", timeline.holding_years, NUM_FORMAT_2);
+    }
 
     // ── Cash Flow Schedule (for IRR/MoM computation) ──
     // One schedule per exit multiple, arranged horizontally
@@ -283,8 +294,13 @@ export function buildDealReturnsSheet(
     // For each exit multiple, we need: Year 0 CF, Year 1..N-1 CF, Year N CF (with exit)
     // Layout: one block per multiple, stacked vertically
 
-    const exitEbitdaCol = colLetter(nPeriods + 1); // last period column in DS/PF sheets
-    const exitFcfCol = colLetter(nPeriods + 1);
+    // Exit period (last period, or the one holding the exit date) and its LTM EBITDA
+    const exitIdx = timeline ? timeline.exit_index : nPeriods - 1;
+    const exitCol = colLetter(exitIdx + 2); // exit period column in DS/EB sheets
+    const exitEbitda = timeline && timeline.exit_ltm_weight < 1 && exitIdx > 0
+      ? `(${timeline.exit_ltm_weight}*${dsSheet}!${exitCol}${dsRowMap.ebitda}` +
+        `+${1 - timeline.exit_ltm_weight}*${dsSheet}!${colLetter(exitIdx + 1)}${dsRowMap.ebitda})`
+      : `${dsSheet}!${exitCol}${dsRowMap.ebitda}`;
 
     for (let m = 0; m < nMults; m++) {
       const mult = multiples[m];
@@ -308,6 +324,22 @@ export function buildDealReturnsSheet(
       }
       r++;
 
+      // Cash flow dates (XIRR) — entry, then each period's cash flow date
+      const dateRow = r;
+      if (timeline) {
+        const dRow = ws.getRow(r);
+        dRow.getCell(1).value = "Date";
+        dRow.getCell(1).font = VALUE_FONT;
+        for (let y = 0; y <= nPeriods; y++) {
+          const cell = dRow.getCell(y + 2);
+          cell.value = excelDate(y === 0 ? timeline.entry_date : timeline.periods[y - 1]?.cash_flow_date ?? timeline.exit_date);
+          cell.numFmt = DATE_FORMAT;
+          cell.font = VALUE_FONT;
+          cell.alignment = { horizontal: "center" };
+        }
+        r++;
+      }
+
       // Cash flow row
       const cfRow = r;
       const cfRowObj = ws.getRow(r);
@@ -319,7 +351,10 @@ export function buildDealReturnsSheet(
         if (y === 0) {
           // Year 0: negative equity invested
           cell.value = { formula: "-(ordinary_equity+rollover_equity)" };
-        } else if (y < nPeriods) {
+        } else if (y - 1 > exitIdx) {
+          // After the exit date: nothing held
+          cell.value = 0;
+        } else if (y - 1 < exitIdx) {
           // Intermediate years: FCF to Equity from Debt Schedule
           const periodCol = colLetter(y + 1); // period columns start at B in DS
           cell.value = { formula: `${dsSheet}!${periodCol}${dsRowMap.fcfToEquity}` };
@@ -330,7 +365,7 @@ export function buildDealReturnsSheet(
           const periodCol = colLetter(y + 1);
           cell.value = { formula:
             `${dsSheet}!${periodCol}${dsRowMap.fcfToEquity}` +
-            `+(${dsSheet}!${periodCol}${dsRowMap.ebitda}*${multNamedRange}` +
+            `+(${exitEbitda}*${multNamedRange}` +
             `-${dsSheet}!${periodCol}${dsRowMap.closingDebt}` +
             `-${dsSheet}!${periodCol}${dsRowMap.closingPref}` +
             `-${ebSheet}!${periodCol}${ebRowMap.optionDebt})`
@@ -351,7 +386,9 @@ export function buildDealReturnsSheet(
       const cfStartCol = colLetter(2); // B
       const cfEndCol = colLetter(nPeriods + 2); // last CF column
       const irrCell = irrRowObj.getCell(2);
-      irrCell.value = { formula: `IFERROR(IRR(${cfStartCol}${cfRow}:${cfEndCol}${cfRow}),"-")` };
+      irrCell.value = timeline
+        ? { formula: `IFERROR(XIRR(${cfStartCol}${cfRow}:${cfEndCol}${cfRow},${cfStartCol}${dateRow}:${cfEndCol}${dateRow}),"-")` }
+        : { formula: `IFERROR(IRR(${cfStartCol}${cfRow}:${cfEndCol}${cfRow}),"-")` };
       irrCell.numFmt = PCT_FORMAT;
       styleFormulaCell(irrCell);
       r++;
@@ -398,7 +435,6 @@ export function buildDealReturnsSheet(
       if (hasPerShare && perShareIrrRow > 0 && perShareMomRow > 0) {
         // Build per-exit-multiple dilution waterfall helper rows
         // These compute exit PPS at each multiple, then derive IRR/MoM
-        const exitCol = colLetter(nPeriods + 1); // last period col in DS/EB sheets
 
         // Helper function: add a labeled formula row in the CF schedule area
         const addHelperRow = (label: string, formula: string, fmt: string): number => {
@@ -416,7 +452,7 @@ export function buildDealReturnsSheet(
         // Exit EV at this multiple
         const exitEvRow = addHelperRow(
           `Exit EV @${mult}x`,
-          `${dsSheet}!${exitCol}${dsRowMap.ebitda}*${multNamedRange}`,
+          `${exitEbitda}*${multNamedRange}`,
           NUM_FORMAT,
         );
         // EQV gross = Exit EV - Closing Debt
@@ -473,10 +509,11 @@ export function buildDealReturnsSheet(
           `IF(fmv_per_share>0,B${exitPpsRow}/fmv_per_share,0)`,
           NUM_FORMAT_1 + "x",
         );
-        // Per-Share IRR = (Exit PPS / Entry PPS)^(1/N) - 1
+        // Per-Share IRR = (Exit PPS / Entry PPS)^(1/years held) - 1
+        const yearsHeld = timeline ? timeline.holding_years : nPeriods;
         const psIrrFormulaRow = addHelperRow(
           "Per-Share IRR",
-          `IF(AND(fmv_per_share>0,B${exitPpsRow}>0),(B${exitPpsRow}/fmv_per_share)^(1/${nPeriods})-1,0)`,
+          `IF(AND(fmv_per_share>0,B${exitPpsRow}>0),(B${exitPpsRow}/fmv_per_share)^(1/${yearsHeld})-1,0)`,
           PCT_FORMAT,
         );
 
@@ -529,7 +566,7 @@ export function buildDealReturnsSheet(
     r++;
 
     const dp = data.dealParams;
-    function addSummaryRow(label: string, value: number | null, fmt: string) {
+    function addSummaryRow(label: string, value: number | Date | null, fmt: string) {
       const row = ws.getRow(r);
       row.getCell(1).value = label;
       row.getCell(1).font = VALUE_FONT;
@@ -545,7 +582,18 @@ export function buildDealReturnsSheet(
     addSummaryRow("Combined Entry EV", (dp.acquirer_entry_ev ?? 0) + (dp.price_paid ?? 0), NUM_FORMAT);
     addSummaryRow("Equity Invested (OE + Rollover)", (dp.ordinary_equity ?? 0) + (dp.rollover_equity ?? 0), NUM_FORMAT);
     addSummaryRow("Entry PPS (FMV)", dp.entry_price_per_share ?? 0, NUM_FORMAT_2);
+    if (timeline) {
+      addSummaryRow("Entry Date", excelDate(timeline.entry_date), DATE_FORMAT);
+      addSummaryRow("Exit Date", excelDate(timeline.exit_date), DATE_FORMAT);
+      addSummaryRow("Holding Period (years)", timeline.holding_years, NUM_FORMAT_2);
+    }
 
     return null; // No formula-driven row map in static fallback
   }
 }
+
+/** YYYY-MM-DD as a UTC Date, so Excel stores the calendar date without a time zone shift. */
+function excelDate(key: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
@@ -2,10 +2,11 @@ import type ExcelJS from "exceljs";
 import type { ExportData, ProFormaRowMap, DebtScheduleRowMap } from "../types.js";
 import {
   COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
-  NUM_FORMAT, MULT_FORMAT,
+  NUM_FORMAT, MULT_FORMAT, PCT_FORMAT,
   styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
 } from "../styles.js";
 import { colLetter } from "../helpers.js";
+import { resolveDebtTranches, hasBaseRateCurve } from "../../dealReturns.js";
 
 /**
  * Debt Schedule sheet — formula-driven.
@@ -15,6 +16,17 @@ import { colLetter } from "../helpers.js";
  * PIK = Opening PE × preferred_equity_rate (from Inputs).
  * Opening balances in year 1 come from Inputs named ranges (net_debt, preferred_equity).
  * Subsequent years chain from prior year's closing balance.
+ *
+ * With a base-rate curve, interest = Opening × (hedged base rate + margin), where the
+ * hedged base rate row blends swap_rate and the shifted curve by hedge_ratio.
+ *
+ * With debt tranches, each tranche gets its own block (debt_tranche_N_* inputs)
+ * and the cash sweep is allocated in seniority order; the debt rows above the
+ * preferred equity section become sums across tranches.
+ *
+ * With entry/exit dates, a Year Fraction row holds the share of each year held
+ * (0 outside the holding period); unlevered FCF, interest, amortisation and PIK
+ * are multiplied by it so stub years match the returns engine.
  */
 export function buildDebtScheduleSheet(
   wb: ExcelJS.Workbook,
@@ -101,8 +113,9 @@ export function buildDebtScheduleSheet(
   }
 
   // ── Senior Debt ──
+  const tranches = data.dealParams.debt_tranches?.length ? resolveDebtTranches(data.dealParams) : [];
   const seniorSection = ws.getRow(r);
-  seniorSection.getCell(1).value = "SENIOR DEBT";
+  seniorSection.getCell(1).value = tranches.length > 0 ? "DEBT TRANCHES" : "SENIOR DEBT";
   styleSectionRow(seniorSection, totalCols);
   r++;
 
@@ -110,47 +123,133 @@ export function buildDebtScheduleSheet(
   const ebitdaRow = addFormulaRow("EBITDA (Pro Forma)", (cl) =>
     `${pfSheet}!${cl}${pfRowMap.ebitdaIncl}`, NUM_FORMAT);
 
-  // Unlevered FCF from Pro Forma P&L (formula)
+  // Share of each year held (stub periods from entry/exit dates)
+  const timeline = data.calculatedReturns.timeline;
+  const fractionRow = timeline
+    ? addDataRow("Year Fraction (held)", timeline.periods.map((p) => p.year_fraction), PCT_FORMAT)
+    : 0;
+  /** Multiplier suffix for flows in stub years ("" without dates). */
+  const held = (cl: string) => fractionRow ? `*${cl}${fractionRow}` : "";
+
+  // Unlevered FCF from Pro Forma P&L (formula), pro rata in stub years
   const ufcfRow = addFormulaRow("Unlevered FCF", (cl) =>
-    `${pfSheet}!${cl}${pfRowMap.operatingFcf}`, NUM_FORMAT);
+    `${pfSheet}!${cl}${pfRowMap.operatingFcf}${held(cl)}`, NUM_FORMAT);
+
+  // Hedged base rate = hedge × swap + (1 − hedge) × (curve + shift)
+  const floating = hasBaseRateCurve(data.dealParams);
+  const baseRateRow = floating
+    ? addFormulaRow("Base Rate (hedged)", (_cl, idx) =>
+      `hedge_ratio*swap_rate+(1-hedge_ratio)*(base_rate_${idx + 1}+base_rate_shift)`, PCT_FORMAT)
+    : 0;
   r++;
 
-  // Opening Debt: Year 1 = net_debt from Inputs; subsequent = prior closing
-  const openDebtRow = addFormulaRow("Opening Debt", (cl, idx) => {
-    if (idx === 0) return "net_debt";
-    const prevCl = colLetter(idx + 1); // previous column
-    return `${prevCl}${0}`; // placeholder, will be replaced below
-  }, NUM_FORMAT);
-  // Fix subsequent year formulas to reference closing debt (we need the row number first)
-  // We'll do this after we know the closing debt row — use a deferred fix
+  // Opening balance formulas for years 2+ reference the prior column's closing row
+  function chainOpening(openRow: number, closeRow: number) {
+    for (let i = 1; i < nPeriods; i++) {
+      const cl = colLetter(i + 1); // previous column letter
+      const cell = ws.getRow(openRow).getCell(i + 2);
+      cell.value = { formula: `${cl}${closeRow}` };
+      cell.numFmt = NUM_FORMAT;
+      styleFormulaCell(cell);
+    }
+  }
 
-  // Interest = Opening Debt × interest_rate (formula)
-  const interestRow = addFormulaRow("  Interest", (cl) =>
-    `${cl}${openDebtRow}*interest_rate`, NUM_FORMAT);
+  let openDebtRow: number;
+  let interestRow: number;
+  let amortRow: number;
+  let sweepRow: number;
+  let tdsRow: number;
+  let closeDebtRow: number;
 
-  // Mandatory Amort — from schedule if available, else use debt_amortisation input
-  const amortRow = addFormulaRow("  Mandatory Amort.", (cl) =>
-    `MIN(debt_amortisation,${cl}${openDebtRow})`, NUM_FORMAT);
+  if (tranches.length === 0) {
+    // Opening Debt: Year 1 = net_debt from Inputs; subsequent = prior closing
+    openDebtRow = addFormulaRow("Opening Debt", (_cl, idx) => idx === 0 ? "net_debt" : "0", NUM_FORMAT);
 
-  // Cash Sweep — % of FCF after debt service applied to repayment
-  const sweepRow = addFormulaRow("  Cash Sweep", (cl) =>
-    `MAX(0,MIN(cash_sweep_pct*(${cl}${ufcfRow}-${cl}${interestRow}-${cl}${amortRow}),${cl}${openDebtRow}-${cl}${amortRow}))`, NUM_FORMAT);
+    // Interest = Opening Debt × interest_rate (formula)
+    interestRow = addFormulaRow("  Interest", (cl) =>
+      floating
+        ? `${cl}${openDebtRow}*(${cl}${baseRateRow}+interest_margin)${held(cl)}`
+        : `${cl}${openDebtRow}*interest_rate${held(cl)}`, NUM_FORMAT);
 
-  // Total debt service = interest + amort + sweep
-  const tdsRow = addFormulaRow("Total Debt Service", (cl) =>
-    `${cl}${interestRow}+${cl}${amortRow}+${cl}${sweepRow}`, NUM_FORMAT, true);
+    // Mandatory Amort — from schedule if available, else use debt_amortisation input
+    amortRow = addFormulaRow("  Mandatory Amort.", (cl) =>
+      `MIN(debt_amortisation${held(cl)},${cl}${openDebtRow})`, NUM_FORMAT);
 
-  // Closing debt = opening - amort - sweep
-  const closeDebtRow = addFormulaRow("Closing Debt", (cl) =>
-    `${cl}${openDebtRow}-${cl}${amortRow}-${cl}${sweepRow}`, NUM_FORMAT);
+    // Cash Sweep — % of FCF after debt service applied to repayment
+    sweepRow = addFormulaRow("  Cash Sweep", (cl) =>
+      `MAX(0,MIN(cash_sweep_pct*(${cl}${ufcfRow}-${cl}${interestRow}-${cl}${amortRow}),${cl}${openDebtRow}-${cl}${amortRow}))`, NUM_FORMAT);
 
-  // Now fix the Opening Debt formulas for years 2+ to reference Closing Debt
-  for (let i = 1; i < nPeriods; i++) {
-    const cl = colLetter(i + 1); // previous column letter
-    const cell = ws.getRow(openDebtRow).getCell(i + 2);
-    cell.value = { formula: `${cl}${closeDebtRow}` };
-    cell.numFmt = NUM_FORMAT;
-    styleFormulaCell(cell);
+    // Total debt service = interest + amort + sweep
+    tdsRow = addFormulaRow("Total Debt Service", (cl) =>
+      `${cl}${interestRow}+${cl}${amortRow}+${cl}${sweepRow}`, NUM_FORMAT, true);
+
+    // Closing debt = opening - amort - sweep
+    closeDebtRow = addFormulaRow("Closing Debt", (cl) =>
+      `${cl}${openDebtRow}-${cl}${amortRow}-${cl}${sweepRow}`, NUM_FORMAT);
+
+    chainOpening(openDebtRow, closeDebtRow);
+  } else {
+    // ── One block per tranche, in seniority order ──
+    const blocks: { open: number; interest: number; pik: number; amort: number; sweep: number; close: number }[] = [];
+    tranches.forEach((t, k) => {
+      const n = k + 1;
+      const nameRow = ws.getRow(r);
+      nameRow.getCell(1).value = t.name;
+      nameRow.getCell(1).font = LABEL_FONT;
+      r++;
+
+      const open = addFormulaRow("  Opening", (_cl, idx) => idx === 0 ? `debt_tranche_${n}_amount` : "0", NUM_FORMAT);
+      // Floating tranches pay base + margin, fixed tranches their own rate
+      const rateOf = (cl: string) =>
+        floating && t.margin != null ? `(${cl}${baseRateRow}+debt_tranche_${n}_margin)` : `debt_tranche_${n}_rate`;
+      const interest = addFormulaRow("  Cash Interest", (cl) =>
+        `IF(debt_tranche_${n}_pik=1,0,${cl}${open}*${rateOf(cl)}${held(cl)})`, NUM_FORMAT);
+      const pik = addFormulaRow("  PIK Interest", (cl) =>
+        `IF(debt_tranche_${n}_pik=1,${cl}${open}*${rateOf(cl)}${held(cl)},0)`, NUM_FORMAT);
+      const amort = addFormulaRow("  Mandatory Amort.", (cl) =>
+        `MIN(debt_tranche_${n}_amort${held(cl)},${cl}${open}+${cl}${pik})`, NUM_FORMAT);
+      // Sweep formula is filled in once the sweep-available row exists
+      const sweep = addFormulaRow("  Cash Sweep", () => "0", NUM_FORMAT);
+      const close = addFormulaRow("  Closing", (cl) =>
+        `${cl}${open}+${cl}${pik}-${cl}${amort}-${cl}${sweep}`, NUM_FORMAT, true);
+      chainOpening(open, close);
+      blocks.push({ open, interest, pik, amort, sweep, close });
+      r++;
+    });
+
+    const sumOf = (key: keyof (typeof blocks)[number]) => (cl: string) =>
+      blocks.map((b) => `${cl}${b[key]}`).join("+");
+
+    openDebtRow = addFormulaRow("Opening Debt", sumOf("open"), NUM_FORMAT);
+    interestRow = addFormulaRow("  Interest", sumOf("interest"), NUM_FORMAT);
+    amortRow = addFormulaRow("  Mandatory Amort.", sumOf("amort"), NUM_FORMAT);
+
+    // Sweep available = cash_sweep_pct × (UFCF − cash interest − mandatory amort)
+    const sweepAvailRow = addFormulaRow("  Sweep Available", (cl) =>
+      `MAX(0,cash_sweep_pct*(${cl}${ufcfRow}-${cl}${interestRow}-${cl}${amortRow}))`, NUM_FORMAT);
+
+    // Waterfall: each eligible tranche takes what is left after more senior tranches
+    blocks.forEach((b, k) => {
+      const n = k + 1;
+      for (let i = 0; i < nPeriods; i++) {
+        const cl = colLetter(i + 2);
+        const prior = blocks.slice(0, k).map((p) => `-${cl}${p.sweep}`).join("");
+        const cell = ws.getRow(b.sweep).getCell(i + 2);
+        cell.value = {
+          formula: `IF(debt_tranche_${n}_sweep=1,MAX(0,MIN(${cl}${sweepAvailRow}${prior},${cl}${b.open}+${cl}${b.pik}-${cl}${b.amort})),0)`,
+        };
+        cell.numFmt = NUM_FORMAT;
+        styleFormulaCell(cell);
+      }
+    });
+
+    sweepRow = addFormulaRow("  Cash Sweep", sumOf("sweep"), NUM_FORMAT);
+
+    // Total debt service = cash interest + amort + sweep (PIK interest is non-cash)
+    tdsRow = addFormulaRow("Total Debt Service", (cl) =>
+      `${cl}${interestRow}+${cl}${amortRow}+${cl}${sweepRow}`, NUM_FORMAT, true);
+
+    closeDebtRow = addFormulaRow("Closing Debt", sumOf("close"), NUM_FORMAT);
   }
 
   // Leverage = closing debt / EBITDA
@@ -173,7 +272,7 @@ export function buildDebtScheduleSheet(
 
   // PIK = opening × rate (formula)
   const pikRow = addFormulaRow("  PIK Accrual", (cl) =>
-    `${cl}${openPrefRow}*preferred_equity_rate`, NUM_FORMAT);
+    `${cl}${openPrefRow}*preferred_equity_rate${held(cl)}`, NUM_FORMAT);
 
   // Closing pref = opening + PIK
   const closePrefRow = addFormulaRow("Closing Preferred Equity", (cl) =>
@@ -1,5 +1,6 @@
 import type ExcelJS from "exceljs";
 import type { ExportData } from "../types.js";
+import { resolveDebtTranches, hasBaseRateCurve, resolveBaseRate } from "../../dealReturns.js";
 import {
   COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
   NUM_FORMAT, NUM_FORMAT_1, NUM_FORMAT_2, PCT_FORMAT,
@@ -72,17 +73,56 @@ export function buildInputsSheet(wb: ExcelJS.Workbook, data: ExportData) {
   r++;
 
   // ── Capital Structure ──
+  // With debt tranches, ND is the sum of the tranche amounts (debt_tranche_N_amount below)
+  const tranches = data.dealParams.debt_tranches?.length ? resolveDebtTranches(data.dealParams) : [];
+  const trancheTotal = tranches.length > 0
+    ? { formula: tranches.map((_, i) => `debt_tranche_${i + 1}_amount`).join("+") }
+    : data.netDebt;
   addSection("Capital Structure (Level 2)");
   addInput("Ordinary Equity (OE)", data.ordinaryEquity, NUM_FORMAT, "NOKm", "ordinary_equity");
   addInput("Preferred Equity (PE)", data.preferredEquity, NUM_FORMAT, "NOKm", "preferred_equity");
   addInput("PIK Rate (PE)", data.preferredEquityRate, PCT_FORMAT, "", "preferred_equity_rate", "9.5% PIK, compounding");
-  addInput("Net Debt (ND)", data.netDebt, NUM_FORMAT, "NOKm", "net_debt");
+  addInput("Net Debt (ND)", trancheTotal, NUM_FORMAT, "NOKm", "net_debt", tranches.length > 0 ? "Sum of debt tranches" : undefined);
   addInput("Interest Rate", data.dealParams.interest_rate ?? 0.05, PCT_FORMAT, "", "interest_rate");
   addInput("Debt Amortisation", data.dealParams.debt_amortisation ?? 0, NUM_FORMAT, "NOKm/yr", "debt_amortisation");
   addInput("Rollover Equity", data.dealParams.rollover_equity ?? 0, NUM_FORMAT, "NOKm", "rollover_equity");
   addInput("Cash Sweep %", data.dealParams.cash_sweep_pct ?? 0, PCT_FORMAT, "", "cash_sweep_pct", "% of excess FCF to debt");
   r++;
 
+  // ── Floating Rate (base-rate curve + margin, hedged at swap rate) ──
+  const floating = hasBaseRateCurve(data.dealParams);
+  if (floating) {
+    const dp = data.dealParams;
+    addSection("Floating Rate");
+    addInput("Interest Margin", dp.interest_margin ?? 0, PCT_FORMAT, "", "interest_margin", "Over base rate (replaces Interest Rate)");
+    addInput("Hedge Ratio", dp.swap_rate != null ? dp.hedge_ratio ?? 0 : 0, PCT_FORMAT, "", "hedge_ratio", "Share of debt swapped to fixed");
+    addInput("Swap Rate", dp.swap_rate ?? 0, PCT_FORMAT, "", "swap_rate");
+    addInput("Base Rate Shift", dp.base_rate_shift ?? 0, PCT_FORMAT, "", "base_rate_shift", "Parallel shift of the curve");
+    data.acquirerPeriods.forEach((p: any, i: number) => {
+      const label = p.period_label || new Date(p.period_date).getFullYear().toString();
+      const value = resolveBaseRate(dp.base_rate_curve ?? {}, parseInt(label) || null, i);
+      addInput(`Base Rate ${label}`, value, PCT_FORMAT, "", `base_rate_${i + 1}`);
+    });
+    r++;
+  }
+
+  // ── Debt Tranches (seniority order) ──
+  if (tranches.length > 0) {
+    addSection("Debt Tranches (seniority order)");
+    tranches.forEach((t, i) => {
+      const n = i + 1;
+      addInput(`${t.name} — Amount`, t.amount, NUM_FORMAT, "NOKm", `debt_tranche_${n}_amount`);
+      addInput(`${t.name} — Interest Rate`, t.interest_rate, PCT_FORMAT, "", `debt_tranche_${n}_rate`);
+      if (t.margin != null && floating) {
+        addInput(`${t.name} — Margin`, t.margin, PCT_FORMAT, "", `debt_tranche_${n}_margin`, "Over base rate (replaces fixed rate)");
+      }
+      addInput(`${t.name} — Amortisation`, t.amortisation ?? 0, NUM_FORMAT, "NOKm/yr", `debt_tranche_${n}_amort`);
+      addInput(`${t.name} — Sweep Eligible`, t.sweep_eligible === false ? 0 : 1, "0", "1/0", `debt_tranche_${n}_sweep`);
+      addInput(`${t.name} — PIK`, t.pik ? 1 : 0, "0", "1/0", `debt_tranche_${n}_pik`, "1 = interest accrues to balance");
+    });
+    r++;
+  }
+
   // ── Computed Capital Structure ──
   addSection("Computed");
   const evRow = r;
@@ -154,6 +194,17 @@ export function buildInputsSheet(wb: ExcelJS.Workbook, data: ExportData) {
   addInput("Number of Multiples", multiples.length, "0", "", "exit_mult_count");
   r += 2;
 
+  // ── DCF (only with a DCF valuation; drives the DCF sheet) ──
+  if (data.dcf) {
+    const a = data.dcf.assumptions;
+    addSection("DCF Valuation");
+    addInput("WACC", a.wacc, PCT_FORMAT, "", "dcf_wacc");
+    addInput("Terminal Method", a.terminal_method === "gordon" ? 1 : 0, "0", "1/0", "dcf_gordon", "1 = Gordon growth, 0 = exit multiple");
+    addInput("Terminal Growth", a.terminal_growth, PCT_FORMAT, "", "dcf_terminal_growth", "Gordon growth");
+    addInput("Terminal Multiple", a.terminal_multiple, NUM_FORMAT_1, "x", "dcf_terminal_multiple", "EV / EBITDA in the last period");
+    r += 2;
+  }
+
   // ── Synergies ──
   addSection("Cost Synergies by Year");
   const synYears = Object.keys(data.synergiesTimeline).sort();
@@ -162,6 +213,41 @@ export function buildInputsSheet(wb: ExcelJS.Workbook, data: ExportData) {
   }
   r += 2;
 
+  // ── Synergy items (the yearly cost synergies above are phased from these) ──
+  const items = data.synergyPlan?.items ?? [];
+  if (items.length > 0) {
+    addSection("Synergy Items (run-rate)");
+    items.forEach((item, i) => {
+      const phasing = item.template === "custom"
+        ? (item.custom_phasing ?? []).map((v) => `${Math.round(v * 100)}%`).join("/")
+        : item.template.replace(/_/g, " ");
+      const probability = Math.round((item.probability ?? 1) * 100);
+      addInput(
+        `${item.name} (${item.category})`, item.run_rate, NUM_FORMAT, "NOKm", `synergy_item_${i + 1}`,
+        `From ${item.start_year}, ${phasing}, probability ${probability}%`,
+      );
+    });
+    r += 2;
+  }
+
+  // ── Revenue synergies, realisation, integration costs (planned, before realisation) ──
+  const plan = data.synergyPlan;
+  const planYears = (t?: Record<string, number>) => Object.keys(t ?? {}).filter((y) => Number(t![y]) !== 0).sort();
+  if (plan && (planYears(plan.revenue).length > 0 || planYears(plan.integration_costs).length > 0 || Object.keys(plan.realisation ?? {}).length > 0)) {
+    addSection("Revenue Synergies & Integration Costs");
+    addInput("Revenue Synergy EBITDA Margin", plan.revenue_margin ?? 0, PCT_FORMAT, "", "revenue_synergy_margin");
+    for (const y of planYears(plan.revenue)) {
+      addInput(`Revenue Synergies ${y}`, plan.revenue![y], NUM_FORMAT, "NOKm", `revenue_synergy_${y}`);
+    }
+    for (const y of Object.keys(plan.realisation ?? {}).sort()) {
+      addInput(`Synergy Realisation ${y}`, plan.realisation![y], PCT_FORMAT, "", `synergy_realisation_${y}`, "Applied to cost and revenue synergies");
+    }
+    for (const y of planYears(plan.integration_costs)) {
+      addInput(`Integration Costs ${y}`, Math.abs(plan.integration_costs![y]), NUM_FORMAT, "NOKm", `integration_cost_${y}`, "One-off, below EBITDA");
+    }
+    r += 2;
+  }
+
   // ── Sources & Uses ──
   addSection("Sources");
   for (let i = 0; i < data.sources.length; i++) {
@@ -222,4 +308,22 @@ export function buildInputsSheet(wb: ExcelJS.Workbook, data: ExportData) {
     wb.definedNames.add(`'Inputs'!$B$${r}`, "total_uses");
     r++;
   }
+  r++;
+
+  // ── Currency ──
+  // Periods are already converted; the rates are listed for reference only.
+  if (data.fx) {
+    addSection("Currency");
+    addInput("Reporting Currency", data.fx.reporting_currency, "@", "", "");
+    for (const conv of data.fx.conversions) {
+      const side = conv.side === "acquirer" ? data.acquirerName : data.targetName;
+      if (conv.missing_rate) {
+        addInput(`${side} (${conv.currency})`, null, NUM_FORMAT_2, "", "", "No FX rate set — not converted");
+        continue;
+      }
+      for (const [year, rate] of Object.entries(conv.rates)) {
+        addInput(`${side} ${year}`, rate, "0.0000", `${conv.currency} → ${data.fx.reporting_currency}`, "");
+      }
+    }
+  }
 }
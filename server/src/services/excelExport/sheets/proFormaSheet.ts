@@ -6,6 +6,7 @@ import {
   styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
 } from "../styles.js";
 import { colLetter } from "../helpers.js";
+import { getTargetAlignment } from "../../calendarise.js";
 
 export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, periodLabels: string[], nPeriods: number): ProFormaRowMap {
   const ws = wb.addWorksheet("Pro Forma P&L", { properties: { tabColor: { argb: "70AD47" } } });
@@ -26,7 +27,7 @@ export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, perio
 
   // Period headers
   const headerRow = ws.getRow(r);
-  headerRow.getCell(1).value = "NOKm";
+  headerRow.getCell(1).value = data.fx?.reporting_currency ?? "NOKm";
   for (let i = 0; i < nPeriods; i++) {
     headerRow.getCell(i + 2).value = periodLabels[i];
   }
@@ -88,6 +89,21 @@ export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, perio
   ws.mergeCells(r, 1, r, totalCols);
   r++;
 
+  // Warn when target figures were calendarised or are missing for some periods
+  const alignments = pf.map(getTargetAlignment);
+  const calendarised = pf.filter((_, i) => alignments[i]?.status === "calendarised").map((p: any) => p.period_label);
+  const missing = pf.filter((_, i) => alignments[i]?.status === "missing").map((p: any) => p.period_label);
+  if (calendarised.length > 0 || missing.length > 0) {
+    const warnRow = ws.getRow(r);
+    warnRow.getCell(1).value = [
+      calendarised.length > 0 && `${data.targetName} kalenderjustert (tidsvektet) for ${calendarised.join(", ")}.`,
+      missing.length > 0 && `Mangler ${data.targetName}-tall for ${missing.join(", ")}.`,
+    ].filter(Boolean).join(" ");
+    warnRow.getCell(1).font = { ...VALUE_FONT, size: 9, italic: true, color: { argb: "C65911" } };
+    ws.mergeCells(r, 1, r, totalCols);
+    r++;
+  }
+
   // ── Revenue Section ──
   addDataRow("REVENUE", [], "", true);
   const acqRevRow = addDataRow(`  ${data.acquirerName} Revenue`, pf.map((p: any) => p.acquirer_revenue), NUM_FORMAT);
@@ -116,12 +132,15 @@ export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, perio
   // EBITDA margin excl synergies
   addFormulaRow("  EBITDA Margin excl. Syn.", (cl) => `IF(${cl}${totalRevRow}>0,${cl}${ebitdaExclRow}/${cl}${totalRevRow},0)`, PCT_FORMAT);
 
-  // Cost synergies
+  // Cost synergies and revenue synergies (realised amounts)
   const synRow = addDataRow("Cost Synergies", pf.map((p: any) => p.cost_synergies ?? 0), NUM_FORMAT);
+  const revSynRow = addDataRow("Revenue Synergies", pf.map((p: any) => p.revenue_synergies ?? 0), NUM_FORMAT);
+  const revSynEbitdaRow = addDataRow("  EBITDA from Revenue Synergies", pf.map((p: any) => p.revenue_synergy_ebitda ?? 0), NUM_FORMAT);
 
-  // Total EBITDA incl synergies
-  const ebitdaInclRow = addFormulaRow("Total EBITDA incl. Synergies", (cl) => `${cl}${ebitdaExclRow}+${cl}${synRow}`, NUM_FORMAT, true);
-  addFormulaRow("  EBITDA Margin incl. Syn.", (cl) => `IF(${cl}${totalRevRow}>0,${cl}${ebitdaInclRow}/${cl}${totalRevRow},0)`, PCT_FORMAT);
+  // Total EBITDA incl synergies; margin on revenue incl. revenue synergies
+  const ebitdaInclRow = addFormulaRow("Total EBITDA incl. Synergies", (cl) => `${cl}${ebitdaExclRow}+${cl}${synRow}+${cl}${revSynEbitdaRow}`, NUM_FORMAT, true);
+  addFormulaRow("  EBITDA Margin incl. Syn.", (cl) =>
+    `IF(${cl}${totalRevRow}+${cl}${revSynRow}>0,${cl}${ebitdaInclRow}/(${cl}${totalRevRow}+${cl}${revSynRow}),0)`, PCT_FORMAT);
   r++;
 
   // ── Cash Flow Section ──
@@ -149,8 +168,12 @@ export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, perio
 
   const otherCfRow = addDataRow("  Andre kontantstrømsposter (importert)", pf.map((p: any) => p.total_other_cash_flow ?? 0), NUM_FORMAT);
 
-  // Operating FCF = EBITDA incl syn + capex + NWC + other
-  const ofcfRow = addFormulaRow("Operating FCF", (cl) => `${cl}${ebitdaInclRow}+${cl}${capexRow}+${cl}${nwcRow}+${cl}${otherCfRow}`, NUM_FORMAT, true);
+  // One-off integration costs (negative) — below EBITDA, so not in exit value
+  const integrationRow = addDataRow("  Integration Costs (one-off)", pf.map((p: any) => p.integration_costs ?? 0), NUM_FORMAT);
+
+  // Operating FCF = EBITDA incl syn + capex + NWC + other + integration costs
+  const ofcfRow = addFormulaRow("Operating FCF", (cl) =>
+    `${cl}${ebitdaInclRow}+${cl}${capexRow}+${cl}${nwcRow}+${cl}${otherCfRow}+${cl}${integrationRow}`, NUM_FORMAT, true);
 
   // Minority interest = -(Operating FCF × minority_pct) — formula-driven from Inputs
   const minRow = addFormulaRow("  Minority Interest", (cl) =>
@@ -173,6 +196,9 @@ export function buildProFormaSheet(wb: ExcelJS.Workbook, data: ExportData, perio
     changeNwc: nwcRow,
     otherCashFlow: otherCfRow,
     costSynergies: synRow,
+    revenueSynergies: revSynRow,
+    revenueSynergyEbitda: revSynEbitdaRow,
+    integrationCosts: integrationRow,
     acqEbitda: acqEbitdaRow,
     tgtEbitda: tgtEbitdaRow,
     minority: minRow,
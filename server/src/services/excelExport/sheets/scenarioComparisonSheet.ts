@@ -0,0 +1,134 @@
+import type ExcelJS from "exceljs";
+import type { ComparisonMetric, ScenarioComparison } from "../../scenarioComparison.js";
+import {
+  COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
+  NUM_FORMAT, PCT_FORMAT, MULT_FORMAT,
+  styleHeader, styleSectionRow, styleFormulaCell,
+} from "../styles.js";
+import { colLetter } from "../helpers.js";
+
+const MOM_FORMAT = "0.00x";
+
+const SECTIONS: { title: string; metrics: [ComparisonMetric, string, string][] }[] = [
+  {
+    title: "Entry",
+    metrics: [
+      ["price_paid", "Price Paid", NUM_FORMAT],
+      ["entry_multiple", "Entry EV / EBITDA", MULT_FORMAT],
+    ],
+  },
+  {
+    title: "Capital Structure",
+    metrics: [
+      ["net_debt", "Debt at Entry", NUM_FORMAT],
+      ["leverage", "Leverage (Debt / PF EBITDA)", MULT_FORMAT],
+      ["debt_share", "Debt Share of Funding", PCT_FORMAT],
+    ],
+  },
+  {
+    title: "Returns (Combined)",
+    metrics: [
+      ["combined_irr", "IRR", PCT_FORMAT],
+      ["combined_mom", "MoM", MOM_FORMAT],
+      ["per_share_irr", "Per-Share IRR", PCT_FORMAT],
+      ["per_share_mom", "Per-Share MoM", MOM_FORMAT],
+    ],
+  },
+  {
+    title: "Accretion & Dilution",
+    metrics: [
+      ["irr_accretion", "IRR Accretion vs Standalone", PCT_FORMAT],
+      ["mom_accretion", "MoM Accretion vs Standalone", MOM_FORMAT],
+      ["exit_dilution", "Dilution at Exit", PCT_FORMAT],
+    ],
+  },
+];
+
+const BEST_FILL = "C6EFCE";
+const WORST_FILL = "FFC7CE";
+
+/**
+ * Scenario Comparison sheet — the compared scenarios side by side at one
+ * exit multiple.
+ *
+ * Values are static (from the engine); the spread column is a formula. The
+ * best value per metric is shaded green and the worst red where the metric
+ * has a direction and the scenarios differ.
+ */
+export function buildScenarioComparisonSheet(wb: ExcelJS.Workbook, comparison: ScenarioComparison) {
+  const ws = wb.addWorksheet("Comparison", { properties: { tabColor: { argb: "2E75B6" } } });
+  const n = comparison.scenarios.length;
+  const nCols = n + 2;
+  const colW: Partial<ExcelJS.Column>[] = [{ width: 32 }];
+  for (let i = 1; i < nCols; i++) colW.push({ width: 18 });
+  ws.columns = colW;
+
+  let r = 1;
+
+  const titleRow = ws.getRow(r);
+  titleRow.getCell(1).value = "Scenario Comparison";
+  titleRow.getCell(1).font = { ...HEADER_FONT, size: 13 };
+  titleRow.getCell(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: COLORS.headerBg } };
+  ws.mergeCells(r, 1, r, nCols);
+  r++;
+  ws.getRow(r).getCell(1).value =
+    `All scenarios at ${comparison.exit_multiple.toFixed(1)}x exit · green = best, red = worst`;
+  ws.getRow(r).getCell(1).font = { ...VALUE_FONT, italic: true, color: { argb: "808080" } };
+  r += 2;
+
+  const header = ws.getRow(r);
+  ["Metric", ...comparison.scenarios.map((s) => s.name), "Spread"]
+    .forEach((l, i) => { header.getCell(i + 1).value = l; });
+  styleHeader(header, nCols);
+  r++;
+
+  const deal = ws.getRow(r);
+  deal.getCell(1).value = "Deal";
+  deal.getCell(1).font = VALUE_FONT;
+  deal.getCell(1).border = THIN_BORDER;
+  comparison.scenarios.forEach((s, i) => {
+    const cell = deal.getCell(i + 2);
+    cell.value = [s.acquirer_model_name, s.target_company_name].filter(Boolean).join(" + ");
+    cell.font = { ...VALUE_FONT, italic: true };
+    cell.alignment = { horizontal: "center", wrapText: true };
+    cell.border = THIN_BORDER;
+  });
+  r++;
+
+  const byMetric = new Map(comparison.metrics.map((m) => [m.metric, m]));
+
+  for (const section of SECTIONS) {
+    const sectionRow = ws.getRow(r);
+    sectionRow.getCell(1).value = section.title.toUpperCase();
+    styleSectionRow(sectionRow, nCols);
+    r++;
+
+    for (const [metric, label, format] of section.metrics) {
+      const summary = byMetric.get(metric);
+      const row = ws.getRow(r);
+      row.getCell(1).value = label;
+      row.getCell(1).font = summary?.differs ? LABEL_FONT : VALUE_FONT;
+      row.getCell(1).border = THIN_BORDER;
+
+      comparison.scenarios.forEach((s, i) => {
+        const cell = row.getCell(i + 2);
+        cell.value = s.metrics[metric] ?? "";
+        cell.numFmt = format;
+        cell.alignment = { horizontal: "right" };
+        cell.border = THIN_BORDER;
+        cell.font = VALUE_FONT;
+        const shade = summary?.best.includes(s.id) ? BEST_FILL : summary?.worst.includes(s.id) ? WORST_FILL : null;
+        if (shade) cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: shade } };
+      });
+
+      const range = `${colLetter(2)}${r}:${colLetter(n + 1)}${r}`;
+      const spread = row.getCell(n + 2);
+      spread.value = { formula: `IF(COUNT(${range})>1,MAX(${range})-MIN(${range}),"")` };
+      spread.numFmt = format;
+      spread.alignment = { horizontal: "right" };
+      styleFormulaCell(spread);
+      r++;
+    }
+    r++;
+  }
+}
@@ -0,0 +1,105 @@
+import type ExcelJS from "exceljs";
+import type { ExportData } from "../types.js";
+import type { VarianceLine, VarianceMetric } from "../../variance.js";
+import {
+  COLORS, HEADER_FONT, LABEL_FONT, VALUE_FONT, THIN_BORDER,
+  NUM_FORMAT, PCT_FORMAT,
+  styleHeader, styleSectionRow, styleTotalRow, styleFormulaCell,
+} from "../styles.js";
+import { colLetter } from "../helpers.js";
+
+const METRIC_LABELS: Record<VarianceMetric, string> = {
+  revenue: "Revenue",
+  ebitda: "EBITDA",
+  ebitda_margin: "EBITDA Margin",
+  fcf: "Free Cash Flow",
+  synergies: "Cost Synergies",
+};
+
+/**
+ * Variance sheet — actuals loaded after closing against the IC plan.
+ *
+ * Plan and actual values are static (from the engine); variances are
+ * formulas, so actuals can be corrected in the workbook. Periods without
+ * actuals show the plan only, and the total column covers the periods with
+ * actuals.
+ */
+export function buildVarianceSheet(wb: ExcelJS.Workbook, data: ExportData) {
+  const v = data.variance;
+  if (!v || v.periods.length === 0) return;
+
+  const ws = wb.addWorksheet("Variance", { properties: { tabColor: { argb: "2E75B6" } } });
+  const n = v.periods.length;
+  const nCols = n + 2;
+  const colW: Partial<ExcelJS.Column>[] = [{ width: 28 }];
+  for (let i = 1; i < nCols; i++) colW.push({ width: 14 });
+  ws.columns = colW;
+
+  let r = 1;
+
+  const titleRow = ws.getRow(r);
+  titleRow.getCell(1).value = "Actuals vs IC Plan";
+  titleRow.getCell(1).font = { ...HEADER_FONT, size: 13 };
+  titleRow.getCell(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: COLORS.headerBg } };
+  ws.mergeCells(r, 1, r, nCols);
+  r++;
+  const plan = v.ic_version ? `scenario version ${v.ic_version}` : "current scenario";
+  ws.getRow(r).getCell(1).value =
+    `Actuals: ${v.actuals_model_name ?? "none"} · Plan: target model and synergies of the ${plan} · ${v.reporting_currency}`;
+  ws.getRow(r).getCell(1).font = { ...VALUE_FONT, italic: true, color: { argb: "808080" } };
+  r += 2;
+
+  function setCell(row: ExcelJS.Row, col: number, value: ExcelJS.CellValue, format: string) {
+    const cell = row.getCell(col);
+    cell.value = value;
+    cell.numFmt = format;
+    cell.alignment = { horizontal: "right" };
+    if (value != null && typeof value === "object" && "formula" in value) {
+      styleFormulaCell(cell);
+    } else {
+      cell.border = THIN_BORDER;
+      cell.font = VALUE_FONT;
+    }
+  }
+
+  function addLabelRow(label: string, cells: [ExcelJS.CellValue, string][], isTotal = false): number {
+    const row = ws.getRow(r);
+    row.getCell(1).value = label;
+    row.getCell(1).font = isTotal ? LABEL_FONT : VALUE_FONT;
+    row.getCell(1).border = THIN_BORDER;
+    cells.forEach(([value, format], i) => setCell(row, i + 2, value, format));
+    if (isTotal) styleTotalRow(row, cells.length + 1);
+    return r++;
+  }
+
+  const header = ws.getRow(r);
+  [v.reporting_currency, ...v.periods.map((p) => `${p.period_label}${p.has_actuals ? "" : " (plan)"}`), "Total"]
+    .forEach((l, i) => { header.getCell(i + 1).value = l; });
+  styleHeader(header, nCols);
+  r++;
+
+  const lines = (metric: VarianceMetric): VarianceLine[] => [...v.periods.map((p) => p[metric]), v.totals[metric]];
+
+  for (const metric of ["revenue", "ebitda", "ebitda_margin", "fcf", "synergies"] as const) {
+    const isMargin = metric === "ebitda_margin";
+    const format = isMargin ? PCT_FORMAT : NUM_FORMAT;
+    const sectionRow = ws.getRow(r);
+    sectionRow.getCell(1).value = METRIC_LABELS[metric].toUpperCase();
+    styleSectionRow(sectionRow, nCols);
+    r++;
+
+    const planRow = addLabelRow("Plan (IC)", lines(metric).map((l): [ExcelJS.CellValue, string] => [l.plan ?? "", format]));
+    const actualRow = addLabelRow("Actual", lines(metric).map((l): [ExcelJS.CellValue, string] => [l.actual ?? "", format]));
+    addLabelRow(isMargin ? "Variance (pp)" : "Variance", lines(metric).map((_l, i): [ExcelJS.CellValue, string] => {
+      const cl = colLetter(i + 2);
+      return [{ formula: `IF(AND(ISNUMBER(${cl}${planRow}),ISNUMBER(${cl}${actualRow})),${cl}${actualRow}-${cl}${planRow},"")` }, format];
+    }), true);
+    if (!isMargin) {
+      addLabelRow("Variance %", lines(metric).map((_l, i): [ExcelJS.CellValue, string] => {
+        const cl = colLetter(i + 2);
+        return [{ formula: `IF(AND(ISNUMBER(${cl}${actualRow}),N(${cl}${planRow})<>0),(${cl}${actualRow}-${cl}${planRow})/ABS(${cl}${planRow}),"")` }, PCT_FORMAT];
+      }));
+    }
+    r++;
+  }
+}
@@ -45,6 +45,7 @@ export const NUM_FORMAT = "#,##0";
 export const NUM_FORMAT_1 = "#,##0.0";
 export const NUM_FORMAT_2 = "#,##0.00";
 export const MULT_FORMAT = "0.0x";
+export const DATE_FORMAT = "yyyy-mm-dd";
 
 // ── Style helper functions ─────────────────────────────────────────
 
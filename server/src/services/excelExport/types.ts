@@ -1,4 +1,10 @@
 import type { DealParameters, CalculatedReturns } from "../dealReturns.js";
+import type { ScenarioFx } from "../fx.js";
+import type { SynergyPlan } from "../synergies.js";
+import type { TornadoResult } from "../tornado.js";
+import type { DcfResult } from "../dcf.js";
+import type { ContributionResult } from "../contribution.js";
+import type { PostDealVariance } from "../variance.js";
 
 export interface ExportData {
   scenarioName: string;
@@ -30,6 +36,23 @@ export interface ExportData {
 
   // Synergies timeline
   synergiesTimeline: Record<string, number>;
+  // Revenue synergies, realisation and integration costs (absent = cost synergies only)
+  synergyPlan?: SynergyPlan;
+
+  // Reporting currency + FX rates applied to the periods above
+  fx?: ScenarioFx;
+
+  // One-at-a-time sensitivities (PPT only, when requested)
+  tornado?: TornadoResult;
+
+  // DCF valuation of acquirer, target and pro forma (Excel)
+  dcf?: DcfResult;
+
+  // Contribution vs ownership and exchange ratios (Excel)
+  contribution?: ContributionResult;
+
+  // Actuals after closing against the IC plan (Excel, when an actuals model is set)
+  variance?: PostDealVariance;
 }
 
 /**
@@ -47,6 +70,9 @@ export interface ProFormaRowMap {
   changeNwc: number;
   otherCashFlow: number;
   costSynergies: number;
+  revenueSynergies: number;
+  revenueSynergyEbitda: number;
+  integrationCosts: number;
   acqEbitda: number;
   tgtEbitda: number;
   minority: number;
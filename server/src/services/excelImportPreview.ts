@@ -0,0 +1,231 @@
+/**
+ * Excel import preview — dry-run diff and user selection for the Excel importer.
+ *
+ * A dry run parses the workbook and compares every parsed value against the
+ * company's existing models/periods without writing anything. The commit
+ * call can then carry a selection (models and fields to keep) so a badly
+ * laid-out workbook cannot silently overwrite a good model.
+ */
+
+import type { ParsedModelBlock, DetectedYearColumn, InputParameters } from "./excelParser/index.js";
+import { COLUMNS_EXCEL, type PeriodColumn } from "./periodUpsert.js";
+
+type Row = Record<string, any>;
+
+/** Period columns the user can untick (label/type/granularity are always written). */
+export const SELECTABLE_FIELDS: readonly PeriodColumn[] = COLUMNS_EXCEL.filter(
+  (c) => c !== "period_label" && c !== "period_type" && c !== "period_granularity",
+);
+
+// ── Preview ────────────────────────────────────────────────────────
+
+export interface PeriodFieldChange {
+  period_date: string;
+  period_label: string;
+  field: string;
+  /** Existing value (null when the period or value does not exist yet). */
+  from: unknown;
+  to: unknown;
+}
+
+export interface ModelImportPreview {
+  name: string;
+  source: string | null;
+  action: "create" | "update";
+  /** Existing model matched by name (null for new models). */
+  model_id: number | null;
+  year_columns: DetectedYearColumn[];
+  unmapped_labels: string[];
+  /** Fields with at least one parsed value — the ones the user can untick. */
+  fields: string[];
+  periods: ParsedModelBlock["periods"];
+  new_periods: number;
+  changes: PeriodFieldChange[];
+}
+
+export interface ExcelImportPreview {
+  dry_run: true;
+  models: ModelImportPreview[];
+  input_parameters: InputParameters;
+  warnings: string[];
+}
+
+/** Format a pg DATE (parsed as local midnight) as YYYY-MM-DD without a UTC shift. */
+function toDateString(v: unknown): string {
+  if (!(v instanceof Date)) return String(v);
+  const mm = String(v.getMonth() + 1).padStart(2, "0");
+  const dd = String(v.getDate()).padStart(2, "0");
+  return `${v.getFullYear()}-${mm}-${dd}`;
+}
+
+/** NUMERIC columns arrive from pg as strings — compare by value. */
+function normalize(v: unknown): unknown {
+  if (v === null || v === undefined) return null;
+  if (typeof v === "string" && v.trim() !== "" && !Number.isNaN(Number(v))) return Number(v);
+  return v;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  const x = normalize(a);
+  const y = normalize(b);
+  if (typeof x === "number" && typeof y === "number") return Math.abs(x - y) < 1e-9;
+  return JSON.stringify(x) === JSON.stringify(y);
+}
+
+/**
+ * Per-field diff of a parsed model block against a model's existing periods.
+ *
+ * Only non-null parsed values are compared: the Excel upsert coalesces, so
+ * an empty cell never overwrites an existing value.
+ */
+export function diffParsedPeriods(
+  block: ParsedModelBlock,
+  existingPeriods: Row[],
+): { changes: PeriodFieldChange[]; newPeriods: number } {
+  const byDate = new Map(existingPeriods.map((p) => [toDateString(p.period_date), p]));
+  const changes: PeriodFieldChange[] = [];
+  let newPeriods = 0;
+
+  for (const period of block.periods) {
+    const existing = byDate.get(period.period_date);
+    if (!existing) newPeriods++;
+
+    for (const field of SELECTABLE_FIELDS) {
+      const to = (period as Row)[field] ?? null;
+      if (to === null) continue;
+      const from = existing ? normalize(existing[field]) : null;
+      if (existing && isSameValue(from, to)) continue;
+      changes.push({
+        period_date: period.period_date,
+        period_label: period.period_label,
+        field,
+        from,
+        to,
+      });
+    }
+  }
+
+  return { changes, newPeriods };
+}
+
+/** Fields with at least one non-null parsed value. */
+function parsedFields(block: ParsedModelBlock): string[] {
+  return SELECTABLE_FIELDS.filter((field) =>
+    block.periods.some((p) => (p as Row)[field] !== null && (p as Row)[field] !== undefined),
+  );
+}
+
+/**
+ * Build the dry-run preview for a parsed workbook.
+ *
+ * `existingModels` are the company's models; `loadPeriods` fetches the
+ * periods of a matched model (kept injectable so the preview stays pure).
+ */
+export async function buildImportPreview(
+  models: ParsedModelBlock[],
+  existingModels: Row[],
+  loadPeriods: (modelId: number) => Promise<Row[]>,
+): Promise<ModelImportPreview[]> {
+  const byName = new Map(existingModels.map((m) => [m.name, m]));
+  const previews: ModelImportPreview[] = [];
+
+  for (const block of models) {
+    const existing = byName.get(block.name);
+    const existingPeriods = existing ? await loadPeriods(existing.id) : [];
+    const { changes, newPeriods } = diffParsedPeriods(block, existingPeriods);
+
+    previews.push({
+      name: block.name,
+      source: block.source ?? null,
+      action: existing ? "update" : "create",
+      model_id: existing?.id ?? null,
+      year_columns: block.yearColumns ?? [],
+      unmapped_labels: block.unmappedRows,
+      fields: parsedFields(block),
+      periods: block.periods,
+      new_periods: newPeriods,
+      changes,
+    });
+  }
+
+  return previews;
+}
+
+// ── Selection ──────────────────────────────────────────────────────
+
+export interface ImportSelection {
+  /** Models to import; parsed models not listed are skipped. */
+  models: { name: string; fields?: string[] }[];
+  /** Overwrite model_parameters with the workbook's input parameters (default true). */
+  input_parameters?: boolean;
+}
+
+export interface SelectedModel {
+  block: ParsedModelBlock;
+  /** Period columns to write — unticked fields are left untouched. */
+  columns: readonly PeriodColumn[];
+}
+
+/**
+ * Parse the `selection` form field sent with a committing import.
+ * Returns null when absent (import everything), or `{ error }` when malformed.
+ */
+export function parseImportSelection(raw: unknown): ImportSelection | null | { error: string } {
+  if (raw === undefined || raw === null || raw === "") return null;
+
+  let value: any;
+  try {
+    value = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return { error: "selection must be valid JSON" };
+  }
+
+  if (!value || !Array.isArray(value.models)) {
+    return { error: "selection.models must be an array" };
+  }
+  for (const m of value.models) {
+    if (!m || typeof m.name !== "string") {
+      return { error: "Each selected model needs a name" };
+    }
+    if (m.fields !== undefined) {
+      if (!Array.isArray(m.fields)) return { error: `Fields for "${m.name}" must be an array` };
+      const unknown = m.fields.filter((f: unknown) => !(SELECTABLE_FIELDS as readonly unknown[]).includes(f));
+      if (unknown.length > 0) return { error: `Unknown fields for "${m.name}": ${unknown.join(", ")}` };
+    }
+  }
+  if (value.input_parameters !== undefined && typeof value.input_parameters !== "boolean") {
+    return { error: "selection.input_parameters must be a boolean" };
+  }
+
+  return { models: value.models, input_parameters: value.input_parameters };
+}
+
+/**
+ * Resolve which parsed models (and which of their columns) to write.
+ * Without a selection everything is imported, as before.
+ */
+export function applyImportSelection(
+  models: ParsedModelBlock[],
+  selection: ImportSelection | null,
+): SelectedModel[] | { error: string } {
+  if (!selection) {
+    return models.map((block) => ({ block, columns: COLUMNS_EXCEL }));
+  }
+
+  const parsedNames = new Set(models.map((m) => m.name));
+  const missing = selection.models.filter((m) => !parsedNames.has(m.name)).map((m) => m.name);
+  if (missing.length > 0) {
+    return { error: `Selected models not found in the file: ${missing.join(", ")}` };
+  }
+
+  const selected: SelectedModel[] = [];
+  for (const block of models) {
+    const choice = selection.models.find((m) => m.name === block.name);
+    if (!choice) continue;
+    const columns = choice.fields
+      ? COLUMNS_EXCEL.filter((c) => !SELECTABLE_FIELDS.includes(c) || choice.fields!.includes(c))
+      : COLUMNS_EXCEL;
+    selected.push({ block, columns });
+  }
+  return selected;
+}
@@ -3,20 +3,41 @@
  */
 
 import ExcelJS from "exceljs";
-import type { ParsedModelBlock, PeriodYear, InputParameters } from "./types.js";
+import type { ParsedModelBlock, PeriodYear, PeriodGranularity, InputParameters, FieldKey } from "./types.js";
 import { cellNum, cellStr } from "./cellUtils.js";
 import { normalizeLabel, mapLabelToField, type ParseContext } from "./labelMapping.js";
 import { type YearColumn, findYearHeader, findLabelColumn } from "./sheetDetection.js";
 
 // ─── Block parsing ──────────────────────────────────────────
 
-export function createEmptyPeriod(year: number): PeriodYear {
-  const currentYear = new Date().getFullYear();
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Label for a period ending in `month`: "2025", "Q1 2025" or "Jan 2025". */
+export function periodLabel(year: number, granularity: PeriodGranularity, month: number): string {
+  if (granularity === "quarterly") return `Q${Math.ceil(month / 3)} ${year}`;
+  if (granularity === "monthly") return `${MONTH_LABELS[month - 1]} ${year}`;
+  return `${year}`;
+}
+
+/**
+ * Empty period for a year, or for the quarter / month ending in `month`.
+ * Sub-annual periods that have ended are actuals, the rest of the current
+ * year is budget.
+ */
+export function createEmptyPeriod(year: number, granularity: PeriodGranularity = "annual", month: number = 12): PeriodYear {
+  const now = new Date();
+  const currentYear = now.getFullYear();
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const ended = year * 12 + month < currentYear * 12 + now.getMonth() + 1;
+  const periodType = granularity === "annual"
+    ? (year < currentYear ? "actual" : year === currentYear ? "budget" : "forecast")
+    : (ended ? "actual" : year === currentYear ? "budget" : "forecast");
   return {
     year,
-    period_date: `${year}-12-31`,
-    period_label: `${year}`,
-    period_type: year < currentYear ? "actual" : year === currentYear ? "budget" : "forecast",
+    period_date: `${year}-${String(month).padStart(2, "0")}-${lastDay}`,
+    period_label: periodLabel(year, granularity, month),
+    period_type: periodType,
+    period_granularity: granularity,
     revenue_total: null,
     revenue_managed_services: null,
     revenue_professional_services: null,
@@ -46,6 +67,17 @@ export function createEmptyPeriod(year: number): PeriodYear {
     minority_interest: null,
     operating_fcf_excl_minorities: null,
     cash_conversion: null,
+    depreciation: null,
+    amortisation: null,
+    net_financial_items: null,
+    net_income: null,
+    trade_receivables: null,
+    trade_payables: null,
+    work_in_progress: null,
+    deferred_revenue: null,
+    cash: null,
+    gross_debt: null,
+    lease_liabilities: null,
     share_count: null,
     nibd: null,
     option_debt: null,
@@ -66,12 +98,14 @@ export function createEmptyPeriod(year: number): PeriodYear {
 /**
  * Parse a block of rows in a worksheet into a model.
  * Dynamically finds label column, year header, and data rows.
+ * `labelRules` are compiled user rules (see compileLabelRules).
  */
 export function parseBlock(
   ws: ExcelJS.Worksheet,
   startRow: number,
   endRow: number,
-  fallbackName: string
+  fallbackName: string,
+  labelRules: [RegExp, FieldKey][] = []
 ): { model: ParsedModelBlock | null; warnings: string[] } {
   const warnings: string[] = [];
   const effectiveEnd = Math.min(endRow, ws.rowCount + 1);
@@ -92,10 +126,10 @@ export function parseBlock(
       return { model: null, warnings };
     }
     // Use relaxed match
-    return parseBlockWithYears(ws, startRow, effectiveEnd, fallbackName, labelCol, relaxed, warnings);
+    return parseBlockWithYears(ws, startRow, effectiveEnd, fallbackName, labelCol, relaxed, warnings, labelRules);
   }
 
-  return parseBlockWithYears(ws, startRow, effectiveEnd, fallbackName, labelCol, yearInfo, warnings);
+  return parseBlockWithYears(ws, startRow, effectiveEnd, fallbackName, labelCol, yearInfo, warnings, labelRules);
 }
 
 export function parseBlockWithYears(
@@ -104,13 +138,14 @@ export function parseBlockWithYears(
   endRow: number,
   name: string,
   labelCol: number,
-  yearInfo: { headerRow: number; yearCols: YearColumn[] },
-  warnings: string[]
+  yearInfo: { headerRow: number; yearCols: YearColumn[]; granularity?: PeriodGranularity },
+  warnings: string[],
+  labelRules: [RegExp, FieldKey][] = []
 ): { model: ParsedModelBlock | null; warnings: string[] } {
-  const { yearCols } = yearInfo;
+  const { yearCols, granularity = "annual" } = yearInfo;
 
   // Initialize periods
-  const periods: PeriodYear[] = yearCols.map((yc) => createEmptyPeriod(yc.year));
+  const periods: PeriodYear[] = yearCols.map((yc) => createEmptyPeriod(yc.year, granularity, yc.month));
   const unmappedRows: string[] = [];
   const ctx: ParseContext = { lastSection: null, lastField: null };
 
@@ -150,7 +185,7 @@ export function parseBlockWithYears(
       continue;
     }
 
-    const field = mapLabelToField(rawLabel, ctx);
+    const field = mapLabelToField(rawLabel, ctx, labelRules);
 
     if (!field) {
       // Only log rows that have at least one numeric value in year columns
@@ -210,6 +245,7 @@ export function parseBlockWithYears(
         k !== "period_date" &&
         k !== "period_label" &&
         k !== "period_type" &&
+        k !== "period_granularity" &&
         p[k] !== null
     );
   });
@@ -233,6 +269,13 @@ export function parseBlockWithYears(
       periods: nonEmptyPeriods,
       unmappedRows,
       source: `${ws.name}:${startRow}-${Math.min(endRow, ws.rowCount)}`,
+      yearColumns: yearCols.map((yc) => ({
+        sheet: ws.name,
+        column: ws.getColumn(yc.col).letter,
+        row: yearInfo.headerRow,
+        year: yc.year,
+        ...(granularity !== "annual" && { period_label: periodLabel(yc.year, granularity, yc.month ?? 12) }),
+      })),
     },
     warnings,
   };
@@ -1,3 +1,3 @@
-export type { ParsedModelBlock, PeriodYear, InputParameters, ExcelParseResult, SheetType } from "./types.js";
+export type { ParsedModelBlock, DetectedYearColumn, PeriodYear, InputParameters, ExcelParseResult, ExcelParseOptions, LabelRule, FieldKey, SheetType } from "./types.js";
 export { parseExcelBuffer } from "./parseExcelBuffer.js";
 export { detectSheetType, mergeMultiSheetModels } from "./sheetMerge.js";
@@ -2,7 +2,7 @@
  * Row label normalization and mapping to PeriodYear fields.
  */
 
-import type { FieldKey } from "./types.js";
+import type { FieldKey, LabelRule } from "./types.js";
 
 export function normalizeLabel(raw: string): string {
   return raw
@@ -91,6 +91,38 @@ export const LABEL_MAPPINGS: [RegExp, FieldKey][] = [
   [/^nwc\s*effect/, "change_nwc"],
   [/^nwc\s*effekt/, "change_nwc"],
 
+  // ── Below EBITDA / Under EBITDA ──
+  // Amortisation of acquired intangibles before D&A ("avskrivninger på immaterielle")
+  [/^(ppa\s+)?amorti[sz]ation/, "amortisation"],
+  [/^avskrivning(er)?\s*(på\s*)?(immaterielle|merverdi|ppa)/, "amortisation"],
+  [/^d\s*&\s*a$/, "depreciation"],
+  [/^depreciation/, "depreciation"],
+  [/^(ordinære\s+)?avskrivning(er)?$/, "depreciation"],
+  [/^net\s*financ(ial|e)\s*(items|costs?|expenses?)?$/, "net_financial_items"],
+  [/^(net\s+)?interest\s*(expense|costs?)$/, "net_financial_items"],
+  [/^(netto\s*)?finansposter$/, "net_financial_items"],
+  [/^net\s*(income|profit)$/, "net_income"],
+  [/^(profit|result)\s*(for\s+the\s+(year|period)|after\s+tax)$/, "net_income"],
+  [/^årsresultat$/, "net_income"],
+  [/^resultat\s*etter\s*skatt$/, "net_income"],
+
+  // ── Balance sheet / Balanse ──
+  [/^(trade\s+|accounts\s+)?receivables?$/, "trade_receivables"],
+  [/^kundefordringer$/, "trade_receivables"],
+  [/^(trade\s+|accounts\s+)?payables?$/, "trade_payables"],
+  [/^leverandørgjeld$/, "trade_payables"],
+  [/^(work\s+in\s+progress|wip)$/, "work_in_progress"],
+  [/^(igangværende\s+arbeid|varer\s+under\s+tilvirkning)$/, "work_in_progress"],
+  [/^(deferred\s+(revenue|income)|contract\s+liabilities)$/, "deferred_revenue"],
+  [/^forskudd(sbetalte\s+inntekter|\s+fra\s+kunder)$/, "deferred_revenue"],
+  [/^cash(\s+(and|&)\s+(cash\s+)?equivalents)?$/, "cash"],
+  [/^(bankinnskudd|kontanter)(\s+og\s+(bankinnskudd|kontanter))?$/, "cash"],
+  [/^(gross|total)\s+(interest[\s-]*bearing\s+)?debt$/, "gross_debt"],
+  [/^interest[\s-]*bearing\s+debt$/, "gross_debt"],
+  [/^(brutto\s+)?rentebærende\s+gjeld$/, "gross_debt"],
+  [/^leas(e|ing)\s+liabilit(y|ies)$/, "lease_liabilities"],
+  [/^(leasinggjeld|leieforpliktelser)$/, "lease_liabilities"],
+
   // Tax
   [/^(income\s+)?tax$/, "tax"],
   [/^skatt$/, "tax"],
@@ -175,6 +207,86 @@ export const LABEL_MAPPINGS: [RegExp, FieldKey][] = [
   [/egenkapital.*etter\s*(utvanning)?/, "eqv_post_dilution"],
 ];
 
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Longest regex pattern accepted for a user label rule. */
+export const MAX_RULE_REGEX_LENGTH = 100;
+
+// A quantifier that repeats the preceding token: *, +, {n}, {n,} or {n,m}
+const REPEAT = /^(?:[*+]|\{\d+(?:,\d*)?\})/;
+// Any quantifier, including the optional ?
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+// Group prefix that is not a quantifier: (?: (?= (?! (?<= (?<! (?<name>
+const GROUP_PREFIX = /^\?(?:[:=!]|<[=!]|<[A-Za-z_]\w*>)/;
+
+/**
+ * True when a user regex is safe to run on every imported label: within
+ * MAX_RULE_REGEX_LENGTH and without a repeated group that contains a
+ * quantifier or an alternation, like (a+)+, (.*)* or (a|aa)+, which
+ * backtrack catastrophically.
+ */
+export function isSafeRuleRegex(pattern: string): boolean {
+  if (pattern.length > MAX_RULE_REGEX_LENGTH) return false;
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: { quantified: boolean; alternation: boolean }[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (c === "]") inClass = false;
+      continue;
+    }
+    const current = groups[groups.length - 1];
+    if (c === "[") {
+      inClass = true;
+    } else if (c === "(") {
+      groups.push({ quantified: false, alternation: false });
+      i += GROUP_PREFIX.exec(pattern.slice(i + 1))?.[0].length ?? 0;
+    } else if (c === ")") {
+      const inner = groups.pop() ?? { quantified: false, alternation: false };
+      const repeated = REPEAT.test(pattern.slice(i + 1));
+      if (repeated && (inner.quantified || inner.alternation)) return false;
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.quantified ||= inner.quantified || repeated;
+        parent.alternation ||= inner.alternation;
+      }
+    } else if (current && c === "|") {
+      current.alternation = true;
+    } else if (current && QUANTIFIER.test(pattern.slice(i))) {
+      current.quantified = true;
+    }
+  }
+  return true;
+}
+
+/**
+ * Compile user-defined label rules into the same [regex, fieldKey] shape as
+ * LABEL_MAPPINGS. Exact patterns are normalized like the labels they match;
+ * invalid or unsafe regex patterns are skipped.
+ */
+export function compileLabelRules(rules: LabelRule[]): [RegExp, FieldKey][] {
+  const compiled: [RegExp, FieldKey][] = [];
+  for (const rule of rules) {
+    if (rule.matchType === "exact") {
+      const normalized = normalizeLabel(rule.pattern);
+      if (normalized) compiled.push([new RegExp(`^${escapeRegex(normalized)}$`), rule.field]);
+      continue;
+    }
+    if (!isSafeRuleRegex(rule.pattern)) continue;
+    try {
+      compiled.push([new RegExp(rule.pattern, "i"), rule.field]);
+    } catch {
+      // Rules are validated on save — ignore anything that slipped through
+    }
+  }
+  return compiled;
+}
+
 /**
  * Parse context tracks positional state so that ambiguous labels like
  * "% vekst" or "% margin" can be resolved by position.
@@ -192,13 +304,19 @@ export interface ParseContext {
  *
  * `context` is updated as we scan rows so that ambiguous labels like
  * "% vekst" or "% margin" can be resolved by position.
+ *
+ * `userRules` (see compileLabelRules) are consulted before the built-in rules.
  */
-export function mapLabelToField(label: string, ctx?: ParseContext): FieldKey | null {
+export function mapLabelToField(
+  label: string,
+  ctx?: ParseContext,
+  userRules: [RegExp, FieldKey][] = []
+): FieldKey | null {
   const l = normalizeLabel(label);
   if (!l) return null;
 
-  // First try exact label mappings
-  for (const [regex, field] of LABEL_MAPPINGS) {
+  // First try user-defined rules, then the built-in label mappings
+  for (const [regex, field] of [...userRules, ...LABEL_MAPPINGS]) {
     if (regex.test(l)) {
       // Update context if provided
       if (ctx) {
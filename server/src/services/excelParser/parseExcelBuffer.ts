@@ -12,7 +12,8 @@
  */
 
 import ExcelJS from "exceljs";
-import type { ParsedModelBlock, InputParameters, ExcelParseResult } from "./types.js";
+import type { ParsedModelBlock, InputParameters, ExcelParseResult, ExcelParseOptions } from "./types.js";
+import { compileLabelRules } from "./labelMapping.js";
 import { cellStr } from "./cellUtils.js";
 import { findYearHeader, findLabelColumn, findNameBlocks, findSectionBlocks } from "./sheetDetection.js";
 import { parseBlock, parseInputParameters, enrichInputParameters } from "./blockParser.js";
@@ -20,7 +21,8 @@ import { detectSheetType, mergeMultiSheetModels } from "./sheetMerge.js";
 
 export async function parseExcelBuffer(
   buffer: Buffer | ArrayBuffer,
-  filename?: string
+  filename?: string,
+  options: ExcelParseOptions = {}
 ): Promise<ExcelParseResult> {
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.load(buffer as any);
@@ -32,6 +34,7 @@ export async function parseExcelBuffer(
   const warnings: string[] = [];
   const allModels: ParsedModelBlock[] = [];
   let inputParameters: InputParameters = {};
+  const labelRules = compileLabelRules(options.labelRules ?? []);
 
   // Log what we found
   const sheetNames = workbook.worksheets.map((ws) => ws.name);
@@ -65,7 +68,7 @@ export async function parseExcelBuffer(
 
       // Parse each Name: block
       for (const block of nameBlocks) {
-        const result = parseBlock(ws, block.startRow, block.endRow, block.name);
+        const result = parseBlock(ws, block.startRow, block.endRow, block.name, labelRules);
         warnings.push(...result.warnings);
         if (result.model) {
           result.model.sheetType = sheetType;
@@ -79,7 +82,7 @@ export async function parseExcelBuffer(
     const sectionBlocks = findSectionBlocks(ws);
     if (sectionBlocks.length > 1) {
       for (const block of sectionBlocks) {
-        const result = parseBlock(ws, block.startRow, block.endRow, block.name);
+        const result = parseBlock(ws, block.startRow, block.endRow, block.name, labelRules);
         warnings.push(...result.warnings);
         if (result.model) {
           result.model.sheetType = sheetType;
@@ -109,7 +112,7 @@ export async function parseExcelBuffer(
     // Enrich input parameters
     enrichInputParameters(ws, inputParameters, 1, ws.rowCount, labelCol);
 
-    const result = parseBlock(ws, 1, ws.rowCount + 1, sheetModelName);
+    const result = parseBlock(ws, 1, ws.rowCount + 1, sheetModelName, labelRules);
     warnings.push(...result.warnings);
     if (result.model) {
       result.model.sheetType = sheetType;
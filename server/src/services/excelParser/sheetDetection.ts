@@ -4,69 +4,138 @@
 
 import ExcelJS from "exceljs";
 import { cellValue, cellStr } from "./cellUtils.js";
+import type { PeriodGranularity } from "./types.js";
 
 // ─── Year detection ─────────────────────────────────────────
 
 export interface YearColumn {
   col: number;
   year: number;
+  /** Period-end month (1-12) for quarter and month columns. */
+  month?: number;
+}
+
+interface HeaderCell {
+  year: number;
+  month?: number;
+  /** Written as a quarter ("Q1 2025", "2025Q1", "1Q25"). */
+  quarter?: boolean;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, mai: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, des: 12,
+};
+
+const toYear = (y: string) => (y.length === 2 ? 2000 + parseInt(y) : parseInt(y));
+const inRange = (y: number) => y >= 2020 && y <= 2040;
+
+/**
+ * Read a header cell as a year, a quarter or a month: 2025, "2025E",
+ * "FY2025", "Q1 2025", "2025Q1", "1Q25", "Jan-25", "januar 2025",
+ * "2025-03" or an Excel date.
+ */
+export function parsePeriodHeader(v: unknown): HeaderCell | null {
+  if (typeof v === "number") return inRange(v) ? { year: v } : null;
+  if (v instanceof Date) {
+    const y = v.getFullYear();
+    return inRange(y) ? { year: y, month: v.getMonth() + 1 } : null;
+  }
+  if (typeof v !== "string") return null;
+
+  const s = v.trim().toLowerCase();
+  let m = s.match(/^q([1-4])[\s\-_/']*(\d{4}|\d{2})$/) ?? s.match(/^([1-4])q[\s\-_/']*(\d{4}|\d{2})$/);
+  if (m) {
+    const y = toYear(m[2]);
+    return inRange(y) ? { year: y, month: parseInt(m[1]) * 3, quarter: true } : null;
+  }
+  m = s.match(/^(\d{4})[\s\-_/]*q([1-4])$/);
+  if (m) {
+    const y = toYear(m[1]);
+    return inRange(y) ? { year: y, month: parseInt(m[2]) * 3, quarter: true } : null;
+  }
+  m = s.match(/^([a-zæøå]{3,9})\.?[\s\-_/']*(\d{4}|\d{2})$/);
+  if (m && MONTHS[m[1].slice(0, 3)]) {
+    const y = toYear(m[2]);
+    return inRange(y) ? { year: y, month: MONTHS[m[1].slice(0, 3)] } : null;
+  }
+  m = s.match(/^(\d{4})[-/.](\d{1,2})$/);
+  const mmYyyy = s.match(/^(\d{1,2})[-/.](\d{4})$/);
+  const ym = m ? [m[1], m[2]] : mmYyyy ? [mmYyyy[2], mmYyyy[1]] : null;
+  if (ym) {
+    const y = parseInt(ym[0]);
+    const month = parseInt(ym[1]);
+    return inRange(y) && month >= 1 && month <= 12 ? { year: y, month } : null;
+  }
+
+  // Handle "2025E", "2025F", "2025B", "FY2025", etc.
+  m = v.match(/(?:FY)?(\d{4})/);
+  if (m) {
+    const y = parseInt(m[1]);
+    if (inRange(y)) return { year: y };
+  }
+  return null;
 }
 
 /**
- * Scan a range of rows for a row containing 4-digit years (2020-2040).
- * Returns the header row number, the year columns, and optionally
- * inferred period labels.
+ * Granularity of a header row: quarterly when written as quarters;
+ * otherwise sub-annual when a year repeats across dated columns, with the
+ * typical gap between period ends telling months from quarters.
+ */
+function headerGranularity(cells: HeaderCell[]): PeriodGranularity {
+  if (cells.some((c) => c.quarter)) return "quarterly";
+  const dated = cells.filter((c) => c.month !== undefined);
+  if (new Set(dated.map((c) => c.year)).size === dated.length) return "annual";
+  const ends = [...new Set(dated.map((c) => c.year * 12 + c.month!))].sort((a, b) => a - b);
+  const gaps = ends.slice(1).map((e, i) => e - ends[i]).sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)] >= 3 ? "quarterly" : "monthly";
+}
+
+/**
+ * Scan a range of rows for a row of period headers: 4-digit years
+ * (2020-2040), quarters or months. Returns the header row number, the
+ * period columns and the granularity. Year total columns next to quarters
+ * or months are left out.
  */
 export function findYearHeader(
   ws: ExcelJS.Worksheet,
   startRow: number,
   endRow: number,
   minCols: number = 2
-): { headerRow: number; yearCols: YearColumn[] } | null {
+): { headerRow: number; yearCols: YearColumn[]; granularity: PeriodGranularity } | null {
   const maxCol = Math.min(30, ws.columnCount);
 
   for (let r = startRow; r <= Math.min(endRow, ws.rowCount); r++) {
     const row = ws.getRow(r);
-    const candidates: YearColumn[] = [];
+    const candidates: (YearColumn & HeaderCell)[] = [];
 
     for (let c = 1; c <= maxCol; c++) {
-      const v = cellValue(row.getCell(c));
-      let yearNum: number | null = null;
-
-      if (typeof v === "number" && v >= 2020 && v <= 2040) {
-        yearNum = v;
-      } else if (typeof v === "string") {
-        // Handle "2025E", "2025F", "2025B", "FY2025", "Dec-25", etc.
-        const m = v.match(/(?:FY)?(\d{4})/);
-        if (m) {
-          const y = parseInt(m[1]);
-          if (y >= 2020 && y <= 2040) yearNum = y;
-        }
-      } else if (v instanceof Date) {
-        const y = v.getFullYear();
-        if (y >= 2020 && y <= 2040) yearNum = y;
-      }
-
-      if (yearNum !== null) {
-        candidates.push({ col: c, year: yearNum });
-      }
+      const cell = parsePeriodHeader(cellValue(row.getCell(c)));
+      if (cell) candidates.push({ col: c, ...cell });
     }
 
     // Need at least `minCols` consecutive-ish years
     if (candidates.length >= minCols) {
       // Sort by column and check they look like a series of years
       candidates.sort((a, b) => a.col - b.col);
+      const granularity = headerGranularity(candidates);
 
-      // Filter to unique years (in case of duplicates)
+      // Filter to unique periods (in case of duplicates)
       const seen = new Set<number>();
       const unique = candidates.filter((c) => {
-        if (seen.has(c.year)) return false;
-        seen.add(c.year);
+        if (granularity !== "annual" && c.month === undefined) return false;
+        const key = granularity === "annual" ? c.year : c.year * 12 + c.month!;
+        if (seen.has(key)) return false;
+        seen.add(key);
         return true;
       });
 
       if (unique.length >= minCols) {
-        return { headerRow: r, yearCols: unique };
+        return {
+          headerRow: r,
+          yearCols: unique.map((c) => (granularity === "annual" ? { col: c.col, year: c.year } : { col: c.col, year: c.year, month: c.month })),
+          granularity,
+        };
       }
     }
   }
@@ -6,7 +6,7 @@
  * share the same periods (years) into a single unified model.
  */
 
-import type { ParsedModelBlock, PeriodYear, SheetType } from "./types.js";
+import type { ParsedModelBlock, PeriodYear, SheetType, DetectedYearColumn } from "./types.js";
 
 // ── Sheet type detection ────────────────────────────────────
 
@@ -104,6 +104,8 @@ export function mergeMultiSheetModels(
   return result;
 }
 
+const granularityOf = (m: ParsedModelBlock) => m.periods[0]?.period_granularity ?? "annual";
+
 /**
  * Group models by overlapping year ranges.
  */
@@ -125,8 +127,9 @@ function groupByOverlappingYears(models: ParsedModelBlock[]): ParsedModelBlock[]
 
     for (let j = i + 1; j < ranges.length; j++) {
       if (used.has(j)) continue;
-      // Check overlap with any model already in the group
+      // Check overlap with any model already in the group (same period length only)
       const overlaps = group.some((gm) => {
+        if (granularityOf(gm) !== granularityOf(ranges[j].model)) return false;
         const gYears = gm.periods.map((p) => p.year);
         const jYears = ranges[j].model.periods.map((p) => p.year);
         return gYears.some((y) => jYears.includes(y));
@@ -145,7 +148,7 @@ function groupByOverlappingYears(models: ParsedModelBlock[]): ParsedModelBlock[]
 
 /**
  * Merge a group of models into a single model.
- * Combines periods by year, with later models overwriting null fields.
+ * Combines periods by period end, with later models overwriting null fields.
  */
 function mergeModelGroup(
   group: ParsedModelBlock[],
@@ -156,19 +159,21 @@ function mergeModelGroup(
   const allNames = group.map((m) => m.name).join(", ");
   const mergedName = nameCandidate.name;
 
-  // Collect all periods by year
-  const byYear = new Map<number, PeriodYear>();
+  // Collect all periods by period end
+  const byDate = new Map<string, PeriodYear>();
   const allUnmapped: string[] = [];
   const sources: string[] = [];
+  const yearColumns: DetectedYearColumn[] = [];
 
   for (const model of group) {
     if (model.source) sources.push(model.source);
     allUnmapped.push(...model.unmappedRows);
+    yearColumns.push(...(model.yearColumns ?? []));
 
     for (const period of model.periods) {
-      const existing = byYear.get(period.year);
+      const existing = byDate.get(period.period_date);
       if (!existing) {
-        byYear.set(period.year, { ...period });
+        byDate.set(period.period_date, { ...period });
       } else {
         // Merge: fill in null fields from this period
         mergePeriods(existing, period);
@@ -182,10 +187,11 @@ function mergeModelGroup(
 
   return {
     name: mergedName,
-    periods: Array.from(byYear.values()).sort((a, b) => a.year - b.year),
+    periods: Array.from(byDate.values()).sort((a, b) => a.period_date.localeCompare(b.period_date)),
     unmappedRows: [...new Set(allUnmapped)],
     source: sources.join(" + "),
     sheetType: undefined, // merged model has no single type
+    yearColumns,
   };
 }
 
@@ -196,7 +202,7 @@ function mergeModelGroup(
 function mergePeriods(target: PeriodYear, source: PeriodYear): void {
   const keys = Object.keys(source) as (keyof PeriodYear)[];
   for (const key of keys) {
-    if (key === "year" || key === "period_date" || key === "period_label" || key === "period_type") continue;
+    if (key === "year" || key === "period_date" || key === "period_label" || key === "period_type" || key === "period_granularity") continue;
     if (key === "extra_data") {
       // Merge extra_data objects
       if (source.extra_data) {
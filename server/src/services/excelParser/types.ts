@@ -11,13 +11,30 @@ export interface ParsedModelBlock {
   source?: string;
   /** Detected sheet type for multi-sheet merge */
   sheetType?: SheetType;
+  /** Year header columns the periods were read from (for import preview) */
+  yearColumns?: DetectedYearColumn[];
 }
 
+export interface DetectedYearColumn {
+  sheet: string;
+  /** Column letter, e.g. "D" */
+  column: string;
+  /** Header row number */
+  row: number;
+  year: number;
+  /** Period label for quarter / month columns, e.g. "Q1 2025" */
+  period_label?: string;
+}
+
+/** Length of a financial period; annual unless the header has quarters or months. */
+export type PeriodGranularity = "annual" | "quarterly" | "monthly";
+
 export interface PeriodYear {
   year: number;
-  period_date: string; // "YYYY-12-31"
-  period_label: string; // "Dec-25" or "2025"
+  period_date: string; // "YYYY-12-31", or the quarter / month end
+  period_label: string; // "2025", "Q1 2025" or "Jan 2025"
   period_type: string; // "budget" | "forecast" | "actual"
+  period_granularity: PeriodGranularity;
   // P&L
   revenue_total: number | null;
   revenue_managed_services: number | null;
@@ -50,6 +67,19 @@ export interface PeriodYear {
   minority_interest: number | null;
   operating_fcf_excl_minorities: number | null;
   cash_conversion: number | null;
+  // Below EBITDA
+  depreciation: number | null;
+  amortisation: number | null;
+  net_financial_items: number | null;
+  net_income: number | null;
+  // Balance sheet
+  trade_receivables: number | null;
+  trade_payables: number | null;
+  work_in_progress: number | null;
+  deferred_revenue: number | null;
+  cash: number | null;
+  gross_debt: number | null;
+  lease_liabilities: number | null;
   // Equity bridge
   share_count: number | null;
   nibd: number | null;
@@ -92,3 +122,19 @@ export interface ExcelParseResult {
 }
 
 export type FieldKey = keyof PeriodYear;
+
+/**
+ * A user-defined label → field rule (persisted in `label_mapping_rules`).
+ * `exact` patterns match the normalized label; `regex` patterns are tested
+ * case-insensitively against it.
+ */
+export interface LabelRule {
+  pattern: string;
+  matchType: "exact" | "regex";
+  field: FieldKey;
+}
+
+export interface ExcelParseOptions {
+  /** Consulted before the built-in LABEL_MAPPINGS, in order. */
+  labelRules?: LabelRule[];
+}
@@ -0,0 +1,157 @@
+/**
+ * FX — convert model periods into a scenario's reporting currency.
+ *
+ * Company figures are stored in the company's own currency unit (e.g. "NOKm",
+ * "SEKm", "EURk"). A scenario has a reporting currency (default: the
+ * acquirer's) and a set of FX rates, each either flat or per year:
+ *
+ *   { "SEK": 0.98, "EUR": { "2025": 11.6, "2026": 11.4 } }
+ *
+ * A rate is the number of reporting-currency units per one unit of the
+ * source currency. Per-year rates are read like the base-rate curve: years
+ * past the end keep the last rate, years before it use the first.
+ */
+
+/** Currency code -> flat rate, or year -> rate. */
+export type FxRates = Record<string, number | Record<string, number>>;
+
+export interface FxConversion {
+  side: "acquirer" | "target";
+  /** Source currency unit as stored on the company. */
+  currency: string;
+  /** Rate applied per period year (1 when the currency matches). */
+  rates: Record<string, number>;
+  /** True when no rate was set for a foreign currency — figures are left unconverted. */
+  missing_rate: boolean;
+}
+
+export interface ScenarioFx {
+  reporting_currency: string;
+  conversions: FxConversion[];
+}
+
+/** Monetary period columns (amounts in the currency unit). */
+export const MONETARY_PERIOD_FIELDS = [
+  "revenue_managed_services", "revenue_professional_services", "revenue_other",
+  "revenue_total", "revenue_organic", "revenue_ma", "acquired_revenue",
+  "ebitda_managed_services", "ebitda_professional_services", "ebitda_central_costs",
+  "ebitda_organic", "ebitda_ma", "ebitda_total", "ebitda_incl_synergies", "cost_synergies",
+  "capex", "change_nwc", "tax", "net_cashflow", "other_cash_flow_items",
+  "operating_fcf", "minority_interest", "operating_fcf_excl_minorities",
+  "depreciation", "amortisation", "net_financial_items", "net_income",
+  "trade_receivables", "trade_payables", "work_in_progress", "deferred_revenue",
+  "cash", "gross_debt", "lease_liabilities",
+  "nibd", "option_debt", "adjustments", "enterprise_value", "equity_value",
+  "preferred_equity", "mip_amount", "tso_amount", "warrants_amount", "eqv_post_dilution",
+] as const;
+
+/** Per-share columns — in whole currency units, so only the rate applies. */
+export const PER_SHARE_PERIOD_FIELDS = ["per_share_pre", "per_share_post"] as const;
+
+const UNIT_SCALES: Record<string, number> = { k: 1e3, K: 1e3, T: 1e3, m: 1e6, M: 1e6, bn: 1e9 };
+
+/**
+ * Split a currency unit into ISO code and scale: "NOKm" / "MNOK" -> NOK x 1e6,
+ * "EURk" / "TEUR" -> EUR x 1e3, "SEK" -> SEK x 1. Unknown units count as scale 1.
+ */
+export function parseCurrencyUnit(unit: string | null | undefined): { code: string; scale: number } {
+  const raw = (unit ?? "").trim();
+  const suffix = /^([A-Za-z]{3})(k|m|bn)?$/.exec(raw);
+  if (suffix) return { code: suffix[1].toUpperCase(), scale: UNIT_SCALES[suffix[2] ?? ""] ?? 1 };
+  const prefix = /^(M|T|K)([A-Z]{3})$/.exec(raw);
+  if (prefix) return { code: prefix[2], scale: UNIT_SCALES[prefix[1]] };
+  return { code: raw.toUpperCase(), scale: 1 };
+}
+
+/** Rate for a currency code and year, or null when the scenario has none. */
+export function resolveFxRate(rates: FxRates, code: string, year: number): number | null {
+  const entry = rates[code] ?? rates[code.toLowerCase()];
+  if (entry == null) return null;
+  if (typeof entry === "number") return entry;
+
+  const years = Object.keys(entry).map(Number).filter((y) => !Number.isNaN(y)).sort((a, b) => a - b);
+  if (years.length === 0) return null;
+  let match = years[0];
+  for (const y of years) {
+    if (y <= year) match = y;
+  }
+  return entry[String(match)] ?? null;
+}
+
+/** Multiply the monetary fields of a period row; NUMERIC strings are parsed, nulls kept. */
+function scalePeriod(period: any, amountFactor: number, perShareFactor: number): any {
+  const out = { ...period };
+  const apply = (field: string, factor: number) => {
+    const v = period[field];
+    if (v == null || v === "") return;
+    const n = parseFloat(v);
+    if (!Number.isNaN(n)) out[field] = n * factor;
+  };
+  for (const field of MONETARY_PERIOD_FIELDS) apply(field, amountFactor);
+  for (const field of PER_SHARE_PERIOD_FIELDS) apply(field, perShareFactor);
+  return out;
+}
+
+/**
+ * Convert one side's periods into the reporting currency.
+ *
+ * Periods in the reporting currency come back unchanged. When a foreign
+ * currency has no rate the periods are also returned as-is and the
+ * conversion is flagged `missing_rate`, so the UI can warn.
+ */
+export function convertPeriods(
+  periods: any[],
+  side: FxConversion["side"],
+  currency: string | null | undefined,
+  reportingCurrency: string,
+  rates: FxRates,
+): { periods: any[]; conversion: FxConversion } {
+  const unit = currency || reportingCurrency;
+  const from = parseCurrencyUnit(unit);
+  const to = parseCurrencyUnit(reportingCurrency);
+  const conversion: FxConversion = { side, currency: unit, rates: {}, missing_rate: false };
+
+  const converted = periods.map((p) => {
+    const year = new Date(p.period_date).getFullYear();
+    const rate = from.code === to.code ? 1 : resolveFxRate(rates, from.code, year);
+    if (rate == null) {
+      conversion.missing_rate = true;
+      return p;
+    }
+    conversion.rates[String(year)] = rate;
+    if (rate === 1 && from.scale === to.scale) return p;
+    return scalePeriod(p, (rate * from.scale) / to.scale, rate);
+  });
+
+  return { periods: converted, conversion };
+}
+
+/**
+ * Convert acquirer and target periods for a scenario.
+ *
+ * `scenario` needs `reporting_currency` and `fx_rates`; the currencies are the
+ * acquirer and target companies' `currency` columns. Without a reporting
+ * currency the acquirer's currency is used.
+ */
+export function applyScenarioFx(
+  scenario: { reporting_currency?: string | null; fx_rates?: FxRates | null } | null,
+  acquirerPeriods: any[],
+  targetPeriods: any[],
+  acquirerCurrency: string | null | undefined,
+  targetCurrency: string | null | undefined,
+): { acquirerPeriods: any[]; targetPeriods: any[]; fx: ScenarioFx } {
+  const reportingCurrency = scenario?.reporting_currency || acquirerCurrency || "NOKm";
+  const rates = scenario?.fx_rates ?? {};
+
+  const acq = convertPeriods(acquirerPeriods, "acquirer", acquirerCurrency, reportingCurrency, rates);
+  const tgt = convertPeriods(targetPeriods, "target", targetCurrency, reportingCurrency, rates);
+
+  return {
+    acquirerPeriods: acq.periods,
+    targetPeriods: tgt.periods,
+    fx: {
+      reporting_currency: reportingCurrency,
+      conversions: targetPeriods.length > 0 ? [acq.conversion, tgt.conversion] : [acq.conversion],
+    },
+  };
+}
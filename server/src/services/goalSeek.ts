@@ -0,0 +1,150 @@
+/**
+ * Goal seek — solve for the parameter value that hits a target return.
+ *
+ * "What is the most we can pay and still make 20 % IRR at 12x?" is a root
+ * of f(x) = metric(x) − target over one sensitivity parameter. The solver
+ * needs a bracket [lower, upper] where f changes sign and narrows it with
+ * the Illinois variant of regula falsi: secant steps (fast on the smooth
+ * IRR curve) that halve the stale end's weight so the bracket always
+ * shrinks, falling back to bisection when a step leaves the bracket.
+ *
+ * Outcomes:
+ *   converged      |metric − target| within tolerance (or bracket collapsed)
+ *   no_solution    the target is not reached anywhere in the bracket, or
+ *                  the metric is undefined at a bound
+ *   not_converged  iteration limit hit, or the metric became undefined
+ *                  inside the bracket; the best point so far is reported
+ */
+
+import type { SensitivityParam } from "./proForma.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type GoalSeekMetric = "irr" | "mom" | "per_share_irr" | "per_share_mom";
+
+export type GoalSeekStatus = "converged" | "no_solution" | "not_converged";
+
+export type GoalSeekReason =
+  | "target_below_range"
+  | "target_above_range"
+  | "undefined_at_bound"
+  | "undefined_in_bracket"
+  | "max_iterations";
+
+export interface GoalSeekStep {
+  value: number;
+  metric: number | null;
+}
+
+export interface GoalSeekOutcome {
+  status: GoalSeekStatus;
+  reason?: GoalSeekReason;
+  /** Parameter value found (best point so far when not converged). */
+  solution: number | null;
+  /** Metric at the solution. */
+  achieved: number | null;
+  iterations: number;
+  bracket: {
+    lower: number;
+    upper: number;
+    metric_at_lower: number | null;
+    metric_at_upper: number | null;
+  };
+  /** Every evaluation after the two bounds, in order. */
+  steps: GoalSeekStep[];
+}
+
+export interface SolveOptions {
+  tolerance: number;
+  maxIterations: number;
+}
+
+const AMOUNT_PARAMS = new Set<SensitivityParam>([
+  "price_paid", "ordinary_equity", "net_debt", "debt_amortisation", "preferred_equity", "acquirer_entry_ev",
+]);
+
+// ── Bracket ────────────────────────────────────────────────────────
+
+/**
+ * Default search range: 1–40x for the exit multiple, 0–3× the larger of the
+ * base value and the price for amounts (price from 5 %), 0–50 % for rates,
+ * 0–100 % for shares and ±10 pp for the base-rate shift.
+ */
+export function defaultBounds(param: SensitivityParam, base: number | null, pricePaid: number): [number, number] {
+  if (param === "exit_multiple") return [1, 40];
+  if (param === "base_rate_shift") return [-0.1, 0.1];
+  if (param === "tax_rate" || param === "cash_sweep_pct") return [0, 1];
+  if (AMOUNT_PARAMS.has(param)) {
+    const ref = Math.max(Math.abs(base ?? 0), pricePaid);
+    return [param === "price_paid" ? ref * 0.05 : 0, ref * 3];
+  }
+  return [0, 0.5];
+}
+
+// ── Solver ─────────────────────────────────────────────────────────
+
+/** Find x in [lower, upper] with f(x) = target (see module header). */
+export function solve(
+  f: (x: number) => number | null,
+  target: number,
+  lower: number,
+  upper: number,
+  { tolerance, maxIterations }: SolveOptions,
+): GoalSeekOutcome {
+  const atLower = f(lower);
+  const atUpper = f(upper);
+  const steps: GoalSeekStep[] = [];
+  const outcome = (
+    status: GoalSeekStatus,
+    solution: number | null,
+    achieved: number | null,
+    reason?: GoalSeekReason,
+  ): GoalSeekOutcome => ({
+    status,
+    ...(reason ? { reason } : {}),
+    solution,
+    achieved,
+    iterations: steps.length,
+    bracket: { lower, upper, metric_at_lower: atLower, metric_at_upper: atUpper },
+    steps,
+  });
+
+  if (atLower == null || atUpper == null) return outcome("no_solution", null, null, "undefined_at_bound");
+  if (Math.abs(atLower - target) <= tolerance) return outcome("converged", lower, atLower);
+  if (Math.abs(atUpper - target) <= tolerance) return outcome("converged", upper, atUpper);
+  if ((atLower - target) * (atUpper - target) > 0) {
+    return outcome("no_solution", null, null, target < Math.min(atLower, atUpper) ? "target_below_range" : "target_above_range");
+  }
+
+  let a = lower, fa = atLower - target;
+  let b = upper, fb = atUpper - target;
+  let side = 0;
+  let best: GoalSeekStep = Math.abs(fa) < Math.abs(fb) ? { value: a, metric: atLower } : { value: b, metric: atUpper };
+
+  for (let i = 0; i < maxIterations; i++) {
+    let x = (a * fb - b * fa) / (fb - fa);
+    if (!Number.isFinite(x) || x <= Math.min(a, b) || x >= Math.max(a, b)) x = (a + b) / 2;
+
+    const metric = f(x);
+    steps.push({ value: x, metric });
+    if (metric == null) return outcome("not_converged", best.value, best.metric, "undefined_in_bracket");
+
+    const fx = metric - target;
+    if (Math.abs(fx) < Math.abs(best.metric! - target)) best = { value: x, metric };
+    if (Math.abs(fx) <= tolerance || Math.abs(b - a) <= 1e-12 * Math.max(1, Math.abs(x))) {
+      return outcome("converged", x, metric);
+    }
+
+    if (fx * fb > 0) {
+      b = x; fb = fx;
+      if (side === -1) fa /= 2;
+      side = -1;
+    } else {
+      a = x; fa = fx;
+      if (side === 1) fb /= 2;
+      side = 1;
+    }
+  }
+
+  return outcome("not_converged", best.value, best.metric, "max_iterations");
+}
@@ -0,0 +1,133 @@
+/**
+ * Label mapping rules — user-defined row label → period field mappings for
+ * the Excel importer.
+ *
+ * Rules are global (company_id NULL) or scoped to one company, and are
+ * consulted before the parser's built-in LABEL_MAPPINGS. Company rules win
+ * over global ones; within a scope the newest rule wins.
+ */
+
+import type pg from "pg";
+import pool from "../models/db.js";
+import { createEmptyPeriod } from "./excelParser/blockParser.js";
+import { isSafeRuleRegex, MAX_RULE_REGEX_LENGTH } from "./excelParser/labelMapping.js";
+import { recordAuditEvent, withTransaction } from "./auditLog.js";
+import type { FieldKey, LabelRule } from "./excelParser/index.js";
+
+/** Pool or a checked-out client inside a transaction. */
+type Queryable = pg.Pool | pg.PoolClient;
+
+/** Period fields a rule can target (bookkeeping keys excluded). */
+export const MAPPABLE_FIELDS: readonly FieldKey[] = (Object.keys(createEmptyPeriod(2000)) as FieldKey[]).filter(
+  (k) => !["year", "period_date", "period_label", "period_type", "period_granularity", "extra_data"].includes(k),
+);
+
+export interface CreateLabelRuleInput {
+  pattern: string;
+  match_type: "exact" | "regex";
+  field_key: string;
+  company_id?: number | null;
+}
+
+const RULE_ORDER = "r.company_id IS NULL, r.created_at DESC, r.id DESC";
+
+/** Rules visible for a company (its own + global), or all rules without a company. */
+export async function listLabelRules(companyId?: number) {
+  const where = companyId !== undefined ? "WHERE r.company_id = $1 OR r.company_id IS NULL" : "";
+  const result = await pool.query(
+    `SELECT r.*, c.name as company_name, u.name as created_by_name
+     FROM label_mapping_rules r
+     LEFT JOIN companies c ON r.company_id = c.id
+     LEFT JOIN users u ON r.created_by = u.id
+     ${where}
+     ORDER BY ${RULE_ORDER}`,
+    companyId !== undefined ? [companyId] : []
+  );
+  return result.rows;
+}
+
+/** Rules for the Excel parser, in precedence order. */
+export async function loadLabelRules(db: Queryable, companyId: string | number): Promise<LabelRule[]> {
+  const result = await db.query(
+    `SELECT r.pattern, r.match_type, r.field_key
+     FROM label_mapping_rules r
+     WHERE r.company_id = $1 OR r.company_id IS NULL
+     ORDER BY ${RULE_ORDER}`,
+    [companyId]
+  );
+  return result.rows.map((r) => ({ pattern: r.pattern, matchType: r.match_type, field: r.field_key }));
+}
+
+/**
+ * Save a rule. Returns the row, or `{ error, _errorStatus }` for an unknown
+ * field, an invalid or unsafe regex, a missing company or a duplicate pattern.
+ */
+export async function createLabelRule(
+  input: CreateLabelRuleInput,
+  userId: number | undefined
+): Promise<Record<string, any> | { error: string; _errorStatus: number }> {
+  if (!(MAPPABLE_FIELDS as readonly string[]).includes(input.field_key)) {
+    return { error: `Unknown field: ${input.field_key}`, _errorStatus: 400 };
+  }
+  if (input.match_type === "regex") {
+    try {
+      new RegExp(input.pattern, "i");
+    } catch {
+      return { error: `Invalid regular expression: ${input.pattern}`, _errorStatus: 400 };
+    }
+    // Rules run on every imported label: no catastrophic backtracking
+    if (!isSafeRuleRegex(input.pattern)) {
+      return {
+        error: `Regular expression must be at most ${MAX_RULE_REGEX_LENGTH} characters without nested quantifiers or repeated alternations: ${input.pattern}`,
+        _errorStatus: 400,
+      };
+    }
+  }
+
+  const companyId = input.company_id ?? null;
+  return withTransaction(async (client) => {
+    if (companyId !== null) {
+      const company = await client.query("SELECT id FROM companies WHERE id = $1", [companyId]);
+      if (company.rows.length === 0) {
+        return { error: "Company not found", _errorStatus: 404 };
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO label_mapping_rules (company_id, pattern, match_type, field_key, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [companyId, input.pattern, input.match_type, input.field_key, userId ?? null]
+    );
+    if (result.rows.length === 0) {
+      return { error: `A rule for "${input.pattern}" already exists`, _errorStatus: 409 };
+    }
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "label_rule",
+      entityId: result.rows[0].id,
+      entityName: result.rows[0].pattern,
+      action: "create",
+      after: result.rows[0],
+    });
+    return result.rows[0];
+  });
+}
+
+/** Delete a rule. Returns the deleted row, or null when not found. */
+export async function deleteLabelRule(id: string | number, userId: number | undefined) {
+  return withTransaction(async (client) => {
+    const result = await client.query("DELETE FROM label_mapping_rules WHERE id = $1 RETURNING *", [id]);
+    if (result.rows.length === 0) return null;
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "label_rule",
+      entityId: result.rows[0].id,
+      entityName: result.rows[0].pattern,
+      action: "delete",
+      before: result.rows[0],
+    });
+    return result.rows[0];
+  });
+}
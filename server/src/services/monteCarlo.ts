@@ -0,0 +1,260 @@
+/**
+ * Monte Carlo — distributions of deal returns.
+ *
+ * The sensitivity grid varies two parameters over fixed values; a simulation
+ * draws all uncertain inputs together, many times, and reports the spread
+ * of IRR / MoM. Four inputs can be given a distribution:
+ *
+ *   exit_multiple        the exit multiple (x)
+ *   synergy_realisation  share of planned synergies delivered, decimal;
+ *                        multiplies the scenario's realisation per year
+ *   ebitda_haircut       share of pro forma EBITDA growth (over the first
+ *                        year) that does not materialise, decimal
+ *   interest_rate        debt interest rate, decimal (as in the grid)
+ *
+ * Distributions are normal, triangular or uniform. Correlations are given
+ * pairwise (rho between -1 and 1) and applied with a Gaussian copula: draw
+ * correlated standard normals through the Cholesky factor of the
+ * correlation matrix, map them to uniforms and through each input's inverse
+ * CDF. Normal inputs use the correlated draw directly.
+ *
+ * Draws come from a seeded generator, so a simulation with the same seed
+ * and inputs returns the same distribution.
+ */
+
+import type { PeriodData } from "./dealReturns.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const SIMULATION_VARIABLES = [
+  "exit_multiple",
+  "synergy_realisation",
+  "ebitda_haircut",
+  "interest_rate",
+] as const;
+
+export type SimulationVariable = (typeof SIMULATION_VARIABLES)[number];
+
+export type Distribution =
+  | { type: "normal"; mean: number; sd: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number };
+
+export interface Correlation {
+  a: SimulationVariable;
+  b: SimulationVariable;
+  rho: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/** Summary statistics of one simulated metric. */
+export interface DistributionSummary {
+  /** Iterations with a value (IRR can fail to converge). */
+  count: number;
+  mean: number | null;
+  sd: number | null;
+  min: number | null;
+  max: number | null;
+  percentiles: Record<"p5" | "p10" | "p25" | "p50" | "p75" | "p90" | "p95", number | null>;
+  histogram: HistogramBin[];
+}
+
+const PERCENTILES = [5, 10, 25, 50, 75, 90, 95] as const;
+
+// ── Random numbers ─────────────────────────────────────────────────
+
+/** Seeded uniform generator on [0, 1) (mulberry32). */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box-Muller). */
+export function standardNormal(rng: () => number): number {
+  const u1 = Math.max(rng(), Number.EPSILON);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Value of a distribution at cumulative probability `u`. Normal inputs take
+ * the standard normal draw `z` instead (exact, no CDF round-trip).
+ */
+export function inverseCdf(dist: Distribution, u: number, z: number): number {
+  switch (dist.type) {
+    case "normal":
+      return dist.mean + dist.sd * z;
+    case "uniform":
+      return dist.min + (dist.max - dist.min) * u;
+    case "triangular": {
+      const { min, mode, max } = dist;
+      const range = max - min;
+      if (range <= 0) return min;
+      const split = (mode - min) / range;
+      return u < split
+        ? min + Math.sqrt(u * range * (mode - min))
+        : max - Math.sqrt((1 - u) * range * (max - mode));
+    }
+  }
+}
+
+// ── Correlation ────────────────────────────────────────────────────
+
+/** Correlation matrix over `variables` (identity plus the given pairs). */
+export function correlationMatrix(variables: readonly SimulationVariable[], correlations: Correlation[]): number[][] {
+  const matrix: number[][] = variables.map((_, i) => variables.map((__, j) => (i === j ? 1 : 0)));
+  for (const { a, b, rho } of correlations) {
+    const i = variables.indexOf(a);
+    const j = variables.indexOf(b);
+    if (i < 0 || j < 0 || i === j) continue;
+    matrix[i][j] = rho;
+    matrix[j][i] = rho;
+  }
+  return matrix;
+}
+
+/**
+ * Lower-triangular Cholesky factor, or null when the matrix is not positive
+ * definite (inconsistent correlations, e.g. a~b 0.9, b~c 0.9, a~c -0.9).
+ */
+export function choleskyDecompose(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        lower[i][i] = Math.sqrt(sum);
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+/**
+ * One correlated draw of every variable that has a distribution.
+ * `cholesky` must be the factor of the correlation matrix over `variables`.
+ */
+export function sampleInputs(
+  variables: readonly SimulationVariable[],
+  distributions: Partial<Record<SimulationVariable, Distribution>>,
+  cholesky: number[][],
+  rng: () => number,
+): Partial<Record<SimulationVariable, number>> {
+  const independent = variables.map(() => standardNormal(rng));
+  const sample: Partial<Record<SimulationVariable, number>> = {};
+  variables.forEach((name, i) => {
+    let z = 0;
+    for (let k = 0; k <= i; k++) z += cholesky[i][k] * independent[k];
+    sample[name] = inverseCdf(distributions[name]!, normalCdf(z), z);
+  });
+  return sample;
+}
+
+// ── Inputs applied to period data ──────────────────────────────────
+
+/**
+ * Remove a share of EBITDA growth over the first period:
+ * ebitda(t) = ebitda(0) + (ebitda(t) − ebitda(0)) × (1 − haircut).
+ * Returns new period objects; the first period is unchanged.
+ */
+export function applyEbitdaHaircut(periods: PeriodData[], haircut: number): PeriodData[] {
+  if (periods.length === 0 || haircut === 0) return periods;
+  const base = periods[0].ebitda;
+  return periods.map((p, i) => (i === 0 ? p : { ...p, ebitda: base + (p.ebitda - base) * (1 - haircut) }));
+}
+
+/** Realisation per year scaled by `factor` (missing years count as fully realised). */
+export function scaleRealisation(
+  realisation: Record<string, number> | undefined,
+  years: string[],
+  factor: number,
+): Record<string, number> {
+  const scaled: Record<string, number> = {};
+  for (const year of years) {
+    const base = realisation?.[year] != null ? Number(realisation[year]) : 1;
+    scaled[year] = Math.max(0, base * factor);
+  }
+  return scaled;
+}
+
+// ── Statistics ─────────────────────────────────────────────────────
+
+/** Linear-interpolated percentile (0–100) of an ascending array. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const pos = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** Equal-width histogram between the smallest and largest value. */
+export function histogram(sorted: number[], bins: number): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return [{ from: min, to: max, count: sorted.length }];
+
+  const width = (max - min) / bins;
+  const out: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: i === bins - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const v of sorted) out[Math.min(bins - 1, Math.floor((v - min) / width))].count++;
+  return out;
+}
+
+/** Mean, spread, percentiles and histogram of the non-null values. */
+export function summarise(values: (number | null)[], bins: number): DistributionSummary {
+  const sorted = values.filter((v): v is number => v != null && Number.isFinite(v)).sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = n > 0 ? sorted.reduce((s, v) => s + v, 0) / n : null;
+  const sd = n > 1 && mean != null
+    ? Math.sqrt(sorted.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1))
+    : null;
+  const percentiles = Object.fromEntries(
+    PERCENTILES.map((p) => [`p${p}`, percentile(sorted, p)]),
+  ) as DistributionSummary["percentiles"];
+
+  return {
+    count: n,
+    mean,
+    sd,
+    min: n > 0 ? sorted[0] : null,
+    max: n > 0 ? sorted[n - 1] : null,
+    percentiles,
+    histogram: histogram(sorted, bins),
+  };
+}
+
+/** Share of all iterations with a value at or above the hurdle (failures count as misses). */
+export function probabilityAbove(values: (number | null)[], hurdle: number): number | null {
+  if (values.length === 0) return null;
+  return values.filter((v) => v != null && v >= hurdle).length / values.length;
+}
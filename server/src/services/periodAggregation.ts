@@ -0,0 +1,170 @@
+/**
+ * Period aggregation — roll quarterly and monthly periods up into calendar
+ * years and last-twelve-months (LTM) figures.
+ *
+ *   Calendar year   the four quarters / twelve months of a year, only when
+ *                   the year is complete
+ *   LTM             the four quarters / twelve months ending at each period
+ *                   end, when they are all present
+ *
+ * Flow items (revenue, EBITDA, capex, …) are summed; balance items (NIBD,
+ * share count, working capital, …) are taken from the last period. Margins
+ * are recomputed from the summed lines and growth is measured against the
+ * roll-up twelve months earlier; other ratios are left empty.
+ */
+
+import type { PeriodGranularity } from "./excelParser/types.js";
+import { TIME_WEIGHTED_FIELDS, periodDateKey } from "./calendarise.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const PERIODS_PER_YEAR: Record<PeriodGranularity, number> = {
+  annual: 1,
+  quarterly: 4,
+  monthly: 12,
+};
+
+/** Ratio columns that cannot be summed or carried from the last period. */
+const RATIO_FIELDS = [
+  "revenue_growth", "organic_growth", "managed_services_growth", "professional_services_growth",
+  "ebitda_margin", "margin_managed_services", "margin_professional_services", "margin_central_costs",
+  "capex_pct_revenue", "cash_conversion",
+] as const;
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = parseFloat(v as string);
+  return Number.isNaN(n) ? null : n;
+};
+
+/** Granularity of a financial_periods row (rows before quarters were supported are annual). */
+export function granularityOf(p: any): PeriodGranularity {
+  return p?.period_granularity ?? "annual";
+}
+
+export function isSubAnnual(p: any): boolean {
+  return granularityOf(p) !== "annual";
+}
+
+/** Months since year 0 for a period end. */
+function monthIndex(p: any): number {
+  const [y, m] = periodDateKey(p.period_date).split("-").map(Number);
+  return y * 12 + (m - 1);
+}
+
+/** Sum of a field; null only when every period is null. */
+function sumField(periods: any[], field: string): number | null {
+  let total = 0;
+  let seen = false;
+  for (const p of periods) {
+    const n = num(p[field]);
+    if (n === null) continue;
+    total += n;
+    seen = true;
+  }
+  return seen ? total : null;
+}
+
+const ratio = (a: number | null, b: number | null) => (a !== null && b ? a / b : null);
+
+/** Combine consecutive periods into one ending at the last of them. */
+function rollUp(periods: any[], label: string): any {
+  const last = periods[periods.length - 1];
+  const out: any = { ...last, period_label: label, period_granularity: "annual" };
+  delete out.id;
+  for (const field of TIME_WEIGHTED_FIELDS) out[field] = sumField(periods, field);
+  for (const field of RATIO_FIELDS) out[field] = null;
+
+  out.ebitda_margin = ratio(out.ebitda_total, out.revenue_total);
+  out.margin_managed_services = ratio(out.ebitda_managed_services, out.revenue_managed_services);
+  out.margin_professional_services = ratio(out.ebitda_professional_services, out.revenue_professional_services);
+
+  // Actual only when every period is; a year mixing actuals and budget reads as budget
+  const types = new Set(periods.map((p) => p.period_type));
+  out.period_type = types.size === 1 ? last.period_type : types.has("actual") ? "budget" : last.period_type;
+  return out;
+}
+
+/** Growth against the roll-up ending twelve months earlier, where there is one. */
+function withGrowth(rows: any[]): any[] {
+  const byMonth = new Map(rows.map((r) => [monthIndex(r), r]));
+  return rows.map((r) => {
+    const prior = byMonth.get(monthIndex(r) - 12);
+    if (!prior) return r;
+    const growth = (field: string) => {
+      const cur = num(r[field]);
+      const prev = num(prior[field]);
+      return cur !== null && prev ? cur / prev - 1 : null;
+    };
+    return { ...r, revenue_growth: growth("revenue_total"), organic_growth: growth("revenue_organic") };
+  });
+}
+
+/** Sub-annual rows of one granularity (the most common one), ordered by period end. */
+function subAnnualRows(periods: any[]): { rows: any[]; perYear: number } {
+  const sub = periods.filter(isSubAnnual);
+  if (sub.length === 0) return { rows: [], perYear: 1 };
+  const quarterly = sub.filter((p) => granularityOf(p) === "quarterly").length;
+  const granularity: PeriodGranularity = quarterly * 2 >= sub.length ? "quarterly" : "monthly";
+  const rows = sub
+    .filter((p) => granularityOf(p) === granularity)
+    .sort((a, b) => monthIndex(a) - monthIndex(b));
+  return { rows, perYear: PERIODS_PER_YEAR[granularity] };
+}
+
+/** Whether `rows` are evenly spaced periods with no gaps. */
+function consecutive(rows: any[], perYear: number): boolean {
+  const step = 12 / perYear;
+  return rows.every((r, i) => i === 0 || monthIndex(r) - monthIndex(rows[i - 1]) === step);
+}
+
+// ── Aggregation ────────────────────────────────────────────────────
+
+/**
+ * Calendar years rolled up from quarterly or monthly periods. Incomplete
+ * years (history starting mid-year, the current year in progress) are left
+ * out. Annual rows in the input are ignored.
+ */
+export function calendarYearPeriods(periods: any[]): any[] {
+  const { rows, perYear } = subAnnualRows(periods);
+  const byYear = new Map<number, any[]>();
+  for (const r of rows) {
+    const year = Math.floor(monthIndex(r) / 12);
+    byYear.set(year, [...(byYear.get(year) ?? []), r]);
+  }
+  const years = [...byYear.entries()]
+    .filter(([, ps]) => ps.length === perYear && consecutive(ps, perYear) && monthIndex(ps[ps.length - 1]) % 12 === 11)
+    .map(([year, ps]) => rollUp(ps, `${year}`));
+  return withGrowth(years);
+}
+
+/**
+ * LTM figures at each quarter / month end with a full twelve months of
+ * history, labelled "LTM Q3 2025" / "LTM Sep 2025".
+ */
+export function ltmPeriods(periods: any[]): any[] {
+  const { rows, perYear } = subAnnualRows(periods);
+  const out: any[] = [];
+  for (let i = perYear - 1; i < rows.length; i++) {
+    const window = rows.slice(i - perYear + 1, i + 1);
+    if (!consecutive(window, perYear)) continue;
+    out.push(rollUp(window, `LTM ${rows[i].period_label}`));
+  }
+  return withGrowth(out);
+}
+
+/**
+ * Annual view of a model's periods for the deal engines: annual rows as
+ * stored, plus calendar years rolled up from quarters or months where the
+ * model has no annual row for that year. Annual-only models are returned
+ * unchanged.
+ */
+export function toAnnualPeriods<T extends Record<string, any>>(periods: T[]): T[] {
+  if (!periods.some(isSubAnnual)) return periods;
+  const annual = periods.filter((p) => !isSubAnnual(p));
+  const years = new Set(annual.map((p) => Math.floor(monthIndex(p) / 12)));
+  const rolled = calendarYearPeriods(periods).filter((p) => !years.has(Math.floor(monthIndex(p) / 12)));
+  return [...annual, ...rolled].sort((a, b) => monthIndex(a) - monthIndex(b));
+}
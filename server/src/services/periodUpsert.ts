@@ -11,6 +11,7 @@ export const PERIOD_COLUMNS = [
   // Core identifiers
   "period_label",
   "period_type",
+  "period_granularity",
   // Revenue breakdown
   "revenue_managed_services",
   "revenue_professional_services",
@@ -48,6 +49,19 @@ export const PERIOD_COLUMNS = [
   "minority_interest",
   "operating_fcf_excl_minorities",
   "cash_conversion",
+  // Below EBITDA (tax expense is "tax" above)
+  "depreciation",
+  "amortisation",
+  "net_financial_items",
+  "net_income",
+  // Balance sheet
+  "trade_receivables",
+  "trade_payables",
+  "work_in_progress",
+  "deferred_revenue",
+  "cash",
+  "gross_debt",
+  "lease_liabilities",
   // Share / equity bridge
   "share_count",
   "nibd",
@@ -169,6 +183,8 @@ export function extractPeriodParams(
       params.push(valueMapper(col, period));
     } else if (col === "extra_data") {
       params.push(period.extra_data ? JSON.stringify(period.extra_data) : "{}");
+    } else if (col === "period_granularity") {
+      params.push(period.period_granularity ?? "annual");
     } else {
       params.push(period[col] ?? null);
     }
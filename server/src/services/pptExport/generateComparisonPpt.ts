@@ -0,0 +1,32 @@
+/**
+ * PPT Export — Scenario Comparison
+ *
+ * A one-slide deck with up to five scenarios side by side at a common exit
+ * multiple (see scenarioComparison.ts).
+ */
+
+import _PptxGenJS from "pptxgenjs";
+import type PptxGenJSType from "pptxgenjs";
+import type { ScenarioComparison } from "../scenarioComparison.js";
+
+// Handle CJS/ESM interop — tsx watch may wrap `module.exports = X` differently
+const PptxGenJS: typeof PptxGenJSType =
+  typeof _PptxGenJS === "function"
+    ? _PptxGenJS
+    : (_PptxGenJS as any).default;
+
+import { buildScenarioComparisonSlide } from "./slides/scenarioComparisonSlide.js";
+
+export async function generateComparisonPpt(comparison: ScenarioComparison): Promise<PptxGenJSType> {
+  const pres = new PptxGenJS();
+
+  pres.author = "ECIT Acquisition Analysis";
+  pres.company = "ECIT";
+  pres.subject = "Scenario comparison";
+  pres.title = `Scenario comparison — ${comparison.scenarios.map((s) => s.name).join(", ")}`;
+  pres.layout = "LAYOUT_WIDE";
+
+  buildScenarioComparisonSlide(pres, comparison);
+
+  return pres;
+}
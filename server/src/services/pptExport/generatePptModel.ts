@@ -1,7 +1,7 @@
 /**
  * PPT Export Service — Investment Committee Presentation
  *
- * Generates a .pptx presentation per scenario containing 8 slides:
+ * Generates a .pptx presentation per scenario containing 8 slides (9 with the tornado):
  *   1. Title — Scenario name, companies, date, ECIT branding
  *   2. Transaction Overview — Key deal params + entry EV summary
  *   3. Pro Forma P&L — Revenue/EBITDA bars + margin table
@@ -10,6 +10,7 @@
  *   6. Equity Bridge — EV → EQV → per-share waterfall
  *   7. Deal Returns — IRR/MoM heatmap matrices
  *   8. Sensitivity — Heatmap + synergies timeline
+ *   9. Tornado — one-at-a-time sensitivities (only when data.tornado is set)
  *
  * Uses the same ExportData object as the Excel export.
  */
@@ -32,6 +33,7 @@ import { buildDebtProfileSlide } from "./slides/debtProfileSlide.js";
 import { buildEquityBridgeSlide } from "./slides/equityBridgeSlide.js";
 import { buildDealReturnsSlide } from "./slides/dealReturnsSlide.js";
 import { buildSensitivitySlide } from "./slides/sensitivitySlide.js";
+import { buildTornadoSlide } from "./slides/tornadoSlide.js";
 
 export async function generatePptModel(data: ExportData): Promise<PptxGenJSType> {
   const pres = new PptxGenJS();
@@ -45,7 +47,7 @@ export async function generatePptModel(data: ExportData): Promise<PptxGenJSType>
   // 16:9 widescreen layout
   pres.layout = "LAYOUT_WIDE";
 
-  // Build all 8 slides
+  // Build the 8 standard slides, plus the optional tornado
   buildTitleSlide(pres, data);
   buildTransactionOverviewSlide(pres, data);
   buildProFormaSlide(pres, data);
@@ -54,6 +56,7 @@ export async function generatePptModel(data: ExportData): Promise<PptxGenJSType>
   buildEquityBridgeSlide(pres, data);
   buildDealReturnsSlide(pres, data);
   buildSensitivitySlide(pres, data);
+  if (data.tornado) buildTornadoSlide(pres, data);
 
   return pres;
 }
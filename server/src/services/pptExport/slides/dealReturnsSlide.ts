@@ -7,7 +7,7 @@ import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import type { CaseReturn } from "../../dealReturns.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL_RIGHT,
   fmtNum, fmtPct, fmtMult, irrColor, momColor,
   SLIDE_WIDTH,
@@ -77,7 +77,7 @@ export function buildDealReturnsSlide(pres: PptxGenJS, data: ExportData): void {
       x: 1, y: 3, w: SLIDE_WIDTH - 2, h: 1,
       fontSize: 14, color: COLORS.darkGray, align: "center",
     });
-    addSlideFooter(slide, 7, 8);
+    addSlideFooter(slide, 7, totalSlides(data));
     return;
   }
 
@@ -149,5 +149,5 @@ export function buildDealReturnsSlide(pres: PptxGenJS, data: ExportData): void {
     );
   }
 
-  addSlideFooter(slide, 7, 8);
+  addSlideFooter(slide, 7, totalSlides(data));
 }
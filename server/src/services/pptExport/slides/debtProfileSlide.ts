@@ -7,7 +7,7 @@ import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import type { DebtScheduleRow } from "../../dealReturns.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT, TABLE_TOTAL_ROW,
   fmtNum, fmtMult, SLIDE_WIDTH,
 } from "../styles.js";
@@ -23,7 +23,7 @@ export function buildDebtProfileSlide(pres: PptxGenJS, data: ExportData): void {
       x: 1, y: 3, w: SLIDE_WIDTH - 2, h: 1,
       fontSize: 14, color: COLORS.darkGray, align: "center",
     });
-    addSlideFooter(slide, 5, 8);
+    addSlideFooter(slide, 5, totalSlides(data));
     return;
   }
 
@@ -80,5 +80,5 @@ export function buildDebtProfileSlide(pres: PptxGenJS, data: ExportData): void {
     border: { type: "solid", pt: 0.5, color: COLORS.medGray },
   });
 
-  addSlideFooter(slide, 5, 8);
+  addSlideFooter(slide, 5, totalSlides(data));
 }
@@ -7,7 +7,7 @@
 import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT, TABLE_TOTAL_ROW,
   fmtNum, fmtMult, SLIDE_WIDTH,
 } from "../styles.js";
@@ -24,7 +24,7 @@ export function buildEquityBridgeSlide(pres: PptxGenJS, data: ExportData): void
       x: 1, y: 3, w: SLIDE_WIDTH - 2, h: 1,
       fontSize: 14, color: COLORS.darkGray, align: "center",
     });
-    addSlideFooter(slide, 6, 8);
+    addSlideFooter(slide, 6, totalSlides(data));
     return;
   }
 
@@ -140,5 +140,5 @@ export function buildEquityBridgeSlide(pres: PptxGenJS, data: ExportData): void
     border: { type: "solid", pt: 0.5, color: COLORS.medGray },
   });
 
-  addSlideFooter(slide, 6, 8);
+  addSlideFooter(slide, 6, totalSlides(data));
 }
@@ -6,7 +6,7 @@
 import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT, TABLE_TOTAL_ROW,
   fmtNum, fmtPct, SLIDE_WIDTH,
 } from "../styles.js";
@@ -21,7 +21,7 @@ export function buildProFormaSlide(pres: PptxGenJS, data: ExportData): void {
       x: 1, y: 3, w: SLIDE_WIDTH - 2, h: 1,
       fontSize: 14, color: COLORS.darkGray, align: "center",
     });
-    addSlideFooter(slide, 3, 8);
+    addSlideFooter(slide, 3, totalSlides(data));
     return;
   }
 
@@ -77,5 +77,5 @@ export function buildProFormaSlide(pres: PptxGenJS, data: ExportData): void {
     border: { type: "solid", pt: 0.5, color: COLORS.medGray },
   });
 
-  addSlideFooter(slide, 3, 8);
+  addSlideFooter(slide, 3, totalSlides(data));
 }
@@ -0,0 +1,125 @@
+/**
+ * Scenario comparison slide
+ *
+ * Up to five scenarios side by side at one exit multiple: entry, capital
+ * structure, combined returns, accretion and dilution. The best value per
+ * metric is shown in green and the worst in red; metrics where the
+ * scenarios differ are in bold.
+ */
+import type PptxGenJS from "pptxgenjs";
+import type { ComparisonMetric, ScenarioComparison } from "../../scenarioComparison.js";
+import {
+  COLORS, addSlideTitle, addSlideFooter,
+  TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT,
+  fmtNum, fmtPct, fmtMult,
+  SMALL_OPTS, SLIDE_WIDTH,
+} from "../styles.js";
+
+type Format = "num" | "pct" | "mult" | "mom" | "pp";
+
+const ROWS: { section: string; metrics: [ComparisonMetric, string, Format][] }[] = [
+  {
+    section: "Inngang",
+    metrics: [
+      ["price_paid", "Kjopspris", "num"],
+      ["entry_multiple", "Inngangsmultippel (EV/EBITDA)", "mult"],
+    ],
+  },
+  {
+    section: "Kapitalstruktur",
+    metrics: [
+      ["net_debt", "Gjeld ved inngang", "num"],
+      ["leverage", "Belaning (gjeld / PF EBITDA)", "mult"],
+      ["debt_share", "Gjeldsandel av finansiering", "pct"],
+    ],
+  },
+  {
+    section: "Avkastning (kombinert)",
+    metrics: [
+      ["combined_irr", "IRR", "pct"],
+      ["combined_mom", "MoM", "mom"],
+      ["per_share_irr", "IRR per aksje", "pct"],
+      ["per_share_mom", "MoM per aksje", "mom"],
+    ],
+  },
+  {
+    section: "Akkresjon og utvanning",
+    metrics: [
+      ["irr_accretion", "IRR-akkresjon vs. standalone", "pp"],
+      ["mom_accretion", "MoM-akkresjon vs. standalone", "mom"],
+      ["exit_dilution", "Utvanning ved exit", "pct"],
+    ],
+  },
+];
+
+function fmtValue(format: Format, v: number | null): string {
+  if (format === "num") return fmtNum(v);
+  if (format === "mult") return fmtMult(v);
+  if (format === "mom") return fmtMult(v, 2);
+  if (format === "pp") return v == null ? "–" : `${v > 0 ? "+" : ""}${fmtNum(v * 100, 1)}pp`;
+  return fmtPct(v);
+}
+
+export function buildScenarioComparisonSlide(pres: PptxGenJS, comparison: ScenarioComparison): void {
+  const slide = pres.addSlide();
+  addSlideTitle(
+    slide,
+    "Sammenligning av scenarier",
+    `${comparison.scenarios.length} scenarier ved ${fmtMult(comparison.exit_multiple)} exit-multippel`,
+  );
+
+  const byMetric = new Map(comparison.metrics.map((m) => [m.metric, m]));
+  const n = comparison.scenarios.length;
+  const tableW = SLIDE_WIDTH - 1;
+  const labelW = 3.2;
+  const colW = (tableW - labelW) / n;
+
+  const rows: any[][] = [
+    [
+      { text: "", options: TABLE_HEADER },
+      ...comparison.scenarios.map((s) => ({ text: s.name, options: TABLE_HEADER })),
+    ],
+    [
+      { text: "Transaksjon", options: { ...TABLE_CELL, italic: true } },
+      ...comparison.scenarios.map((s) => ({
+        text: [s.acquirer_model_name, s.target_company_name].filter(Boolean).join(" + ") || "–",
+        options: { ...TABLE_CELL, italic: true, align: "center" as const },
+      })),
+    ],
+  ];
+
+  for (const { section, metrics } of ROWS) {
+    rows.push([
+      { text: section, options: { ...TABLE_CELL, bold: true, fill: { color: COLORS.lightGray }, colspan: n + 1 } },
+    ]);
+    for (const [metric, label, format] of metrics) {
+      const summary = byMetric.get(metric);
+      const differs = summary?.differs ?? false;
+      rows.push([
+        { text: label, options: { ...TABLE_CELL, bold: differs } },
+        ...comparison.scenarios.map((s) => {
+          const color = summary?.best.includes(s.id)
+            ? COLORS.green
+            : summary?.worst.includes(s.id) ? COLORS.red : COLORS.darkGray;
+          return {
+            text: fmtValue(format, s.metrics[metric]),
+            options: { ...TABLE_CELL_RIGHT, color, bold: differs },
+          };
+        }),
+      ]);
+    }
+  }
+
+  slide.addTable(rows, {
+    x: 0.5, y: 1.1, w: tableW,
+    colW: [labelW, ...Array(n).fill(colW)],
+    rowH: 0.3,
+    border: { type: "solid", pt: 0.5, color: COLORS.medGray },
+  });
+
+  slide.addText("Gronn = best, rod = svakest. Fet skrift markerer nokkeltall der scenariene er ulike.", {
+    x: 0.5, y: 6.8, w: tableW, h: 0.25, ...SMALL_OPTS, color: "999999",
+  });
+
+  addSlideFooter(slide, 1, 1);
+}
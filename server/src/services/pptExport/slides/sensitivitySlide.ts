@@ -7,7 +7,7 @@
 import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT, TABLE_TOTAL_ROW,
   fmtNum, fmtPct, fmtMult, irrColor, momColor,
   SLIDE_WIDTH, BODY_OPTS,
@@ -168,5 +168,5 @@ export function buildSensitivitySlide(pres: PptxGenJS, data: ExportData): void {
     });
   }
 
-  addSlideFooter(slide, 8, 8);
+  addSlideFooter(slide, 8, totalSlides(data));
 }
@@ -6,7 +6,7 @@
 import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT, TABLE_TOTAL_ROW,
   fmtNum,
 } from "../styles.js";
@@ -107,5 +107,5 @@ export function buildSourcesUsesSlide(pres: PptxGenJS, data: ExportData): void {
     });
   }
 
-  addSlideFooter(slide, 4, 8);
+  addSlideFooter(slide, 4, totalSlides(data));
 }
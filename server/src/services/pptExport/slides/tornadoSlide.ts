@@ -0,0 +1,122 @@
+/**
+ * Slide 9 — Tornado (optional)
+ *
+ * One-at-a-time sensitivities: IRR change vs. base when each parameter moves
+ * to its low / high value, largest swing on top, with the values behind it.
+ */
+import type PptxGenJS from "pptxgenjs";
+import type { ExportData } from "../../excelExport/types.js";
+import type { SensitivityParam } from "../../proForma.js";
+import {
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
+  TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT,
+  fmtNum, fmtPct, fmtMult, irrColor,
+  SMALL_OPTS,
+} from "../styles.js";
+
+const PARAM_LABELS: Record<SensitivityParam, string> = {
+  exit_multiple: "Exit-multippel",
+  price_paid: "Kjopspris",
+  interest_rate: "Rente",
+  ordinary_equity: "Ordinaer EK",
+  net_debt: "Netto gjeld",
+  debt_amortisation: "Avdrag",
+  cash_sweep_pct: "Cash sweep",
+  preferred_equity_rate: "Pref. rente",
+  tax_rate: "Skattesats",
+  preferred_equity: "Preferanse-EK",
+  da_pct_revenue: "D&A % av omsetning",
+  acquirer_entry_ev: "Oppkjoper inngangs-EV",
+  base_rate_shift: "Basisrente-skift",
+};
+
+const MAX_ROWS = 10;
+
+function fmtValue(param: SensitivityParam, v: number): string {
+  if (param === "exit_multiple") return fmtMult(v);
+  if (["price_paid", "ordinary_equity", "net_debt", "debt_amortisation", "preferred_equity", "acquirer_entry_ev"].includes(param)) {
+    return fmtNum(v);
+  }
+  return fmtPct(v);
+}
+
+export function buildTornadoSlide(pres: PptxGenJS, data: ExportData): void {
+  const tornado = data.tornado;
+  if (!tornado) return;
+
+  const slide = pres.addSlide();
+  addSlideTitle(
+    slide,
+    "Tornado — enkeltvis sensitivitet",
+    `${tornado.return_case} IRR ved ${fmtMult(tornado.exit_multiple)}: basis ${fmtPct(tornado.base_irr)}, MoM ${fmtMult(tornado.base_mom)}`,
+  );
+
+  const rows = tornado.rows.slice(0, MAX_ROWS);
+  if (!rows.length || tornado.base_irr == null) {
+    slide.addText("Ingen IRR tilgjengelig for tornado-analysen.", {
+      x: 0.5, y: 1.4, w: 8, h: 0.4, ...SMALL_OPTS,
+    });
+    addSlideFooter(slide, 9, totalSlides(data));
+    return;
+  }
+
+  // --- Left: IRR change vs. base per side (largest swing on top) ---
+  // Horizontal bars draw the first category at the bottom, so feed them reversed
+  const base = tornado.base_irr;
+  const delta = (irr: number | null) => (irr != null ? (irr - base) * 100 : 0);
+  const chartRows = [...rows].reverse();
+  const labels = chartRows.map((r) => PARAM_LABELS[r.param]);
+
+  slide.addChart(pres.ChartType.bar, [
+    { name: "Lav", labels, values: chartRows.map((r) => delta(r.low.irr)) },
+    { name: "Hoy", labels, values: chartRows.map((r) => delta(r.high.irr)) },
+  ], {
+    x: 0.5, y: 1.1, w: 6.3, h: 5.6,
+    barDir: "bar",
+    barGrouping: "clustered",
+    barOverlapPct: 100,
+    barGapWidthPct: 40,
+    catAxisLabelFontSize: 8,
+    valAxisLabelFontSize: 8,
+    valAxisLabelFormatCode: "0.0\"pp\"",
+    chartColors: [COLORS.chart2, COLORS.navy],
+    showLegend: true,
+    legendPos: "b",
+    legendFontSize: 8,
+    showTitle: false,
+  });
+
+  // --- Right: values behind each bar ---
+  const tableRows: any[][] = [
+    [
+      { text: "Parameter", options: TABLE_HEADER },
+      { text: "Lav", options: TABLE_HEADER },
+      { text: "Basis", options: TABLE_HEADER },
+      { text: "Hoy", options: TABLE_HEADER },
+      { text: "IRR lav", options: TABLE_HEADER },
+      { text: "IRR hoy", options: TABLE_HEADER },
+      { text: "Utslag", options: TABLE_HEADER },
+    ],
+  ];
+
+  for (const r of rows) {
+    tableRows.push([
+      { text: PARAM_LABELS[r.param], options: TABLE_CELL },
+      { text: fmtValue(r.param, r.low.value), options: TABLE_CELL_RIGHT },
+      { text: fmtValue(r.param, r.base_value), options: TABLE_CELL_RIGHT },
+      { text: fmtValue(r.param, r.high.value), options: TABLE_CELL_RIGHT },
+      { text: fmtPct(r.low.irr), options: { ...TABLE_CELL_RIGHT, color: irrColor(r.low.irr) } },
+      { text: fmtPct(r.high.irr), options: { ...TABLE_CELL_RIGHT, color: irrColor(r.high.irr) } },
+      { text: r.irr_swing != null ? `${fmtNum(r.irr_swing * 100, 1)}pp` : "–", options: { ...TABLE_CELL_RIGHT, bold: true } },
+    ]);
+  }
+
+  slide.addTable(tableRows, {
+    x: 7.0, y: 1.2, w: 5.8,
+    colW: [1.5, 0.7, 0.7, 0.7, 0.75, 0.75, 0.7],
+    rowH: 0.32,
+    border: { type: "solid", pt: 0.5, color: COLORS.medGray },
+  });
+
+  addSlideFooter(slide, 9, totalSlides(data));
+}
@@ -6,7 +6,7 @@
 import type PptxGenJS from "pptxgenjs";
 import type { ExportData } from "../../excelExport/types.js";
 import {
-  COLORS, addSlideTitle, addSlideFooter,
+  COLORS, addSlideTitle, addSlideFooter, totalSlides,
   TABLE_HEADER, TABLE_CELL, TABLE_CELL_RIGHT,
   fmtNum, fmtPct, fmtMult, BODY_OPTS,
 } from "../styles.js";
@@ -134,5 +134,22 @@ export function buildTransactionOverviewSlide(pres: PptxGenJS, data: ExportData)
     italic: true,
   });
 
-  addSlideFooter(slide, 2, 8);
+  // FX rates used to convert into the reporting currency
+  const fxLines = (data.fx?.conversions ?? [])
+    .filter((c) => c.missing_rate || Object.values(c.rates).some((r) => r !== 1))
+    .map((c) => {
+      const name = c.side === "acquirer" ? data.acquirerName : data.targetName;
+      if (c.missing_rate) return `${name}: ${c.currency} — mangler valutakurs`;
+      const rates = Object.entries(c.rates).map(([y, r]) => `${y}: ${fmtNum(r, 4)}`).join(", ");
+      return `${name}: ${c.currency} → ${data.fx!.reporting_currency} (${rates})`;
+    });
+  if (fxLines.length > 0) {
+    slide.addText(`Valuta: ${fxLines.join("\n")}`, {
+      x: 6.8, y: 3.9, w: 6.0, h: 0.3 * fxLines.length,
+      ...BODY_OPTS,
+      fontSize: 9,
+    });
+  }
+
+  addSlideFooter(slide, 2, totalSlides(data));
 }
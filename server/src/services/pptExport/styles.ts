@@ -4,6 +4,8 @@
  * ECIT brand palette + IC deck formatting conventions.
  */
 
+import type { ExportData } from "../excelExport/types.js";
+
 // ── ECIT Color Palette ─────────────────────────────────────────────
 export const COLORS = {
   navy: "002C55",         // primary dark navy
@@ -164,6 +166,11 @@ export function addSlideTitle(
 }
 
 /** Add a footer with page number and date */
+/** Slides in the deck: 8, plus the tornado slide when included. */
+export function totalSlides(data: ExportData): number {
+  return data.tornado ? 9 : 8;
+}
+
 export function addSlideFooter(
   slide: any,
   pageNum: number,
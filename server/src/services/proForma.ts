@@ -7,7 +7,21 @@
  * (/compare, /calculate-returns, /sensitivity, /generate-pro-forma, /export-excel).
  */
 
-import type { DealParameters, PeriodData } from "./dealReturns.js";
+import {
+  DEFAULT_CASH_SWEEP_PCT,
+  entryDebtRate,
+  scaleDebtAmortisation,
+  scaleDebtTranches,
+  shiftDebtRate,
+  totalDebtAmortisation,
+  type DealParameters,
+  type PeriodData,
+} from "./dealReturns.js";
+import { alignTargetPeriods, periodDateKey, type TargetAlignment } from "./calendarise.js";
+import { toIsoDate } from "./dealTimeline.js";
+import { periodSynergies, type SynergyInput } from "./synergies.js";
+import { ppaAmortisationSchedule } from "./eps.js";
+import { nwcCashFlow } from "./balanceSheet.js";
 
 // ── Types ──────────────────────────────────────────────────────────
 
@@ -31,8 +45,13 @@ export interface ProFormaPeriodRaw {
   total_ebitda_excl_synergies: number;
   ebitda_margin_excl_synergies: number;
   cost_synergies: number;
+  /** Realised revenue synergies and the EBITDA they earn. */
+  revenue_synergies?: number;
+  revenue_synergy_ebitda?: number;
   total_ebitda_incl_synergies: number;
   ebitda_margin_incl_synergies: number;
+  /** One-off integration costs (negative = outflow), below EBITDA. */
+  integration_costs?: number;
   total_capex: number;
   total_change_nwc: number;
   total_other_cash_flow: number;
@@ -40,12 +59,23 @@ export interface ProFormaPeriodRaw {
   minority_interest: number;
   operating_fcf_excl_minorities: number;
   cash_conversion: number;
+  /** Below-EBITDA lines: combined reported figures (null when neither party reports them). */
+  total_depreciation?: number | null;
+  total_amortisation?: number | null;
+  total_net_financial_items?: number | null;
+  /** Amortisation of intangibles from the purchase price allocation. */
+  ppa_amortisation?: number;
+  /** How the target figures were matched to this period (absent without a target). */
+  target_alignment?: TargetAlignment;
 }
 
 export interface DealParamAssumptions {
   target_capex_pct_revenue?: number;
   target_nwc_pct_revenue?: number;
   minority_pct?: number;
+  ppa_intangibles?: number;
+  ppa_amortisation_years?: number;
+  acquisition_date?: string;
 }
 
 // ── Source Classification ──────────────────────────────────────────
@@ -210,7 +240,9 @@ export function computeNibdFcf(periods: any[]): (number | undefined)[] {
 
 /**
  * Build in-memory pro forma periods by combining acquirer + target periods.
- * Matches by period_date. Only acquirer periods are iterated (target joined).
+ * Matches by period_date; a target with another fiscal year-end is
+ * calendarised onto the acquirer's dates (see calendarise.ts). Only acquirer
+ * periods are iterated (target joined).
  *
  * This is the "compare" variant that computes capex/NWC using deal_parameters
  * assumptions for target fallback and minority interest.
@@ -220,20 +252,25 @@ export function buildProFormaPeriods(
   targetPeriods: any[],
   dealParamAssumptions?: DealParamAssumptions,
 ): ProFormaPeriodRaw[] {
-  const targetByDate = new Map<string, any>();
-  for (const t of targetPeriods) {
-    targetByDate.set(t.period_date.toISOString().split("T")[0], t);
-  }
+  const aligned = alignTargetPeriods(acquirerPeriods, targetPeriods);
 
   const tgtCapexPct = dealParamAssumptions?.target_capex_pct_revenue ?? 0;
   const tgtNwcPct = dealParamAssumptions?.target_nwc_pct_revenue ?? 0;
   const minorityPct = dealParamAssumptions?.minority_pct ?? 0;
+  const ppa = ppaAmortisationSchedule(acquirerPeriods, dealParamAssumptions ?? {});
+
+  // Sum of the reported figures; costs as positive amounts unless signed
+  const combined = (ap: any, tp: any, field: string, signed = false): number | null => {
+    const values = [ap[field], tp?.[field]].filter((v) => v != null && !isNaN(parseFloat(v)));
+    if (values.length === 0) return null;
+    return values.reduce((sum, v) => sum + (signed ? parseFloat(v) : Math.abs(parseFloat(v))), 0);
+  };
 
   const result: ProFormaPeriodRaw[] = [];
 
-  for (const ap of acquirerPeriods) {
-    const dateKey = ap.period_date.toISOString().split("T")[0];
-    const tp = targetByDate.get(dateKey);
+  for (const [i, ap] of acquirerPeriods.entries()) {
+    const match = aligned.get(periodDateKey(ap.period_date));
+    const tp = match?.period;
 
     const acquirerRevenue = parseFloat(ap.revenue_total) || 0;
     const targetRevenue = tp ? parseFloat(tp.revenue_total) || 0 : 0;
@@ -244,19 +281,18 @@ export function buildProFormaPeriods(
     const totalEbitda = acquirerEbitda + targetEbitda;
 
     // Acquirer capex/NWC: DB stores positive values; negate to outflow convention
-    // (FCF = EBITDA + Capex + NWC where Capex/NWC must be negative)
+    // (FCF = EBITDA + Capex + NWC where Capex/NWC must be negative). A ΔNWC
+    // derived from the balance sheet keeps its sign.
     const acqCapex = -(Math.abs(parseFloat(ap.capex) || 0));
-    const acqNwc = -(Math.abs(parseFloat(ap.change_nwc) || 0));
+    const acqNwc = nwcCashFlow(ap) ?? 0;
 
     // Target capex/NWC: use period data if available (negated), otherwise apply % assumptions
     const rawTgtCapex = tp ? parseFloat(tp.capex) : NaN;
-    const rawTgtNwc = tp ? parseFloat(tp.change_nwc) : NaN;
+    const periodTgtNwc = tp ? nwcCashFlow(tp) : undefined;
     const tgtCapex = !isNaN(rawTgtCapex)
       ? -(Math.abs(rawTgtCapex))
       : (tgtCapexPct > 0 ? -(targetRevenue * tgtCapexPct) : 0);
-    const tgtNwc = !isNaN(rawTgtNwc)
-      ? -(Math.abs(rawTgtNwc))
-      : (tgtNwcPct > 0 ? -(targetRevenue * tgtNwcPct) : 0);
+    const tgtNwc = periodTgtNwc ?? (tgtNwcPct > 0 ? -(targetRevenue * tgtNwcPct) : 0);
 
     const totalCapex = acqCapex + tgtCapex;
     const totalNwc = acqNwc + tgtNwc;
@@ -280,8 +316,11 @@ export function buildProFormaPeriods(
       total_ebitda_excl_synergies: totalEbitda,
       ebitda_margin_excl_synergies: totalRevenue > 0 ? totalEbitda / totalRevenue : 0,
       cost_synergies: 0,
+      revenue_synergies: 0,
+      revenue_synergy_ebitda: 0,
       total_ebitda_incl_synergies: totalEbitda,
       ebitda_margin_incl_synergies: totalRevenue > 0 ? totalEbitda / totalRevenue : 0,
+      integration_costs: 0,
       total_capex: totalCapex,
       total_change_nwc: totalNwc,
       total_other_cash_flow: totalOther,
@@ -289,6 +328,11 @@ export function buildProFormaPeriods(
       minority_interest: minorityAmount,
       operating_fcf_excl_minorities: opFcfExclMinorities,
       cash_conversion: totalEbitda > 0 ? opFcf / totalEbitda : 0,
+      total_depreciation: combined(ap, tp, "depreciation"),
+      total_amortisation: combined(ap, tp, "amortisation"),
+      total_net_financial_items: combined(ap, tp, "net_financial_items", true),
+      ppa_amortisation: ppa[i],
+      ...(targetPeriods.length > 0 && match && { target_alignment: match.alignment }),
     });
   }
 
@@ -296,18 +340,23 @@ export function buildProFormaPeriods(
 }
 
 /**
- * Apply synergies from a timeline to an array of pro forma periods (mutates in-place).
+ * Apply synergies from a timeline or synergy plan to an array of pro forma
+ * periods (mutates in-place). The incl. synergies margin is measured on
+ * revenue including revenue synergies.
  */
 export function applySynergies(
   proFormaPeriods: ProFormaPeriodRaw[],
-  synergiesTimeline: Record<string, number>,
+  synergies: SynergyInput,
 ): void {
   for (const pf of proFormaPeriods) {
     const year = new Date(pf.period_date).getFullYear().toString();
-    const synergy = synergiesTimeline[year] || 0;
-    pf.cost_synergies = synergy;
-    pf.total_ebitda_incl_synergies = pf.total_ebitda_excl_synergies + synergy;
-    const rev = pf.total_revenue || 0;
+    const syn = periodSynergies(synergies, year);
+    pf.cost_synergies = syn.cost;
+    pf.revenue_synergies = syn.revenue;
+    pf.revenue_synergy_ebitda = syn.revenue_ebitda;
+    pf.integration_costs = syn.integration_costs;
+    pf.total_ebitda_incl_synergies = pf.total_ebitda_excl_synergies + syn.ebitda;
+    const rev = (pf.total_revenue || 0) + syn.revenue;
     pf.ebitda_margin_incl_synergies = rev > 0 ? pf.total_ebitda_incl_synergies / rev : 0;
   }
 }
@@ -320,7 +369,8 @@ export function buildAcquirerPeriodData(acquirerPeriods: any[]): PeriodData[] {
     ebitda: parseFloat(p.ebitda_total) || 0,
     revenue: parseFloat(p.revenue_total) || 0,
     capex: p.capex != null ? -(Math.abs(parseFloat(p.capex))) : undefined,
-    change_nwc: p.change_nwc != null ? -(Math.abs(parseFloat(p.change_nwc))) : undefined,
+    change_nwc: nwcCashFlow(p),
+    period_date: p.period_date ? periodDateKey(p.period_date) : undefined,
   }));
 }
 
@@ -330,8 +380,9 @@ export function buildTargetPeriodData(targetPeriods: any[], nibdFcf?: (number |
     ebitda: parseFloat(p.ebitda_total) || 0,
     revenue: parseFloat(p.revenue_total) || 0,
     capex: p.capex != null ? -(Math.abs(parseFloat(p.capex))) : undefined,
-    change_nwc: p.change_nwc != null ? -(Math.abs(parseFloat(p.change_nwc))) : undefined,
+    change_nwc: nwcCashFlow(p),
     nibd_fcf: nibdFcf?.[i],
+    period_date: p.period_date ? periodDateKey(p.period_date) : undefined,
   }));
 }
 
@@ -342,65 +393,61 @@ export function buildTargetPeriodData(targetPeriods: any[], nibdFcf?: (number |
 export function buildProFormaPeriodData(
   acquirerPeriods: any[],
   targetPeriods: any[],
-  synergiesTimeline: Record<string, number>,
+  synergies: SynergyInput,
   dp: DealParameters,
   tgtNibdFcf?: (number | undefined)[],
 ): PeriodData[] {
-  const targetByDate = new Map<string, any>();
-  for (const t of targetPeriods) {
-    targetByDate.set(t.period_date.toISOString().split("T")[0], t);
-  }
+  const aligned = alignTargetPeriods(acquirerPeriods, targetPeriods);
 
   // Target-specific capex/NWC rates (mirrors buildProFormaPeriods display logic)
   const tgtCapexPct = dp.target_capex_pct_revenue ?? 0;
   const tgtNwcPct = dp.target_nwc_pct_revenue ?? 0;
 
   return acquirerPeriods.map((ap: any, idx: number) => {
-    const dateKey = ap.period_date.toISOString().split("T")[0];
-    const tp = targetByDate.get(dateKey);
+    const dateKey = periodDateKey(ap.period_date);
+    const tp = aligned.get(dateKey)?.period;
     const year = ap.period_date.getFullYear().toString();
-    const synergy = synergiesTimeline[year] || 0;
+    const syn = periodSynergies(synergies, year);
 
     const acqEbitda = parseFloat(ap.ebitda_total) || 0;
     const tgtEbitda = tp ? parseFloat(tp.ebitda_total) || 0 : 0;
     const tgtRevenue = tp ? parseFloat(tp.revenue_total) || 0 : 0;
 
     // Find the target index matching this date for NIBD FCF lookup
+    // (calendarised periods have no exact match and skip NIBD FCF)
     const tgtIdx = tgtNibdFcf
       ? targetPeriods.findIndex((t: any) => t.period_date.toISOString().split("T")[0] === dateKey)
       : -1;
     const tgtFcf = tgtIdx >= 0 ? tgtNibdFcf![tgtIdx] : undefined;
 
     // If target has NIBD-derived FCF, build a combined pro forma FCF:
-    //   acquirer FCF (computed from EBITDA-tax) + target NIBD FCF + synergies
+    //   acquirer FCF (computed from EBITDA-tax) + target NIBD FCF + synergies − integration costs
     let pfNibdFcf: number | undefined;
     if (tgtFcf != null) {
       const taxRate = dp.tax_rate ?? 0.22;
       const daPctRevenue = dp.da_pct_revenue ?? 0.01;
       const acqRevenue = parseFloat(ap.revenue_total) || 0;
       const acqCapex = ap.capex != null ? -(Math.abs(parseFloat(ap.capex))) : 0;
-      const acqNwc = ap.change_nwc != null ? -(Math.abs(parseFloat(ap.change_nwc))) : 0;
+      const acqNwc = nwcCashFlow(ap) ?? 0;
       const daProxy = acqRevenue > 0 ? acqRevenue * daPctRevenue : Math.abs(acqEbitda) * daPctRevenue;
       const ebtProxy = acqEbitda - daProxy;
       const tax = ebtProxy > 0 ? -ebtProxy * taxRate : 0;
       const acqFcf = acqEbitda + tax + acqCapex + acqNwc;
-      pfNibdFcf = acqFcf + tgtFcf + synergy;
+      pfNibdFcf = acqFcf + tgtFcf + syn.ebitda + syn.integration_costs;
     }
 
     // Acquirer capex/NWC: DB stores positive values; negate to outflow convention
     const acqCapex = ap.capex != null ? -(Math.abs(parseFloat(ap.capex))) : undefined;
-    const acqNwc = ap.change_nwc != null ? -(Math.abs(parseFloat(ap.change_nwc))) : undefined;
+    const acqNwc = nwcCashFlow(ap);
 
     // Target capex/NWC: use period data if available (negated), otherwise apply target-specific % assumptions
     // (mirrors buildProFormaPeriods display logic for consistency)
     const rawTgtCapex = tp?.capex != null ? parseFloat(tp.capex) : NaN;
-    const rawTgtNwc = tp?.change_nwc != null ? parseFloat(tp.change_nwc) : NaN;
+    const periodTgtNwc = tp ? nwcCashFlow(tp) : undefined;
     const tgtCapex = !isNaN(rawTgtCapex)
       ? -(Math.abs(rawTgtCapex))
       : (tgtCapexPct > 0 ? -(tgtRevenue * tgtCapexPct) : undefined);
-    const tgtNwc = !isNaN(rawTgtNwc)
-      ? -(Math.abs(rawTgtNwc))
-      : (tgtNwcPct > 0 ? -(tgtRevenue * tgtNwcPct) : undefined);
+    const tgtNwc = periodTgtNwc ?? (tgtNwcPct > 0 ? -(tgtRevenue * tgtNwcPct) : undefined);
 
     // Combine capex/NWC: only defined if at least one side has a value
     const combinedCapex = (acqCapex != null || tgtCapex != null)
@@ -411,11 +458,13 @@ export function buildProFormaPeriodData(
       : undefined;
 
     return {
-      ebitda: acqEbitda + tgtEbitda + synergy,
-      revenue: (parseFloat(ap.revenue_total) || 0) + tgtRevenue,
+      ebitda: acqEbitda + tgtEbitda + syn.ebitda,
+      revenue: (parseFloat(ap.revenue_total) || 0) + tgtRevenue + syn.revenue,
       capex: combinedCapex,
       change_nwc: combinedNwc,
+      integration_costs: syn.integration_costs || undefined,
       nibd_fcf: pfNibdFcf,
+      period_date: dateKey,
     };
   });
 }
@@ -426,18 +475,20 @@ export function buildProFormaPeriodData(
  */
 export function buildProFormaPeriodDataFromStored(
   storedPeriods: any[],
-  synergiesTimeline: Record<string, number>,
+  synergies: SynergyInput,
 ): PeriodData[] {
   return storedPeriods.map((p: any) => {
     const year = new Date(p.period_date).getFullYear().toString();
-    const synergy = synergiesTimeline[year] || 0;
+    const syn = periodSynergies(synergies, year);
     return {
-      ebitda: (p.total_ebitda_excl_synergies || 0) + synergy,
-      revenue: p.total_revenue || 0,
+      ebitda: (p.total_ebitda_excl_synergies || 0) + syn.ebitda,
+      revenue: (p.total_revenue || 0) + syn.revenue,
       // Ensure outflow convention: negate abs value to handle both old (positive)
       // and new (negative) stored data consistently
       capex: p.total_capex != null ? -(Math.abs(p.total_capex)) : undefined,
       change_nwc: p.total_change_nwc != null ? -(Math.abs(p.total_change_nwc)) : undefined,
+      integration_costs: syn.integration_costs || undefined,
+      period_date: p.period_date ? periodDateKey(p.period_date) : undefined,
     };
   });
 }
@@ -460,6 +511,12 @@ export function mergeScenarioParams(
     preferred_equity_rate?: any;
     net_debt?: any;
     rollover_shareholders?: any;
+    base_rate_curve?: Record<string, number> | null;
+    interest_margin?: any;
+    hedge_ratio?: any;
+    swap_rate?: any;
+    acquisition_date?: any;
+    exit_date?: any;
     sources?: SourceItem[] | null;
     uses?: SourceItem[] | null;
   },
@@ -487,6 +544,16 @@ export function mergeScenarioParams(
     net_debt: safeParse(scenario.net_debt) ?? (srcND > 0 ? srcND : undefined) ?? dp.net_debt,
     rollover_equity: safeParse(scenario.rollover_shareholders) ?? dp.rollover_equity,
     equity_from_sources: srcOE,
+    // Floating-rate financing stored on the scenario
+    base_rate_curve: scenario.base_rate_curve && Object.keys(scenario.base_rate_curve).length > 0
+      ? scenario.base_rate_curve
+      : dp.base_rate_curve,
+    interest_margin: safeParse(scenario.interest_margin) ?? dp.interest_margin,
+    hedge_ratio: safeParse(scenario.hedge_ratio) ?? dp.hedge_ratio,
+    swap_rate: safeParse(scenario.swap_rate) ?? dp.swap_rate,
+    // Entry/exit dates drive stub periods and XIRR
+    acquisition_date: toIsoDate(scenario.acquisition_date) ?? dp.acquisition_date,
+    exit_date: toIsoDate(scenario.exit_date) ?? dp.exit_date,
   };
 }
 
@@ -503,6 +570,7 @@ export interface PeriodShareInfo {
   year: string;
   shares: number;         // cumulative shares at end of this period
   maNewShares: number;    // new shares issued for M&A in this period
+  addOnShares?: number;   // new shares issued for add-on equity in this period
   ppsUsed: number;        // PPS used for pricing new shares (prev year × 1.2)
 }
 
@@ -526,15 +594,24 @@ export interface DynamicSharesResult {
  * S&U equity: When equityFromSources > 0, creates additional shares at
  *   entry_pps_post × 1.2. These shares are added to both entry and exit counts.
  *
+ * Add-on equity: equity raised for add-ons in a year (addOnEquity, by year)
+ *   creates shares at the prior year's PPS × 1.2 (entry PPS in the first year),
+ *   from that year on.
+ *
  * @param acquirerPeriods - Ordered array of DB periods (must have share_count,
  *   eqv_post_dilution or per_share_pre, revenue_ma)
  * @param maParams - M&A parameters (multiple, share_pct). Null = fall back to DB share counts.
  * @param equityFromSources - Ordinary equity from S&U that creates new shares (default 0).
+ * @param addOnEquity - Year → equity raised for add-ons closing that year.
  */
+/** Issue price premium on the prior PPS for new shares (S&U equity, add-ons, M&A). */
+export const SHARE_ISSUE_PREMIUM = 1.2;
+
 export function computeDynamicShares(
   acquirerPeriods: any[],
   maParams: MAShareParams | null | undefined,
   equityFromSources: number = 0,
+  addOnEquity: Record<string, number> = {},
 ): DynamicSharesResult {
   if (acquirerPeriods.length === 0) {
     return { entryShares: 0, exitShares: 0, equityFromSourcesShares: 0, sharesByPeriod: [] };
@@ -554,28 +631,40 @@ export function computeDynamicShares(
   const dbEntryShares = firstPeriod.share_count != null ? parseFloat(firstPeriod.share_count) : 0;
 
   // S&U equity shares: priced at entry PPS × 1.2
-  const sharePremium = 1.2;
-  const equitySharePrice = entryPPS * sharePremium;
+  const equitySharePrice = entryPPS * SHARE_ISSUE_PREMIUM;
   const equityShares = equitySharePrice > 0 && equityFromSources > 0
     ? equityFromSources / equitySharePrice
     : 0;
 
+  // Add-on equity shares per period, priced at the prior year's PPS × 1.2
+  const addOnSharesAt = (i: number): number => {
+    const p = acquirerPeriods[i];
+    const year = p.period_date ? new Date(p.period_date).getFullYear().toString() : getYear(p).slice(0, 4);
+    const amount = addOnEquity[year] ?? 0;
+    const price = (i > 0 ? getPPS(acquirerPeriods[i - 1]) : entryPPS) * SHARE_ISSUE_PREMIUM;
+    return amount > 0 && price > 0 ? amount / price : 0;
+  };
+
   // If no M&A params, fall back to DB share counts (no dynamic computation)
   if (!maParams || maParams.acquired_with_shares_pct <= 0) {
-    const sharesByPeriod: PeriodShareInfo[] = acquirerPeriods.map((p) => {
+    let cumAddOnShares = 0;
+    const sharesByPeriod: PeriodShareInfo[] = acquirerPeriods.map((p, i) => {
       const dbShares = p.share_count != null ? parseFloat(p.share_count) : 0;
+      const addOnShares = addOnSharesAt(i);
+      cumAddOnShares += addOnShares;
       return {
         year: getYear(p),
-        shares: dbShares + equityShares,
+        shares: dbShares + equityShares + cumAddOnShares,
         maNewShares: 0,
         ppsUsed: 0,
+        ...(addOnShares > 0 ? { addOnShares } : {}),
       };
     });
     const lastDbShares = acquirerPeriods[acquirerPeriods.length - 1].share_count != null
       ? parseFloat(acquirerPeriods[acquirerPeriods.length - 1].share_count) : 0;
     return {
       entryShares: dbEntryShares + equityShares,
-      exitShares: lastDbShares + equityShares,
+      exitShares: lastDbShares + equityShares + cumAddOnShares,
       equityFromSourcesShares: equityShares,
       sharesByPeriod,
     };
@@ -591,6 +680,9 @@ export function computeDynamicShares(
     const p = acquirerPeriods[i];
     const revenueMa = p.revenue_ma != null ? parseFloat(p.revenue_ma) : 0;
 
+    const addOnShares = addOnSharesAt(i);
+    cumShares += addOnShares;
+
     if (i === 0) {
       // Entry year: fixed from DB (no M&A share computation)
       sharesByPeriod.push({
@@ -598,11 +690,12 @@ export function computeDynamicShares(
         shares: cumShares,
         maNewShares: 0,
         ppsUsed: 0,
+        ...(addOnShares > 0 ? { addOnShares } : {}),
       });
     } else {
       // Subsequent years: compute new shares from M&A
       const prevPPS = getPPS(acquirerPeriods[i - 1]);
-      const issuePrice = prevPPS * sharePremium;
+      const issuePrice = prevPPS * SHARE_ISSUE_PREMIUM;
       const maNewShares = issuePrice > 0 && revenueMa > 0
         ? (revenueMa * multiple * sharePct) / issuePrice
         : 0;
@@ -612,6 +705,7 @@ export function computeDynamicShares(
         shares: cumShares,
         maNewShares,
         ppsUsed: issuePrice,
+        ...(addOnShares > 0 ? { addOnShares } : {}),
       });
     }
   }
@@ -624,6 +718,17 @@ export function computeDynamicShares(
   };
 }
 
+/** M&A share params from the acquirer's model_parameters (null when not set). */
+export function maShareParams(acquirerModelParams?: Record<string, any> | null): MAShareParams | null {
+  if (acquirerModelParams?.acquired_companies_multiple == null || acquirerModelParams.acquired_with_shares_pct == null) {
+    return null;
+  }
+  return {
+    acquired_companies_multiple: parseFloat(acquirerModelParams.acquired_companies_multiple),
+    acquired_with_shares_pct: parseFloat(acquirerModelParams.acquired_with_shares_pct),
+  };
+}
+
 /**
  * Extract entry/exit share data from acquirer periods and apply to deal parameters.
  *
@@ -648,20 +753,11 @@ export function applyShareTracking(
     ? parseFloat(firstPeriod.eqv_post_dilution)
     : (firstPeriod.per_share_pre != null ? parseFloat(firstPeriod.per_share_pre) : 0);
 
-  // Extract M&A params from model_parameters if available
-  const maParams: MAShareParams | null =
-    acquirerModelParams &&
-    acquirerModelParams.acquired_companies_multiple != null &&
-    acquirerModelParams.acquired_with_shares_pct != null
-      ? {
-          acquired_companies_multiple: parseFloat(acquirerModelParams.acquired_companies_multiple),
-          acquired_with_shares_pct: parseFloat(acquirerModelParams.acquired_with_shares_pct),
-        }
-      : null;
-
   // Compute dynamic shares (M&A dilution + S&U equity)
   const equityFromSources = mergedParams.equity_from_sources ?? 0;
-  const dynamicResult = computeDynamicShares(acquirerPeriods, maParams, equityFromSources);
+  const dynamicResult = computeDynamicShares(
+    acquirerPeriods, maShareParams(acquirerModelParams), equityFromSources, mergedParams.add_on_equity,
+  );
 
   if (dynamicResult.entryShares > 0) {
     mergedParams.entry_shares = dynamicResult.entryShares;
@@ -672,14 +768,14 @@ export function applyShareTracking(
 
 // ── Synergies Array ──────────────────────────────────────────────
 
-/** Build synergies cost array indexed by period order (for deal returns engine). */
+/** Build synergies EBITDA array indexed by period order (for deal returns engine). */
 export function buildSynergiesArray(
   acquirerPeriods: any[],
-  synergiesTimeline: Record<string, number>,
+  synergies: SynergyInput,
 ): number[] {
   return acquirerPeriods.map((ap: any) => {
     const year = ap.period_date.getFullYear().toString();
-    return synergiesTimeline[year] || 0;
+    return periodSynergies(synergies, year).ebitda;
   });
 }
 
@@ -710,12 +806,18 @@ export function prepareFullDealParams(
     preferred_equity_rate?: any;
     net_debt?: any;
     rollover_shareholders?: any;
+    base_rate_curve?: Record<string, number> | null;
+    interest_margin?: any;
+    hedge_ratio?: any;
+    swap_rate?: any;
+    acquisition_date?: any;
+    exit_date?: any;
     sources?: SourceItem[] | null;
     uses?: SourceItem[] | null;
   },
   acquirerPeriods: any[],
   acquirerModelParams: Record<string, any> | null | undefined,
-  synergiesTimeline: Record<string, number>,
+  synergies: SynergyInput,
 ): DealParameters {
   const merged = mergeScenarioParams(baseDp, scenario);
   applyShareTracking(merged, acquirerPeriods, acquirerModelParams);
@@ -726,18 +828,65 @@ export function prepareFullDealParams(
 
 // ── Sensitivity Parameter Setters ────────────────────────────────
 
+/** Parameters the grid, tornado and goal seek can move. */
+export const SENSITIVITY_PARAMS = [
+  "exit_multiple",
+  "price_paid",
+  "interest_rate",
+  "ordinary_equity",
+  "net_debt",
+  "debt_amortisation",
+  "cash_sweep_pct",
+  "preferred_equity_rate",
+  "tax_rate",
+  "preferred_equity",
+  "da_pct_revenue",
+  "acquirer_entry_ev",
+  "base_rate_shift",
+] as const;
+
+export type SensitivityParam = (typeof SENSITIVITY_PARAMS)[number];
+
+/** Base values the engine assumes when a parameter is not set. */
+const SENSITIVITY_ENGINE_DEFAULTS: Partial<Record<SensitivityParam, number>> = {
+  cash_sweep_pct: DEFAULT_CASH_SWEEP_PCT,
+  da_pct_revenue: 0.01,
+  base_rate_shift: 0,
+};
+
+/** Middle exit multiple of the deal (12x when none is set). */
+export function middleMultiple(dp: DealParameters): number {
+  const multiples = dp.exit_multiples ?? [];
+  return multiples[Math.floor(multiples.length / 2)] ?? 12;
+}
+
+/** Current value of a sensitivity parameter, or null when the deal does not use it. */
+export function sensitivityBaseValue(dp: DealParameters, param: SensitivityParam): number | null {
+  if (param === "exit_multiple") return middleMultiple(dp);
+  // Debt terms are read from the tranches when set (weighted rate, total amortisation)
+  const value = param === "interest_rate" ? entryDebtRate(dp)
+    : param === "debt_amortisation" ? totalDebtAmortisation(dp)
+    : dp[param] ?? SENSITIVITY_ENGINE_DEFAULTS[param];
+  return value != null && Number.isFinite(Number(value)) ? Number(value) : null;
+}
+
 /** Map of param name → how to inject a value into DealParameters. */
 export const sensitivityParamSetters: Record<string, (dp: DealParameters, val: number) => DealParameters> = {
   exit_multiple: (dp, val) => ({ ...dp, exit_multiples: [val] }),
   price_paid: (dp, val) => ({ ...dp, price_paid: val }),
-  interest_rate: (dp, val) => ({ ...dp, interest_rate: val }),
+  interest_rate: (dp, val) => shiftDebtRate(dp, val),
   ordinary_equity: (dp, val) => ({ ...dp, ordinary_equity: val }),
-  net_debt: (dp, val) => ({ ...dp, net_debt: val }),
-  debt_amortisation: (dp, val) => ({ ...dp, debt_amortisation: val }),
+  net_debt: (dp, val) => ({
+    ...dp,
+    net_debt: val,
+    ...(dp.debt_tranches?.length ? { debt_tranches: scaleDebtTranches(dp.debt_tranches, val) } : {}),
+  }),
+  debt_amortisation: (dp, val) => scaleDebtAmortisation(dp, val),
   cash_sweep_pct: (dp, val) => ({ ...dp, cash_sweep_pct: val }),
   preferred_equity_rate: (dp, val) => ({ ...dp, preferred_equity_rate: val }),
   tax_rate: (dp, val) => ({ ...dp, tax_rate: val }),
   preferred_equity: (dp, val) => ({ ...dp, preferred_equity: val }),
   da_pct_revenue: (dp, val) => ({ ...dp, da_pct_revenue: val }),
   acquirer_entry_ev: (dp, val) => ({ ...dp, acquirer_entry_ev: val }),
+  base_rate_shift: (dp, val) => ({ ...dp, base_rate_shift: val }),
 };
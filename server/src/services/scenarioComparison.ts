@@ -0,0 +1,226 @@
+/**
+ * Scenario comparison — up to five scenarios side by side, each run through
+ * the full calculation at one common exit multiple.
+ *
+ *   Entry multiple   price paid / target EBITDA of the entry period
+ *   Leverage         debt at entry / acquirer + target EBITDA of the entry period
+ *   Debt share       debt / (ordinary equity + preferred equity + debt)
+ *   Combined         the "Kombinert" case (IRR, MoM, per share)
+ *   Accretion        combined − standalone IRR and MoM
+ *   Exit dilution    MIP, TSO and warrants as share of exit equity value,
+ *                    else rollover dilution of the share count
+ *
+ * The entry period is the first period ending on or after the acquisition
+ * date (the first period without one). Differences are flagged per metric,
+ * with the best and worst scenarios where a direction applies.
+ */
+
+import { totalEntryDebt, type CalculatedReturns, type DealParameters } from "./dealReturns.js";
+import { periodDateKey } from "./calendarise.js";
+import { toIsoDate } from "./dealTimeline.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const MAX_COMPARED_SCENARIOS = 5;
+
+export const COMPARISON_METRICS = [
+  "price_paid", "entry_multiple", "net_debt", "leverage", "debt_share",
+  "combined_irr", "combined_mom", "per_share_irr", "per_share_mom",
+  "irr_accretion", "mom_accretion", "exit_dilution",
+] as const;
+export type ComparisonMetric = (typeof COMPARISON_METRICS)[number];
+
+/** Which way a metric is better; null = no ranking (size of the deal, debt amount). */
+export const METRIC_DIRECTION: Record<ComparisonMetric, "higher" | "lower" | null> = {
+  price_paid: null,
+  entry_multiple: "lower",
+  net_debt: null,
+  leverage: "lower",
+  debt_share: null,
+  combined_irr: "higher",
+  combined_mom: "higher",
+  per_share_irr: "higher",
+  per_share_mom: "higher",
+  irr_accretion: "higher",
+  mom_accretion: "higher",
+  exit_dilution: "lower",
+};
+
+export interface ComparisonInput {
+  id: number;
+  name: string;
+  acquirer_model_name?: string | null;
+  target_company_name?: string | null;
+  target_model_name?: string | null;
+  acquirerPeriods: any[];
+  targetPeriods: any[];
+  /** Merged deal parameters the calculation ran with. */
+  dp: DealParameters;
+  result: CalculatedReturns;
+}
+
+export interface ComparedScenario {
+  id: number;
+  name: string;
+  acquirer_model_name: string | null;
+  target_company_name: string | null;
+  target_model_name: string | null;
+  /** Label of the entry period the multiples are measured on. */
+  entry_period: string | null;
+  metrics: Record<ComparisonMetric, number | null>;
+}
+
+export interface MetricComparison {
+  metric: ComparisonMetric;
+  better: "higher" | "lower" | null;
+  /** Whether the scenarios with a value disagree. */
+  differs: boolean;
+  /** Max − min over the scenarios with a value. */
+  spread: number | null;
+  /** Scenario ids with the best / worst value (empty without a direction or difference). */
+  best: number[];
+  worst: number[];
+}
+
+export interface ComparisonQuery {
+  ids: number[];
+  exit_multiple?: number;
+}
+
+export interface ScenarioComparison {
+  exit_multiple: number;
+  scenarios: ComparedScenario[];
+  metrics: MetricComparison[];
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = parseFloat(v as string);
+  return Number.isNaN(n) ? null : n;
+};
+
+const ratio = (a: number | null, b: number | null) =>
+  a !== null && b !== null && b > 0 ? a / b : null;
+
+const diff = (a: number | null | undefined, b: number | null | undefined) =>
+  a != null && b != null ? a - b : null;
+
+const TOLERANCE = 1e-9;
+
+/** Parse ?ids=1,2,3&exit_multiple=12 (2–5 distinct scenarios). */
+export function parseComparisonQuery(query: Record<string, unknown>): ComparisonQuery | { error: string } {
+  const raw = typeof query.ids === "string" ? query.ids.trim() : "";
+  const ids = [...new Set(raw.split(",").filter((s) => s.trim() !== "").map((s) => Number(s.trim())))];
+  if (ids.some((n) => !Number.isInteger(n) || n <= 0)) {
+    return { error: "ids must be a comma-separated list of positive integers" };
+  }
+  if (ids.length < 2 || ids.length > MAX_COMPARED_SCENARIOS) {
+    return { error: `ids must name between 2 and ${MAX_COMPARED_SCENARIOS} scenarios` };
+  }
+
+  const parsed: ComparisonQuery = { ids };
+  if (typeof query.exit_multiple === "string" && query.exit_multiple.trim() !== "") {
+    const m = Number(query.exit_multiple);
+    if (!Number.isFinite(m) || m <= 0) return { error: "exit_multiple must be a positive number" };
+    parsed.exit_multiple = m;
+  }
+  return parsed;
+}
+
+/** Exit multiple to compare at: the requested one, else the median of the scenario's range. */
+export function comparisonExitMultiple(requested: number | undefined, multiples: number[] | undefined): number {
+  if (requested !== undefined) return requested;
+  const range = multiples?.length ? multiples : [10, 11, 12, 13, 14];
+  return range[Math.floor(range.length / 2)];
+}
+
+/** First period ending on or after close; the first period without a close date. */
+export function entryPeriod(periods: any[], acquisitionDate?: string | Date | null): any | null {
+  if (periods.length === 0) return null;
+  const close = toIsoDate(acquisitionDate ?? null);
+  if (!close) return periods[0];
+  return periods.find((p) => periodDateKey(p.period_date) >= close) ?? null;
+}
+
+// ── Analysis ───────────────────────────────────────────────────────
+
+/** Metrics of one scenario calculated at a single exit multiple. */
+export function scenarioMetrics(input: ComparisonInput, exitMultiple: number): ComparedScenario {
+  const { dp, result } = input;
+  const combined = result.cases.find((c) => c.return_case === "Kombinert" && c.exit_multiple === exitMultiple);
+  const standalone = result.standalone_by_multiple[exitMultiple];
+
+  const acqEntry = entryPeriod(input.acquirerPeriods, dp.acquisition_date);
+  const tgtEntry = entryPeriod(input.targetPeriods, dp.acquisition_date);
+  const targetEbitda = num(tgtEntry?.ebitda_total);
+  const acquirerEbitda = num(acqEntry?.ebitda_total);
+  const pfEbitda = targetEbitda !== null || acquirerEbitda !== null
+    ? (targetEbitda ?? 0) + (acquirerEbitda ?? 0)
+    : null;
+
+  const pricePaid = dp.price_paid > 0 ? dp.price_paid : null;
+  const debt = totalEntryDebt(dp);
+  const funding = (dp.ordinary_equity ?? 0) + (dp.preferred_equity ?? 0) + debt;
+  const summary = result.share_summary;
+
+  return {
+    id: input.id,
+    name: input.name,
+    acquirer_model_name: input.acquirer_model_name ?? null,
+    target_company_name: input.target_company_name ?? null,
+    target_model_name: input.target_model_name ?? null,
+    entry_period: (tgtEntry ?? acqEntry)?.period_label ?? null,
+    metrics: {
+      price_paid: pricePaid,
+      entry_multiple: ratio(pricePaid, targetEbitda),
+      net_debt: debt,
+      leverage: ratio(debt, pfEbitda),
+      debt_share: ratio(debt, funding),
+      combined_irr: combined?.irr ?? null,
+      combined_mom: combined?.mom ?? null,
+      per_share_irr: combined?.per_share_irr ?? null,
+      per_share_mom: combined?.per_share_mom ?? null,
+      irr_accretion: diff(combined?.irr, standalone?.irr),
+      mom_accretion: diff(combined?.mom, standalone?.mom),
+      exit_dilution: summary ? summary.dilution_value_pct ?? summary.dilution_pct ?? null : null,
+    },
+  };
+}
+
+/** Spread, best and worst of one metric across the scenarios. */
+export function compareMetric(metric: ComparisonMetric, scenarios: ComparedScenario[]): MetricComparison {
+  const better = METRIC_DIRECTION[metric];
+  const values = scenarios
+    .map((s) => ({ id: s.id, value: s.metrics[metric] }))
+    .filter((v): v is { id: number; value: number } => v.value !== null);
+  if (values.length === 0) return { metric, better, differs: false, spread: null, best: [], worst: [] };
+
+  const max = Math.max(...values.map((v) => v.value));
+  const min = Math.min(...values.map((v) => v.value));
+  const spread = max - min;
+  const differs = spread > TOLERANCE * Math.max(1, Math.abs(max), Math.abs(min));
+  const idsAt = (target: number) =>
+    values.filter((v) => Math.abs(v.value - target) <= TOLERANCE * Math.max(1, Math.abs(target))).map((v) => v.id);
+
+  const ranked = differs && better !== null;
+  return {
+    metric,
+    better,
+    differs,
+    spread,
+    best: ranked ? idsAt(better === "higher" ? max : min) : [],
+    worst: ranked ? idsAt(better === "higher" ? min : max) : [],
+  };
+}
+
+/** Side-by-side comparison of scenarios calculated at the same exit multiple. */
+export function compareScenarios(inputs: ComparisonInput[], exitMultiple: number): ScenarioComparison {
+  const scenarios = inputs.map((input) => scenarioMetrics(input, exitMultiple));
+  return {
+    exit_multiple: exitMultiple,
+    scenarios,
+    metrics: COMPARISON_METRICS.map((metric) => compareMetric(metric, scenarios)),
+  };
+}
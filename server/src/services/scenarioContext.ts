@@ -18,6 +18,19 @@ import {
   prepareFullDealParams,
   extractPeriodLabels,
 } from "./proForma.js";
+import { applyScenarioFx, convertPeriods, type FxRates, type ScenarioFx } from "./fx.js";
+import { withDerivedChangeNwc } from "./balanceSheet.js";
+import { toAnnualPeriods } from "./periodAggregation.js";
+import { buildSynergyPlan, hasSynergyItems, plannedCostTimeline, type SynergyItem, type SynergyPlan } from "./synergies.js";
+import {
+  addOnEquityByYear,
+  applyAddOnFunding,
+  computeAddOnReturns,
+  consolidateAddOns,
+  toAddOnDeal,
+  type AddOnTarget,
+  type LoadedAddOn,
+} from "./addOns.js";
 
 // ── Types ──────────────────────────────────────────────────────────
 
@@ -25,7 +38,17 @@ import {
 const SCENARIO_WITH_NAMES_SQL = `
   SELECT s.*,
     ac.name as acquirer_company_name, am.name as acquirer_model_name,
-    tc.name as target_company_name, tm.name as target_model_name
+    tc.name as target_company_name, tm.name as target_model_name,
+    ac.currency as acquirer_currency, tc.currency as target_currency
+  FROM acquisition_scenarios s
+  LEFT JOIN financial_models am ON s.acquirer_model_id = am.id
+  LEFT JOIN companies ac ON am.company_id = ac.id
+  LEFT JOIN financial_models tm ON s.target_model_id = tm.id
+  LEFT JOIN companies tc ON tm.company_id = tc.id`;
+
+/** Scenario row plus the company currencies needed for FX conversion. */
+const SCENARIO_WITH_CURRENCIES_SQL = `
+  SELECT s.*, ac.currency as acquirer_currency, tc.currency as target_currency
   FROM acquisition_scenarios s
   LEFT JOIN financial_models am ON s.acquirer_model_id = am.id
   LEFT JOIN companies ac ON am.company_id = ac.id
@@ -46,6 +69,12 @@ export interface ScenarioRow {
   target_model_id: number | null;
   deal_parameters: DealParameters | null;
   cost_synergies_timeline: Record<string, number> | null;
+  revenue_synergies_timeline?: Record<string, number> | null;
+  revenue_synergy_margin?: number | string | null;
+  synergy_realisation?: Record<string, number> | null;
+  integration_costs_timeline?: Record<string, number> | null;
+  synergy_items?: SynergyItem[] | null;
+  add_on_targets?: AddOnTarget[] | null;
   sources: any[] | null;
   uses: any[] | null;
   name: string | null;
@@ -53,6 +82,30 @@ export interface ScenarioRow {
   acquirer_model_name?: string;
   target_company_name?: string;
   target_model_name?: string;
+  acquirer_currency?: string | null;
+  target_currency?: string | null;
+  reporting_currency?: string | null;
+  fx_rates?: FxRates | null;
+  // Allow access to arbitrary DB columns
+  [key: string]: any;
+}
+
+/**
+ * Raw DB row of a financial period, as the engines read it.
+ *
+ * NUMERIC columns arrive from pg as strings (FX conversion and roll-ups turn
+ * them into numbers), so the amounts are typed loosely; other columns stay
+ * reachable through the index signature, as on ScenarioRow.
+ */
+export interface FinancialPeriod {
+  id?: number;
+  model_id?: number;
+  period_date: Date | string;
+  period_label: string;
+  period_type?: "actual" | "budget" | "estimate" | "forecast";
+  revenue_total?: number | string | null;
+  ebitda_total?: number | string | null;
+  cost_synergies?: number | string | null;
   // Allow access to arbitrary DB columns
   [key: string]: any;
 }
@@ -64,6 +117,12 @@ export interface ScenarioContext {
   targetPeriods: any[];
   acquirerModelParams: Record<string, any> | null;
   synergiesTimeline: Record<string, number>;
+  /** Cost and revenue synergies, realisation and integration costs. */
+  synergyPlan: SynergyPlan;
+  /** Reporting currency and the rates applied to the periods above. */
+  fx?: ScenarioFx;
+  /** Add-on targets with their periods (already consolidated into targetPeriods). */
+  addOns?: LoadedAddOn[];
 }
 
 /** Pre-computed period data arrays ready for the deal returns engine. */
@@ -71,6 +130,8 @@ export interface ComputationData {
   acqData: PeriodData[];
   tgtData: PeriodData[];
   pfData: PeriodData[];
+  /** Pro forma with probability-weighted synergy items (only when items are set). */
+  pfRiskData?: PeriodData[];
   periodLabels: string[];
 }
 
@@ -93,6 +154,7 @@ export interface LoadOptions {
  * Load a scenario by ID with all related data needed for computation.
  *
  * Fetches: scenario row, acquirer periods, target periods, acquirer model params.
+ * Periods are converted into the scenario's reporting currency.
  * Returns null if scenario not found.
  */
 export async function loadScenarioContext(
@@ -104,61 +166,181 @@ export async function loadScenarioContext(
   // 1. Fetch scenario
   const scenarioSQL = withNames
     ? `${SCENARIO_WITH_NAMES_SQL} WHERE s.id = $1`
-    : "SELECT * FROM acquisition_scenarios WHERE id = $1";
+    : `${SCENARIO_WITH_CURRENCIES_SQL} WHERE s.id = $1`;
 
   const scenarioResult = await pool.query(scenarioSQL, [scenarioId]);
   if (scenarioResult.rows.length === 0) return null;
-  const scenario: ScenarioRow = scenarioResult.rows[0];
 
-  // 2. Fetch acquirer periods
-  const acquirerPeriodsResult = await pool.query(
-    "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
-    [scenario.acquirer_model_id],
-  );
+  // 2. Periods, model params, synergies, FX and add-ons
+  const ctx = await buildScenarioContext(scenarioResult.rows[0]);
 
-  // 3. Fetch acquirer model_parameters (for MIP/TSO/warrants dilution)
+  // 3. Optionally fetch stored pro forma periods
+  let storedProFormaPeriods: any[] | undefined;
+  if (withStoredProForma) {
+    const pfResult = await pool.query(
+      "SELECT * FROM pro_forma_periods WHERE scenario_id = $1 ORDER BY period_date",
+      [scenarioId],
+    );
+    storedProFormaPeriods = pfResult.rows;
+  }
+
+  return { ctx, storedProFormaPeriods };
+}
+
+/**
+ * Everything the engines need for a scenario row: acquirer and target
+ * periods, acquirer model params, synergies, FX conversion and add-ons.
+ * The row must carry acquirer_currency / target_currency. Periods come from
+ * `storedPeriods` (a version's stored rows) when given, else from the models.
+ */
+async function buildScenarioContext(scenario: ScenarioRow, storedPeriods?: any[] | null): Promise<ScenarioContext> {
+  // 1. Fetch acquirer periods
+  const acquirerPeriods = scenarioPeriods(await modelPeriods(scenario.acquirer_model_id, storedPeriods));
+
+  // 2. Fetch acquirer model_parameters (for MIP/TSO/warrants dilution)
   const acquirerModelResult = await pool.query(
     "SELECT model_parameters FROM financial_models WHERE id = $1",
     [scenario.acquirer_model_id],
   );
   const acquirerModelParams = acquirerModelResult.rows[0]?.model_parameters ?? null;
 
-  // 4. Fetch target periods (if target exists)
+  // 3. Fetch target periods (if target exists)
   let targetPeriods: any[] = [];
   if (scenario.target_model_id) {
-    const tp = await pool.query(
-      "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
-      [scenario.target_model_id],
-    );
-    targetPeriods = tp.rows;
+    targetPeriods = scenarioPeriods(await modelPeriods(scenario.target_model_id, storedPeriods));
   }
 
-  // 5. Synergies timeline
-  const synergiesTimeline = (scenario.cost_synergies_timeline || {}) as Record<string, number>;
+  // 4. Synergies plan and cost timeline (from items over the acquirer's years when itemised)
+  const synergyPlan = buildSynergyPlan(scenario);
+  const acquirerYears = acquirerPeriods.map((p: any) => new Date(p.period_date).getFullYear().toString());
+  const synergiesTimeline = plannedCostTimeline(synergyPlan, acquirerYears);
+
+  // 5. Convert into the reporting currency
+  const converted = applyScenarioFx(
+    scenario, acquirerPeriods, targetPeriods,
+    scenario.acquirer_currency, scenario.target_currency,
+  );
 
   const ctx: ScenarioContext = {
     scenario,
-    acquirerPeriods: acquirerPeriodsResult.rows,
-    targetPeriods,
+    acquirerPeriods: converted.acquirerPeriods,
+    targetPeriods: converted.targetPeriods,
     acquirerModelParams,
     synergiesTimeline,
+    synergyPlan,
+    fx: converted.fx,
   };
 
-  // 6. Optionally fetch stored pro forma periods
-  let storedProFormaPeriods: any[] | undefined;
-  if (withStoredProForma) {
-    const pfResult = await pool.query(
-      "SELECT * FROM pro_forma_periods WHERE scenario_id = $1 ORDER BY period_date",
-      [scenarioId],
-    );
-    storedProFormaPeriods = pfResult.rows;
+  // 6. Add-on targets, consolidated into the target side from their close dates
+  const addOns = await loadAddOns(scenario, converted.fx.reporting_currency, storedPeriods);
+  if (addOns.length > 0) {
+    ctx.addOns = addOns;
+    ctx.targetPeriods = consolidateAddOns(ctx.acquirerPeriods, ctx.targetPeriods, addOns);
   }
 
-  return { ctx, storedProFormaPeriods };
+  return ctx;
+}
+
+/**
+ * A model's periods: the rows stored with a version when given (JSON, so the
+ * dates are turned back into local-midnight Dates like pg's), else the table.
+ */
+async function modelPeriods(modelId: unknown, storedPeriods?: any[] | null): Promise<any[]> {
+  if (storedPeriods) {
+    return storedPeriods
+      .filter((p) => Number(p.model_id) === Number(modelId))
+      .map((p) => ({ ...p, period_date: new Date(`${String(p.period_date).slice(0, 10)}T00:00:00`) }));
+  }
+  const result = await pool.query(
+    "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
+    [modelId],
+  );
+  return result.rows;
+}
+
+/**
+ * Context for a version snapshot: the scenario row with the snapshot's fields
+ * on top, rebuilt from scratch so the models, currencies, FX rates, synergies
+ * and add-ons are the ones the version pointed at. Snapshots recorded before
+ * the model ids were versioned keep the scenario's current models. With
+ * `storedPeriods` the models' periods are the ones stored with the version.
+ */
+export async function loadSnapshotContext(
+  scenario: ScenarioRow,
+  snapshot: Record<string, unknown>,
+  storedPeriods?: any[] | null,
+): Promise<ScenarioContext> {
+  const row = { ...scenario, ...snapshot } as ScenarioRow;
+  const modelIds = [row.acquirer_model_id, row.target_model_id].filter((id) => id != null);
+  const currencies = await pool.query(
+    `SELECT fm.id, c.currency FROM financial_models fm JOIN companies c ON fm.company_id = c.id
+     WHERE fm.id = ANY($1)`,
+    [modelIds],
+  );
+  const currencyOf = (id: unknown) => currencies.rows.find((m: any) => m.id === id)?.currency ?? null;
+  return buildScenarioContext({
+    ...row,
+    acquirer_currency: currencyOf(row.acquirer_model_id),
+    target_currency: currencyOf(row.target_model_id),
+  }, storedPeriods);
+}
+
+/**
+ * A model's periods as the deal engines read them: annual, with quarters or
+ * months rolled up into calendar years, and change in NWC derived from the
+ * balance sheet where the model has no change_nwc line.
+ */
+export function scenarioPeriods<T extends Record<string, any>>(rows: T[]): T[] {
+  return withDerivedChangeNwc(toAnnualPeriods(rows));
+}
+
+/**
+ * Load a scenario's add-on targets: company name and periods per model,
+ * converted into the reporting currency. Add-ons whose model no longer
+ * exists are skipped. Periods come from `storedPeriods` when given.
+ */
+export async function loadAddOns(
+  scenario: Pick<ScenarioRow, "add_on_targets" | "fx_rates">,
+  reportingCurrency: string,
+  storedPeriods?: any[] | null,
+): Promise<LoadedAddOn[]> {
+  const targets = scenario.add_on_targets ?? [];
+  if (targets.length === 0) return [];
+
+  const modelIds = [...new Set(targets.map((t) => t.target_model_id))];
+  const modelsResult = await pool.query(
+    `SELECT fm.id, c.name as company_name, c.currency
+     FROM financial_models fm JOIN companies c ON fm.company_id = c.id
+     WHERE fm.id = ANY($1)`,
+    [modelIds],
+  );
+  const periodsResult = storedPeriods ? null : await pool.query(
+    "SELECT * FROM financial_periods WHERE model_id = ANY($1) ORDER BY period_date",
+    [modelIds],
+  );
+
+  const loaded: LoadedAddOn[] = [];
+  for (const target of targets) {
+    const model = modelsResult.rows.find((m: any) => m.id === target.target_model_id);
+    if (!model) continue;
+    const rows = periodsResult
+      ? periodsResult.rows.filter((p: any) => p.model_id === target.target_model_id)
+      : await modelPeriods(target.target_model_id, storedPeriods);
+    const periods = scenarioPeriods(rows);
+    const converted = convertPeriods(periods, "target", model.currency, reportingCurrency, scenario.fx_rates ?? {});
+    loaded.push({ ...target, name: model.company_name, periods: converted.periods });
+  }
+  return loaded;
 }
 
 // ── Computation Helpers ────────────────────────────────────────────
 
+/** Deal params with the equity raised for add-ons (for share tracking). */
+export function withAddOnEquity(dp: DealParameters, ctx: ScenarioContext): DealParameters {
+  if (!ctx.addOns?.length) return dp;
+  return { ...dp, add_on_equity: addOnEquityByYear(ctx.addOns.map(toAddOnDeal)) };
+}
+
 /**
  * Build period data arrays from a loaded scenario context.
  *
@@ -178,19 +360,24 @@ export function buildComputationData(
   const acqData = buildAcquirerPeriodData(ctx.acquirerPeriods);
   const tgtData = buildTargetPeriodData(ctx.targetPeriods, computedNibdFcf);
 
-  let pfData: PeriodData[];
-  if (storedPf && storedPf.length > 0) {
-    pfData = buildProFormaPeriodDataFromStored(storedPf, ctx.synergiesTimeline);
-  } else {
-    pfData = buildProFormaPeriodData(
-      ctx.acquirerPeriods, ctx.targetPeriods,
-      ctx.synergiesTimeline, dp, computedNibdFcf,
-    );
+  const buildPf = (synergies: SynergyPlan) => storedPf && storedPf.length > 0
+    ? buildProFormaPeriodDataFromStored(storedPf, synergies)
+    : buildProFormaPeriodData(ctx.acquirerPeriods, ctx.targetPeriods, synergies, dp, computedNibdFcf);
+
+  const pfData = buildPf(ctx.synergyPlan);
+  const pfRiskData = hasSynergyItems(ctx.synergyPlan)
+    ? buildPf({ ...ctx.synergyPlan, risk_weighted: true })
+    : undefined;
+
+  if (ctx.addOns?.length) {
+    const deals = ctx.addOns.map(toAddOnDeal);
+    applyAddOnFunding(pfData, deals);
+    if (pfRiskData) applyAddOnFunding(pfRiskData, deals);
   }
 
   const periodLabels = extractPeriodLabels(ctx.acquirerPeriods);
 
-  return { acqData, tgtData, pfData, periodLabels };
+  return { acqData, tgtData, pfData, pfRiskData, periodLabels };
 }
 
 /**
@@ -204,13 +391,35 @@ export function runFullCalculation(
   storedPf?: any[],
 ): FullCalculationResult {
   const mergedDp = prepareFullDealParams(
-    baseDp, ctx.scenario,
+    withAddOnEquity(baseDp, ctx), ctx.scenario,
     ctx.acquirerPeriods, ctx.acquirerModelParams,
-    ctx.synergiesTimeline,
+    ctx.synergyPlan,
   );
 
-  const { acqData, pfData, periodLabels } = buildComputationData(ctx, mergedDp, undefined, storedPf);
-  const result = calculateDealReturns(acqData, pfData, mergedDp, periodLabels);
-
+  const result = calculateScenarioReturns(ctx, mergedDp, buildComputationData(ctx, mergedDp, undefined, storedPf));
   return { mergedDp, result };
 }
+
+/**
+ * Run the engine on merged deal params and prepared period data: Standalone,
+ * Kombinert, Risikovektet (with synergy items) and one case per add-on.
+ * Shared by the full calculation and the sensitivities so every return case
+ * can be looked up in both.
+ */
+export function calculateScenarioReturns(
+  ctx: ScenarioContext,
+  mergedDp: DealParameters,
+  data: ComputationData,
+): CalculatedReturns {
+  const { acqData, pfData, pfRiskData, periodLabels } = data;
+  const result = calculateDealReturns(acqData, pfData, mergedDp, periodLabels, pfRiskData);
+
+  if (ctx.addOns?.length) {
+    const multiples = [...new Set(result.cases.map((c) => c.exit_multiple))];
+    result.cases.push(...computeAddOnReturns(
+      ctx.acquirerPeriods, ctx.addOns, mergedDp, multiples, ctx.synergyPlan.realisation,
+    ));
+  }
+
+  return result;
+}
@@ -5,27 +5,101 @@
  * so that the route handlers remain thin request/response adapters.
  */
 
+import type pg from "pg";
 import pool from "../models/db.js";
-import { calculateDealReturns, type DealParameters, type CaseReturn, type CalculatedReturns } from "./dealReturns.js";
-import { generateExcelModel, type ExportData } from "./excelExport/index.js";
+import { entryDebtRate, isLevel2, totalEntryDebt, type DealParameters, type CaseReturn, type CalculatedReturns } from "./dealReturns.js";
+import { generateExcelModel, generateComparisonWorkbook, type ExportData } from "./excelExport/index.js";
 import { generatePptModel } from "./pptExport/generatePptModel.js";
+import { generateComparisonPpt } from "./pptExport/generateComparisonPpt.js";
 import {
   buildProFormaPeriods,
   applySynergies,
-  buildProFormaPeriodData,
   computeNibdFcf,
   prepareFullDealParams,
   sensitivityParamSetters,
+  sensitivityBaseValue,
+  middleMultiple,
+  SENSITIVITY_PARAMS,
+  type SensitivityParam,
   deriveBaseCapitalFromPeriods,
   getEquityFromSources,
   getPreferredFromSources,
   getDebtFromSources,
+  extractPeriodLabels,
+  buildTargetPeriodData,
+  computeDynamicShares,
+  maShareParams,
+  SHARE_ISSUE_PREMIUM,
 } from "./proForma.js";
 import {
   loadScenarioContext,
+  loadAddOns,
   buildComputationData,
   runFullCalculation,
+  calculateScenarioReturns,
+  withAddOnEquity,
+  scenarioPeriods,
+  loadSnapshotContext,
+  type FinancialPeriod,
+  type ScenarioContext,
 } from "./scenarioContext.js";
+import { consolidateAddOns } from "./addOns.js";
+import {
+  SIMULATION_VARIABLES,
+  applyEbitdaHaircut,
+  choleskyDecompose,
+  correlationMatrix,
+  createRng,
+  probabilityAbove,
+  sampleInputs,
+  scaleRealisation,
+  summarise,
+  type Correlation,
+  type Distribution,
+  type SimulationVariable,
+} from "./monteCarlo.js";
+import {
+  DEFAULT_TORNADO_DELTAS,
+  rankByImpact,
+  shiftValue,
+  swing,
+  type TornadoDelta,
+  type TornadoResult,
+  type TornadoRow,
+} from "./tornado.js";
+import { defaultBounds, solve, type GoalSeekMetric } from "./goalSeek.js";
+import {
+  firstForecastIndex,
+  periodBridge,
+  resolveDcfAssumptions,
+  valueEntity,
+  type DcfAssumptions,
+  type DcfResult,
+} from "./dcf.js";
+import { contributionAnalysis, type ContributionResult } from "./contribution.js";
+import { epsAccretion, type EpsAccretionResult, type EpsPeriodInput } from "./eps.js";
+import { varianceReport, type PostDealVariance } from "./variance.js";
+import {
+  compareScenarios,
+  comparisonExitMultiple,
+  type ComparisonInput,
+  type ScenarioComparison,
+} from "./scenarioComparison.js";
+import { alignTargetPeriods, periodDateKey } from "./calendarise.js";
+import { toIsoDate } from "./dealTimeline.js";
+import {
+  VERSIONED_SCALAR_FIELDS,
+  VERSIONED_JSON_FIELDS,
+  recordScenarioVersion,
+  ensureBaselineVersion,
+  getScenarioVersion,
+  getScenarioVersionPeriods,
+} from "./scenarioVersions.js";
+import { recordAuditEvent, withTransaction } from "./auditLog.js";
+import { applyScenarioFx, convertPeriods, type ScenarioFx } from "./fx.js";
+import { nwcCashFlow } from "./balanceSheet.js";
+import { ltmPeriods } from "./periodAggregation.js";
+import { buildSynergyPlan, plannedCostTimeline } from "./synergies.js";
 
 /** Matches Express req.params value type (string at runtime, but typed broadly). */
 type ParamId = string | number | string[];
@@ -35,7 +109,8 @@ type ParamId = string | number | string[];
 const SCENARIO_WITH_NAMES_SQL = `
   SELECT s.*,
     ac.name as acquirer_company_name, am.name as acquirer_model_name,
-    tc.name as target_company_name, tm.name as target_model_name
+    tc.name as target_company_name, tm.name as target_model_name,
+    ac.currency as acquirer_currency, tc.currency as target_currency
   FROM acquisition_scenarios s
   LEFT JOIN financial_models am ON s.acquirer_model_id = am.id
   LEFT JOIN companies ac ON am.company_id = ac.id
@@ -58,6 +133,9 @@ export interface CompareResult {
   acquirer_periods: any[];
   target_model: any | null;
   target_periods: any[];
+  /** LTM figures for quarterly / monthly models (empty for annual ones). */
+  acquirer_ltm: any[];
+  target_ltm: any[];
   pro_forma_periods: any[];
   scenario: any | null;
   deal_returns: any[];
@@ -65,16 +143,18 @@ export interface CompareResult {
   returns_level: 1 | 2;
   returns_level_label: string;
   share_summary: any;
+  fx: ScenarioFx;
 }
 
 export async function compareModels(
   acquirerModelId: number,
   targetModelId: number | null,
   userId: number | undefined,
+  canCreate = true,
 ): Promise<CompareResult | { error: string; _errorStatus: number }> {
   // Get acquirer model info + periods
   const acquirerModel = await pool.query(
-    `SELECT m.*, c.name as company_name, c.company_type
+    `SELECT m.*, c.name as company_name, c.company_type, c.currency
      FROM financial_models m JOIN companies c ON m.company_id = c.id
      WHERE m.id = $1`,
     [acquirerModelId]
@@ -90,13 +170,14 @@ export async function compareModels(
 
   let targetModel: any = null;
   let targetPeriods: any[] = [];
+  let targetRows: any[] = [];
   let proFormaPeriods: any[] = [];
   let scenario: any = null;
   let dealReturns: any[] = [];
 
   if (targetModelId) {
     const tm = await pool.query(
-      `SELECT m.*, c.name as company_name, c.company_type
+      `SELECT m.*, c.name as company_name, c.company_type, c.currency
        FROM financial_models m JOIN companies c ON m.company_id = c.id
        WHERE m.id = $1`,
       [targetModelId]
@@ -110,9 +191,11 @@ export async function compareModels(
       "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
       [targetModelId]
     );
-    targetPeriods = tp.rows;
+    targetRows = tp.rows;
+    targetPeriods = scenarioPeriods(tp.rows);
 
-    // Find or create a scenario record (needed for deal_parameters in pro forma)
+    // Find or create a scenario record (needed for deal_parameters in pro forma).
+    // Read-only callers (viewers) get the comparison without a scenario.
     const existing = await pool.query(
       `${SCENARIO_WITH_NAMES_SQL}
        WHERE s.acquirer_model_id = $1 AND s.target_model_id = $2
@@ -122,7 +205,7 @@ export async function compareModels(
 
     if (existing.rows.length > 0) {
       scenario = existing.rows[0];
-    } else {
+    } else if (canCreate) {
       // Auto-create scenario — inherit acquirer-level fields from sibling
       const acqName = acquirerModel.rows[0].company_name;
       const tgtName = targetModel.company_name;
@@ -132,6 +215,8 @@ export async function compareModels(
       // These fields are acquirer-level and shouldn't need re-entry per target.
       const sibling = await pool.query(
         `SELECT sources, uses, deal_parameters, cost_synergies_timeline,
+                revenue_synergies_timeline, revenue_synergy_margin,
+                synergy_realisation, integration_costs_timeline, synergy_items,
                 ordinary_equity, preferred_equity, preferred_equity_rate,
                 net_debt, rollover_shareholders
          FROM acquisition_scenarios
@@ -141,32 +226,50 @@ export async function compareModels(
       );
       const s = sibling.rows[0] || {};
 
-      const created = await pool.query(
-        `INSERT INTO acquisition_scenarios (
-          name, acquirer_model_id, target_model_id, status, created_by,
-          sources, uses, deal_parameters, cost_synergies_timeline,
-          ordinary_equity, preferred_equity, preferred_equity_rate,
-          net_debt, rollover_shareholders
-        ) VALUES ($1, $2, $3, 'active', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-        RETURNING *`,
-        [
-          `${acqName} + ${tgtName}`,
-          acquirerModelId,
-          targetModelId,
+      const created = await withTransaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO acquisition_scenarios (
+            name, acquirer_model_id, target_model_id, status, created_by,
+            sources, uses, deal_parameters, cost_synergies_timeline,
+            revenue_synergies_timeline, revenue_synergy_margin,
+            synergy_realisation, integration_costs_timeline, synergy_items,
+            ordinary_equity, preferred_equity, preferred_equity_rate,
+            net_debt, rollover_shareholders
+          ) VALUES ($1, $2, $3, 'active', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+          RETURNING *`,
+          [
+            `${acqName} + ${tgtName}`,
+            acquirerModelId,
+            targetModelId,
+            userId,
+            JSON.stringify(s.sources || []),
+            JSON.stringify(s.uses || []),
+            JSON.stringify(s.deal_parameters || {}),
+            JSON.stringify(s.cost_synergies_timeline || {}),
+            JSON.stringify(s.revenue_synergies_timeline || {}),
+            s.revenue_synergy_margin ?? null,
+            JSON.stringify(s.synergy_realisation || {}),
+            JSON.stringify(s.integration_costs_timeline || {}),
+            JSON.stringify(s.synergy_items || []),
+            s.ordinary_equity ?? null,
+            s.preferred_equity ?? null,
+            s.preferred_equity_rate ?? null,
+            s.net_debt ?? null,
+            s.rollover_shareholders ?? null,
+          ]
+        );
+        await recordAuditEvent(client, {
           userId,
-          JSON.stringify(s.sources || []),
-          JSON.stringify(s.uses || []),
-          JSON.stringify(s.deal_parameters || {}),
-          JSON.stringify(s.cost_synergies_timeline || {}),
-          s.ordinary_equity ?? null,
-          s.preferred_equity ?? null,
-          s.preferred_equity_rate ?? null,
-          s.net_debt ?? null,
-          s.rollover_shareholders ?? null,
-        ]
-      );
+          entityType: "scenario",
+          entityId: result.rows[0].id,
+          action: "create",
+          after: result.rows[0],
+          metadata: { source: "compare" },
+        });
+        return result.rows[0];
+      });
       scenario = {
-        ...created.rows[0],
+        ...created,
         acquirer_company_name: acqName,
         acquirer_model_name: acquirerModel.rows[0].name,
         target_company_name: tgtName,
@@ -174,11 +277,29 @@ export async function compareModels(
       };
     }
 
+  }
+
+  // Convert both sides into the scenario's reporting currency
+  const converted = applyScenarioFx(
+    scenario, scenarioPeriods(acquirerPeriods.rows), targetPeriods,
+    acquirerModel.rows[0].currency, targetModel?.currency,
+  );
+  targetPeriods = converted.targetPeriods;
+  const ltm = applyScenarioFx(
+    scenario, ltmPeriods(acquirerPeriods.rows), ltmPeriods(targetRows),
+    acquirerModel.rows[0].currency, targetModel?.currency,
+  );
+
+  // Add-on targets are consolidated into the target side from their close dates
+  const addOns = scenario ? await loadAddOns(scenario, converted.fx.reporting_currency) : [];
+  targetPeriods = consolidateAddOns(converted.acquirerPeriods, targetPeriods, addOns);
+
+  if (targetModel) {
     // Build pro forma by combining overlapping periods
     proFormaPeriods = buildProFormaPeriods(
-      acquirerPeriods.rows,
+      converted.acquirerPeriods,
       targetPeriods,
-      scenario?.deal_parameters,
+      scenario ? { ...scenario.deal_parameters, acquisition_date: toIsoDate(scenario.acquisition_date) } : undefined,
     );
   }
 
@@ -191,7 +312,7 @@ export async function compareModels(
     dealReturns = dr.rows;
 
     // Apply synergies from saved timeline to proFormaPeriods
-    applySynergies(proFormaPeriods, scenario.cost_synergies_timeline || {});
+    applySynergies(proFormaPeriods, buildSynergyPlan(scenario));
   }
 
   // Auto-calculate returns if deal_parameters are set on the scenario
@@ -206,13 +327,17 @@ export async function compareModels(
     : null;
 
   if (dp) {
-    const synergiesTimeline = scenario.cost_synergies_timeline || {};
+    const synergyPlan = buildSynergyPlan(scenario);
+    const years = converted.acquirerPeriods.map((p: any) => new Date(p.period_date).getFullYear().toString());
     const ctx = {
       scenario,
-      acquirerPeriods: acquirerPeriods.rows,
+      acquirerPeriods: converted.acquirerPeriods,
       targetPeriods,
       acquirerModelParams: acquirerModel.rows[0].model_parameters ?? null,
-      synergiesTimeline,
+      synergiesTimeline: plannedCostTimeline(synergyPlan, years),
+      synergyPlan,
+      fx: converted.fx,
+      ...(addOns.length > 0 ? { addOns } : {}),
     };
     const { result } = runFullCalculation(ctx, dp, proFormaPeriods);
     calculatedReturns = result.cases;
@@ -223,9 +348,11 @@ export async function compareModels(
 
   return {
     acquirer_model: acquirerModel.rows[0],
-    acquirer_periods: acquirerPeriods.rows,
+    acquirer_periods: converted.acquirerPeriods,
     target_model: targetModel,
     target_periods: targetPeriods,
+    acquirer_ltm: ltm.acquirerPeriods,
+    target_ltm: ltm.targetPeriods,
     pro_forma_periods: proFormaPeriods,
     scenario: scenario,
     deal_returns: dealReturns,
@@ -233,6 +360,7 @@ export async function compareModels(
     returns_level: returnsLevel,
     returns_level_label: returnsLevelLabel,
     share_summary: shareSummary,
+    fx: converted.fx,
   };
 }
 
@@ -272,12 +400,28 @@ export async function getScenarioWithRelatedData(id: ParamId) {
     [scenarioResult.rows[0].target_model_id]
   );
 
+  // Periods are shown in the reporting currency (stored pro forma already is)
+  const scenario = scenarioResult.rows[0];
+  const converted = applyScenarioFx(
+    scenario, scenarioPeriods(acquirerPeriods.rows), scenarioPeriods(targetPeriods.rows),
+    scenario.acquirer_currency, scenario.target_currency,
+  );
+  // Trailing twelve months from quarterly / monthly models (empty for annual ones)
+  const ltm = applyScenarioFx(
+    scenario, ltmPeriods(acquirerPeriods.rows), ltmPeriods(targetPeriods.rows),
+    scenario.acquirer_currency, scenario.target_currency,
+  );
+  const addOns = await loadAddOns(scenario, converted.fx.reporting_currency);
+
   return {
-    ...scenarioResult.rows[0],
+    ...scenario,
     deal_returns: returnsResult.rows,
     pro_forma_periods: pfResult.rows,
-    acquirer_periods: acquirerPeriods.rows,
-    target_periods: targetPeriods.rows,
+    acquirer_periods: converted.acquirerPeriods,
+    target_periods: consolidateAddOns(converted.acquirerPeriods, converted.targetPeriods, addOns),
+    acquirer_ltm: ltm.acquirerPeriods,
+    target_ltm: ltm.targetPeriods,
+    fx: converted.fx,
   };
 }
 
@@ -304,42 +448,135 @@ export interface CreateScenarioFields {
 }
 
 export async function createScenario(fields: CreateScenarioFields, userId: number | undefined) {
-  const result = await pool.query(
-    `INSERT INTO acquisition_scenarios (
-      name, description, acquirer_model_id, target_model_id,
-      acquisition_date, share_price, enterprise_value, equity_value,
-      ordinary_equity, preferred_equity, preferred_equity_rate, net_debt,
-      rollover_shareholders, sources, uses, exit_date, cost_synergies_timeline,
-      created_by
-    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
-    RETURNING *`,
-    [
-      fields.name,
-      fields.description,
-      fields.acquirer_model_id,
-      fields.target_model_id,
-      fields.acquisition_date,
-      fields.share_price,
-      fields.enterprise_value,
-      fields.equity_value,
-      fields.ordinary_equity,
-      fields.preferred_equity,
-      fields.preferred_equity_rate,
-      fields.net_debt,
-      fields.rollover_shareholders,
-      JSON.stringify(fields.sources || []),
-      JSON.stringify(fields.uses || []),
-      fields.exit_date,
-      JSON.stringify(fields.cost_synergies_timeline || {}),
+  // Insert, first version and audit event commit together
+  return withTransaction(async (client) => {
+    const result = await client.query(
+      `INSERT INTO acquisition_scenarios (
+        name, description, acquirer_model_id, target_model_id,
+        acquisition_date, share_price, enterprise_value, equity_value,
+        ordinary_equity, preferred_equity, preferred_equity_rate, net_debt,
+        rollover_shareholders, sources, uses, exit_date, cost_synergies_timeline,
+        created_by
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
+      RETURNING *`,
+      [
+        fields.name,
+        fields.description,
+        fields.acquirer_model_id,
+        fields.target_model_id,
+        fields.acquisition_date,
+        fields.share_price,
+        fields.enterprise_value,
+        fields.equity_value,
+        fields.ordinary_equity,
+        fields.preferred_equity,
+        fields.preferred_equity_rate,
+        fields.net_debt,
+        fields.rollover_shareholders,
+        JSON.stringify(fields.sources || []),
+        JSON.stringify(fields.uses || []),
+        fields.exit_date,
+        JSON.stringify(fields.cost_synergies_timeline || {}),
+        userId,
+      ]
+    );
+    await recordScenarioVersion(client, result.rows[0], userId);
+    await recordAuditEvent(client, {
       userId,
-    ]
-  );
-  return result.rows[0];
+      entityType: "scenario",
+      entityId: result.rows[0].id,
+      action: "create",
+      after: result.rows[0],
+    });
+    return result.rows[0];
+  });
+}
+
+// ── Clone scenario ────────────────────────────────────────────────
+
+/** Deal terms and synergies copied to a clone (the versioned fields, less identity, status and actuals). */
+const CLONED_FIELDS = [
+  ...VERSIONED_SCALAR_FIELDS.filter((f) => !["name", "description", "status", "actuals_model_id"].includes(f)),
+  ...VERSIONED_JSON_FIELDS,
+];
+
+export interface CloneScenarioFields {
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Branch a scenario: a new draft with the same deal terms, synergies and
+ * stored deal returns, linked to its parent. Post-deal tracking settings
+ * are not copied (IC versions are numbered per scenario). Returns null if
+ * the source does not exist.
+ */
+export async function cloneScenario(id: ParamId, fields: CloneScenarioFields, userId: number | undefined) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const source = await client.query("SELECT name, description FROM acquisition_scenarios WHERE id = $1", [id]);
+    if (source.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    const columns = CLONED_FIELDS.join(", ");
+    const result = await client.query(
+      `INSERT INTO acquisition_scenarios (name, description, status, parent_scenario_id, created_by, ${columns})
+       SELECT $2, $3, 'draft', id, $4, ${columns} FROM acquisition_scenarios WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        fields.name || `${source.rows[0].name} (copy)`,
+        fields.description ?? source.rows[0].description,
+        userId,
+      ]
+    );
+    const clone = result.rows[0];
+
+    await client.query(
+      `INSERT INTO deal_returns (scenario_id, return_case, exit_multiple, irr, mom, irr_delta, mom_delta)
+       SELECT $2, return_case, exit_multiple, irr, mom, irr_delta, mom_delta
+       FROM deal_returns WHERE scenario_id = $1`,
+      [id, clone.id]
+    );
+
+    await recordScenarioVersion(client, clone, userId);
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "scenario",
+      entityId: clone.id,
+      action: "create",
+      after: clone,
+      metadata: { source: "clone", cloned_from: Number(id) },
+    });
+
+    await client.query("COMMIT");
+    return clone;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
 }
 
 // ── Update scenario ───────────────────────────────────────────────
 
-export async function updateScenario(id: ParamId, fields: Record<string, any>) {
+export interface UpdateScenarioOptions {
+  /** Author of the resulting version snapshot. */
+  userId?: number;
+  /** Set when the update rolls the scenario back to an earlier version. */
+  restoredFrom?: number;
+}
+
+export async function updateScenario(
+  id: ParamId,
+  fields: Record<string, any>,
+  opts: UpdateScenarioOptions = {},
+) {
   const setParts: string[] = [];
   const values: unknown[] = [];
   let paramIdx = 1;
@@ -349,6 +586,8 @@ export async function updateScenario(id: ParamId, fields: Record<string, any>) {
     "acquisition_date", "share_price", "enterprise_value", "equity_value",
     "ordinary_equity", "preferred_equity", "preferred_equity_rate", "net_debt",
     "rollover_shareholders", "exit_date", "status",
+    "interest_margin", "hedge_ratio", "swap_rate", "reporting_currency",
+    "revenue_synergy_margin", "actuals_model_id", "ic_version",
   ];
 
   for (const field of allowedFields) {
@@ -360,7 +599,11 @@ export async function updateScenario(id: ParamId, fields: Record<string, any>) {
   }
 
   // Handle JSON fields separately
-  for (const jsonField of ["sources", "uses", "cost_synergies_timeline", "deal_parameters"]) {
+  for (const jsonField of [
+    "sources", "uses", "cost_synergies_timeline", "base_rate_curve", "fx_rates", "deal_parameters",
+    "revenue_synergies_timeline", "synergy_realisation", "integration_costs_timeline", "synergy_items",
+    "add_on_targets",
+  ]) {
     if (fields[jsonField] !== undefined) {
       setParts.push(`${jsonField} = $${paramIdx}`);
       values.push(JSON.stringify(fields[jsonField]));
@@ -375,25 +618,81 @@ export async function updateScenario(id: ParamId, fields: Record<string, any>) {
   setParts.push("updated_at = NOW()");
   values.push(id);
 
-  const result = await pool.query(
-    `UPDATE acquisition_scenarios SET ${setParts.join(", ")} WHERE id = $${paramIdx} RETURNING *`,
-    values
-  );
+  // Update + version snapshot in one transaction so history never misses a save
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const current = await client.query(
+      "SELECT * FROM acquisition_scenarios WHERE id = $1 FOR UPDATE",
+      [id]
+    );
+    if (current.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+    await ensureBaselineVersion(client, current.rows[0]);
+
+    const result = await client.query(
+      `UPDATE acquisition_scenarios SET ${setParts.join(", ")} WHERE id = $${paramIdx} RETURNING *`,
+      values
+    );
+    const version = await recordScenarioVersion(client, result.rows[0], opts.userId, opts.restoredFrom ?? null);
+    await recordAuditEvent(client, {
+      userId: opts.userId,
+      entityType: "scenario",
+      entityId: result.rows[0].id,
+      action: opts.restoredFrom != null ? "restore" : "update",
+      before: current.rows[0],
+      after: result.rows[0],
+      metadata: {
+        ...(version !== null && { version }),
+        ...(opts.restoredFrom != null && { restored_from: opts.restoredFrom }),
+      },
+    });
 
-  if (result.rows.length === 0) {
+    await client.query("COMMIT");
+    return result.rows[0];
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// ── Restore scenario version ──────────────────────────────────────
+
+/**
+ * Roll a scenario back to an earlier version.
+ *
+ * Writes the snapshot's fields back through updateScenario, which records
+ * the restore as a new version (history stays append-only).
+ */
+export async function restoreScenarioVersion(id: ParamId, versionNumber: number, userId: number | undefined) {
+  const version = await getScenarioVersion(id, versionNumber);
+  if (!version) {
     return null;
   }
-  return result.rows[0];
+
+  const fields: Record<string, any> = {};
+  for (const field of [...VERSIONED_SCALAR_FIELDS, ...VERSIONED_JSON_FIELDS]) {
+    if (field in version.snapshot) fields[field] = version.snapshot[field];
+  }
+  // name is NOT NULL — keep the current name if the snapshot somehow lacks one
+  if (!fields.name) delete fields.name;
+
+  return updateScenario(id, fields, { userId, restoredFrom: versionNumber });
 }
 
 // ── Calculate returns ─────────────────────────────────────────────
 
-export async function calculateReturnsForScenario(id: ParamId, dp: DealParameters) {
-  // Save deal_parameters to scenario
-  await pool.query(
-    "UPDATE acquisition_scenarios SET deal_parameters = $1, updated_at = NOW() WHERE id = $2",
-    [JSON.stringify(dp), id]
-  );
+export async function calculateReturnsForScenario(id: ParamId, dp: DealParameters, userId?: number) {
+  // Save deal_parameters to scenario (versioned like any other save)
+  const saved = await updateScenario(id, { deal_parameters: dp }, { userId });
+  if (!saved) {
+    return null;
+  }
 
   // Load all scenario data
   const loaded = await loadScenarioContext(id, { withNames: false });
@@ -411,6 +710,7 @@ export async function calculateReturnsForScenario(id: ParamId, dp: DealParameter
     level_label: result.level_label,
     share_summary: result.share_summary,
     debt_schedule: result.debt_schedule,
+    timeline: result.timeline,
   };
 }
 
@@ -425,14 +725,17 @@ export interface SensitivityParams {
 }
 
 export async function runSensitivityGrid(id: ParamId, params: SensitivityParams) {
-  const { base_params, row_axis, col_axis, metric: metricKey, return_case: targetCase } = params;
-
   // Load scenario context (same data for all grid cells)
   const loaded = await loadScenarioContext(id, { withNames: false });
   if (!loaded) {
     return null;
   }
-  const { ctx } = loaded;
+  return computeSensitivityGrid(loaded.ctx, params);
+}
+
+/** Sensitivity grid over a loaded scenario: axes move the merged params, like the tornado. */
+export function computeSensitivityGrid(ctx: ScenarioContext, params: SensitivityParams) {
+  const { base_params, row_axis, col_axis, metric: metricKey, return_case: targetCase } = params;
 
   const setRow = sensitivityParamSetters[row_axis.param];
   const setCol = sensitivityParamSetters[col_axis.param];
@@ -440,9 +743,8 @@ export async function runSensitivityGrid(id: ParamId, params: SensitivityParams)
     return { error: `Invalid axis param: ${row_axis.param} or ${col_axis.param}`, _errorStatus: 400 as const };
   }
 
-  // Pre-compute shared period data (invariant across grid cells)
-  const tgtNibdFcf = computeNibdFcf(ctx.targetPeriods);
-  const { acqData, periodLabels } = buildComputationData(ctx, base_params, tgtNibdFcf);
+  // Merge once; a single exit multiple speeds up each cell (exit_multiple axes replace it)
+  const { mergedBase, evaluate } = scenarioEvaluator(ctx, base_params, middleMultiple(base_params));
 
   // Run the grid
   const matrix: (number | null)[][] = [];
@@ -450,26 +752,12 @@ export async function runSensitivityGrid(id: ParamId, params: SensitivityParams)
   for (const rowVal of row_axis.values) {
     const row: (number | null)[] = [];
     for (const colVal of col_axis.values) {
-      // Start from base, apply row axis, then col axis
-      let dp: DealParameters = { ...base_params };
-      dp = setRow(dp, rowVal);
-      dp = setCol(dp, colVal);
-
-      // When axis is exit_multiple, force a single-element array
-      const isExitMultRow = row_axis.param === "exit_multiple";
-      const isExitMultCol = col_axis.param === "exit_multiple";
-      const exitMult = isExitMultRow ? rowVal : isExitMultCol ? colVal : (dp.exit_multiples?.[Math.floor((dp.exit_multiples?.length || 1) / 2)] ?? 12);
-
-      // Force a single exit multiple to speed up calculation
-      dp.exit_multiples = [exitMult];
-
-      const mergedDp = prepareFullDealParams(dp, ctx.scenario, ctx.acquirerPeriods, ctx.acquirerModelParams, ctx.synergiesTimeline);
-      const pfData = buildProFormaPeriodData(ctx.acquirerPeriods, ctx.targetPeriods, ctx.synergiesTimeline, mergedDp, tgtNibdFcf);
-
-      const result = calculateDealReturns(acqData, pfData, mergedDp, periodLabels);
+      // Start from the merged base, apply row axis, then col axis
+      const dp = setCol(setRow(mergedBase, rowVal), colVal);
+      const cases = evaluate(dp);
 
       // Extract the requested metric from the target case
-      const caseResult = result.cases.find(c => c.return_case === targetCase);
+      const caseResult = cases.find(c => c.return_case === targetCase);
       let value: number | null = null;
       if (caseResult) {
         if (metricKey === "irr") value = caseResult.irr;
@@ -491,6 +779,489 @@ export async function runSensitivityGrid(id: ParamId, params: SensitivityParams)
   };
 }
 
+// ── Monte Carlo simulation ────────────────────────────────────────
+
+export interface SimulationParams {
+  base_params: DealParameters;
+  variables: Partial<Record<SimulationVariable, Distribution>>;
+  correlations: Correlation[];
+  iterations: number;
+  hurdle_rate: number;
+  return_case: string;
+  bins: number;
+  seed?: number;
+}
+
+export async function runMonteCarloSimulation(id: ParamId, params: SimulationParams) {
+  const loaded = await loadScenarioContext(id, { withNames: false });
+  if (!loaded) {
+    return null;
+  }
+  return computeSimulation(loaded.ctx, params);
+}
+
+/** Iterations between yields to the event loop, so other requests are served during a run. */
+const SIMULATION_YIELD_EVERY = 25;
+
+/**
+ * Monte Carlo over a loaded scenario: every iteration runs the full case
+ * assembly, yielding to the event loop every SIMULATION_YIELD_EVERY iterations.
+ */
+export async function computeSimulation(ctx: ScenarioContext, params: SimulationParams) {
+  const {
+    base_params, variables: distributions, correlations, iterations,
+    hurdle_rate, return_case: targetCase, bins, seed,
+  } = params;
+
+  const variables = SIMULATION_VARIABLES.filter((v) => distributions[v]);
+  if (variables.length === 0) {
+    return { error: "At least one variable needs a distribution", _errorStatus: 400 as const };
+  }
+  const cholesky = choleskyDecompose(correlationMatrix(variables, correlations));
+  if (!cholesky) {
+    return { error: "Correlations are inconsistent (matrix is not positive definite)", _errorStatus: 400 as const };
+  }
+
+  // Pre-compute what does not vary between iterations
+  const tgtNibdFcf = computeNibdFcf(ctx.targetPeriods);
+  const mergedBase = prepareFullDealParams(
+    withAddOnEquity(base_params, ctx), ctx.scenario, ctx.acquirerPeriods, ctx.acquirerModelParams, ctx.synergyPlan,
+  );
+  const years = ctx.acquirerPeriods.map((p: any) => new Date(p.period_date).getFullYear().toString());
+  const baseExit = base_params.exit_multiples?.[Math.floor((base_params.exit_multiples?.length || 1) / 2)] ?? 12;
+
+  const rng = createRng(seed ?? Date.now());
+  const irrs: (number | null)[] = [];
+  const moms: (number | null)[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    if (i > 0 && i % SIMULATION_YIELD_EVERY === 0) {
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+    const sample = sampleInputs(variables, distributions, cholesky, rng);
+
+    let dp: DealParameters = { ...mergedBase, exit_multiples: [sample.exit_multiple ?? baseExit] };
+    if (sample.interest_rate != null) dp = sensitivityParamSetters.interest_rate(dp, sample.interest_rate);
+
+    const sampledCtx: ScenarioContext = sample.synergy_realisation != null
+      ? {
+          ...ctx,
+          synergyPlan: {
+            ...ctx.synergyPlan,
+            realisation: scaleRealisation(ctx.synergyPlan.realisation, years, sample.synergy_realisation),
+          },
+        }
+      : ctx;
+    const data = buildComputationData(sampledCtx, dp, tgtNibdFcf);
+    if (sample.ebitda_haircut) {
+      data.pfData = applyEbitdaHaircut(data.pfData, sample.ebitda_haircut);
+      if (data.pfRiskData) data.pfRiskData = applyEbitdaHaircut(data.pfRiskData, sample.ebitda_haircut);
+    }
+
+    const result = calculateScenarioReturns(sampledCtx, dp, data);
+    const caseResult = result.cases.find((c) => c.return_case === targetCase);
+    irrs.push(caseResult?.irr ?? null);
+    moms.push(caseResult?.mom ?? null);
+  }
+
+  return {
+    iterations,
+    return_case: targetCase,
+    hurdle_rate,
+    prob_above_hurdle: probabilityAbove(irrs, hurdle_rate),
+    irr: summarise(irrs, bins),
+    mom: summarise(moms, bins),
+  };
+}
+
+// ── Single-case evaluation (tornado, goal seek) ──────────────────
+
+/**
+ * Merged base params at one exit multiple, and a function returning the
+ * return cases for modified params. Setters are applied to the merged params
+ * so capital structure moves are not overwritten by the scenario merge.
+ */
+function scenarioEvaluator(ctx: ScenarioContext, baseParams: DealParameters, exitMultiple: number) {
+  const tgtNibdFcf = computeNibdFcf(ctx.targetPeriods);
+  const mergedBase = prepareFullDealParams(
+    withAddOnEquity(baseParams, ctx), ctx.scenario, ctx.acquirerPeriods, ctx.acquirerModelParams, ctx.synergyPlan,
+  );
+  mergedBase.exit_multiples = [exitMultiple];
+
+  const evaluate = (dp: DealParameters): CaseReturn[] =>
+    calculateScenarioReturns(ctx, dp, buildComputationData(ctx, dp, tgtNibdFcf)).cases;
+
+  return { mergedBase, evaluate };
+}
+
+// ── Tornado (one-at-a-time sensitivities) ─────────────────────────
+
+export interface TornadoParams {
+  base_params: DealParameters;
+  deltas: Partial<Record<SensitivityParam, TornadoDelta>>;
+  params?: SensitivityParam[];
+  return_case: string;
+}
+
+export async function runTornado(id: ParamId, params: TornadoParams) {
+  const loaded = await loadScenarioContext(id, { withNames: false });
+  if (!loaded) {
+    return null;
+  }
+  return computeTornado(loaded.ctx, params);
+}
+
+/** Tornado over a loaded scenario (shared by the endpoint and the PPT export). */
+function computeTornado(ctx: ScenarioContext, params: TornadoParams): TornadoResult {
+  const { base_params, deltas, params: selected, return_case: targetCase } = params;
+
+  const { mergedBase, evaluate: casesFor } = scenarioEvaluator(ctx, base_params, middleMultiple(base_params));
+  const evaluate = (dp: DealParameters) => {
+    const caseResult = casesFor(dp).find((c) => c.return_case === targetCase);
+    return { irr: caseResult?.irr ?? null, mom: caseResult?.mom ?? null };
+  };
+
+  const base = evaluate(mergedBase);
+  const rows: TornadoRow[] = [];
+
+  for (const param of selected ?? SENSITIVITY_PARAMS) {
+    const baseVal = sensitivityBaseValue(mergedBase, param);
+    if (baseVal == null) continue;
+    const delta = deltas[param] ?? DEFAULT_TORNADO_DELTAS[param];
+    const run = (side: "low" | "high") => {
+      const value = shiftValue(param, baseVal, delta, side);
+      return { value, ...evaluate(sensitivityParamSetters[param](mergedBase, value)) };
+    };
+    const low = run("low");
+    const high = run("high");
+    rows.push({
+      param,
+      base_value: baseVal,
+      low,
+      high,
+      irr_swing: swing(low.irr, high.irr),
+      mom_swing: swing(low.mom, high.mom),
+    });
+  }
+
+  return {
+    return_case: targetCase,
+    exit_multiple: mergedBase.exit_multiples[0],
+    base_irr: base.irr,
+    base_mom: base.mom,
+    rows: rankByImpact(rows),
+  };
+}
+
+// ── Goal seek ─────────────────────────────────────────────────────
+
+export interface GoalSeekParams {
+  base_params: DealParameters;
+  param: SensitivityParam;
+  metric: GoalSeekMetric;
+  target: number;
+  return_case: string;
+  exit_multiple?: number;
+  lower?: number;
+  upper?: number;
+  tolerance: number;
+  max_iterations: number;
+}
+
+export async function runGoalSeek(id: ParamId, params: GoalSeekParams) {
+  const { base_params, param, metric, target, return_case: targetCase } = params;
+
+  const loaded = await loadScenarioContext(id, { withNames: false });
+  if (!loaded) {
+    return null;
+  }
+
+  const exitMultiple = params.exit_multiple ?? middleMultiple(base_params);
+  const { mergedBase, evaluate } = scenarioEvaluator(loaded.ctx, base_params, exitMultiple);
+  const metricAt = (dp: DealParameters): number | null => {
+    const caseResult = evaluate(dp).find((c) => c.return_case === targetCase);
+    return caseResult ? caseResult[metric] ?? null : null;
+  };
+
+  const baseValue = sensitivityBaseValue(mergedBase, param);
+  const [defaultLower, defaultUpper] = defaultBounds(param, baseValue, mergedBase.price_paid);
+  const lower = params.lower ?? defaultLower;
+  const upper = params.upper ?? defaultUpper;
+  if (!(lower < upper)) {
+    return { error: `Invalid search range for ${param}: ${lower} to ${upper}`, _errorStatus: 400 as const };
+  }
+
+  const result = solve(
+    (x) => metricAt(sensitivityParamSetters[param](mergedBase, x)),
+    target,
+    lower,
+    upper,
+    { tolerance: params.tolerance, maxIterations: params.max_iterations },
+  );
+
+  return {
+    param,
+    metric,
+    target,
+    return_case: targetCase,
+    exit_multiple: param === "exit_multiple" ? result.solution : exitMultiple,
+    base_value: baseValue,
+    base_metric: metricAt(mergedBase),
+    ...result,
+  };
+}
+
+// ── DCF valuation ─────────────────────────────────────────────────
+
+export interface DcfParams extends Partial<DcfAssumptions> {
+  base_params: DealParameters;
+}
+
+export async function runDcf(id: ParamId, params: DcfParams) {
+  const loaded = await loadScenarioContext(id, { withNames: true });
+  if (!loaded) {
+    return null;
+  }
+  return computeDcf(loaded.ctx, params);
+}
+
+/** DCF for acquirer, target and pro forma (shared by the endpoint and the Excel export). */
+export function computeDcf(ctx: ScenarioContext, params: DcfParams): DcfResult {
+  const { base_params, ...overrides } = params;
+  const dp = prepareFullDealParams(
+    withAddOnEquity(base_params, ctx), ctx.scenario, ctx.acquirerPeriods, ctx.acquirerModelParams, ctx.synergyPlan,
+  );
+  const assumptions = resolveDcfAssumptions(dp, overrides);
+  const { acqData, tgtData, pfData } = buildComputationData(ctx, dp);
+
+  const acqStart = firstForecastIndex(ctx.acquirerPeriods);
+  const tgtStart = firstForecastIndex(ctx.targetPeriods);
+  const acqLabels = extractPeriodLabels(ctx.acquirerPeriods);
+  const tgtLabels = extractPeriodLabels(ctx.targetPeriods);
+  const acqBridge = periodBridge(ctx.acquirerPeriods);
+  const tgtBridge = periodBridge(ctx.targetPeriods);
+  const entryPps = dp.entry_price_per_share || null;
+
+  const valuations = [
+    valueEntity(
+      "acquirer", ctx.scenario.acquirer_company_name || "Acquirer",
+      acqData.slice(acqStart), acqLabels.slice(acqStart), dp, assumptions,
+      { ...acqBridge, entry_ev: dp.acquirer_entry_ev || null, entry_per_share: entryPps },
+    ),
+  ];
+  if (ctx.targetPeriods.length > 0) {
+    valuations.push(valueEntity(
+      "target", ctx.scenario.target_company_name || "Target",
+      tgtData.slice(tgtStart), tgtLabels.slice(tgtStart), dp, assumptions,
+      { ...tgtBridge, entry_ev: dp.price_paid || null, entry_per_share: null },
+    ));
+  }
+
+  // Pro forma: the deal's capital structure when set (Level 2), else both balance sheets combined
+  const level2 = isLevel2(dp);
+  const pfEntryEv = (dp.acquirer_entry_ev ?? 0) + (dp.price_paid ?? 0);
+  valuations.push(valueEntity(
+    "pro_forma", "Pro Forma",
+    pfData.slice(acqStart), acqLabels.slice(acqStart), dp, assumptions,
+    {
+      net_debt: level2 ? totalEntryDebt(dp) : acqBridge.net_debt + tgtBridge.net_debt,
+      preferred_equity: level2 ? dp.preferred_equity ?? 0 : acqBridge.preferred_equity + tgtBridge.preferred_equity,
+      shares: dp.entry_shares || acqBridge.shares,
+      entry_ev: pfEntryEv || null,
+      entry_per_share: entryPps,
+    },
+  ));
+
+  return { assumptions, valuations };
+}
+
+// ── Contribution analysis ─────────────────────────────────────────
+
+export interface ContributionParams {
+  base_params: DealParameters;
+  price_factors?: number[];
+  issue_price?: number;
+}
+
+export async function runContribution(id: ParamId, params: ContributionParams) {
+  const loaded = await loadScenarioContext(id, { withNames: true });
+  if (!loaded) {
+    return null;
+  }
+  return computeContribution(loaded.ctx, params);
+}
+
+/** Contribution vs ownership (shared by the endpoint and the Excel export). */
+function computeContribution(ctx: ScenarioContext, params: ContributionParams): ContributionResult {
+  const dp = prepareFullDealParams(
+    withAddOnEquity(params.base_params, ctx), ctx.scenario, ctx.acquirerPeriods, ctx.acquirerModelParams, ctx.synergyPlan,
+  );
+  const { acqData, tgtData } = buildComputationData(ctx, dp);
+
+  // Target figures on the acquirer's period dates (calendarised when year-ends differ)
+  const aligned = alignTargetPeriods(ctx.acquirerPeriods, ctx.targetPeriods);
+  const labels = extractPeriodLabels(ctx.acquirerPeriods);
+  const acqStart = firstForecastIndex(ctx.acquirerPeriods);
+  const periods = ctx.acquirerPeriods.map((ap, i) => {
+    const tp = aligned.get(periodDateKey(ap.period_date))?.period ?? null;
+    const idx = tp ? ctx.targetPeriods.indexOf(tp) : -1;
+    return {
+      period_label: labels[i],
+      acquirer: acqData[i],
+      target: idx >= 0 ? tgtData[idx] : tp ? buildTargetPeriodData([tp])[0] : null,
+    };
+  }).slice(acqStart);
+
+  // Shares from the tracker: entry shares include the S&U equity issue
+  const pps = dp.entry_price_per_share ?? 0;
+  const equityFromSources = dp.equity_from_sources ?? 0;
+  const rolloverEquity = dp.rollover_equity ?? 0;
+  const issuedShares = pps > 0 ? equityFromSources / (pps * SHARE_ISSUE_PREMIUM) : 0;
+  const rolloverShares = dp.rollover_shares ?? (pps > 0 ? rolloverEquity / pps : 0);
+  const tgtBridge = periodBridge(ctx.targetPeriods);
+
+  return contributionAnalysis({
+    acquirer_name: ctx.scenario.acquirer_company_name || "Acquirer",
+    target_name: ctx.scenario.target_company_name || "Target",
+    periods,
+    basis_index: 0,
+    dp,
+    existing_shares: dp.entry_shares ? dp.entry_shares - issuedShares : null,
+    issued_shares: issuedShares,
+    rollover_shares: rolloverShares,
+    entry_price_per_share: pps || null,
+    target_debt_like: tgtBridge.net_debt + tgtBridge.preferred_equity,
+    target_shares: tgtBridge.shares,
+    share_consideration: equityFromSources + rolloverEquity,
+    price_factors: params.price_factors,
+    issue_price: params.issue_price,
+  });
+}
+
+// ── EPS accretion / dilution ──────────────────────────────────────
+
+export async function runEpsAccretion(id: ParamId, baseParams: DealParameters) {
+  const loaded = await loadScenarioContext(id, { withNames: false });
+  if (!loaded) {
+    return null;
+  }
+  return computeEpsAccretion(loaded.ctx, baseParams);
+}
+
+/** Standalone vs pro forma EPS and FCF per share by forecast year. */
+export function computeEpsAccretion(ctx: ScenarioContext, baseParams: DealParameters): EpsAccretionResult {
+  const { mergedDp: dp, result } = runFullCalculation(ctx, baseParams);
+
+  const pfRows = buildProFormaPeriods(ctx.acquirerPeriods, ctx.targetPeriods, dp);
+  applySynergies(pfRows, ctx.synergyPlan);
+  const aligned = alignTargetPeriods(ctx.acquirerPeriods, ctx.targetPeriods);
+  const labels = extractPeriodLabels(ctx.acquirerPeriods);
+
+  // Interest on the deal debt: the Level 2 debt schedule, else entry debt × all-in rate
+  const scheduleInterest = new Map(
+    (result.debt_schedule ?? []).map((row) => [
+      row.period_label,
+      row.interest + (row.tranches ?? []).reduce((sum, t) => sum + t.pik_interest, 0),
+    ]),
+  );
+  const flatInterest = totalEntryDebt(dp) * (entryDebtRate(dp) ?? 0);
+
+  // Standalone shares carry only the acquirer's own M&A dilution
+  const maParams = maShareParams(ctx.acquirerModelParams);
+  const standaloneShares = computeDynamicShares(ctx.acquirerPeriods, maParams).sharesByPeriod;
+  const proFormaShares = computeDynamicShares(
+    ctx.acquirerPeriods, maParams, dp.equity_from_sources ?? 0, dp.add_on_equity,
+  ).sharesByPeriod;
+  const pps = dp.entry_price_per_share ?? 0;
+  const rolloverShares = dp.rollover_shares ?? (pps > 0 ? (dp.rollover_equity ?? 0) / pps : 0);
+  const shares = (v: number | undefined) => (v && v > 0 ? v : null);
+
+  const periods = ctx.acquirerPeriods.map((ap, i): EpsPeriodInput => {
+    const pf = pfRows[i];
+    return {
+      period_label: labels[i],
+      acquirer: ap,
+      target: aligned.get(periodDateKey(ap.period_date))?.period ?? null,
+      synergy_ebitda: pf.total_ebitda_incl_synergies - pf.total_ebitda_excl_synergies,
+      integration_costs: pf.integration_costs ?? 0,
+      ppa_amortisation: pf.ppa_amortisation ?? 0,
+      new_debt_interest: result.debt_schedule ? scheduleInterest.get(labels[i]) ?? 0 : flatInterest,
+      acquirer_capex_nwc: -Math.abs(parseFloat(ap.capex) || 0) + (nwcCashFlow(ap) ?? 0),
+      pro_forma_capex_nwc: pf.total_capex + pf.total_change_nwc,
+      standalone_shares: shares(standaloneShares[i]?.shares),
+      pro_forma_shares: shares((proFormaShares[i]?.shares ?? 0) + rolloverShares),
+    };
+  }).slice(firstForecastIndex(ctx.acquirerPeriods));
+
+  return epsAccretion(periods, dp);
+}
+
+// ── Post-deal variance ────────────────────────────────────────────
+
+export async function runVariance(id: ParamId) {
+  const loaded = await loadScenarioContext(id, { withNames: true });
+  if (!loaded) {
+    return null;
+  }
+  return computeVariance(loaded.ctx);
+}
+
+/**
+ * Actuals after closing against the IC plan (shared by the endpoint and the
+ * Excel export). The plan is rebuilt from the IC version's snapshot (models,
+ * FX rates, synergies and add-ons as they went to IC) and the periods stored
+ * with it, so later edits to the scenario or the models do not move it.
+ * Without an actuals model the plan is returned on its own.
+ */
+async function computeVariance(ctx: ScenarioContext): Promise<PostDealVariance> {
+  const { scenario } = ctx;
+
+  // The plan: the IC version when one is marked, else the current scenario
+  const icVersion = scenario.ic_version != null
+    ? await getScenarioVersion(scenario.id, scenario.ic_version)
+    : null;
+  const planPeriods = icVersion ? await getScenarioVersionPeriods(scenario.id, icVersion.version_number) : null;
+  const planCtx = icVersion ? await loadSnapshotContext(scenario, icVersion.snapshot, planPeriods) : ctx;
+  const reportingCurrency = planCtx.fx?.reporting_currency ?? planCtx.scenario.acquirer_currency ?? "NOKm";
+  const years = planCtx.targetPeriods.map((p: FinancialPeriod) => new Date(p.period_date).getFullYear().toString());
+  const plannedSynergies = plannedCostTimeline(planCtx.synergyPlan, years);
+
+  let actuals: FinancialPeriod[] = [];
+  let actualsModel: { name: string } | null = null;
+  if (scenario.actuals_model_id) {
+    const modelResult = await pool.query(
+      `SELECT m.name, c.currency FROM financial_models m JOIN companies c ON m.company_id = c.id
+       WHERE m.id = $1`,
+      [scenario.actuals_model_id]
+    );
+    actualsModel = modelResult.rows[0] ?? null;
+    if (actualsModel) {
+      const periodsResult = await pool.query(
+        "SELECT * FROM financial_periods WHERE model_id = $1 ORDER BY period_date",
+        [scenario.actuals_model_id]
+      );
+      actuals = convertPeriods(
+        scenarioPeriods(periodsResult.rows), "target", modelResult.rows[0].currency, reportingCurrency,
+        planCtx.scenario.fx_rates ?? {},
+      ).periods;
+    }
+  }
+
+  return {
+    actuals_model_id: actualsModel ? scenario.actuals_model_id : null,
+    actuals_model_name: actualsModel?.name ?? null,
+    ic_version: icVersion ? scenario.ic_version : null,
+    ic_version_created_at: icVersion?.created_at ?? null,
+    reporting_currency: reportingCurrency,
+    ...varianceReport({
+      plan: planCtx.targetPeriods,
+      actuals,
+      planned_synergies: plannedSynergies,
+      acquisition_date: scenario.acquisition_date,
+    }),
+  };
+}
+
 // ── Bulk upsert deal returns ──────────────────────────────────────
 
 export interface ReturnRow {
@@ -502,10 +1273,25 @@ export interface ReturnRow {
   mom_delta?: number | null;
 }
 
-export async function bulkUpsertReturns(id: ParamId, returns: ReturnRow[]) {
+/** Saved deal returns keyed `case@multiple` for the audit diff. */
+async function snapshotDealReturns(db: pg.PoolClient, id: ParamId) {
+  const result = await db.query(
+    "SELECT return_case, exit_multiple, irr, mom, irr_delta, mom_delta FROM deal_returns WHERE scenario_id = $1",
+    [id]
+  );
+  const byKey: Record<string, Record<string, unknown>> = {};
+  for (const { return_case, exit_multiple, ...values } of result.rows) {
+    byKey[`${return_case}@${Number(exit_multiple)}`] = values;
+  }
+  return byKey;
+}
+
+export async function bulkUpsertReturns(id: ParamId, returns: ReturnRow[], userId?: number) {
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
+    const scenario = await client.query("SELECT name FROM acquisition_scenarios WHERE id = $1", [id]);
+    const before = await snapshotDealReturns(client, id);
 
     const inserted = [];
     for (const r of returns) {
@@ -521,6 +1307,16 @@ export async function bulkUpsertReturns(id: ParamId, returns: ReturnRow[]) {
       inserted.push(result.rows[0]);
     }
 
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "scenario",
+      entityId: Number(id),
+      entityName: scenario.rows[0]?.name,
+      action: "update",
+      before: { deal_returns: before },
+      after: { deal_returns: await snapshotDealReturns(client, id) },
+    });
+
     await client.query("COMMIT");
     return { count: inserted.length, returns: inserted };
   } catch (err) {
@@ -533,7 +1329,7 @@ export async function bulkUpsertReturns(id: ParamId, returns: ReturnRow[]) {
 
 // ── Generate and persist pro forma periods ────────────────────────
 
-export async function generateAndPersistProForma(id: ParamId) {
+export async function generateAndPersistProForma(id: ParamId, userId?: number) {
   // Load scenario context
   const loaded = await loadScenarioContext(id, { withNames: false });
   if (!loaded) {
@@ -545,9 +1341,9 @@ export async function generateAndPersistProForma(id: ParamId) {
   const proFormaRows = buildProFormaPeriods(
     ctx.acquirerPeriods,
     ctx.targetPeriods,
-    ctx.scenario.deal_parameters ?? undefined,
+    { ...ctx.scenario.deal_parameters, acquisition_date: toIsoDate(ctx.scenario.acquisition_date) },
   );
-  applySynergies(proFormaRows, ctx.synergiesTimeline);
+  applySynergies(proFormaRows, ctx.synergyPlan);
 
   const client = await pool.connect();
   try {
@@ -570,8 +1366,10 @@ export async function generateAndPersistProForma(id: ParamId) {
           cost_synergies, total_ebitda_incl_synergies, ebitda_margin_incl_synergies,
           total_capex, total_change_nwc, total_other_cash_flow,
           operating_fcf, minority_interest, operating_fcf_excl_minorities,
-          cash_conversion
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20)
+          cash_conversion, extra_data,
+          revenue_synergies, revenue_synergy_ebitda, integration_costs,
+          total_depreciation, total_amortisation, ppa_amortisation, total_net_financial_items
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25,$26,$27,$28)
         RETURNING *`,
         [
           id,
@@ -594,11 +1392,30 @@ export async function generateAndPersistProForma(id: ParamId) {
           pf.minority_interest,
           pf.operating_fcf_excl_minorities,
           pf.cash_conversion,
+          // Record how the target's periods were matched (exact / calendarised / missing)
+          JSON.stringify(pf.target_alignment ? { target_alignment: pf.target_alignment } : {}),
+          pf.revenue_synergies ?? 0,
+          pf.revenue_synergy_ebitda ?? 0,
+          pf.integration_costs ?? 0,
+          pf.total_depreciation ?? null,
+          pf.total_amortisation ?? null,
+          pf.ppa_amortisation ?? 0,
+          pf.total_net_financial_items ?? null,
         ]
       );
       combined.push(result.rows[0]);
     }
 
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "scenario",
+      entityId: ctx.scenario.id,
+      entityName: ctx.scenario.name,
+      action: "generate",
+      changes: [],
+      metadata: { pro_forma_periods: combined.length },
+    });
+
     await client.query("COMMIT");
     return { count: combined.length, periods: combined };
   } catch (err) {
@@ -611,6 +1428,19 @@ export async function generateAndPersistProForma(id: ParamId) {
 
 // ── Build Excel export data ───────────────────────────────────────
 
+/** Saved deal parameters, or the defaults for a scenario that was never calculated. */
+function savedDealParams(scenario: ScenarioContext["scenario"]): DealParameters {
+  return (scenario.deal_parameters && Object.keys(scenario.deal_parameters).length > 0)
+    ? scenario.deal_parameters
+    : {
+        price_paid: 0,
+        exit_multiples: [10, 11, 12, 13, 14],
+        acquirer_entry_ev: 0,
+        tax_rate: 0.22,
+        da_pct_revenue: 0.01,
+      };
+}
+
 export async function buildExcelExportData(id: ParamId) {
   // Load scenario context with names (for Excel headers) and stored pro forma
   const loaded = await loadScenarioContext(id, { withNames: true, withStoredProForma: true });
@@ -621,16 +1451,7 @@ export async function buildExcelExportData(id: ParamId) {
   const scenario = ctx.scenario;
 
   // Build deal parameters
-  const baseDp: DealParameters = (scenario.deal_parameters &&
-    Object.keys(scenario.deal_parameters).length > 0)
-    ? scenario.deal_parameters
-    : {
-        price_paid: 0,
-        exit_multiples: [10, 11, 12, 13, 14],
-        acquirer_entry_ev: 0,
-        tax_rate: 0.22,
-        da_pct_revenue: 0.01,
-      };
+  const baseDp = savedDealParams(scenario);
 
   // Run full calculation
   let calculatedReturns: CalculatedReturns;
@@ -654,7 +1475,7 @@ export async function buildExcelExportData(id: ParamId) {
       ctx.targetPeriods,
       mergedDp,
     );
-    applySynergies(pfRows, ctx.synergiesTimeline);
+    applySynergies(pfRows, ctx.synergyPlan);
     proFormaPeriods = pfRows;
   }
 
@@ -702,8 +1523,31 @@ export async function buildExcelExportData(id: ParamId) {
     netDebt: finalND,
     calculatedReturns,
     synergiesTimeline: ctx.synergiesTimeline,
+    synergyPlan: ctx.synergyPlan,
+    fx: ctx.fx,
   };
 
+  try {
+    exportData.dcf = computeDcf(ctx, { base_params: baseDp });
+  } catch (dcfErr) {
+    console.error("DCF valuation failed for export:", dcfErr);
+  }
+
+  try {
+    exportData.contribution = computeContribution(ctx, { base_params: baseDp });
+  } catch (contributionErr) {
+    console.error("Contribution analysis failed for export:", contributionErr);
+  }
+
+  // Variance against the IC plan once actuals are loaded
+  if (scenario.actuals_model_id) {
+    try {
+      exportData.variance = await computeVariance(ctx);
+    } catch (varianceErr) {
+      console.error("Variance report failed for export:", varianceErr);
+    }
+  }
+
   // Generate workbook
   const workbook = await generateExcelModel(exportData);
 
@@ -714,23 +1558,14 @@ export async function buildExcelExportData(id: ParamId) {
 
 // ── Build PPT export data ─────────────────────────────────────────
 
-export async function buildPptExportData(id: ParamId) {
+export async function buildPptExportData(id: ParamId, options: { tornado?: boolean } = {}) {
   // Reuse the same data assembly as Excel export
   const loaded = await loadScenarioContext(id, { withNames: true, withStoredProForma: true });
   if (!loaded) return null;
   const { ctx, storedProFormaPeriods } = loaded;
   const scenario = ctx.scenario;
 
-  const baseDp: DealParameters = (scenario.deal_parameters &&
-    Object.keys(scenario.deal_parameters).length > 0)
-    ? scenario.deal_parameters
-    : {
-        price_paid: 0,
-        exit_multiples: [10, 11, 12, 13, 14],
-        acquirer_entry_ev: 0,
-        tax_rate: 0.22,
-        da_pct_revenue: 0.01,
-      };
+  const baseDp = savedDealParams(scenario);
 
   let calculatedReturns: CalculatedReturns;
   let mergedDp: DealParameters;
@@ -747,7 +1582,7 @@ export async function buildPptExportData(id: ParamId) {
   let proFormaPeriods: any[] = storedProFormaPeriods || [];
   if (proFormaPeriods.length === 0 && ctx.acquirerPeriods.length > 0) {
     const pfRows = buildProFormaPeriods(ctx.acquirerPeriods, ctx.targetPeriods, mergedDp);
-    applySynergies(pfRows, ctx.synergiesTimeline);
+    applySynergies(pfRows, ctx.synergyPlan);
     proFormaPeriods = pfRows;
   }
 
@@ -785,20 +1620,101 @@ export async function buildPptExportData(id: ParamId) {
     netDebt: finalND,
     calculatedReturns,
     synergiesTimeline: ctx.synergiesTimeline,
+    synergyPlan: ctx.synergyPlan,
+    fx: ctx.fx,
   };
 
+  if (options.tornado) {
+    try {
+      const returnCase = calculatedReturns.cases.some((c) => c.return_case === "Kombinert") ? "Kombinert" : "Standalone";
+      exportData.tornado = computeTornado(ctx, { base_params: baseDp, deltas: {}, return_case: returnCase });
+    } catch (tornadoErr) {
+      console.error("Tornado calculation failed for PPT export:", tornadoErr);
+    }
+  }
+
   const pres = await generatePptModel(exportData);
   const fileName = `${(scenario.name || "scenario").replace(/[^a-zA-Z0-9\-_ ]/g, "")}_${id}.pptx`;
 
   return { pres, fileName };
 }
 
-// ── Delete scenario ───────────────────────────────────────────────
+// ── Scenario comparison ───────────────────────────────────────────
 
-export async function deleteScenario(id: ParamId) {
-  const result = await pool.query(
-    "DELETE FROM acquisition_scenarios WHERE id = $1 RETURNING id",
-    [id]
+/**
+ * Up to five scenarios side by side. Each runs through the full calculation
+ * at one exit multiple — the requested one, else the middle of the first
+ * scenario's range — so returns and exit dilution line up. Null when any of
+ * the scenarios does not exist.
+ */
+export async function runScenarioComparison(
+  ids: number[],
+  params: { exit_multiple?: number } = {},
+): Promise<ScenarioComparison | null> {
+  const contexts: ScenarioContext[] = [];
+  for (const id of ids) {
+    const loaded = await loadScenarioContext(id, { withNames: true });
+    if (!loaded) return null;
+    contexts.push(loaded.ctx);
+  }
+
+  const exitMultiple = comparisonExitMultiple(
+    params.exit_multiple,
+    savedDealParams(contexts[0].scenario).exit_multiples,
   );
-  return result.rows.length > 0;
+  const inputs = contexts.map((ctx): ComparisonInput => {
+    const { scenario } = ctx;
+    const { mergedDp, result } = runFullCalculation(ctx, { ...savedDealParams(scenario), exit_multiples: [exitMultiple] });
+    return {
+      id: scenario.id,
+      name: scenario.name || `Scenario ${scenario.id}`,
+      acquirer_model_name: scenario.acquirer_model_name,
+      target_company_name: scenario.target_company_name,
+      target_model_name: scenario.target_model_name,
+      acquirerPeriods: ctx.acquirerPeriods,
+      targetPeriods: ctx.targetPeriods,
+      dp: mergedDp,
+      result,
+    };
+  });
+
+  return compareScenarios(inputs, exitMultiple);
+}
+
+const comparisonFileName = (comparison: ScenarioComparison, ext: string) =>
+  `Scenario_comparison_${comparison.scenarios.map((s) => s.id).join("-")}.${ext}`;
+
+export async function buildComparisonExcel(ids: number[], params: { exit_multiple?: number } = {}) {
+  const comparison = await runScenarioComparison(ids, params);
+  if (!comparison) return null;
+  const workbook = await generateComparisonWorkbook(comparison);
+  return { workbook, fileName: comparisonFileName(comparison, "xlsx") };
+}
+
+export async function buildComparisonPpt(ids: number[], params: { exit_multiple?: number } = {}) {
+  const comparison = await runScenarioComparison(ids, params);
+  if (!comparison) return null;
+  const pres = await generateComparisonPpt(comparison);
+  return { pres, fileName: comparisonFileName(comparison, "pptx") };
+}
+
+// ── Delete scenario ───────────────────────────────────────────────
+
+export async function deleteScenario(id: ParamId, userId?: number) {
+  return withTransaction(async (client) => {
+    const result = await client.query(
+      "DELETE FROM acquisition_scenarios WHERE id = $1 RETURNING *",
+      [id]
+    );
+    if (result.rows.length === 0) return false;
+
+    await recordAuditEvent(client, {
+      userId,
+      entityType: "scenario",
+      entityId: result.rows[0].id,
+      action: "delete",
+      before: result.rows[0],
+    });
+    return true;
+  });
 }
@@ -0,0 +1,348 @@
+/**
+ * Scenario Versions — immutable snapshots of a scenario's editable fields.
+ *
+ * Every save through the scenario service records a snapshot row in
+ * `scenario_versions`, so the numbers that went to IC survive later edits.
+ * Snapshots can be listed, diffed field-by-field (with the resulting IRR/MoM
+ * change) and restored. Each version also stores the periods of the models
+ * it points at, so the IC plan can be rebuilt as it was approved.
+ */
+
+import type pg from "pg";
+import pool from "../models/db.js";
+import type { CaseReturn, DealParameters } from "./dealReturns.js";
+import { loadSnapshotContext, runFullCalculation, type ScenarioContext } from "./scenarioContext.js";
+
+/** Matches Express req.params value type (string at runtime, but typed broadly). */
+type ParamId = string | number | string[];
+
+/** Pool or a checked-out client inside a transaction. */
+type Queryable = pg.Pool | pg.PoolClient;
+
+// ── Snapshot ───────────────────────────────────────────────────────
+
+/** Scalar scenario columns captured in a snapshot (and written back on restore). */
+export const VERSIONED_SCALAR_FIELDS = [
+  "name", "description", "acquirer_model_id", "target_model_id", "actuals_model_id",
+  "acquisition_date", "share_price",
+  "enterprise_value", "equity_value",
+  "ordinary_equity", "preferred_equity", "preferred_equity_rate", "net_debt",
+  "rollover_shareholders", "exit_date", "status",
+  "interest_margin", "hedge_ratio", "swap_rate", "reporting_currency",
+  "revenue_synergy_margin",
+] as const;
+
+/** JSONB scenario columns captured in a snapshot. */
+export const VERSIONED_JSON_FIELDS = [
+  "sources", "uses", "cost_synergies_timeline", "base_rate_curve", "fx_rates", "deal_parameters",
+  "revenue_synergies_timeline", "synergy_realisation", "integration_costs_timeline", "synergy_items",
+  "add_on_targets",
+] as const;
+
+/** JSON fields diffed key-by-key (objects); the others are compared whole (arrays). */
+const KEYED_JSON_FIELDS = new Set([
+  "deal_parameters", "cost_synergies_timeline", "base_rate_curve", "fx_rates",
+  "revenue_synergies_timeline", "synergy_realisation", "integration_costs_timeline",
+]);
+
+const NUMERIC_FIELDS = new Set([
+  "share_price", "enterprise_value", "equity_value",
+  "ordinary_equity", "preferred_equity", "preferred_equity_rate", "net_debt",
+  "rollover_shareholders", "interest_margin", "hedge_ratio", "swap_rate",
+  "revenue_synergy_margin",
+]);
+
+export type ScenarioSnapshot = Record<string, unknown>;
+
+/** Format a pg DATE (parsed as local midnight) as YYYY-MM-DD without a UTC shift. */
+function toDateString(v: unknown): unknown {
+  if (!(v instanceof Date)) return v;
+  const mm = String(v.getMonth() + 1).padStart(2, "0");
+  const dd = String(v.getDate()).padStart(2, "0");
+  return `${v.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Extract the versioned fields from a scenario DB row.
+ *
+ * NUMERIC columns arrive from pg as strings — they are normalised to numbers
+ * so that snapshots compare (and diff) by value.
+ */
+export function buildSnapshot(row: Record<string, any>): ScenarioSnapshot {
+  const snapshot: ScenarioSnapshot = {};
+  for (const field of VERSIONED_SCALAR_FIELDS) {
+    let v = row[field] ?? null;
+    if (v !== null && NUMERIC_FIELDS.has(field)) v = Number(v);
+    if (field === "acquisition_date" || field === "exit_date") v = toDateString(v);
+    snapshot[field] = v;
+  }
+  for (const field of VERSIONED_JSON_FIELDS) {
+    snapshot[field] = row[field] ?? (KEYED_JSON_FIELDS.has(field) ? {} : []);
+  }
+  return snapshot;
+}
+
+// ── Diff ───────────────────────────────────────────────────────────
+
+export interface FieldChange {
+  /** Column name, or `column.key` for keyed JSON fields (e.g. `deal_parameters.price_paid`). */
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Field-level diff between two snapshots.
+ *
+ * Scalar columns and array JSON fields (sources, uses) are compared whole;
+ * object JSON fields (deal_parameters, synergies, base-rate curve) are
+ * compared key by key so a single changed assumption shows up on its own.
+ * Fields missing from a snapshot (recorded before they were versioned) are
+ * not compared.
+ */
+export function diffSnapshots(from: ScenarioSnapshot, to: ScenarioSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of VERSIONED_SCALAR_FIELDS) {
+    if (!(field in from) || !(field in to)) continue;
+    if (!isEqual(from[field], to[field])) {
+      changes.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+    }
+  }
+
+  for (const field of VERSIONED_JSON_FIELDS) {
+    if (!(field in from) || !(field in to)) continue;
+    if (KEYED_JSON_FIELDS.has(field)) {
+      const a = (from[field] || {}) as Record<string, unknown>;
+      const b = (to[field] || {}) as Record<string, unknown>;
+      const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+      for (const key of keys) {
+        if (!isEqual(a[key], b[key])) {
+          changes.push({ field: `${field}.${key}`, from: a[key] ?? null, to: b[key] ?? null });
+        }
+      }
+    } else if (!isEqual(from[field], to[field])) {
+      changes.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+    }
+  }
+
+  return changes;
+}
+
+// ── Recording ──────────────────────────────────────────────────────
+
+/**
+ * Record a snapshot of `row` as the next version of its scenario.
+ *
+ * Skipped when the snapshot is identical to the latest version, so repeated
+ * saves (e.g. recalculating returns without changes) don't flood the history.
+ * The acquirer, target and add-on models' periods are stored with it.
+ * Returns the new version number, or null when nothing was recorded.
+ */
+export async function recordScenarioVersion(
+  db: Queryable,
+  row: Record<string, any>,
+  userId: number | null | undefined,
+  restoredFrom: number | null = null,
+): Promise<number | null> {
+  const snapshot = buildSnapshot(row);
+
+  const latest = await db.query(
+    `SELECT version_number, snapshot FROM scenario_versions
+     WHERE scenario_id = $1 ORDER BY version_number DESC LIMIT 1`,
+    [row.id]
+  );
+  const prev = latest.rows[0];
+  if (prev && restoredFrom === null && diffSnapshots(prev.snapshot, snapshot).length === 0) {
+    return null;
+  }
+
+  const versionNumber = (prev?.version_number ?? 0) + 1;
+  const modelIds = [
+    row.acquirer_model_id, row.target_model_id,
+    ...((row.add_on_targets ?? []) as { target_model_id: number }[]).map((t) => t.target_model_id),
+  ].filter((modelId) => modelId != null);
+  await db.query(
+    `INSERT INTO scenario_versions (scenario_id, version_number, snapshot, restored_from, created_by, periods)
+     VALUES ($1, $2, $3, $4, $5, (
+       SELECT COALESCE(jsonb_agg(to_jsonb(fp) ORDER BY fp.model_id, fp.period_date), '[]'::jsonb)
+       FROM financial_periods fp WHERE fp.model_id = ANY($6)
+     ))`,
+    [row.id, versionNumber, JSON.stringify(snapshot), restoredFrom, userId ?? null, modelIds]
+  );
+  return versionNumber;
+}
+
+/**
+ * Make sure a scenario has a baseline version before it is first modified.
+ *
+ * Scenarios created before version history existed have no snapshot; this
+ * captures their current state (attributed to the scenario's creator) so the
+ * pre-edit numbers are not lost.
+ */
+export async function ensureBaselineVersion(db: Queryable, row: Record<string, any>): Promise<void> {
+  const existing = await db.query(
+    "SELECT 1 FROM scenario_versions WHERE scenario_id = $1 LIMIT 1",
+    [row.id]
+  );
+  if (existing.rows.length === 0) {
+    await recordScenarioVersion(db, row, row.created_by);
+  }
+}
+
+// ── Queries ────────────────────────────────────────────────────────
+
+const VERSION_SELECT_SQL = `
+  SELECT v.id, v.scenario_id, v.version_number, v.snapshot, v.restored_from,
+    v.created_by, u.name as created_by_name, v.created_at
+  FROM scenario_versions v
+  LEFT JOIN users u ON v.created_by = u.id`;
+
+export async function getScenarioVersion(id: ParamId, versionNumber: number) {
+  const result = await pool.query(
+    `${VERSION_SELECT_SQL} WHERE v.scenario_id = $1 AND v.version_number = $2`,
+    [id, versionNumber]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * The model periods stored with a version. Null for versions recorded before
+ * periods were stored, which fall back to the models' current periods.
+ */
+export async function getScenarioVersionPeriods(id: ParamId, versionNumber: number): Promise<any[] | null> {
+  const result = await pool.query(
+    "SELECT periods FROM scenario_versions WHERE scenario_id = $1 AND version_number = $2",
+    [id, versionNumber]
+  );
+  return result.rows[0]?.periods ?? null;
+}
+
+/**
+ * List all versions of a scenario, newest first.
+ *
+ * Each entry carries the fields changed relative to the previous version
+ * (snapshots themselves are omitted to keep the payload small).
+ * Returns null if the scenario does not exist.
+ */
+export async function listScenarioVersions(id: ParamId) {
+  const scenario = await pool.query("SELECT id FROM acquisition_scenarios WHERE id = $1", [id]);
+  if (scenario.rows.length === 0) return null;
+
+  const result = await pool.query(
+    `${VERSION_SELECT_SQL} WHERE v.scenario_id = $1 ORDER BY v.version_number`,
+    [id]
+  );
+
+  const versions = result.rows.map((v, i) => {
+    const { snapshot, ...meta } = v;
+    const changed_fields = i === 0
+      ? []
+      : diffSnapshots(result.rows[i - 1].snapshot, snapshot).map((c) => c.field);
+    return { ...meta, changed_fields };
+  });
+  return versions.reverse();
+}
+
+// ── Diff with returns impact ───────────────────────────────────────
+
+export interface VersionReturns {
+  return_case: string;
+  exit_multiple: number;
+  irr: number | null;
+  mom: number | null;
+}
+
+/**
+ * Headline returns for a snapshot: the combined case at the middle exit
+ * multiple (falls back to the first case when there is no target).
+ * `ctx` must be built from the snapshot (see loadSnapshotContext).
+ * Null when the snapshot has no deal parameters or the engine fails.
+ */
+function computeSnapshotReturns(ctx: ScenarioContext, snapshot: ScenarioSnapshot): VersionReturns | null {
+  const dp = snapshot.deal_parameters as DealParameters | undefined;
+  if (!dp || !(dp.price_paid > 0)) return null;
+
+  try {
+    const { result } = runFullCalculation(ctx, dp);
+    const multiples = [...new Set(result.cases.map((c) => c.exit_multiple))].sort((a, b) => a - b);
+    const midMultiple = multiples[Math.floor(multiples.length / 2)];
+    const atMid = (c: CaseReturn) => c.exit_multiple === midMultiple;
+    const headline = result.cases.find((c) => c.return_case === "Kombinert" && atMid(c))
+      ?? result.cases.find(atMid);
+    if (!headline) return null;
+    return {
+      return_case: headline.return_case,
+      exit_multiple: headline.exit_multiple,
+      irr: headline.irr,
+      mom: headline.mom,
+    };
+  } catch (err) {
+    console.error("Returns calculation failed for scenario version:", err);
+    return null;
+  }
+}
+
+export interface VersionDiff {
+  from: Record<string, any>;
+  to: Record<string, any>;
+  changes: FieldChange[];
+  returns: {
+    from: VersionReturns | null;
+    to: VersionReturns | null;
+    irr_delta: number | null;
+    mom_delta: number | null;
+  };
+}
+
+/**
+ * Field-level diff between two versions plus the resulting IRR/MoM change.
+ *
+ * Each version is priced on the models, FX rates and add-ons it pointed at
+ * (with the models' current periods), so the returns delta covers every
+ * versioned input, a model switch included.
+ */
+export async function diffScenarioVersions(
+  id: ParamId,
+  fromVersion: number,
+  toVersion: number,
+): Promise<VersionDiff | { error: string; _errorStatus: 404 }> {
+  const [from, to] = await Promise.all([
+    getScenarioVersion(id, fromVersion),
+    getScenarioVersion(id, toVersion),
+  ]);
+  if (!from || !to) {
+    return { error: "Version not found", _errorStatus: 404 as const };
+  }
+
+  const scenario = await pool.query("SELECT * FROM acquisition_scenarios WHERE id = $1", [id]);
+  if (scenario.rows.length === 0) {
+    return { error: "Scenario not found", _errorStatus: 404 as const };
+  }
+
+  const [fromCtx, toCtx] = await Promise.all([
+    loadSnapshotContext(scenario.rows[0], from.snapshot),
+    loadSnapshotContext(scenario.rows[0], to.snapshot),
+  ]);
+  const fromReturns = computeSnapshotReturns(fromCtx, from.snapshot);
+  const toReturns = computeSnapshotReturns(toCtx, to.snapshot);
+  const delta = (a: number | null | undefined, b: number | null | undefined) =>
+    a != null && b != null ? b - a : null;
+
+  const { snapshot: _fromSnapshot, ...fromMeta } = from;
+  const { snapshot: _toSnapshot, ...toMeta } = to;
+
+  return {
+    from: fromMeta,
+    to: toMeta,
+    changes: diffSnapshots(from.snapshot, to.snapshot),
+    returns: {
+      from: fromReturns,
+      to: toReturns,
+      irr_delta: delta(fromReturns?.irr, toReturns?.irr),
+      mom_delta: delta(fromReturns?.mom, toReturns?.mom),
+    },
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Synergies — cost and revenue synergies, realisation and integration costs.
+ *
+ * A scenario's synergy plan is a set of year-keyed timelines:
+ *
+ *   cost_synergies_timeline     EBITDA uplift from cost savings
+ *   revenue_synergies_timeline  extra revenue, earning revenue_synergy_margin
+ *   synergy_realisation         share of the planned synergies expected (default 100 %)
+ *   integration_costs_timeline  one-off costs to achieve them (entered positive)
+ *
+ *   2027: cost 20, revenue 50 @ 30 %, realisation 80 %, integration 15
+ *     → cost 16, revenue 40, EBITDA uplift 16 + 12 = 28, integration −15
+ *
+ * Realisation applies to both cost and revenue synergies. Integration costs
+ * sit below EBITDA: they reduce FCF (and taxable profit) in the year incurred
+ * but not the exit EBITDA. A bare year → amount map is read as cost
+ * synergies only, which is what callers passed before revenue synergies.
+ *
+ * Cost synergies can instead be entered as items (synergy_items): a run-rate
+ * phased in from a start year by a template, with a category and a
+ * probability. Items replace the typed cost timeline. The full timeline
+ * assumes every item is delivered; the risk-weighted one scales each item by
+ * its probability and drives the "Risikovektet" return case.
+ *
+ *   IT consolidation, run-rate 20 from 2026, 25/50/100, probability 60 %
+ *     full           2026: 5    2027: 10   2028+: 20
+ *     risk-weighted  2026: 3    2027: 6    2028+: 12
+ *
+ * Add-on targets carry their own cost synergies timelines (see addOns.ts);
+ * their sum is added on top as add_on_cost, realised like the rest.
+ */
+
+export type SynergyCategory = "it" | "premises" | "headcount" | "procurement" | "other";
+
+export const SYNERGY_CATEGORIES: readonly SynergyCategory[] = ["it", "premises", "headcount", "procurement", "other"];
+
+export type PhasingTemplate = "25_50_100" | "s_curve" | "linear_3" | "immediate" | "custom";
+
+/** Share of run-rate reached in each year from the start year; full run-rate after the last. */
+export const PHASING_TEMPLATES: Record<Exclude<PhasingTemplate, "custom">, number[]> = {
+  "25_50_100": [0.25, 0.5, 1],
+  s_curve: [0.1, 0.4, 0.8, 1],
+  linear_3: [1 / 3, 2 / 3, 1],
+  immediate: [1],
+};
+
+export interface SynergyItem {
+  name: string;
+  category: SynergyCategory;
+  /** Annual run-rate once fully phased in. */
+  run_rate: number;
+  /** First year with any synergy. */
+  start_year: number;
+  template: PhasingTemplate;
+  /** Per-year shares (decimal) for the custom template; the last value holds after. */
+  custom_phasing?: number[];
+  /** Confidence that the item is delivered (decimal, default 1). */
+  probability?: number;
+}
+
+export interface SynergyPlan {
+  cost: Record<string, number>;
+  revenue?: Record<string, number>;
+  /** EBITDA margin on revenue synergies (decimal); no EBITDA without it. */
+  revenue_margin?: number | null;
+  /** Year → realisation (decimal); missing years are fully realised. */
+  realisation?: Record<string, number>;
+  integration_costs?: Record<string, number>;
+  /** Itemised cost synergies; when present they replace `cost`. */
+  items?: SynergyItem[];
+  /** Weight items by their probability (the risk-weighted case). */
+  risk_weighted?: boolean;
+  /** Cost synergies from add-on targets (see addOns.ts), on top of the above. */
+  add_on_cost?: Record<string, number>;
+}
+
+/** Either a full plan or a plain cost synergies timeline. */
+export type SynergyInput = Record<string, number> | SynergyPlan;
+
+/** Synergy amounts for one year, after realisation. */
+export interface PeriodSynergies {
+  cost: number;
+  revenue: number;
+  /** EBITDA earned on the revenue synergies. */
+  revenue_ebitda: number;
+  /** Total EBITDA uplift: cost + revenue_ebitda. */
+  ebitda: number;
+  /** One-off integration costs (negative = outflow). */
+  integration_costs: number;
+  realisation: number;
+}
+
+/** Scenario columns the plan is built from (pg NUMERIC arrives as a string). */
+export interface SynergyColumns {
+  cost_synergies_timeline?: Record<string, number> | null;
+  revenue_synergies_timeline?: Record<string, number> | null;
+  revenue_synergy_margin?: number | string | null;
+  synergy_realisation?: Record<string, number> | null;
+  integration_costs_timeline?: Record<string, number> | null;
+  synergy_items?: SynergyItem[] | null;
+  add_on_targets?: { cost_synergies_timeline?: Record<string, number> | null }[] | null;
+}
+
+export function isSynergyPlan(input: SynergyInput): input is SynergyPlan {
+  const cost = (input as SynergyPlan).cost;
+  return typeof cost === "object" && cost !== null;
+}
+
+export function toSynergyPlan(input: SynergyInput | null | undefined): SynergyPlan {
+  if (!input) return { cost: {} };
+  return isSynergyPlan(input) ? input : { cost: input as Record<string, number> };
+}
+
+function yearValue(timeline: Record<string, number> | undefined, year: string): number {
+  const v = Number(timeline?.[year]);
+  return Number.isFinite(v) ? v : 0;
+}
+
+/** Build the synergy plan from a scenario row. */
+export function buildSynergyPlan(scenario: SynergyColumns): SynergyPlan {
+  const margin = scenario.revenue_synergy_margin;
+  return {
+    cost: scenario.cost_synergies_timeline || {},
+    revenue: scenario.revenue_synergies_timeline || {},
+    revenue_margin: margin != null && margin !== "" ? Number(margin) : null,
+    realisation: scenario.synergy_realisation || {},
+    integration_costs: scenario.integration_costs_timeline || {},
+    items: scenario.synergy_items || [],
+    ...(scenario.add_on_targets?.length ? { add_on_cost: sumTimelines(scenario.add_on_targets.map((a) => a.cost_synergies_timeline)) } : {}),
+  };
+}
+
+/** Year-by-year sum of several timelines. */
+function sumTimelines(timelines: (Record<string, number> | null | undefined)[]): Record<string, number> {
+  const total: Record<string, number> = {};
+  for (const timeline of timelines) {
+    for (const year of Object.keys(timeline ?? {})) {
+      const v = yearValue(timeline!, year);
+      if (v !== 0) total[year] = (total[year] ?? 0) + v;
+    }
+  }
+  return total;
+}
+
+/** True when cost synergies come from items (and a risk-weighted case applies). */
+export function hasSynergyItems(input: SynergyInput | null | undefined): boolean {
+  return (toSynergyPlan(input).items?.length ?? 0) > 0;
+}
+
+/** Share of an item's run-rate reached in a year (0 before the start year). */
+export function phasingFactor(item: SynergyItem, year: number): number {
+  const offset = year - item.start_year;
+  if (offset < 0) return 0;
+  const steps = item.template === "custom" ? (item.custom_phasing ?? []) : PHASING_TEMPLATES[item.template];
+  if (!steps || steps.length === 0) return 1;
+  return steps[Math.min(offset, steps.length - 1)];
+}
+
+/** An item's synergy in a year, optionally weighted by its probability. */
+export function itemSynergy(item: SynergyItem, year: number, riskWeighted = false): number {
+  const probability = riskWeighted ? (item.probability ?? 1) : 1;
+  return (Number(item.run_rate) || 0) * phasingFactor(item, year) * probability;
+}
+
+export interface SynergyTimelines {
+  /** Every item delivered in full. */
+  full: Record<string, number>;
+  /** Each item scaled by its probability. */
+  risk_weighted: Record<string, number>;
+  /** Full timeline split by category. */
+  by_category: Partial<Record<SynergyCategory, Record<string, number>>>;
+}
+
+/**
+ * Planned cost synergies per year, before realisation. Without items the
+ * typed cost timeline is used for both the full and risk-weighted views.
+ */
+export function synergyTimelines(input: SynergyInput | null | undefined, years: string[]): SynergyTimelines {
+  const plan = toSynergyPlan(input);
+  const items = plan.items ?? [];
+  const result: SynergyTimelines = { full: {}, risk_weighted: {}, by_category: {} };
+  for (const year of years) {
+    const addOn = yearValue(plan.add_on_cost, year);
+    if (items.length === 0) {
+      result.full[year] = yearValue(plan.cost, year) + addOn;
+      result.risk_weighted[year] = result.full[year];
+      continue;
+    }
+    const y = Number(year);
+    result.full[year] = items.reduce((s, item) => s + itemSynergy(item, y), 0) + addOn;
+    result.risk_weighted[year] = items.reduce((s, item) => s + itemSynergy(item, y, true), 0) + addOn;
+    for (const item of items) {
+      const byYear = (result.by_category[item.category] ??= {});
+      byYear[year] = (byYear[year] ?? 0) + itemSynergy(item, y);
+    }
+  }
+  return result;
+}
+
+/**
+ * The cost synergies timeline a plan implies over the given years (items win
+ * over the typed map; add-on synergies are added).
+ */
+export function plannedCostTimeline(input: SynergyInput | null | undefined, years: string[]): Record<string, number> {
+  const plan = toSynergyPlan(input);
+  const hasAddOns = Object.keys(plan.add_on_cost ?? {}).length > 0;
+  return hasSynergyItems(plan) || hasAddOns ? synergyTimelines(plan, years).full : plan.cost;
+}
+
+/** Realised synergies and integration costs for a year (e.g. "2027"). */
+export function periodSynergies(input: SynergyInput | null | undefined, year: string): PeriodSynergies {
+  const plan = toSynergyPlan(input);
+  const rawRealisation = plan.realisation?.[year];
+  const realisation = rawRealisation != null && Number.isFinite(Number(rawRealisation)) ? Number(rawRealisation) : 1;
+
+  const planned = (plan.items?.length
+    ? plan.items.reduce((s, item) => s + itemSynergy(item, Number(year), plan.risk_weighted), 0)
+    : yearValue(plan.cost, year)) + yearValue(plan.add_on_cost, year);
+  const cost = planned * realisation;
+  const revenue = yearValue(plan.revenue, year) * realisation;
+  const revenueEbitda = revenue * (plan.revenue_margin ?? 0);
+
+  return {
+    cost,
+    revenue,
+    revenue_ebitda: revenueEbitda,
+    ebitda: cost + revenueEbitda,
+    integration_costs: -Math.abs(yearValue(plan.integration_costs, year)),
+    realisation,
+  };
+}
+
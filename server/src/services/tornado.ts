@@ -0,0 +1,96 @@
+/**
+ * Tornado — one-at-a-time sensitivities.
+ *
+ * The sensitivity grid answers "what if these two change together"; a
+ * tornado moves each parameter on its own to a low and a high value while
+ * every other input stays at base, and ranks parameters by how far IRR
+ * moves. Every parameter in `SENSITIVITY_PARAMS` can take part.
+ *
+ * A delta is a signed offset from the base value, either absolute (in the
+ * parameter's own unit: x for the exit multiple, decimals for rates) or
+ * relative (share of the base value, e.g. -0.1 = 10 % lower). Parameters
+ * without a base value (e.g. no preferred equity in the deal) are left out.
+ */
+
+import type { SensitivityParam } from "./proForma.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export interface TornadoDelta {
+  low: number;
+  high: number;
+  mode: "absolute" | "relative";
+}
+
+/** IRR / MoM of one run. */
+export interface TornadoPoint {
+  value: number;
+  irr: number | null;
+  mom: number | null;
+}
+
+export interface TornadoRow {
+  param: SensitivityParam;
+  base_value: number;
+  low: TornadoPoint;
+  high: TornadoPoint;
+  /** |IRR(high) − IRR(low)|, null when either run has no IRR. */
+  irr_swing: number | null;
+  mom_swing: number | null;
+}
+
+export interface TornadoResult {
+  return_case: string;
+  /** Exit multiple every run uses (the base multiple for all but exit_multiple). */
+  exit_multiple: number;
+  base_irr: number | null;
+  base_mom: number | null;
+  /** Largest swing first. */
+  rows: TornadoRow[];
+}
+
+/** Default moves: ±1x on the multiple, ±10 % on amounts, ±1 pp on rates. */
+export const DEFAULT_TORNADO_DELTAS: Record<SensitivityParam, TornadoDelta> = {
+  exit_multiple: { low: -1, high: 1, mode: "absolute" },
+  price_paid: { low: -0.1, high: 0.1, mode: "relative" },
+  interest_rate: { low: -0.01, high: 0.01, mode: "absolute" },
+  ordinary_equity: { low: -0.1, high: 0.1, mode: "relative" },
+  net_debt: { low: -0.1, high: 0.1, mode: "relative" },
+  debt_amortisation: { low: -0.1, high: 0.1, mode: "relative" },
+  cash_sweep_pct: { low: -0.25, high: 0.25, mode: "absolute" },
+  preferred_equity_rate: { low: -0.01, high: 0.01, mode: "absolute" },
+  tax_rate: { low: -0.01, high: 0.01, mode: "absolute" },
+  preferred_equity: { low: -0.1, high: 0.1, mode: "relative" },
+  da_pct_revenue: { low: -0.005, high: 0.005, mode: "absolute" },
+  acquirer_entry_ev: { low: -0.1, high: 0.1, mode: "relative" },
+  base_rate_shift: { low: -0.01, high: 0.01, mode: "absolute" },
+};
+
+/** Parameters that are shares (kept within 0–1). */
+const SHARE_PARAMS = new Set<SensitivityParam>(["cash_sweep_pct", "tax_rate"]);
+
+// ── Values ─────────────────────────────────────────────────────────
+
+/**
+ * Base value moved by one side of the delta. Only the base-rate shift may go
+ * negative; shares stay at or below 100 %.
+ */
+export function shiftValue(param: SensitivityParam, base: number, delta: TornadoDelta, side: "low" | "high"): number {
+  const offset = delta[side];
+  const value = delta.mode === "relative" ? base * (1 + offset) : base + offset;
+  if (param === "base_rate_shift") return value;
+  return SHARE_PARAMS.has(param) ? Math.min(1, Math.max(0, value)) : Math.max(0, value);
+}
+
+// ── Ranking ────────────────────────────────────────────────────────
+
+export function swing(a: number | null, b: number | null): number | null {
+  return a != null && b != null ? Math.abs(b - a) : null;
+}
+
+/** Largest IRR swing first; MoM swing breaks ties, rows without IRR go last. */
+export function rankByImpact(rows: TornadoRow[]): TornadoRow[] {
+  return [...rows].sort((a, b) =>
+    (b.irr_swing ?? -1) - (a.irr_swing ?? -1) || (b.mom_swing ?? -1) - (a.mom_swing ?? -1),
+  );
+}
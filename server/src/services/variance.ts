@@ -0,0 +1,168 @@
+/**
+ * Post-deal variance — actuals loaded after closing against the plan that
+ * went to investment committee (IC), period by period.
+ *
+ *   Plan         the scenario's target periods (the model that went to IC)
+ *                and the cost synergies timeline of the IC scenario version
+ *   Actuals      the actual periods of the actuals model ending after close
+ *   FCF          reported operating FCF, else EBITDA − capex + change in
+ *                NWC + other cash flow items
+ *   Synergies    realised cost synergies (cost_synergies on the actual
+ *                period) against the planned timeline for the year
+ *
+ * Variance is actual − plan (positive = ahead of plan); margin variance is in
+ * percentage points. Totals cover the periods that have actuals.
+ */
+
+import { nwcCashFlow } from "./balanceSheet.js";
+import { periodDateKey } from "./calendarise.js";
+import { toIsoDate } from "./dealTimeline.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export const VARIANCE_METRICS = ["revenue", "ebitda", "ebitda_margin", "fcf", "synergies"] as const;
+export type VarianceMetric = (typeof VARIANCE_METRICS)[number];
+
+export interface VarianceLine {
+  plan: number | null;
+  actual: number | null;
+  /** actual − plan (percentage points for ebitda_margin). */
+  variance: number | null;
+  /** variance / |plan|; null for margins and a zero plan. */
+  variance_pct: number | null;
+}
+
+export interface VariancePeriod {
+  period_date: string;
+  period_label: string;
+  /** Whether the actuals model has this period. */
+  has_actuals: boolean;
+  revenue: VarianceLine;
+  ebitda: VarianceLine;
+  ebitda_margin: VarianceLine;
+  fcf: VarianceLine;
+  synergies: VarianceLine;
+}
+
+export interface VarianceInput {
+  /** Plan periods (annual, reporting currency). */
+  plan: any[];
+  /** Periods of the actuals model (annual, reporting currency). */
+  actuals: any[];
+  /** Planned cost synergies by year ("2026" → amount). */
+  planned_synergies: Record<string, number>;
+  acquisition_date?: string | Date | null;
+}
+
+export interface VarianceReport {
+  periods: VariancePeriod[];
+  /** Sums over the periods with actuals (margin from the summed lines). */
+  totals: Record<VarianceMetric, VarianceLine>;
+}
+
+/** Variance report of a scenario with the models and IC version it compares. */
+export interface PostDealVariance extends VarianceReport {
+  actuals_model_id: number | null;
+  actuals_model_name: string | null;
+  /** Scenario version whose synergies are the plan (null = current scenario). */
+  ic_version: number | null;
+  ic_version_created_at: string | null;
+  reporting_currency: string;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+const num = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = parseFloat(v as string);
+  return Number.isNaN(n) ? null : n;
+};
+
+/** Free cash flow of a period: reported operating FCF, else built from EBITDA. */
+export function periodFcf(p: any): number | null {
+  const reported = num(p?.operating_fcf);
+  if (reported !== null) return reported;
+  const ebitda = num(p?.ebitda_total);
+  if (ebitda === null) return null;
+  return ebitda - Math.abs(num(p.capex) ?? 0) + (nwcCashFlow(p) ?? 0) + (num(p.other_cash_flow_items) ?? 0);
+}
+
+export function varianceLine(plan: number | null, actual: number | null, margin = false): VarianceLine {
+  const variance = plan !== null && actual !== null ? actual - plan : null;
+  return {
+    plan,
+    actual,
+    variance,
+    variance_pct: !margin && variance !== null && plan ? variance / Math.abs(plan) : null,
+  };
+}
+
+const margin = (ebitda: number | null, revenue: number | null) =>
+  ebitda !== null && revenue ? ebitda / revenue : null;
+
+/** Metric values of one period; synergies come from the plan timeline or the actual period. */
+function metrics(p: any | null, synergies: number | null): Record<VarianceMetric, number | null> {
+  const revenue = p ? num(p.revenue_total) : null;
+  const ebitda = p ? num(p.ebitda_total) : null;
+  return {
+    revenue,
+    ebitda,
+    ebitda_margin: margin(ebitda, revenue),
+    fcf: p ? periodFcf(p) : null,
+    synergies,
+  };
+}
+
+const sum = (values: (number | null)[]) =>
+  values.some((v) => v !== null) ? values.reduce<number>((s, v) => s + (v ?? 0), 0) : null;
+
+// ── Analysis ───────────────────────────────────────────────────────
+
+/**
+ * Variance by period over the plan periods ending after close, plus any
+ * actual periods the plan does not cover.
+ */
+export function varianceReport(input: VarianceInput): VarianceReport {
+  const close = toIsoDate(input.acquisition_date ?? null);
+  const afterClose = (p: any) => !close || periodDateKey(p.period_date) > close;
+  const actuals = new Map(
+    input.actuals
+      .filter((p) => p.period_type === "actual" && afterClose(p))
+      .map((p) => [periodDateKey(p.period_date), p]),
+  );
+  const plan = new Map(input.plan.filter(afterClose).map((p) => [periodDateKey(p.period_date), p]));
+  const dates = [...new Set([...plan.keys(), ...actuals.keys()])].sort();
+
+  const periods = dates.map((date): VariancePeriod => {
+    const pp = plan.get(date) ?? null;
+    const ap = actuals.get(date) ?? null;
+    const year = date.slice(0, 4);
+    const plannedSynergies = num(input.planned_synergies[year]);
+    const planned = metrics(pp, plannedSynergies ?? (pp ? 0 : null));
+    const actual = metrics(ap, ap ? num(ap.cost_synergies) ?? 0 : null);
+    return {
+      period_date: date,
+      period_label: (pp ?? ap).period_label,
+      has_actuals: ap !== null,
+      revenue: varianceLine(planned.revenue, actual.revenue),
+      ebitda: varianceLine(planned.ebitda, actual.ebitda),
+      ebitda_margin: varianceLine(planned.ebitda_margin, actual.ebitda_margin, true),
+      fcf: varianceLine(planned.fcf, actual.fcf),
+      synergies: varianceLine(planned.synergies, actual.synergies),
+    };
+  });
+
+  const tracked = periods.filter((p) => p.has_actuals);
+  const total = (metric: VarianceMetric, side: "plan" | "actual") => sum(tracked.map((p) => p[metric][side]));
+  const totals = {} as Record<VarianceMetric, VarianceLine>;
+  for (const metric of ["revenue", "ebitda", "fcf", "synergies"] as const) {
+    totals[metric] = varianceLine(total(metric, "plan"), total(metric, "actual"));
+  }
+  totals.ebitda_margin = varianceLine(
+    margin(totals.ebitda.plan, totals.revenue.plan),
+    margin(totals.ebitda.actual, totals.revenue.actual),
+    true,
+  );
+
+  return { periods, totals };
+}